@@ -92,6 +92,13 @@ const nextConfig: NextConfig = {
     return config
   },
 
+  // Fiscal calendar settings, so aggregation in the browser uses the same periods as the server
+  env: {
+    FISCAL_WEEK_START: process.env.FISCAL_WEEK_START ?? '',
+    FISCAL_PERIOD_PATTERN: process.env.FISCAL_PERIOD_PATTERN ?? '',
+    FISCAL_YEAR_START_MONTH: process.env.FISCAL_YEAR_START_MONTH ?? '',
+  },
+
   // Compression and optimization
   compress: true,
   poweredByHeader: false,
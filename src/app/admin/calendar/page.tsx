@@ -0,0 +1,37 @@
+import { Metadata } from 'next'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { redirect } from 'next/navigation'
+import { CalendarEventManager } from '@/components/analytics/calendar-event-manager'
+
+export const metadata: Metadata = {
+  title: 'Events Calendar - Transcript Analytics Platform',
+  description: 'Manage holidays, client events and outages used by forecasts',
+}
+
+export default async function CalendarPage() {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user) {
+    redirect('/auth/signin')
+  }
+
+  if (session.user.role !== 'admin') {
+    redirect('/unauthorized')
+  }
+
+  return (
+    <div className="container mx-auto py-6">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Events Calendar</h1>
+          <p className="text-muted-foreground">
+            Holidays, client events and outages that forecasts treat as known shifts in volume
+          </p>
+        </div>
+
+        <CalendarEventManager />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,24 @@
+import { Metadata } from 'next'
+import { BacktestDashboard } from '@/components/analytics/backtest-dashboard'
+
+export const metadata: Metadata = {
+  title: 'Model Backtests | Transcript Analytics Platform',
+  description: 'Rolling-origin forecast accuracy for each prediction model',
+}
+
+export default function BacktestsPage() {
+  return (
+    <div className="container mx-auto py-6">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Model Backtests</h1>
+          <p className="text-muted-foreground">
+            Out-of-sample accuracy per model and forecast horizon, to see which model to trust for each client
+          </p>
+        </div>
+
+        <BacktestDashboard />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,24 @@
+import { Metadata } from 'next'
+import { CapacityPlanner } from '@/components/analytics/capacity-planner'
+
+export const metadata: Metadata = {
+  title: 'Capacity Planning | Transcript Analytics Platform',
+  description: 'Reviewer and validator staffing from volume forecasts and AHT',
+}
+
+export default function CapacityPlanningPage() {
+  return (
+    <div className="container mx-auto py-6">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Capacity Planning</h1>
+          <p className="text-muted-foreground">
+            Reviewer and validator hours and FTEs per client, from the latest forecasts and handling times
+          </p>
+        </div>
+
+        <CapacityPlanner />
+      </div>
+    </div>
+  )
+}
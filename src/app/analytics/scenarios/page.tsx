@@ -0,0 +1,24 @@
+import { Metadata } from 'next'
+import { ScenarioPlanner } from '@/components/analytics/scenario-planner'
+
+export const metadata: Metadata = {
+  title: 'Forecast Scenarios | Transcript Analytics Platform',
+  description: 'What-if forecasts with volume uplifts, new clients and churn',
+}
+
+export default function ScenariosPage() {
+  return (
+    <div className="container mx-auto py-6">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Forecast Scenarios</h1>
+          <p className="text-muted-foreground">
+            Compare what-if forecasts against the baseline before committing to staffing or capacity plans
+          </p>
+        </div>
+
+        <ScenarioPlanner />
+      </div>
+    </div>
+  )
+}
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server'
-import { AHTAnalyticsService } from '@/lib/services/aht-analytics'
+import { loadAHTAnalytics, loadRiskContext } from '@/lib/services/aht-analytics'
 
 export async function GET(request: Request) {
   try {
@@ -7,12 +7,12 @@ export async function GET(request: Request) {
     const type = searchParams.get('type') || 'performance'
     const limit = parseInt(searchParams.get('limit') || '10')
     
-    const analyticsService = new AHTAnalyticsService()
+    const analyticsService = await loadAHTAnalytics()
     
     let data
     switch (type) {
       case 'performance':
-        data = analyticsService.getClientPerformance()
+        data = analyticsService.getClientPerformance(await loadRiskContext())
         break
       case 'volume':
         data = analyticsService.getTopClientsByVolume(limit)
@@ -21,7 +21,7 @@ export async function GET(request: Request) {
         data = analyticsService.getHighestAHTClients(limit)
         break
       default:
-        data = analyticsService.getClientPerformance()
+        data = analyticsService.getClientPerformance(await loadRiskContext())
     }
     
     return NextResponse.json({
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { analystOrAdmin } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { AHTImportSchema } from '@/lib/validations/schemas'
+import { AHTService } from '@/lib/database/aht'
+
+/**
+ * POST /api/aht/import - Upsert client AHT values and monthly volumes parsed from the AHT spreadsheet
+ */
+async function handlePOST(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const body = await request.json()
+      const data = AHTImportSchema.parse(body)
+
+      const ahtService = new AHTService()
+      const summary = await ahtService.importAHTData(data)
+
+      return NextResponse.json({
+        success: true,
+        data: summary,
+        message: `Imported ${summary.volumes} monthly volumes for ${summary.clients} clients`
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error importing AHT data:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const POST = withRateLimit(rateLimitConfigs.data, analystOrAdmin(handlePOST))
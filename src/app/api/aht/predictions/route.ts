@@ -1,20 +1,53 @@
-import { NextResponse } from 'next/server'
-import { AHTAnalyticsService } from '@/lib/services/aht-analytics'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { analystOrAdmin } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { AHTPredictionQuerySchema } from '@/lib/validations/schemas'
+import { AHTService } from '@/lib/database/aht'
+import { AHTForecastService } from '@/lib/services/aht-forecast-service'
 
-export async function GET() {
-  try {
-    const analyticsService = new AHTAnalyticsService()
-    const predictions = analyticsService.predictNextMonthAHT()
-    
-    return NextResponse.json({
-      success: true,
-      data: predictions
-    })
-  } catch (error) {
-    console.error('Error generating AHT predictions:', error)
-    return NextResponse.json(
-      { success: false, error: 'Failed to generate AHT predictions' },
-      { status: 500 }
-    )
-  }
-}
\ No newline at end of file
+/**
+ * GET /api/aht/predictions - Review and validation AHT forecasts per client from
+ * its monthly AHT history, with confidence from backtested error
+ */
+async function handleGET(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const { searchParams } = new URL(request.url)
+      const query = AHTPredictionQuerySchema.parse({
+        client: searchParams.get('client') || undefined,
+        periodsAhead: searchParams.get('periodsAhead') || undefined,
+        modelType: searchParams.get('modelType') || undefined,
+        confidenceLevel: searchParams.get('confidenceLevel') || undefined
+      })
+
+      const ahtService = new AHTService()
+      const { clients } = await ahtService.getAHTData()
+
+      const forecastService = new AHTForecastService()
+      const result = await forecastService.forecast(clients, query)
+
+      return NextResponse.json({
+        success: true,
+        data: result.forecasts,
+        skipped: result.skipped
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error generating AHT predictions:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const GET = withRateLimit(rateLimitConfigs.predictions, analystOrAdmin(handleGET))
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { adminOnly } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { RiskRuleService } from '@/lib/database/risk-rules'
+import { RiskRuleUpdateSchema } from '@/lib/validations/schemas'
+import { z } from 'zod'
+
+const ParamsSchema = z.object({
+  id: z.string().uuid('Invalid rule ID')
+})
+
+/**
+ * PUT /api/aht/risk-rules/[id] - Update a risk rule (admin only)
+ */
+async function handlePUT(request: NextRequest, { params }: { params: { id: string } }) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const validatedParams = ParamsSchema.parse(params)
+      const body = await request.json()
+      const validatedData = RiskRuleUpdateSchema.parse(body)
+
+      const riskRuleService = new RiskRuleService()
+      const rule = await riskRuleService.updateRule(validatedParams.id, validatedData)
+
+      if (!rule) {
+        return NextResponse.json(
+          { error: 'Risk rule not found' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: rule,
+        message: 'Risk rule updated successfully'
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error updating risk rule:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+/**
+ * DELETE /api/aht/risk-rules/[id] - Delete a risk rule (admin only)
+ */
+async function handleDELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const validatedParams = ParamsSchema.parse(params)
+
+      const riskRuleService = new RiskRuleService()
+      const deleted = await riskRuleService.deleteRule(validatedParams.id)
+
+      if (!deleted) {
+        return NextResponse.json(
+          { error: 'Risk rule not found' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Risk rule deleted successfully'
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid rule ID', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error deleting risk rule:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const PUT = withRateLimit(rateLimitConfigs.data, adminOnly(handlePUT))
+export const DELETE = withRateLimit(rateLimitConfigs.data, adminOnly(handleDELETE))
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { adminOnly, authenticated, getCurrentUser } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { RiskRuleService } from '@/lib/database/risk-rules'
+import { RiskRuleCreateSchema } from '@/lib/validations/schemas'
+import { DEFAULT_RISK_RULES } from '@/lib/utils/risk-rules'
+import { z } from 'zod'
+
+/**
+ * GET /api/aht/risk-rules - List client risk rules; the defaults when none are stored
+ */
+async function handleGET(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const riskRuleService = new RiskRuleService()
+      const rules = await riskRuleService.getRules()
+
+      return NextResponse.json({
+        success: true,
+        data: rules.length > 0 ? rules : DEFAULT_RISK_RULES,
+        usingDefaults: rules.length === 0
+      })
+    } catch (error) {
+      console.error('Error fetching risk rules:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+/**
+ * POST /api/aht/risk-rules - Create a risk rule (admin only). Once a rule is
+ * stored, only stored rules are used.
+ */
+async function handlePOST(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const user = await getCurrentUser(request)
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Authentication required' },
+          { status: 401 }
+        )
+      }
+
+      const body = await request.json()
+      const validatedData = RiskRuleCreateSchema.parse(body)
+
+      const riskRuleService = new RiskRuleService()
+      const rule = await riskRuleService.createRule(validatedData, user.userId)
+
+      return NextResponse.json({
+        success: true,
+        data: rule,
+        message: 'Risk rule created successfully'
+      }, { status: 201 })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error creating risk rule:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const GET = withRateLimit(rateLimitConfigs.read, authenticated(handleGET))
+export const POST = withRateLimit(rateLimitConfigs.data, adminOnly(handlePOST))
@@ -1,9 +1,9 @@
 import { NextResponse } from 'next/server'
-import { AHTAnalyticsService } from '@/lib/services/aht-analytics'
+import { loadAHTAnalytics } from '@/lib/services/aht-analytics'
 
 export async function GET() {
   try {
-    const analyticsService = new AHTAnalyticsService()
+    const analyticsService = await loadAHTAnalytics()
     const summary = analyticsService.getSummary()
     
     return NextResponse.json({
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { adminOnly, analystOrAdmin, getCurrentUser } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { ForecastTrackingService } from '@/lib/services/forecast-tracking-service'
+
+/**
+ * GET /api/analytics/accuracy - Realized forecast accuracy per client, model and horizon
+ */
+async function handleGET(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const user = await getCurrentUser(request)
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Authentication required' },
+          { status: 401 }
+        )
+      }
+
+      const { searchParams } = new URL(request.url)
+      const clientId = searchParams.get('clientId')
+      const since = searchParams.get('since')
+
+      if (since && isNaN(new Date(since).getTime())) {
+        return NextResponse.json(
+          { error: 'Invalid since date' },
+          { status: 400 }
+        )
+      }
+
+      const trackingService = new ForecastTrackingService()
+      const accuracy = await trackingService.getAccuracy(
+        clientId || undefined,
+        since ? new Date(since) : undefined
+      )
+
+      return NextResponse.json({
+        success: true,
+        data: accuracy
+      })
+    } catch (error) {
+      console.error('Error fetching forecast accuracy:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+/**
+ * POST /api/analytics/accuracy - Record matured forecasts against actuals and check for accuracy decay.
+ * Intended to be called on a schedule, e.g. daily after imports.
+ */
+async function handlePOST(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const trackingService = new ForecastTrackingService()
+      const report = await trackingService.run()
+
+      return NextResponse.json({
+        success: true,
+        data: report,
+        message: `Recorded ${report.recorded} forecast outcomes`
+      })
+    } catch (error) {
+      console.error('Error tracking forecast accuracy:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const GET = withRateLimit(rateLimitConfigs.read, analystOrAdmin(handleGET))
+export const POST = withRateLimit(rateLimitConfigs.standard, adminOnly(handlePOST))
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { analystOrAdmin, authenticated } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { AnomalyService } from '@/lib/database/anomalies'
+import { AnomalyDetectionService } from '@/lib/services/anomaly-detection-service'
+import { getAnomalyDetectionConfig } from '@/lib/config/anomaly-detection'
+import { AnomalyQuerySchema, AnomalyRunSchema } from '@/lib/validations/schemas'
+import { z } from 'zod'
+
+/**
+ * GET /api/analytics/anomalies - Stored volume anomalies, most recent first
+ */
+async function handleGET(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const { searchParams } = new URL(request.url)
+      const query = AnomalyQuerySchema.parse({
+        clientId: searchParams.get('clientId') || undefined,
+        granularity: searchParams.get('granularity') || undefined,
+        severity: searchParams.get('severity') || undefined,
+        startDate: searchParams.get('startDate') || undefined,
+        endDate: searchParams.get('endDate') || undefined,
+        limit: searchParams.get('limit') || undefined
+      })
+
+      const anomalyService = new AnomalyService()
+      const anomalies = await anomalyService.getAnomalies(query)
+
+      return NextResponse.json({
+        success: true,
+        data: anomalies
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error fetching volume anomalies:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+/**
+ * POST /api/analytics/anomalies - Re-run anomaly detection. Imports and syncs run it
+ * automatically; without a since date the sync lookback window is checked.
+ */
+async function handlePOST(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const body = await request.json().catch(() => ({}))
+      const { since, clientNames } = AnomalyRunSchema.parse(body)
+      const lookbackDays = getAnomalyDetectionConfig().syncLookbackDays
+
+      const detectionService = new AnomalyDetectionService()
+      const report = await detectionService.run({
+        since: since ?? new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000),
+        clientNames
+      })
+
+      return NextResponse.json({
+        success: true,
+        data: report,
+        message: `Found ${report.anomalies.length} anomalies across ${report.clientsChecked} clients`
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error detecting volume anomalies:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const GET = withRateLimit(rateLimitConfigs.read, authenticated(handleGET))
+export const POST = withRateLimit(rateLimitConfigs.standard, analystOrAdmin(handlePOST))
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { analystOrAdmin, getCurrentUser } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { TranscriptService } from '@/lib/database/transcripts'
+import { BacktestService as BacktestStore } from '@/lib/database/backtests'
+import { backtestService } from '@/lib/services/backtest-service'
+import { BacktestRequestSchema } from '@/lib/validations/schemas'
+import { z } from 'zod'
+
+/**
+ * GET /api/analytics/backtests - Get stored backtest runs
+ */
+async function handleGET(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const user = await getCurrentUser(request)
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Authentication required' },
+          { status: 401 }
+        )
+      }
+
+      const { searchParams } = new URL(request.url)
+      const clientId = searchParams.get('clientId')
+      const predictionType = searchParams.get('predictionType') as 'daily' | 'weekly' | 'monthly' | null
+
+      const backtestStore = new BacktestStore()
+      const runs = await backtestStore.getBacktestRuns(
+        clientId || undefined,
+        predictionType || undefined
+      )
+
+      return NextResponse.json({
+        success: true,
+        data: runs
+      })
+    } catch (error) {
+      console.error('Error fetching backtests:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+/**
+ * POST /api/analytics/backtests - Backtest models over rolling forecast origins
+ */
+async function handlePOST(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const user = await getCurrentUser(request)
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Authentication required' },
+          { status: 401 }
+        )
+      }
+
+      const body = await request.json()
+      const validatedData = BacktestRequestSchema.parse(body)
+
+      const transcriptService = new TranscriptService()
+      const transcriptResult = await transcriptService.getTranscripts({
+        clientId: validatedData.clientId,
+        page: 1,
+        limit: 10000 // Get all historical data
+      })
+
+      if (!transcriptResult.data || transcriptResult.data.length === 0) {
+        return NextResponse.json(
+          { error: 'Insufficient historical data for backtesting' },
+          { status: 400 }
+        )
+      }
+
+      let report
+      try {
+        report = await backtestService.runBacktest(transcriptResult.data, {
+          clientName: validatedData.clientName,
+          predictionType: validatedData.predictionType,
+          modelTypes: validatedData.modelTypes,
+          horizon: validatedData.horizon,
+          initialWindow: validatedData.initialWindow,
+          step: validatedData.step,
+          windowType: validatedData.windowType,
+          maxOrigins: validatedData.maxOrigins,
+          seasonLength: validatedData.seasonLength,
+          confidenceLevel: validatedData.confidenceLevel
+        })
+      } catch (error) {
+        if (error instanceof Error && error.message.startsWith('Insufficient data')) {
+          return NextResponse.json(
+            { error: error.message },
+            { status: 400 }
+          )
+        }
+        throw error
+      }
+
+      // Keep client backtests so the dashboard can show accuracy history per client
+      const clientId = validatedData.clientId ||
+        transcriptResult.data.find(t => t.clientName === validatedData.clientName)?.clientId
+      let runIds: string[] = []
+      if (clientId) {
+        const backtestStore = new BacktestStore()
+        runIds = await backtestStore.saveBacktestReport(report, clientId, user.userId)
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { ...report, runIds },
+        message: 'Backtest completed successfully'
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error running backtest:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const GET = withRateLimit(rateLimitConfigs.read, analystOrAdmin(handleGET))
+export const POST = withRateLimit(rateLimitConfigs.predictions, analystOrAdmin(handlePOST))
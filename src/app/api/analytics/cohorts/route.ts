@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticated } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { SegmentationService } from '@/lib/services/segmentation-service'
+import { parseSegmentId } from '@/lib/utils/client-segmentation'
+import { CohortQuerySchema } from '@/lib/validations/schemas'
+import { z } from 'zod'
+
+/**
+ * GET /api/analytics/cohorts - Volume ramp of clients by onboarding month over
+ * their first `months` months, optionally for one segment
+ */
+async function handleGET(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const { searchParams } = new URL(request.url)
+      const query = CohortQuerySchema.parse({
+        months: searchParams.get('months') || undefined,
+        segment: searchParams.get('segment') || undefined
+      })
+
+      if (query.segment && !parseSegmentId(query.segment)) {
+        return NextResponse.json(
+          { error: `Unknown segment: ${query.segment}` },
+          { status: 400 }
+        )
+      }
+
+      const segmentationService = new SegmentationService()
+      const cohorts = await segmentationService.cohorts(query.months, query.segment)
+
+      return NextResponse.json({
+        success: true,
+        data: cohorts
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error building client cohorts:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const GET = withRateLimit(rateLimitConfigs.read, authenticated(handleGET))
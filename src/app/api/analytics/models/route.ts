@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { analystOrAdmin, getCurrentUser } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { createModelRegistry } from '@/lib/services/model-registry'
+import { ModelRegistryKeySchema, ModelRegistryActionSchema } from '@/lib/validations/schemas'
+import { z } from 'zod'
+
+/**
+ * GET /api/analytics/models - List registered model versions for a client
+ */
+async function handleGET(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const user = await getCurrentUser(request)
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Authentication required' },
+          { status: 401 }
+        )
+      }
+
+      const registry = createModelRegistry()
+      if (!registry) {
+        return NextResponse.json(
+          { error: 'Model registry is disabled' },
+          { status: 404 }
+        )
+      }
+
+      const { searchParams } = new URL(request.url)
+      const key = ModelRegistryKeySchema.parse({
+        clientName: searchParams.get('clientName') || undefined,
+        modelType: searchParams.get('modelType'),
+        predictionType: searchParams.get('predictionType')
+      })
+
+      const versions = await registry.listVersions({
+        clientKey: key.clientName,
+        modelType: key.modelType,
+        predictionType: key.predictionType
+      })
+
+      return NextResponse.json({
+        success: true,
+        data: versions
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error fetching model versions:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+/**
+ * POST /api/analytics/models - Pin, unpin or roll back a client's model version
+ */
+async function handlePOST(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const user = await getCurrentUser(request)
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Authentication required' },
+          { status: 401 }
+        )
+      }
+
+      const registry = createModelRegistry()
+      if (!registry) {
+        return NextResponse.json(
+          { error: 'Model registry is disabled' },
+          { status: 404 }
+        )
+      }
+
+      const body = await request.json()
+      const validatedData = ModelRegistryActionSchema.parse(body)
+      const key = {
+        clientKey: validatedData.clientName,
+        modelType: validatedData.modelType,
+        predictionType: validatedData.predictionType
+      }
+
+      try {
+        switch (validatedData.action) {
+          case 'pin':
+            await registry.pinVersion(key, validatedData.version as number)
+            break
+          case 'unpin':
+            await registry.unpin(key)
+            break
+          case 'rollback':
+            await registry.rollback(key)
+            break
+        }
+      } catch (error) {
+        if (error instanceof Error && /not found|No earlier model version/.test(error.message)) {
+          return NextResponse.json(
+            { error: error.message },
+            { status: 404 }
+          )
+        }
+        throw error
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: await registry.listVersions(key),
+        message: `Model ${validatedData.action} applied successfully`
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error updating model registry:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const GET = withRateLimit(rateLimitConfigs.read, analystOrAdmin(handleGET))
+export const POST = withRateLimit(rateLimitConfigs.standard, analystOrAdmin(handlePOST))
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { analystOrAdmin, getCurrentUser } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { getPredictionJobConfig } from '@/lib/config/prediction-jobs'
+import { getPredictionJobQueue } from '@/lib/services/prediction-job-queue'
+import { z } from 'zod'
+
+const ParamsSchema = z.object({
+  id: z.string().uuid('Invalid job ID')
+})
+
+/**
+ * GET /api/analytics/predictions/jobs/[id]/events - Server-sent events stream
+ * of a prediction job. Sends a `status` event whenever the status changes and
+ * closes after the job completes or fails.
+ */
+async function handleGET(request: NextRequest, { params }: { params: { id: string } }) {
+  const user = await getCurrentUser(request)
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  const validation = ParamsSchema.safeParse(params)
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Validation failed', details: validation.error.issues },
+      { status: 400 }
+    )
+  }
+
+  const queue = getPredictionJobQueue()
+  const jobId = validation.data.id
+  const job = await queue.getJob(jobId)
+
+  if (!job || (job.createdBy !== user.userId && user.role !== 'admin')) {
+    return NextResponse.json(
+      { error: 'Prediction job not found' },
+      { status: 404 }
+    )
+  }
+
+  const { pollIntervalMs } = getPredictionJobConfig()
+  const encoder = new TextEncoder()
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let lastStatus: string | undefined
+
+      const poll = async () => {
+        try {
+          const current = await queue.getJob(jobId)
+          if (!current) {
+            controller.close()
+            return
+          }
+
+          if (current.status !== lastStatus) {
+            lastStatus = current.status
+            controller.enqueue(encoder.encode(`event: status\ndata: ${JSON.stringify(current)}\n\n`))
+          }
+
+          if (current.status === 'completed' || current.status === 'failed') {
+            controller.close()
+            return
+          }
+
+          timer = setTimeout(poll, pollIntervalMs)
+        } catch (error) {
+          console.error('Error streaming prediction job:', error)
+          controller.error(error)
+        }
+      }
+
+      void poll()
+    },
+    cancel() {
+      clearTimeout(timer)
+    }
+  })
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  })
+}
+
+export const GET = withRateLimit(rateLimitConfigs.read, analystOrAdmin(handleGET))
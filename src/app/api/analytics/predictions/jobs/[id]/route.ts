@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { analystOrAdmin, getCurrentUser } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { getPredictionJobQueue } from '@/lib/services/prediction-job-queue'
+import { z } from 'zod'
+
+const ParamsSchema = z.object({
+  id: z.string().uuid('Invalid job ID')
+})
+
+/**
+ * GET /api/analytics/predictions/jobs/[id] - Status of a queued prediction job,
+ * with its result once completed
+ */
+async function handleGET(request: NextRequest, { params }: { params: { id: string } }) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const user = await getCurrentUser(request)
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Authentication required' },
+          { status: 401 }
+        )
+      }
+
+      const validatedParams = ParamsSchema.parse(params)
+      const job = await getPredictionJobQueue().getJob(validatedParams.id)
+
+      // Analysts only see their own jobs
+      if (!job || (job.createdBy !== user.userId && user.role !== 'admin')) {
+        return NextResponse.json(
+          { error: 'Prediction job not found' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: job
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error fetching prediction job:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const GET = withRateLimit(rateLimitConfigs.read, analystOrAdmin(handleGET))
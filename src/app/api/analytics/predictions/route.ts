@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { analystOrAdmin, getCurrentUser } from '@/lib/middleware/auth'
 import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
-import { performanceMiddleware, measureModelPerformance } from '@/lib/middleware/performance-middleware'
-import { TranscriptService } from '@/lib/database/transcripts'
-import { PredictionService } from '@/lib/services/prediction-service'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { PredictionService as PredictionStore } from '@/lib/database/predictions'
+import { getPredictionJobQueue } from '@/lib/services/prediction-job-queue'
 import { PredictionRequestSchema } from '@/lib/validations/schemas'
 import { z } from 'zod'
 
@@ -25,11 +25,12 @@ async function handleGET(request: NextRequest) {
       const clientId = searchParams.get('clientId')
       const predictionType = searchParams.get('predictionType') as 'daily' | 'weekly' | 'monthly' | null
 
-      // Get predictions from database (implement this in prediction service)
-      const predictions = await PredictionService.getPredictions({
-        clientId: clientId || undefined,
-        predictionType: predictionType || undefined
-      })
+      // Get stored predictions, including their interval bounds
+      const predictionStore = new PredictionStore()
+      const predictions = await predictionStore.getPredictions(
+        clientId || undefined,
+        predictionType || undefined
+      )
 
       return NextResponse.json({
         success: true,
@@ -46,7 +47,10 @@ async function handleGET(request: NextRequest) {
 }
 
 /**
- * POST /api/analytics/predictions - Generate new predictions
+ * POST /api/analytics/predictions - Queue new predictions, or reconciled
+ * predictions for every client and the total when `reconciliation` is set.
+ * Training runs in a worker thread; poll /api/analytics/predictions/jobs/{jobId}
+ * or stream its /events for the result.
  */
 async function handlePOST(request: NextRequest) {
   return performanceMiddleware(request, async () => {
@@ -62,41 +66,16 @@ async function handlePOST(request: NextRequest) {
       const body = await request.json()
       const validatedData = PredictionRequestSchema.parse(body)
 
-      // Fetch historical data for predictions
-      const transcriptService = new TranscriptService()
-      const transcriptResult = await transcriptService.getTranscripts({
-        clientId: validatedData.clientId,
-        page: 1,
-        limit: 10000 // Get all historical data
-      })
+      const job = await getPredictionJobQueue().enqueue(validatedData, user.userId)
 
-      if (!transcriptResult.data || transcriptResult.data.length === 0) {
-        return NextResponse.json(
-          { error: 'Insufficient historical data for predictions' },
-          { status: 400 }
-        )
-      }
-
-      // Generate predictions with performance monitoring
-      const predictions = await measureModelPerformance(
-        validatedData.modelType,
-        async () => {
-          return await PredictionService.generatePredictions({
-            data: transcriptResult.data,
-            predictionType: validatedData.predictionType,
-            periodsAhead: validatedData.periodsAhead,
-            modelType: validatedData.modelType,
-            clientId: validatedData.clientId,
-            createdBy: user.userId
-          })
-        }
+      return NextResponse.json(
+        {
+          success: true,
+          data: { jobId: job.id, status: job.status },
+          message: 'Prediction job queued'
+        },
+        { status: 202 }
       )
-
-      return NextResponse.json({
-        success: true,
-        data: predictions,
-        message: 'Predictions generated successfully'
-      })
     } catch (error) {
       if (error instanceof z.ZodError) {
         return NextResponse.json(
@@ -105,7 +84,7 @@ async function handlePOST(request: NextRequest) {
         )
       }
 
-      console.error('Error generating predictions:', error)
+      console.error('Error queueing predictions:', error)
       return NextResponse.json(
         { error: 'Internal server error' },
         { status: 500 }
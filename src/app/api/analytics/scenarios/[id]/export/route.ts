@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { analystOrAdmin } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { ScenarioService } from '@/lib/database/scenarios'
+import { exportService } from '@/lib/services/export-service'
+import { z } from 'zod'
+
+const ParamsSchema = z.object({
+  id: z.string().uuid('Invalid scenario ID')
+})
+
+const ExportQuerySchema = z.object({
+  format: z.enum(['csv', 'pdf']).default('csv')
+})
+
+/**
+ * GET /api/analytics/scenarios/[id]/export?format=csv|pdf - Download a scenario next to its baseline
+ */
+async function handleGET(request: NextRequest, { params }: { params: { id: string } }) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const validatedParams = ParamsSchema.parse(params)
+      const { searchParams } = new URL(request.url)
+      const query = ExportQuerySchema.parse({
+        format: searchParams.get('format') || undefined
+      })
+
+      const scenarioService = new ScenarioService()
+      const scenario = await scenarioService.getScenarioById(validatedParams.id)
+
+      if (!scenario) {
+        return NextResponse.json(
+          { error: 'Scenario not found' },
+          { status: 404 }
+        )
+      }
+
+      const result = await exportService.exportScenario(scenario, query.format)
+
+      if (!result.success || !result.data) {
+        return NextResponse.json(
+          { error: result.error || 'Export failed' },
+          { status: 500 }
+        )
+      }
+
+      if (query.format === 'pdf') {
+        const pdfBuffer = await (result.data as Blob).arrayBuffer()
+        return new NextResponse(pdfBuffer, {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/pdf',
+            'Content-Disposition': `attachment; filename="${result.filename}"`
+          }
+        })
+      }
+
+      return new NextResponse(result.data as string, {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="${result.filename}"`
+        }
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request data', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Scenario export error:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const GET = withRateLimit(rateLimitConfigs.data, analystOrAdmin(handleGET))
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { analystOrAdmin } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { ScenarioService } from '@/lib/database/scenarios'
+import { ScenarioUpdateSchema } from '@/lib/validations/schemas'
+import { z } from 'zod'
+
+const ParamsSchema = z.object({
+  id: z.string().uuid('Invalid scenario ID')
+})
+
+/**
+ * GET /api/analytics/scenarios/[id] - Scenario with its baseline and adjusted forecasts
+ */
+async function handleGET(request: NextRequest, { params }: { params: { id: string } }) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const validatedParams = ParamsSchema.parse(params)
+
+      const scenarioService = new ScenarioService()
+      const scenario = await scenarioService.getScenarioById(validatedParams.id)
+
+      if (!scenario) {
+        return NextResponse.json(
+          { error: 'Scenario not found' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: scenario
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid scenario ID', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error fetching scenario:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+/**
+ * PUT /api/analytics/scenarios/[id] - Rename a scenario or replace its adjustments
+ */
+async function handlePUT(request: NextRequest, { params }: { params: { id: string } }) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const validatedParams = ParamsSchema.parse(params)
+      const body = await request.json()
+      const validatedData = ScenarioUpdateSchema.parse(body)
+
+      const scenarioService = new ScenarioService()
+      let scenario
+      try {
+        scenario = await scenarioService.updateScenario(validatedParams.id, validatedData)
+      } catch (error) {
+        if (error instanceof Error && /^(No baseline forecast|Client already has)/.test(error.message)) {
+          return NextResponse.json(
+            { error: error.message },
+            { status: 400 }
+          )
+        }
+        throw error
+      }
+
+      if (!scenario) {
+        return NextResponse.json(
+          { error: 'Scenario not found' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: scenario,
+        message: 'Scenario updated successfully'
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error updating scenario:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+/**
+ * DELETE /api/analytics/scenarios/[id] - Delete a scenario
+ */
+async function handleDELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const validatedParams = ParamsSchema.parse(params)
+
+      const scenarioService = new ScenarioService()
+      const deleted = await scenarioService.deleteScenario(validatedParams.id)
+
+      if (!deleted) {
+        return NextResponse.json(
+          { error: 'Scenario not found' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Scenario deleted successfully'
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid scenario ID', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error deleting scenario:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const GET = withRateLimit(rateLimitConfigs.read, analystOrAdmin(handleGET))
+export const PUT = withRateLimit(rateLimitConfigs.standard, analystOrAdmin(handlePUT))
+export const DELETE = withRateLimit(rateLimitConfigs.standard, analystOrAdmin(handleDELETE))
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { analystOrAdmin, getCurrentUser } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { ScenarioService } from '@/lib/database/scenarios'
+import { PredictionService as PredictionStore } from '@/lib/database/predictions'
+import { ScenarioCreateSchema } from '@/lib/validations/schemas'
+import { PredictionResult } from '@/types/transcript'
+import { z } from 'zod'
+
+/**
+ * GET /api/analytics/scenarios - List saved what-if scenarios
+ */
+async function handleGET(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const scenarioService = new ScenarioService()
+      const scenarios = await scenarioService.getScenarios()
+
+      return NextResponse.json({
+        success: true,
+        data: scenarios
+      })
+    } catch (error) {
+      console.error('Error fetching scenarios:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+/**
+ * POST /api/analytics/scenarios - Create a scenario over the latest stored client forecasts
+ */
+async function handlePOST(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const user = await getCurrentUser(request)
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Authentication required' },
+          { status: 401 }
+        )
+      }
+
+      const body = await request.json()
+      const validatedData = ScenarioCreateSchema.parse(body)
+
+      // Latest forecast per client forms the baseline
+      const predictionStore = new PredictionStore()
+      let baseline: PredictionResult[]
+      if (validatedData.clientIds && validatedData.clientIds.length > 0) {
+        const latest = await Promise.all(
+          validatedData.clientIds.map(clientId =>
+            predictionStore.getLatestPredictionByClient(clientId, validatedData.predictionType)
+          )
+        )
+        baseline = latest.filter((prediction): prediction is PredictionResult => prediction !== null)
+      } else {
+        const predictions = await predictionStore.getPredictions(undefined, validatedData.predictionType)
+        const seen = new Set<string>()
+        baseline = predictions.filter(prediction => {
+          if (!prediction.clientId || seen.has(prediction.clientId)) return false
+          seen.add(prediction.clientId)
+          return true
+        })
+      }
+
+      if (baseline.length === 0) {
+        return NextResponse.json(
+          { error: `No stored ${validatedData.predictionType} forecasts to base the scenario on` },
+          { status: 400 }
+        )
+      }
+
+      const scenarioService = new ScenarioService()
+      let scenario
+      try {
+        scenario = await scenarioService.createScenario({
+          name: validatedData.name,
+          description: validatedData.description,
+          adjustments: validatedData.adjustments,
+          baseline
+        }, user.userId)
+      } catch (error) {
+        if (error instanceof Error && /^(No baseline forecast|Client already has)/.test(error.message)) {
+          return NextResponse.json(
+            { error: error.message },
+            { status: 400 }
+          )
+        }
+        throw error
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: scenario,
+        message: 'Scenario created successfully'
+      }, { status: 201 })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error creating scenario:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const GET = withRateLimit(rateLimitConfigs.read, analystOrAdmin(handleGET))
+export const POST = withRateLimit(rateLimitConfigs.standard, analystOrAdmin(handlePOST))
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticated } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { SegmentationService } from '@/lib/services/segmentation-service'
+import { SegmentQuerySchema } from '@/lib/validations/schemas'
+import { z } from 'zod'
+
+/**
+ * GET /api/analytics/segments - Client segments with each client's features,
+ * by rule-based tiers or k-means (`method`, `clusters`)
+ */
+async function handleGET(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const { searchParams } = new URL(request.url)
+      const query = SegmentQuerySchema.parse({
+        method: searchParams.get('method') || undefined,
+        clusters: searchParams.get('clusters') || undefined
+      })
+
+      const segmentationService = new SegmentationService()
+      const segmentation = await segmentationService.segment(query)
+
+      return NextResponse.json({
+        success: true,
+        data: segmentation
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error segmenting clients:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const GET = withRateLimit(rateLimitConfigs.read, authenticated(handleGET))
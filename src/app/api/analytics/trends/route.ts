@@ -3,6 +3,10 @@ import { authenticated, getCurrentUser } from '@/lib/middleware/auth'
 import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
 import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
 import { TranscriptService } from '@/lib/database/transcripts'
+import { decomposeVolume } from '@/lib/utils/seasonal-decomposition'
+import { periodKey } from '@/lib/utils/fiscal-calendar'
+import { getFiscalCalendarConfig } from '@/lib/config/fiscal-calendar'
+import { SegmentationService } from '@/lib/services/segmentation-service'
 import { z } from 'zod'
 
 const TrendsQuerySchema = z.object({
@@ -10,7 +14,12 @@ const TrendsQuerySchema = z.object({
   startDate: z.string().datetime().optional(),
   endDate: z.string().datetime().optional(),
   transcriptType: z.string().optional(),
-  granularity: z.enum(['daily', 'weekly', 'monthly']).default('monthly')
+  granularity: z.enum(['daily', 'weekly', 'monthly']).default('monthly'),
+  // Limit the trends (and decomposition) to one client by name
+  clientName: z.string().min(1).optional(),
+  // Limit the trends to the clients of a segment
+  segment: z.string().min(1).optional(),
+  decompose: z.enum(['true', 'false']).optional().transform(value => value === 'true')
 })
 
 interface TrendData {
@@ -25,7 +34,8 @@ interface TrendData {
 }
 
 /**
- * GET /api/analytics/trends - Get trend analysis data
+ * GET /api/analytics/trends - Get trend analysis data. With decompose=true the response also
+ * holds a seasonal decomposition of the client's (or all clients') volume.
  */
 async function handleGET(request: NextRequest) {
   return performanceMiddleware(request, async () => {
@@ -43,6 +53,16 @@ async function handleGET(request: NextRequest) {
       const queryParams = Object.fromEntries(searchParams.entries())
       const validatedQuery = TrendsQuerySchema.parse(queryParams)
 
+      const segmentClients = validatedQuery.segment
+        ? await new SegmentationService().resolveSegment(validatedQuery.segment)
+        : undefined
+      if (segmentClients === null) {
+        return NextResponse.json(
+          { error: `Unknown segment: ${validatedQuery.segment}` },
+          { status: 400 }
+        )
+      }
+
       // Fetch transcript data with filters
       const transcriptService = new TranscriptService()
       const transcriptResult = await transcriptService.getTranscripts({
@@ -50,14 +70,26 @@ async function handleGET(request: NextRequest) {
         startDate: validatedQuery.startDate ? new Date(validatedQuery.startDate) : undefined,
         endDate: validatedQuery.endDate ? new Date(validatedQuery.endDate) : undefined,
         transcriptType: validatedQuery.transcriptType,
+        clientNames: segmentClients,
         page: 1,
         limit: 10000 // Get all for trend analysis
       })
 
-      if (!transcriptResult.data || transcriptResult.data.length === 0) {
+      const data = validatedQuery.clientName
+        ? (transcriptResult.data || []).filter(item =>
+          item.clientName.toLowerCase() === validatedQuery.clientName!.toLowerCase())
+        : transcriptResult.data || []
+
+      // Trend, weekly and yearly seasonality and residual for the client or all clients
+      const decomposition = validatedQuery.decompose
+        ? { decomposition: decomposeVolume(data, validatedQuery.granularity, validatedQuery.clientName) }
+        : {}
+
+      if (data.length === 0) {
         return NextResponse.json({
           success: true,
           data: {
+            ...decomposition,
             trends: [],
             summary: {
               totalPeriods: 0,
@@ -70,7 +102,7 @@ async function handleGET(request: NextRequest) {
       }
 
       // Calculate trends based on granularity
-      const trends = calculateTrends(transcriptResult.data, validatedQuery.granularity)
+      const trends = calculateTrends(data, validatedQuery.granularity)
       const summary = calculateTrendSummary(trends)
 
       return NextResponse.json({
@@ -78,6 +110,7 @@ async function handleGET(request: NextRequest) {
         data: {
           trends,
           summary,
+          ...decomposition,
           granularity: validatedQuery.granularity,
           filters: validatedQuery
         }
@@ -103,31 +136,19 @@ function calculateTrends(data: any[], granularity: 'daily' | 'weekly' | 'monthly
   // Group data by period
   const periodData: Record<string, { count: number; clients: Record<string, number> }> = {}
 
+  const calendar = getFiscalCalendarConfig()
+
   data.forEach(item => {
-    const date = new Date(item.date)
-    let periodKey: string
-
-    switch (granularity) {
-      case 'daily':
-        periodKey = date.toISOString().split('T')[0]
-        break
-      case 'weekly':
-        const weekStart = new Date(date)
-        weekStart.setDate(date.getDate() - date.getDay())
-        periodKey = weekStart.toISOString().split('T')[0]
-        break
-      case 'monthly':
-        periodKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
-        break
-    }
+    // Days, weeks from the configured week start, and calendar months or fiscal periods
+    const key = periodKey(item.date, granularity, calendar)
 
-    if (!periodData[periodKey]) {
-      periodData[periodKey] = { count: 0, clients: {} }
+    if (!periodData[key]) {
+      periodData[key] = { count: 0, clients: {} }
     }
 
-    periodData[periodKey].count += item.transcriptCount
-    periodData[periodKey].clients[item.clientName] = 
-      (periodData[periodKey].clients[item.clientName] || 0) + item.transcriptCount
+    periodData[key].count += item.transcriptCount
+    periodData[key].clients[item.clientName] = 
+      (periodData[key].clients[item.clientName] || 0) + item.transcriptCount
   })
 
   // Convert to trend data with change calculations
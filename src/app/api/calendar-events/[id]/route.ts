@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { adminOnly } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { CalendarEventService } from '@/lib/database/calendar-events'
+import { CalendarEventUpdateSchema } from '@/lib/validations/schemas'
+import { z } from 'zod'
+
+const ParamsSchema = z.object({
+  id: z.string().uuid('Invalid event ID')
+})
+
+/**
+ * PUT /api/calendar-events/[id] - Update a calendar event (admin only)
+ */
+async function handlePUT(request: NextRequest, { params }: { params: { id: string } }) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const validatedParams = ParamsSchema.parse(params)
+      const body = await request.json()
+      const validatedData = CalendarEventUpdateSchema.parse(body)
+
+      const calendarEventService = new CalendarEventService()
+      let event
+      try {
+        event = await calendarEventService.updateEvent(validatedParams.id, validatedData)
+      } catch (error) {
+        if (error instanceof Error && /^(End date must be|Client not found)/.test(error.message)) {
+          return NextResponse.json(
+            { error: error.message },
+            { status: 400 }
+          )
+        }
+        throw error
+      }
+
+      if (!event) {
+        return NextResponse.json(
+          { error: 'Calendar event not found' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: event,
+        message: 'Calendar event updated successfully'
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error updating calendar event:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+/**
+ * DELETE /api/calendar-events/[id] - Delete a calendar event (admin only)
+ */
+async function handleDELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const validatedParams = ParamsSchema.parse(params)
+
+      const calendarEventService = new CalendarEventService()
+      const deleted = await calendarEventService.deleteEvent(validatedParams.id)
+
+      if (!deleted) {
+        return NextResponse.json(
+          { error: 'Calendar event not found' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Calendar event deleted successfully'
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid event ID', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error deleting calendar event:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const PUT = withRateLimit(rateLimitConfigs.data, adminOnly(handlePUT))
+export const DELETE = withRateLimit(rateLimitConfigs.data, adminOnly(handleDELETE))
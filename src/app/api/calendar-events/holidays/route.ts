@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { adminOnly, getCurrentUser } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { CalendarEventService } from '@/lib/database/calendar-events'
+import { countryHolidays } from '@/lib/utils/holidays'
+import { HolidayImportSchema } from '@/lib/validations/schemas'
+import { z } from 'zod'
+
+/**
+ * POST /api/calendar-events/holidays - Import a country's public holidays for a year (admin only)
+ */
+async function handlePOST(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const user = await getCurrentUser(request)
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Authentication required' },
+          { status: 401 }
+        )
+      }
+
+      const body = await request.json()
+      const validatedData = HolidayImportSchema.parse(body)
+
+      const holidays = countryHolidays(validatedData.countryCode, validatedData.year)
+      const calendarEventService = new CalendarEventService()
+
+      let clientId
+      try {
+        clientId = await calendarEventService.resolveClientId(validatedData.clientId, validatedData.clientName)
+      } catch (error) {
+        if (error instanceof Error && error.message.startsWith('Client not found')) {
+          return NextResponse.json(
+            { error: error.message },
+            { status: 400 }
+          )
+        }
+        throw error
+      }
+
+      const imported = await calendarEventService.importHolidays(
+        validatedData.countryCode,
+        holidays,
+        clientId || undefined,
+        user.userId
+      )
+
+      return NextResponse.json({
+        success: true,
+        data: { imported, skipped: holidays.length - imported },
+        message: `Imported ${imported} ${validatedData.countryCode} holidays for ${validatedData.year}`
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error importing holidays:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const POST = withRateLimit(rateLimitConfigs.data, adminOnly(handlePOST))
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { adminOnly, authenticated, getCurrentUser } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { CalendarEventService } from '@/lib/database/calendar-events'
+import { CalendarEventCreateSchema, CalendarEventQuerySchema } from '@/lib/validations/schemas'
+import { z } from 'zod'
+
+/**
+ * GET /api/calendar-events - List holidays, client events and outages
+ */
+async function handleGET(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const { searchParams } = new URL(request.url)
+      const query = CalendarEventQuerySchema.parse({
+        startDate: searchParams.get('startDate') || undefined,
+        endDate: searchParams.get('endDate') || undefined,
+        clientId: searchParams.get('clientId') || undefined,
+        eventType: searchParams.get('eventType') || undefined
+      })
+
+      const calendarEventService = new CalendarEventService()
+      const events = await calendarEventService.getEvents(query)
+
+      return NextResponse.json({
+        success: true,
+        data: events
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error fetching calendar events:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+/**
+ * POST /api/calendar-events - Create a calendar event (admin only)
+ */
+async function handlePOST(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const user = await getCurrentUser(request)
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Authentication required' },
+          { status: 401 }
+        )
+      }
+
+      const body = await request.json()
+      const validatedData = CalendarEventCreateSchema.parse(body)
+
+      const calendarEventService = new CalendarEventService()
+      let event
+      try {
+        event = await calendarEventService.createEvent(validatedData, user.userId)
+      } catch (error) {
+        if (error instanceof Error && error.message.startsWith('Client not found')) {
+          return NextResponse.json(
+            { error: error.message },
+            { status: 400 }
+          )
+        }
+        throw error
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: event,
+        message: 'Calendar event created successfully'
+      }, { status: 201 })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error creating calendar event:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const GET = withRateLimit(rateLimitConfigs.read, authenticated(handleGET))
+export const POST = withRateLimit(rateLimitConfigs.data, adminOnly(handlePOST))
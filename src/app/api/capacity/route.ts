@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { analystOrAdmin } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { PredictionService as PredictionStore } from '@/lib/database/predictions'
+import { AHTService } from '@/lib/database/aht'
+import { CapacityQuerySchema } from '@/lib/validations/schemas'
+import { getCapacityDefaults } from '@/lib/config/capacity'
+import { planCapacity } from '@/lib/utils/capacity-planning'
+import { PredictionResult } from '@/types/transcript'
+import { z } from 'zod'
+
+/**
+ * GET /api/capacity - Reviewer and validator hours and FTEs per client per month,
+ * from the latest stored forecast for each client and its AHT
+ */
+async function handleGET(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const { searchParams } = new URL(request.url)
+      const query = CapacityQuerySchema.parse({
+        clientId: searchParams.get('clientId') || undefined,
+        predictionType: searchParams.get('predictionType') || undefined,
+        shrinkage: searchParams.get('shrinkage') || undefined,
+        occupancy: searchParams.get('occupancy') || undefined,
+        hoursPerDay: searchParams.get('hoursPerDay') || undefined,
+        ahtUnit: searchParams.get('ahtUnit') || undefined
+      })
+
+      const defaults = getCapacityDefaults()
+      const assumptions = {
+        shrinkage: query.shrinkage ?? defaults.shrinkage,
+        occupancy: query.occupancy ?? defaults.occupancy,
+        hoursPerDay: query.hoursPerDay ?? defaults.hoursPerDay,
+        ahtUnit: query.ahtUnit ?? defaults.ahtUnit
+      }
+
+      // Latest forecast per client
+      const predictionStore = new PredictionStore()
+      const predictions = await predictionStore.getPredictions(query.clientId, query.predictionType)
+      const seen = new Set<string>()
+      const forecasts = predictions.filter((prediction: PredictionResult) => {
+        if (!prediction.clientId || seen.has(prediction.clientId)) return false
+        seen.add(prediction.clientId)
+        return true
+      })
+
+      if (forecasts.length === 0) {
+        return NextResponse.json(
+          { error: `No stored ${query.predictionType} forecasts to plan capacity from` },
+          { status: 400 }
+        )
+      }
+
+      const ahtService = new AHTService()
+      const { clients } = await ahtService.getAHTData()
+
+      const plan = planCapacity(forecasts, clients, assumptions)
+
+      return NextResponse.json({
+        success: true,
+        data: plan
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error planning capacity:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const GET = withRateLimit(rateLimitConfigs.read, analystOrAdmin(handleGET))
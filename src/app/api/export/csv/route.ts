@@ -4,6 +4,9 @@ import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
 import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
 import { exportService, ExportOptions } from '@/lib/services/export-service'
 import { getAllTranscripts } from '@/lib/database/transcripts'
+import { SegmentationService } from '@/lib/services/segmentation-service'
+import { FinanceService } from '@/lib/services/finance-service'
+import { hasRole } from '@/lib/utils/role-utils'
 import { z } from 'zod'
 
 const ExportRequestSchema = z.object({
@@ -12,8 +15,12 @@ const ExportRequestSchema = z.object({
     end: z.string().transform(str => new Date(str))
   }).optional(),
   clients: z.array(z.string()).optional(),
+  // Client segment id; combined with `clients`, only clients in both are exported
+  segment: z.string().min(1).optional(),
   includeAnalytics: z.boolean().default(true),
-  includePredictions: z.boolean().default(false)
+  includePredictions: z.boolean().default(false),
+  // Revenue, labor cost and margin for the months of the date range (analysts and admins)
+  includeFinance: z.boolean().default(false)
 })
 
 async function handlePOST(request: NextRequest) {
@@ -28,6 +35,17 @@ async function handlePOST(request: NextRequest) {
       const body = await request.json()
       const validatedData = ExportRequestSchema.parse(body)
 
+      if (validatedData.includeFinance && !hasRole(user.role, 'analyst')) {
+        return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+      }
+
+      const segmentClients = validatedData.segment
+        ? await new SegmentationService().resolveSegment(validatedData.segment)
+        : undefined
+      if (segmentClients === null) {
+        return NextResponse.json({ error: `Unknown segment: ${validatedData.segment}` }, { status: 400 })
+      }
+
       // Fetch transcript data
       const transcriptResult = await getAllTranscripts({
         startDate: validatedData.dateRange?.start,
@@ -45,11 +63,19 @@ async function handlePOST(request: NextRequest) {
           validatedData.clients!.includes(t.clientName)
         )
       }
+      if (segmentClients) {
+        filteredTranscripts = filteredTranscripts.filter((t: TranscriptData) => segmentClients.includes(t.clientName))
+      }
+
+      const finance = validatedData.includeFinance
+        ? await new FinanceService().report(financeRequest(validatedData, segmentClients))
+        : undefined
 
       // Prepare analytics data
       const analyticsData = {
         transcripts: filteredTranscripts,
         predictions: validatedData.includePredictions ? [] : undefined, // TODO: Fetch predictions
+        finance,
         summary: calculateSummaryStatistics(filteredTranscripts, validatedData.dateRange)
       }
 
@@ -58,8 +84,10 @@ async function handlePOST(request: NextRequest) {
         format: 'csv',
         dateRange: validatedData.dateRange,
         clients: validatedData.clients,
+        segment: validatedData.segment,
         includeAnalytics: validatedData.includeAnalytics,
-        includePredictions: validatedData.includePredictions
+        includePredictions: validatedData.includePredictions,
+        includeFinance: validatedData.includeFinance
       }
 
       // Generate CSV
@@ -99,6 +127,23 @@ async function handlePOST(request: NextRequest) {
   })
 }
 
+/**
+ * Finance report over the months of the date range for the exported clients
+ */
+function financeRequest(data: z.infer<typeof ExportRequestSchema>, segmentClients?: string[]) {
+  const yearMonth = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+  let clientNames = data.clients && data.clients.length > 0 ? data.clients : undefined
+  if (segmentClients) {
+    clientNames = (clientNames ?? segmentClients).filter(name => segmentClients.includes(name))
+  }
+
+  return {
+    startMonth: data.dateRange ? yearMonth(data.dateRange.start) : undefined,
+    endMonth: data.dateRange ? yearMonth(data.dateRange.end) : undefined,
+    clientNames
+  }
+}
+
 interface TranscriptData {
   id: string
   clientName: string
@@ -4,6 +4,10 @@ import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
 import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
 import { exportService, ExportOptions } from '@/lib/services/export-service'
 import { getAllTranscripts } from '@/lib/database/transcripts'
+import type { TranscriptData } from '@/types/transcript'
+import { SegmentationService } from '@/lib/services/segmentation-service'
+import { FinanceService } from '@/lib/services/finance-service'
+import { hasRole } from '@/lib/utils/role-utils'
 import { z } from 'zod'
 
 const ExportRequestSchema = z.object({
@@ -12,8 +16,12 @@ const ExportRequestSchema = z.object({
     end: z.string().transform(str => new Date(str))
   }).optional(),
   clients: z.array(z.string()).optional(),
+  // Client segment id; combined with `clients`, only clients in both are exported
+  segment: z.string().min(1).optional(),
   includeAnalytics: z.boolean().default(true),
   includePredictions: z.boolean().default(false),
+  // Revenue, labor cost and margin for the months of the date range (analysts and admins)
+  includeFinance: z.boolean().default(false),
   includeCharts: z.boolean().default(false)
 })
 
@@ -29,6 +37,17 @@ async function handlePOST(request: NextRequest) {
     const body = await request.json()
     const validatedData = ExportRequestSchema.parse(body)
 
+      if (validatedData.includeFinance && !hasRole(user.role, 'analyst')) {
+        return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+      }
+
+      const segmentClients = validatedData.segment
+        ? await new SegmentationService().resolveSegment(validatedData.segment)
+        : undefined
+      if (segmentClients === null) {
+        return NextResponse.json({ error: `Unknown segment: ${validatedData.segment}` }, { status: 400 })
+      }
+
       // Fetch transcript data
       const transcriptResult = await getAllTranscripts({
         startDate: validatedData.dateRange?.start,
@@ -45,11 +64,19 @@ async function handlePOST(request: NextRequest) {
           validatedData.clients!.includes(t.clientName)
         )
       }
+      if (segmentClients) {
+        transcripts = transcripts.filter((t: TranscriptData) => segmentClients.includes(t.clientName))
+      }
+
+    const finance = validatedData.includeFinance
+      ? await new FinanceService().report(financeRequest(validatedData, segmentClients))
+      : undefined
 
     // Prepare analytics data
     const analyticsData = {
       transcripts,
       predictions: validatedData.includePredictions ? [] : undefined, // TODO: Fetch predictions
+      finance,
       summary: calculateSummaryStatistics(transcripts, validatedData.dateRange)
     }
 
@@ -58,8 +85,10 @@ async function handlePOST(request: NextRequest) {
       format: 'pdf',
       dateRange: validatedData.dateRange,
       clients: validatedData.clients,
+      segment: validatedData.segment,
       includeAnalytics: validatedData.includeAnalytics,
       includePredictions: validatedData.includePredictions,
+      includeFinance: validatedData.includeFinance,
       includeCharts: validatedData.includeCharts
     }
 
@@ -105,6 +134,23 @@ async function handlePOST(request: NextRequest) {
 
 export const POST = withRateLimit(rateLimitConfigs.data, authenticated(handlePOST))
 
+/**
+ * Finance report over the months of the date range for the exported clients
+ */
+function financeRequest(data: z.infer<typeof ExportRequestSchema>, segmentClients?: string[]) {
+  const yearMonth = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+  let clientNames = data.clients && data.clients.length > 0 ? data.clients : undefined
+  if (segmentClients) {
+    clientNames = (clientNames ?? segmentClients).filter(name => segmentClients.includes(name))
+  }
+
+  return {
+    startMonth: data.dateRange ? yearMonth(data.dateRange.start) : undefined,
+    endMonth: data.dateRange ? yearMonth(data.dateRange.end) : undefined,
+    clientNames
+  }
+}
+
 function calculateSummaryStatistics(transcripts: any[], dateRange?: { start: Date; end: Date }) {
   const totalTranscripts = transcripts.reduce((sum, t) => sum + t.transcript_count, 0)
   
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { adminOnly } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { RateCardService } from '@/lib/database/rate-cards'
+import { z } from 'zod'
+
+const ParamsSchema = z.object({
+  id: z.string().uuid('Invalid rate card ID')
+})
+
+/**
+ * DELETE /api/finance/rate-cards/[id] - Delete a rate card (admin only). A
+ * client whose card is deleted falls back to the default card.
+ */
+async function handleDELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const validatedParams = ParamsSchema.parse(params)
+
+      const rateCardService = new RateCardService()
+      const deleted = await rateCardService.deleteRateCard(validatedParams.id)
+
+      if (!deleted) {
+        return NextResponse.json(
+          { error: 'Rate card not found' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Rate card deleted successfully'
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid rate card ID', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error deleting rate card:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const DELETE = withRateLimit(rateLimitConfigs.data, adminOnly(handleDELETE))
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { adminOnly, analystOrAdmin, getCurrentUser } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { RateCardService } from '@/lib/database/rate-cards'
+import { RateCardSchema } from '@/lib/validations/schemas'
+import { z } from 'zod'
+
+/**
+ * GET /api/finance/rate-cards - List rate cards, the default card first
+ */
+async function handleGET(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const rateCardService = new RateCardService()
+      const rateCards = await rateCardService.getRateCards()
+
+      return NextResponse.json({
+        success: true,
+        data: rateCards
+      })
+    } catch (error) {
+      console.error('Error fetching rate cards:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+/**
+ * PUT /api/finance/rate-cards - Create or replace the rate card of a client,
+ * or the default card when clientId is null (admin only)
+ */
+async function handlePUT(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const user = await getCurrentUser(request)
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Authentication required' },
+          { status: 401 }
+        )
+      }
+
+      const body = await request.json()
+      const validatedData = RateCardSchema.parse(body)
+
+      const rateCardService = new RateCardService()
+      const rateCard = await rateCardService.saveRateCard(validatedData, user.userId)
+
+      return NextResponse.json({
+        success: true,
+        data: rateCard,
+        message: 'Rate card saved successfully'
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error saving rate card:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const GET = withRateLimit(rateLimitConfigs.read, analystOrAdmin(handleGET))
+export const PUT = withRateLimit(rateLimitConfigs.data, adminOnly(handlePUT))
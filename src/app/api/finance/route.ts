@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { analystOrAdmin } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { FinanceService } from '@/lib/services/finance-service'
+import { SegmentationService } from '@/lib/services/segmentation-service'
+import { FinanceQuerySchema } from '@/lib/validations/schemas'
+import { z } from 'zod'
+
+/**
+ * GET /api/finance - Monthly revenue, labor cost and margin per client and in
+ * total: actuals over the requested months, then forecasts for the months after
+ */
+async function handleGET(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const { searchParams } = new URL(request.url)
+      const query = FinanceQuerySchema.parse({
+        startMonth: searchParams.get('startMonth') || undefined,
+        endMonth: searchParams.get('endMonth') || undefined,
+        clientNames: searchParams.getAll('clientName').length > 0 ? searchParams.getAll('clientName') : undefined,
+        segment: searchParams.get('segment') || undefined,
+        includeForecast: searchParams.get('includeForecast') || undefined
+      })
+
+      const segmentClients = query.segment
+        ? await new SegmentationService().resolveSegment(query.segment)
+        : undefined
+      if (segmentClients === null) {
+        return NextResponse.json(
+          { error: `Unknown segment: ${query.segment}` },
+          { status: 400 }
+        )
+      }
+
+      // Clients and a segment together leave only the clients in the segment
+      let clientNames = query.clientNames
+      if (segmentClients) {
+        clientNames = (clientNames ?? segmentClients).filter(name => segmentClients.includes(name))
+      }
+
+      const financeService = new FinanceService()
+      const report = await financeService.report({
+        startMonth: query.startMonth,
+        endMonth: query.endMonth,
+        clientNames,
+        includeForecast: query.includeForecast
+      })
+
+      return NextResponse.json({
+        success: true,
+        data: report
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error building finance report:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const GET = withRateLimit(rateLimitConfigs.read, analystOrAdmin(handleGET))
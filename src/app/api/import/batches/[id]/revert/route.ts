@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { analystOrAdmin, getCurrentUser } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { ImportBatchService, ImportBatchStateError } from '@/lib/database/import-batches'
+import { z } from 'zod'
+
+const ParamsSchema = z.object({
+  id: z.string().uuid('Invalid import batch ID')
+})
+
+/**
+ * POST /api/import/batches/[id]/revert - Undo every change an applied import batch made (analyst or admin)
+ */
+async function handlePOST(request: NextRequest, { params }: { params: { id: string } }) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const user = await getCurrentUser(request)
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Authentication required' },
+          { status: 401 }
+        )
+      }
+
+      const validatedParams = ParamsSchema.parse(params)
+
+      const batchService = new ImportBatchService()
+      const reverted = await batchService.revertBatch(validatedParams.id, user.userId)
+
+      if (!reverted) {
+        return NextResponse.json(
+          { error: 'Import batch not found' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: reverted,
+        message: `Reverted import batch: ${reverted.deleted} records deleted, ${reverted.restored} restored`
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid import batch ID', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      if (error instanceof ImportBatchStateError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        )
+      }
+
+      console.error('Error reverting import batch:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const POST = withRateLimit(rateLimitConfigs.data, analystOrAdmin(handlePOST))
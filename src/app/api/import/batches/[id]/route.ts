@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticated } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { ImportBatchService } from '@/lib/database/import-batches'
+import { z } from 'zod'
+
+const ParamsSchema = z.object({
+  id: z.string().uuid('Invalid import batch ID')
+})
+
+/**
+ * GET /api/import/batches/[id] - An import batch with its conflicts and their resolutions
+ */
+async function handleGET(request: NextRequest, { params }: { params: { id: string } }) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const validatedParams = ParamsSchema.parse(params)
+
+      const batchService = new ImportBatchService()
+      const batch = await batchService.getBatchById(validatedParams.id)
+
+      if (!batch) {
+        return NextResponse.json(
+          { error: 'Import batch not found' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: batch
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid import batch ID', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error fetching import batch:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const GET = withRateLimit(rateLimitConfigs.read, authenticated(handleGET))
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticated } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { ImportBatchService } from '@/lib/database/import-batches'
+import { z } from 'zod'
+
+const QuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+})
+
+/**
+ * GET /api/import/batches - Import history, newest first
+ */
+async function handleGET(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const { searchParams } = new URL(request.url)
+      const { limit } = QuerySchema.parse({ limit: searchParams.get('limit') ?? undefined })
+
+      const batchService = new ImportBatchService()
+      const batches = await batchService.getBatches(limit)
+
+      return NextResponse.json({
+        success: true,
+        data: batches
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error fetching import batches:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const GET = withRateLimit(rateLimitConfigs.read, authenticated(handleGET))
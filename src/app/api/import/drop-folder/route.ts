@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { adminOnly } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { IngestionLogService } from '@/lib/database/ingestion-log'
+import { getDropFolderIngestion } from '@/lib/services/drop-folder-ingestion'
+import { z } from 'zod'
+
+const QuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  status: z.enum(['committed', 'quarantined']).optional()
+})
+
+/**
+ * GET /api/import/drop-folder - Drop-folder ingestion log, newest first, and
+ * the watcher's status
+ */
+async function handleGET(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const { searchParams } = new URL(request.url)
+      const { limit, status } = QuerySchema.parse({
+        limit: searchParams.get('limit') ?? undefined,
+        status: searchParams.get('status') ?? undefined
+      })
+
+      const entries = await new IngestionLogService().getEntries(limit, status)
+
+      return NextResponse.json({
+        success: true,
+        data: entries,
+        watcher: getDropFolderIngestion().status
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error fetching ingestion log:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+/**
+ * POST /api/import/drop-folder - Scan the drop folder now instead of waiting
+ * for the next poll, returning the files ingested
+ */
+async function handlePOST(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const ingestion = getDropFolderIngestion()
+      if (!ingestion.status.directory) {
+        return NextResponse.json(
+          { error: 'No drop folder is configured; set DROP_FOLDER_PATH' },
+          { status: 409 }
+        )
+      }
+
+      const entries = await ingestion.scan()
+
+      return NextResponse.json({
+        success: true,
+        data: entries,
+        watcher: ingestion.status
+      })
+    } catch (error) {
+      console.error('Error scanning drop folder:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const GET = withRateLimit(rateLimitConfigs.read, adminOnly(handleGET))
+export const POST = withRateLimit(rateLimitConfigs.data, adminOnly(handlePOST))
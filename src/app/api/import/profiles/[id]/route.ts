@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { analystOrAdmin, getCurrentUser } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { ImportProfileService } from '@/lib/database/import-profiles'
+import { ImportProfileUpdateSchema } from '@/lib/validations/schemas'
+import type { ExtendedJWT } from '@/lib/auth'
+import type { ImportProfile } from '@/types/import-profile'
+import { z } from 'zod'
+
+const ParamsSchema = z.object({
+  id: z.string().uuid('Invalid profile ID')
+})
+
+// Team profiles can also be changed by admins; personal ones only by their owner
+function canChange(profile: ImportProfile, user: ExtendedJWT): boolean {
+  return profile.createdBy === user.userId || (profile.scope === 'team' && user.role === 'admin')
+}
+
+/**
+ * PUT /api/import/profiles/[id] - Update an import profile (its owner, or an
+ * admin for team profiles)
+ */
+async function handlePUT(request: NextRequest, { params }: { params: { id: string } }) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const user = await getCurrentUser(request)
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Authentication required' },
+          { status: 401 }
+        )
+      }
+
+      const validatedParams = ParamsSchema.parse(params)
+      const body = await request.json()
+      const validatedData = ImportProfileUpdateSchema.parse(body)
+
+      const profileService = new ImportProfileService()
+      const existing = await profileService.getProfileById(validatedParams.id, user.userId)
+
+      if (!existing) {
+        return NextResponse.json(
+          { error: 'Import profile not found' },
+          { status: 404 }
+        )
+      }
+
+      if (!canChange(existing, user)) {
+        return NextResponse.json(
+          { error: 'Only the owner or an admin can change this profile' },
+          { status: 403 }
+        )
+      }
+
+      const headers = validatedData.headers ?? existing.headers
+      const columnMapping = validatedData.columnMapping ?? existing.columnMapping
+      if (!Object.values(columnMapping).every(header => headers.includes(header))) {
+        return NextResponse.json(
+          { error: 'Mapped columns must be among the headers' },
+          { status: 400 }
+        )
+      }
+
+      const profile = await profileService.updateProfile(validatedParams.id, validatedData)
+
+      if (!profile) {
+        return NextResponse.json(
+          { error: 'Import profile not found' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: profile,
+        message: 'Import profile updated successfully'
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error updating import profile:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+/**
+ * DELETE /api/import/profiles/[id] - Delete an import profile (its owner, or
+ * an admin for team profiles)
+ */
+async function handleDELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const user = await getCurrentUser(request)
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Authentication required' },
+          { status: 401 }
+        )
+      }
+
+      const validatedParams = ParamsSchema.parse(params)
+
+      const profileService = new ImportProfileService()
+      const existing = await profileService.getProfileById(validatedParams.id, user.userId)
+
+      if (!existing) {
+        return NextResponse.json(
+          { error: 'Import profile not found' },
+          { status: 404 }
+        )
+      }
+
+      if (!canChange(existing, user)) {
+        return NextResponse.json(
+          { error: 'Only the owner or an admin can delete this profile' },
+          { status: 403 }
+        )
+      }
+
+      await profileService.deleteProfile(validatedParams.id)
+
+      return NextResponse.json({
+        success: true,
+        message: 'Import profile deleted successfully'
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid profile ID', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error deleting import profile:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const PUT = withRateLimit(rateLimitConfigs.data, analystOrAdmin(handlePUT))
+export const DELETE = withRateLimit(rateLimitConfigs.data, analystOrAdmin(handleDELETE))
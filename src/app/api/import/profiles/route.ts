@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { analystOrAdmin, authenticated, getCurrentUser } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { ImportProfileService } from '@/lib/database/import-profiles'
+import { ImportProfileCreateSchema } from '@/lib/validations/schemas'
+import { z } from 'zod'
+
+/**
+ * GET /api/import/profiles - The current user's import profiles and the team's
+ */
+async function handleGET(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const user = await getCurrentUser(request)
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Authentication required' },
+          { status: 401 }
+        )
+      }
+
+      const profileService = new ImportProfileService()
+      const profiles = await profileService.getProfiles(user.userId)
+
+      return NextResponse.json({
+        success: true,
+        data: profiles
+      })
+    } catch (error) {
+      console.error('Error fetching import profiles:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+/**
+ * POST /api/import/profiles - Save an import profile for a source file layout
+ * (analyst or admin)
+ */
+async function handlePOST(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const user = await getCurrentUser(request)
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Authentication required' },
+          { status: 401 }
+        )
+      }
+
+      const body = await request.json()
+      const validatedData = ImportProfileCreateSchema.parse(body)
+
+      const profileService = new ImportProfileService()
+      const profile = await profileService.createProfile(validatedData, user.userId)
+
+      return NextResponse.json({
+        success: true,
+        data: profile,
+        message: 'Import profile saved successfully'
+      }, { status: 201 })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error saving import profile:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const GET = withRateLimit(rateLimitConfigs.read, authenticated(handleGET))
+export const POST = withRateLimit(rateLimitConfigs.data, analystOrAdmin(handlePOST))
@@ -2,9 +2,10 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { transformRawDataToTranscripts } from '@/lib/utils/data-transformers'
-import { createTranscript, getTranscriptsByClientAndDate } from '@/lib/database/transcripts'
+import { AppliedImport, ImportBatchService, ImportBatchStateError } from '@/lib/database/import-batches'
+import { AnomalyDetectionService } from '@/lib/services/anomaly-detection-service'
+import { resolutionForStrategy } from '@/lib/utils/import-conflicts'
 import { z } from 'zod'
-import type { RawData, ImportResult, TranscriptData } from '@/types/transcript'
 
 const ImportRequestSchema = z.object({
   data: z.array(z.record(z.string(), z.any())),
@@ -45,157 +46,71 @@ export async function POST(request: NextRequest) {
       })
     }
 
-    // Check for conflicts with existing data
-    const conflicts: Array<{
-      newRecord: TranscriptData
-      existingRecord: TranscriptData
-      conflictType: 'duplicate' | 'date_mismatch' | 'count_difference'
-    }> = []
-
-    for (const newRecord of transformResult.validData) {
-      try {
-        const existingRecords = await getTranscriptsByClientAndDate(
-          newRecord.clientName,
-          newRecord.date
-        )
-
-        for (const existingRecord of existingRecords) {
-          let conflictType: 'duplicate' | 'date_mismatch' | 'count_difference' = 'duplicate'
-          
-          if (existingRecord.transcriptCount !== newRecord.transcriptCount) {
-            conflictType = 'count_difference'
-          }
-          
-          conflicts.push({
-            newRecord,
-            existingRecord,
-            conflictType
-          })
-        }
-      } catch (error) {
-        console.error('Error checking for conflicts:', error)
-        // Continue processing other records
-      }
-    }
-
-    // Handle conflicts based on resolution strategy
-    let recordsToImport = transformResult.validData
-    let duplicateCount = 0
-    let skippedCount = 0
-
-    if (conflicts.length > 0) {
+    // Stage the parsed rows; conflicts with existing records are detected as they are staged
+    const batchService = new ImportBatchService()
+    const batch = await batchService.stageBatch({
+      fileName,
+      totalRows: data.length,
+      errors: transformResult.errors,
+      rows: transformResult.validData.map((record, index) => ({
+        rowNumber: transformResult.rowNumbers[index],
+        clientName: record.clientName,
+        date: record.date,
+        transcriptCount: record.transcriptCount,
+        transcriptType: record.transcriptType,
+        notes: record.notes
+      }))
+    }, session.user.id)
+
+    if (batch.conflicts.length > 0) {
       if (conflictResolution === 'ask') {
-        // Return conflicts for user resolution
+        // Leave the batch staged until every conflict has a resolution
         return NextResponse.json({
           success: false,
           error: 'Conflicts detected',
-          conflicts: conflicts.map(conflict => ({
+          batchId: batch.id,
+          conflicts: batch.conflicts.map(conflict => ({
+            conflictId: conflict.id,
             newRecord: conflict.newRecord,
             existingRecord: conflict.existingRecord,
             conflictType: conflict.conflictType,
-            differences: generateDifferences(conflict.newRecord, conflict.existingRecord)
+            differences: conflict.differences
           })),
           result: {
             totalRows: data.length,
             successCount: 0,
             errorCount: transformResult.errors.length,
             errors: transformResult.errors,
-            duplicateCount: conflicts.length
+            duplicateCount: batch.conflicts.length
           }
         })
-      } else if (conflictResolution === 'skip') {
-        // Skip conflicting records
-        const conflictingRecordIds = new Set(
-          conflicts.map(c => `${c.newRecord.clientName}-${c.newRecord.date.toISOString()}`)
-        )
-        recordsToImport = transformResult.validData.filter(record => 
-          !conflictingRecordIds.has(`${record.clientName}-${record.date.toISOString()}`)
-        )
-        skippedCount = conflicts.length
-      } else if (conflictResolution === 'replace') {
-        // Will replace existing records during import
-        duplicateCount = conflicts.length
-      } else if (conflictResolution === 'merge') {
-        // Merge records (take higher count, combine notes)
-        for (const conflict of conflicts) {
-          const mergedRecord = {
-            ...conflict.newRecord,
-            transcriptCount: Math.max(
-              conflict.newRecord.transcriptCount,
-              conflict.existingRecord.transcriptCount
-            ),
-            notes: [conflict.existingRecord.notes, conflict.newRecord.notes]
-              .filter(Boolean)
-              .join(' | ') || undefined
-          }
-          
-          // Replace the new record with merged version
-          const index = recordsToImport.findIndex(r => 
-            r.clientName === conflict.newRecord.clientName &&
-            r.date.toISOString() === conflict.newRecord.date.toISOString()
-          )
-          if (index >= 0) {
-            recordsToImport[index] = mergedRecord
-          }
-        }
-        duplicateCount = conflicts.length
       }
-    }
 
-    // Import records to database
-    const importErrors: Array<{
-      row: number
-      field: string
-      value: any
-      message: string
-    }> = []
-    let successCount = 0
-
-    for (let i = 0; i < recordsToImport.length; i++) {
-      const record = recordsToImport[i]
-      
-      try {
-        await createTranscript({
-          clientName: record.clientName,
-          date: record.date,
-          transcriptCount: record.transcriptCount,
-          transcriptType: record.transcriptType,
-          notes: record.notes,
-          createdBy: session.user.id
-        })
-        
-        successCount++
-      } catch (error) {
-        console.error(`Error importing record ${i + 1}:`, error)
-        
-        importErrors.push({
-          row: i + 1,
-          field: 'general',
-          value: record,
-          message: error instanceof Error ? error.message : 'Import failed'
-        })
-      }
+      const resolution = resolutionForStrategy(conflictResolution)
+      await batchService.setResolutions(
+        batch.id,
+        batch.conflicts.map(conflict => ({ conflictId: conflict.id, resolution }))
+      )
     }
 
-    // Prepare final result
-    const finalResult: ImportResult = {
-      totalRows: data.length,
-      successCount,
-      errorCount: transformResult.errors.length + importErrors.length + skippedCount,
-      errors: [...transformResult.errors, ...importErrors],
-      duplicateCount
+    const applied = await batchService.applyBatch(batch.id, session.user.id)
+    if (!applied) {
+      throw new Error('Staged import batch disappeared before it was applied')
     }
 
     return NextResponse.json({
       success: true,
-      message: `Successfully imported ${successCount} records`,
-      result: finalResult,
+      message: `Successfully imported ${applied.result.successCount} records`,
+      result: applied.result,
       metadata: {
         fileName,
+        batchId: batch.id,
         importedAt: new Date().toISOString(),
         importedBy: session.user.id,
         conflictResolution,
-        conflictsDetected: conflicts.length
+        conflictsDetected: batch.conflicts.length,
+        skipped: applied.skipped,
+        anomaliesDetected: await detectAnomalies(applied)
       }
     })
 
@@ -205,12 +120,19 @@ export async function POST(request: NextRequest) {
         {
           success: false,
           error: 'Invalid request data',
-          details: error.errors
+          details: error.issues
         },
         { status: 400 }
       )
     }
 
+    if (error instanceof ImportBatchStateError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      )
+    }
+
     console.error('Import error:', error)
     
     return NextResponse.json(
@@ -224,7 +146,22 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Handle conflict resolution
+const MergedDataSchema = z.object({
+  transcriptCount: z.number().int().min(0, 'Transcript count must be non-negative').optional(),
+  transcriptType: z.string().max(100, 'Transcript type too long').optional(),
+  notes: z.string().max(1000, 'Notes too long').optional()
+})
+
+const ConflictResolutionSchema = z.object({
+  batchId: z.string().uuid('Invalid import batch ID'),
+  conflicts: z.array(z.object({
+    conflictId: z.string().uuid('Invalid conflict ID'),
+    resolution: z.enum(['use_new', 'use_existing', 'merge', 'skip']),
+    mergedData: MergedDataSchema.optional()
+  }))
+})
+
+// Store resolutions for a staged batch's conflicts and apply the batch
 export async function PUT(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
@@ -235,68 +172,30 @@ export async function PUT(request: NextRequest) {
       )
     }
 
-    const ConflictResolutionSchema = z.object({
-      conflicts: z.array(z.object({
-        conflictId: z.string(),
-        resolution: z.enum(['use_new', 'use_existing', 'merge', 'skip']),
-        mergedData: z.any().optional()
-      })),
-      fileName: z.string()
-    })
-
     const body = await request.json()
-    const { conflicts, fileName } = ConflictResolutionSchema.parse(body)
-
-    let successCount = 0
-    let errorCount = 0
-    const errors: Array<{
-      row: number
-      field: string
-      value: any
-      message: string
-    }> = []
-
-    for (const conflict of conflicts) {
-      try {
-        if (conflict.resolution === 'skip') {
-          continue
-        }
+    const { batchId, conflicts } = ConflictResolutionSchema.parse(body)
 
-        // In a real implementation, you would:
-        // 1. Retrieve the actual conflict data
-        // 2. Apply the resolution
-        // 3. Update/insert the record accordingly
-        
-        // For now, we'll simulate the process
-        successCount++
-        
-      } catch (error) {
-        errorCount++
-        errors.push({
-          row: successCount + errorCount,
-          field: 'general',
-          value: conflict,
-          message: error instanceof Error ? error.message : 'Conflict resolution failed'
-        })
-      }
-    }
+    const batchService = new ImportBatchService()
+    const found = await batchService.setResolutions(batchId, conflicts)
+    const applied = found ? await batchService.applyBatch(batchId, session.user.id) : null
 
-    const result: ImportResult = {
-      totalRows: conflicts.length,
-      successCount,
-      errorCount,
-      errors,
-      duplicateCount: 0
+    if (!applied) {
+      return NextResponse.json(
+        { success: false, error: 'Import batch not found' },
+        { status: 404 }
+      )
     }
 
     return NextResponse.json({
       success: true,
-      message: `Resolved ${successCount} conflicts`,
-      result,
+      message: `Resolved ${conflicts.length} conflicts and imported ${applied.result.successCount} records`,
+      result: applied.result,
       metadata: {
-        fileName,
+        batchId,
         resolvedAt: new Date().toISOString(),
-        resolvedBy: session.user.id
+        resolvedBy: session.user.id,
+        skipped: applied.skipped,
+        anomaliesDetected: await detectAnomalies(applied)
       }
     })
 
@@ -306,12 +205,19 @@ export async function PUT(request: NextRequest) {
         {
           success: false,
           error: 'Invalid request data',
-          details: error.errors
+          details: error.issues
         },
         { status: 400 }
       )
     }
 
+    if (error instanceof ImportBatchStateError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      )
+    }
+
     console.error('Conflict resolution error:', error)
     
     return NextResponse.json(
@@ -325,24 +231,20 @@ export async function PUT(request: NextRequest) {
   }
 }
 
-function generateDifferences(newRecord: TranscriptData, existingRecord: TranscriptData): string[] {
-  const differences: string[] = []
-  
-  if (newRecord.transcriptCount !== existingRecord.transcriptCount) {
-    differences.push(`Transcript count: ${existingRecord.transcriptCount} → ${newRecord.transcriptCount}`)
-  }
-  
-  if (newRecord.transcriptType !== existingRecord.transcriptType) {
-    differences.push(`Type: "${existingRecord.transcriptType || 'None'}" → "${newRecord.transcriptType || 'None'}"`)
+// Check the imported data for volume anomalies; a failure here must not fail the import
+async function detectAnomalies(applied: AppliedImport): Promise<number | null> {
+  if (applied.result.successCount === 0) {
+    return null
   }
-  
-  if (newRecord.notes !== existingRecord.notes) {
-    differences.push(`Notes: "${existingRecord.notes || 'None'}" → "${newRecord.notes || 'None'}"`)
-  }
-  
-  if (differences.length === 0) {
-    differences.push('Exact duplicate record')
+
+  try {
+    const report = await new AnomalyDetectionService().run({
+      since: new Date(Math.min(...applied.rows.map(row => row.date.getTime()))),
+      clientNames: Array.from(new Set(applied.rows.map(row => row.clientName)))
+    })
+    return report.anomalies.length
+  } catch (error) {
+    console.error('Anomaly detection after import failed:', error)
+    return null
   }
-  
-  return differences
-}
\ No newline at end of file
+}
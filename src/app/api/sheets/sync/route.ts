@@ -4,6 +4,8 @@ import { authOptions } from '@/lib/auth'
 import { getGoogleSheetsService } from '@/lib/services/google-sheets'
 import { syncWithGoogleSheets } from '@/lib/data/transcript-data'
 import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { AnomalyDetectionService } from '@/lib/services/anomaly-detection-service'
+import { getAnomalyDetectionConfig } from '@/lib/config/anomaly-detection'
 import { z } from 'zod'
 
 // Validation schema for sync request
@@ -128,6 +130,20 @@ export const POST = withRateLimit(rateLimitConfigs.strict, async (request: NextR
         )
       }
 
+      // A sync does not report which dates changed, so re-check the lookback window
+      let anomaliesDetected: number | null = null
+      if ((syncResult.recordsAdded || 0) + (syncResult.recordsUpdated || 0) > 0) {
+        try {
+          const lookbackDays = getAnomalyDetectionConfig().syncLookbackDays
+          const report = await new AnomalyDetectionService().run({
+            since: new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000)
+          })
+          anomaliesDetected = report.anomalies.length
+        } catch (error) {
+          console.error('Anomaly detection after sync failed:', error)
+        }
+      }
+
       return NextResponse.json({
         data: {
           syncStatus: 'completed',
@@ -139,6 +155,7 @@ export const POST = withRateLimit(rateLimitConfigs.strict, async (request: NextR
           warnings: syncResult.warnings || [],
           syncedAt: new Date().toISOString(),
           direction: params.direction,
+          anomaliesDetected,
         },
         success: true,
         message: 'Synchronization completed successfully',
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { adminOnly } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { ClientTargetService } from '@/lib/database/targets'
+import { TargetUpdateSchema } from '@/lib/validations/schemas'
+import { z } from 'zod'
+
+const ParamsSchema = z.object({
+  id: z.string().uuid('Invalid target ID')
+})
+
+/**
+ * PUT /api/targets/[id] - Update a client target (admin only)
+ */
+async function handlePUT(request: NextRequest, { params }: { params: { id: string } }) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const validatedParams = ParamsSchema.parse(params)
+      const body = await request.json()
+      const validatedData = TargetUpdateSchema.parse(body)
+
+      const targetService = new ClientTargetService()
+      const target = await targetService.updateTarget(validatedParams.id, validatedData)
+
+      if (!target) {
+        return NextResponse.json(
+          { error: 'Target not found' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: target,
+        message: 'Target updated successfully'
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error updating target:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+/**
+ * DELETE /api/targets/[id] - Delete a client target (admin only)
+ */
+async function handleDELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const validatedParams = ParamsSchema.parse(params)
+
+      const targetService = new ClientTargetService()
+      const deleted = await targetService.deleteTarget(validatedParams.id)
+
+      if (!deleted) {
+        return NextResponse.json(
+          { error: 'Target not found' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Target deleted successfully'
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid target ID', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error deleting target:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const PUT = withRateLimit(rateLimitConfigs.data, adminOnly(handlePUT))
+export const DELETE = withRateLimit(rateLimitConfigs.data, adminOnly(handleDELETE))
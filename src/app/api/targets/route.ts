@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { adminOnly, authenticated, getCurrentUser } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { ClientTargetService } from '@/lib/database/targets'
+import { TargetCreateSchema } from '@/lib/validations/schemas'
+import { z } from 'zod'
+
+/**
+ * GET /api/targets - List client volume targets and SLAs, optionally for one client
+ */
+async function handleGET(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const { searchParams } = new URL(request.url)
+      const clientId = searchParams.get('clientId')
+
+      const targetService = new ClientTargetService()
+      const targets = await targetService.getTargets(clientId || undefined)
+
+      return NextResponse.json({
+        success: true,
+        data: targets
+      })
+    } catch (error) {
+      console.error('Error fetching targets:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+/**
+ * POST /api/targets - Create a client target (admin only)
+ */
+async function handlePOST(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const user = await getCurrentUser(request)
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Authentication required' },
+          { status: 401 }
+        )
+      }
+
+      const body = await request.json()
+      const validatedData = TargetCreateSchema.parse(body)
+
+      const targetService = new ClientTargetService()
+      const target = await targetService.createTarget(validatedData, user.userId)
+
+      return NextResponse.json({
+        success: true,
+        data: target,
+        message: 'Target created successfully'
+      }, { status: 201 })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error creating target:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const GET = withRateLimit(rateLimitConfigs.read, authenticated(handleGET))
+export const POST = withRateLimit(rateLimitConfigs.data, adminOnly(handlePOST))
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { adminOnly } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { ClientTargetService } from '@/lib/database/targets'
+import { TurnaroundImportSchema } from '@/lib/validations/schemas'
+import { z } from 'zod'
+
+/**
+ * PUT /api/targets/turnaround - Record measured monthly turnaround per client,
+ * replacing earlier measurements for the same months (admin only)
+ */
+async function handlePUT(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const body = await request.json()
+      const validatedData = TurnaroundImportSchema.parse(body)
+
+      const targetService = new ClientTargetService()
+      const recorded = await targetService.recordTurnaround(validatedData)
+
+      return NextResponse.json({
+        success: true,
+        data: { recorded },
+        message: `Recorded ${recorded} turnaround measurements`
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error recording turnaround:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const PUT = withRateLimit(rateLimitConfigs.data, adminOnly(handlePUT))
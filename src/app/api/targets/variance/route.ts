@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { adminOnly, authenticated } from '@/lib/middleware/auth'
+import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
+import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
+import { TargetService } from '@/lib/services/target-service'
+import { SegmentationService } from '@/lib/services/segmentation-service'
+import { TargetReportQuerySchema } from '@/lib/validations/schemas'
+import { z } from 'zod'
+
+/**
+ * GET /api/targets/variance - Actuals and forecasts against client targets,
+ * with the breaches among them
+ */
+async function handleGET(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const { searchParams } = new URL(request.url)
+      const query = TargetReportQuerySchema.parse({
+        clientNames: searchParams.getAll('clientName').length > 0 ? searchParams.getAll('clientName') : undefined,
+        segment: searchParams.get('segment') || undefined
+      })
+
+      const segmentClients = query.segment
+        ? await new SegmentationService().resolveSegment(query.segment)
+        : undefined
+      if (segmentClients === null) {
+        return NextResponse.json(
+          { error: `Unknown segment: ${query.segment}` },
+          { status: 400 }
+        )
+      }
+
+      // Clients and a segment together leave only the clients in the segment
+      let clientNames = query.clientNames
+      if (segmentClients) {
+        clientNames = (clientNames ?? segmentClients).filter(name => segmentClients.includes(name))
+      }
+
+      const targetService = new TargetService()
+      const report = await targetService.report({ clientNames })
+
+      return NextResponse.json({
+        success: true,
+        data: report
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        )
+      }
+
+      console.error('Error comparing with targets:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+/**
+ * POST /api/targets/variance - Check every target and alert on breaches.
+ * Intended to be called on a schedule, e.g. daily after imports.
+ */
+async function handlePOST(request: NextRequest) {
+  return performanceMiddleware(request, async () => {
+    try {
+      const targetService = new TargetService()
+      const result = await targetService.run()
+
+      return NextResponse.json({
+        success: true,
+        data: result,
+        message: `Found ${result.breaches.length} target breaches, ${result.alerted} newly alerted`
+      })
+    } catch (error) {
+      console.error('Error checking targets:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export const GET = withRateLimit(rateLimitConfigs.read, authenticated(handleGET))
+export const POST = withRateLimit(rateLimitConfigs.standard, adminOnly(handlePOST))
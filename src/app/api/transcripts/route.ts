@@ -3,6 +3,7 @@ import { authenticated, analystOrAdmin, getCurrentUser } from '@/lib/middleware/
 import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
 import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
 import { TranscriptService } from '@/lib/database/transcripts'
+import { SegmentationService } from '@/lib/services/segmentation-service'
 import { AuditLogger } from '@/lib/security/audit-logger'
 import { TranscriptCreateSchema, BulkTranscriptSchema, TranscriptQuerySchema } from '@/lib/validations/schemas'
 import { Pool } from 'pg'
@@ -17,7 +18,8 @@ const auditLogger = AuditLogger.getInstance(pool)
 const transcriptService = new TranscriptService()
 
 /**
- * GET /api/transcripts - Fetch all transcript data with filtering and pagination
+ * GET /api/transcripts - Fetch all transcript data with filtering and pagination,
+ * optionally limited to the clients of a segment
  */
 async function handleGET(request: NextRequest) {
   return performanceMiddleware(request, async () => {
@@ -27,9 +29,21 @@ async function handleGET(request: NextRequest) {
       
       // Validate query parameters
       const validatedQuery = TranscriptQuerySchema.parse(queryParams)
+
+      // A segment filter narrows the query to the segment's clients
+      const clientNames = validatedQuery.segment
+        ? await new SegmentationService().resolveSegment(validatedQuery.segment)
+        : undefined
+      if (clientNames === null) {
+        return NextResponse.json(
+          { error: `Unknown segment: ${validatedQuery.segment}` },
+          { status: 400 }
+        )
+      }
       
       const transcripts = await transcriptService.getTranscripts({
         clientId: validatedQuery.clientId,
+        clientNames,
         startDate: validatedQuery.startDate ? new Date(validatedQuery.startDate) : undefined,
         endDate: validatedQuery.endDate ? new Date(validatedQuery.endDate) : undefined,
         transcriptType: validatedQuery.transcriptType,
@@ -4,8 +4,26 @@ import { withRateLimit, rateLimitConfigs } from '@/lib/middleware/rate-limit'
 import { performanceMiddleware } from '@/lib/middleware/performance-middleware'
 import { FileProcessor } from '@/lib/utils/file-processors'
 import { FileUploadSchema } from '@/lib/validations/schemas'
+import { csvUploadSessions, CSVUploadSessionError } from '@/lib/services/csv-upload-sessions'
+import type { CSVRowError } from '@/lib/utils/csv-parser'
+import type { ColumnType } from '@/lib/utils/structured-parsers'
 import { z } from 'zod'
 
+const MIME_TYPES = {
+  csv: 'text/csv',
+  excel: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json',
+  ndjson: 'application/x-ndjson',
+  parquet: 'application/vnd.apache.parquet'
+}
+
+const ChunkSchema = z.object({
+  uploadId: z.string().uuid('Invalid upload ID').optional(),
+  chunkIndex: z.coerce.number().int().min(0),
+  totalChunks: z.coerce.number().int().min(1),
+  fileSize: z.coerce.number().int().min(1)
+})
+
 async function handlePOST(request: NextRequest) {
   return performanceMiddleware(request, async () => {
     try {
@@ -54,12 +72,55 @@ async function handlePOST(request: NextRequest) {
       )
     }
 
+    // Chunked uploads stream a CSV through a parser session, one request per chunk
+    if (formData.has('totalChunks')) {
+      if (detectedFileType !== 'csv') {
+        return NextResponse.json(
+          { success: false, error: 'Chunked uploads are only supported for CSV files' },
+          { status: 400 }
+        )
+      }
+
+      const chunk = ChunkSchema.parse({
+        uploadId: formData.get('uploadId') || undefined,
+        chunkIndex: formData.get('chunkIndex'),
+        totalChunks: formData.get('totalChunks'),
+        fileSize: formData.get('fileSize')
+      })
+
+      const receipt = csvUploadSessions.receive({
+        ...chunk,
+        hasHeaders,
+        userId: user.userId,
+        bytes: new Uint8Array(await file.arrayBuffer())
+      })
+
+      if (receipt.done && receipt.headers.length === 0) {
+        return NextResponse.json(
+          { success: false, error: 'File processing failed', details: ['File is empty'] },
+          { status: 400 }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          ...receipt,
+          fileName: file.name,
+          fileType: detectedFileType,
+          processedAt: receipt.done ? new Date().toISOString() : undefined
+        }
+      })
+    }
+
     // Process file based on type
     let result: {
       headers: string[]
       data: any[]
       errors: string[]
+      rowErrors?: CSVRowError[]
       sheets?: string[]
+      columnTypes?: Record<string, ColumnType>
     }
 
     if (detectedFileType === 'csv') {
@@ -77,6 +138,12 @@ async function handlePOST(request: NextRequest) {
         // Process first sheet and return available sheets
         result = await FileProcessor.processExcel(file, hasHeaders)
       }
+    } else if (detectedFileType === 'json') {
+      result = await FileProcessor.processJSON(file)
+    } else if (detectedFileType === 'ndjson') {
+      result = await FileProcessor.processNDJSON(file)
+    } else if (detectedFileType === 'parquet') {
+      result = await FileProcessor.processParquet(file)
     } else {
       return NextResponse.json(
         { success: false, error: 'Unsupported file type' },
@@ -101,9 +168,9 @@ async function handlePOST(request: NextRequest) {
       )
     }
 
-    // Generate preview and detect column types
+    // Generate preview and detect column types, unless the file declares them
     const preview = FileProcessor.generatePreview(result.data, 10)
-    const columnTypes = FileProcessor.detectColumnTypes(result.data, result.headers)
+    const columnTypes = result.columnTypes ?? FileProcessor.detectColumnTypes(result.data, result.headers)
 
     return NextResponse.json({
       success: true,
@@ -116,12 +183,31 @@ async function handlePOST(request: NextRequest) {
         preview,
         columnTypes,
         sheets: result.sheets,
+        rowErrors: result.rowErrors,
         totalRows: result.data.length,
         processedAt: new Date().toISOString()
       }
     })
 
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Validation failed',
+            details: error.issues
+          },
+          { status: 400 }
+        )
+      }
+
+      if (error instanceof CSVUploadSessionError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 409 }
+        )
+      }
+
       console.error('File upload error:', error)
       
       return NextResponse.json(
@@ -154,14 +240,14 @@ async function handlePUT(request: NextRequest) {
     const validationSchema = z.object({
       fileName: z.string().min(1),
       fileSize: z.number().min(1),
-      fileType: z.enum(['csv', 'excel'])
+      fileType: z.enum(['csv', 'excel', 'json', 'ndjson', 'parquet'])
     })
 
     const validatedData = validationSchema.parse(body)
 
     // Simulate file validation (in real implementation, this might check against storage)
     const mockFile = new File([''], validatedData.fileName, { 
-      type: validatedData.fileType === 'csv' ? 'text/csv' : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      type: MIME_TYPES[validatedData.fileType]
     })
 
     // Override size for validation
@@ -2,7 +2,7 @@ import React from 'react'
 import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { AnalyticsDashboard } from '../analytics-dashboard'
-import { useRealtimeAnalytics } from '@/lib/hooks/use-analytics'
+import { useRealtimeAnalytics, useGenerateHierarchicalPredictions } from '@/lib/hooks/use-analytics'
 import { useTranscripts } from '@/lib/hooks/use-transcripts'
 
 // Mock the hooks
@@ -11,6 +11,7 @@ jest.mock('@/lib/hooks/use-transcripts')
 
 const mockUseRealtimeAnalytics = useRealtimeAnalytics as jest.MockedFunction<typeof useRealtimeAnalytics>
 const mockUseTranscripts = useTranscripts as jest.MockedFunction<typeof useTranscripts>
+const mockUseGenerateHierarchicalPredictions = useGenerateHierarchicalPredictions as jest.MockedFunction<typeof useGenerateHierarchicalPredictions>
 
 // Mock Recharts components
 jest.mock('recharts', () => ({
@@ -131,6 +132,14 @@ describe('AnalyticsDashboard', () => {
     } as any)
 
     mockUseRealtimeAnalytics.mockReturnValue(mockAnalyticsData as any)
+
+    mockUseGenerateHierarchicalPredictions.mockReturnValue({
+      data: undefined,
+      mutate: jest.fn(),
+      isPending: false,
+      isError: false,
+      error: null
+    } as any)
   })
 
   afterEach(() => {
@@ -9,6 +9,12 @@ import { toast } from 'sonner'
 // Mock dependencies
 jest.mock('@/lib/hooks/use-transcripts')
 jest.mock('@/lib/hooks/use-predictions')
+jest.mock('@/lib/hooks/use-segments', () => ({
+  useSegments: () => ({ data: undefined })
+}))
+jest.mock('@/lib/hooks/use-finance', () => ({
+  useFinanceReportFetcher: () => jest.fn()
+}))
 jest.mock('@/lib/services/export-service')
 jest.mock('sonner')
 
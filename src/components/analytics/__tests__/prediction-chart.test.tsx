@@ -225,6 +225,41 @@ describe('PredictionChart', () => {
     expect(mar2024).toHaveProperty('predicted', 130) // Only Client A's prediction
   })
 
+  it('uses the reconciled total when no client is selected', () => {
+    const clientPredictions = [
+      { clientName: 'Client A', date: new Date(2024, 2, 1), predictedCount: 60, confidenceInterval: { lower: 50, upper: 70 } },
+      { clientName: 'Client B', date: new Date(2024, 2, 1), predictedCount: 40, confidenceInterval: { lower: 30, upper: 50 } }
+    ]
+    const totalPredictions = [
+      { clientName: 'All Clients', date: new Date(2024, 2, 1), predictedCount: 100, confidenceInterval: { lower: 86, upper: 114 } }
+    ]
+
+    const { rerender } = render(
+      <PredictionChart 
+        historicalData={[]} 
+        predictionData={clientPredictions}
+        totalPredictionData={totalPredictions}
+        reconciliation="mint"
+      />
+    )
+
+    let chartData = JSON.parse(screen.getByTestId('composed-chart').getAttribute('data-chart-data') || '[]')
+    expect(chartData[0]).toMatchObject({ predicted: 100, confidenceLower: 86, confidenceUpper: 114 })
+    expect(screen.getByText(/mint reconciled/)).toBeInTheDocument()
+
+    rerender(
+      <PredictionChart 
+        historicalData={[]} 
+        predictionData={clientPredictions}
+        totalPredictionData={totalPredictions}
+        selectedClient="Client B"
+      />
+    )
+
+    chartData = JSON.parse(screen.getByTestId('composed-chart').getAttribute('data-chart-data') || '[]')
+    expect(chartData[0]).toMatchObject({ predicted: 40, confidenceLower: 30, confidenceUpper: 50 })
+  })
+
   it('updates description with selected client name', () => {
     render(
       <PredictionChart 
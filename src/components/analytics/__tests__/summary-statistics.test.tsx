@@ -3,6 +3,7 @@ import { render, screen } from '@testing-library/react'
 import { jest } from '@jest/globals'
 import { SummaryStatistics } from '../summary-statistics'
 import { TranscriptData } from '@/types/transcript'
+import { TargetBreach } from '@/types/target'
 
 // Mock framer-motion
 jest.mock('framer-motion', () => ({
@@ -291,13 +292,6 @@ describe('SummaryStatistics', () => {
     expect(screen.getByText('1')).toBeInTheDocument() // Only 1 client
   })
 
-  it('applies time range filtering', () => {
-    render(<SummaryStatistics data={mockTranscriptData} timeRange="3m" />)
-
-    // Component should handle time range filtering
-    expect(screen.getByText('Total Transcripts')).toBeInTheDocument()
-  })
-
   it('shows consistent growth insight', () => {
     const consistentGrowthData = [
       {
@@ -385,4 +379,32 @@ describe('SummaryStatistics', () => {
     // Should render trend bars (visual elements)
     expect(screen.getByText('Recent Trend')).toBeInTheDocument()
   })
+
+  it('shows predicted target breaches as warnings', () => {
+    const breach = (clientName: string, kind: TargetBreach['kind']): TargetBreach => ({
+      targetId: `target-${clientName}`,
+      clientName,
+      metric: 'minimumVolume',
+      month: '2025-03',
+      kind,
+      target: 1000,
+      value: 820,
+      variance: -180,
+      variancePercent: -18,
+      breached: true,
+      missPercent: 18,
+      message: `${clientName} ${kind === 'forecast' ? 'will miss' : 'missed'} its March 2025 minimum volume by 18%`
+    })
+
+    render(
+      <SummaryStatistics
+        data={mockTranscriptData}
+        breaches={[breach('Client A', 'forecast'), breach('Client B', 'actual')]}
+      />
+    )
+
+    expect(screen.getByText('Predicted Target Breach')).toBeInTheDocument()
+    expect(screen.getByText(/Client A will miss its March 2025 minimum volume by 18%/)).toBeInTheDocument()
+    expect(screen.queryByText(/Client B missed/)).not.toBeInTheDocument()
+  })
 })
\ No newline at end of file
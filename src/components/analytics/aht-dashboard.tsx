@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Badge } from '@/components/ui/badge'
@@ -9,6 +9,9 @@ import {
   Tooltip, ResponsiveContainer, PieChart, Pie, Cell 
 } from 'recharts'
 import { TrendingUp, TrendingDown, Users, Clock, AlertTriangle } from 'lucide-react'
+import { AHTImport } from './aht-import'
+import { RiskRuleEditor } from './risk-rule-editor'
+import { useAuth } from '@/lib/hooks/use-auth'
 import type { AHTSummary, MonthlyTrend, ClientPerformance } from '@/types/aht'
 
 interface AHTDashboardProps {
@@ -20,34 +23,35 @@ export function AHTDashboard({ className }: AHTDashboardProps) {
   const [trends, setTrends] = useState<MonthlyTrend[]>([])
   const [clientPerformance, setClientPerformance] = useState<ClientPerformance[]>([])
   const [loading, setLoading] = useState(true)
+  const { isAdmin } = useAuth()
 
-  useEffect(() => {
-    const fetchData = async () => {
-      try {
-        const [summaryRes, trendsRes, clientsRes] = await Promise.all([
-          fetch('/api/aht/summary'),
-          fetch('/api/aht/trends'),
-          fetch('/api/aht/clients?type=performance')
-        ])
+  const fetchData = useCallback(async () => {
+    try {
+      const [summaryRes, trendsRes, clientsRes] = await Promise.all([
+        fetch('/api/aht/summary'),
+        fetch('/api/aht/trends'),
+        fetch('/api/aht/clients?type=performance')
+      ])
 
-        const [summaryData, trendsData, clientsData] = await Promise.all([
-          summaryRes.json(),
-          trendsRes.json(),
-          clientsRes.json()
-        ])
+      const [summaryData, trendsData, clientsData] = await Promise.all([
+        summaryRes.json(),
+        trendsRes.json(),
+        clientsRes.json()
+      ])
 
-        if (summaryData.success) setSummary(summaryData.data)
-        if (trendsData.success) setTrends(trendsData.data)
-        if (clientsData.success) setClientPerformance(clientsData.data)
-      } catch (error) {
-        console.error('Error fetching AHT data:', error)
-      } finally {
-        setLoading(false)
-      }
+      if (summaryData.success) setSummary(summaryData.data)
+      if (trendsData.success) setTrends(trendsData.data)
+      if (clientsData.success) setClientPerformance(clientsData.data)
+    } catch (error) {
+      console.error('Error fetching AHT data:', error)
+    } finally {
+      setLoading(false)
     }
+  }, [])
 
+  useEffect(() => {
     fetchData()
-  }, [])
+  }, [fetchData])
 
   if (loading) {
     return (
@@ -137,12 +141,21 @@ export function AHTDashboard({ className }: AHTDashboardProps) {
         </div>
       )}
 
+      {summary && summary.totalClients === 0 && (
+        <Card>
+          <CardContent className="py-6 text-center text-sm text-muted-foreground">
+            No AHT data yet. Import the AHT spreadsheet from the Import tab.
+          </CardContent>
+        </Card>
+      )}
+
       {/* Charts and Analysis */}
-      <Tabs defaultValue="trends" className="space-y-4">
+      <Tabs defaultValue={summary && summary.totalClients === 0 ? 'import' : 'trends'} className="space-y-4">
         <TabsList>
           <TabsTrigger value="trends">Monthly Trends</TabsTrigger>
           <TabsTrigger value="clients">Client Performance</TabsTrigger>
           <TabsTrigger value="analysis">Risk Analysis</TabsTrigger>
+          <TabsTrigger value="import">Import</TabsTrigger>
         </TabsList>
 
         <TabsContent value="trends" className="space-y-4">
@@ -211,7 +224,7 @@ export function AHTDashboard({ className }: AHTDashboardProps) {
               <CardHeader>
                 <CardTitle>Risk Distribution</CardTitle>
                 <CardDescription>
-                  Client risk levels based on AHT and volume
+                  Client risk levels from the weighted risk rules
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -256,6 +269,54 @@ export function AHTDashboard({ className }: AHTDashboardProps) {
               </CardContent>
             </Card>
           </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Client Risk Explanations</CardTitle>
+              <CardDescription>
+                Risk score and the rules each client triggered, highest risk first
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {[...clientPerformance]
+                  .sort((a, b) => b.riskScore - a.riskScore)
+                  .map((client) => {
+                    const fired = client.riskRules.filter(rule => rule.fired)
+                    return (
+                      <div key={client.client} className="border-b pb-3 last:border-0">
+                        <div className="flex items-center justify-between">
+                          <p className="font-medium">{client.client}</p>
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm text-muted-foreground">Score {client.riskScore}</span>
+                            <Badge variant={getRiskColor(client.riskLevel)}>{client.riskLevel} risk</Badge>
+                          </div>
+                        </div>
+                        {fired.length === 0 ? (
+                          <p className="text-sm text-muted-foreground">No rules triggered</p>
+                        ) : (
+                          <ul className="mt-1 space-y-1 text-sm">
+                            {fired.map(rule => (
+                              <li key={rule.ruleId} className="flex items-center gap-2">
+                                <AlertTriangle className="h-3 w-3 text-orange-500" />
+                                <span className="font-medium">{rule.name}</span>
+                                <span className="text-muted-foreground">{rule.explanation} (weight {rule.weight})</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )
+                  })}
+              </div>
+            </CardContent>
+          </Card>
+
+          {isAdmin && <RiskRuleEditor onRulesChanged={fetchData} />}
+        </TabsContent>
+
+        <TabsContent value="import" className="space-y-4">
+          <AHTImport onImported={fetchData} />
         </TabsContent>
       </Tabs>
     </div>
@@ -0,0 +1,131 @@
+"use client"
+
+import { useState, useCallback } from 'react'
+import { FileUpload } from '@/components/data/file-upload'
+import { ImportWizard, type ImportFieldConfig } from '@/components/data/import-wizard'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { CheckCircle, AlertCircle, Upload } from 'lucide-react'
+import { transformRawDataToAHT } from '@/lib/utils/aht-import'
+import type { AHTData, AHTImportSummary } from '@/types/aht'
+import type { ImportResult, RawData } from '@/types/transcript'
+
+export const AHT_IMPORT_CONFIG: ImportFieldConfig<AHTData> = {
+  requiredFields: {
+    client: 'Client',
+    reviewAHT: 'Review AHT',
+    validationAHT: 'Validation AHT'
+  },
+  optionalFields: {
+    overallAHT: 'Overall AHT',
+    month: 'Month',
+    volume: 'Volume'
+  },
+  description: 'Map the client and AHT columns. Month columns such as "2024_Jun" or "Jun 2024" are detected automatically; Grand Total is recalculated from them. For one row per client and month, also map Month (and Volume) to record review and validation AHT per month.',
+  transform: async (data, columnMapping) => transformRawDataToAHT(data, columnMapping)
+}
+
+interface AHTImportProps {
+  onImported?: (summary: AHTImportSummary) => void
+  className?: string
+}
+
+interface FileData {
+  headers: string[]
+  data: RawData[]
+  fileName: string
+}
+
+export function AHTImport({ onImported, className }: AHTImportProps) {
+  const [fileData, setFileData] = useState<FileData | null>(null)
+  const [summary, setSummary] = useState<AHTImportSummary | null>(null)
+  const [skippedRows, setSkippedRows] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+
+  const handleFileProcessed = useCallback((data: FileData) => {
+    setFileData(data)
+    setSummary(null)
+    setError(null)
+  }, [])
+
+  const handleImport = useCallback(async (result: ImportResult, records: AHTData[]) => {
+    setIsImporting(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/aht/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ clients: records })
+      })
+      const body = await response.json()
+
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to import AHT data')
+      }
+
+      setSummary(body.data)
+      setSkippedRows(result.errorCount)
+      setFileData(null)
+      onImported?.(body.data)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to import AHT data')
+    } finally {
+      setIsImporting(false)
+    }
+  }, [onImported])
+
+  const handleCancel = useCallback(() => {
+    setFileData(null)
+    setError(null)
+  }, [])
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {summary ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CheckCircle className="h-5 w-5 text-green-600" />
+              AHT Import Complete
+            </CardTitle>
+            <CardDescription>
+              {summary.volumes} monthly volumes across {summary.months} months for {summary.clients} clients
+              {skippedRows > 0 && `; ${skippedRows} rows skipped`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" onClick={() => setSummary(null)}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import Another File
+            </Button>
+          </CardContent>
+        </Card>
+      ) : fileData ? (
+        <ImportWizard
+          headers={fileData.headers}
+          data={fileData.data}
+          fileName={fileData.fileName}
+          config={AHT_IMPORT_CONFIG}
+          onImport={handleImport}
+          onCancel={handleCancel}
+        />
+      ) : (
+        <FileUpload onFileProcessed={handleFileProcessed} className="w-full" />
+      )}
+
+      {isImporting && (
+        <p className="text-sm text-muted-foreground">Importing AHT data...</p>
+      )}
+    </div>
+  )
+}
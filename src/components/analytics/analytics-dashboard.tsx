@@ -21,11 +21,19 @@ import {
   Target,
   AlertCircle
 } from 'lucide-react'
-import { useRealtimeAnalytics } from '@/lib/hooks/use-analytics'
+import { useRealtimeAnalytics, useGenerateHierarchicalPredictions } from '@/lib/hooks/use-analytics'
+import type { ReconciliationMethod } from '@/lib/utils/forecast-reconciliation'
 import { useTranscripts } from '@/lib/hooks/use-transcripts'
+import { useCalendarEvents } from '@/lib/hooks/use-calendar-events'
+import { useAnomalies } from '@/lib/hooks/use-anomalies'
+import { useSegments } from '@/lib/hooks/use-segments'
+import { useTargetReport } from '@/lib/hooks/use-targets'
 import { TrendChart } from './trend-chart'
 import { PredictionChart } from './prediction-chart'
 import { InteractiveChart } from './interactive-chart'
+import { SeasonalDecompositionChart } from './seasonal-decomposition-chart'
+import { ClientAnalytics } from './client-analytics'
+import { CohortAnalysis } from './cohort-analysis'
 import { SummaryStatistics } from './summary-statistics'
 import { AnimatedChartContainer } from '@/components/animations'
 
@@ -38,6 +46,8 @@ interface FilterState {
   startDate?: string
   endDate?: string
   transcriptType?: string
+  // Client segment id
+  segment?: string
   timeRange: '7d' | '30d' | '90d' | '1y' | 'all'
 }
 
@@ -49,12 +59,20 @@ const timeRangeOptions = [
   { value: 'all', label: 'All time' },
 ]
 
+const reconciliationOptions: { value: ReconciliationMethod; label: string }[] = [
+  { value: 'mint', label: 'MinT (variance weighted)' },
+  { value: 'bottom-up', label: 'Bottom-up' },
+  { value: 'top-down', label: 'Top-down' },
+]
+
 export function AnalyticsDashboard({ className }: AnalyticsDashboardProps) {
   const [filters, setFilters] = useState<FilterState>({
     timeRange: '30d'
   })
   const [selectedClients, setSelectedClients] = useState<string[]>([])
   const [isRefreshing, setIsRefreshing] = useState(false)
+  const [reconciliation, setReconciliation] = useState<ReconciliationMethod>('mint')
+  const reconciledPredictions = useGenerateHierarchicalPredictions()
 
   // Calculate date range based on time range filter
   const dateRange = useMemo(() => {
@@ -91,12 +109,31 @@ export function AnalyticsDashboard({ className }: AnalyticsDashboardProps) {
     refetchAll
   } = useRealtimeAnalytics(apiFilters)
 
+  const { data: calendarEvents } = useCalendarEvents()
+  const { data: anomalies } = useAnomalies()
+  const { data: segmentation } = useSegments()
+  const { data: targetReport } = useTargetReport()
+
   const isLoading = transcriptsLoading || analyticsLoading
 
+  // Flatten reconciled client forecasts for the prediction chart
+  const reconciledChartData = useMemo(() => {
+    const result = reconciledPredictions.data
+    if (!result) return null
+
+    return {
+      clients: result.clients.flatMap(client =>
+        client.predictions.map(p => ({ ...p, clientName: client.clientName }))
+      ),
+      total: result.total.predictions.map(p => ({ ...p, clientName: result.total.clientName })),
+      reconciliation: result.reconciliation
+    }
+  }, [reconciledPredictions.data])
+
   // Get unique clients for filter dropdown
   const availableClients = useMemo(() => {
     if (!transcripts?.data) return []
-    const clients = [...new Set(transcripts.data.map(t => t.clientName))]
+    const clients = [...new Set<string>(transcripts.data.map(t => t.clientName))]
     return clients.sort()
   }, [transcripts?.data])
 
@@ -190,11 +227,11 @@ export function AnalyticsDashboard({ className }: AnalyticsDashboardProps) {
             Filters
           </CardTitle>
           <CardDescription>
-            Filter data by date range, client, and transcript type
+            Filter data by date range, client, segment, and transcript type
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
             {/* Time Range */}
             <div className="space-y-2">
               <Label>Time Range</Label>
@@ -236,6 +273,27 @@ export function AnalyticsDashboard({ className }: AnalyticsDashboardProps) {
               </Select>
             </div>
 
+            {/* Segment Filter */}
+            <div className="space-y-2">
+              <Label>Segment</Label>
+              <Select
+                value={filters.segment || ''}
+                onValueChange={(value) => handleFilterChange('segment', value)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="All segments" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All segments</SelectItem>
+                  {segmentation?.segments.map(segment => (
+                    <SelectItem key={segment.id} value={segment.id}>
+                      {segment.label} ({segment.clients.length})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             {/* Transcript Type Filter */}
             <div className="space-y-2">
               <Label>Transcript Type</Label>
@@ -289,7 +347,7 @@ export function AnalyticsDashboard({ className }: AnalyticsDashboardProps) {
           )}
 
           {/* Clear Filters */}
-          {(filters.clientName || filters.transcriptType || filters.startDate || selectedClients.length > 0) && (
+          {(filters.clientName || filters.segment || filters.transcriptType || filters.startDate || selectedClients.length > 0) && (
             <div className="mt-4">
               <Button variant="ghost" size="sm" onClick={clearFilters}>
                 Clear all filters
@@ -337,8 +395,8 @@ export function AnalyticsDashboard({ className }: AnalyticsDashboardProps) {
             {/* Summary Statistics */}
             <SummaryStatistics
               data={chartData}
-              timeRange={filters.timeRange}
               selectedClients={selectedClients}
+              breaches={targetReport?.breaches}
             />
 
             {/* Quick Charts Grid */}
@@ -347,6 +405,7 @@ export function AnalyticsDashboard({ className }: AnalyticsDashboardProps) {
                 <TrendChart
                   data={chartData}
                   selectedClients={selectedClients}
+                  anomalies={anomalies}
                   height={300}
                 />
               </AnimatedChartContainer>
@@ -355,6 +414,7 @@ export function AnalyticsDashboard({ className }: AnalyticsDashboardProps) {
                 <InteractiveChart
                   data={chartData}
                   selectedClients={selectedClients}
+                  anomalies={anomalies}
                   title="Interactive Trend Analysis"
                   description="Click and drag to zoom, use brush to navigate"
                   height={300}
@@ -370,25 +430,85 @@ export function AnalyticsDashboard({ className }: AnalyticsDashboardProps) {
               <TrendChart
                 data={chartData}
                 selectedClients={selectedClients}
+                anomalies={anomalies}
                 showGrid={true}
                 showLegend={true}
                 height={500}
+                events={calendarEvents}
               />
               
               <InteractiveChart
                 data={chartData}
                 selectedClients={selectedClients}
+                anomalies={anomalies}
                 title="Detailed Trend Analysis"
                 description="Interactive chart with zoom and brush controls"
                 height={400}
                 enableZoom={true}
                 enableBrush={true}
               />
+
+              <SeasonalDecompositionChart clientNames={availableClients} />
             </div>
           </TabsContent>
 
           <TabsContent value="predictions" className="space-y-6">
-            {predictions.data && (
+            <Card>
+              <CardContent className="flex flex-wrap items-end gap-4 pt-6">
+                <div className="space-y-2">
+                  <Label>Reconciliation</Label>
+                  <Select
+                    value={reconciliation}
+                    onValueChange={(value) => setReconciliation(value as ReconciliationMethod)}
+                  >
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {reconciliationOptions.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  onClick={() => reconciledPredictions.mutate({
+                    predictionType: 'monthly',
+                    periodsAhead: 6,
+                    modelType: 'linear',
+                    reconciliation,
+                    segment: filters.segment
+                  })}
+                  disabled={reconciledPredictions.isPending}
+                >
+                  <Target className="h-4 w-4 mr-2" />
+                  {reconciledPredictions.isPending ? 'Reconciling...' : 'Reconcile client forecasts'}
+                </Button>
+                {reconciledPredictions.isError && (
+                  <p className="text-sm text-destructive">
+                    {reconciledPredictions.error.message}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            {reconciledChartData && (
+              <PredictionChart
+                historicalData={chartData}
+                predictionData={reconciledChartData.clients}
+                totalPredictionData={reconciledChartData.total}
+                reconciliation={reconciledChartData.reconciliation}
+                selectedClient={filters.clientName}
+                showConfidenceInterval={true}
+                showHistorical={true}
+                height={500}
+                events={calendarEvents}
+              />
+            )}
+
+            {!reconciledChartData && predictions.data && (
               <PredictionChart
                 historicalData={chartData}
                 predictionData={predictions.data}
@@ -396,10 +516,11 @@ export function AnalyticsDashboard({ className }: AnalyticsDashboardProps) {
                 showConfidenceInterval={true}
                 showHistorical={true}
                 height={500}
+                events={calendarEvents}
               />
             )}
             
-            {!predictions.data && (
+            {!reconciledChartData && !predictions.data && (
               <Card>
                 <CardContent className="flex items-center justify-center py-8">
                   <div className="text-center">
@@ -448,6 +569,7 @@ export function AnalyticsDashboard({ className }: AnalyticsDashboardProps) {
                 <TrendChart
                   data={chartData}
                   selectedClients={selectedClients}
+                  anomalies={anomalies}
                   showGrid={true}
                   showLegend={true}
                   height={400}
@@ -456,6 +578,7 @@ export function AnalyticsDashboard({ className }: AnalyticsDashboardProps) {
                 <InteractiveChart
                   data={chartData}
                   selectedClients={selectedClients}
+                  anomalies={anomalies}
                   title="Client Comparison"
                   description="Compare transcript volumes across selected clients"
                   height={400}
@@ -464,6 +587,10 @@ export function AnalyticsDashboard({ className }: AnalyticsDashboardProps) {
                 />
               </div>
             )}
+
+            <ClientAnalytics data={chartData} segmentation={segmentation} />
+
+            <CohortAnalysis segment={filters.segment} />
           </TabsContent>
         </Tabs>
       )}
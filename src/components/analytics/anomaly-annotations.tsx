@@ -0,0 +1,112 @@
+'use client'
+
+import React from 'react'
+import { ReferenceDot } from 'recharts'
+import type { AnomalySeverity, VolumeAnomaly } from '@/types/anomaly'
+
+export type ChartAnomaly = Pick<
+  VolumeAnomaly,
+  'clientName' | 'granularity' | 'periodStart' | 'actualCount' | 'expectedCount' | 'severity' | 'direction' | 'hints'
+>
+
+export const ANOMALY_COLORS: Record<AnomalySeverity, string> = {
+  low: '#eab308',
+  medium: '#f97316',
+  high: '#dc2626',
+  critical: '#7f1d1d'
+}
+
+const SEVERITY_ORDER: AnomalySeverity[] = ['critical', 'high', 'medium', 'low']
+
+const toMonthKey = (date: Date | string) => {
+  const d = new Date(date)
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`
+}
+
+const toDayLabel = (date: Date | string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+
+// Anomalies for the charted clients, keyed by month
+function anomaliesByMonth(anomalies: ChartAnomaly[] | undefined, clientNames: string[]): Map<string, ChartAnomaly[]> {
+  const byMonth = new Map<string, ChartAnomaly[]>()
+  const relevant = (anomalies || []).filter(anomaly => clientNames.includes(anomaly.clientName))
+
+  relevant.forEach(anomaly => {
+    const month = toMonthKey(anomaly.periodStart)
+    byMonth.set(month, [...(byMonth.get(month) || []), anomaly])
+  })
+
+  return byMonth
+}
+
+/**
+ * Recharts dots marking volume anomalies on a month-keyed chart. Each client
+ * gets one dot per month on its own line, coloured by the most severe of its
+ * daily or monthly anomalies that month.
+ */
+export function anomalyAnnotations(
+  anomalies: ChartAnomaly[] | undefined,
+  chartData: Array<{ month: string; [clientName: string]: string | number }>,
+  clientNames: string[]
+): React.ReactElement[] {
+  const byMonth = anomaliesByMonth(anomalies, clientNames)
+  if (byMonth.size === 0) {
+    return []
+  }
+
+  return chartData.flatMap(point => {
+    const monthAnomalies = byMonth.get(point.month) || []
+
+    return clientNames.flatMap(clientName => {
+      const clientAnomalies = monthAnomalies.filter(anomaly => anomaly.clientName === clientName)
+      const value = point[clientName]
+      if (clientAnomalies.length === 0 || typeof value !== 'number') return []
+
+      const severity = SEVERITY_ORDER.find(level => clientAnomalies.some(anomaly => anomaly.severity === level)) as AnomalySeverity
+
+      return [
+        <ReferenceDot
+          key={`anomaly-${point.month}-${clientName}`}
+          x={point.month}
+          y={value}
+          r={7}
+          fill={ANOMALY_COLORS[severity]}
+          stroke="#ffffff"
+          strokeWidth={2}
+        />
+      ]
+    })
+  })
+}
+
+interface AnomalyTooltipNotesProps {
+  anomalies?: ChartAnomaly[]
+  month: string
+  clientNames: string[]
+}
+
+/**
+ * Anomaly details for a chart tooltip: what was seen against what was
+ * expected, with the first root-cause hint
+ */
+export function AnomalyTooltipNotes({ anomalies, month, clientNames }: AnomalyTooltipNotesProps) {
+  const monthAnomalies = anomaliesByMonth(anomalies, clientNames).get(month) || []
+  if (monthAnomalies.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="border-t pt-2 mt-2 space-y-1 max-w-xs">
+      {monthAnomalies.map((anomaly, index) => (
+        <div key={index} className="text-xs">
+          <p style={{ color: ANOMALY_COLORS[anomaly.severity] }} className="font-medium">
+            {`${anomaly.clientName}: ${anomaly.direction}`}
+            {anomaly.granularity === 'daily' && ` on ${toDayLabel(anomaly.periodStart)}`}
+            {` (${anomaly.actualCount} vs ${anomaly.expectedCount} expected)`}
+          </p>
+          {anomaly.hints[0] && <p className="text-gray-600">{anomaly.hints[0]}</p>}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,297 @@
+"use client"
+
+import { useMemo, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import { Loader2, ShieldCheck, AlertTriangle } from 'lucide-react'
+import { useBacktests, useRunBacktest } from '@/lib/hooks/use-analytics'
+import type { ForecastModelType } from '@/lib/services/prediction-engine'
+import type { BacktestWindowType } from '@/lib/services/backtest-service'
+import type { BacktestRun } from '@/types/backtest'
+
+const MODEL_TYPES: ForecastModelType[] = [
+  'arima',
+  'sarima',
+  'holt-winters-additive',
+  'holt-winters-multiplicative',
+  'linear',
+  'polynomial',
+  'croston',
+  'tsb'
+]
+
+const MODEL_COLORS: Record<string, string> = {
+  linear: '#64748b',
+  polynomial: '#a855f7',
+  arima: '#2563eb',
+  sarima: '#0891b2',
+  'holt-winters-additive': '#16a34a',
+  'holt-winters-multiplicative': '#ea580c',
+  croston: '#ca8a04',
+  tsb: '#db2777'
+}
+
+interface BacktestDashboardProps {
+  className?: string
+}
+
+const formatMetric = (value: number | null, digits: number = 2) =>
+  value === null ? '—' : value.toFixed(digits)
+
+const formatCoverage = (value: number | null) =>
+  value === null ? '—' : `${(value * 100).toFixed(0)}%`
+
+// Latest run per client and granularity, keeping only that run's recommended model
+function latestRecommendations(runs: BacktestRun[]): BacktestRun[] {
+  const latest = new Map<string, BacktestRun>()
+
+  runs
+    .filter(run => run.isRecommended)
+    .forEach(run => {
+      const key = `${run.clientId}-${run.predictionType}`
+      const existing = latest.get(key)
+      if (!existing || new Date(run.createdAt) > new Date(existing.createdAt)) {
+        latest.set(key, run)
+      }
+    })
+
+  return Array.from(latest.values()).sort((a, b) => a.clientName.localeCompare(b.clientName))
+}
+
+export function BacktestDashboard({ className }: BacktestDashboardProps) {
+  const [clientName, setClientName] = useState('')
+  const [predictionType, setPredictionType] = useState<'daily' | 'weekly' | 'monthly'>('monthly')
+  const [windowType, setWindowType] = useState<BacktestWindowType>('expanding')
+  const [horizon, setHorizon] = useState(3)
+
+  const { data: runs = [], isLoading } = useBacktests()
+  const runBacktest = useRunBacktest()
+  const report = runBacktest.data
+
+  const recommendations = useMemo(() => latestRecommendations(runs), [runs])
+
+  // One row per horizon with a MASE column per model
+  const horizonChartData = useMemo(() => {
+    if (!report) return []
+    return Array.from({ length: report.horizon }, (_, i) => {
+      const row: Record<string, number | null> = { horizon: i + 1 }
+      report.models.forEach(model => {
+        row[model.modelType] = model.horizons[i]?.mase ?? null
+      })
+      return row
+    })
+  }, [report])
+
+  const handleRun = () => {
+    runBacktest.mutate({
+      clientName: clientName || undefined,
+      predictionType,
+      windowType,
+      horizon,
+      modelTypes: MODEL_TYPES
+    })
+  }
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <Card>
+        <CardHeader>
+          <CardTitle>Run Backtest</CardTitle>
+          <CardDescription>
+            Refit every model at rolling forecast origins and score the forecasts against actual volumes
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-5 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="backtest-client">Client</Label>
+              <Input
+                id="backtest-client"
+                placeholder="All clients"
+                value={clientName}
+                onChange={(e) => setClientName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Granularity</Label>
+              <Select value={predictionType} onValueChange={(value) => setPredictionType(value as typeof predictionType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Window</Label>
+              <Select value={windowType} onValueChange={(value) => setWindowType(value as BacktestWindowType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="expanding">Expanding</SelectItem>
+                  <SelectItem value="rolling">Rolling</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-horizon">Horizon</Label>
+              <Input
+                id="backtest-horizon"
+                type="number"
+                min={1}
+                max={90}
+                value={horizon}
+                onChange={(e) => setHorizon(Math.max(1, parseInt(e.target.value) || 1))}
+              />
+            </div>
+            <Button onClick={handleRun} disabled={runBacktest.isPending}>
+              {runBacktest.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Run Backtest
+            </Button>
+          </div>
+          {runBacktest.error && (
+            <p className="mt-4 text-sm text-destructive">{runBacktest.error.message}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {report && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Accuracy by Model — {report.clientName}</CardTitle>
+            <CardDescription>
+              {report.origins} {report.windowType} origins, {report.horizon}-period horizon,
+              intervals at {(report.confidenceLevel * 100).toFixed(0)}% confidence
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Model</TableHead>
+                  <TableHead className="text-right">MASE</TableHead>
+                  <TableHead className="text-right">sMAPE</TableHead>
+                  <TableHead className="text-right">MAPE</TableHead>
+                  <TableHead className="text-right">RMSE</TableHead>
+                  <TableHead className="text-right">Coverage</TableHead>
+                  <TableHead className="text-right">Origins</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.models.map(model => (
+                  <TableRow key={model.modelType}>
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-2">
+                        {model.modelType}
+                        {model.modelType === report.recommendedModel && (
+                          <Badge variant="default">Recommended</Badge>
+                        )}
+                        {model.error && (
+                          <Badge variant="destructive" title={model.error}>Failed</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{formatMetric(model.overall.mase)}</TableCell>
+                    <TableCell className="text-right">{formatMetric(model.overall.smape, 1)}%</TableCell>
+                    <TableCell className="text-right">{formatMetric(model.overall.mape, 1)}%</TableCell>
+                    <TableCell className="text-right">{formatMetric(model.overall.rmse, 1)}</TableCell>
+                    <TableCell className="text-right">{formatCoverage(model.overall.coverage)}</TableCell>
+                    <TableCell className="text-right">
+                      {model.origins}{model.failedOrigins > 0 && ` (${model.failedOrigins} failed)`}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div>
+              <h3 className="text-sm font-medium mb-2">MASE by forecast horizon</h3>
+              <ResponsiveContainer width="100%" height={280}>
+                <LineChart data={horizonChartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="horizon" />
+                  <YAxis />
+                  <Tooltip />
+                  <Legend />
+                  {report.models.filter(model => model.origins > 0).map(model => (
+                    <Line
+                      key={model.modelType}
+                      type="monotone"
+                      dataKey={model.modelType}
+                      stroke={MODEL_COLORS[model.modelType]}
+                      strokeWidth={model.modelType === report.recommendedModel ? 3 : 1.5}
+                      connectNulls
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Trusted Models by Client</CardTitle>
+          <CardDescription>
+            Best model from each client&apos;s latest stored backtest. MASE below 1 beats a naive forecast.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-24 bg-muted animate-pulse rounded" />
+          ) : recommendations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No stored backtests yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Client</TableHead>
+                  <TableHead>Granularity</TableHead>
+                  <TableHead>Model</TableHead>
+                  <TableHead className="text-right">MASE</TableHead>
+                  <TableHead className="text-right">Coverage</TableHead>
+                  <TableHead>Run</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recommendations.map(run => (
+                  <TableRow key={run.id}>
+                    <TableCell className="font-medium">{run.clientName}</TableCell>
+                    <TableCell className="capitalize">{run.predictionType}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {run.mase !== null && run.mase < 1
+                          ? <ShieldCheck className="h-4 w-4 text-green-600" />
+                          : <AlertTriangle className="h-4 w-4 text-yellow-600" />}
+                        {run.modelType}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{formatMetric(run.mase)}</TableCell>
+                    <TableCell className="text-right">
+                      {formatCoverage(run.coverage)}
+                      <span className="text-muted-foreground"> / {(run.confidenceLevel * 100).toFixed(0)}%</span>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {new Date(run.createdAt).toLocaleDateString()}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,338 @@
+"use client"
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Loader2, Edit, Trash2, CalendarPlus, Download } from 'lucide-react'
+import {
+  CalendarEventInput,
+  useCalendarEvents,
+  useCreateCalendarEvent,
+  useDeleteCalendarEvent,
+  useImportHolidays,
+  useUpdateCalendarEvent
+} from '@/lib/hooks/use-calendar-events'
+import { HOLIDAY_COUNTRIES, HolidayCountry } from '@/lib/utils/holidays'
+import type { CalendarEvent, CalendarEventType } from '@/types/calendar'
+
+export const EVENT_TYPE_LABELS: Record<CalendarEventType, string> = {
+  holiday: 'Holiday',
+  client_event: 'Client event',
+  outage: 'Outage'
+}
+
+const EVENT_TYPE_VARIANTS: Record<CalendarEventType, 'default' | 'secondary' | 'destructive'> = {
+  holiday: 'secondary',
+  client_event: 'default',
+  outage: 'destructive'
+}
+
+interface CalendarEventManagerProps {
+  className?: string
+}
+
+interface EventFormState {
+  name: string
+  eventType: CalendarEventType
+  startDate: string
+  endDate: string
+  clientName: string
+  notes: string
+}
+
+const emptyForm: EventFormState = {
+  name: '',
+  eventType: 'client_event',
+  startDate: '',
+  endDate: '',
+  clientName: '',
+  notes: ''
+}
+
+const toDateInput = (date: Date | string) => new Date(date).toISOString().split('T')[0]
+
+export function CalendarEventManager({ className }: CalendarEventManagerProps) {
+  const [form, setForm] = useState<EventFormState>(emptyForm)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [countryCode, setCountryCode] = useState<HolidayCountry>('US')
+  const [year, setYear] = useState(new Date().getFullYear())
+  const [holidayClient, setHolidayClient] = useState('')
+
+  const { data: events = [], isLoading } = useCalendarEvents()
+  const createEvent = useCreateCalendarEvent()
+  const updateEvent = useUpdateCalendarEvent()
+  const deleteEvent = useDeleteCalendarEvent()
+  const importHolidays = useImportHolidays()
+
+  const saveError = createEvent.error || updateEvent.error
+  const isSaving = createEvent.isPending || updateEvent.isPending
+
+  const updateForm = (key: keyof EventFormState, value: string) => {
+    setForm(prev => ({ ...prev, [key]: value }))
+  }
+
+  const handleEdit = (event: CalendarEvent) => {
+    setEditingId(event.id)
+    setForm({
+      name: event.name,
+      eventType: event.eventType,
+      startDate: toDateInput(event.startDate),
+      endDate: toDateInput(event.endDate),
+      clientName: event.clientName || '',
+      notes: event.notes || ''
+    })
+  }
+
+  const handleCancel = () => {
+    setEditingId(null)
+    setForm(emptyForm)
+  }
+
+  const handleSave = async () => {
+    const data: CalendarEventInput = {
+      name: form.name,
+      eventType: form.eventType,
+      startDate: form.startDate,
+      endDate: form.endDate || form.startDate,
+      notes: form.notes || undefined,
+      // An empty client applies the event to every client
+      ...(form.clientName ? { clientName: form.clientName } : { clientId: null })
+    }
+
+    try {
+      if (editingId) {
+        await updateEvent.mutateAsync({ id: editingId, data })
+      } else {
+        await createEvent.mutateAsync(data)
+      }
+      handleCancel()
+    } catch (error) {
+      console.error('Failed to save calendar event:', error)
+    }
+  }
+
+  const handleImport = () => {
+    importHolidays.mutate({
+      countryCode,
+      year,
+      clientName: holidayClient || undefined
+    })
+  }
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingId ? 'Edit Event' : 'Add Event'}</CardTitle>
+          <CardDescription>
+            Client launches, campaigns and outages. Forecasts estimate each event type&apos;s effect on volume
+            and apply it to future periods the events cover.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="event-name">Name</Label>
+              <Input
+                id="event-name"
+                value={form.name}
+                onChange={(e) => updateForm('name', e.target.value)}
+                placeholder="Client launch"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={form.eventType} onValueChange={(value) => updateForm('eventType', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(EVENT_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="event-client">Client</Label>
+              <Input
+                id="event-client"
+                value={form.clientName}
+                onChange={(e) => updateForm('clientName', e.target.value)}
+                placeholder="All clients"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="event-start">Start date</Label>
+              <Input
+                id="event-start"
+                type="date"
+                value={form.startDate}
+                onChange={(e) => updateForm('startDate', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="event-end">End date</Label>
+              <Input
+                id="event-end"
+                type="date"
+                value={form.endDate}
+                min={form.startDate}
+                onChange={(e) => updateForm('endDate', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="event-notes">Notes</Label>
+              <Input
+                id="event-notes"
+                value={form.notes}
+                onChange={(e) => updateForm('notes', e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button onClick={handleSave} disabled={isSaving || !form.name || !form.startDate}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CalendarPlus className="mr-2 h-4 w-4" />}
+              {editingId ? 'Save Changes' : 'Add Event'}
+            </Button>
+            {editingId && (
+              <Button variant="outline" onClick={handleCancel}>Cancel</Button>
+            )}
+          </div>
+          {saveError && (
+            <p className="text-sm text-destructive">{saveError.message}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Import Public Holidays</CardTitle>
+          <CardDescription>
+            Add a country&apos;s public holidays for a year on their observed dates. Holidays already imported are skipped.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-4 items-end">
+            <div className="space-y-2">
+              <Label>Country</Label>
+              <Select value={countryCode} onValueChange={(value) => setCountryCode(value as HolidayCountry)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HOLIDAY_COUNTRIES.map(country => (
+                    <SelectItem key={country} value={country}>{country}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="holiday-year">Year</Label>
+              <Input
+                id="holiday-year"
+                type="number"
+                min={2000}
+                max={2100}
+                value={year}
+                onChange={(e) => setYear(parseInt(e.target.value) || new Date().getFullYear())}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="holiday-client">Client</Label>
+              <Input
+                id="holiday-client"
+                value={holidayClient}
+                onChange={(e) => setHolidayClient(e.target.value)}
+                placeholder="All clients"
+              />
+            </div>
+            <Button onClick={handleImport} disabled={importHolidays.isPending}>
+              {importHolidays.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+              Import Holidays
+            </Button>
+          </div>
+          {importHolidays.data && (
+            <p className="mt-4 text-sm text-muted-foreground">
+              Imported {importHolidays.data.imported} holidays, skipped {importHolidays.data.skipped} already on the calendar.
+            </p>
+          )}
+          {importHolidays.error && (
+            <p className="mt-4 text-sm text-destructive">{importHolidays.error.message}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Events Calendar</CardTitle>
+          <CardDescription>Every holiday, client event and outage used by forecasts</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-24 bg-muted animate-pulse rounded" />
+          ) : events.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No events on the calendar yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead>Client</TableHead>
+                  <TableHead>Notes</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map(event => (
+                  <TableRow key={event.id}>
+                    <TableCell className="font-medium">
+                      {event.name}
+                      {event.countryCode && (
+                        <span className="ml-2 text-xs text-muted-foreground">{event.countryCode}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={EVENT_TYPE_VARIANTS[event.eventType]}>
+                        {EVENT_TYPE_LABELS[event.eventType]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {toDateInput(event.startDate)}
+                      {toDateInput(event.endDate) !== toDateInput(event.startDate) && ` – ${toDateInput(event.endDate)}`}
+                    </TableCell>
+                    <TableCell>{event.clientName || 'All clients'}</TableCell>
+                    <TableCell className="text-muted-foreground">{event.notes}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => handleEdit(event)} aria-label={`Edit ${event.name}`}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteEvent.mutate(event.id)}
+                          disabled={deleteEvent.isPending}
+                          aria-label={`Delete ${event.name}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
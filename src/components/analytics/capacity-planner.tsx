@@ -0,0 +1,293 @@
+"use client"
+
+import { Fragment, useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { AlertCircle, Loader2 } from 'lucide-react'
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { useCapacityPlan, type CapacityPlanParams } from '@/lib/hooks/use-capacity'
+import type { AHTUnit, CapacityCase } from '@/types/capacity'
+
+const CASE_LABELS: Record<CapacityCase, string> = {
+  best: 'Best case',
+  expected: 'Expected',
+  worst: 'Worst case'
+}
+
+const CASE_COLORS: Record<CapacityCase, string> = {
+  best: '#10b981',
+  expected: '#3b82f6',
+  worst: '#ef4444'
+}
+
+interface CapacityPlannerProps {
+  className?: string
+}
+
+interface AssumptionFormState {
+  shrinkage: string
+  occupancy: string
+  hoursPerDay: string
+  ahtUnit: AHTUnit
+  predictionType: NonNullable<CapacityPlanParams['predictionType']>
+}
+
+const defaultAssumptions: AssumptionFormState = {
+  shrinkage: '30',
+  occupancy: '85',
+  hoursPerDay: '8',
+  ahtUnit: 'seconds',
+  predictionType: 'monthly'
+}
+
+function toParams(form: AssumptionFormState): CapacityPlanParams {
+  return {
+    predictionType: form.predictionType,
+    shrinkage: Number(form.shrinkage) / 100,
+    occupancy: Number(form.occupancy) / 100,
+    hoursPerDay: Number(form.hoursPerDay),
+    ahtUnit: form.ahtUnit
+  }
+}
+
+// Fiscal periods, e.g. FY2025-P03, are shown as they are keyed
+function formatMonth(month: string): string {
+  if (month.startsWith('FY')) return month
+  const [year, monthNumber] = month.split('-').map(Number)
+  return new Date(year, monthNumber - 1, 1).toLocaleDateString('en-US', { month: 'short', year: 'numeric' })
+}
+
+export function CapacityPlanner({ className }: CapacityPlannerProps) {
+  const [form, setForm] = useState<AssumptionFormState>(defaultAssumptions)
+  // Server defaults apply until the assumptions are changed
+  const [params, setParams] = useState<CapacityPlanParams>({ predictionType: defaultAssumptions.predictionType })
+  const [selectedCase, setSelectedCase] = useState<CapacityCase>('expected')
+
+  const { data: plan, isLoading, error } = useCapacityPlan(params)
+
+  // Show the assumptions the plan was computed with
+  useEffect(() => {
+    if (!plan) return
+    setForm(current => ({
+      ...current,
+      shrinkage: String(Math.round(plan.assumptions.shrinkage * 100)),
+      occupancy: String(Math.round(plan.assumptions.occupancy * 100)),
+      hoursPerDay: String(plan.assumptions.hoursPerDay),
+      ahtUnit: plan.assumptions.ahtUnit
+    }))
+  }, [plan])
+
+  const chartData = (plan?.months ?? []).map(month => ({
+    month: formatMonth(month.month),
+    best: month.cases.best.totalFTE,
+    expected: month.cases.expected.totalFTE,
+    worst: month.cases.worst.totalFTE
+  }))
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <Card>
+        <CardHeader>
+          <CardTitle>Assumptions</CardTitle>
+          <CardDescription>
+            Staffed hours are workload hours divided by occupancy and by the time left after shrinkage
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="capacity-shrinkage">Shrinkage (%)</Label>
+              <Input
+                id="capacity-shrinkage"
+                type="number"
+                min={0}
+                max={95}
+                value={form.shrinkage}
+                onChange={(e) => setForm({ ...form, shrinkage: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="capacity-occupancy">Occupancy (%)</Label>
+              <Input
+                id="capacity-occupancy"
+                type="number"
+                min={5}
+                max={100}
+                value={form.occupancy}
+                onChange={(e) => setForm({ ...form, occupancy: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="capacity-hours">Hours per day</Label>
+              <Input
+                id="capacity-hours"
+                type="number"
+                min={1}
+                max={24}
+                step={0.5}
+                value={form.hoursPerDay}
+                onChange={(e) => setForm({ ...form, hoursPerDay: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>AHT unit</Label>
+              <Select value={form.ahtUnit} onValueChange={(value) => setForm({ ...form, ahtUnit: value as AHTUnit })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="seconds">Seconds</SelectItem>
+                  <SelectItem value="minutes">Minutes</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Forecasts</Label>
+              <Select
+                value={form.predictionType}
+                onValueChange={(value) => setForm({ ...form, predictionType: value as AssumptionFormState['predictionType'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                  <SelectItem value="daily">Daily</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={() => setParams(toParams(form))} disabled={isLoading}>
+              {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Update Plan
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error.message}</AlertDescription>
+        </Alert>
+      )}
+
+      {plan && plan.unmatchedClients.length > 0 && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            No AHT data for {plan.unmatchedClients.join(', ')}; these clients are left out of the plan.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {plan && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Required FTEs by Month</CardTitle>
+              <CardDescription>
+                Reviewers and validators combined, from the forecast interval bounds and expected volume
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={320}>
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="month" />
+                  <YAxis />
+                  <Tooltip />
+                  <Legend />
+                  {(Object.keys(CASE_LABELS) as CapacityCase[]).map(capacityCase => (
+                    <Line
+                      key={capacityCase}
+                      type="monotone"
+                      dataKey={capacityCase}
+                      name={CASE_LABELS[capacityCase]}
+                      stroke={CASE_COLORS[capacityCase]}
+                      strokeWidth={capacityCase === 'expected' ? 2 : 1}
+                      strokeDasharray={capacityCase === 'expected' ? undefined : '4 4'}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <div>
+                <CardTitle>Client Staffing</CardTitle>
+                <CardDescription>Hours and FTEs per client per month</CardDescription>
+              </div>
+              <Tabs value={selectedCase} onValueChange={(value) => setSelectedCase(value as CapacityCase)}>
+                <TabsList>
+                  {(Object.keys(CASE_LABELS) as CapacityCase[]).map(capacityCase => (
+                    <TabsTrigger key={capacityCase} value={capacityCase}>
+                      {CASE_LABELS[capacityCase]}
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+              </Tabs>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Month</TableHead>
+                    <TableHead>Client</TableHead>
+                    <TableHead className="text-right">Volume</TableHead>
+                    <TableHead className="text-right">Reviewer Hours</TableHead>
+                    <TableHead className="text-right">Validator Hours</TableHead>
+                    <TableHead className="text-right">Reviewer FTE</TableHead>
+                    <TableHead className="text-right">Validator FTE</TableHead>
+                    <TableHead className="text-right">Total FTE</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.months.map(month => (
+                    <Fragment key={month.month}>
+                      {plan.clients
+                        .filter(client => client.month === month.month)
+                        .map(client => {
+                          const figures = client.cases[selectedCase]
+                          return (
+                            <TableRow key={`${client.month}-${client.clientName}`}>
+                              <TableCell>{formatMonth(client.month)}</TableCell>
+                              <TableCell>{client.clientName}</TableCell>
+                              <TableCell className="text-right">{figures.volume.toLocaleString()}</TableCell>
+                              <TableCell className="text-right">{figures.reviewerHours}</TableCell>
+                              <TableCell className="text-right">{figures.validatorHours}</TableCell>
+                              <TableCell className="text-right">{figures.reviewerFTE}</TableCell>
+                              <TableCell className="text-right">{figures.validatorFTE}</TableCell>
+                              <TableCell className="text-right">{figures.totalFTE}</TableCell>
+                            </TableRow>
+                          )
+                        })}
+                      <TableRow className="font-medium bg-muted/50">
+                        <TableCell>{formatMonth(month.month)}</TableCell>
+                        <TableCell>Total ({month.workingDays} working days)</TableCell>
+                        <TableCell className="text-right">{month.cases[selectedCase].volume.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{month.cases[selectedCase].reviewerHours}</TableCell>
+                        <TableCell className="text-right">{month.cases[selectedCase].validatorHours}</TableCell>
+                        <TableCell className="text-right">{month.cases[selectedCase].reviewerFTE}</TableCell>
+                        <TableCell className="text-right">{month.cases[selectedCase].validatorFTE}</TableCell>
+                        <TableCell className="text-right">{month.cases[selectedCase].totalFTE}</TableCell>
+                      </TableRow>
+                    </Fragment>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
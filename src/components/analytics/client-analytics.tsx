@@ -30,11 +30,13 @@ import {
   BarChart3
 } from 'lucide-react'
 import { TranscriptData } from '@/types/transcript'
+import type { ClientSegmentation } from '@/types/segment'
 
 interface ClientAnalyticsProps {
   data: TranscriptData[]
   selectedClient?: string
-  timeRange?: string
+  // Groups clients into segments and labels each client with its segment
+  segmentation?: ClientSegmentation
 }
 
 interface ClientMetrics {
@@ -57,7 +59,7 @@ interface ClientMetrics {
 
 const COLORS = ['#8884d8', '#82ca9d', '#ffc658', '#ff7300', '#00ff00', '#ff00ff', '#00ffff', '#ff0000']
 
-export function ClientAnalytics({ data, selectedClient, timeRange }: ClientAnalyticsProps) {
+export function ClientAnalytics({ data, selectedClient, segmentation }: ClientAnalyticsProps) {
   // Calculate client metrics
   const clientMetrics = useMemo((): ClientMetrics[] => {
     if (!data.length) return []
@@ -192,6 +194,11 @@ export function ClientAnalytics({ data, selectedClient, timeRange }: ClientAnaly
     return null
   }
 
+  const segmentLabel = (clientName: string) => {
+    const segmentId = segmentation?.assignments[clientName]
+    return segmentation?.segments.find(segment => segment.id === segmentId)?.label
+  }
+
   const formatMonthLabel = (tickItem: string) => {
     const [year, month] = tickItem.split('-')
     const date = new Date(parseInt(year), parseInt(month) - 1)
@@ -257,6 +264,48 @@ export function ClientAnalytics({ data, selectedClient, timeRange }: ClientAnaly
         ))}
       </div>
 
+      {/* Segment Overview */}
+      {segmentation && segmentation.segments.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Client Segments
+            </CardTitle>
+            <CardDescription>
+              {segmentation.method === 'kmeans'
+                ? 'Clients clustered by volume level, growth, seasonal shape and AHT'
+                : 'Clients grouped into tiers by volume level, growth, seasonality and AHT'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {segmentation.segments.map(segment => (
+                <div key={segment.id} className="rounded-lg border p-4 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <h4 className="font-semibold">{segment.label}</h4>
+                    <Badge variant="secondary">{segment.clients.length}</Badge>
+                  </div>
+                  <div className="grid grid-cols-2 gap-1 text-xs text-muted-foreground">
+                    <span>Avg/Month</span>
+                    <span className="text-right">{Math.round(segment.monthlyVolume).toLocaleString()}</span>
+                    <span>Monthly growth</span>
+                    <span className="text-right">{(segment.growthRate * 100).toFixed(1)}%</span>
+                    <span>Seasonal range</span>
+                    <span className="text-right">{(segment.seasonality * 100).toFixed(0)}%</span>
+                    <span>AHT</span>
+                    <span className="text-right">{segment.aht !== null ? `${Math.round(segment.aht)}s` : 'n/a'}</span>
+                  </div>
+                  <p className="text-xs truncate" title={segment.clients.join(', ')}>
+                    {segment.clients.join(', ')}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Charts Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Market Share Pie Chart */}
@@ -397,6 +446,7 @@ export function ClientAnalytics({ data, selectedClient, timeRange }: ClientAnaly
                 <tr className="border-b">
                   <th className="text-left p-2">Rank</th>
                   <th className="text-left p-2">Client</th>
+                  {segmentation && <th className="text-left p-2">Segment</th>}
                   <th className="text-right p-2">Total Volume</th>
                   <th className="text-right p-2">Market Share</th>
                   <th className="text-right p-2">Avg/Month</th>
@@ -414,6 +464,9 @@ export function ClientAnalytics({ data, selectedClient, timeRange }: ClientAnaly
                       </Badge>
                     </td>
                     <td className="p-2 font-medium">{metric.clientName}</td>
+                    {segmentation && (
+                      <td className="p-2 text-sm text-muted-foreground">{segmentLabel(metric.clientName) || 'Unsegmented'}</td>
+                    )}
                     <td className="p-2 text-right">{metric.totalTranscripts.toLocaleString()}</td>
                     <td className="p-2 text-right">{metric.marketShare.toFixed(1)}%</td>
                     <td className="p-2 text-right">{metric.averagePerMonth}</td>
@@ -0,0 +1,151 @@
+'use client'
+
+import React, { useState } from 'react'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Label } from '@/components/ui/label'
+import { useCohorts } from '@/lib/hooks/use-segments'
+
+interface CohortAnalysisProps {
+  // Segment id to limit the cohorts to
+  segment?: string
+  height?: number
+}
+
+const COLORS = [
+  '#8884d8',
+  '#82ca9d',
+  '#ffc658',
+  '#ff7300',
+  '#00ff00',
+  '#ff00ff',
+  '#00ffff',
+  '#ff0000'
+]
+
+const monthOptions = [6, 12, 24]
+
+const formatCohort = (cohort: string) => {
+  const [year, month] = cohort.split('-')
+  return new Date(parseInt(year), parseInt(month) - 1).toLocaleDateString('en-US', { month: 'short', year: 'numeric' })
+}
+
+export function CohortAnalysis({ segment, height = 350 }: CohortAnalysisProps) {
+  const [months, setMonths] = useState(12)
+  const { data: cohorts = [], isLoading, error } = useCohorts({ months, segment })
+
+  // One row per month since onboarding, one column per cohort
+  const chartData = React.useMemo(() => {
+    return Array.from({ length: months }, (_, offset) => {
+      const point: Record<string, number | null> = { month: offset + 1 }
+      cohorts.forEach(row => {
+        point[row.cohort] = row.volumes[offset]
+      })
+      return point
+    })
+  }, [cohorts, months])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Onboarding Cohorts</CardTitle>
+        <CardDescription>
+          Average monthly volume per client over their first months, grouped by onboarding month
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Months since onboarding</Label>
+          <Select value={String(months)} onValueChange={(value) => setMonths(parseInt(value))}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {monthOptions.map(option => (
+                <SelectItem key={option} value={String(option)}>
+                  {option} months
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="h-64 bg-muted animate-pulse rounded" />
+        ) : error ? (
+          <p className="text-sm text-red-600">
+            {error instanceof Error ? error.message : 'Failed to load cohorts'}
+          </p>
+        ) : cohorts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No clients to group into cohorts.</p>
+        ) : (
+          <>
+            <ResponsiveContainer width="100%" height={height}>
+              <LineChart data={chartData} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+                <XAxis dataKey="month" label={{ value: 'Month since onboarding', position: 'insideBottom', offset: -5 }} />
+                <YAxis fontSize={12} />
+                <Tooltip
+                  labelFormatter={(month) => `Month ${month}`}
+                  formatter={(value: number, cohort: string) => [value.toLocaleString(), formatCohort(cohort)]}
+                />
+                <Legend formatter={(cohort: string) => formatCohort(cohort)} />
+                {cohorts.map((row, index) => (
+                  <Line
+                    key={row.cohort}
+                    type="monotone"
+                    dataKey={row.cohort}
+                    stroke={COLORS[index % COLORS.length]}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left p-2">Cohort</th>
+                    <th className="text-right p-2">Clients</th>
+                    {Array.from({ length: months }, (_, offset) => (
+                      <th key={offset} className="text-right p-2">M{offset + 1}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {cohorts.map(row => (
+                    <tr key={row.cohort} className="border-b">
+                      <td className="p-2 font-medium" title={row.clients.join(', ')}>{formatCohort(row.cohort)}</td>
+                      <td className="p-2 text-right">{row.clients.length}</td>
+                      {row.volumes.map((volume, offset) => (
+                        <td key={offset} className="p-2 text-right text-muted-foreground">
+                          {volume === null ? '' : `${Math.round(volume).toLocaleString()} (${row.activeClients[offset]})`}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-muted-foreground mt-2">
+                Each cell is the average volume per client, with the number of clients still sending volume in brackets.
+              </p>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,86 @@
+'use client'
+
+import React from 'react'
+import { ReferenceArea, ReferenceLine } from 'recharts'
+import type { CalendarEvent, CalendarEventType } from '@/types/calendar'
+
+export type ChartEvent = Pick<CalendarEvent, 'id' | 'name' | 'eventType' | 'startDate' | 'endDate' | 'clientName'>
+
+export const EVENT_COLORS: Record<CalendarEventType, string> = {
+  holiday: '#64748b',
+  client_event: '#16a34a',
+  outage: '#dc2626'
+}
+
+// When several events share a month, the marker takes the most disruptive type's colour
+const TYPE_PRIORITY: CalendarEventType[] = ['outage', 'client_event', 'holiday']
+
+const toMonthKey = (date: Date | string) => {
+  const d = new Date(date)
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`
+}
+
+/**
+ * Recharts reference elements marking calendar events on a month-keyed chart.
+ * Multi-month events become shaded areas; events within one month share a
+ * single marker line. Events for unselected clients or outside the chart are
+ * left out. Returned as an array so they can be placed directly in the chart.
+ */
+export function eventAnnotations(
+  events: ChartEvent[] | undefined,
+  months: string[],
+  clientNames?: string[]
+): React.ReactElement[] {
+  if (!events || events.length === 0 || months.length === 0) {
+    return []
+  }
+
+  const relevant = events.filter(event =>
+    !event.clientName || !clientNames || clientNames.length === 0 || clientNames.includes(event.clientName)
+  )
+
+  const areas: React.ReactElement[] = []
+  const markers = new Map<string, ChartEvent[]>()
+
+  relevant.forEach(event => {
+    const start = toMonthKey(event.startDate)
+    const end = toMonthKey(event.endDate)
+    const visible = months.filter(month => month >= start && month <= end)
+    if (visible.length === 0) return
+
+    if (visible.length === 1) {
+      markers.set(visible[0], [...(markers.get(visible[0]) || []), event])
+      return
+    }
+
+    areas.push(
+      <ReferenceArea
+        key={`event-area-${event.id}`}
+        x1={visible[0]}
+        x2={visible[visible.length - 1]}
+        fill={EVENT_COLORS[event.eventType]}
+        fillOpacity={0.08}
+        label={{ value: event.name, position: 'insideTop', fontSize: 10 }}
+      />
+    )
+  })
+
+  const lines = Array.from(markers.entries()).map(([month, monthEvents]) => {
+    const eventType = TYPE_PRIORITY.find(type => monthEvents.some(event => event.eventType === type)) as CalendarEventType
+    const label = monthEvents.length === 1
+      ? monthEvents[0].name
+      : `${monthEvents[0].name} +${monthEvents.length - 1}`
+
+    return (
+      <ReferenceLine
+        key={`event-line-${month}`}
+        x={month}
+        stroke={EVENT_COLORS[eventType]}
+        strokeDasharray="3 3"
+        label={{ value: label, position: 'insideTop', fontSize: 10 }}
+      />
+    )
+  })
+
+  return [...areas, ...lines]
+}
@@ -6,7 +6,10 @@ import { ExportWizard } from './export-wizard'
 import { ExportOptions, exportService, AnalyticsData } from '@/lib/services/export-service'
 import { useTranscripts } from '@/lib/hooks/use-transcripts'
 import { usePredictions } from '@/lib/hooks/use-predictions'
+import { useSegments } from '@/lib/hooks/use-segments'
+import { useFinanceReportFetcher } from '@/lib/hooks/use-finance'
 import { TranscriptData, PredictionResult } from '@/types/transcript'
+import { format } from 'date-fns'
 
 interface ExportReportsProps {
   className?: string
@@ -18,6 +21,8 @@ export function ExportReports({ className }: ExportReportsProps) {
   // Fetch data using existing hooks
   const { data: transcripts = [], isLoading: transcriptsLoading } = useTranscripts()
   const { data: predictions = [], isLoading: predictionsLoading } = usePredictions()
+  const { data: segmentation } = useSegments()
+  const fetchFinanceReport = useFinanceReportFetcher()
 
   // Get unique clients from transcript data
   const availableClients = Array.from(
@@ -75,6 +80,14 @@ export function ExportReports({ className }: ExportReportsProps) {
       )
     }
 
+    // Filter by segment
+    const segmentClients = options.segment
+      ? segmentation?.segments.find(segment => segment.id === options.segment)?.clients ?? []
+      : null
+    if (segmentClients) {
+      filteredTranscripts = filteredTranscripts.filter(t => segmentClients.includes(t.clientName))
+    }
+
     // Filter predictions similarly
     let filteredPredictions = allPredictions
     if (options.dateRange) {
@@ -91,13 +104,27 @@ export function ExportReports({ className }: ExportReportsProps) {
         options.clients!.includes(p.clientName)
       )
     }
+    if (segmentClients) {
+      filteredPredictions = filteredPredictions.filter(p => segmentClients.includes(p.clientName))
+    }
 
     // Calculate summary statistics
     const summary = calculateSummaryStatistics(filteredTranscripts, options.dateRange)
 
+    // Finance is priced server-side over the months of the date range
+    const finance = options.includeFinance
+      ? await fetchFinanceReport({
+        startMonth: options.dateRange ? format(options.dateRange.start, 'yyyy-MM') : undefined,
+        endMonth: options.dateRange ? format(options.dateRange.end, 'yyyy-MM') : undefined,
+        clientNames: options.clients,
+        segment: options.segment
+      })
+      : undefined
+
     return {
       transcripts: filteredTranscripts,
       predictions: options.includePredictions ? filteredPredictions : undefined,
+      finance,
       summary
     }
   }
@@ -172,6 +199,7 @@ export function ExportReports({ className }: ExportReportsProps) {
     <div className={className}>
       <ExportWizard
         availableClients={availableClients}
+        segments={segmentation?.segments}
         onExport={handleExport}
         isExporting={isExporting}
       />
@@ -14,10 +14,13 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
 import { ExportOptions } from '@/lib/services/export-service'
+import type { ClientSegment } from '@/types/segment'
 import { cn } from '@/lib/utils'
 
 interface ExportWizardProps {
   availableClients: string[]
+  // Segments that can limit the export to their clients
+  segments?: ClientSegment[]
   onExport: (options: ExportOptions) => Promise<void>
   isExporting?: boolean
 }
@@ -37,7 +40,7 @@ const DATE_PRESETS = [
   { label: 'Custom range', value: 'custom', getDates: () => ({ start: subDays(new Date(), 30), end: new Date() }) }
 ]
 
-export function ExportWizard({ availableClients, onExport, isExporting = false }: ExportWizardProps) {
+export function ExportWizard({ availableClients, segments = [], onExport, isExporting = false }: ExportWizardProps) {
   const [step, setStep] = useState(1)
   const [exportFormat, setExportFormat] = useState<'csv' | 'pdf'>('csv')
   const [datePreset, setDatePreset] = useState('last30days')
@@ -46,8 +49,10 @@ export function ExportWizard({ availableClients, onExport, isExporting = false }
     end: new Date()
   })
   const [selectedClients, setSelectedClients] = useState<string[]>([])
+  const [selectedSegment, setSelectedSegment] = useState<string>('')
   const [includeAnalytics, setIncludeAnalytics] = useState(true)
   const [includePredictions, setIncludePredictions] = useState(false)
+  const [includeFinance, setIncludeFinance] = useState(false)
   const [includeCharts, setIncludeCharts] = useState(false)
 
   const handleClientToggle = (client: string) => {
@@ -77,8 +82,10 @@ export function ExportWizard({ availableClients, onExport, isExporting = false }
       format: exportFormat,
       dateRange,
       clients: selectedClients.length > 0 ? selectedClients : undefined,
+      segment: selectedSegment || undefined,
       includeAnalytics,
       includePredictions,
+      includeFinance,
       includeCharts: includeCharts && exportFormat === 'pdf'
     }
 
@@ -250,6 +257,28 @@ export function ExportWizard({ availableClients, onExport, isExporting = false }
               <h3 className="text-lg font-semibold">Select Clients</h3>
             </div>
 
+            {segments.length > 0 && (
+              <div className="space-y-2">
+                <Label>Segment</Label>
+                <Select
+                  value={selectedSegment || 'all'}
+                  onValueChange={(value) => setSelectedSegment(value === 'all' ? '' : value)}
+                >
+                  <SelectTrigger className="w-full md:w-80">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All segments</SelectItem>
+                    {segments.map(segment => (
+                      <SelectItem key={segment.id} value={segment.id}>
+                        {segment.label} ({segment.clients.length})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             <div className="flex items-center justify-between">
               <p className="text-sm text-muted-foreground">
                 Choose specific clients or leave empty to include all clients
@@ -321,6 +350,17 @@ export function ExportWizard({ availableClients, onExport, isExporting = false }
                 </Label>
               </div>
 
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="includeFinance"
+                  checked={includeFinance}
+                  onCheckedChange={(checked) => setIncludeFinance(checked === true)}
+                />
+                <Label htmlFor="includeFinance">
+                  Include revenue, labor cost and margin
+                </Label>
+              </div>
+
               {exportFormat === 'pdf' && (
                 <div className="flex items-center space-x-2">
                   <Checkbox
@@ -354,10 +394,16 @@ export function ExportWizard({ availableClients, onExport, isExporting = false }
                     : `${selectedClients.length} selected`
                   }
                 </div>
+                {selectedSegment && (
+                  <div>
+                    Segment: {segments.find(segment => segment.id === selectedSegment)?.label || selectedSegment}
+                  </div>
+                )}
                 <div>
                   Options: {[
                     includeAnalytics && 'Analytics',
                     includePredictions && 'Predictions',
+                    includeFinance && 'Finance',
                     includeCharts && exportFormat === 'pdf' && 'Charts'
                   ].filter(Boolean).join(', ') || 'Data only'}
                 </div>
@@ -18,6 +18,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button'
 import { ZoomIn, ZoomOut, RotateCcw } from 'lucide-react'
 import { TranscriptData } from '@/types/transcript'
+import { AnomalyTooltipNotes, ChartAnomaly, anomalyAnnotations } from './anomaly-annotations'
 
 interface InteractiveChartProps {
   data: TranscriptData[]
@@ -27,6 +28,8 @@ interface InteractiveChartProps {
   height?: number
   enableZoom?: boolean
   enableBrush?: boolean
+  // Volume anomalies to mark on each client's line
+  anomalies?: ChartAnomaly[]
 }
 
 interface ChartDataPoint {
@@ -62,7 +65,8 @@ export function InteractiveChart({
   description = "Zoomable and interactive data visualization",
   height = 400,
   enableZoom = true,
-  enableBrush = true
+  enableBrush = true,
+  anomalies
 }: InteractiveChartProps) {
   const [zoomState, setZoomState] = useState<ZoomState>({
     left: 'dataMin',
@@ -204,6 +208,7 @@ export function InteractiveChart({
               </div>
             </div>
           )}
+          <AnomalyTooltipNotes anomalies={anomalies} month={label} clientNames={clientNames} />
         </div>
       )
     }
@@ -283,6 +288,8 @@ export function InteractiveChart({
               />
             ))}
 
+            {anomalyAnnotations(anomalies, chartData, clientNames)}
+
             {/* Zoom selection area */}
             {enableZoom && zoomState.refAreaLeft && zoomState.refAreaRight && (
               <ReferenceArea
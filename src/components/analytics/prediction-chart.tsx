@@ -16,6 +16,8 @@ import {
 } from 'recharts'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { TranscriptData } from '@/types/transcript'
+import type { ReconciliationMethod } from '@/lib/utils/forecast-reconciliation'
+import { ChartEvent, eventAnnotations } from './event-annotations'
 
 interface PredictionData {
   clientName: string
@@ -29,13 +31,28 @@ interface PredictionData {
   actualCount?: number
 }
 
+// What-if forecast drawn next to the baseline predictions
+export interface ChartScenario {
+  name: string
+  predictionData: PredictionData[]
+}
+
+const SCENARIO_COLORS = ['#16a34a', '#dc2626', '#9333ea', '#0891b2']
+
 interface PredictionChartProps {
   historicalData: TranscriptData[]
   predictionData: PredictionData[]
+  // Reconciled total forecast, shown instead of summing client forecasts when no client is selected
+  totalPredictionData?: PredictionData[]
+  reconciliation?: ReconciliationMethod
   selectedClient?: string
   showConfidenceInterval?: boolean
   showHistorical?: boolean
   height?: number
+  // Holidays, client events and outages to mark on the chart
+  events?: ChartEvent[]
+  // Scenario forecasts shown side by side with the baseline
+  scenarios?: ChartScenario[]
 }
 
 interface ChartDataPoint {
@@ -45,15 +62,20 @@ interface ChartDataPoint {
   confidenceLower?: number
   confidenceUpper?: number
   isPrediction?: boolean
+  [scenarioKey: `scenario${number}`]: number | undefined
 }
 
 export function PredictionChart({
   historicalData,
   predictionData,
+  totalPredictionData,
+  reconciliation,
   selectedClient,
   showConfidenceInterval = true,
   showHistorical = true,
-  height = 400
+  height = 400,
+  events,
+  scenarios = []
 }: PredictionChartProps) {
   // Transform and combine historical and prediction data
   const chartData = React.useMemo(() => {
@@ -78,7 +100,7 @@ export function PredictionChart({
     // Add prediction data
     const filteredPredictions = selectedClient 
       ? predictionData.filter(item => item.clientName === selectedClient)
-      : predictionData
+      : totalPredictionData || predictionData
     
     filteredPredictions.forEach(item => {
       const itemDate = new Date(item.date)
@@ -97,11 +119,27 @@ export function PredictionChart({
       dataMap[monthKey].isPrediction = true
     })
 
+    // Scenario forecasts, summed across clients like the baseline
+    scenarios.forEach((scenario, index) => {
+      const scenarioPredictions = selectedClient
+        ? scenario.predictionData.filter(item => item.clientName === selectedClient)
+        : scenario.predictionData
+
+      scenarioPredictions.forEach(item => {
+        const itemDate = new Date(item.date)
+        const monthKey = `${itemDate.getFullYear()}-${String(itemDate.getMonth() + 1).padStart(2, '0')}`
+        if (!dataMap[monthKey]) {
+          dataMap[monthKey] = { month: monthKey, isPrediction: true }
+        }
+        dataMap[monthKey][`scenario${index}`] = (dataMap[monthKey][`scenario${index}`] || 0) + item.predictedCount
+      })
+    })
+
     // Convert to array and sort by month
     return Object.values(dataMap).sort((a, b) => 
       a.month.localeCompare(b.month)
     )
-  }, [historicalData, predictionData, selectedClient, showHistorical, showConfidenceInterval])
+  }, [historicalData, predictionData, totalPredictionData, scenarios, selectedClient, showHistorical, showConfidenceInterval])
 
   // Find the boundary between historical and prediction data
   const predictionStartIndex = React.useMemo(() => {
@@ -131,7 +169,14 @@ export function PredictionChart({
             if (entry.dataKey === 'predicted' && entry.value !== undefined) {
               return (
                 <p key={index} style={{ color: entry.color }} className="text-sm">
-                  {`Predicted: ${entry.value} transcripts`}
+                  {`${scenarios.length > 0 ? 'Baseline' : 'Predicted'}: ${entry.value} transcripts`}
+                </p>
+              )
+            }
+            if (String(entry.dataKey).startsWith('scenario') && entry.value !== undefined) {
+              return (
+                <p key={index} style={{ color: entry.color }} className="text-sm">
+                  {`${entry.name}: ${entry.value} transcripts`}
                 </p>
               )
             }
@@ -175,6 +220,7 @@ export function PredictionChart({
           Historical data and future predictions
           {selectedClient && ` for ${selectedClient}`}
           {showConfidenceInterval && ' with confidence intervals'}
+          {reconciliation && ` (${reconciliation} reconciled)`}
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -201,6 +247,8 @@ export function PredictionChart({
             />
             <Tooltip content={<CustomTooltip />} />
             <Legend />
+
+            {eventAnnotations(events, chartData.map(item => item.month), selectedClient ? [selectedClient] : undefined)}
             
             {/* Confidence interval area */}
             {showConfidenceInterval && (
@@ -235,9 +283,24 @@ export function PredictionChart({
               strokeWidth={2}
               strokeDasharray="5 5"
               dot={<CustomDot />}
-              name="Predictions"
+              name={scenarios.length > 0 ? 'Baseline' : 'Predictions'}
               connectNulls={false}
             />
+
+            {/* Scenario lines */}
+            {scenarios.map((scenario, index) => (
+              <Line
+                key={`scenario${index}`}
+                type="monotone"
+                dataKey={`scenario${index}`}
+                stroke={SCENARIO_COLORS[index % SCENARIO_COLORS.length]}
+                strokeWidth={2}
+                strokeDasharray="5 5"
+                dot={false}
+                name={scenario.name}
+                connectNulls={false}
+              />
+            ))}
             
             {/* Reference line to separate historical from predictions */}
             {predictionStartIndex > 0 && (
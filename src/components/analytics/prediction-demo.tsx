@@ -7,6 +7,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/badge';
 import { Loader2, TrendingUp, Brain, BarChart3 } from 'lucide-react';
 import { usePredictions } from '@/lib/hooks/use-predictions';
+import type { ForecastModelType } from '@/lib/services/prediction-engine';
 import { TranscriptData } from '@/types/transcript';
 
 // Mock data for demonstration
@@ -47,7 +48,7 @@ const mockData: TranscriptData[] = [
 ];
 
 export function PredictionDemo() {
-  const [modelType, setModelType] = useState<'linear' | 'polynomial' | 'arima'>('linear');
+  const [modelType, setModelType] = useState<ForecastModelType>('linear');
   const [predictionType, setPredictionType] = useState<'daily' | 'weekly' | 'monthly'>('daily');
   const [periodsAhead, setPeriodsAhead] = useState(7);
 
@@ -117,7 +118,7 @@ export function PredictionDemo() {
             TensorFlow.js Prediction Engine Demo
           </CardTitle>
           <CardDescription>
-            Demonstrate machine learning predictions with linear, polynomial, and ARIMA models
+            Demonstrate machine learning predictions with linear, polynomial, ARIMA and Holt-Winters models
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -132,7 +133,12 @@ export function PredictionDemo() {
                 <SelectContent>
                   <SelectItem value="linear">Linear Regression</SelectItem>
                   <SelectItem value="polynomial">Polynomial Regression</SelectItem>
-                  <SelectItem value="arima">ARIMA (LSTM)</SelectItem>
+                  <SelectItem value="arima">ARIMA</SelectItem>
+                  <SelectItem value="sarima">Seasonal ARIMA</SelectItem>
+                  <SelectItem value="holt-winters-additive">Holt-Winters (Additive)</SelectItem>
+                  <SelectItem value="holt-winters-multiplicative">Holt-Winters (Multiplicative)</SelectItem>
+                  <SelectItem value="croston">Croston (Intermittent)</SelectItem>
+                  <SelectItem value="tsb">TSB (Intermittent)</SelectItem>
                 </SelectContent>
               </Select>
             </div>
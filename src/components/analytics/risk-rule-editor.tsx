@@ -0,0 +1,318 @@
+"use client"
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Loader2, Edit, Trash2, Plus, Copy } from 'lucide-react'
+import {
+  RiskRuleInput,
+  useCreateRiskRule,
+  useDeleteRiskRule,
+  useRiskRules,
+  useUpdateRiskRule
+} from '@/lib/hooks/use-risk-rules'
+import { RISK_METRIC_LABELS, RISK_OPERATOR_SYMBOLS } from '@/lib/utils/risk-rules'
+import type { RiskMetric, RiskOperator, RiskRule } from '@/types/risk'
+
+interface RiskRuleEditorProps {
+  // Called after rules change so risk levels can be reloaded
+  onRulesChanged?: () => void
+  className?: string
+}
+
+interface RuleFormState {
+  name: string
+  description: string
+  metric: RiskMetric
+  operator: RiskOperator
+  threshold: string
+  weight: string
+  enabled: boolean
+}
+
+const emptyForm: RuleFormState = {
+  name: '',
+  description: '',
+  metric: 'overallAHT',
+  operator: 'gt',
+  threshold: '',
+  weight: '1',
+  enabled: true
+}
+
+function toInput(form: RuleFormState): RiskRuleInput {
+  return {
+    name: form.name,
+    description: form.description || undefined,
+    metric: form.metric,
+    operator: form.operator,
+    threshold: Number(form.threshold),
+    weight: Number(form.weight),
+    enabled: form.enabled
+  }
+}
+
+export function RiskRuleEditor({ onRulesChanged, className }: RiskRuleEditorProps) {
+  const [form, setForm] = useState<RuleFormState>(emptyForm)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [isCopying, setIsCopying] = useState(false)
+
+  const { data, isLoading } = useRiskRules()
+  const createRule = useCreateRiskRule()
+  const updateRule = useUpdateRiskRule()
+  const deleteRule = useDeleteRiskRule()
+
+  const rules = data?.rules ?? []
+  const usingDefaults = data?.usingDefaults ?? false
+  const saveError = createRule.error || updateRule.error || deleteRule.error
+  const isSaving = createRule.isPending || updateRule.isPending || isCopying
+
+  const handleEdit = (rule: RiskRule) => {
+    setEditingId(rule.id)
+    setForm({
+      name: rule.name,
+      description: rule.description || '',
+      metric: rule.metric,
+      operator: rule.operator,
+      threshold: String(rule.threshold),
+      weight: String(rule.weight),
+      enabled: rule.enabled
+    })
+  }
+
+  const handleCancel = () => {
+    setEditingId(null)
+    setForm(emptyForm)
+  }
+
+  const handleSave = async () => {
+    try {
+      if (editingId) {
+        await updateRule.mutateAsync({ id: editingId, data: toInput(form) })
+      } else {
+        await createRule.mutateAsync(toInput(form))
+      }
+      handleCancel()
+      onRulesChanged?.()
+    } catch (error) {
+      console.error('Failed to save risk rule:', error)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteRule.mutateAsync(id)
+      onRulesChanged?.()
+    } catch (error) {
+      console.error('Failed to delete risk rule:', error)
+    }
+  }
+
+  // Store the defaults so they can be edited one by one
+  const handleCopyDefaults = async () => {
+    setIsCopying(true)
+    try {
+      for (const rule of rules) {
+        await createRule.mutateAsync({
+          name: rule.name,
+          description: rule.description,
+          metric: rule.metric,
+          operator: rule.operator,
+          threshold: rule.threshold,
+          weight: rule.weight,
+          enabled: rule.enabled
+        })
+      }
+      onRulesChanged?.()
+    } catch (error) {
+      console.error('Failed to copy default risk rules:', error)
+    } finally {
+      setIsCopying(false)
+    }
+  }
+
+  const isValid = form.name.trim() !== '' && form.threshold !== '' && Number(form.weight) > 0
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingId ? 'Edit Risk Rule' : 'Add Risk Rule'}</CardTitle>
+          <CardDescription>
+            A client&apos;s risk score is the weight of the rules it triggers as a share of the weight of the rules
+            it has data for
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="risk-rule-name">Name</Label>
+              <Input
+                id="risk-rule-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="High AHT"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Metric</Label>
+              <Select value={form.metric} onValueChange={(value) => setForm({ ...form, metric: value as RiskMetric })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(RISK_METRIC_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label>Condition</Label>
+                <Select value={form.operator} onValueChange={(value) => setForm({ ...form, operator: value as RiskOperator })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(RISK_OPERATOR_SYMBOLS).map(([value, symbol]) => (
+                      <SelectItem key={value} value={value}>{symbol}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="risk-rule-threshold">Threshold</Label>
+                <Input
+                  id="risk-rule-threshold"
+                  type="number"
+                  value={form.threshold}
+                  onChange={(e) => setForm({ ...form, threshold: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="risk-rule-weight">Weight</Label>
+              <Input
+                id="risk-rule-weight"
+                type="number"
+                min={0.1}
+                step={0.5}
+                value={form.weight}
+                onChange={(e) => setForm({ ...form, weight: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="risk-rule-description">Description</Label>
+              <Input
+                id="risk-rule-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center gap-2 pt-6">
+              <Switch
+                id="risk-rule-enabled"
+                checked={form.enabled}
+                onCheckedChange={(checked) => setForm({ ...form, enabled: checked })}
+              />
+              <Label htmlFor="risk-rule-enabled">Enabled</Label>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button onClick={handleSave} disabled={isSaving || !isValid}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+              {editingId ? 'Save Changes' : 'Add Rule'}
+            </Button>
+            {editingId && (
+              <Button variant="outline" onClick={handleCancel}>Cancel</Button>
+            )}
+          </div>
+          {saveError && (
+            <p className="text-sm text-destructive">{saveError.message}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle>Risk Rules</CardTitle>
+            <CardDescription>Rules applied to every client</CardDescription>
+          </div>
+          {usingDefaults && (
+            <Button variant="outline" onClick={handleCopyDefaults} disabled={isSaving}>
+              <Copy className="mr-2 h-4 w-4" />
+              Customize Defaults
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {usingDefaults && (
+            <Alert>
+              <AlertDescription>
+                The default rules are in effect. Once a rule is saved, only saved rules are used.
+              </AlertDescription>
+            </Alert>
+          )}
+          {isLoading ? (
+            <div className="h-24 bg-muted animate-pulse rounded" />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Condition</TableHead>
+                  <TableHead className="text-right">Weight</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map(rule => (
+                  <TableRow key={rule.id}>
+                    <TableCell className="font-medium">
+                      {rule.name}
+                      {rule.description && (
+                        <span className="block text-xs text-muted-foreground">{rule.description}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {RISK_METRIC_LABELS[rule.metric]} {RISK_OPERATOR_SYMBOLS[rule.operator]} {rule.threshold}
+                    </TableCell>
+                    <TableCell className="text-right">{rule.weight}</TableCell>
+                    <TableCell className="text-muted-foreground">{rule.enabled ? 'Enabled' : 'Disabled'}</TableCell>
+                    <TableCell className="text-right">
+                      {!usingDefaults && (
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => handleEdit(rule)} aria-label={`Edit ${rule.name}`}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(rule.id)}
+                            disabled={deleteRule.isPending}
+                            aria-label={`Delete ${rule.name}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
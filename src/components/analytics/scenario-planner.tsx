@@ -0,0 +1,447 @@
+"use client"
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Loader2, Edit, Trash2, Plus, Eye, FileText, FileSpreadsheet, X } from 'lucide-react'
+import {
+  useCreateScenario,
+  useDeleteScenario,
+  useScenarios,
+  useUpdateScenario
+} from '@/lib/hooks/use-scenarios'
+import { describeScenarioAdjustment } from '@/lib/utils/scenario-adjustments'
+import { exportService } from '@/lib/services/export-service'
+import { PredictionChart } from './prediction-chart'
+import type { ForecastScenario, RampCurve, ScenarioAdjustment } from '@/types/scenario'
+import type { PredictionResult } from '@/types/transcript'
+
+const ADJUSTMENT_TYPE_LABELS: Record<ScenarioAdjustment['type'], string> = {
+  uplift: 'Volume uplift',
+  'new-client': 'New client',
+  churn: 'Churned client'
+}
+
+const RAMP_CURVE_LABELS: Record<RampCurve, string> = {
+  step: 'Step',
+  linear: 'Linear',
+  's-curve': 'S-curve'
+}
+
+interface ScenarioPlannerProps {
+  className?: string
+}
+
+interface AdjustmentFormState {
+  type: ScenarioAdjustment['type']
+  clientName: string
+  percent: string
+  volume: string
+  rampPeriods: string
+  curve: RampCurve
+  startDate: string
+  endDate: string
+}
+
+const emptyAdjustment: AdjustmentFormState = {
+  type: 'uplift',
+  clientName: '',
+  percent: '10',
+  volume: '',
+  rampPeriods: '3',
+  curve: 'linear',
+  startDate: '',
+  endDate: ''
+}
+
+// Adjustment from the builder form, or null while required fields are missing
+function toAdjustment(form: AdjustmentFormState): ScenarioAdjustment | null {
+  switch (form.type) {
+    case 'uplift':
+      if (form.percent === '' || isNaN(Number(form.percent))) return null
+      return {
+        type: 'uplift',
+        clientName: form.clientName || undefined,
+        percent: Number(form.percent),
+        startDate: form.startDate || undefined,
+        endDate: form.endDate || undefined
+      }
+    case 'new-client':
+      if (!form.clientName || !form.startDate || form.volume === '') return null
+      return {
+        type: 'new-client',
+        clientName: form.clientName,
+        startDate: form.startDate,
+        volume: Number(form.volume),
+        rampPeriods: Math.max(1, parseInt(form.rampPeriods) || 1),
+        curve: form.curve
+      }
+    case 'churn':
+      if (!form.clientName || !form.startDate) return null
+      return { type: 'churn', clientName: form.clientName, effectiveDate: form.startDate }
+  }
+}
+
+const flattenForecasts = (forecasts: PredictionResult[]) =>
+  forecasts.flatMap(forecast =>
+    forecast.predictions.map(prediction => ({ ...prediction, clientName: forecast.clientName }))
+  )
+
+const totalVolume = (forecasts: PredictionResult[]) =>
+  forecasts.reduce((sum, forecast) => sum + forecast.predictions.reduce((s, p) => s + p.predictedCount, 0), 0)
+
+export function ScenarioPlanner({ className }: ScenarioPlannerProps) {
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [predictionType, setPredictionType] = useState<ForecastScenario['predictionType']>('monthly')
+  const [adjustments, setAdjustments] = useState<ScenarioAdjustment[]>([])
+  const [adjustmentForm, setAdjustmentForm] = useState<AdjustmentFormState>(emptyAdjustment)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  const { data: scenarios = [], isLoading } = useScenarios()
+  const createScenario = useCreateScenario()
+  const updateScenario = useUpdateScenario()
+  const deleteScenario = useDeleteScenario()
+
+  const saveError = createScenario.error || updateScenario.error
+  const isSaving = createScenario.isPending || updateScenario.isPending
+  const selected = scenarios.find(scenario => scenario.id === selectedId)
+  const pendingAdjustment = toAdjustment(adjustmentForm)
+
+  const updateAdjustmentForm = (key: keyof AdjustmentFormState, value: string) => {
+    setAdjustmentForm(prev => ({ ...prev, [key]: value }))
+  }
+
+  const handleAddAdjustment = () => {
+    if (!pendingAdjustment) return
+    setAdjustments(prev => [...prev, pendingAdjustment])
+    setAdjustmentForm(prev => ({ ...emptyAdjustment, type: prev.type }))
+  }
+
+  const handleEdit = (scenario: ForecastScenario) => {
+    setEditingId(scenario.id)
+    setName(scenario.name)
+    setDescription(scenario.description || '')
+    setPredictionType(scenario.predictionType)
+    setAdjustments(scenario.adjustments)
+  }
+
+  const handleCancel = () => {
+    setEditingId(null)
+    setName('')
+    setDescription('')
+    setAdjustments([])
+    setAdjustmentForm(emptyAdjustment)
+  }
+
+  const handleSave = async () => {
+    try {
+      const scenario = editingId
+        ? await updateScenario.mutateAsync({ id: editingId, data: { name, description, adjustments } })
+        : await createScenario.mutateAsync({ name, description: description || undefined, predictionType, adjustments })
+      setSelectedId(scenario.id)
+      handleCancel()
+    } catch (error) {
+      console.error('Failed to save scenario:', error)
+    }
+  }
+
+  const handleExport = async (scenario: ForecastScenario, format: 'csv' | 'pdf') => {
+    const result = await exportService.exportScenario(scenario, format)
+    if (result.success && result.data) {
+      exportService.downloadFile(result.data, result.filename, format === 'csv' ? 'text/csv' : 'application/pdf')
+    } else {
+      console.error('Failed to export scenario:', result.error)
+    }
+  }
+
+  const handleDelete = (id: string) => {
+    if (selectedId === id) setSelectedId(null)
+    if (editingId === id) handleCancel()
+    deleteScenario.mutate(id)
+  }
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingId ? 'Edit Scenario' : 'New Scenario'}</CardTitle>
+          <CardDescription>
+            Start from the latest stored forecast for every client and layer on volume uplifts, new clients and churn.
+            The baseline is frozen when the scenario is created.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="scenario-name">Name</Label>
+              <Input
+                id="scenario-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Q3 upside"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Forecast</Label>
+              <Select
+                value={predictionType}
+                onValueChange={(value) => setPredictionType(value as ForecastScenario['predictionType'])}
+                disabled={!!editingId}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scenario-description">Description</Label>
+              <Input
+                id="scenario-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="rounded-md border p-4 space-y-4">
+            <div className="grid gap-4 md:grid-cols-4">
+              <div className="space-y-2">
+                <Label>Adjustment</Label>
+                <Select value={adjustmentForm.type} onValueChange={(value) => updateAdjustmentForm('type', value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ADJUSTMENT_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="adjustment-client">Client</Label>
+                <Input
+                  id="adjustment-client"
+                  value={adjustmentForm.clientName}
+                  onChange={(e) => updateAdjustmentForm('clientName', e.target.value)}
+                  placeholder={adjustmentForm.type === 'uplift' ? 'All clients' : 'Client name'}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="adjustment-start">
+                  {adjustmentForm.type === 'churn' ? 'Effective date' : 'Start date'}
+                </Label>
+                <Input
+                  id="adjustment-start"
+                  type="date"
+                  value={adjustmentForm.startDate}
+                  onChange={(e) => updateAdjustmentForm('startDate', e.target.value)}
+                />
+              </div>
+              {adjustmentForm.type === 'uplift' && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="adjustment-end">End date</Label>
+                    <Input
+                      id="adjustment-end"
+                      type="date"
+                      value={adjustmentForm.endDate}
+                      min={adjustmentForm.startDate}
+                      onChange={(e) => updateAdjustmentForm('endDate', e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="adjustment-percent">Change (%)</Label>
+                    <Input
+                      id="adjustment-percent"
+                      type="number"
+                      min={-100}
+                      value={adjustmentForm.percent}
+                      onChange={(e) => updateAdjustmentForm('percent', e.target.value)}
+                    />
+                  </div>
+                </>
+              )}
+              {adjustmentForm.type === 'new-client' && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="adjustment-volume">Volume per period</Label>
+                    <Input
+                      id="adjustment-volume"
+                      type="number"
+                      min={0}
+                      value={adjustmentForm.volume}
+                      onChange={(e) => updateAdjustmentForm('volume', e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="adjustment-ramp">Ramp periods</Label>
+                    <Input
+                      id="adjustment-ramp"
+                      type="number"
+                      min={1}
+                      value={adjustmentForm.rampPeriods}
+                      onChange={(e) => updateAdjustmentForm('rampPeriods', e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Ramp curve</Label>
+                    <Select value={adjustmentForm.curve} onValueChange={(value) => updateAdjustmentForm('curve', value)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(RAMP_CURVE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </>
+              )}
+            </div>
+            <Button variant="outline" onClick={handleAddAdjustment} disabled={!pendingAdjustment}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Adjustment
+            </Button>
+
+            {adjustments.length > 0 && (
+              <ul className="space-y-1">
+                {adjustments.map((adjustment, index) => (
+                  <li key={index} className="flex items-center justify-between text-sm">
+                    <span>
+                      <Badge variant="secondary" className="mr-2">{ADJUSTMENT_TYPE_LABELS[adjustment.type]}</Badge>
+                      {describeScenarioAdjustment(adjustment)}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setAdjustments(prev => prev.filter((_, i) => i !== index))}
+                      aria-label="Remove adjustment"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button onClick={handleSave} disabled={isSaving || !name}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {editingId ? 'Save Changes' : 'Create Scenario'}
+            </Button>
+            {editingId && (
+              <Button variant="outline" onClick={handleCancel}>Cancel</Button>
+            )}
+          </div>
+          {saveError && (
+            <p className="text-sm text-destructive">{saveError.message}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Saved Scenarios</CardTitle>
+          <CardDescription>Total forecast volume for each scenario against its baseline</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-24 bg-muted animate-pulse rounded" />
+          ) : scenarios.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No scenarios yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Forecast</TableHead>
+                  <TableHead>Adjustments</TableHead>
+                  <TableHead className="text-right">Baseline</TableHead>
+                  <TableHead className="text-right">Scenario</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {scenarios.map(scenario => {
+                  const baseline = totalVolume(scenario.baseline)
+                  const adjusted = totalVolume(scenario.forecasts)
+                  return (
+                    <TableRow key={scenario.id} className={scenario.id === selectedId ? 'bg-muted/50' : undefined}>
+                      <TableCell className="font-medium">
+                        {scenario.name}
+                        {scenario.description && (
+                          <span className="block text-xs text-muted-foreground">{scenario.description}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="capitalize">{scenario.predictionType}</TableCell>
+                      <TableCell>{scenario.adjustments.length}</TableCell>
+                      <TableCell className="text-right">{baseline.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">
+                        {adjusted.toLocaleString()}
+                        {baseline > 0 && (
+                          <span className={`ml-2 text-xs ${adjusted >= baseline ? 'text-green-600' : 'text-red-600'}`}>
+                            {adjusted >= baseline ? '+' : ''}{(((adjusted - baseline) / baseline) * 100).toFixed(1)}%
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => setSelectedId(scenario.id)} aria-label={`View ${scenario.name}`}>
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleEdit(scenario)} aria-label={`Edit ${scenario.name}`}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleExport(scenario, 'csv')} aria-label={`Export ${scenario.name} as CSV`}>
+                            <FileSpreadsheet className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleExport(scenario, 'pdf')} aria-label={`Export ${scenario.name} as PDF`}>
+                            <FileText className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(scenario.id)}
+                            disabled={deleteScenario.isPending}
+                            aria-label={`Delete ${scenario.name}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <PredictionChart
+          historicalData={[]}
+          showHistorical={false}
+          showConfidenceInterval={false}
+          predictionData={flattenForecasts(selected.baseline)}
+          scenarios={[{ name: selected.name, predictionData: flattenForecasts(selected.forecasts) }]}
+        />
+      )}
+    </div>
+  )
+}
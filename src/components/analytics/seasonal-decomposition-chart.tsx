@@ -0,0 +1,175 @@
+'use client'
+
+import React, { useState } from 'react'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine
+} from 'recharts'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { useSeasonalDecomposition } from '@/lib/hooks/use-analytics'
+import type { DecompositionGranularity, SeasonalDecomposition } from '@/types/decomposition'
+
+interface SeasonalDecompositionChartProps {
+  // Clients offered in the picker besides the aggregate
+  clientNames: string[]
+  // Height of each component panel
+  panelHeight?: number
+}
+
+type ComponentKey = 'observed' | 'trend' | 'weekly' | 'yearly' | 'residual'
+
+const ALL_CLIENTS = '__all__'
+
+const PANELS: { key: ComponentKey; label: string; color: string }[] = [
+  { key: 'observed', label: 'Observed', color: '#8884d8' },
+  { key: 'trend', label: 'Trend', color: '#82ca9d' },
+  { key: 'weekly', label: 'Weekly seasonal', color: '#ffc658' },
+  { key: 'yearly', label: 'Yearly seasonal', color: '#ff7300' },
+  { key: 'residual', label: 'Residual', color: '#9ca3af' }
+]
+
+const granularityOptions: { value: DecompositionGranularity; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' }
+]
+
+const formatStrength = (value: number | null) =>
+  value === null ? 'n/a' : `${Math.round(value * 100)}%`
+
+export function SeasonalDecompositionChart({
+  clientNames,
+  panelHeight = 140
+}: SeasonalDecompositionChartProps) {
+  const [clientName, setClientName] = useState<string>(ALL_CLIENTS)
+  const [granularity, setGranularity] = useState<DecompositionGranularity>('daily')
+  const { data: decomposition, isLoading, error } = useSeasonalDecomposition({
+    clientName: clientName === ALL_CLIENTS ? undefined : clientName,
+    granularity
+  })
+
+  // One row per period with every component, so the panels share the x-axis
+  const chartData = React.useMemo(() => {
+    if (!decomposition) return []
+
+    return decomposition.periods.map((period, i) => ({
+      period,
+      observed: decomposition.observed[i],
+      trend: decomposition.trend[i],
+      weekly: decomposition.weekly?.[i],
+      yearly: decomposition.yearly?.[i],
+      residual: decomposition.residual[i]
+    }))
+  }, [decomposition])
+
+  // Components the series is too short or too coarse for are left out
+  const panels = PANELS.filter(panel =>
+    decomposition && (panel.key !== 'weekly' || decomposition.weekly) && (panel.key !== 'yearly' || decomposition.yearly)
+  )
+
+  const strengthBadges = (result: SeasonalDecomposition) => (
+    <div className="flex flex-wrap gap-2">
+      <Badge variant="outline">Trend strength {formatStrength(result.strength.trend)}</Badge>
+      {result.weekly && <Badge variant="outline">Weekly strength {formatStrength(result.strength.weekly)}</Badge>}
+      {result.yearly && <Badge variant="outline">Yearly strength {formatStrength(result.strength.yearly)}</Badge>}
+    </div>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Seasonal Decomposition</CardTitle>
+        <CardDescription>
+          Volume split into trend, weekly and yearly seasonality, and what is left over
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label>Client</Label>
+            <Select value={clientName} onValueChange={setClientName}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CLIENTS}>All clients</SelectItem>
+                {clientNames.map(name => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Granularity</Label>
+            <Select
+              value={granularity}
+              onValueChange={(value) => setGranularity(value as DecompositionGranularity)}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {granularityOptions.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {decomposition && strengthBadges(decomposition)}
+        </div>
+
+        {isLoading ? (
+          <div className="h-64 bg-muted animate-pulse rounded" />
+        ) : error ? (
+          <p className="text-sm text-red-600">
+            {error instanceof Error ? error.message : 'Failed to load decomposition'}
+          </p>
+        ) : chartData.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No volume to decompose for this selection.</p>
+        ) : (
+          <div className="space-y-2">
+            {panels.map((panel, index) => (
+              <div key={panel.key}>
+                <p className="text-xs font-medium text-muted-foreground">{panel.label}</p>
+                <ResponsiveContainer width="100%" height={panelHeight}>
+                  <LineChart data={chartData} syncId="seasonal-decomposition" margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+                    <XAxis dataKey="period" hide={index < panels.length - 1} fontSize={12} />
+                    <YAxis fontSize={12} width={50} />
+                    <Tooltip formatter={(value: number) => [value.toLocaleString(), panel.label]} />
+                    {panel.key !== 'observed' && panel.key !== 'trend' && (
+                      <ReferenceLine y={0} stroke="#6b7280" strokeDasharray="2 2" />
+                    )}
+                    <Line
+                      type="monotone"
+                      dataKey={panel.key}
+                      stroke={panel.color}
+                      strokeWidth={panel.key === 'residual' ? 1 : 2}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
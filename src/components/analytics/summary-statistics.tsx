@@ -15,11 +15,14 @@ import {
   AlertTriangle
 } from 'lucide-react'
 import { TranscriptData } from '@/types/transcript'
+import { TargetBreach } from '@/types/target'
 
 interface SummaryStatisticsProps {
+  // Already limited to the selected time range
   data: TranscriptData[]
-  timeRange?: string
   selectedClients?: string[]
+  // Target breaches; the predicted ones are shown as insights
+  breaches?: TargetBreach[]
 }
 
 interface StatisticCard {
@@ -39,7 +42,7 @@ interface Insight {
   icon: React.ComponentType<{ className?: string }>
 }
 
-export function SummaryStatistics({ data, timeRange, selectedClients }: SummaryStatisticsProps) {
+export function SummaryStatistics({ data, selectedClients, breaches }: SummaryStatisticsProps) {
   // Calculate statistics
   const statistics = React.useMemo(() => {
     if (!data.length) {
@@ -215,8 +218,21 @@ export function SummaryStatistics({ data, timeRange, selectedClients }: SummaryS
       }
     }
 
+    // Predicted target breaches
+    breaches
+      ?.filter(breach => breach.kind === 'forecast')
+      .filter(breach => !selectedClients?.length || selectedClients.includes(breach.clientName))
+      .forEach(breach => {
+        insights.push({
+          type: 'warning',
+          title: 'Predicted Target Breach',
+          description: `${breach.message}: ${breach.value.toLocaleString()} forecast against a target of ${breach.target.toLocaleString()}.`,
+          icon: AlertTriangle
+        })
+      })
+
     return insights
-  }, [statistics])
+  }, [statistics, breaches, selectedClients])
 
   // Create statistic cards
   const statisticCards: StatisticCard[] = [
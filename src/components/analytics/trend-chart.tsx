@@ -15,6 +15,8 @@ import {
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { TranscriptData } from '@/types/transcript'
 import { AnimatedChartContainer, ChartDataTransition } from '@/components/animations'
+import { ChartEvent, eventAnnotations } from './event-annotations'
+import { AnomalyTooltipNotes, ChartAnomaly, anomalyAnnotations } from './anomaly-annotations'
 
 interface TrendChartProps {
   data: TranscriptData[]
@@ -26,6 +28,10 @@ interface TrendChartProps {
   showGrid?: boolean
   showLegend?: boolean
   height?: number
+  // Holidays, client events and outages to mark on the chart
+  events?: ChartEvent[]
+  // Volume anomalies to mark on each client's line
+  anomalies?: ChartAnomaly[]
 }
 
 interface ChartDataPoint {
@@ -50,7 +56,9 @@ export function TrendChart({
   timeRange,
   showGrid = true,
   showLegend = true,
-  height = 400
+  height = 400,
+  events,
+  anomalies
 }: TrendChartProps) {
   // Transform data for Recharts format
   const chartData = React.useMemo(() => {
@@ -108,6 +116,7 @@ export function TrendChart({
               {`${entry.dataKey}: ${entry.value} transcripts`}
             </p>
           ))}
+          <AnomalyTooltipNotes anomalies={anomalies} month={label} clientNames={clientNames} />
         </div>
       )
     }
@@ -158,6 +167,8 @@ export function TrendChart({
                 />
                 <Tooltip content={<CustomTooltip />} />
                 {showLegend && <Legend />}
+
+                {eventAnnotations(events, chartData.map(item => item.month), selectedClients)}
                 
                 {clientNames.map((clientName, index) => (
                   <Line
@@ -171,6 +182,8 @@ export function TrendChart({
                     connectNulls={false}
                   />
                 ))}
+
+                {anomalyAnnotations(anomalies, chartData, clientNames)}
               </LineChart>
             </ResponsiveContainer>
           </ChartDataTransition>
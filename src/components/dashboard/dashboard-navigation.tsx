@@ -23,6 +23,10 @@ import {
   Home,
   Clock,
   Shield,
+  CalendarDays,
+  Target,
+  GitBranch,
+  Briefcase,
   Users
 } from "lucide-react"
 
@@ -87,6 +91,13 @@ const adminItems: NavigationItem[] = [
     icon: Shield,
     description: "System performance monitoring",
     requiredRole: "admin"
+  },
+  {
+    title: "Events Calendar",
+    href: "/admin/calendar",
+    icon: CalendarDays,
+    description: "Holidays, client events and outages for forecasts",
+    requiredRole: "admin"
   }
 ]
 
@@ -175,6 +186,60 @@ export function DashboardNavigation() {
                   </Link>
                 </NavigationMenuLink>
                 
+                {/* Model Backtests - Analysts and admins */}
+                {userRole !== 'viewer' && (
+                  <NavigationMenuLink asChild>
+                    <Link
+                      className="flex h-full w-full select-none flex-col justify-end rounded-md bg-gradient-to-b from-green-50 to-green-100 p-6 no-underline outline-none focus:shadow-md"
+                      href="/analytics/backtests"
+                    >
+                      <Target className="h-6 w-6 text-green-600" />
+                      <div className="mb-2 mt-4 text-lg font-medium">
+                        Model Backtests
+                      </div>
+                      <p className="text-sm leading-tight text-muted-foreground">
+                        Out-of-sample accuracy to see which forecast model to trust per client.
+                      </p>
+                    </Link>
+                  </NavigationMenuLink>
+                )}
+                
+                {/* Forecast Scenarios - Analysts and admins */}
+                {userRole !== 'viewer' && (
+                  <NavigationMenuLink asChild>
+                    <Link
+                      className="flex h-full w-full select-none flex-col justify-end rounded-md bg-gradient-to-b from-purple-50 to-purple-100 p-6 no-underline outline-none focus:shadow-md"
+                      href="/analytics/scenarios"
+                    >
+                      <GitBranch className="h-6 w-6 text-purple-600" />
+                      <div className="mb-2 mt-4 text-lg font-medium">
+                        Forecast Scenarios
+                      </div>
+                      <p className="text-sm leading-tight text-muted-foreground">
+                        What-if forecasts with uplifts, new clients and churn against the baseline.
+                      </p>
+                    </Link>
+                  </NavigationMenuLink>
+                )}
+                
+                {/* Capacity Planning - Analysts and admins */}
+                {userRole !== 'viewer' && (
+                  <NavigationMenuLink asChild>
+                    <Link
+                      className="flex h-full w-full select-none flex-col justify-end rounded-md bg-gradient-to-b from-teal-50 to-teal-100 p-6 no-underline outline-none focus:shadow-md"
+                      href="/analytics/capacity"
+                    >
+                      <Briefcase className="h-6 w-6 text-teal-600" />
+                      <div className="mb-2 mt-4 text-lg font-medium">
+                        Capacity Planning
+                      </div>
+                      <p className="text-sm leading-tight text-muted-foreground">
+                        Reviewer and validator hours and FTEs from forecasts and AHT.
+                      </p>
+                    </Link>
+                  </NavigationMenuLink>
+                )}
+                
                 {/* Settings - Available to all roles */}
                 <NavigationMenuLink asChild>
                   <Link
@@ -20,7 +20,11 @@ import {
   Home,
   Clock,
   Shield,
+  CalendarDays,
   Users,
+  Target,
+  GitBranch,
+  Briefcase,
   X
 } from "lucide-react"
 
@@ -76,6 +80,27 @@ const navigationItems: NavigationItem[] = [
     description: "Average Handling Time insights",
     allowedRoles: ["viewer", "analyst", "admin"]
   },
+  {
+    title: "Model Backtests",
+    href: "/analytics/backtests",
+    icon: Target,
+    description: "Forecast accuracy by model",
+    allowedRoles: ["analyst", "admin"]
+  },
+  {
+    title: "Forecast Scenarios",
+    href: "/analytics/scenarios",
+    icon: GitBranch,
+    description: "What-if forecasts vs baseline",
+    allowedRoles: ["analyst", "admin"]
+  },
+  {
+    title: "Capacity Planning",
+    href: "/analytics/capacity",
+    icon: Briefcase,
+    description: "Staffing from forecasts and AHT",
+    allowedRoles: ["analyst", "admin"]
+  },
   {
     title: "Settings",
     href: "/dashboard/settings",
@@ -99,6 +124,13 @@ const adminItems: NavigationItem[] = [
     icon: Shield,
     description: "System performance monitoring",
     requiredRole: "admin"
+  },
+  {
+    title: "Events Calendar",
+    href: "/admin/calendar",
+    icon: CalendarDays,
+    description: "Holidays, client events and outages for forecasts",
+    requiredRole: "admin"
   }
 ]
 
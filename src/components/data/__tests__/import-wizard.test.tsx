@@ -252,7 +252,7 @@ describe('ImportWizard', () => {
         errorCount: 0,
         errors: [],
         duplicateCount: 0
-      })
+      }, expect.any(Array))
     })
   })
 
@@ -358,7 +358,7 @@ describe('ImportWizard', () => {
       errorCount: 1,
       errors: mockErrors,
       duplicateCount: 0
-    })
+    }, expect.any(Array))
   })
 
   it('should allow going back to previous steps', async () => {
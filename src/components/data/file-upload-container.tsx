@@ -8,7 +8,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Button } from '@/components/ui/button'
 import { CheckCircle, AlertCircle, Upload, ArrowLeft } from 'lucide-react'
+import { useImportProfiles, useCreateImportProfile } from '@/lib/hooks/use-import-profiles'
 import type { RawData, ImportResult, TranscriptData } from '@/types/transcript'
+import type { ColumnType } from '@/lib/utils/structured-parsers'
 
 interface FileUploadContainerProps {
   onImportComplete?: (result: ImportResult) => void
@@ -22,6 +24,8 @@ interface FileData {
   headers: string[]
   data: RawData[]
   fileName: string
+  sheetName?: string
+  columnTypes?: Record<string, ColumnType>
 }
 
 interface ConflictResolution {
@@ -50,6 +54,8 @@ export function FileUploadContainer({
   const [importResult, setImportResult] = useState<ImportResult | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [isProcessing, setIsProcessing] = useState(false)
+  const { data: importProfiles } = useImportProfiles()
+  const createImportProfile = useCreateImportProfile()
 
   const handleFileProcessed = useCallback((data: FileData) => {
     setFileData(data)
@@ -134,6 +140,7 @@ export function FileUploadContainer({
         return (
           <FileUpload
             onFileProcessed={handleFileProcessed}
+            importProfiles={importProfiles}
             className="w-full"
           />
         )
@@ -145,6 +152,10 @@ export function FileUploadContainer({
             headers={fileData.headers}
             data={fileData.data}
             fileName={fileData.fileName}
+            sheetName={fileData.sheetName}
+            columnTypes={fileData.columnTypes}
+            profiles={importProfiles ?? []}
+            onSaveProfile={createImportProfile.mutateAsync}
             onImport={handleImportFromWizard}
             onCancel={handleCancel}
             className="w-full"
@@ -6,17 +6,32 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button'
 import { Progress } from '@/components/ui/progress'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { Upload, FileText, CheckCircle, AlertCircle, X, FileSpreadsheet } from 'lucide-react'
+import { Upload, FileText, CheckCircle, AlertCircle, AlertTriangle, X, FileSpreadsheet } from 'lucide-react'
 import { Badge } from '@/components/ui/badge'
 import { FileProcessor } from '@/lib/utils/file-processors'
+import { uploadCSVInChunks } from '@/lib/services/csv-upload-client'
+import type { CSVRowError } from '@/lib/utils/csv-parser'
+import type { ColumnType } from '@/lib/utils/structured-parsers'
 import { FileUploadSchema } from '@/lib/validations/schemas'
+import { matchImportProfile } from '@/lib/utils/import-profiles'
 import type { RawData, ImportResult } from '@/types/transcript'
+import type { ImportProfile } from '@/types/import-profile'
 
 interface FileUploadProps {
   onUpload?: (result: ImportResult) => void
-  onFileProcessed?: (data: { headers: string[], data: RawData[], fileName: string }) => void
+  onFileProcessed?: (data: {
+    headers: string[]
+    data: RawData[]
+    fileName: string
+    sheetName?: string
+    // Set for formats that declare their column types, such as Parquet
+    columnTypes?: Record<string, ColumnType>
+  }) => void
+  // Workbooks are read from the sheet a matching profile names
+  importProfiles?: ImportProfile[]
   acceptedFileTypes?: string[]
   maxFileSize?: number
+  maxCSVFileSize?: number
   className?: string
   multiple?: boolean
 }
@@ -28,26 +43,74 @@ interface UploadedFile {
   error?: string
   status: 'uploading' | 'processing' | 'success' | 'error'
   progress: number
+  rowsRead?: number
+  rowErrors?: CSVRowError[]
   sheets?: string[]
   selectedSheet?: string
 }
 
+const MIME_TYPES: Record<string, string> = {
+  '.csv': 'text/csv',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.json': 'application/json',
+  '.ndjson': 'application/x-ndjson',
+  '.jsonl': 'application/x-ndjson',
+  '.parquet': 'application/vnd.apache.parquet'
+}
+
+/**
+ * Dropzone accept map for file extensions, grouped by MIME type
+ */
+function acceptFor(extensions: string[]): Record<string, string[]> {
+  return extensions.reduce((accept, extension) => {
+    const mimeType = MIME_TYPES[extension.toLowerCase()] ?? 'application/octet-stream'
+    accept[mimeType] = [...(accept[mimeType] ?? []), extension]
+    return accept
+  }, {} as Record<string, string[]>)
+}
+
+/**
+ * Sheet other than the first that a profile names, read when its headers
+ * match that profile
+ */
+async function readProfileSheet(file: File, sheets: string[], profiles: ImportProfile[]) {
+  for (const profile of profiles) {
+    if (!profile.sheetName || profile.sheetName === sheets[0] || !sheets.includes(profile.sheetName)) continue
+
+    const result = await FileProcessor.processExcelSheet(file, profile.sheetName, true)
+    if (result.errors.length === 0 && matchImportProfile(result.headers, [profile])) {
+      return { headers: result.headers, data: result.data, sheetName: profile.sheetName }
+    }
+  }
+
+  return null
+}
+
 export function FileUpload({ 
   onUpload,
   onFileProcessed,
-  acceptedFileTypes = ['.csv', '.xlsx', '.xls'],
+  importProfiles = [],
+  acceptedFileTypes = ['.csv', '.xlsx', '.xls', '.json', '.ndjson', '.jsonl', '.parquet'],
   maxFileSize = 10 * 1024 * 1024, // 10MB
+  maxCSVFileSize = FileProcessor.MAX_CSV_FILE_SIZE,
   className,
   multiple = true
 }: FileUploadProps) {
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([])
   const [isProcessing, setIsProcessing] = useState(false)
 
-  const processFile = useCallback(async (file: File): Promise<{
+  const processFile = useCallback(async (
+    file: File,
+    onProgress?: (progress: number, rowsRead: number) => void
+  ): Promise<{
     headers: string[]
     data: RawData[]
     error?: string
     sheets?: string[]
+    selectedSheet?: string
+    rowErrors?: CSVRowError[]
+    columnTypes?: Record<string, ColumnType>
   }> => {
     // Validate file first
     const validation = FileProcessor.validateFile(file)
@@ -58,7 +121,41 @@ export function FileUpload({
     const fileType = FileProcessor.getFileType(file)
     
     if (fileType === 'csv') {
-      const result = await FileProcessor.processCSV(file, true)
+      // Streamed to the server in chunks, so large exports never load whole
+      const result = await uploadCSVInChunks(file, {
+        hasHeaders: true,
+        onProgress: ({ bytesRead, totalBytes, rows }) => {
+          onProgress?.(Math.round(5 + (bytesRead / totalBytes) * 90), rows)
+        }
+      })
+      return {
+        headers: result.headers,
+        data: result.data,
+        rowErrors: result.rowErrors
+      }
+    } else if (fileType === 'excel') {
+      const result = await FileProcessor.processExcel(file, true)
+      if (result.errors.length > 0) {
+        throw new Error(result.errors.join(', '))
+      }
+
+      const profileSheet = await readProfileSheet(file, result.sheets, importProfiles)
+      if (profileSheet) {
+        return {
+          headers: profileSheet.headers,
+          data: profileSheet.data,
+          sheets: result.sheets,
+          selectedSheet: profileSheet.sheetName
+        }
+      }
+
+      return {
+        headers: result.headers,
+        data: result.data,
+        sheets: result.sheets
+      }
+    } else if (fileType === 'json') {
+      const result = await FileProcessor.processJSON(file)
       if (result.errors.length > 0) {
         throw new Error(result.errors.join(', '))
       }
@@ -66,20 +163,33 @@ export function FileUpload({
         headers: result.headers,
         data: result.data
       }
-    } else if (fileType === 'excel') {
-      const result = await FileProcessor.processExcel(file, true)
+    } else if (fileType === 'parquet') {
+      // Typed by the file's own schema rather than guessed from values
+      const result = await FileProcessor.processParquet(file)
       if (result.errors.length > 0) {
         throw new Error(result.errors.join(', '))
       }
       return {
         headers: result.headers,
         data: result.data,
-        sheets: result.sheets
+        columnTypes: result.columnTypes
+      }
+    } else if (fileType === 'ndjson') {
+      const result = await FileProcessor.processNDJSON(file, ({ bytesRead, totalBytes, rows }) => {
+        onProgress?.(Math.round(5 + (bytesRead / totalBytes) * 90), rows)
+      })
+      if (result.errors.length > 0) {
+        throw new Error(result.errors.join(', '))
+      }
+      return {
+        headers: result.headers,
+        data: result.data,
+        rowErrors: result.rowErrors
       }
     } else {
       throw new Error('Unsupported file type')
     }
-  }, [])
+  }, [importProfiles])
 
   const handleFileUpload = useCallback(async (files: File[]) => {
     setIsProcessing(true)
@@ -105,7 +215,13 @@ export function FileUpload({
         )
 
         // Process the file
-        const result = await processFile(file)
+        const result = await processFile(file, (progress, rowsRead) => {
+          setUploadedFiles(prev => 
+            prev.map((f, idx) => 
+              idx === fileIndex ? { ...f, progress, rowsRead } : f
+            )
+          )
+        })
         
         // Update progress
         setUploadedFiles(prev => 
@@ -124,6 +240,8 @@ export function FileUpload({
                   headers: result.headers,
                   data: result.data,
                   sheets: result.sheets,
+                  selectedSheet: result.selectedSheet,
+                  rowErrors: result.rowErrors,
                   progress: 100 
                 }
               : f
@@ -135,7 +253,9 @@ export function FileUpload({
           onFileProcessed({
             headers: result.headers,
             data: result.data,
-            fileName: file.name
+            fileName: result.selectedSheet ? `${file.name} (${result.selectedSheet})` : file.name,
+            sheetName: result.selectedSheet,
+            columnTypes: result.columnTypes
           })
         }
 
@@ -194,7 +314,8 @@ export function FileUpload({
         onFileProcessed({
           headers: result.headers,
           data: result.data,
-          fileName: `${uploadedFile.file.name} (${sheetName})`
+          fileName: `${uploadedFile.file.name} (${sheetName})`,
+          sheetName
         })
       }
 
@@ -216,12 +337,8 @@ export function FileUpload({
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop: handleFileUpload,
-    accept: {
-      'text/csv': ['.csv'],
-      'application/vnd.ms-excel': ['.xls'],
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx']
-    },
-    maxSize: maxFileSize,
+    accept: acceptFor(acceptedFileTypes),
+    maxSize: Math.max(maxFileSize, maxCSVFileSize),
     multiple
   })
 
@@ -279,7 +396,7 @@ export function FileUpload({
             Upload Data Files
           </CardTitle>
           <CardDescription>
-            Upload CSV or Excel files containing transcript data for analysis and predictions
+            Upload CSV, Excel, JSON, NDJSON or Parquet files containing transcript data for analysis and predictions
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -304,7 +421,7 @@ export function FileUpload({
                   Drag & drop files here, or click to select
                 </p>
                 <p className="text-sm text-muted-foreground mb-2">
-                  Supports CSV, XLS, XLSX files up to {Math.round(maxFileSize / 1024 / 1024)}MB
+                  Supports CSV, NDJSON and Parquet files up to {Math.round(maxCSVFileSize / 1024 / 1024)}MB and XLS, XLSX and JSON files up to {Math.round(maxFileSize / 1024 / 1024)}MB
                 </p>
                 <p className="text-xs text-muted-foreground">
                   Expected columns: Client Name, Date, Transcript Count, Type (optional), Notes (optional)
@@ -346,7 +463,33 @@ export function FileUpload({
                   </div>
 
                   {(uploadedFile.status === 'uploading' || uploadedFile.status === 'processing') && (
-                    <Progress value={uploadedFile.progress} className="h-2" />
+                    <div className="space-y-1">
+                      <Progress value={uploadedFile.progress} className="h-2" />
+                      {uploadedFile.rowsRead !== undefined && (
+                        <p className="text-xs text-muted-foreground">
+                          {uploadedFile.progress}% • {uploadedFile.rowsRead.toLocaleString()} rows read
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {uploadedFile.rowErrors && uploadedFile.rowErrors.length > 0 && (
+                    <Alert>
+                      <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                      <AlertDescription>
+                        <p className="font-medium">
+                          {uploadedFile.rowErrors.length} {uploadedFile.rowErrors.length === 1 ? 'row has' : 'rows have'} problems
+                        </p>
+                        <ul className="mt-1 text-xs space-y-0.5">
+                          {uploadedFile.rowErrors.slice(0, 5).map((rowError, errorIndex) => (
+                            <li key={errorIndex}>Line {rowError.line}: {rowError.message}</li>
+                          ))}
+                          {uploadedFile.rowErrors.length > 5 && (
+                            <li>and {uploadedFile.rowErrors.length - 5} more</li>
+                          )}
+                        </ul>
+                      </AlertDescription>
+                    </Alert>
                   )}
 
                   {uploadedFile.error && (
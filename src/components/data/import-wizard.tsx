@@ -1,8 +1,9 @@
 "use client"
 
-import { useState, useCallback, useMemo } from 'react'
+import { useState, useCallback, useMemo, useEffect, useRef, type ReactElement } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
@@ -16,21 +17,18 @@ import {
   FileText, 
   Settings,
   Eye,
-  Upload
+  Upload,
+  Bookmark,
+  Zap
 } from 'lucide-react'
 import { FileProcessor } from '@/lib/utils/file-processors'
 import { TranscriptCreateSchema } from '@/lib/validations/schemas'
-import { transformRawDataToTranscripts } from '@/lib/utils/data-transformers'
+import { DataTransformer, transformRawDataToTranscripts } from '@/lib/utils/data-transformers'
+import { applyImportProfile, isProfileCompatible, matchImportProfile } from '@/lib/utils/import-profiles'
+import type { ColumnType } from '@/lib/utils/structured-parsers'
 import type { RawData, ImportResult, TranscriptData } from '@/types/transcript'
-
-interface ImportWizardProps {
-  headers: string[]
-  data: RawData[]
-  fileName: string
-  onImport: (result: ImportResult) => void
-  onCancel: () => void
-  className?: string
-}
+import type { ImportDateFormat, ImportProfile, ImportProfileScope } from '@/types/import-profile'
+import type { ImportProfileInput } from '@/lib/hooks/use-import-profiles'
 
 interface ColumnMapping {
   [key: string]: string // maps required field to selected header
@@ -43,40 +41,126 @@ interface ValidationError {
   message: string
 }
 
-const REQUIRED_FIELDS = {
-  clientName: 'Client Name',
-  date: 'Date',
-  transcriptCount: 'Transcript Count'
-} as const
+/**
+ * Fields a file is mapped onto and how mapped rows become records
+ */
+export interface ImportFieldConfig<T> {
+  requiredFields: Record<string, string>
+  optionalFields: Record<string, string>
+  // Column type each field expects, used to pick and check its column
+  fieldTypes?: Record<string, ColumnType>
+  description: string
+  transform: (data: RawData[], columnMapping: ColumnMapping) => Promise<{
+    validData: T[]
+    errors: ValidationError[]
+  }>
+}
+
+export const TRANSCRIPT_IMPORT_CONFIG: ImportFieldConfig<TranscriptData> = {
+  requiredFields: {
+    clientName: 'Client Name',
+    date: 'Date',
+    transcriptCount: 'Transcript Count'
+  },
+  optionalFields: {
+    transcriptType: 'Transcript Type',
+    notes: 'Notes'
+  },
+  fieldTypes: {
+    date: 'date',
+    transcriptCount: 'number'
+  },
+  description: 'Map your file columns to the required transcript data fields',
+  transform: transformRawDataToTranscripts
+}
 
-const OPTIONAL_FIELDS = {
-  transcriptType: 'Transcript Type',
-  notes: 'Notes'
-} as const
+const DATE_FORMATS: ImportDateFormat[] = [
+  'YYYY-MM-DD', 'YYYY/MM/DD', 'MM/DD/YYYY', 'MM-DD-YYYY', 'DD/MM/YYYY', 'DD-MM-YYYY', 'DD.MM.YYYY'
+]
 
-const ALL_FIELDS = { ...REQUIRED_FIELDS, ...OPTIONAL_FIELDS }
+type ClientNameCase = 'none' | 'titlecase' | 'uppercase'
 
-export function ImportWizard({
+interface ImportWizardBaseProps<T> {
+  headers: string[]
+  data: RawData[]
+  fileName: string
+  // Column types declared by the file, e.g. a Parquet schema; inferred from the data otherwise
+  columnTypes?: Record<string, ColumnType>
+  // Saved import profiles; the profile controls are hidden without them
+  profiles?: ImportProfile[]
+  onSaveProfile?: (profile: ImportProfileInput) => Promise<unknown>
+  // Excel sheet the data was read from, saved with new profiles
+  sheetName?: string
+  onImport: (result: ImportResult, records: T[]) => void
+  onCancel: () => void
+  className?: string
+}
+
+type ImportWizardProps<T> = ImportWizardBaseProps<T> & { config: ImportFieldConfig<T> }
+
+// Without a config the wizard imports transcripts
+type TranscriptImportWizardProps = ImportWizardBaseProps<TranscriptData> & { config?: undefined }
+
+export function ImportWizard(props: TranscriptImportWizardProps): ReactElement
+export function ImportWizard<T>(props: ImportWizardProps<T>): ReactElement
+export function ImportWizard<T>(props: TranscriptImportWizardProps | ImportWizardProps<T>) {
+  if (props.config === undefined) {
+    return <ConfiguredImportWizard {...props} config={TRANSCRIPT_IMPORT_CONFIG} />
+  }
+  return <ConfiguredImportWizard {...props} />
+}
+
+function ConfiguredImportWizard<T>({
   headers,
   data,
   fileName,
+  config,
+  columnTypes,
   onImport,
   onCancel,
+  profiles,
+  onSaveProfile,
+  sheetName,
   className
-}: ImportWizardProps) {
+}: ImportWizardProps<T>) {
   const [currentStep, setCurrentStep] = useState<'mapping' | 'preview' | 'conflicts'>('mapping')
   const [columnMapping, setColumnMapping] = useState<ColumnMapping>({})
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([])
-  const [transformedData, setTransformedData] = useState<TranscriptData[]>([])
+  const [transformedData, setTransformedData] = useState<T[]>([])
   const [isProcessing, setIsProcessing] = useState(false)
+  const [selectedProfileId, setSelectedProfileId] = useState<string | null>(null)
+  const [showSaveProfile, setShowSaveProfile] = useState(false)
+  const [profileName, setProfileName] = useState('')
+  const [profileScope, setProfileScope] = useState<ImportProfileScope>('personal')
+  const [profileDateFormat, setProfileDateFormat] = useState<ImportDateFormat | null>(null)
+  const [profileDefaultType, setProfileDefaultType] = useState('')
+  const [profileClientNameCase, setProfileClientNameCase] = useState<ClientNameCase>('none')
+  const [profileError, setProfileError] = useState<string | null>(null)
+  const [isSavingProfile, setIsSavingProfile] = useState(false)
+  // Once a profile is picked or cleared by hand, matching stops overriding it
+  const profileTouched = useRef(false)
+
+  const { requiredFields } = config
+  const ALL_FIELDS = useMemo(
+    () => ({ ...config.requiredFields, ...config.optionalFields }),
+    [config]
+  )
+
+  const fieldTypes = config.fieldTypes
+
+  // Schema of the file: declared types where the format has them, else inferred from a sample
+  const inferredColumnTypes = useMemo(
+    () => columnTypes ?? FileProcessor.detectColumnTypes(data.slice(0, 1000), headers),
+    [columnTypes, data, headers]
+  )
 
-  // Auto-detect column mappings based on header names
+  // Auto-detect column mappings based on header names, preferring columns of the expected type
   const autoDetectedMapping = useMemo(() => {
     const mapping: ColumnMapping = {}
     
     Object.entries(ALL_FIELDS).forEach(([field, label]) => {
-      const matchingHeader = headers.find(header => {
-        const normalizedHeader = header.toLowerCase().replace(/[_\s-]/g, '')
+      const matchingHeaders = headers.filter(header => {
+        const normalizedHeader = header.toLowerCase().replace(/[_\s.-]/g, '')
         const normalizedField = field.toLowerCase().replace(/[_\s-]/g, '')
         const normalizedLabel = label.toLowerCase().replace(/[_\s-]/g, '')
         
@@ -84,21 +168,96 @@ export function ImportWizard({
                normalizedHeader.includes(normalizedLabel) ||
                normalizedField.includes(normalizedHeader)
       })
+      const matchingHeader = matchingHeaders.find(header =>
+        !fieldTypes?.[field] || inferredColumnTypes[header] === fieldTypes[field]
+      ) ?? matchingHeaders[0]
       
       if (matchingHeader) {
         mapping[field] = matchingHeader
       }
     })
+
+    // A typed field no header name matched takes the only unmapped column of its type
+    Object.entries(fieldTypes ?? {}).forEach(([field, type]) => {
+      if (mapping[field]) return
+      const mapped = new Set(Object.values(mapping))
+      const candidates = headers.filter(header => !mapped.has(header) && inferredColumnTypes[header] === type)
+      if (candidates.length === 1) {
+        mapping[field] = candidates[0]
+      }
+    })
     
     return mapping
-  }, [headers])
+  }, [headers, ALL_FIELDS, fieldTypes, inferredColumnTypes])
+
+  // Mapped columns whose type is not the one their field expects; a warning only,
+  // as text columns often hold numbers or dates in formats the inference misses
+  const typeWarnings = useMemo(() => {
+    return Object.entries(fieldTypes ?? {})
+      .filter(([field, type]) => {
+        const header = columnMapping[field]
+        return header && inferredColumnTypes[header] && inferredColumnTypes[header] !== type &&
+          !(type === 'date' && inferredColumnTypes[header] === 'text')
+      })
+      .map(([field, type]) => `${ALL_FIELDS[field]} expects ${type === 'date' ? 'dates' : 'numbers'}, but ${columnMapping[field]} holds ${inferredColumnTypes[columnMapping[field]]} values`)
+  }, [fieldTypes, columnMapping, inferredColumnTypes, ALL_FIELDS])
 
   // Initialize mapping with auto-detected values
   useState(() => {
     setColumnMapping(autoDetectedMapping)
   })
 
+  const compatibleProfiles = useMemo(
+    () => (profiles ?? []).filter(profile => isProfileCompatible(headers, profile)),
+    [profiles, headers]
+  )
+
+  const matchedProfile = useMemo(
+    () => (profiles ? matchImportProfile(headers, profiles) : null),
+    [profiles, headers]
+  )
+
+  const activeProfile = useMemo(
+    () => compatibleProfiles.find(profile => profile.id === selectedProfileId) ?? null,
+    [compatibleProfiles, selectedProfileId]
+  )
+
+  // Profiles load after the wizard opens, so the match is applied when they arrive
+  useEffect(() => {
+    if (matchedProfile && !profileTouched.current) {
+      setSelectedProfileId(matchedProfile.id)
+      setColumnMapping({ ...matchedProfile.columnMapping })
+    }
+  }, [matchedProfile])
+
+  const handleProfileChange = (profileId: string) => {
+    profileTouched.current = true
+    const profile = compatibleProfiles.find(p => p.id === profileId)
+
+    if (!profile) {
+      setSelectedProfileId(null)
+      return
+    }
+
+    setSelectedProfileId(profile.id)
+    setColumnMapping({ ...profile.columnMapping })
+  }
+
+  // Date format read from the mapped date column, offered when saving a profile
+  const detectedDateFormat = useMemo(() => {
+    const dateHeader = columnMapping.date
+    if (!dateHeader) return 'YYYY-MM-DD' as ImportDateFormat
+
+    const samples = data
+      .slice(0, 100)
+      .map(row => row[dateHeader])
+      .filter((value): value is string => typeof value === 'string' && value.trim() !== '')
+
+    return DataTransformer.detectDateFormat(samples)
+  }, [data, columnMapping.date])
+
   const handleMappingChange = (field: string, header: string) => {
+    profileTouched.current = true
     setColumnMapping(prev => ({
       ...prev,
       [field]: header
@@ -109,7 +268,7 @@ export function ImportWizard({
     const errors: string[] = []
     
     // Check required fields
-    Object.entries(REQUIRED_FIELDS).forEach(([field, label]) => {
+    Object.entries(requiredFields).forEach(([field, label]) => {
       if (!columnMapping[field]) {
         errors.push(`${label} is required`)
       }
@@ -126,14 +285,17 @@ export function ImportWizard({
     }
     
     return errors
-  }, [columnMapping])
+  }, [columnMapping, requiredFields])
 
-  const processData = useCallback(async () => {
+  const processData = useCallback(async (mapping: ColumnMapping, profile: ImportProfile | null) => {
     setIsProcessing(true)
     
     try {
+      // Apply the profile's transforms, date format and default type first
+      const prepared = profile ? applyImportProfile(data, mapping, profile) : { data, columnMapping: mapping }
+
       // Transform raw data using column mapping
-      const result = await transformRawDataToTranscripts(data, columnMapping)
+      const result = await config.transform(prepared.data, prepared.columnMapping)
       
       setTransformedData(result.validData)
       setValidationErrors(result.errors)
@@ -150,7 +312,7 @@ export function ImportWizard({
           duplicateCount: 0 // Will be calculated during actual import
         }
         
-        onImport(importResult)
+        onImport(importResult, result.validData)
       }
     } catch (error) {
       console.error('Data processing error:', error)
@@ -164,7 +326,7 @@ export function ImportWizard({
     } finally {
       setIsProcessing(false)
     }
-  }, [data, columnMapping, onImport])
+  }, [data, config, onImport])
 
   const handleNext = async () => {
     if (currentStep === 'mapping') {
@@ -175,7 +337,54 @@ export function ImportWizard({
       }
       setCurrentStep('preview')
     } else if (currentStep === 'preview') {
-      await processData()
+      await processData(columnMapping, activeProfile)
+    }
+  }
+
+  // Repeat imports of a matched layout skip the mapping and preview steps
+  const handleImportWithProfile = async (profile: ImportProfile) => {
+    profileTouched.current = true
+    setSelectedProfileId(profile.id)
+    setColumnMapping({ ...profile.columnMapping })
+    await processData(profile.columnMapping, profile)
+  }
+
+  const handleSaveProfile = async () => {
+    if (!onSaveProfile) return
+
+    if (!profileName.trim()) {
+      setProfileError('Profile name is required')
+      return
+    }
+
+    const mapping = Object.fromEntries(
+      Object.entries(columnMapping).filter(([, header]) => Boolean(header))
+    )
+    const transforms = { ...(activeProfile?.transforms ?? {}) }
+    if (profileClientNameCase !== 'none') {
+      transforms.clientName = [{ type: 'trim' }, { type: profileClientNameCase }]
+    }
+
+    setIsSavingProfile(true)
+    setProfileError(null)
+
+    try {
+      await onSaveProfile({
+        name: profileName.trim(),
+        scope: profileScope,
+        headers,
+        columnMapping: mapping,
+        dateFormat: profileDateFormat ?? detectedDateFormat,
+        transforms,
+        defaultTranscriptType: profileDefaultType.trim() || undefined,
+        sheetName
+      })
+      setShowSaveProfile(false)
+      setProfileName('')
+    } catch (error) {
+      setProfileError(error instanceof Error ? error.message : 'Failed to save import profile')
+    } finally {
+      setIsSavingProfile(false)
     }
   }
 
@@ -196,7 +405,7 @@ export function ImportWizard({
       duplicateCount: 0
     }
     
-    onImport(importResult)
+    onImport(importResult, transformedData)
   }
 
   const previewData = useMemo(() => {
@@ -205,17 +414,21 @@ export function ImportWizard({
 
   const mappedPreviewData = useMemo(() => {
     if (!columnMapping) return []
+
+    const prepared = activeProfile
+      ? applyImportProfile(previewData, columnMapping, activeProfile)
+      : { data: previewData, columnMapping }
     
-    return previewData.map(row => {
+    return prepared.data.map(row => {
       const mappedRow: Record<string, any> = {}
-      Object.entries(columnMapping).forEach(([field, header]) => {
+      Object.entries(prepared.columnMapping).forEach(([field, header]) => {
         if (header) {
-          mappedRow[ALL_FIELDS[field as keyof typeof ALL_FIELDS]] = row[header]
+          mappedRow[ALL_FIELDS[field]] = row[header]
         }
       })
       return mappedRow
     })
-  }, [previewData, columnMapping])
+  }, [previewData, columnMapping, activeProfile, ALL_FIELDS])
 
   const isNextDisabled = () => {
     if (currentStep === 'mapping') {
@@ -266,16 +479,142 @@ export function ImportWizard({
           {/* Step Content */}
           {currentStep === 'mapping' && (
             <div className="space-y-4">
+              {profiles && (
+                <div className="space-y-3 rounded-md border p-4">
+                  {matchedProfile && (
+                    <Alert>
+                      <Zap className="h-4 w-4" />
+                      <AlertDescription className="flex items-center justify-between gap-4">
+                        <span>
+                          This file matches the import profile <span className="font-medium">{matchedProfile.name}</span>
+                        </span>
+                        <Button
+                          size="sm"
+                          onClick={() => handleImportWithProfile(matchedProfile)}
+                          disabled={isProcessing}
+                        >
+                          {isProcessing ? 'Processing...' : `Import with ${matchedProfile.name}`}
+                        </Button>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  <div className="flex items-center gap-4">
+                    <div className="w-40">
+                      <label className="text-sm font-medium flex items-center gap-1">
+                        <Bookmark className="h-4 w-4" />
+                        Import profile
+                      </label>
+                    </div>
+                    <Select value={selectedProfileId ?? 'none'} onValueChange={handleProfileChange}>
+                      <SelectTrigger className="flex-1">
+                        <SelectValue placeholder="Select profile..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">-- No profile --</SelectItem>
+                        {compatibleProfiles.map((profile) => (
+                          <SelectItem key={profile.id} value={profile.id}>
+                            {profile.name}{profile.scope === 'team' ? ' (team)' : ''}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {onSaveProfile && (
+                      <Button variant="outline" onClick={() => setShowSaveProfile(prev => !prev)}>
+                        Save as profile
+                      </Button>
+                    )}
+                  </div>
+
+                  {activeProfile && (
+                    <div className="flex flex-wrap gap-2 text-sm text-muted-foreground">
+                      <Badge variant="outline">Dates: {activeProfile.dateFormat}</Badge>
+                      {activeProfile.defaultTranscriptType && (
+                        <Badge variant="outline">Default type: {activeProfile.defaultTranscriptType}</Badge>
+                      )}
+                      {Object.entries(activeProfile.transforms)
+                        .filter(([, transforms]) => transforms.length > 0)
+                        .map(([field, transforms]) => (
+                          <Badge key={field} variant="outline">
+                            {ALL_FIELDS[field] ?? field}: {transforms.map(transform => transform.type).join(', ')}
+                          </Badge>
+                        ))}
+                    </div>
+                  )}
+
+                  {showSaveProfile && onSaveProfile && (
+                    <div className="grid gap-3 md:grid-cols-2">
+                      <Input
+                        placeholder="Profile name"
+                        value={profileName}
+                        onChange={(event) => setProfileName(event.target.value)}
+                      />
+                      <Select value={profileScope} onValueChange={(value) => setProfileScope(value as ImportProfileScope)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="personal">Only me</SelectItem>
+                          <SelectItem value="team">Whole team</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={profileDateFormat ?? detectedDateFormat}
+                        onValueChange={(value) => setProfileDateFormat(value as ImportDateFormat)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DATE_FORMATS.map((format) => (
+                            <SelectItem key={format} value={format}>
+                              Dates as {format}{format === detectedDateFormat ? ' (detected)' : ''}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        placeholder="Default transcript type (optional)"
+                        value={profileDefaultType}
+                        onChange={(event) => setProfileDefaultType(event.target.value)}
+                      />
+                      <Select
+                        value={profileClientNameCase}
+                        onValueChange={(value) => setProfileClientNameCase(value as ClientNameCase)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Client names as they are</SelectItem>
+                          <SelectItem value="titlecase">Client names in Title Case</SelectItem>
+                          <SelectItem value="uppercase">Client names in UPPER CASE</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        onClick={handleSaveProfile}
+                        disabled={isSavingProfile || validateMapping().length > 0}
+                      >
+                        {isSavingProfile ? 'Saving...' : 'Save profile'}
+                      </Button>
+                      {profileError && (
+                        <p className="text-sm text-red-600 md:col-span-2">{profileError}</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div>
                 <h3 className="text-lg font-medium mb-2">Map Columns</h3>
                 <p className="text-sm text-muted-foreground mb-4">
-                  Map your file columns to the required transcript data fields
+                  {config.description}
                 </p>
               </div>
 
               <div className="grid gap-4">
                 {Object.entries(ALL_FIELDS).map(([field, label]) => {
-                  const isRequired = field in REQUIRED_FIELDS
+                  const isRequired = field in requiredFields
                   return (
                     <div key={field} className="flex items-center gap-4">
                       <div className="w-40">
@@ -296,6 +635,7 @@ export function ImportWizard({
                           {headers.map((header) => (
                             <SelectItem key={header} value={header}>
                               {header}
+                              <span className="ml-2 text-xs text-muted-foreground">{inferredColumnTypes[header]}</span>
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -317,6 +657,19 @@ export function ImportWizard({
                   </AlertDescription>
                 </Alert>
               )}
+
+              {typeWarnings.length > 0 && (
+                <Alert>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    <ul className="list-disc list-inside">
+                      {typeWarnings.map((warning, index) => (
+                        <li key={index}>{warning}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
             </div>
           )}
 
@@ -10,6 +10,7 @@ import { PerformanceCharts } from './performance-charts'
 import { SystemHealthIndicators } from './system-health-indicators'
 import { AlertManagement } from './alert-management'
 import { UserActivityLog } from './user-activity-log'
+import { IngestionLog } from './ingestion-log'
 import { useMonitoring } from '@/lib/hooks/use-monitoring'
 import { AlertTriangle, Activity, Users, Zap, Database, Cpu } from 'lucide-react'
 
@@ -177,6 +178,7 @@ export function AdminDashboard() {
           <TabsTrigger value="health">System Health</TabsTrigger>
           <TabsTrigger value="alerts">Alerts</TabsTrigger>
           <TabsTrigger value="activity">User Activity</TabsTrigger>
+          <TabsTrigger value="ingestion">Ingestion</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-4">
@@ -253,6 +255,10 @@ export function AdminDashboard() {
         <TabsContent value="activity">
           <UserActivityLog />
         </TabsContent>
+
+        <TabsContent value="ingestion">
+          <IngestionLog />
+        </TabsContent>
       </Tabs>
     </div>
   )
@@ -0,0 +1,172 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useIngestionLog, useScanDropFolder } from '@/lib/hooks/use-ingestion-log'
+import type { IngestionStatus } from '@/types/ingestion'
+import { formatDistanceToNow, format } from 'date-fns'
+import { AlertCircle, CheckCircle, FolderInput, RefreshCw } from 'lucide-react'
+
+export function IngestionLog() {
+  const [statusFilter, setStatusFilter] = useState<IngestionStatus | 'all'>('all')
+  const { data, isLoading, error } = useIngestionLog(statusFilter === 'all' ? undefined : statusFilter)
+  const scan = useScanDropFolder()
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Ingestion log unavailable</AlertTitle>
+        <AlertDescription>{error.message}</AlertDescription>
+      </Alert>
+    )
+  }
+
+  const entries = data?.entries || []
+  const watcher = data?.watcher
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <FolderInput className="h-5 w-5" />
+              Drop Folder
+            </CardTitle>
+            <CardDescription>
+              {watcher?.directory ? (
+                <>
+                  Watching <code className="text-xs bg-muted px-1 py-0.5 rounded">{watcher.directory}</code>
+                  {watcher.lastScanAt && ` · last scanned ${formatDistanceToNow(new Date(watcher.lastScanAt), { addSuffix: true })}`}
+                </>
+              ) : (
+                'No drop folder is configured. Set DROP_FOLDER_PATH to import files unattended.'
+              )}
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => scan.mutate()}
+            disabled={!watcher?.directory || scan.isPending}
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${scan.isPending ? 'animate-spin' : ''}`} />
+            Scan now
+          </Button>
+        </CardHeader>
+        {(watcher?.lastError || scan.error) && (
+          <CardContent>
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{watcher?.lastError || scan.error?.message}</AlertDescription>
+            </Alert>
+          </CardContent>
+        )}
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Ingested Files</CardTitle>
+            <CardDescription>
+              Imported files are moved to processed/, anything else to quarantine/
+            </CardDescription>
+          </div>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as IngestionStatus | 'all')}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Files</SelectItem>
+              <SelectItem value="committed">Committed</SelectItem>
+              <SelectItem value="quarantined">Quarantined</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {entries.length > 0 ? (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Finished</TableHead>
+                    <TableHead>File</TableHead>
+                    <TableHead>Profile</TableHead>
+                    <TableHead>Rows</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell>
+                        <div className="space-y-1">
+                          <div className="text-sm">
+                            {format(new Date(entry.finishedAt), 'MMM dd, HH:mm:ss')}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {formatDistanceToNow(new Date(entry.finishedAt), { addSuffix: true })}
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm font-medium">{entry.fileName}</div>
+                        <code className="text-xs text-muted-foreground">{entry.storedAs}</code>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {entry.profileName || <span className="text-muted-foreground">-</span>}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {entry.importedRows} / {entry.totalRows}
+                        {entry.errorCount > 0 && (
+                          <div className="text-xs text-red-600">{entry.errorCount} invalid</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {entry.status === 'committed' ? (
+                            <CheckCircle className="h-4 w-4 text-green-500" />
+                          ) : (
+                            <AlertCircle className="h-4 w-4 text-red-500" />
+                          )}
+                          <Badge variant={entry.status === 'committed' ? 'secondary' : 'destructive'}>
+                            {entry.status}
+                          </Badge>
+                        </div>
+                        <div className="text-xs text-muted-foreground mt-1">{entry.message}</div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="text-center py-8">
+              <FolderInput className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium mb-2">No Files Ingested</h3>
+              <p className="text-muted-foreground">
+                {statusFilter !== 'all'
+                  ? 'No ingested files match the selected status'
+                  : 'Files dropped into the folder will appear here once they are imported'
+                }
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
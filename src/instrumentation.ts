@@ -0,0 +1,13 @@
+/**
+ * Runs once when a server instance starts. Background work that must not
+ * wait for a request to come in is started here, in the Node.js runtime only.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return
+  }
+
+  // Unattended imports from DROP_FOLDER_PATH, when it is set
+  const { getDropFolderIngestion } = await import('@/lib/services/drop-folder-ingestion')
+  getDropFolderIngestion().start()
+}
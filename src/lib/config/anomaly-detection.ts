@@ -0,0 +1,32 @@
+import type { AnomalySeverity } from '@/types/anomaly';
+
+export interface AnomalyDetectionConfig {
+  /** Residuals with a robust z-score at least this large are anomalies */
+  zThreshold: number;
+  /** Robust z-scores from which an anomaly is medium, high and critical severity */
+  mediumZ: number;
+  highZ: number;
+  criticalZ: number;
+  /** Anomalies at or above this severity are sent to the alert system */
+  alertSeverity: AnomalySeverity;
+  /** Months of history the trend, seasonality and normal spread are estimated from */
+  historyMonths: number;
+  /** Days re-checked after a sync, which does not report the dates it changed */
+  syncLookbackDays: number;
+}
+
+const SEVERITIES: AnomalySeverity[] = ['low', 'medium', 'high', 'critical'];
+
+export function getAnomalyDetectionConfig(): AnomalyDetectionConfig {
+  const alertSeverity = process.env.ANOMALY_ALERT_SEVERITY as AnomalySeverity | undefined;
+
+  return {
+    zThreshold: parseFloat(process.env.ANOMALY_Z_THRESHOLD || '3.5'),
+    mediumZ: parseFloat(process.env.ANOMALY_MEDIUM_Z || '4.5'),
+    highZ: parseFloat(process.env.ANOMALY_HIGH_Z || '6'),
+    criticalZ: parseFloat(process.env.ANOMALY_CRITICAL_Z || '9'),
+    alertSeverity: alertSeverity && SEVERITIES.includes(alertSeverity) ? alertSeverity : 'medium',
+    historyMonths: parseInt(process.env.ANOMALY_HISTORY_MONTHS || '36'),
+    syncLookbackDays: parseInt(process.env.ANOMALY_SYNC_LOOKBACK_DAYS || '35'),
+  };
+}
@@ -0,0 +1,13 @@
+import type { CapacityAssumptions } from '@/types/capacity';
+
+/**
+ * Default staffing assumptions for capacity plans; each can be overridden per request
+ */
+export function getCapacityDefaults(): CapacityAssumptions {
+  return {
+    shrinkage: parseFloat(process.env.CAPACITY_SHRINKAGE || '0.3'),
+    occupancy: parseFloat(process.env.CAPACITY_OCCUPANCY || '0.85'),
+    hoursPerDay: parseFloat(process.env.CAPACITY_HOURS_PER_DAY || '8'),
+    ahtUnit: process.env.CAPACITY_AHT_UNIT === 'minutes' ? 'minutes' : 'seconds',
+  };
+}
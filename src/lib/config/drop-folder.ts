@@ -0,0 +1,31 @@
+import type { ImportStrategy } from '@/lib/utils/import-conflicts';
+
+export interface DropFolderConfig {
+  /** Directory watched for import files, local or an SFTP mount; ingestion is off when unset */
+  directory: string | null;
+  /** How often the directory is scanned for new files */
+  pollIntervalMs: number;
+  /** Files modified more recently than this are assumed to be still arriving; 0 picks files up at once */
+  settleMs: number;
+  /** Claimed files whose lease has not been renewed for this long were abandoned and are claimed again */
+  claimLeaseMs: number;
+  /** How rows that clash with existing records are resolved */
+  conflictResolution: ImportStrategy;
+  /** Invalid rows, as a percentage of all rows, tolerated before a file is quarantined */
+  maxErrorPercent: number;
+}
+
+const STRATEGIES: ImportStrategy[] = ['merge', 'replace', 'skip'];
+
+export function getDropFolderConfig(): DropFolderConfig {
+  const conflictResolution = process.env.DROP_FOLDER_CONFLICTS as ImportStrategy | undefined;
+
+  return {
+    directory: process.env.DROP_FOLDER_PATH || null,
+    pollIntervalMs: parseInt(process.env.DROP_FOLDER_POLL_SECONDS || '60') * 1000,
+    settleMs: parseInt(process.env.DROP_FOLDER_SETTLE_SECONDS || '30') * 1000,
+    claimLeaseMs: parseInt(process.env.DROP_FOLDER_CLAIM_LEASE_SECONDS || '300') * 1000,
+    conflictResolution: conflictResolution && STRATEGIES.includes(conflictResolution) ? conflictResolution : 'skip',
+    maxErrorPercent: parseFloat(process.env.DROP_FOLDER_MAX_ERROR_PERCENT || '0'),
+  };
+}
@@ -0,0 +1,22 @@
+import type { CapacityAssumptions } from '@/types/capacity';
+import { getCapacityDefaults } from './capacity';
+
+export interface FinanceConfig {
+  /** Fully loaded labor cost per staffed hour */
+  laborCostPerHour: number;
+  /** Currency of rate cards, labor cost and every figure derived from them */
+  currency: string;
+  /** Months of actuals, up to the current month, when a request gives no start month */
+  actualMonths: number;
+  /** Staffing assumptions turning AHT into staffed hours, shared with capacity plans */
+  staffing: CapacityAssumptions;
+}
+
+export function getFinanceConfig(): FinanceConfig {
+  return {
+    laborCostPerHour: parseFloat(process.env.FINANCE_LABOR_COST_PER_HOUR || '25'),
+    currency: process.env.FINANCE_CURRENCY || 'USD',
+    actualMonths: parseInt(process.env.FINANCE_ACTUAL_MONTHS || '12'),
+    staffing: getCapacityDefaults(),
+  };
+}
@@ -0,0 +1,26 @@
+import type { FiscalPeriodPattern } from '@/lib/utils/fiscal-calendar';
+
+export interface FiscalCalendarConfig {
+  /** Day weeks start on, 0 for Sunday to 6 for Saturday */
+  weekStart: number;
+  /** Calendar months, or 4-4-5 style periods of whole weeks per quarter */
+  pattern: FiscalPeriodPattern;
+  /** Calendar month, 1 to 12, a fiscal year nominally starts in; week patterns start on the week start day nearest its 1st */
+  yearStartMonth: number;
+}
+
+const PATTERNS: FiscalPeriodPattern[] = ['calendar', '4-4-5', '4-5-4', '5-4-4'];
+
+function inRange(value: number, min: number, max: number, fallback: number): number {
+  return Number.isInteger(value) && value >= min && value <= max ? value : fallback;
+}
+
+export function getFiscalCalendarConfig(): FiscalCalendarConfig {
+  const pattern = process.env.FISCAL_PERIOD_PATTERN as FiscalPeriodPattern | undefined;
+
+  return {
+    weekStart: inRange(parseInt(process.env.FISCAL_WEEK_START || '1'), 0, 6, 1),
+    pattern: pattern && PATTERNS.includes(pattern) ? pattern : 'calendar',
+    yearStartMonth: inRange(parseInt(process.env.FISCAL_YEAR_START_MONTH || '1'), 1, 12, 1),
+  };
+}
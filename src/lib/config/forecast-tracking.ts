@@ -0,0 +1,19 @@
+export interface ForecastTrackingConfig {
+  /** Outcomes for periods starting within this many days count as recent */
+  recentDays: number;
+  /** Recent sMAPE above this, in percent, raises an alert */
+  errorThreshold: number;
+  /** Recent sMAPE this many times the client's baseline also raises an alert */
+  degradationRatio: number;
+  /** Fewest outcomes in a window before it is judged */
+  minOutcomes: number;
+}
+
+export function getForecastTrackingConfig(): ForecastTrackingConfig {
+  return {
+    recentDays: parseInt(process.env.FORECAST_DECAY_RECENT_DAYS || '28'),
+    errorThreshold: parseFloat(process.env.FORECAST_DECAY_ERROR_THRESHOLD || '30'),
+    degradationRatio: parseFloat(process.env.FORECAST_DECAY_RATIO || '1.5'),
+    minOutcomes: parseInt(process.env.FORECAST_DECAY_MIN_OUTCOMES || '5'),
+  };
+}
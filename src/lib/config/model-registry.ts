@@ -0,0 +1,36 @@
+import { isUsingDatabase } from './data-source';
+
+export type ModelRegistryStoreType = 'postgres' | 'filesystem' | 'none';
+
+export interface ModelRegistryConfig {
+  store: ModelRegistryStoreType;
+  /** Directory for the filesystem store, relative to the working directory */
+  directory: string;
+  /** Unpinned models older than this are retrained */
+  maxAgeHours: number;
+}
+
+export function getModelRegistryConfig(): ModelRegistryConfig {
+  const store = (process.env.MODEL_REGISTRY_STORE as ModelRegistryStoreType) ||
+    (isUsingDatabase() ? 'postgres' : 'filesystem');
+
+  return {
+    store,
+    directory: process.env.MODEL_REGISTRY_DIR || '.model-registry',
+    maxAgeHours: parseInt(process.env.MODEL_REGISTRY_MAX_AGE_HOURS || '24'),
+  };
+}
+
+export function validateModelRegistryConfig(config: ModelRegistryConfig): string[] {
+  const errors: string[] = [];
+
+  if (!['postgres', 'filesystem', 'none'].includes(config.store)) {
+    errors.push(`Unsupported model registry store: ${config.store}`);
+  }
+
+  if (!Number.isFinite(config.maxAgeHours) || config.maxAgeHours < 0) {
+    errors.push('Model registry max age must be a non-negative number of hours');
+  }
+
+  return errors;
+}
@@ -0,0 +1,25 @@
+export interface PredictionJobConfig {
+  /** Worker threads training models at the same time in this process */
+  concurrency: number;
+  /** Running jobs not finished after this long are assumed lost and requeued */
+  staleAfterMinutes: number;
+  /** A job's worker is stopped and the job failed after this long; kept below staleAfterMinutes */
+  timeoutMinutes: number;
+  /** Attempts before a repeatedly lost job is failed */
+  maxAttempts: number;
+  /** How often the status stream checks a job */
+  pollIntervalMs: number;
+}
+
+export function getPredictionJobConfig(): PredictionJobConfig {
+  const staleAfterMinutes = parseInt(process.env.PREDICTION_JOB_STALE_MINUTES || '30');
+
+  return {
+    concurrency: Math.max(1, parseInt(process.env.PREDICTION_WORKER_CONCURRENCY || '1')),
+    staleAfterMinutes,
+    // A job still running when it turns stale would be started a second time elsewhere
+    timeoutMinutes: Math.min(parseInt(process.env.PREDICTION_JOB_TIMEOUT_MINUTES || '20'), staleAfterMinutes - 1),
+    maxAttempts: parseInt(process.env.PREDICTION_JOB_MAX_ATTEMPTS || '2'),
+    pollIntervalMs: parseInt(process.env.PREDICTION_JOB_POLL_MS || '1000'),
+  };
+}
@@ -0,0 +1,16 @@
+export interface RiskScoringConfig {
+  /** Scores at or above this (0-100) are high risk */
+  highScore: number;
+  /** Scores at or above this (0-100) are medium risk */
+  mediumScore: number;
+  /** Months compared with the months before them for volume growth */
+  growthMonths: number;
+}
+
+export function getRiskScoringConfig(): RiskScoringConfig {
+  return {
+    highScore: parseFloat(process.env.RISK_HIGH_SCORE || '50'),
+    mediumScore: parseFloat(process.env.RISK_MEDIUM_SCORE || '20'),
+    growthMonths: parseInt(process.env.RISK_GROWTH_MONTHS || '3'),
+  };
+}
@@ -0,0 +1,32 @@
+import type { SegmentationMethod } from '@/types/segment';
+
+export interface SegmentationConfig {
+  /** Method used when a request does not name one */
+  method: SegmentationMethod;
+  /** Number of k-means clusters when a request does not name one */
+  clusters: number;
+  /** Recent months the volume level and growth are measured over */
+  recentMonths: number;
+  /** Average monthly volume at or above which a client is high and below which it is low volume */
+  highVolume: number;
+  lowVolume: number;
+  /** Monthly growth, as a fraction, beyond which a client is growing or declining */
+  growthThreshold: number;
+  /** Seasonal profile range at or above which a client is seasonal */
+  seasonalityThreshold: number;
+  /** Overall AHT in seconds at or above which a client is long AHT */
+  longAHT: number;
+}
+
+export function getSegmentationConfig(): SegmentationConfig {
+  return {
+    method: process.env.SEGMENT_METHOD === 'kmeans' ? 'kmeans' : 'tiers',
+    clusters: parseInt(process.env.SEGMENT_CLUSTERS || '4'),
+    recentMonths: parseInt(process.env.SEGMENT_RECENT_MONTHS || '12'),
+    highVolume: parseFloat(process.env.SEGMENT_HIGH_VOLUME || '1000'),
+    lowVolume: parseFloat(process.env.SEGMENT_LOW_VOLUME || '100'),
+    growthThreshold: parseFloat(process.env.SEGMENT_GROWTH_THRESHOLD || '0.02'),
+    seasonalityThreshold: parseFloat(process.env.SEGMENT_SEASONALITY_THRESHOLD || '0.3'),
+    longAHT: parseFloat(process.env.SEGMENT_LONG_AHT || '600'),
+  };
+}
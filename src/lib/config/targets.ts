@@ -0,0 +1,16 @@
+export interface TargetConfig {
+  /** Completed months, before the current one, whose actuals are compared with targets */
+  lookbackMonths: number;
+  /** Months, from the current one, whose forecasts are compared with targets */
+  horizonMonths: number;
+  /** Miss, as a percentage of the target, tolerated before a target counts as breached */
+  tolerancePercent: number;
+}
+
+export function getTargetConfig(): TargetConfig {
+  return {
+    lookbackMonths: parseInt(process.env.TARGET_LOOKBACK_MONTHS || '6'),
+    horizonMonths: parseInt(process.env.TARGET_HORIZON_MONTHS || '3'),
+    tolerancePercent: parseFloat(process.env.TARGET_TOLERANCE_PERCENT || '0'),
+  };
+}
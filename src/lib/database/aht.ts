@@ -0,0 +1,148 @@
+import { Pool } from 'pg'
+import { getDatabasePool } from './connection'
+import { AHTData, AHTDataset, AHTImportSummary } from '@/types/aht'
+import { AHTImport } from '@/lib/validations/schemas'
+import { ahtMonthKeyFromYearMonth, ahtMonthKeyToDate, sortAHTMonths } from '@/lib/utils/aht-import'
+
+interface AHTVolumeRow {
+  client_name: string
+  overall_aht: string
+  review_aht: string
+  validation_aht: string
+  month: string | null // YYYY-MM
+  volume: number | null
+  month_review_aht: string | null
+  month_validation_aht: string | null
+}
+
+export class AHTService {
+  private pool: Pool
+
+  constructor() {
+    this.pool = getDatabasePool()
+  }
+
+  /**
+   * Every AHT client with its monthly volumes and handling times, and the months that have data
+   */
+  async getAHTData(): Promise<AHTDataset> {
+    const result = await this.pool.query(
+      `SELECT c.client_name, c.overall_aht, c.review_aht, c.validation_aht,
+              to_char(v.month, 'YYYY-MM') AS month, v.volume,
+              v.review_aht AS month_review_aht, v.validation_aht AS month_validation_aht
+       FROM aht_clients c
+       LEFT JOIN aht_monthly_volumes v ON v.aht_client_id = c.id
+       ORDER BY c.client_name, v.month`
+    )
+
+    const clients = new Map<string, AHTData>()
+    const months = new Set<string>()
+
+    result.rows.forEach(row => {
+      const {
+        client_name, overall_aht, review_aht, validation_aht,
+        month, volume, month_review_aht, month_validation_aht
+      } = row as AHTVolumeRow
+
+      let client = clients.get(client_name)
+      if (!client) {
+        client = {
+          client: client_name,
+          overallAHT: Number(overall_aht),
+          reviewAHT: Number(review_aht),
+          validationAHT: Number(validation_aht),
+          monthlyData: {},
+          monthlyAHT: {},
+          grandTotal: 0
+        }
+        clients.set(client_name, client)
+      }
+
+      if (month !== null && volume !== null) {
+        const key = ahtMonthKeyFromYearMonth(month)
+        client.monthlyData[key] = volume
+        client.grandTotal += volume
+        months.add(key)
+
+        if (month_review_aht !== null && month_validation_aht !== null) {
+          client.monthlyAHT![key] = {
+            reviewAHT: Number(month_review_aht),
+            validationAHT: Number(month_validation_aht)
+          }
+        }
+      }
+    })
+
+    return {
+      clients: Array.from(clients.values()),
+      months: sortAHTMonths(Array.from(months))
+    }
+  }
+
+  /**
+   * Upsert client AHT values and their monthly volumes and handling times.
+   * Months not in the import are left as they are, so a spreadsheet holding
+   * only the latest month can be imported on its own; a month's volume or AHT
+   * missing from the import keeps its stored value.
+   */
+  async importAHTData(data: AHTImport): Promise<AHTImportSummary> {
+    const client = await this.pool.connect()
+
+    try {
+      await client.query('BEGIN')
+
+      const months = new Set<string>()
+      let volumes = 0
+
+      for (const record of data.clients) {
+        const clientResult = await client.query(
+          `INSERT INTO aht_clients (client_name, overall_aht, review_aht, validation_aht)
+           VALUES ($1, $2, $3, $4)
+           ON CONFLICT (client_name) DO UPDATE SET
+             overall_aht = EXCLUDED.overall_aht,
+             review_aht = EXCLUDED.review_aht,
+             validation_aht = EXCLUDED.validation_aht,
+             updated_at = NOW()
+           RETURNING id`,
+          [record.client, record.overallAHT, record.reviewAHT, record.validationAHT]
+        )
+        const ahtClientId = clientResult.rows[0].id
+
+        const recordMonths = new Set([
+          ...Object.keys(record.monthlyData),
+          ...Object.keys(record.monthlyAHT ?? {})
+        ])
+
+        for (const month of recordMonths) {
+          const volume = record.monthlyData[month] ?? null
+          const monthAHT = record.monthlyAHT?.[month]
+          await client.query(
+            `INSERT INTO aht_monthly_volumes (aht_client_id, month, volume, review_aht, validation_aht)
+             VALUES ($1, $2, COALESCE($3, 0), $4, $5)
+             ON CONFLICT (aht_client_id, month) DO UPDATE SET
+               volume = COALESCE($3, aht_monthly_volumes.volume),
+               review_aht = COALESCE($4, aht_monthly_volumes.review_aht),
+               validation_aht = COALESCE($5, aht_monthly_volumes.validation_aht),
+               updated_at = NOW()`,
+            [ahtClientId, ahtMonthKeyToDate(month), volume, monthAHT?.reviewAHT ?? null, monthAHT?.validationAHT ?? null]
+          )
+          months.add(month)
+          volumes++
+        }
+      }
+
+      await client.query('COMMIT')
+
+      return {
+        clients: data.clients.length,
+        months: months.size,
+        volumes
+      }
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import { Pool } from 'pg'
+import { getDatabasePool } from './connection'
+import { AnomalyGranularity, AnomalySeverity, VolumeAnomaly } from '@/types/anomaly'
+import { AnomalyQuery } from '@/lib/validations/schemas'
+
+interface VolumeAnomalyRow {
+  id: string
+  client_id: string
+  client_name: string
+  granularity: AnomalyGranularity
+  period_start: Date
+  actual_count: number
+  expected_count: number
+  z_score: string
+  severity: AnomalySeverity
+  direction: VolumeAnomaly['direction']
+  hints: string[]
+  detected_at: Date
+}
+
+function toVolumeAnomaly(row: VolumeAnomalyRow): VolumeAnomaly {
+  return {
+    id: row.id,
+    clientId: row.client_id,
+    clientName: row.client_name,
+    granularity: row.granularity,
+    periodStart: row.period_start,
+    actualCount: row.actual_count,
+    expectedCount: row.expected_count,
+    zScore: Number(row.z_score),
+    severity: row.severity,
+    direction: row.direction,
+    hints: row.hints,
+    detectedAt: row.detected_at
+  }
+}
+
+export class AnomalyService {
+  private pool: Pool
+
+  constructor() {
+    this.pool = getDatabasePool()
+  }
+
+  /**
+   * Stored anomalies, most recent period first
+   */
+  async getAnomalies(params: Partial<AnomalyQuery> = {}): Promise<VolumeAnomaly[]> {
+    const whereConditions: string[] = []
+    const queryParams: (string | number | Date)[] = []
+    let paramIndex = 1
+
+    if (params.clientId) {
+      whereConditions.push(`a.client_id = $${paramIndex}`)
+      queryParams.push(params.clientId)
+      paramIndex++
+    }
+
+    if (params.granularity) {
+      whereConditions.push(`a.granularity = $${paramIndex}`)
+      queryParams.push(params.granularity)
+      paramIndex++
+    }
+
+    if (params.severity) {
+      whereConditions.push(`a.severity = $${paramIndex}`)
+      queryParams.push(params.severity)
+      paramIndex++
+    }
+
+    if (params.startDate) {
+      whereConditions.push(`a.period_start >= $${paramIndex}`)
+      queryParams.push(params.startDate)
+      paramIndex++
+    }
+
+    if (params.endDate) {
+      whereConditions.push(`a.period_start <= $${paramIndex}`)
+      queryParams.push(params.endDate)
+      paramIndex++
+    }
+
+    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : ''
+    queryParams.push(params.limit ?? 200)
+
+    const result = await this.pool.query(
+      `SELECT a.*, c.name AS client_name
+       FROM volume_anomalies a
+       JOIN clients c ON a.client_id = c.id
+       ${whereClause}
+       ORDER BY a.period_start DESC, c.name ASC
+       LIMIT $${paramIndex}`,
+      queryParams
+    )
+
+    return result.rows.map(row => toVolumeAnomaly(row as VolumeAnomalyRow))
+  }
+
+  /**
+   * Replace the anomalies stored for the given clients from `since` onwards,
+   * so periods a re-run no longer flags (e.g. after a late import) are
+   * cleared. Returns the number of anomalies stored.
+   */
+  async replaceAnomalies(clientIds: string[], since: Date, anomalies: VolumeAnomaly[]): Promise<number> {
+    if (clientIds.length === 0) {
+      return 0
+    }
+
+    const client = await this.pool.connect()
+
+    try {
+      await client.query('BEGIN')
+
+      await client.query(
+        'DELETE FROM volume_anomalies WHERE client_id = ANY($1::uuid[]) AND period_start >= $2',
+        [clientIds, since]
+      )
+
+      for (const anomaly of anomalies) {
+        await client.query(
+          `INSERT INTO volume_anomalies (
+             client_id, granularity, period_start, actual_count, expected_count,
+             z_score, severity, direction, hints
+           )
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+           ON CONFLICT (client_id, granularity, period_start) DO UPDATE SET
+             actual_count = EXCLUDED.actual_count,
+             expected_count = EXCLUDED.expected_count,
+             z_score = EXCLUDED.z_score,
+             severity = EXCLUDED.severity,
+             direction = EXCLUDED.direction,
+             hints = EXCLUDED.hints,
+             detected_at = NOW()`,
+          [
+            anomaly.clientId,
+            anomaly.granularity,
+            anomaly.periodStart,
+            anomaly.actualCount,
+            anomaly.expectedCount,
+            anomaly.zScore,
+            anomaly.severity,
+            anomaly.direction,
+            JSON.stringify(anomaly.hints)
+          ]
+        )
+      }
+
+      await client.query('COMMIT')
+
+      return anomalies.length
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import { Pool } from 'pg'
+import { getDatabasePool } from './connection'
+import { BacktestRun, BacktestHorizonMetrics, BacktestMetrics } from '@/types/backtest'
+import type { BacktestReport } from '@/lib/services/backtest-service'
+
+// pg returns DECIMAL columns as strings
+function toNumber(value: string | number | null | undefined): number | null {
+  return value === null || value === undefined ? null : Number(value)
+}
+
+function toMetrics(row: Record<keyof BacktestMetrics, string | number | null>): BacktestMetrics {
+  return {
+    mape: toNumber(row.mape),
+    smape: toNumber(row.smape),
+    mase: toNumber(row.mase),
+    rmse: toNumber(row.rmse),
+    coverage: toNumber(row.coverage)
+  }
+}
+
+export class BacktestService {
+  private pool: Pool
+
+  constructor() {
+    this.pool = getDatabasePool()
+  }
+
+  /**
+   * Store every model in a backtest report as its own run, with per-horizon metrics
+   */
+  async saveBacktestReport(report: BacktestReport, clientId: string, createdBy?: string): Promise<string[]> {
+    const client = await this.pool.connect()
+
+    try {
+      await client.query('BEGIN')
+
+      const runIds: string[] = []
+
+      for (const model of report.models) {
+        const runQuery = `
+          INSERT INTO backtest_runs (
+            client_id, prediction_type, model_type, window_type, horizon, initial_window, step,
+            origins, failed_origins, confidence_level, season_length,
+            mape, smape, mase, rmse, coverage, is_recommended, created_by
+          )
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+          RETURNING id
+        `
+
+        const runResult = await client.query(runQuery, [
+          clientId,
+          report.predictionType,
+          model.modelType,
+          report.windowType,
+          report.horizon,
+          report.initialWindow,
+          report.step,
+          model.origins,
+          model.failedOrigins,
+          report.confidenceLevel,
+          report.seasonLength,
+          model.overall.mape,
+          model.overall.smape,
+          model.overall.mase,
+          model.overall.rmse,
+          model.overall.coverage,
+          model.modelType === report.recommendedModel,
+          createdBy || null
+        ])
+
+        const runId = runResult.rows[0].id
+
+        for (const horizon of model.horizons) {
+          await client.query(
+            `INSERT INTO backtest_horizon_metrics (backtest_run_id, horizon, sample_count, mape, smape, mase, rmse, coverage)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+            [runId, horizon.horizon, horizon.count, horizon.mape, horizon.smape, horizon.mase, horizon.rmse, horizon.coverage]
+          )
+        }
+
+        runIds.push(runId)
+      }
+
+      await client.query('COMMIT')
+
+      return runIds
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+
+  async getBacktestRuns(clientId?: string, predictionType?: string, limit: number = 50): Promise<BacktestRun[]> {
+    const whereConditions: string[] = []
+    const queryParams: (string | number)[] = []
+    let paramIndex = 1
+
+    if (clientId) {
+      whereConditions.push(`b.client_id = $${paramIndex}`)
+      queryParams.push(clientId)
+      paramIndex++
+    }
+
+    if (predictionType) {
+      whereConditions.push(`b.prediction_type = $${paramIndex}`)
+      queryParams.push(predictionType)
+      paramIndex++
+    }
+
+    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : ''
+
+    const query = `
+      SELECT
+        b.*, c.name as client_name
+      FROM backtest_runs b
+      JOIN clients c ON b.client_id = c.id
+      ${whereClause}
+      ORDER BY b.created_at DESC, b.model_type ASC
+      LIMIT $${paramIndex}
+    `
+
+    const result = await this.pool.query(query, [...queryParams, limit])
+
+    if (result.rows.length === 0) {
+      return []
+    }
+
+    const horizonResult = await this.pool.query(
+      `SELECT * FROM backtest_horizon_metrics WHERE backtest_run_id = ANY($1) ORDER BY horizon ASC`,
+      [result.rows.map(row => row.id)]
+    )
+
+    const horizonsByRun = new Map<string, BacktestHorizonMetrics[]>()
+    for (const row of horizonResult.rows) {
+      const horizons = horizonsByRun.get(row.backtest_run_id) || []
+      horizons.push({ horizon: row.horizon, sampleCount: row.sample_count, ...toMetrics(row) })
+      horizonsByRun.set(row.backtest_run_id, horizons)
+    }
+
+    return result.rows.map(row => ({
+      id: row.id,
+      clientId: row.client_id,
+      clientName: row.client_name,
+      predictionType: row.prediction_type,
+      modelType: row.model_type,
+      windowType: row.window_type,
+      horizon: row.horizon,
+      initialWindow: row.initial_window,
+      step: row.step,
+      origins: row.origins,
+      failedOrigins: row.failed_origins,
+      confidenceLevel: Number(row.confidence_level),
+      seasonLength: row.season_length,
+      isRecommended: row.is_recommended,
+      ...toMetrics(row),
+      horizons: horizonsByRun.get(row.id) || [],
+      createdAt: row.created_at,
+      createdBy: row.created_by
+    }))
+  }
+}
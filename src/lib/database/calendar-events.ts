@@ -0,0 +1,258 @@
+import { Pool } from 'pg'
+import { getDatabasePool } from './connection'
+import { CalendarEvent, CalendarEventType } from '@/types/calendar'
+import { CalendarEventCreate, CalendarEventUpdate, CalendarEventQuery } from '@/lib/validations/schemas'
+import type { Holiday, HolidayCountry } from '@/lib/utils/holidays'
+import type { ForecastEvent } from '@/lib/utils/event-regressors'
+
+const EVENT_COLUMNS = `
+  e.id, e.name, e.event_type, e.start_date, e.end_date, e.client_id, c.name AS client_name,
+  e.country_code, e.notes, e.created_at, e.updated_at, e.created_by
+`
+
+interface CalendarEventRow {
+  id: string
+  name: string
+  event_type: CalendarEventType
+  start_date: Date
+  end_date: Date
+  client_id: string | null
+  client_name: string | null
+  country_code: string | null
+  notes: string | null
+  created_at: Date
+  updated_at: Date
+  created_by: string | null
+}
+
+function toCalendarEvent(row: CalendarEventRow): CalendarEvent {
+  return {
+    id: row.id,
+    name: row.name,
+    eventType: row.event_type,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    clientId: row.client_id ?? undefined,
+    clientName: row.client_name ?? undefined,
+    countryCode: row.country_code ?? undefined,
+    notes: row.notes ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    createdBy: row.created_by ?? undefined
+  }
+}
+
+export class CalendarEventService {
+  private pool: Pool
+
+  constructor() {
+    this.pool = getDatabasePool()
+  }
+
+  /**
+   * Events overlapping the requested range. A client filter also returns
+   * events that apply to every client.
+   */
+  async getEvents(params: CalendarEventQuery = {}): Promise<CalendarEvent[]> {
+    const whereConditions: string[] = []
+    const queryParams: (string | Date)[] = []
+    let paramIndex = 1
+
+    if (params.startDate) {
+      whereConditions.push(`e.end_date >= $${paramIndex}`)
+      queryParams.push(params.startDate)
+      paramIndex++
+    }
+
+    if (params.endDate) {
+      whereConditions.push(`e.start_date <= $${paramIndex}`)
+      queryParams.push(params.endDate)
+      paramIndex++
+    }
+
+    if (params.clientId) {
+      whereConditions.push(`(e.client_id = $${paramIndex} OR e.client_id IS NULL)`)
+      queryParams.push(params.clientId)
+      paramIndex++
+    }
+
+    if (params.eventType) {
+      whereConditions.push(`e.event_type = $${paramIndex}`)
+      queryParams.push(params.eventType)
+      paramIndex++
+    }
+
+    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : ''
+
+    const result = await this.pool.query(
+      `SELECT ${EVENT_COLUMNS}
+       FROM calendar_events e
+       LEFT JOIN clients c ON e.client_id = c.id
+       ${whereClause}
+       ORDER BY e.start_date ASC, e.name ASC`,
+      queryParams
+    )
+
+    return result.rows.map(row => toCalendarEvent(row as CalendarEventRow))
+  }
+
+  /**
+   * Every stored event, in the form the prediction engine takes as regressors
+   */
+  async getForecastEvents(): Promise<ForecastEvent[]> {
+    const events = await this.getEvents()
+
+    return events.map(event => ({
+      eventType: event.eventType,
+      startDate: event.startDate,
+      endDate: event.endDate,
+      clientName: event.clientName
+    }))
+  }
+
+  async getEventById(id: string): Promise<CalendarEvent | null> {
+    const result = await this.pool.query(
+      `SELECT ${EVENT_COLUMNS}
+       FROM calendar_events e
+       LEFT JOIN clients c ON e.client_id = c.id
+       WHERE e.id = $1`,
+      [id]
+    )
+
+    if (result.rows.length === 0) {
+      return null
+    }
+
+    return toCalendarEvent(result.rows[0] as CalendarEventRow)
+  }
+
+  /**
+   * Client ID for an event, looking the client up by name when only the name is given
+   */
+  async resolveClientId(clientId?: string | null, clientName?: string): Promise<string | null | undefined> {
+    if (clientId !== undefined || !clientName) {
+      return clientId
+    }
+
+    const result = await this.pool.query('SELECT id FROM clients WHERE name = $1', [clientName])
+    if (result.rows.length === 0) {
+      throw new Error(`Client not found: ${clientName}`)
+    }
+
+    return result.rows[0].id
+  }
+
+  async createEvent(data: CalendarEventCreate, createdBy?: string): Promise<CalendarEvent> {
+    const clientId = await this.resolveClientId(data.clientId, data.clientName)
+    const result = await this.pool.query(
+      `INSERT INTO calendar_events (name, event_type, start_date, end_date, client_id, notes, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING id`,
+      [
+        data.name,
+        data.eventType,
+        data.startDate,
+        data.endDate,
+        clientId || null,
+        data.notes || null,
+        createdBy || null
+      ]
+    )
+
+    return (await this.getEventById(result.rows[0].id)) as CalendarEvent
+  }
+
+  async updateEvent(id: string, data: CalendarEventUpdate): Promise<CalendarEvent | null> {
+    const existing = await this.getEventById(id)
+    if (!existing) {
+      return null
+    }
+
+    data = { ...data, clientId: await this.resolveClientId(data.clientId, data.clientName) }
+
+    const columns: [keyof CalendarEventUpdate, string][] = [
+      ['name', 'name'],
+      ['eventType', 'event_type'],
+      ['startDate', 'start_date'],
+      ['endDate', 'end_date'],
+      ['clientId', 'client_id'],
+      ['notes', 'notes']
+    ]
+
+    const updateFields: string[] = []
+    const queryParams: (string | Date | null)[] = []
+    let paramIndex = 1
+
+    for (const [key, column] of columns) {
+      if (data[key] !== undefined) {
+        updateFields.push(`${column} = $${paramIndex}`)
+        queryParams.push(data[key] ?? null)
+        paramIndex++
+      }
+    }
+
+    if (updateFields.length === 0) {
+      return existing
+    }
+
+    // A partial update must still leave a valid date range
+    const startDate = data.startDate ?? existing.startDate
+    const endDate = data.endDate ?? existing.endDate
+    if (new Date(endDate) < new Date(startDate)) {
+      throw new Error('End date must be on or after start date')
+    }
+
+    updateFields.push('updated_at = NOW()')
+    queryParams.push(id)
+
+    await this.pool.query(
+      `UPDATE calendar_events SET ${updateFields.join(', ')} WHERE id = $${paramIndex}`,
+      queryParams
+    )
+
+    return this.getEventById(id)
+  }
+
+  async deleteEvent(id: string): Promise<boolean> {
+    const result = await this.pool.query('DELETE FROM calendar_events WHERE id = $1', [id])
+    return (result.rowCount ?? 0) > 0
+  }
+
+  /**
+   * Store a country holiday set, skipping holidays that were already imported
+   */
+  async importHolidays(
+    countryCode: HolidayCountry,
+    holidays: Holiday[],
+    clientId?: string,
+    createdBy?: string
+  ): Promise<number> {
+    const client = await this.pool.connect()
+
+    try {
+      await client.query('BEGIN')
+
+      let imported = 0
+      for (const holiday of holidays) {
+        const result = await client.query(
+          `INSERT INTO calendar_events (name, event_type, start_date, end_date, client_id, country_code, created_by)
+           VALUES ($1, 'holiday', $2, $2, $3, $4, $5)
+           ON CONFLICT (country_code, name, start_date, (COALESCE(client_id, '00000000-0000-0000-0000-000000000000'::uuid)))
+             WHERE country_code IS NOT NULL
+           DO NOTHING`,
+          [holiday.name, holiday.date, clientId || null, countryCode, createdBy || null]
+        )
+        imported += result.rowCount ?? 0
+      }
+
+      await client.query('COMMIT')
+
+      return imported
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+}
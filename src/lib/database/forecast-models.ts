@@ -0,0 +1,190 @@
+import { Pool } from 'pg'
+import { getDatabasePool } from './connection'
+import type {
+  ModelRegistryKey,
+  ModelRegistryStore,
+  NewRegisteredModel,
+  RegisteredModel
+} from '@/lib/services/model-registry'
+
+const METADATA_COLUMNS = `
+  id, client_key, model_type, prediction_type, version,
+  normalization_mean, normalization_std, training_start, training_end, training_periods,
+  data_fingerprint, hyperparameters, metrics, is_pinned, created_at
+`
+
+interface ForecastModelRow {
+  id: string
+  client_key: string
+  model_type: string
+  prediction_type: 'daily' | 'weekly' | 'monthly'
+  version: number
+  normalization_mean: number
+  normalization_std: number
+  training_start: Date
+  training_end: Date
+  training_periods: number
+  data_fingerprint: string
+  hyperparameters: Record<string, unknown>
+  metrics: RegisteredModel['metrics']
+  is_pinned: boolean
+  created_at: Date
+}
+
+function toRegisteredModel(row: ForecastModelRow): RegisteredModel {
+  return {
+    id: row.id,
+    clientKey: row.client_key,
+    modelType: row.model_type,
+    predictionType: row.prediction_type,
+    version: row.version,
+    normalization: {
+      mean: row.normalization_mean,
+      std: row.normalization_std
+    },
+    trainingWindow: {
+      start: row.training_start,
+      end: row.training_end,
+      length: row.training_periods,
+      fingerprint: row.data_fingerprint
+    },
+    hyperparameters: row.hyperparameters,
+    metrics: row.metrics,
+    pinned: row.is_pinned,
+    createdAt: row.created_at
+  }
+}
+
+/**
+ * Postgres storage for the forecast model registry
+ */
+export class ForecastModelService implements ModelRegistryStore {
+  private pool: Pool
+
+  constructor() {
+    this.pool = getDatabasePool()
+  }
+
+  async saveModel(model: NewRegisteredModel): Promise<RegisteredModel> {
+    const client = await this.pool.connect()
+
+    try {
+      await client.query('BEGIN')
+
+      // Serialize version numbering per key
+      await client.query(
+        'SELECT pg_advisory_xact_lock(hashtext($1))',
+        [`${model.clientKey}:${model.modelType}:${model.predictionType}`]
+      )
+
+      const versionResult = await client.query(
+        `SELECT COALESCE(MAX(version), 0) + 1 AS next_version
+         FROM forecast_models
+         WHERE client_key = $1 AND model_type = $2 AND prediction_type = $3`,
+        [model.clientKey, model.modelType, model.predictionType]
+      )
+
+      const query = `
+        INSERT INTO forecast_models (
+          client_key, model_type, prediction_type, version,
+          normalization_mean, normalization_std, training_start, training_end, training_periods,
+          data_fingerprint, hyperparameters, metrics, model_topology, weight_specs, weight_data
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+        RETURNING ${METADATA_COLUMNS}
+      `
+
+      const result = await client.query(query, [
+        model.clientKey,
+        model.modelType,
+        model.predictionType,
+        versionResult.rows[0].next_version,
+        model.normalization.mean,
+        model.normalization.std,
+        model.trainingWindow.start,
+        model.trainingWindow.end,
+        model.trainingWindow.length,
+        model.trainingWindow.fingerprint,
+        JSON.stringify(model.hyperparameters),
+        JSON.stringify(model.metrics),
+        JSON.stringify(model.artifacts.modelTopology),
+        JSON.stringify(model.artifacts.weightSpecs),
+        Buffer.from(model.artifacts.weightData, 'base64')
+      ])
+
+      await client.query('COMMIT')
+
+      return toRegisteredModel(result.rows[0] as ForecastModelRow)
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+
+  async listModels(key: ModelRegistryKey): Promise<RegisteredModel[]> {
+    const result = await this.pool.query(
+      `SELECT ${METADATA_COLUMNS}
+       FROM forecast_models
+       WHERE client_key = $1 AND model_type = $2 AND prediction_type = $3
+       ORDER BY version DESC`,
+      [key.clientKey, key.modelType, key.predictionType]
+    )
+
+    return result.rows.map(row => toRegisteredModel(row as ForecastModelRow))
+  }
+
+  async getModel(key: ModelRegistryKey, version: number): Promise<RegisteredModel | null> {
+    const result = await this.pool.query(
+      `SELECT ${METADATA_COLUMNS}, model_topology, weight_specs, weight_data
+       FROM forecast_models
+       WHERE client_key = $1 AND model_type = $2 AND prediction_type = $3 AND version = $4`,
+      [key.clientKey, key.modelType, key.predictionType, version]
+    )
+
+    if (result.rows.length === 0) {
+      return null
+    }
+
+    const row = result.rows[0]
+
+    return {
+      ...toRegisteredModel(row as ForecastModelRow),
+      artifacts: {
+        modelTopology: row.model_topology,
+        weightSpecs: row.weight_specs,
+        weightData: (row.weight_data as Buffer).toString('base64')
+      }
+    }
+  }
+
+  async setPinnedVersion(key: ModelRegistryKey, version: number | null): Promise<void> {
+    const client = await this.pool.connect()
+
+    try {
+      await client.query('BEGIN')
+
+      await client.query(
+        `UPDATE forecast_models SET is_pinned = FALSE
+         WHERE client_key = $1 AND model_type = $2 AND prediction_type = $3 AND is_pinned`,
+        [key.clientKey, key.modelType, key.predictionType]
+      )
+
+      if (version !== null) {
+        await client.query(
+          `UPDATE forecast_models SET is_pinned = TRUE
+           WHERE client_key = $1 AND model_type = $2 AND prediction_type = $3 AND version = $4`,
+          [key.clientKey, key.modelType, key.predictionType, version]
+        )
+      }
+
+      await client.query('COMMIT')
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+}
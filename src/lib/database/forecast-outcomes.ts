@@ -0,0 +1,123 @@
+import { Pool } from 'pg'
+import { getDatabasePool } from './connection'
+import { RealizedOutcome } from '@/types/forecast-tracking'
+
+interface ForecastOutcomeRow {
+  prediction_id: string
+  client_id: string
+  client_name: string
+  prediction_type: RealizedOutcome['predictionType']
+  model_type: string
+  horizon: number
+  period_start: Date
+  predicted_count: number
+  confidence_lower: number
+  confidence_upper: number
+  actual_count: number
+}
+
+export class ForecastOutcomeService {
+  private pool: Pool
+
+  constructor() {
+    this.pool = getDatabasePool()
+  }
+
+  /**
+   * Compare matured prediction periods with the transcripts recorded for them.
+   * A period has matured once it has ended and the client has data up to its
+   * last day, so a late import is not mistaken for zero volume. Periods end
+   * where the fiscal calendar put them when they were forecast. Periods that
+   * were already recorded are skipped; returns the number of new outcomes.
+   */
+  async recordMaturedOutcomes(asOf: Date = new Date()): Promise<number> {
+    const result = await this.pool.query(
+      `WITH periods AS (
+         SELECT
+           d.id, d.prediction_id, p.client_id, p.prediction_type, p.model_type,
+           ROW_NUMBER() OVER (PARTITION BY d.prediction_id ORDER BY d.predicted_date) AS horizon,
+           d.predicted_date AS period_start,
+           COALESCE(d.period_end, (d.predicted_date + CASE p.prediction_type
+             WHEN 'daily' THEN INTERVAL '1 day'
+             WHEN 'weekly' THEN INTERVAL '7 days'
+             ELSE INTERVAL '1 month'
+           END)::date) AS period_end,
+           d.predicted_count, d.confidence_lower, d.confidence_upper
+         FROM prediction_details d
+         JOIN predictions p ON d.prediction_id = p.id
+         WHERE p.client_id IS NOT NULL
+       )
+       INSERT INTO forecast_outcomes (
+         prediction_detail_id, prediction_id, client_id, prediction_type, model_type, horizon,
+         period_start, period_end, predicted_count, confidence_lower, confidence_upper, actual_count
+       )
+       SELECT
+         pr.id, pr.prediction_id, pr.client_id, pr.prediction_type, pr.model_type, pr.horizon,
+         pr.period_start, pr.period_end, pr.predicted_count, pr.confidence_lower, pr.confidence_upper,
+         COALESCE((
+           SELECT SUM(t.transcript_count)
+           FROM transcripts t
+           WHERE t.client_id = pr.client_id AND t.date >= pr.period_start AND t.date < pr.period_end
+         ), 0)
+       FROM periods pr
+       WHERE pr.period_end <= $1::date
+         AND NOT EXISTS (SELECT 1 FROM forecast_outcomes o WHERE o.prediction_detail_id = pr.id)
+         AND EXISTS (
+           SELECT 1 FROM transcripts t
+           WHERE t.client_id = pr.client_id AND t.date >= pr.period_end - 1
+         )
+       ON CONFLICT (prediction_detail_id) DO NOTHING`,
+      [asOf]
+    )
+
+    return result.rowCount ?? 0
+  }
+
+  /**
+   * Recorded outcomes, oldest period first
+   */
+  async getOutcomes(clientId?: string, since?: Date): Promise<RealizedOutcome[]> {
+    const whereConditions: string[] = []
+    const queryParams: (string | Date)[] = []
+    let paramIndex = 1
+
+    if (clientId) {
+      whereConditions.push(`o.client_id = $${paramIndex}`)
+      queryParams.push(clientId)
+      paramIndex++
+    }
+
+    if (since) {
+      whereConditions.push(`o.period_start >= $${paramIndex}`)
+      queryParams.push(since)
+      paramIndex++
+    }
+
+    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : ''
+
+    const result = await this.pool.query(
+      `SELECT
+         o.prediction_id, o.client_id, c.name AS client_name, o.prediction_type, o.model_type,
+         o.horizon, o.period_start, o.predicted_count, o.confidence_lower, o.confidence_upper, o.actual_count
+       FROM forecast_outcomes o
+       JOIN clients c ON o.client_id = c.id
+       ${whereClause}
+       ORDER BY o.period_start ASC, o.horizon ASC`,
+      queryParams
+    )
+
+    return result.rows.map((row: ForecastOutcomeRow) => ({
+      predictionId: row.prediction_id,
+      clientId: row.client_id,
+      clientName: row.client_name,
+      predictionType: row.prediction_type,
+      modelType: row.model_type,
+      horizon: Number(row.horizon),
+      periodStart: row.period_start,
+      predictedCount: row.predicted_count,
+      confidenceLower: row.confidence_lower,
+      confidenceUpper: row.confidence_upper,
+      actualCount: row.actual_count
+    }))
+  }
+}
@@ -0,0 +1,440 @@
+import { Pool, PoolClient } from 'pg'
+import { getDatabasePool } from './connection'
+import { TranscriptService } from './transcripts'
+import { ImportResult, TranscriptData } from '@/types/transcript'
+import {
+  ConflictResolutionChoice,
+  ImportBatch,
+  ImportBatchDetail,
+  ImportConflict,
+  ImportRevertResult,
+  MergedImportData,
+  StagedImportRow
+} from '@/types/import-batch'
+import { conflictTypeOf, generateDifferences, resolveImport, ResolvedImportRow } from '@/lib/utils/import-conflicts'
+
+/**
+ * Thrown when a batch is not in a state that allows the requested change,
+ * such as applying a batch twice or reverting one that was never applied
+ */
+export class ImportBatchStateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImportBatchStateError'
+  }
+}
+
+export interface StageBatchInput {
+  fileName: string
+  totalRows: number
+  /** Rows that could not be parsed */
+  errors: ImportResult['errors']
+  rows: StagedImportRow[]
+}
+
+export interface ConflictResolutionInput {
+  conflictId: string
+  resolution: ConflictResolutionChoice
+  mergedData?: MergedImportData
+}
+
+export interface AppliedImport {
+  result: ImportResult
+  /** Rows written, by insert or replacement */
+  rows: ResolvedImportRow[]
+  skipped: number
+}
+
+interface ImportBatchRow {
+  id: string
+  file_name: string
+  status: ImportBatch['status']
+  total_rows: number
+  errors: ImportResult['errors'] | null
+  result: ImportResult | null
+  created_at: Date
+  created_by: string | null
+  applied_at: Date | null
+  applied_by: string | null
+  reverted_at: Date | null
+  reverted_by: string | null
+  staged_rows: string
+  conflict_count: string
+  unresolved_count: string
+}
+
+interface StagedRow {
+  row_number: number
+  client_name: string
+  date: Date
+  transcript_count: number
+  transcript_type: string | null
+  notes: string | null
+}
+
+// Existing records are snapshotted as JSON, so their dates come back as strings
+type ExistingRecordSnapshot = Omit<TranscriptData, 'date' | 'createdAt' | 'updatedAt'> & {
+  date: string
+  createdAt: string
+  updatedAt: string
+}
+
+const SELECT_BATCHES = `
+  SELECT b.id, b.file_name, b.status, b.total_rows, b.errors, b.result,
+    b.created_at, b.created_by, b.applied_at, b.applied_by, b.reverted_at, b.reverted_by,
+    (SELECT COUNT(*) FROM import_batch_rows r WHERE r.batch_id = b.id) AS staged_rows,
+    (SELECT COUNT(*) FROM import_conflicts ic WHERE ic.batch_id = b.id) AS conflict_count,
+    (SELECT COUNT(*) FROM import_conflicts ic WHERE ic.batch_id = b.id AND ic.resolution IS NULL) AS unresolved_count
+  FROM import_batches b
+`
+
+function toImportBatch(row: ImportBatchRow): ImportBatch {
+  return {
+    id: row.id,
+    fileName: row.file_name,
+    status: row.status,
+    totalRows: row.total_rows,
+    stagedRows: Number(row.staged_rows),
+    conflictCount: Number(row.conflict_count),
+    unresolvedCount: Number(row.unresolved_count),
+    errors: row.errors ?? [],
+    result: row.result ?? null,
+    createdAt: row.created_at,
+    createdBy: row.created_by ?? undefined,
+    appliedAt: row.applied_at,
+    appliedBy: row.applied_by ?? undefined,
+    revertedAt: row.reverted_at,
+    revertedBy: row.reverted_by ?? undefined
+  }
+}
+
+function toStagedRow(row: StagedRow): StagedImportRow {
+  return {
+    rowNumber: row.row_number,
+    clientName: row.client_name,
+    date: row.date,
+    transcriptCount: row.transcript_count,
+    transcriptType: row.transcript_type ?? undefined,
+    notes: row.notes ?? undefined
+  }
+}
+
+function toExistingRecord(record: ExistingRecordSnapshot): TranscriptData {
+  return {
+    ...record,
+    date: new Date(record.date),
+    createdAt: new Date(record.createdAt),
+    updatedAt: new Date(record.updatedAt)
+  }
+}
+
+export class ImportBatchService {
+  private pool: Pool
+  private transcriptService: TranscriptService
+
+  constructor() {
+    this.pool = getDatabasePool()
+    this.transcriptService = new TranscriptService()
+  }
+
+  /**
+   * Stage parsed rows as a new batch and record every row that clashes with
+   * an existing transcript for the same client and date
+   */
+  async stageBatch(data: StageBatchInput, createdBy?: string): Promise<ImportBatchDetail> {
+    const client = await this.pool.connect()
+    let batchId: string
+
+    try {
+      await client.query('BEGIN')
+
+      const batch = await client.query(
+        `INSERT INTO import_batches (file_name, total_rows, errors, created_by)
+         VALUES ($1, $2, $3, $4)
+         RETURNING id`,
+        [data.fileName, data.totalRows, JSON.stringify(data.errors), createdBy || null]
+      )
+      batchId = batch.rows[0].id
+
+      await client.query(
+        `INSERT INTO import_batch_rows (batch_id, row_number, client_name, date, transcript_count, transcript_type, notes)
+         SELECT $1, * FROM UNNEST($2::int[], $3::text[], $4::date[], $5::int[], $6::text[], $7::text[])`,
+        [
+          batchId,
+          data.rows.map(row => row.rowNumber),
+          data.rows.map(row => row.clientName),
+          data.rows.map(row => row.date),
+          data.rows.map(row => row.transcriptCount),
+          data.rows.map(row => row.transcriptType || null),
+          data.rows.map(row => row.notes || null)
+        ]
+      )
+
+      const clashes = await client.query(
+        `SELECT r.row_number, r.client_name, r.date, r.transcript_count, r.transcript_type, r.notes,
+           t.id AS existing_id, t.client_id, t.date AS existing_date, t.transcript_count AS existing_count,
+           t.transcript_type AS existing_type, t.notes AS existing_notes,
+           t.created_at, t.updated_at, t.created_by
+         FROM import_batch_rows r
+         JOIN clients c ON c.name = r.client_name
+         JOIN transcripts t ON t.client_id = c.id AND t.date = r.date
+         WHERE r.batch_id = $1`,
+        [batchId]
+      )
+
+      for (const clash of clashes.rows) {
+        const existing: TranscriptData = {
+          id: clash.existing_id,
+          clientId: clash.client_id,
+          clientName: clash.client_name,
+          date: clash.existing_date,
+          transcriptCount: clash.existing_count,
+          transcriptType: clash.existing_type ?? undefined,
+          notes: clash.existing_notes ?? undefined,
+          createdAt: clash.created_at,
+          updatedAt: clash.updated_at,
+          createdBy: clash.created_by
+        }
+
+        await client.query(
+          `INSERT INTO import_conflicts (batch_id, row_number, existing_record, conflict_type)
+           VALUES ($1, $2, $3, $4)`,
+          [batchId, clash.row_number, JSON.stringify(existing), conflictTypeOf(toStagedRow(clash), existing)]
+        )
+      }
+
+      await client.query('COMMIT')
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+
+    const staged = await this.getBatchById(batchId)
+    if (!staged) {
+      throw new Error('Staged import batch could not be read back')
+    }
+    return staged
+  }
+
+  /**
+   * Import history, newest first
+   */
+  async getBatches(limit = 50): Promise<ImportBatch[]> {
+    const result = await this.pool.query(`${SELECT_BATCHES} ORDER BY b.created_at DESC LIMIT $1`, [limit])
+    return result.rows.map(row => toImportBatch(row as ImportBatchRow))
+  }
+
+  async getBatchById(id: string): Promise<ImportBatchDetail | null> {
+    const result = await this.pool.query(`${SELECT_BATCHES} WHERE b.id = $1`, [id])
+
+    if (result.rows.length === 0) {
+      return null
+    }
+
+    return {
+      ...toImportBatch(result.rows[0] as ImportBatchRow),
+      conflicts: await this.getConflicts(id)
+    }
+  }
+
+  async getConflicts(batchId: string): Promise<ImportConflict[]> {
+    const result = await this.pool.query(
+      `SELECT ic.id, ic.existing_record, ic.conflict_type, ic.resolution, ic.merged_data,
+         r.row_number, r.client_name, r.date, r.transcript_count, r.transcript_type, r.notes
+       FROM import_conflicts ic
+       JOIN import_batch_rows r ON r.batch_id = ic.batch_id AND r.row_number = ic.row_number
+       WHERE ic.batch_id = $1
+       ORDER BY r.row_number ASC`,
+      [batchId]
+    )
+
+    return result.rows.map(row => {
+      const newRecord = toStagedRow(row)
+      const existingRecord = toExistingRecord(row.existing_record)
+
+      return {
+        id: row.id,
+        rowNumber: newRecord.rowNumber,
+        newRecord,
+        existingRecord,
+        conflictType: row.conflict_type,
+        differences: generateDifferences(newRecord, existingRecord),
+        resolution: row.resolution,
+        mergedData: row.merged_data ?? undefined
+      }
+    })
+  }
+
+  async getRows(batchId: string): Promise<StagedImportRow[]> {
+    const result = await this.pool.query(
+      `SELECT row_number, client_name, date, transcript_count, transcript_type, notes
+       FROM import_batch_rows
+       WHERE batch_id = $1
+       ORDER BY row_number ASC`,
+      [batchId]
+    )
+
+    return result.rows.map(row => toStagedRow(row as StagedRow))
+  }
+
+  /**
+   * Store resolutions for conflicts of a staged batch. Returns false when the
+   * batch does not exist.
+   */
+  async setResolutions(batchId: string, resolutions: ConflictResolutionInput[]): Promise<boolean> {
+    const client = await this.pool.connect()
+
+    try {
+      await client.query('BEGIN')
+
+      const batch = await client.query('SELECT status FROM import_batches WHERE id = $1 FOR UPDATE', [batchId])
+      if (batch.rows.length === 0) {
+        await client.query('ROLLBACK')
+        return false
+      }
+      if (batch.rows[0].status !== 'staged') {
+        throw new ImportBatchStateError(`Import batch is already ${batch.rows[0].status}`)
+      }
+
+      for (const { conflictId, resolution, mergedData } of resolutions) {
+        const updated = await client.query(
+          `UPDATE import_conflicts SET resolution = $1, merged_data = $2 WHERE id = $3 AND batch_id = $4`,
+          [resolution, resolution === 'merge' && mergedData ? JSON.stringify(mergedData) : null, conflictId, batchId]
+        )
+
+        if ((updated.rowCount ?? 0) === 0) {
+          throw new ImportBatchStateError(`Conflict ${conflictId} is not part of this import batch`)
+        }
+      }
+
+      await client.query('COMMIT')
+      return true
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+
+  /**
+   * Commit a staged batch with its conflict resolutions in one transaction,
+   * marking it applied in the same transaction. Every conflict needs a
+   * resolution first. Returns null when the batch does not exist.
+   */
+  async applyBatch(batchId: string, appliedBy: string): Promise<AppliedImport | null> {
+    const batch = await this.getBatchById(batchId)
+    if (!batch) {
+      return null
+    }
+    if (batch.status !== 'staged') {
+      throw new ImportBatchStateError(`Import batch is already ${batch.status}`)
+    }
+
+    const resolved = resolveImport(await this.getRows(batchId), batch.conflicts)
+    if (resolved.unresolved.length > 0) {
+      throw new ImportBatchStateError(`${resolved.unresolved.length} conflicts still need a resolution`)
+    }
+
+    let result: ImportResult | undefined
+
+    await this.transcriptService.bulkCreateTranscripts(
+      resolved.rows.map(row => ({
+        clientName: row.clientName,
+        date: row.date,
+        transcriptCount: row.transcriptCount,
+        transcriptType: row.transcriptType,
+        notes: row.notes,
+        createdBy: appliedBy,
+        replaceTranscriptId: row.replaceTranscriptId
+      })),
+      {
+        importBatchId: batchId,
+        beforeCommit: async (client: PoolClient, written: ImportResult) => {
+          // Failed rows are reported by their row in the batch
+          const rowErrors = written.errors.map(error => ({ ...error, row: resolved.rows[error.row - 1].rowNumber }))
+
+          result = {
+            totalRows: batch.totalRows,
+            successCount: written.successCount,
+            errorCount: batch.errors.length + written.errorCount,
+            errors: [...batch.errors, ...rowErrors],
+            duplicateCount: batch.conflictCount + written.duplicateCount
+          }
+
+          const updated = await client.query(
+            `UPDATE import_batches SET status = 'applied', result = $1, applied_at = NOW(), applied_by = $2
+             WHERE id = $3 AND status = 'staged'`,
+            [JSON.stringify(result), appliedBy, batchId]
+          )
+
+          if ((updated.rowCount ?? 0) === 0) {
+            throw new ImportBatchStateError('Import batch was changed while it was being applied')
+          }
+        }
+      }
+    )
+
+    return { result: result!, rows: resolved.rows, skipped: resolved.skipped }
+  }
+
+  /**
+   * Undo everything an applied batch changed, in one transaction: inserted
+   * transcripts are deleted and replaced ones get their earlier values back.
+   * Returns null when the batch does not exist.
+   */
+  async revertBatch(batchId: string, revertedBy: string): Promise<ImportRevertResult | null> {
+    const client = await this.pool.connect()
+
+    try {
+      await client.query('BEGIN')
+
+      const batch = await client.query('SELECT status FROM import_batches WHERE id = $1 FOR UPDATE', [batchId])
+      if (batch.rows.length === 0) {
+        await client.query('ROLLBACK')
+        return null
+      }
+      if (batch.rows[0].status !== 'applied') {
+        throw new ImportBatchStateError(
+          batch.rows[0].status === 'staged' ? 'Import batch has not been applied' : 'Import batch is already reverted'
+        )
+      }
+
+      const changes = await client.query(
+        `SELECT transcript_id, action, previous FROM import_batch_changes WHERE batch_id = $1 ORDER BY id DESC`,
+        [batchId]
+      )
+
+      const inserted = changes.rows.filter(change => change.action === 'inserted').map(change => change.transcript_id)
+      const deleted = inserted.length > 0
+        ? await client.query('DELETE FROM transcripts WHERE id = ANY($1::uuid[])', [inserted])
+        : null
+
+      let restored = 0
+      for (const change of changes.rows.filter(change => change.action === 'replaced')) {
+        const updated = await client.query(
+          `UPDATE transcripts
+           SET transcript_count = $1, transcript_type = $2, notes = $3, updated_at = NOW()
+           WHERE id = $4`,
+          [change.previous.transcriptCount, change.previous.transcriptType, change.previous.notes, change.transcript_id]
+        )
+        restored += updated.rowCount ?? 0
+      }
+
+      await client.query(
+        `UPDATE import_batches SET status = 'reverted', reverted_at = NOW(), reverted_by = $1 WHERE id = $2`,
+        [revertedBy, batchId]
+      )
+
+      await client.query('COMMIT')
+      return { deleted: deleted?.rowCount ?? 0, restored }
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+}
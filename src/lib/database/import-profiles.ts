@@ -0,0 +1,175 @@
+import { Pool } from 'pg'
+import { getDatabasePool } from './connection'
+import type {
+  ImportDateFormat,
+  ImportProfile,
+  ImportProfileScope,
+  ImportValueTransform
+} from '@/types/import-profile'
+import { ImportProfileCreate, ImportProfileUpdate } from '@/lib/validations/schemas'
+import { headerFingerprint } from '@/lib/utils/import-profiles'
+
+interface ImportProfileRow {
+  id: string
+  name: string
+  description: string | null
+  scope: ImportProfileScope
+  headers: string[]
+  header_fingerprint: string
+  column_mapping: Record<string, string>
+  date_format: ImportDateFormat
+  transforms: Record<string, ImportValueTransform[]>
+  default_transcript_type: string | null
+  sheet_name: string | null
+  created_at: Date
+  updated_at: Date
+  created_by: string
+}
+
+function toImportProfile(row: ImportProfileRow): ImportProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    scope: row.scope,
+    headers: row.headers,
+    headerFingerprint: row.header_fingerprint,
+    columnMapping: row.column_mapping,
+    dateFormat: row.date_format,
+    transforms: row.transforms,
+    defaultTranscriptType: row.default_transcript_type ?? undefined,
+    sheetName: row.sheet_name ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    createdBy: row.created_by
+  }
+}
+
+export class ImportProfileService {
+  private pool: Pool
+
+  constructor() {
+    this.pool = getDatabasePool()
+  }
+
+  /**
+   * Profiles a user can use: their own and the team's
+   */
+  async getProfiles(userId: string): Promise<ImportProfile[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM import_profiles
+       WHERE scope = 'team' OR created_by = $1
+       ORDER BY name ASC`,
+      [userId]
+    )
+
+    return result.rows.map(row => toImportProfile(row as ImportProfileRow))
+  }
+
+  /**
+   * Profiles shared with the team, which unattended imports can use
+   */
+  async getTeamProfiles(): Promise<ImportProfile[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM import_profiles WHERE scope = 'team' ORDER BY name ASC`
+    )
+
+    return result.rows.map(row => toImportProfile(row as ImportProfileRow))
+  }
+
+  async getProfileById(id: string, userId: string): Promise<ImportProfile | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM import_profiles WHERE id = $1 AND (scope = 'team' OR created_by = $2)`,
+      [id, userId]
+    )
+
+    if (result.rows.length === 0) {
+      return null
+    }
+
+    return toImportProfile(result.rows[0] as ImportProfileRow)
+  }
+
+  async createProfile(data: ImportProfileCreate, createdBy: string): Promise<ImportProfile> {
+    const result = await this.pool.query(
+      `INSERT INTO import_profiles (
+         name, description, scope, headers, header_fingerprint, column_mapping,
+         date_format, transforms, default_transcript_type, sheet_name, created_by
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       RETURNING *`,
+      [
+        data.name,
+        data.description || null,
+        data.scope,
+        JSON.stringify(data.headers),
+        headerFingerprint(data.headers),
+        JSON.stringify(data.columnMapping),
+        data.dateFormat,
+        JSON.stringify(data.transforms),
+        data.defaultTranscriptType || null,
+        data.sheetName || null,
+        createdBy
+      ]
+    )
+
+    return toImportProfile(result.rows[0] as ImportProfileRow)
+  }
+
+  async updateProfile(id: string, data: ImportProfileUpdate): Promise<ImportProfile | null> {
+    const columns: [keyof ImportProfileUpdate, string, boolean][] = [
+      ['name', 'name', false],
+      ['description', 'description', false],
+      ['scope', 'scope', false],
+      ['headers', 'headers', true],
+      ['columnMapping', 'column_mapping', true],
+      ['dateFormat', 'date_format', false],
+      ['transforms', 'transforms', true],
+      ['defaultTranscriptType', 'default_transcript_type', false],
+      ['sheetName', 'sheet_name', false]
+    ]
+
+    const updateFields: string[] = []
+    const queryParams: (string | null)[] = []
+    let paramIndex = 1
+
+    for (const [key, column, json] of columns) {
+      const value = data[key]
+      if (value !== undefined) {
+        updateFields.push(`${column} = $${paramIndex}`)
+        queryParams.push(value === null ? null : json ? JSON.stringify(value) : String(value))
+        paramIndex++
+      }
+    }
+
+    if (data.headers) {
+      updateFields.push(`header_fingerprint = $${paramIndex}`)
+      queryParams.push(headerFingerprint(data.headers))
+      paramIndex++
+    }
+
+    if (updateFields.length === 0) {
+      const result = await this.pool.query('SELECT * FROM import_profiles WHERE id = $1', [id])
+      return result.rows.length > 0 ? toImportProfile(result.rows[0] as ImportProfileRow) : null
+    }
+
+    updateFields.push('updated_at = NOW()')
+    queryParams.push(id)
+
+    const result = await this.pool.query(
+      `UPDATE import_profiles SET ${updateFields.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+      queryParams
+    )
+
+    if (result.rows.length === 0) {
+      return null
+    }
+
+    return toImportProfile(result.rows[0] as ImportProfileRow)
+  }
+
+  async deleteProfile(id: string): Promise<boolean> {
+    const result = await this.pool.query('DELETE FROM import_profiles WHERE id = $1', [id])
+    return (result.rowCount ?? 0) > 0
+  }
+}
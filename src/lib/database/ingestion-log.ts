@@ -0,0 +1,90 @@
+import { Pool } from 'pg'
+import { getDatabasePool } from './connection'
+import type { IngestionLogEntry, IngestionStatus } from '@/types/ingestion'
+
+interface IngestionLogRow {
+  id: string
+  file_name: string
+  status: IngestionStatus
+  stored_as: string
+  profile_id: string | null
+  profile_name: string | null
+  batch_id: string | null
+  total_rows: number
+  imported_rows: number
+  error_count: number
+  errors: IngestionLogEntry['errors']
+  message: string
+  started_at: Date
+  finished_at: Date
+}
+
+function toIngestionLogEntry(row: IngestionLogRow): IngestionLogEntry {
+  return {
+    id: row.id,
+    fileName: row.file_name,
+    status: row.status,
+    storedAs: row.stored_as,
+    profileId: row.profile_id ?? undefined,
+    profileName: row.profile_name ?? undefined,
+    batchId: row.batch_id ?? undefined,
+    totalRows: row.total_rows,
+    importedRows: row.imported_rows,
+    errorCount: row.error_count,
+    errors: row.errors,
+    message: row.message,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at
+  }
+}
+
+export class IngestionLogService {
+  private pool: Pool
+
+  constructor() {
+    this.pool = getDatabasePool()
+  }
+
+  async createEntry(entry: Omit<IngestionLogEntry, 'id'>): Promise<IngestionLogEntry> {
+    const result = await this.pool.query(
+      `INSERT INTO ingestion_log (
+         file_name, status, stored_as, profile_id, profile_name, batch_id,
+         total_rows, imported_rows, error_count, errors, message, started_at, finished_at
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+       RETURNING *`,
+      [
+        entry.fileName,
+        entry.status,
+        entry.storedAs,
+        entry.profileId || null,
+        entry.profileName || null,
+        entry.batchId || null,
+        entry.totalRows,
+        entry.importedRows,
+        entry.errorCount,
+        JSON.stringify(entry.errors),
+        entry.message,
+        entry.startedAt,
+        entry.finishedAt
+      ]
+    )
+
+    return toIngestionLogEntry(result.rows[0] as IngestionLogRow)
+  }
+
+  /**
+   * Ingested files, newest first
+   */
+  async getEntries(limit = 50, status?: IngestionStatus): Promise<IngestionLogEntry[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM ingestion_log
+       WHERE $2::text IS NULL OR status = $2
+       ORDER BY finished_at DESC
+       LIMIT $1`,
+      [limit, status || null]
+    )
+
+    return result.rows.map(row => toIngestionLogEntry(row as IngestionLogRow))
+  }
+}
@@ -0,0 +1,43 @@
+-- Migration: Create backtest result tables
+-- Version: 005
+-- Description: Store rolling-origin backtest accuracy per model and per forecast horizon
+
+CREATE TABLE IF NOT EXISTS backtest_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID REFERENCES clients(id) ON DELETE CASCADE,
+  prediction_type VARCHAR(20) NOT NULL CHECK (prediction_type IN ('daily', 'weekly', 'monthly')),
+  model_type VARCHAR(50) NOT NULL,
+  window_type VARCHAR(20) NOT NULL CHECK (window_type IN ('rolling', 'expanding')),
+  horizon INTEGER NOT NULL CHECK (horizon > 0),
+  initial_window INTEGER NOT NULL,
+  step INTEGER NOT NULL DEFAULT 1,
+  origins INTEGER NOT NULL,
+  failed_origins INTEGER NOT NULL DEFAULT 0,
+  confidence_level DECIMAL(5,4) NOT NULL,
+  season_length INTEGER,
+  mape DECIMAL(12,4),
+  smape DECIMAL(12,4),
+  mase DECIMAL(12,4),
+  rmse DECIMAL(14,4),
+  coverage DECIMAL(5,4),
+  is_recommended BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  created_by UUID REFERENCES users(id)
+);
+
+CREATE TABLE IF NOT EXISTS backtest_horizon_metrics (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  backtest_run_id UUID NOT NULL REFERENCES backtest_runs(id) ON DELETE CASCADE,
+  horizon INTEGER NOT NULL CHECK (horizon > 0),
+  sample_count INTEGER NOT NULL,
+  mape DECIMAL(12,4),
+  smape DECIMAL(12,4),
+  mase DECIMAL(12,4),
+  rmse DECIMAL(14,4),
+  coverage DECIMAL(5,4),
+  UNIQUE(backtest_run_id, horizon)
+);
+
+CREATE INDEX IF NOT EXISTS idx_backtest_runs_client_created ON backtest_runs(client_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_backtest_runs_model ON backtest_runs(model_type);
+CREATE INDEX IF NOT EXISTS idx_backtest_horizon_metrics_run ON backtest_horizon_metrics(backtest_run_id);
@@ -0,0 +1,33 @@
+-- Migration: Create forecast model registry table
+-- Version: 006
+-- Description: Persist versioned trained forecast models per client, model type and granularity
+
+CREATE TABLE IF NOT EXISTS forecast_models (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_key VARCHAR(255) NOT NULL,
+  model_type VARCHAR(50) NOT NULL,
+  prediction_type VARCHAR(20) NOT NULL CHECK (prediction_type IN ('daily', 'weekly', 'monthly')),
+  version INTEGER NOT NULL CHECK (version > 0),
+  normalization_mean DOUBLE PRECISION NOT NULL,
+  normalization_std DOUBLE PRECISION NOT NULL,
+  training_start DATE NOT NULL,
+  training_end DATE NOT NULL,
+  training_periods INTEGER NOT NULL,
+  data_fingerprint VARCHAR(64) NOT NULL,
+  hyperparameters JSONB NOT NULL DEFAULT '{}',
+  metrics JSONB NOT NULL DEFAULT '{}',
+  model_topology JSONB NOT NULL,
+  weight_specs JSONB NOT NULL,
+  weight_data BYTEA NOT NULL,
+  is_pinned BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(client_key, model_type, prediction_type, version)
+);
+
+-- At most one pinned version per client, model type and granularity
+CREATE UNIQUE INDEX IF NOT EXISTS idx_forecast_models_pinned
+  ON forecast_models(client_key, model_type, prediction_type)
+  WHERE is_pinned;
+
+CREATE INDEX IF NOT EXISTS idx_forecast_models_key
+  ON forecast_models(client_key, model_type, prediction_type, version DESC);
@@ -0,0 +1,28 @@
+-- Migration: Create calendar events table
+-- Version: 007
+-- Description: Holidays, client events and outages used as forecast regressors and chart annotations
+
+CREATE TABLE IF NOT EXISTS calendar_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  event_type VARCHAR(20) NOT NULL CHECK (event_type IN ('holiday', 'client_event', 'outage')),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  -- NULL applies the event to every client
+  client_id UUID REFERENCES clients(id) ON DELETE CASCADE,
+  -- Set for events imported from a country holiday set
+  country_code CHAR(2),
+  notes TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  created_by UUID REFERENCES users(id),
+  CHECK (end_date >= start_date)
+);
+
+-- Re-importing a country holiday set for the same client (or all clients) skips holidays already stored
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_events_country_holiday
+  ON calendar_events(country_code, name, start_date, (COALESCE(client_id, '00000000-0000-0000-0000-000000000000'::uuid)))
+  WHERE country_code IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_calendar_events_dates ON calendar_events(start_date, end_date);
+CREATE INDEX IF NOT EXISTS idx_calendar_events_client_id ON calendar_events(client_id);
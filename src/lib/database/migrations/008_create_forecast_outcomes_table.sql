@@ -0,0 +1,23 @@
+-- Migration: Create forecast outcomes table
+-- Version: 008
+-- Description: Record the realized error of each stored prediction period once its actuals have arrived
+
+CREATE TABLE IF NOT EXISTS forecast_outcomes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  prediction_detail_id UUID NOT NULL UNIQUE REFERENCES prediction_details(id) ON DELETE CASCADE,
+  prediction_id UUID NOT NULL REFERENCES predictions(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  prediction_type VARCHAR(20) NOT NULL CHECK (prediction_type IN ('daily', 'weekly', 'monthly')),
+  model_type VARCHAR(50) NOT NULL,
+  horizon INTEGER NOT NULL CHECK (horizon > 0),
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  predicted_count INTEGER NOT NULL,
+  confidence_lower INTEGER NOT NULL,
+  confidence_upper INTEGER NOT NULL,
+  actual_count INTEGER NOT NULL,
+  recorded_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_forecast_outcomes_client_period ON forecast_outcomes(client_id, period_start);
+CREATE INDEX IF NOT EXISTS idx_forecast_outcomes_model ON forecast_outcomes(model_type);
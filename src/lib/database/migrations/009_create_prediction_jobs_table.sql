@@ -0,0 +1,19 @@
+-- Migration: Create prediction jobs table
+-- Version: 009
+-- Description: Queue prediction requests so model training runs in background workers instead of the request thread
+
+CREATE TABLE IF NOT EXISTS prediction_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  request JSONB NOT NULL,
+  result JSONB,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW(),
+  started_at TIMESTAMP,
+  completed_at TIMESTAMP,
+  created_by UUID REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_prediction_jobs_status_created ON prediction_jobs(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_prediction_jobs_created_by ON prediction_jobs(created_by);
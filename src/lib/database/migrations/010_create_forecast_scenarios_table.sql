@@ -0,0 +1,19 @@
+-- Migration: Create forecast scenarios table
+-- Version: 010
+-- Description: Store what-if scenarios as a frozen copy of the baseline forecasts plus user-defined adjustments
+
+CREATE TABLE IF NOT EXISTS forecast_scenarios (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  prediction_type VARCHAR(20) NOT NULL CHECK (prediction_type IN ('daily', 'weekly', 'monthly')),
+  adjustments JSONB NOT NULL DEFAULT '[]',
+  baseline JSONB NOT NULL,
+  forecasts JSONB NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  created_by UUID REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_forecast_scenarios_created_at ON forecast_scenarios(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_forecast_scenarios_created_by ON forecast_scenarios(created_by);
@@ -0,0 +1,26 @@
+-- Migration: Create AHT tables
+-- Version: 011
+-- Description: Store per-client handling times and monthly review volumes imported from the AHT spreadsheet
+
+CREATE TABLE IF NOT EXISTS aht_clients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_name VARCHAR(255) NOT NULL UNIQUE,
+  overall_aht DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (overall_aht >= 0),
+  review_aht DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (review_aht >= 0),
+  validation_aht DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (validation_aht >= 0),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- One row per client and calendar month, keyed on the first day of the month
+CREATE TABLE IF NOT EXISTS aht_monthly_volumes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  aht_client_id UUID NOT NULL REFERENCES aht_clients(id) ON DELETE CASCADE,
+  month DATE NOT NULL CHECK (EXTRACT(DAY FROM month) = 1),
+  volume INTEGER NOT NULL DEFAULT 0 CHECK (volume >= 0),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(aht_client_id, month)
+);
+
+CREATE INDEX IF NOT EXISTS idx_aht_monthly_volumes_month ON aht_monthly_volumes(month);
@@ -0,0 +1,6 @@
+-- Migration: Add monthly AHT
+-- Version: 012
+-- Description: Record review and validation AHT per client per month alongside the monthly volume; NULL where a month's AHT was not imported
+
+ALTER TABLE aht_monthly_volumes ADD COLUMN IF NOT EXISTS review_aht DECIMAL(10,2) CHECK (review_aht >= 0);
+ALTER TABLE aht_monthly_volumes ADD COLUMN IF NOT EXISTS validation_aht DECIMAL(10,2) CHECK (validation_aht >= 0);
@@ -0,0 +1,22 @@
+-- Migration: Create risk rules table
+-- Version: 013
+-- Description: Store the weighted rules that score client risk in the AHT dashboard
+
+CREATE TABLE IF NOT EXISTS risk_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  metric VARCHAR(50) NOT NULL CHECK (metric IN (
+    'overallAHT', 'reviewAHT', 'validationAHT', 'totalVolume',
+    'volumeGrowth', 'volumeVolatility', 'forecastError', 'slaMisses'
+  )),
+  operator VARCHAR(10) NOT NULL CHECK (operator IN ('gt', 'gte', 'lt', 'lte')),
+  threshold DECIMAL(14,4) NOT NULL,
+  weight DECIMAL(8,2) NOT NULL CHECK (weight > 0),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  created_by UUID REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_risk_rules_enabled ON risk_rules(enabled);
@@ -0,0 +1,21 @@
+-- Migration: Create volume anomalies table
+-- Version: 014
+-- Description: Store daily and monthly transcript volume anomalies with their severity and root-cause hints
+
+CREATE TABLE IF NOT EXISTS volume_anomalies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  granularity VARCHAR(20) NOT NULL CHECK (granularity IN ('daily', 'monthly')),
+  period_start DATE NOT NULL,
+  actual_count INTEGER NOT NULL,
+  expected_count INTEGER NOT NULL,
+  z_score DECIMAL(10,2) NOT NULL,
+  severity VARCHAR(20) NOT NULL CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  direction VARCHAR(10) NOT NULL CHECK (direction IN ('spike', 'drop')),
+  hints JSONB NOT NULL DEFAULT '[]',
+  detected_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (client_id, granularity, period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_volume_anomalies_period ON volume_anomalies(period_start);
+CREATE INDEX IF NOT EXISTS idx_volume_anomalies_severity ON volume_anomalies(severity);
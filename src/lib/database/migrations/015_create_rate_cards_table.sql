@@ -0,0 +1,17 @@
+-- Migration: Create rate cards table
+-- Version: 015
+-- Description: Store per-client and default pricing tiers used to work out revenue per client
+
+CREATE TABLE IF NOT EXISTS rate_cards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID UNIQUE REFERENCES clients(id) ON DELETE CASCADE,
+  tier_mode VARCHAR(20) NOT NULL DEFAULT 'graduated' CHECK (tier_mode IN ('graduated', 'volume')),
+  tiers JSONB NOT NULL,
+  monthly_minimum DECIMAL(14,2) NOT NULL DEFAULT 0 CHECK (monthly_minimum >= 0),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  created_by UUID REFERENCES users(id)
+);
+
+-- At most one default card, stored without a client
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rate_cards_default ON rate_cards ((client_id IS NULL)) WHERE client_id IS NULL;
@@ -0,0 +1,27 @@
+-- Migration: Create client targets tables
+-- Version: 016
+-- Description: Store monthly volume commitments and AHT and turnaround SLAs per client, and measured turnaround to check them against
+
+CREATE TABLE IF NOT EXISTS client_targets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  metric VARCHAR(20) NOT NULL CHECK (metric IN ('minimumVolume', 'maximumVolume', 'aht', 'turnaround')),
+  target_value DECIMAL(14,2) NOT NULL CHECK (target_value >= 0),
+  effective_from DATE NOT NULL,
+  effective_to DATE,
+  notes TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  created_by UUID REFERENCES users(id),
+  CHECK (effective_to IS NULL OR effective_to >= effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_targets_client ON client_targets(client_id);
+
+CREATE TABLE IF NOT EXISTS turnaround_measurements (
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  month DATE NOT NULL,
+  turnaround_hours DECIMAL(10,2) NOT NULL CHECK (turnaround_hours >= 0),
+  recorded_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (client_id, month)
+);
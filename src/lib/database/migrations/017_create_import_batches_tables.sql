@@ -0,0 +1,55 @@
+-- Migration: Create import batches tables
+-- Version: 017
+-- Description: Stage imports server-side with their conflicts and chosen resolutions, and log what an applied batch changed so it can be reverted
+
+CREATE TABLE IF NOT EXISTS import_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_name VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'staged' CHECK (status IN ('staged', 'applied', 'reverted')),
+  total_rows INTEGER NOT NULL CHECK (total_rows >= 0),
+  errors JSONB NOT NULL DEFAULT '[]',
+  result JSONB,
+  created_at TIMESTAMP DEFAULT NOW(),
+  created_by UUID REFERENCES users(id),
+  applied_at TIMESTAMP,
+  applied_by UUID REFERENCES users(id),
+  reverted_at TIMESTAMP,
+  reverted_by UUID REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_batches_created_at ON import_batches(created_at DESC);
+
+CREATE TABLE IF NOT EXISTS import_batch_rows (
+  batch_id UUID NOT NULL REFERENCES import_batches(id) ON DELETE CASCADE,
+  row_number INTEGER NOT NULL,
+  client_name VARCHAR(255) NOT NULL,
+  date DATE NOT NULL,
+  transcript_count INTEGER NOT NULL CHECK (transcript_count >= 0),
+  transcript_type VARCHAR(100),
+  notes TEXT,
+  PRIMARY KEY (batch_id, row_number)
+);
+
+CREATE TABLE IF NOT EXISTS import_conflicts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id UUID NOT NULL,
+  row_number INTEGER NOT NULL,
+  -- Snapshot of the existing record when the batch was staged
+  existing_record JSONB NOT NULL,
+  conflict_type VARCHAR(20) NOT NULL CHECK (conflict_type IN ('duplicate', 'count_difference')),
+  resolution VARCHAR(20) CHECK (resolution IN ('use_new', 'use_existing', 'merge', 'skip')),
+  merged_data JSONB,
+  FOREIGN KEY (batch_id, row_number) REFERENCES import_batch_rows(batch_id, row_number) ON DELETE CASCADE,
+  UNIQUE(batch_id, row_number)
+);
+
+CREATE TABLE IF NOT EXISTS import_batch_changes (
+  id SERIAL PRIMARY KEY,
+  batch_id UUID NOT NULL REFERENCES import_batches(id) ON DELETE CASCADE,
+  transcript_id UUID NOT NULL,
+  action VARCHAR(20) NOT NULL CHECK (action IN ('inserted', 'replaced')),
+  -- Values a replaced transcript had before the batch was applied
+  previous JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_batch_changes_batch ON import_batch_changes(batch_id);
@@ -0,0 +1,23 @@
+-- Migration: Create import profiles table
+-- Version: 018
+-- Description: Store reusable column mappings, date formats, value transforms and sheet choices per source file layout, for one user or the whole team
+
+CREATE TABLE IF NOT EXISTS import_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  scope VARCHAR(20) NOT NULL DEFAULT 'personal' CHECK (scope IN ('personal', 'team')),
+  headers JSONB NOT NULL,
+  header_fingerprint TEXT NOT NULL,
+  column_mapping JSONB NOT NULL,
+  date_format VARCHAR(20) NOT NULL DEFAULT 'YYYY-MM-DD',
+  transforms JSONB NOT NULL DEFAULT '{}',
+  default_transcript_type VARCHAR(100),
+  sheet_name VARCHAR(255),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  created_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_profiles_fingerprint ON import_profiles(header_fingerprint);
+CREATE INDEX IF NOT EXISTS idx_import_profiles_created_by ON import_profiles(created_by);
@@ -0,0 +1,23 @@
+-- Migration: Create ingestion log table
+-- Version: 019
+-- Description: Record every file picked up from the drop folder, whether it was committed or quarantined, and why
+
+CREATE TABLE IF NOT EXISTS ingestion_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_name VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('committed', 'quarantined')),
+  stored_as TEXT NOT NULL,
+  profile_id UUID REFERENCES import_profiles(id) ON DELETE SET NULL,
+  profile_name VARCHAR(255),
+  batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL,
+  total_rows INTEGER NOT NULL DEFAULT 0 CHECK (total_rows >= 0),
+  imported_rows INTEGER NOT NULL DEFAULT 0 CHECK (imported_rows >= 0),
+  error_count INTEGER NOT NULL DEFAULT 0 CHECK (error_count >= 0),
+  errors JSONB NOT NULL DEFAULT '[]',
+  message TEXT NOT NULL,
+  started_at TIMESTAMP NOT NULL,
+  finished_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_log_finished_at ON ingestion_log(finished_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ingestion_log_status ON ingestion_log(status);
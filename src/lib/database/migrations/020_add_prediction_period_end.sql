@@ -0,0 +1,5 @@
+-- Migration: Add prediction period end
+-- Version: 020
+-- Description: Record where each predicted period ends under the fiscal calendar it was forecast with; NULL for predictions stored before, whose periods are taken as calendar months
+
+ALTER TABLE prediction_details ADD COLUMN IF NOT EXISTS period_end DATE;
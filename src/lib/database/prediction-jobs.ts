@@ -0,0 +1,141 @@
+import { Pool } from 'pg'
+import { getDatabasePool } from './connection'
+import { PredictionJob, PredictionJobResult, PredictionJobStatus } from '@/types/prediction-job'
+import { PredictionRequest } from '@/lib/validations/schemas'
+
+const JOB_COLUMNS = 'id, status, request, result, error, attempts, created_at, started_at, completed_at, created_by'
+
+interface PredictionJobRow {
+  id: string
+  status: PredictionJobStatus
+  request: PredictionRequest
+  result: PredictionJobResult | null
+  error: string | null
+  attempts: number
+  created_at: Date
+  started_at: Date | null
+  completed_at: Date | null
+  created_by: string | null
+}
+
+function toPredictionJob(row: PredictionJobRow): PredictionJob {
+  return {
+    id: row.id,
+    status: row.status,
+    request: row.request,
+    result: row.result ?? undefined,
+    error: row.error ?? undefined,
+    attempts: row.attempts,
+    createdAt: row.created_at,
+    startedAt: row.started_at ?? undefined,
+    completedAt: row.completed_at ?? undefined,
+    createdBy: row.created_by ?? undefined
+  }
+}
+
+export class PredictionJobService {
+  private pool: Pool
+
+  constructor() {
+    this.pool = getDatabasePool()
+  }
+
+  async createJob(request: PredictionRequest, createdBy?: string): Promise<PredictionJob> {
+    const result = await this.pool.query(
+      `INSERT INTO prediction_jobs (request, created_by)
+       VALUES ($1, $2)
+       RETURNING ${JOB_COLUMNS}`,
+      [JSON.stringify(request), createdBy || null]
+    )
+
+    return toPredictionJob(result.rows[0] as PredictionJobRow)
+  }
+
+  async getJob(id: string): Promise<PredictionJob | null> {
+    const result = await this.pool.query(
+      `SELECT ${JOB_COLUMNS} FROM prediction_jobs WHERE id = $1`,
+      [id]
+    )
+
+    if (result.rows.length === 0) {
+      return null
+    }
+
+    return toPredictionJob(result.rows[0] as PredictionJobRow)
+  }
+
+  /**
+   * Mark the oldest queued job as running and return it. SKIP LOCKED lets
+   * several app instances share the queue without taking the same job.
+   */
+  async claimNextJob(): Promise<PredictionJob | null> {
+    const result = await this.pool.query(
+      `UPDATE prediction_jobs
+       SET status = 'running', started_at = NOW(), attempts = attempts + 1
+       WHERE id = (
+         SELECT id FROM prediction_jobs
+         WHERE status = 'queued'
+         ORDER BY created_at ASC
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING ${JOB_COLUMNS}`
+    )
+
+    if (result.rows.length === 0) {
+      return null
+    }
+
+    return toPredictionJob(result.rows[0] as PredictionJobRow)
+  }
+
+  /**
+   * Record the result of a job's attempt. Returns false when the job is no
+   * longer running that attempt, e.g. it was requeued and started again, in
+   * which case the result is dropped.
+   */
+  async completeJob(id: string, attempt: number, jobResult: PredictionJobResult): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE prediction_jobs
+       SET status = 'completed', result = $3, error = NULL, completed_at = NOW()
+       WHERE id = $1 AND attempts = $2 AND status = 'running'`,
+      [id, attempt, JSON.stringify(jobResult)]
+    )
+
+    return (result.rowCount ?? 0) > 0
+  }
+
+  async failJob(id: string, attempt: number, error: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE prediction_jobs
+       SET status = 'failed', error = $3, completed_at = NOW()
+       WHERE id = $1 AND attempts = $2 AND status = 'running'`,
+      [id, attempt, error]
+    )
+
+    return (result.rowCount ?? 0) > 0
+  }
+
+  /**
+   * Put jobs left running by a crashed or restarted process back in the
+   * queue, failing those that have already used up their attempts. Jobs the
+   * calling process is still running are never touched.
+   */
+  async requeueStaleJobs(startedBefore: Date, maxAttempts: number, activeJobIds: string[] = []): Promise<number> {
+    await this.pool.query(
+      `UPDATE prediction_jobs
+       SET status = 'failed', error = 'Prediction worker stopped before the job finished', completed_at = NOW()
+       WHERE status = 'running' AND started_at < $1 AND attempts >= $2 AND NOT (id = ANY($3::uuid[]))`,
+      [startedBefore, maxAttempts, activeJobIds]
+    )
+
+    const result = await this.pool.query(
+      `UPDATE prediction_jobs
+       SET status = 'queued', started_at = NULL
+       WHERE status = 'running' AND started_at < $1 AND NOT (id = ANY($2::uuid[]))`,
+      [startedBefore, activeJobIds]
+    )
+
+    return result.rowCount ?? 0
+  }
+}
@@ -2,12 +2,16 @@ import { Pool } from 'pg'
 import { getDatabasePool } from './connection'
 import { PredictionResult, TimePrediction } from '@/types/transcript'
 import { PredictionResultInput } from '@/lib/validations/schemas'
+import { periodEnd } from '@/lib/utils/fiscal-calendar'
+import { FiscalCalendarConfig, getFiscalCalendarConfig } from '@/lib/config/fiscal-calendar'
 
 export class PredictionService {
   private pool: Pool
+  private calendar: FiscalCalendarConfig
 
-  constructor() {
+  constructor(calendar: FiscalCalendarConfig = getFiscalCalendarConfig()) {
     this.pool = getDatabasePool()
+    this.calendar = calendar
   }
 
   async createPrediction(data: PredictionResultInput): Promise<PredictionResult> {
@@ -35,16 +39,17 @@ export class PredictionService {
       const predictionId = predictionResult.rows[0].id
       const createdAt = predictionResult.rows[0].created_at
       
-      // Insert individual predictions
+      // Insert individual predictions, with where their period ends under the current fiscal calendar
       for (const prediction of data.predictions) {
         const predictionDetailQuery = `
-          INSERT INTO prediction_details (prediction_id, predicted_date, predicted_count, confidence_lower, confidence_upper)
-          VALUES ($1, $2, $3, $4, $5)
+          INSERT INTO prediction_details (prediction_id, predicted_date, period_end, predicted_count, confidence_lower, confidence_upper)
+          VALUES ($1, $2, $3, $4, $5, $6)
         `
         
         await client.query(predictionDetailQuery, [
           predictionId,
           prediction.date,
+          periodEnd(prediction.date, data.predictionType, this.calendar),
           prediction.predictedCount,
           prediction.confidenceInterval.lower,
           prediction.confidenceInterval.upper
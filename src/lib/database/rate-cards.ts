@@ -0,0 +1,114 @@
+import { Pool } from 'pg'
+import { getDatabasePool } from './connection'
+import { PricingTier, RateCard, TierMode } from '@/types/finance'
+import { RateCardInput } from '@/lib/validations/schemas'
+
+interface RateCardRow {
+  id: string
+  client_id: string | null
+  client_name: string | null
+  tier_mode: TierMode
+  tiers: PricingTier[]
+  monthly_minimum: string
+  created_at: Date
+  updated_at: Date
+  created_by: string | null
+}
+
+function toRateCard(row: RateCardRow): RateCard {
+  return {
+    id: row.id,
+    clientId: row.client_id,
+    clientName: row.client_name,
+    tierMode: row.tier_mode,
+    tiers: row.tiers,
+    monthlyMinimum: Number(row.monthly_minimum),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    createdBy: row.created_by ?? undefined
+  }
+}
+
+const SELECT_RATE_CARDS = `
+  SELECT r.*, c.name AS client_name
+  FROM rate_cards r
+  LEFT JOIN clients c ON r.client_id = c.id
+`
+
+export class RateCardService {
+  private pool: Pool
+
+  constructor() {
+    this.pool = getDatabasePool()
+  }
+
+  /**
+   * Every rate card, the default card first
+   */
+  async getRateCards(): Promise<RateCard[]> {
+    const result = await this.pool.query(
+      `${SELECT_RATE_CARDS} ORDER BY r.client_id IS NOT NULL, c.name ASC`
+    )
+
+    return result.rows.map(row => toRateCard(row as RateCardRow))
+  }
+
+  async getRateCardById(id: string): Promise<RateCard | null> {
+    const result = await this.pool.query(`${SELECT_RATE_CARDS} WHERE r.id = $1`, [id])
+
+    if (result.rows.length === 0) {
+      return null
+    }
+
+    return toRateCard(result.rows[0] as RateCardRow)
+  }
+
+  /**
+   * Create or replace the rate card of a client, or the default card when
+   * clientId is null
+   */
+  async saveRateCard(data: RateCardInput, createdBy?: string): Promise<RateCard> {
+    const client = await this.pool.connect()
+    let id: string
+
+    try {
+      await client.query('BEGIN')
+
+      const updated = await client.query(
+        `UPDATE rate_cards
+         SET tier_mode = $2, tiers = $3, monthly_minimum = $4, updated_at = NOW()
+         WHERE client_id IS NOT DISTINCT FROM $1
+         RETURNING id`,
+        [data.clientId, data.tierMode, JSON.stringify(data.tiers), data.monthlyMinimum]
+      )
+
+      const result = updated.rows.length > 0
+        ? updated
+        : await client.query(
+          `INSERT INTO rate_cards (client_id, tier_mode, tiers, monthly_minimum, created_by)
+           VALUES ($1, $2, $3, $4, $5)
+           RETURNING id`,
+          [data.clientId, data.tierMode, JSON.stringify(data.tiers), data.monthlyMinimum, createdBy || null]
+        )
+      id = result.rows[0].id
+
+      await client.query('COMMIT')
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+
+    const card = await this.getRateCardById(id)
+    if (!card) {
+      throw new Error('Saved rate card could not be read back')
+    }
+    return card
+  }
+
+  async deleteRateCard(id: string): Promise<boolean> {
+    const result = await this.pool.query('DELETE FROM rate_cards WHERE id = $1', [id])
+    return (result.rowCount ?? 0) > 0
+  }
+}
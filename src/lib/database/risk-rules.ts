@@ -0,0 +1,127 @@
+import { Pool } from 'pg'
+import { getDatabasePool } from './connection'
+import { RiskMetric, RiskOperator, RiskRule } from '@/types/risk'
+import { RiskRuleCreate, RiskRuleUpdate } from '@/lib/validations/schemas'
+
+interface RiskRuleRow {
+  id: string
+  name: string
+  description: string | null
+  metric: RiskMetric
+  operator: RiskOperator
+  threshold: string
+  weight: string
+  enabled: boolean
+  created_at: Date
+  updated_at: Date
+  created_by: string | null
+}
+
+function toRiskRule(row: RiskRuleRow): RiskRule {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    metric: row.metric,
+    operator: row.operator,
+    threshold: Number(row.threshold),
+    weight: Number(row.weight),
+    enabled: row.enabled,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    createdBy: row.created_by ?? undefined
+  }
+}
+
+export class RiskRuleService {
+  private pool: Pool
+
+  constructor() {
+    this.pool = getDatabasePool()
+  }
+
+  async getRules(): Promise<RiskRule[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM risk_rules ORDER BY weight DESC, name ASC'
+    )
+
+    return result.rows.map(row => toRiskRule(row as RiskRuleRow))
+  }
+
+  async getRuleById(id: string): Promise<RiskRule | null> {
+    const result = await this.pool.query('SELECT * FROM risk_rules WHERE id = $1', [id])
+
+    if (result.rows.length === 0) {
+      return null
+    }
+
+    return toRiskRule(result.rows[0] as RiskRuleRow)
+  }
+
+  async createRule(data: RiskRuleCreate, createdBy?: string): Promise<RiskRule> {
+    const result = await this.pool.query(
+      `INSERT INTO risk_rules (name, description, metric, operator, threshold, weight, enabled, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [
+        data.name,
+        data.description || null,
+        data.metric,
+        data.operator,
+        data.threshold,
+        data.weight,
+        data.enabled,
+        createdBy || null
+      ]
+    )
+
+    return toRiskRule(result.rows[0] as RiskRuleRow)
+  }
+
+  async updateRule(id: string, data: RiskRuleUpdate): Promise<RiskRule | null> {
+    const columns: [keyof RiskRuleUpdate, string][] = [
+      ['name', 'name'],
+      ['description', 'description'],
+      ['metric', 'metric'],
+      ['operator', 'operator'],
+      ['threshold', 'threshold'],
+      ['weight', 'weight'],
+      ['enabled', 'enabled']
+    ]
+
+    const updateFields: string[] = []
+    const queryParams: (string | number | boolean | null)[] = []
+    let paramIndex = 1
+
+    for (const [key, column] of columns) {
+      if (data[key] !== undefined) {
+        updateFields.push(`${column} = $${paramIndex}`)
+        queryParams.push(data[key] ?? null)
+        paramIndex++
+      }
+    }
+
+    if (updateFields.length === 0) {
+      return this.getRuleById(id)
+    }
+
+    updateFields.push('updated_at = NOW()')
+    queryParams.push(id)
+
+    const result = await this.pool.query(
+      `UPDATE risk_rules SET ${updateFields.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+      queryParams
+    )
+
+    if (result.rows.length === 0) {
+      return null
+    }
+
+    return toRiskRule(result.rows[0] as RiskRuleRow)
+  }
+
+  async deleteRule(id: string): Promise<boolean> {
+    const result = await this.pool.query('DELETE FROM risk_rules WHERE id = $1', [id])
+    return (result.rowCount ?? 0) > 0
+  }
+}
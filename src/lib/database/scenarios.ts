@@ -0,0 +1,135 @@
+import { Pool } from 'pg'
+import { getDatabasePool } from './connection'
+import { ForecastScenario, ScenarioAdjustment } from '@/types/scenario'
+import { PredictionResult } from '@/types/transcript'
+import { ScenarioUpdate } from '@/lib/validations/schemas'
+import { applyScenarioAdjustments } from '@/lib/utils/scenario-adjustments'
+
+const SCENARIO_COLUMNS = `
+  id, name, description, prediction_type, adjustments, baseline, forecasts,
+  created_at, updated_at, created_by
+`
+
+interface ScenarioRow {
+  id: string
+  name: string
+  description: string | null
+  prediction_type: ForecastScenario['predictionType']
+  adjustments: ScenarioAdjustment[]
+  baseline: PredictionResult[]
+  forecasts: PredictionResult[]
+  created_at: Date
+  updated_at: Date
+  created_by: string | null
+}
+
+function toScenario(row: ScenarioRow): ForecastScenario {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    predictionType: row.prediction_type,
+    adjustments: row.adjustments,
+    baseline: row.baseline,
+    forecasts: row.forecasts,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    createdBy: row.created_by ?? undefined
+  }
+}
+
+export interface ScenarioInput {
+  name: string
+  description?: string
+  adjustments: ScenarioAdjustment[]
+  baseline: PredictionResult[]
+}
+
+export class ScenarioService {
+  private pool: Pool
+
+  constructor() {
+    this.pool = getDatabasePool()
+  }
+
+  async getScenarios(): Promise<ForecastScenario[]> {
+    const result = await this.pool.query(
+      `SELECT ${SCENARIO_COLUMNS} FROM forecast_scenarios ORDER BY created_at DESC`
+    )
+
+    return result.rows.map(row => toScenario(row as ScenarioRow))
+  }
+
+  async getScenarioById(id: string): Promise<ForecastScenario | null> {
+    const result = await this.pool.query(
+      `SELECT ${SCENARIO_COLUMNS} FROM forecast_scenarios WHERE id = $1`,
+      [id]
+    )
+
+    if (result.rows.length === 0) {
+      return null
+    }
+
+    return toScenario(result.rows[0] as ScenarioRow)
+  }
+
+  /**
+   * Save a scenario over a frozen copy of the baseline forecasts, so later
+   * forecast runs do not shift it
+   */
+  async createScenario(data: ScenarioInput, createdBy?: string): Promise<ForecastScenario> {
+    const forecasts = applyScenarioAdjustments(data.baseline, data.adjustments)
+
+    const result = await this.pool.query(
+      `INSERT INTO forecast_scenarios (name, description, prediction_type, adjustments, baseline, forecasts, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING ${SCENARIO_COLUMNS}`,
+      [
+        data.name,
+        data.description || null,
+        data.baseline[0].predictionType,
+        JSON.stringify(data.adjustments),
+        JSON.stringify(data.baseline),
+        JSON.stringify(forecasts),
+        createdBy || null
+      ]
+    )
+
+    return toScenario(result.rows[0] as ScenarioRow)
+  }
+
+  /**
+   * Rename a scenario or replace its adjustments, recomputing the forecasts
+   * from the stored baseline
+   */
+  async updateScenario(id: string, data: ScenarioUpdate): Promise<ForecastScenario | null> {
+    const existing = await this.getScenarioById(id)
+    if (!existing) {
+      return null
+    }
+
+    const adjustments = data.adjustments ?? existing.adjustments
+    const forecasts = applyScenarioAdjustments(existing.baseline, adjustments)
+
+    const result = await this.pool.query(
+      `UPDATE forecast_scenarios
+       SET name = $2, description = $3, adjustments = $4, forecasts = $5, updated_at = NOW()
+       WHERE id = $1
+       RETURNING ${SCENARIO_COLUMNS}`,
+      [
+        id,
+        data.name ?? existing.name,
+        data.description !== undefined ? data.description || null : existing.description ?? null,
+        JSON.stringify(adjustments),
+        JSON.stringify(forecasts)
+      ]
+    )
+
+    return toScenario(result.rows[0] as ScenarioRow)
+  }
+
+  async deleteScenario(id: string): Promise<boolean> {
+    const result = await this.pool.query('DELETE FROM forecast_scenarios WHERE id = $1', [id])
+    return (result.rowCount ?? 0) > 0
+  }
+}
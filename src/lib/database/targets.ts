@@ -0,0 +1,191 @@
+import { Pool } from 'pg'
+import { getDatabasePool } from './connection'
+import { ClientTarget, TargetMetric, TurnaroundMeasurement } from '@/types/target'
+import { TargetCreate, TargetUpdate, TurnaroundImport } from '@/lib/validations/schemas'
+
+interface ClientTargetRow {
+  id: string
+  client_id: string
+  client_name: string
+  metric: TargetMetric
+  target_value: string
+  effective_from: string
+  effective_to: string | null
+  notes: string | null
+  created_at: Date
+  updated_at: Date
+  created_by: string | null
+}
+
+function toClientTarget(row: ClientTargetRow): ClientTarget {
+  return {
+    id: row.id,
+    clientId: row.client_id,
+    clientName: row.client_name,
+    metric: row.metric,
+    value: Number(row.target_value),
+    effectiveFrom: row.effective_from,
+    effectiveTo: row.effective_to,
+    notes: row.notes ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    createdBy: row.created_by ?? undefined
+  }
+}
+
+// Months are stored as the first day of the month and read back as YYYY-MM
+const SELECT_TARGETS = `
+  SELECT t.id, t.client_id, c.name AS client_name, t.metric, t.target_value,
+    TO_CHAR(t.effective_from, 'YYYY-MM') AS effective_from,
+    TO_CHAR(t.effective_to, 'YYYY-MM') AS effective_to,
+    t.notes, t.created_at, t.updated_at, t.created_by
+  FROM client_targets t
+  JOIN clients c ON t.client_id = c.id
+`
+
+const monthStart = (month: string | null | undefined) => (month ? `${month}-01` : null)
+
+export class ClientTargetService {
+  private pool: Pool
+
+  constructor() {
+    this.pool = getDatabasePool()
+  }
+
+  async getTargets(clientId?: string): Promise<ClientTarget[]> {
+    const result = await this.pool.query(
+      `${SELECT_TARGETS} ${clientId ? 'WHERE t.client_id = $1' : ''} ORDER BY c.name ASC, t.metric ASC, t.effective_from ASC`,
+      clientId ? [clientId] : []
+    )
+
+    return result.rows.map(row => toClientTarget(row as ClientTargetRow))
+  }
+
+  async getTargetById(id: string): Promise<ClientTarget | null> {
+    const result = await this.pool.query(`${SELECT_TARGETS} WHERE t.id = $1`, [id])
+
+    if (result.rows.length === 0) {
+      return null
+    }
+
+    return toClientTarget(result.rows[0] as ClientTargetRow)
+  }
+
+  async createTarget(data: TargetCreate, createdBy?: string): Promise<ClientTarget> {
+    const result = await this.pool.query(
+      `INSERT INTO client_targets (client_id, metric, target_value, effective_from, effective_to, notes, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING id`,
+      [
+        data.clientId,
+        data.metric,
+        data.value,
+        monthStart(data.effectiveFrom),
+        monthStart(data.effectiveTo),
+        data.notes || null,
+        createdBy || null
+      ]
+    )
+
+    const target = await this.getTargetById(result.rows[0].id)
+    if (!target) {
+      throw new Error('Created target could not be read back')
+    }
+    return target
+  }
+
+  async updateTarget(id: string, data: TargetUpdate): Promise<ClientTarget | null> {
+    const columns: [keyof TargetUpdate, string, (value: TargetUpdate[keyof TargetUpdate]) => string | number | null][] = [
+      ['metric', 'metric', value => value as string],
+      ['value', 'target_value', value => value as number],
+      ['effectiveFrom', 'effective_from', value => monthStart(value as string)],
+      ['effectiveTo', 'effective_to', value => monthStart(value as string | null)],
+      ['notes', 'notes', value => (value as string) || null]
+    ]
+
+    const updateFields: string[] = []
+    const queryParams: (string | number | null)[] = []
+    let paramIndex = 1
+
+    for (const [key, column, toParam] of columns) {
+      if (data[key] !== undefined) {
+        updateFields.push(`${column} = $${paramIndex}`)
+        queryParams.push(toParam(data[key]))
+        paramIndex++
+      }
+    }
+
+    if (updateFields.length === 0) {
+      return this.getTargetById(id)
+    }
+
+    updateFields.push('updated_at = NOW()')
+    queryParams.push(id)
+
+    const result = await this.pool.query(
+      `UPDATE client_targets SET ${updateFields.join(', ')} WHERE id = $${paramIndex} RETURNING id`,
+      queryParams
+    )
+
+    if (result.rows.length === 0) {
+      return null
+    }
+
+    return this.getTargetById(id)
+  }
+
+  async deleteTarget(id: string): Promise<boolean> {
+    const result = await this.pool.query('DELETE FROM client_targets WHERE id = $1', [id])
+    return (result.rowCount ?? 0) > 0
+  }
+
+  /**
+   * Measured turnaround per client and month, from the given month on
+   */
+  async getTurnaround(sinceMonth?: string): Promise<TurnaroundMeasurement[]> {
+    const result = await this.pool.query(
+      `SELECT m.client_id, c.name AS client_name, TO_CHAR(m.month, 'YYYY-MM') AS month, m.turnaround_hours
+       FROM turnaround_measurements m
+       JOIN clients c ON m.client_id = c.id
+       ${sinceMonth ? 'WHERE m.month >= $1' : ''}
+       ORDER BY m.month ASC, c.name ASC`,
+      sinceMonth ? [monthStart(sinceMonth)] : []
+    )
+
+    return result.rows.map(row => ({
+      clientId: row.client_id,
+      clientName: row.client_name,
+      month: row.month,
+      turnaroundHours: Number(row.turnaround_hours)
+    }))
+  }
+
+  /**
+   * Record measured turnaround, replacing any earlier measurement for the same client and month
+   */
+  async recordTurnaround(data: TurnaroundImport): Promise<number> {
+    const client = await this.pool.connect()
+
+    try {
+      await client.query('BEGIN')
+
+      for (const measurement of data.measurements) {
+        await client.query(
+          `INSERT INTO turnaround_measurements (client_id, month, turnaround_hours)
+           VALUES ($1, $2, $3)
+           ON CONFLICT (client_id, month)
+           DO UPDATE SET turnaround_hours = EXCLUDED.turnaround_hours, recorded_at = NOW()`,
+          [measurement.clientId, monthStart(measurement.month), measurement.turnaroundHours]
+        )
+      }
+
+      await client.query('COMMIT')
+      return data.measurements.length
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+}
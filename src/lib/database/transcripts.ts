@@ -1,8 +1,21 @@
-import { Pool } from 'pg'
+import { Pool, PoolClient } from 'pg'
 import { getDatabasePool } from './connection'
 import { TranscriptData, Client, ImportResult } from '@/types/transcript'
 import { TranscriptCreate, TranscriptUpdate, TranscriptQuery } from '@/lib/validations/schemas'
 
+export type BulkTranscriptCreate = Omit<TranscriptCreate, 'clientId'> & {
+  clientId?: string
+  /** Overwrite this transcript instead of inserting a new one */
+  replaceTranscriptId?: string
+}
+
+export interface BulkCreateOptions {
+  /** Log each insert and replacement against this import batch */
+  importBatchId?: string
+  /** Runs inside the transaction, after the rows and before the commit */
+  beforeCommit?: (client: PoolClient, result: ImportResult) => Promise<void>
+}
+
 export class TranscriptService {
   private pool: Pool
 
@@ -129,7 +142,7 @@ export class TranscriptService {
     }
   }
 
-  async getTranscripts(params: TranscriptQuery & { page?: number; limit?: number } = { page: 1, limit: 50 }): Promise<{
+  async getTranscripts(params: TranscriptQuery & { page?: number; limit?: number; clientNames?: string[] } = { page: 1, limit: 50 }): Promise<{
     data: TranscriptData[]
     pagination: {
       page: number
@@ -138,7 +151,7 @@ export class TranscriptService {
       totalPages: number
     }
   }> {
-    const { clientId, startDate, endDate, transcriptType, page = 1, limit = 50 } = params
+    const { clientId, clientNames, startDate, endDate, transcriptType, page = 1, limit = 50 } = params
     const offset = (page - 1) * limit
 
     let whereConditions: string[] = []
@@ -151,6 +164,13 @@ export class TranscriptService {
       paramIndex++
     }
 
+    // e.g. the clients of a segment
+    if (clientNames) {
+      whereConditions.push(`c.name = ANY($${paramIndex})`)
+      queryParams.push(clientNames)
+      paramIndex++
+    }
+
     if (startDate) {
       whereConditions.push(`t.date >= $${paramIndex}`)
       queryParams.push(new Date(startDate))
@@ -345,7 +365,14 @@ export class TranscriptService {
     return (result.rowCount ?? 0) > 0
   }
 
-  async bulkCreateTranscripts(transcripts: TranscriptCreate[]): Promise<ImportResult> {
+  /**
+   * Insert many records in one transaction. A row that fails is rolled back
+   * to its savepoint and reported, and the rest still commit. Rows naming a
+   * transcript to replace overwrite it; other rows for a client and date that
+   * already has a record are counted as duplicates. With an import batch,
+   * every insert and replacement is logged so the batch can be reverted.
+   */
+  async bulkCreateTranscripts(transcripts: BulkTranscriptCreate[], options: BulkCreateOptions = {}): Promise<ImportResult> {
     const client = await this.pool.connect()
 
     try {
@@ -363,6 +390,15 @@ export class TranscriptService {
         const transcript = transcripts[i]
 
         try {
+          await client.query('SAVEPOINT bulk_row')
+
+          if (transcript.replaceTranscriptId) {
+            await this.replaceTranscript(client, transcript.replaceTranscriptId, transcript, options.importBatchId)
+            await client.query('RELEASE SAVEPOINT bulk_row')
+            result.successCount++
+            continue
+          }
+
           // Check for existing record (same client and date)
           let clientRecord = await this.getClientByName(transcript.clientName)
           if (!clientRecord) {
@@ -376,6 +412,7 @@ export class TranscriptService {
           const existingResult = await client.query(existingQuery, [clientRecord.id, transcript.date])
 
           if (existingResult.rows.length > 0) {
+            await client.query('RELEASE SAVEPOINT bulk_row')
             result.duplicateCount++
             continue
           }
@@ -384,9 +421,10 @@ export class TranscriptService {
           const insertQuery = `
             INSERT INTO transcripts (client_id, date, transcript_count, transcript_type, notes, created_by)
             VALUES ($1, $2, $3, $4, $5, $6)
+            RETURNING id
           `
 
-          await client.query(insertQuery, [
+          const inserted = await client.query(insertQuery, [
             clientRecord.id,
             transcript.date,
             transcript.transcriptCount,
@@ -395,8 +433,17 @@ export class TranscriptService {
             transcript.createdBy
           ])
 
+          if (options.importBatchId) {
+            await client.query(
+              `INSERT INTO import_batch_changes (batch_id, transcript_id, action) VALUES ($1, $2, 'inserted')`,
+              [options.importBatchId, inserted.rows[0].id]
+            )
+          }
+
+          await client.query('RELEASE SAVEPOINT bulk_row')
           result.successCount++
         } catch (error) {
+          await client.query('ROLLBACK TO SAVEPOINT bulk_row')
           result.errorCount++
           result.errors.push({
             row: i + 1,
@@ -407,6 +454,10 @@ export class TranscriptService {
         }
       }
 
+      if (options.beforeCommit) {
+        await options.beforeCommit(client, result)
+      }
+
       await client.query('COMMIT')
       return result
     } catch (error) {
@@ -417,6 +468,41 @@ export class TranscriptService {
     }
   }
 
+  private async replaceTranscript(
+    client: PoolClient,
+    id: string,
+    transcript: BulkTranscriptCreate,
+    importBatchId?: string
+  ): Promise<void> {
+    const previous = await client.query(
+      `SELECT transcript_count, transcript_type, notes FROM transcripts WHERE id = $1 FOR UPDATE`,
+      [id]
+    )
+
+    if (previous.rows.length === 0) {
+      throw new Error('Transcript to replace no longer exists')
+    }
+
+    await client.query(
+      `UPDATE transcripts
+       SET transcript_count = $1, transcript_type = $2, notes = $3, updated_at = NOW()
+       WHERE id = $4`,
+      [transcript.transcriptCount, transcript.transcriptType || null, transcript.notes || null, id]
+    )
+
+    if (importBatchId) {
+      const row = previous.rows[0]
+      await client.query(
+        `INSERT INTO import_batch_changes (batch_id, transcript_id, action, previous) VALUES ($1, $2, 'replaced', $3)`,
+        [
+          importBatchId,
+          id,
+          JSON.stringify({ transcriptCount: row.transcript_count, transcriptType: row.transcript_type, notes: row.notes })
+        ]
+      )
+    }
+  }
+
   async getTranscriptsByDateRange(startDate: Date, endDate: Date): Promise<TranscriptData[]> {
     const query = `
       SELECT 
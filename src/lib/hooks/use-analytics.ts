@@ -1,7 +1,16 @@
 'use client'
 
+import { useEffect, useRef } from 'react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { queryKeys } from '@/lib/query/query-client'
+import type { ForecastModelType } from '@/lib/services/prediction-engine'
+import type { BacktestReport, BacktestWindowType } from '@/lib/services/backtest-service'
+import type { BacktestRun } from '@/types/backtest'
+import type { ModelRegistryKey, RegisteredModel } from '@/lib/services/model-registry'
+import type { HierarchicalPredictionResult } from '@/lib/services/prediction-service'
+import type { ReconciliationMethod } from '@/lib/utils/forecast-reconciliation'
+import type { PredictionJob } from '@/types/prediction-job'
+import type { DecompositionGranularity, SeasonalDecomposition } from '@/types/decomposition'
 
 // Types for analytics data
 interface TrendData {
@@ -36,7 +45,60 @@ interface PredictionRequest {
   clientName?: string
   predictionType: 'daily' | 'weekly' | 'monthly'
   periodsAhead: number
-  modelType: 'linear' | 'polynomial' | 'arima'
+  modelType: ForecastModelType
+  seasonLength?: number
+}
+
+interface HierarchicalPredictionRequest {
+  clientId?: string
+  predictionType: 'daily' | 'weekly' | 'monthly'
+  periodsAhead: number
+  modelType: ForecastModelType
+  reconciliation: ReconciliationMethod
+  seasonLength?: number
+  confidenceLevel?: number
+  // Reconcile only the clients of this segment
+  segment?: string
+}
+
+// How often to check a queued prediction job
+const PREDICTION_JOB_POLL_MS = 1000
+// How long to wait for a prediction job before giving up on it
+const PREDICTION_JOB_WAIT_MS = 10 * 60 * 1000
+
+interface WaitForPredictionJobOptions {
+  timeoutMs?: number
+  signal?: AbortSignal
+}
+
+interface BacktestFilters {
+  clientId?: string
+  predictionType?: 'daily' | 'weekly' | 'monthly'
+}
+
+interface BacktestRequest {
+  clientId?: string
+  clientName?: string
+  predictionType: 'daily' | 'weekly' | 'monthly'
+  modelTypes: ForecastModelType[]
+  horizon: number
+  windowType?: BacktestWindowType
+  initialWindow?: number
+  step?: number
+  maxOrigins?: number
+  seasonLength?: number
+  confidenceLevel?: number
+}
+
+interface DecompositionFilters {
+  // Leave unset for the aggregate of all clients
+  clientName?: string
+  granularity: DecompositionGranularity
+}
+
+interface ModelVersionAction extends ModelRegistryKey {
+  action: 'pin' | 'unpin' | 'rollback'
+  version?: number
 }
 
 // API functions for analytics operations
@@ -59,6 +121,21 @@ const analyticsApi = {
     return response.json()
   },
 
+  // Get the trend / seasonal / residual decomposition of a client's or all clients' volume
+  getDecomposition: async (filters: DecompositionFilters): Promise<SeasonalDecomposition> => {
+    const params = new URLSearchParams({ decompose: 'true', granularity: filters.granularity })
+    if (filters.clientName) {
+      params.append('clientName', filters.clientName)
+    }
+
+    const response = await fetch(`/api/analytics/trends?${params}`)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch decomposition: ${response.statusText}`)
+    }
+    const result = await response.json()
+    return result.data.decomposition
+  },
+
   // Get predictions
   getPredictions: async (filters?: Record<string, any>): Promise<PredictionData[]> => {
     const params = new URLSearchParams()
@@ -90,6 +167,70 @@ const analyticsApi = {
     return response.json()
   },
 
+  // Generate reconciled predictions for every client and the total
+  generateHierarchicalPredictions: async (
+    request: HierarchicalPredictionRequest,
+    options: WaitForPredictionJobOptions = {}
+  ): Promise<HierarchicalPredictionResult> => {
+    const response = await fetch('/api/analytics/predictions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal: options.signal,
+    })
+    if (!response.ok) {
+      const error = await response.json().catch(() => null)
+      throw new Error(error?.error || `Failed to generate reconciled predictions: ${response.statusText}`)
+    }
+    // Training runs in a background job; wait for its result
+    const result = await response.json()
+    return analyticsApi.waitForPredictionJob<HierarchicalPredictionResult>(result.data.jobId, options)
+  },
+
+  // Get a queued prediction job's status and result
+  getPredictionJob: async (jobId: string, signal?: AbortSignal): Promise<PredictionJob> => {
+    const response = await fetch(`/api/analytics/predictions/jobs/${jobId}`, { signal })
+    if (!response.ok) {
+      throw new Error(`Failed to fetch prediction job: ${response.statusText}`)
+    }
+    const result = await response.json()
+    return result.data
+  },
+
+  // Poll a prediction job until it finishes, resolving with its result data.
+  // Gives up after timeoutMs, or as soon as the signal is aborted; the job
+  // itself keeps running on the server either way.
+  waitForPredictionJob: async <T>(
+    jobId: string,
+    { timeoutMs = PREDICTION_JOB_WAIT_MS, signal }: WaitForPredictionJobOptions = {}
+  ): Promise<T> => {
+    const deadline = Date.now() + timeoutMs
+    for (;;) {
+      signal?.throwIfAborted()
+      const job = await analyticsApi.getPredictionJob(jobId, signal)
+      if (job.status === 'completed') {
+        return job.result?.data as T
+      }
+      if (job.status === 'failed') {
+        throw new Error(job.error || 'Prediction job failed')
+      }
+      if (Date.now() + PREDICTION_JOB_POLL_MS > deadline) {
+        throw new Error(`Prediction job ${jobId} did not finish within ${Math.round(timeoutMs / 60000)} minutes`)
+      }
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          clearTimeout(timer)
+          reject(signal?.reason)
+        }
+        const timer = setTimeout(() => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve()
+        }, PREDICTION_JOB_POLL_MS)
+        signal?.addEventListener('abort', onAbort, { once: true })
+      })
+    }
+  },
+
   // Get summary statistics
   getSummary: async (filters?: Record<string, any>): Promise<SummaryStats> => {
     const params = new URLSearchParams()
@@ -107,6 +248,71 @@ const analyticsApi = {
     }
     return response.json()
   },
+
+  // Get stored backtest runs
+  getBacktests: async (filters?: BacktestFilters): Promise<BacktestRun[]> => {
+    const params = new URLSearchParams()
+    if (filters) {
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          params.append(key, String(value))
+        }
+      })
+    }
+
+    const response = await fetch(`/api/analytics/backtests?${params}`)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch backtests: ${response.statusText}`)
+    }
+    const result = await response.json()
+    return result.data
+  },
+
+  // Run a backtest over rolling forecast origins
+  runBacktest: async (request: BacktestRequest): Promise<BacktestReport> => {
+    const response = await fetch('/api/analytics/backtests', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    })
+    if (!response.ok) {
+      const error = await response.json().catch(() => null)
+      throw new Error(error?.error || `Failed to run backtest: ${response.statusText}`)
+    }
+    const result = await response.json()
+    return result.data
+  },
+
+  // Get registered versions of a client's trained model
+  getModelVersions: async (key: ModelRegistryKey): Promise<RegisteredModel[]> => {
+    const params = new URLSearchParams({
+      clientName: key.clientKey,
+      modelType: key.modelType,
+      predictionType: key.predictionType,
+    })
+
+    const response = await fetch(`/api/analytics/models?${params}`)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch model versions: ${response.statusText}`)
+    }
+    const result = await response.json()
+    return result.data
+  },
+
+  // Pin, unpin or roll back a model version
+  updateModelVersion: async ({ clientKey, ...request }: ModelVersionAction): Promise<RegisteredModel[]> => {
+    const response = await fetch('/api/analytics/models', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...request, clientName: clientKey }),
+    })
+    if (!response.ok) {
+      const error = await response.json().catch(() => null)
+      throw new Error(error?.error || `Failed to update model version: ${response.statusText}`)
+    }
+    const result = await response.json()
+    return result.data
+  },
 }
 
 // Hook for fetching trend data
@@ -119,6 +325,15 @@ export function useTrends(filters?: Record<string, any>) {
   })
 }
 
+// Hook for fetching a seasonal decomposition
+export function useSeasonalDecomposition(filters: DecompositionFilters) {
+  return useQuery({
+    queryKey: queryKeys.analytics.decomposition({ ...filters }),
+    queryFn: () => analyticsApi.getDecomposition(filters),
+    staleTime: 10 * 60 * 1000, // 10 minutes, seasonality changes slowly
+  })
+}
+
 // Hook for fetching predictions
 export function usePredictions(filters?: Record<string, any>) {
   return useQuery({
@@ -141,6 +356,35 @@ export function useGeneratePredictions() {
   })
 }
 
+// Hook for generating reconciled client and total predictions. Stops
+// waiting on the job when the component unmounts.
+export function useGenerateHierarchicalPredictions() {
+  const abortRef = useRef<AbortController | null>(null)
+
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  return useMutation({
+    mutationFn: (request: HierarchicalPredictionRequest) => {
+      abortRef.current?.abort()
+      abortRef.current = new AbortController()
+      return analyticsApi.generateHierarchicalPredictions(request, { signal: abortRef.current.signal })
+    },
+  })
+}
+
+// Hook for following a queued prediction job until it finishes
+export function usePredictionJob(jobId?: string) {
+  return useQuery({
+    queryKey: queryKeys.analytics.predictionJob(jobId || ''),
+    queryFn: () => analyticsApi.getPredictionJob(jobId as string),
+    enabled: !!jobId,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status
+      return status === 'completed' || status === 'failed' ? false : PREDICTION_JOB_POLL_MS
+    },
+  })
+}
+
 // Hook for fetching summary statistics
 export function useSummaryStats(filters?: Record<string, any>) {
   return useQuery({
@@ -151,6 +395,49 @@ export function useSummaryStats(filters?: Record<string, any>) {
   })
 }
 
+// Hook for fetching stored backtest runs
+export function useBacktests(filters?: BacktestFilters) {
+  return useQuery({
+    queryKey: [...queryKeys.analytics.backtests(), filters || {}],
+    queryFn: () => analyticsApi.getBacktests(filters),
+    staleTime: 10 * 60 * 1000, // 10 minutes, backtests only change when rerun
+  })
+}
+
+// Hook for running a new backtest
+export function useRunBacktest() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: analyticsApi.runBacktest,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.analytics.backtests() })
+    },
+  })
+}
+
+// Hook for listing registered model versions
+export function useModelVersions(key: ModelRegistryKey) {
+  return useQuery({
+    queryKey: [...queryKeys.analytics.models(), key],
+    queryFn: () => analyticsApi.getModelVersions(key),
+    staleTime: 60 * 1000, // 1 minute, new versions appear as predictions retrain
+  })
+}
+
+// Hook for pinning or rolling back a model version
+export function useUpdateModelVersion() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: analyticsApi.updateModelVersion,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.analytics.models() })
+      queryClient.invalidateQueries({ queryKey: queryKeys.analytics.predictions() })
+    },
+  })
+}
+
 // Hook for real-time analytics dashboard
 export function useRealtimeAnalytics(filters?: Record<string, any>) {
   const trends = useTrends(filters)
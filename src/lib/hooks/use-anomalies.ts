@@ -0,0 +1,48 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { queryKeys } from '@/lib/query/query-client'
+import type { AnomalyGranularity, AnomalySeverity, VolumeAnomaly } from '@/types/anomaly'
+
+export interface AnomalyFilters {
+  clientId?: string
+  granularity?: AnomalyGranularity
+  severity?: AnomalySeverity
+  startDate?: string
+  endDate?: string
+}
+
+async function readError(response: Response, fallback: string): Promise<Error> {
+  const error = await response.json().catch(() => null)
+  return new Error(error?.error || `${fallback}: ${response.statusText}`)
+}
+
+// API functions for volume anomaly operations
+const anomalyApi = {
+  getAnomalies: async (filters?: AnomalyFilters): Promise<VolumeAnomaly[]> => {
+    const params = new URLSearchParams()
+    if (filters) {
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          params.append(key, String(value))
+        }
+      })
+    }
+
+    const response = await fetch(`/api/analytics/anomalies?${params}`)
+    if (!response.ok) {
+      throw await readError(response, 'Failed to fetch anomalies')
+    }
+    const result = await response.json()
+    return result.data
+  },
+}
+
+// Hook for listing stored anomalies
+export function useAnomalies(filters: AnomalyFilters = {}) {
+  return useQuery({
+    queryKey: queryKeys.anomalies.list({ ...filters }),
+    queryFn: () => anomalyApi.getAnomalies(filters),
+    staleTime: 5 * 60 * 1000, // 5 minutes, anomalies only change after imports and syncs
+  })
+}
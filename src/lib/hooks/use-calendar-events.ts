@@ -0,0 +1,159 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '@/lib/query/query-client'
+import type { CalendarEvent, CalendarEventType } from '@/types/calendar'
+import type { HolidayCountry } from '@/lib/utils/holidays'
+
+export interface CalendarEventFilters {
+  startDate?: string
+  endDate?: string
+  clientId?: string
+  eventType?: CalendarEventType
+}
+
+export interface CalendarEventInput {
+  name: string
+  eventType: CalendarEventType
+  startDate: string
+  endDate: string
+  // Leave both unset to apply the event to every client
+  clientId?: string | null
+  clientName?: string
+  notes?: string
+}
+
+interface HolidayImportRequest {
+  countryCode: HolidayCountry
+  year: number
+  clientName?: string
+}
+
+async function readError(response: Response, fallback: string): Promise<Error> {
+  const error = await response.json().catch(() => null)
+  return new Error(error?.error || `${fallback}: ${response.statusText}`)
+}
+
+// API functions for calendar event operations
+const calendarEventApi = {
+  getEvents: async (filters?: CalendarEventFilters): Promise<CalendarEvent[]> => {
+    const params = new URLSearchParams()
+    if (filters) {
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          params.append(key, String(value))
+        }
+      })
+    }
+
+    const response = await fetch(`/api/calendar-events?${params}`)
+    if (!response.ok) {
+      throw await readError(response, 'Failed to fetch calendar events')
+    }
+    const result = await response.json()
+    return result.data
+  },
+
+  createEvent: async (data: CalendarEventInput): Promise<CalendarEvent> => {
+    const response = await fetch('/api/calendar-events', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    })
+    if (!response.ok) {
+      throw await readError(response, 'Failed to create calendar event')
+    }
+    const result = await response.json()
+    return result.data
+  },
+
+  updateEvent: async ({ id, data }: { id: string; data: Partial<CalendarEventInput> }): Promise<CalendarEvent> => {
+    const response = await fetch(`/api/calendar-events/${id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    })
+    if (!response.ok) {
+      throw await readError(response, 'Failed to update calendar event')
+    }
+    const result = await response.json()
+    return result.data
+  },
+
+  deleteEvent: async (id: string): Promise<void> => {
+    const response = await fetch(`/api/calendar-events/${id}`, {
+      method: 'DELETE',
+    })
+    if (!response.ok) {
+      throw await readError(response, 'Failed to delete calendar event')
+    }
+  },
+
+  importHolidays: async (request: HolidayImportRequest): Promise<{ imported: number; skipped: number }> => {
+    const response = await fetch('/api/calendar-events/holidays', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    })
+    if (!response.ok) {
+      throw await readError(response, 'Failed to import holidays')
+    }
+    const result = await response.json()
+    return result.data
+  },
+}
+
+// Hook for listing calendar events
+export function useCalendarEvents(filters: CalendarEventFilters = {}) {
+  return useQuery({
+    queryKey: queryKeys.calendarEvents.list({ ...filters }),
+    queryFn: () => calendarEventApi.getEvents(filters),
+    staleTime: 10 * 60 * 1000, // 10 minutes, the calendar changes rarely
+  })
+}
+
+// Calendar changes alter event regressors, so cached predictions are stale too
+function useInvalidateCalendar() {
+  const queryClient = useQueryClient()
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.calendarEvents.all })
+    queryClient.invalidateQueries({ queryKey: queryKeys.analytics.predictions() })
+  }
+}
+
+export function useCreateCalendarEvent() {
+  const invalidate = useInvalidateCalendar()
+
+  return useMutation({
+    mutationFn: calendarEventApi.createEvent,
+    onSuccess: invalidate,
+  })
+}
+
+export function useUpdateCalendarEvent() {
+  const invalidate = useInvalidateCalendar()
+
+  return useMutation({
+    mutationFn: calendarEventApi.updateEvent,
+    onSuccess: invalidate,
+  })
+}
+
+export function useDeleteCalendarEvent() {
+  const invalidate = useInvalidateCalendar()
+
+  return useMutation({
+    mutationFn: calendarEventApi.deleteEvent,
+    onSuccess: invalidate,
+  })
+}
+
+export function useImportHolidays() {
+  const invalidate = useInvalidateCalendar()
+
+  return useMutation({
+    mutationFn: calendarEventApi.importHolidays,
+    onSuccess: invalidate,
+  })
+}
@@ -0,0 +1,48 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { queryKeys } from '@/lib/query/query-client'
+import type { AHTUnit, CapacityPlan } from '@/types/capacity'
+
+export interface CapacityPlanParams {
+  clientId?: string
+  predictionType?: 'daily' | 'weekly' | 'monthly'
+  // Server defaults apply to any assumption left unset
+  shrinkage?: number
+  occupancy?: number
+  hoursPerDay?: number
+  ahtUnit?: AHTUnit
+}
+
+async function readError(response: Response, fallback: string): Promise<Error> {
+  const error = await response.json().catch(() => null)
+  return new Error(error?.error || `${fallback}: ${response.statusText}`)
+}
+
+// API functions for capacity planning
+const capacityApi = {
+  getPlan: async (params: CapacityPlanParams): Promise<CapacityPlan> => {
+    const searchParams = new URLSearchParams()
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        searchParams.append(key, String(value))
+      }
+    })
+
+    const response = await fetch(`/api/capacity?${searchParams.toString()}`)
+    if (!response.ok) {
+      throw await readError(response, 'Failed to fetch capacity plan')
+    }
+    const result = await response.json()
+    return result.data
+  },
+}
+
+export function useCapacityPlan(params: CapacityPlanParams) {
+  return useQuery({
+    queryKey: queryKeys.capacity.plan({ ...params }),
+    queryFn: () => capacityApi.getPlan(params),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: false,
+  })
+}
@@ -0,0 +1,55 @@
+'use client'
+
+import { useCallback } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '@/lib/query/query-client'
+import type { FinanceReport } from '@/types/finance'
+
+export interface FinanceFilters {
+  // First and last months of actuals, YYYY-MM
+  startMonth?: string
+  endMonth?: string
+  clientNames?: string[]
+  // Segment id to limit the report to
+  segment?: string
+  includeForecast?: boolean
+}
+
+async function readError(response: Response, fallback: string): Promise<Error> {
+  const error = await response.json().catch(() => null)
+  return new Error(error?.error || `${fallback}: ${response.statusText}`)
+}
+
+function toParams(filters: FinanceFilters): URLSearchParams {
+  const params = new URLSearchParams()
+  if (filters.startMonth) params.append('startMonth', filters.startMonth)
+  if (filters.endMonth) params.append('endMonth', filters.endMonth)
+  filters.clientNames?.forEach(clientName => params.append('clientName', clientName))
+  if (filters.segment) params.append('segment', filters.segment)
+  if (filters.includeForecast !== undefined) params.append('includeForecast', String(filters.includeForecast))
+  return params
+}
+
+// API functions for finance reports
+const financeApi = {
+  getReport: async (filters: FinanceFilters): Promise<FinanceReport> => {
+    const response = await fetch(`/api/finance?${toParams(filters)}`)
+    if (!response.ok) {
+      throw await readError(response, 'Failed to fetch finance report')
+    }
+    const result = await response.json()
+    return result.data
+  },
+}
+
+// Fetch monthly revenue, labor cost and margin on demand, e.g. for an export
+export function useFinanceReportFetcher() {
+  const queryClient = useQueryClient()
+
+  return useCallback((filters: FinanceFilters) => queryClient.fetchQuery({
+    queryKey: queryKeys.finance.report({ ...filters }),
+    queryFn: () => financeApi.getReport(filters),
+    staleTime: 5 * 60 * 1000,
+  }), [queryClient])
+}
+
@@ -0,0 +1,110 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '@/lib/query/query-client'
+import type {
+  ImportDateFormat,
+  ImportProfile,
+  ImportProfileScope,
+  ImportValueTransform
+} from '@/types/import-profile'
+
+export interface ImportProfileInput {
+  name: string
+  description?: string
+  scope: ImportProfileScope
+  headers: string[]
+  columnMapping: Record<string, string>
+  dateFormat: ImportDateFormat
+  transforms: Record<string, ImportValueTransform[]>
+  defaultTranscriptType?: string
+  sheetName?: string
+}
+
+async function readError(response: Response, fallback: string): Promise<Error> {
+  const error = await response.json().catch(() => null)
+  return new Error(error?.error || `${fallback}: ${response.statusText}`)
+}
+
+// API functions for import profile operations
+const importProfileApi = {
+  getProfiles: async (): Promise<ImportProfile[]> => {
+    const response = await fetch('/api/import/profiles')
+    if (!response.ok) {
+      throw await readError(response, 'Failed to fetch import profiles')
+    }
+    const result = await response.json()
+    return result.data
+  },
+
+  createProfile: async (data: ImportProfileInput): Promise<ImportProfile> => {
+    const response = await fetch('/api/import/profiles', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    })
+    if (!response.ok) {
+      throw await readError(response, 'Failed to save import profile')
+    }
+    const result = await response.json()
+    return result.data
+  },
+
+  updateProfile: async ({ id, data }: { id: string; data: Partial<ImportProfileInput> }): Promise<ImportProfile> => {
+    const response = await fetch(`/api/import/profiles/${id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    })
+    if (!response.ok) {
+      throw await readError(response, 'Failed to update import profile')
+    }
+    const result = await response.json()
+    return result.data
+  },
+
+  deleteProfile: async (id: string): Promise<void> => {
+    const response = await fetch(`/api/import/profiles/${id}`, {
+      method: 'DELETE',
+    })
+    if (!response.ok) {
+      throw await readError(response, 'Failed to delete import profile')
+    }
+  },
+}
+
+// Hook for the current user's import profiles and the team's
+export function useImportProfiles() {
+  return useQuery({
+    queryKey: queryKeys.importProfiles.list(),
+    queryFn: importProfileApi.getProfiles,
+    staleTime: 10 * 60 * 1000, // 10 minutes, profiles change rarely
+  })
+}
+
+export function useCreateImportProfile() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: importProfileApi.createProfile,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.importProfiles.all }),
+  })
+}
+
+export function useUpdateImportProfile() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: importProfileApi.updateProfile,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.importProfiles.all }),
+  })
+}
+
+export function useDeleteImportProfile() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: importProfileApi.deleteProfile,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.importProfiles.all }),
+  })
+}
@@ -0,0 +1,59 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '@/lib/query/query-client'
+import type { DropFolderStatus, IngestionLogEntry, IngestionStatus } from '@/types/ingestion'
+
+export interface IngestionLogData {
+  entries: IngestionLogEntry[]
+  watcher: DropFolderStatus
+}
+
+async function readError(response: Response, fallback: string): Promise<Error> {
+  const error = await response.json().catch(() => null)
+  return new Error(error?.error || `${fallback}: ${response.statusText}`)
+}
+
+// API functions for the drop-folder ingestion log
+const ingestionApi = {
+  getLog: async (status?: IngestionStatus): Promise<IngestionLogData> => {
+    const params = new URLSearchParams()
+    if (status) params.set('status', status)
+
+    const response = await fetch(`/api/import/drop-folder?${params}`)
+    if (!response.ok) {
+      throw await readError(response, 'Failed to fetch ingestion log')
+    }
+    const result = await response.json()
+    return { entries: result.data, watcher: result.watcher }
+  },
+
+  scan: async (): Promise<IngestionLogData> => {
+    const response = await fetch('/api/import/drop-folder', {
+      method: 'POST',
+    })
+    if (!response.ok) {
+      throw await readError(response, 'Failed to scan drop folder')
+    }
+    const result = await response.json()
+    return { entries: result.data, watcher: result.watcher }
+  },
+}
+
+// Hook for files picked up from the drop folder, for admins
+export function useIngestionLog(status?: IngestionStatus) {
+  return useQuery({
+    queryKey: queryKeys.ingestionLog.list(status),
+    queryFn: () => ingestionApi.getLog(status),
+    refetchInterval: 60 * 1000, // the folder is polled every minute by default
+  })
+}
+
+export function useScanDropFolder() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ingestionApi.scan,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.ingestionLog.all }),
+  })
+}
@@ -8,7 +8,8 @@ import {
 } from '@/lib/services/prediction-service';
 import { 
   PredictionResult, 
-  ModelMetrics 
+  ModelMetrics,
+  ForecastModelType
 } from '@/lib/services/prediction-engine';
 
 export interface UsePredictionsOptions {
@@ -27,7 +28,7 @@ export interface PredictionState {
 }
 
 export interface ModelComparison {
-  bestModel: 'linear' | 'polynomial' | 'arima';
+  bestModel: ForecastModelType;
   results: Record<string, { result: PredictionResult; metrics: ModelMetrics }>;
   recommendation: string;
 }
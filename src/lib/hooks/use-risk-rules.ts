@@ -0,0 +1,109 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '@/lib/query/query-client'
+import type { RiskMetric, RiskOperator, RiskRule } from '@/types/risk'
+
+export interface RiskRuleInput {
+  name: string
+  description?: string
+  metric: RiskMetric
+  operator: RiskOperator
+  threshold: number
+  weight: number
+  enabled: boolean
+}
+
+export interface RiskRuleList {
+  rules: RiskRule[]
+  // True when no rules are stored and the defaults are in effect
+  usingDefaults: boolean
+}
+
+async function readError(response: Response, fallback: string): Promise<Error> {
+  const error = await response.json().catch(() => null)
+  return new Error(error?.error || `${fallback}: ${response.statusText}`)
+}
+
+// API functions for risk rule operations
+const riskRuleApi = {
+  getRules: async (): Promise<RiskRuleList> => {
+    const response = await fetch('/api/aht/risk-rules')
+    if (!response.ok) {
+      throw await readError(response, 'Failed to fetch risk rules')
+    }
+    const result = await response.json()
+    return { rules: result.data, usingDefaults: result.usingDefaults }
+  },
+
+  createRule: async (data: RiskRuleInput): Promise<RiskRule> => {
+    const response = await fetch('/api/aht/risk-rules', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    })
+    if (!response.ok) {
+      throw await readError(response, 'Failed to create risk rule')
+    }
+    const result = await response.json()
+    return result.data
+  },
+
+  updateRule: async ({ id, data }: { id: string; data: Partial<RiskRuleInput> }): Promise<RiskRule> => {
+    const response = await fetch(`/api/aht/risk-rules/${id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    })
+    if (!response.ok) {
+      throw await readError(response, 'Failed to update risk rule')
+    }
+    const result = await response.json()
+    return result.data
+  },
+
+  deleteRule: async (id: string): Promise<void> => {
+    const response = await fetch(`/api/aht/risk-rules/${id}`, {
+      method: 'DELETE',
+    })
+    if (!response.ok) {
+      throw await readError(response, 'Failed to delete risk rule')
+    }
+  },
+}
+
+// Hook for listing risk rules
+export function useRiskRules() {
+  return useQuery({
+    queryKey: queryKeys.riskRules.list(),
+    queryFn: riskRuleApi.getRules,
+    staleTime: 10 * 60 * 1000, // 10 minutes, rules change rarely
+  })
+}
+
+export function useCreateRiskRule() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: riskRuleApi.createRule,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.riskRules.all }),
+  })
+}
+
+export function useUpdateRiskRule() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: riskRuleApi.updateRule,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.riskRules.all }),
+  })
+}
+
+export function useDeleteRiskRule() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: riskRuleApi.deleteRule,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.riskRules.all }),
+  })
+}
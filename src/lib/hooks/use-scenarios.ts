@@ -0,0 +1,128 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '@/lib/query/query-client'
+import type { ForecastScenario, ScenarioAdjustment } from '@/types/scenario'
+
+export interface ScenarioInput {
+  name: string
+  description?: string
+  predictionType: ForecastScenario['predictionType']
+  // Clients whose latest forecast forms the baseline; every client when unset
+  clientIds?: string[]
+  adjustments: ScenarioAdjustment[]
+}
+
+export type ScenarioChanges = Partial<Pick<ScenarioInput, 'name' | 'description' | 'adjustments'>>
+
+async function readError(response: Response, fallback: string): Promise<Error> {
+  const error = await response.json().catch(() => null)
+  return new Error(error?.error || `${fallback}: ${response.statusText}`)
+}
+
+// API functions for scenario operations
+const scenarioApi = {
+  getScenarios: async (): Promise<ForecastScenario[]> => {
+    const response = await fetch('/api/analytics/scenarios')
+    if (!response.ok) {
+      throw await readError(response, 'Failed to fetch scenarios')
+    }
+    const result = await response.json()
+    return result.data
+  },
+
+  getScenario: async (id: string): Promise<ForecastScenario> => {
+    const response = await fetch(`/api/analytics/scenarios/${id}`)
+    if (!response.ok) {
+      throw await readError(response, 'Failed to fetch scenario')
+    }
+    const result = await response.json()
+    return result.data
+  },
+
+  createScenario: async (data: ScenarioInput): Promise<ForecastScenario> => {
+    const response = await fetch('/api/analytics/scenarios', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    })
+    if (!response.ok) {
+      throw await readError(response, 'Failed to create scenario')
+    }
+    const result = await response.json()
+    return result.data
+  },
+
+  updateScenario: async ({ id, data }: { id: string; data: ScenarioChanges }): Promise<ForecastScenario> => {
+    const response = await fetch(`/api/analytics/scenarios/${id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    })
+    if (!response.ok) {
+      throw await readError(response, 'Failed to update scenario')
+    }
+    const result = await response.json()
+    return result.data
+  },
+
+  deleteScenario: async (id: string): Promise<void> => {
+    const response = await fetch(`/api/analytics/scenarios/${id}`, {
+      method: 'DELETE',
+    })
+    if (!response.ok) {
+      throw await readError(response, 'Failed to delete scenario')
+    }
+  },
+}
+
+// Hook for listing saved scenarios
+export function useScenarios() {
+  return useQuery({
+    queryKey: queryKeys.scenarios.list(),
+    queryFn: scenarioApi.getScenarios,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+}
+
+export function useScenario(id: string | null) {
+  return useQuery({
+    queryKey: queryKeys.scenarios.detail(id ?? ''),
+    queryFn: () => scenarioApi.getScenario(id as string),
+    enabled: !!id,
+  })
+}
+
+export function useCreateScenario() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: scenarioApi.createScenario,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.scenarios.all })
+    },
+  })
+}
+
+export function useUpdateScenario() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: scenarioApi.updateScenario,
+    onSuccess: (scenario) => {
+      queryClient.setQueryData(queryKeys.scenarios.detail(scenario.id), scenario)
+      queryClient.invalidateQueries({ queryKey: queryKeys.scenarios.list() })
+    },
+  })
+}
+
+export function useDeleteScenario() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: scenarioApi.deleteScenario,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.scenarios.all })
+    },
+  })
+}
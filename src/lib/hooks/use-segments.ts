@@ -0,0 +1,70 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { queryKeys } from '@/lib/query/query-client'
+import type { ClientSegmentation, CohortRow, SegmentationMethod } from '@/types/segment'
+
+export interface SegmentFilters {
+  method?: SegmentationMethod
+  clusters?: number
+}
+
+export interface CohortFilters {
+  months?: number
+  // Segment id to limit the cohorts to
+  segment?: string
+}
+
+async function readError(response: Response, fallback: string): Promise<Error> {
+  const error = await response.json().catch(() => null)
+  return new Error(error?.error || `${fallback}: ${response.statusText}`)
+}
+
+function toParams(filters: SegmentFilters | CohortFilters): URLSearchParams {
+  const params = new URLSearchParams()
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      params.append(key, String(value))
+    }
+  })
+  return params
+}
+
+// API functions for client segmentation
+const segmentApi = {
+  getSegments: async (filters: SegmentFilters): Promise<ClientSegmentation> => {
+    const response = await fetch(`/api/analytics/segments?${toParams(filters)}`)
+    if (!response.ok) {
+      throw await readError(response, 'Failed to fetch segments')
+    }
+    const result = await response.json()
+    return result.data
+  },
+
+  getCohorts: async (filters: CohortFilters): Promise<CohortRow[]> => {
+    const response = await fetch(`/api/analytics/cohorts?${toParams(filters)}`)
+    if (!response.ok) {
+      throw await readError(response, 'Failed to fetch cohorts')
+    }
+    const result = await response.json()
+    return result.data
+  },
+}
+
+// Hook for client segments by the configured or a chosen method
+export function useSegments(filters: SegmentFilters = {}) {
+  return useQuery({
+    queryKey: queryKeys.segments.list({ ...filters }),
+    queryFn: () => segmentApi.getSegments(filters),
+    staleTime: 10 * 60 * 1000, // 10 minutes, segments move slowly
+  })
+}
+
+// Hook for onboarding cohorts, optionally for one segment
+export function useCohorts(filters: CohortFilters = {}) {
+  return useQuery({
+    queryKey: queryKeys.segments.cohorts({ ...filters }),
+    queryFn: () => segmentApi.getCohorts(filters),
+    staleTime: 10 * 60 * 1000,
+  })
+}
@@ -0,0 +1,41 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { queryKeys } from '@/lib/query/query-client'
+import type { TargetReport } from '@/types/target'
+
+export interface TargetReportFilters {
+  clientNames?: string[]
+  // Segment id to limit the report to
+  segment?: string
+}
+
+async function readError(response: Response, fallback: string): Promise<Error> {
+  const error = await response.json().catch(() => null)
+  return new Error(error?.error || `${fallback}: ${response.statusText}`)
+}
+
+// API functions for client target reports
+const targetApi = {
+  getReport: async (filters: TargetReportFilters): Promise<TargetReport> => {
+    const params = new URLSearchParams()
+    filters.clientNames?.forEach(clientName => params.append('clientName', clientName))
+    if (filters.segment) params.append('segment', filters.segment)
+
+    const response = await fetch(`/api/targets/variance?${params}`)
+    if (!response.ok) {
+      throw await readError(response, 'Failed to fetch target report')
+    }
+    const result = await response.json()
+    return result.data
+  },
+}
+
+// Hook for actuals and forecasts against client targets, with predicted breaches
+export function useTargetReport(filters: TargetReportFilters = {}) {
+  return useQuery({
+    queryKey: queryKeys.targets.variance({ ...filters }),
+    queryFn: () => targetApi.getReport(filters),
+    staleTime: 5 * 60 * 1000,
+  })
+}
@@ -308,6 +308,22 @@ describe('AlertSystem', () => {
     })
   })
 
+  describe('raiseAlert', () => {
+    it('should raise one active alert per source until it is resolved', () => {
+      const alert = alertSystem.raiseAlert('job-test', 'Job alert', 'medium')
+
+      expect(alert?.configId).toBe('job-test')
+      expect(alert?.severity).toBe('medium')
+      expect(alertSystem.raiseAlert('job-test', 'Job alert again', 'medium')).toBeNull()
+      expect(alertSystem.getActiveAlerts().filter(a => a.configId === 'job-test')).toHaveLength(1)
+
+      alertSystem.resolveAlertsForConfig('job-test')
+
+      expect(alertSystem.getActiveAlerts().filter(a => a.configId === 'job-test')).toHaveLength(0)
+      expect(alertSystem.raiseAlert('job-test', 'Job alert', 'medium')).not.toBeNull()
+    })
+  })
+
   describe('getActiveAlerts', () => {
     it('should return only unresolved alerts', () => {
       const config: AlertConfig = {
@@ -99,6 +99,23 @@ class AlertSystem {
     }
   }
 
+  // Raise an alert from outside the metrics check, e.g. a scheduled job.
+  // Returns null when an alert for the same source is already active.
+  raiseAlert(configId: string, message: string, severity: AlertConfig['severity']): Alert | null {
+    const existingAlert = this.alerts.find(
+      alert => alert.configId === configId && !alert.resolved
+    )
+
+    return existingAlert ? null : this.addAlert(configId, message, severity)
+  }
+
+  // Resolve the active alert raised for a source, if any
+  resolveAlertsForConfig(configId: string): void {
+    this.alerts
+      .filter(alert => alert.configId === configId && !alert.resolved)
+      .forEach(alert => this.resolveAlert(alert.id))
+  }
+
   // Check metrics against alert configurations
   checkAlerts(metrics: PerformanceMetrics): Alert[] {
     const newAlerts: Alert[] = []
@@ -116,22 +133,7 @@ class AlertSystem {
         )
 
         if (!existingAlert) {
-          const alert: Alert = {
-            id: crypto.randomUUID(),
-            configId: config.id,
-            message: this.generateAlertMessage(config, metricValue),
-            severity: config.severity,
-            timestamp: new Date(),
-            resolved: false,
-          }
-
-          this.alerts.unshift(alert)
-          newAlerts.push(alert)
-
-          // Keep alert history manageable
-          if (this.alerts.length > this.maxAlertHistory) {
-            this.alerts = this.alerts.slice(0, this.maxAlertHistory)
-          }
+          newAlerts.push(this.addAlert(config.id, this.generateAlertMessage(config, metricValue), config.severity))
         }
       } else {
         // Auto-resolve alerts when condition is no longer met
@@ -164,6 +166,26 @@ class AlertSystem {
     }, 30000) // Check every 30 seconds
   }
 
+  private addAlert(configId: string, message: string, severity: AlertConfig['severity']): Alert {
+    const alert: Alert = {
+      id: crypto.randomUUID(),
+      configId,
+      message,
+      severity,
+      timestamp: new Date(),
+      resolved: false,
+    }
+
+    this.alerts.unshift(alert)
+
+    // Keep alert history manageable
+    if (this.alerts.length > this.maxAlertHistory) {
+      this.alerts = this.alerts.slice(0, this.maxAlertHistory)
+    }
+
+    return alert
+  }
+
   // Evaluate alert condition
   private evaluateCondition(value: number, threshold: number, operator: AlertConfig['operator']): boolean {
     switch (operator) {
@@ -39,8 +39,64 @@ export const queryKeys = {
   analytics: {
     all: ['analytics'] as const,
     trends: () => [...queryKeys.analytics.all, 'trends'] as const,
+    decomposition: (params: Record<string, string | undefined>) => [...queryKeys.analytics.all, 'decomposition', params] as const,
     predictions: () => [...queryKeys.analytics.all, 'predictions'] as const,
+    predictionJob: (id: string) => [...queryKeys.analytics.all, 'predictionJobs', id] as const,
     summary: () => [...queryKeys.analytics.all, 'summary'] as const,
+    backtests: () => [...queryKeys.analytics.all, 'backtests'] as const,
+    models: () => [...queryKeys.analytics.all, 'models'] as const,
+  },
+  // Holiday, client event and outage calendar
+  calendarEvents: {
+    all: ['calendarEvents'] as const,
+    list: (filters: Record<string, string | undefined>) => [...queryKeys.calendarEvents.all, 'list', filters] as const,
+  },
+  // What-if forecast scenarios
+  scenarios: {
+    all: ['scenarios'] as const,
+    list: () => [...queryKeys.scenarios.all, 'list'] as const,
+    detail: (id: string) => [...queryKeys.scenarios.all, 'detail', id] as const,
+  },
+  // Staffing plans from forecasts and AHT
+  capacity: {
+    all: ['capacity'] as const,
+    plan: (params: Record<string, unknown>) => [...queryKeys.capacity.all, 'plan', params] as const,
+  },
+  // Client risk scoring rules
+  riskRules: {
+    all: ['riskRules'] as const,
+    list: () => [...queryKeys.riskRules.all, 'list'] as const,
+  },
+  // Volume anomalies found after imports and syncs
+  anomalies: {
+    all: ['anomalies'] as const,
+    list: (filters: Record<string, string | undefined>) => [...queryKeys.anomalies.all, 'list', filters] as const,
+  },
+  // Client segments and onboarding cohorts
+  segments: {
+    all: ['segments'] as const,
+    list: (params: Record<string, string | number | undefined>) => [...queryKeys.segments.all, 'list', params] as const,
+    cohorts: (params: Record<string, string | number | undefined>) => [...queryKeys.segments.all, 'cohorts', params] as const,
+  },
+  // Revenue, labor cost and margin
+  finance: {
+    all: ['finance'] as const,
+    report: (params: Record<string, string | string[] | boolean | undefined>) => [...queryKeys.finance.all, 'report', params] as const,
+  },
+  // Client volume targets and SLAs
+  targets: {
+    all: ['targets'] as const,
+    variance: (params: Record<string, string | string[] | undefined>) => [...queryKeys.targets.all, 'variance', params] as const,
+  },
+  // Saved column mappings and source profiles for imports
+  importProfiles: {
+    all: ['importProfiles'] as const,
+    list: () => [...queryKeys.importProfiles.all, 'list'] as const,
+  },
+  // Drop-folder ingestion log
+  ingestionLog: {
+    all: ['ingestionLog'] as const,
+    list: (status?: string) => [...queryKeys.ingestionLog.all, 'list', status] as const,
   },
   // Performance monitoring queries
   monitoring: {
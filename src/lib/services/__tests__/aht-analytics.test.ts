@@ -0,0 +1,108 @@
+import type { AHTData } from '@/types/aht'
+import { AHTAnalyticsService, loadAHTAnalytics, loadRiskContext } from '../aht-analytics'
+import { DEFAULT_RISK_RULES } from '@/lib/utils/risk-rules'
+
+describe('AHTAnalyticsService', () => {
+  const client = (name: string, overallAHT: number, monthlyData: Record<string, number>): AHTData => ({
+    client: name,
+    overallAHT,
+    reviewAHT: overallAHT * 0.75,
+    validationAHT: overallAHT * 0.25,
+    monthlyData,
+    grandTotal: Object.values(monthlyData).reduce((sum, volume) => sum + volume, 0)
+  })
+
+  const data = [
+    client('alpha', 10, { '2025_Jan': 100, '2025_Feb': 100, '2025_Mar': 300, '2025_Apr': 300 }),
+    client('beta', 20, { '2025_Feb': 50, '2025_Apr': 50 })
+  ]
+
+  it('should report trends over the months present in the data', () => {
+    const service = new AHTAnalyticsService(data)
+    const trends = service.getMonthlyTrends()
+
+    expect(trends.map(t => t.month)).toEqual(['Jan 2025', 'Feb 2025', 'Mar 2025', 'Apr 2025'])
+    expect(trends[1]).toEqual({ month: 'Feb 2025', totalVolume: 150, averageAHT: 13.33, clientCount: 2 })
+  })
+
+  it('should compare the first and second half of the available months', () => {
+    const performance = new AHTAnalyticsService(data).getClientPerformance()
+    const alpha = performance.find(p => p.client === 'alpha')!
+
+    expect(alpha.trend).toBe('increasing')
+    expect(alpha.trendPercentage).toBe(200)
+    expect(alpha.monthlyVolumes).toHaveLength(4)
+  })
+
+  it('should weight trends by the AHT recorded for each month', () => {
+    const withMonthly: AHTData = {
+      ...client('gamma', 30, { '2025_Feb': 50 }),
+      monthlyAHT: { '2025_Feb': { reviewAHT: 12, validationAHT: 4 } }
+    }
+    const service = new AHTAnalyticsService([...data, withMonthly])
+
+    expect(service.monthAHT(withMonthly, '2025_Feb')).toBe(16)
+    expect(service.monthAHT(withMonthly, '2025_Jan')).toBe(30)
+    expect(service.getMonthlyTrends()[1].averageAHT).toBe(14) // (100 * 10 + 50 * 20 + 50 * 16) / 200
+  })
+
+  it('should summarise an empty dataset without failing', () => {
+    const summary = new AHTAnalyticsService([]).getSummary()
+
+    expect(summary.totalClients).toBe(0)
+    expect(summary.averageAHT).toBe(0)
+    expect(summary.highestAHT).toEqual({ client: '', value: 0 })
+  })
+
+  it('should load clients and months from the store', async () => {
+    const store = { getAHTData: jest.fn().mockResolvedValue({ clients: data, months: ['2025_Mar', '2025_Apr'] }) }
+
+    const service = await loadAHTAnalytics(store)
+
+    expect(store.getAHTData).toHaveBeenCalled()
+    expect(service.getMonthlyTrends().map(t => t.month)).toEqual(['Mar 2025', 'Apr 2025'])
+  })
+
+  it('should explain risk levels with the rules that fired', () => {
+    const rules = [
+      { id: 'aht', name: 'High AHT', metric: 'overallAHT' as const, operator: 'gt' as const, threshold: 15, weight: 1, enabled: true }
+    ]
+    const performance = new AHTAnalyticsService(data).getClientPerformance(
+      { rules, signals: {} },
+      { highScore: 50, mediumScore: 20, growthMonths: 3 }
+    )
+
+    const beta = performance.find(p => p.client === 'beta')!
+    expect(beta.riskLevel).toBe('high')
+    expect(beta.riskScore).toBe(100)
+    expect(beta.riskRules[0]).toMatchObject({ ruleId: 'aht', fired: true, explanation: 'Overall AHT 20 > 15' })
+    expect(performance.find(p => p.client === 'alpha')!.riskLevel).toBe('low')
+  })
+
+  it('should load stored rules, recent forecast error and SLA misses per client', async () => {
+    const outcomes = Array.from({ length: 5 }, (_, i) => ({
+      predictionId: 'p1',
+      clientId: 'c1',
+      clientName: 'Alpha',
+      predictionType: 'daily' as const,
+      modelType: 'arima',
+      horizon: 1,
+      periodStart: new Date(2025, 4, 20 + i),
+      predictedCount: 150,
+      confidenceLower: 100,
+      confidenceUpper: 200,
+      actualCount: 50
+    }))
+    const outcomeStore = { getOutcomes: jest.fn().mockResolvedValue(outcomes) }
+    const targetStore = { slaMisses: jest.fn().mockResolvedValue({ alpha: 2 }) }
+
+    const withDefaults = await loadRiskContext({ getRules: jest.fn().mockResolvedValue([]) }, outcomeStore, new Date(2025, 5, 1), targetStore)
+    expect(withDefaults.rules).toBe(DEFAULT_RISK_RULES)
+    expect(withDefaults.signals.forecastErrors).toEqual({ alpha: 100 })
+    expect(withDefaults.signals.slaMisses).toEqual({ alpha: 2 })
+
+    const stored = [{ ...DEFAULT_RISK_RULES[0], id: 'stored' }]
+    const context = await loadRiskContext({ getRules: jest.fn().mockResolvedValue(stored) }, outcomeStore, new Date(2025, 5, 1), targetStore)
+    expect(context.rules).toEqual(stored)
+  })
+})
@@ -0,0 +1,76 @@
+import { AHTForecastService } from '../aht-forecast-service';
+import { AHTData, MonthlyAHT } from '@/types/aht';
+
+// Statistical models run without TensorFlow; only backend selection is needed
+jest.mock('@tensorflow/tfjs', () => ({
+  setBackend: jest.fn().mockResolvedValue(undefined)
+}));
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function buildClient(name: string, length: number, skip: number[] = []): AHTData {
+  const monthlyAHT: Record<string, MonthlyAHT> = {};
+  for (let i = 0; i < length; i++) {
+    if (skip.includes(i)) continue;
+    monthlyAHT[`2024_${MONTHS[i]}`] = {
+      reviewAHT: 300 + i * 5 + (i % 2) * 3,
+      validationAHT: 120 + (i % 3) * 2
+    };
+  }
+
+  return {
+    client: name,
+    overallAHT: 420,
+    reviewAHT: 300,
+    validationAHT: 120,
+    monthlyData: {},
+    monthlyAHT,
+    grandTotal: 0
+  };
+}
+
+describe('AHTForecastService', () => {
+  let service: AHTForecastService;
+
+  beforeEach(() => {
+    service = new AHTForecastService();
+  });
+
+  it('should carry months without a record forward when building a series', () => {
+    const series = service.buildSeries(buildClient('Acme', 5, [2]), 'validationAHT');
+
+    expect(series.months).toEqual(['2024_Jan', '2024_Feb', '2024_Mar', '2024_Apr', '2024_May']);
+    expect(series.values).toEqual([120, 122, 122, 120, 122]);
+  });
+
+  it('should forecast both components with confidence from backtested error', async () => {
+    const { forecasts, skipped } = await service.forecast([buildClient('Acme', 12)], {
+      modelType: 'arima',
+      periodsAhead: 2
+    });
+
+    expect(skipped).toEqual([]);
+    const [forecast] = forecasts;
+    expect(forecast.lastMonth).toBe('2024_Dec');
+    expect(forecast.review.predictions.map(p => p.month)).toEqual(['2025_Jan', '2025_Feb']);
+    expect(forecast.review.backtest?.origins).toBe(6);
+    expect(forecast.review.confidence).toBeGreaterThan(0.9);
+    expect(forecast.confidence).toBe(Math.min(forecast.review.confidence!, forecast.validation.confidence!));
+    expect(forecast.predictedAHT).toBeCloseTo(
+      forecast.review.predictions[0].predictedAHT + forecast.validation.predictions[0].predictedAHT,
+      2
+    );
+  });
+
+  it('should forecast short histories without confidence and skip clients with too few months', async () => {
+    const { forecasts, skipped } = await service.forecast(
+      [buildClient('Short', 4), buildClient('Tiny', 2)],
+      { modelType: 'arima' }
+    );
+
+    expect(forecasts.map(f => f.client)).toEqual(['Short']);
+    expect(forecasts[0].confidence).toBeNull();
+    expect(forecasts[0].review.backtest).toBeNull();
+    expect(skipped).toEqual([{ client: 'Tiny', reason: 'Needs at least 3 months of review and validation AHT' }]);
+  });
+});
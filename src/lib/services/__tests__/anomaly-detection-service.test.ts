@@ -0,0 +1,111 @@
+import {
+  AnomalyAlertSink,
+  AnomalyDetectionService,
+  AnomalyHistorySource,
+  AnomalyStore,
+  volumeAnomalyAlertId
+} from '../anomaly-detection-service';
+import { TranscriptData } from '@/types/transcript';
+import { AnomalyDetectionConfig } from '@/lib/config/anomaly-detection';
+
+jest.mock('@/lib/database/anomalies', () => ({
+  AnomalyService: jest.fn()
+}));
+jest.mock('@/lib/database/transcripts', () => ({
+  TranscriptService: jest.fn()
+}));
+jest.mock('@/lib/database/calendar-events', () => ({
+  CalendarEventService: jest.fn()
+}));
+jest.mock('@/lib/monitoring/alert-system', () => ({
+  alertSystem: {}
+}));
+
+const config: AnomalyDetectionConfig = {
+  zThreshold: 3.5,
+  mediumZ: 4.5,
+  highZ: 6,
+  criticalZ: 9,
+  alertSeverity: 'medium',
+  historyMonths: 36,
+  syncLookbackDays: 35
+};
+
+// Eight weeks from Monday 6 Jan 2025 of steady weekday volume with quieter weekends
+function dailyRecords(clientName: string, override: Record<number, number> = {}): TranscriptData[] {
+  return Array.from({ length: 56 }, (_, i) => {
+    const date = new Date(2025, 0, 6 + i);
+    const weekend = date.getDay() === 0 || date.getDay() === 6;
+
+    return {
+      id: `${clientName}-${i}`,
+      clientId: `id-${clientName}`,
+      clientName,
+      date,
+      transcriptCount: override[i] ?? (weekend ? 20 : 100) + ((i * 7) % 5) - 2,
+      createdAt: date,
+      updatedAt: date,
+      createdBy: 'test'
+    };
+  });
+}
+
+describe('AnomalyDetectionService', () => {
+  const replaceAnomalies = jest.fn();
+  const getTranscripts = jest.fn();
+  const raiseAlert = jest.fn();
+  let store: AnomalyStore;
+  let history: AnomalyHistorySource;
+  let alerts: AnomalyAlertSink;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    replaceAnomalies.mockResolvedValue(1);
+    // Acme misses a January day and a February day; Globex is steady
+    getTranscripts.mockResolvedValue([
+      ...dailyRecords('Acme', { 9: 0, 38: 0 }),
+      ...dailyRecords('Globex')
+    ]);
+    raiseAlert.mockImplementation((configId: string) => ({ id: configId }));
+    store = { replaceAnomalies };
+    history = {
+      getTranscripts,
+      getEvents: async () => [
+        { name: 'Platform outage', eventType: 'outage', startDate: new Date(2025, 1, 13), endDate: new Date(2025, 1, 13) }
+      ]
+    };
+    alerts = { raiseAlert };
+  });
+
+  it('should store and alert on anomalies from the month of the new data onwards', async () => {
+    const service = new AnomalyDetectionService(store, history, alerts, config);
+    const report = await service.run({ since: new Date(2025, 1, 10), asOf: new Date(2025, 2, 3) });
+
+    expect(getTranscripts).toHaveBeenCalledWith(new Date(2022, 1, 1), new Date(2025, 2, 3));
+    expect(report.clientsChecked).toBe(2);
+    expect(report.anomalies).toHaveLength(1);
+    expect(report.anomalies[0].periodStart).toEqual(new Date(2025, 1, 13));
+    expect(report.anomalies[0].hints[0]).toBe('Overlaps outage "Platform outage"');
+
+    expect(replaceAnomalies).toHaveBeenCalledWith(['id-Acme', 'id-Globex'], new Date(2025, 1, 1), report.anomalies);
+    expect(raiseAlert).toHaveBeenCalledTimes(1);
+    expect(raiseAlert).toHaveBeenCalledWith(
+      volumeAnomalyAlertId(report.anomalies[0]),
+      expect.stringContaining('Volume drop for Acme (daily, 2025-02-13): 0 transcripts against'),
+      'critical'
+    );
+    expect(report.alerted).toBe(1);
+  });
+
+  it('should limit the run to the named clients and not count alerts already active', async () => {
+    raiseAlert.mockReturnValue(null);
+
+    const service = new AnomalyDetectionService(store, history, alerts, config);
+    const report = await service.run({ since: new Date(2025, 0, 6), clientNames: ['acme'], asOf: new Date(2025, 2, 3) });
+
+    expect(report.clientsChecked).toBe(1);
+    expect(report.anomalies.map(a => a.periodStart)).toEqual([new Date(2025, 0, 15), new Date(2025, 1, 13)]);
+    expect(replaceAnomalies).toHaveBeenCalledWith(['id-Acme'], new Date(2025, 0, 1), report.anomalies);
+    expect(report.alerted).toBe(0);
+  });
+});
@@ -0,0 +1,109 @@
+import { BacktestService } from '../backtest-service';
+import { TranscriptData } from '@/types/transcript';
+
+// Statistical models run without TensorFlow; only backend selection is needed
+jest.mock('@tensorflow/tfjs', () => ({
+  setBackend: jest.fn().mockResolvedValue(undefined)
+}));
+
+const weeklyPattern = [30, 28, 26, 25, 24, 12, 10];
+
+function buildSeries(length: number): TranscriptData[] {
+  return Array.from({ length }, (_, i) => ({
+    id: `b${i}`,
+    clientId: 'client-b',
+    clientName: 'Client B',
+    date: new Date(2024, 0, i + 1),
+    transcriptCount: weeklyPattern[i % 7] + Math.floor(i / 7),
+    transcriptType: 'type1',
+    notes: '',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    createdBy: 'user1'
+  }));
+}
+
+describe('BacktestService', () => {
+  let service: BacktestService;
+
+  beforeEach(() => {
+    service = new BacktestService();
+  });
+
+  it('should report accuracy for every horizon of every model', async () => {
+    const report = await service.runBacktest(buildSeries(56), {
+      clientName: 'Client B',
+      predictionType: 'daily',
+      modelTypes: ['holt-winters-additive', 'arima'],
+      horizon: 3,
+      maxOrigins: 5
+    });
+
+    expect(report.origins).toBe(5);
+    expect(report.initialWindow).toBe(56 - 3 - 4);
+    expect(report.models).toHaveLength(2);
+
+    report.models.forEach(model => {
+      expect(model.origins).toBe(5);
+      expect(model.horizons.map(h => h.horizon)).toEqual([1, 2, 3]);
+      model.horizons.forEach(h => expect(h.count).toBe(5));
+      expect(model.overall.count).toBe(15);
+      expect(model.overall.mase).not.toBeNull();
+      expect(model.overall.coverage).toBeGreaterThanOrEqual(0);
+      expect(model.overall.coverage).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('should recommend the seasonal model for seasonal data', async () => {
+    const report = await service.runBacktest(buildSeries(56), {
+      predictionType: 'daily',
+      modelTypes: ['arima', 'holt-winters-additive'],
+      horizon: 7,
+      step: 7,
+      initialWindow: 28
+    });
+
+    expect(report.origins).toBe(4);
+    expect(report.recommendedModel).toBe('holt-winters-additive');
+  });
+
+  it('should keep the training window fixed for rolling origins', async () => {
+    const report = await service.runBacktest(buildSeries(42), {
+      predictionType: 'daily',
+      modelTypes: ['holt-winters-additive'],
+      horizon: 2,
+      windowType: 'rolling',
+      initialWindow: 14,
+      maxOrigins: 3
+    });
+
+    expect(report.windowType).toBe('rolling');
+    expect(report.origins).toBe(3);
+    expect(report.models[0].failedOrigins).toBe(0);
+  });
+
+  it('should record models that cannot be fitted instead of failing the run', async () => {
+    const report = await service.runBacktest(buildSeries(30), {
+      predictionType: 'daily',
+      modelTypes: ['holt-winters-additive', 'arima'],
+      horizon: 2,
+      seasonLength: 20,
+      maxOrigins: 3
+    });
+
+    const holtWinters = report.models.find(m => m.modelType === 'holt-winters-additive')!;
+    expect(holtWinters.origins).toBe(0);
+    expect(holtWinters.failedOrigins).toBe(3);
+    expect(holtWinters.horizons).toEqual([]);
+    expect(holtWinters.error).toContain('Insufficient data for Holt-Winters model');
+    expect(report.recommendedModel).toBe('arima');
+  });
+
+  it('should reject series shorter than the initial window plus horizon', async () => {
+    await expect(service.runBacktest(buildSeries(10), {
+      predictionType: 'daily',
+      modelTypes: ['arima'],
+      horizon: 3
+    })).rejects.toThrow('Insufficient data for backtesting');
+  });
+});
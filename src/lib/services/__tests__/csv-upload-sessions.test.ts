@@ -0,0 +1,57 @@
+import { CSVUploadSessions, CSVUploadSessionError } from '../csv-upload-sessions';
+
+describe('CSVUploadSessions', () => {
+  const bytes = new TextEncoder().encode('client,date,count\nAcme,2025-01-02,10\n"Globex\nEast",2025-01-03,12\n');
+
+  const chunk = (index: number, uploadId?: string, userId = 'user-1') => ({
+    uploadId,
+    chunkIndex: index,
+    totalChunks: 3,
+    fileSize: bytes.length,
+    hasHeaders: true,
+    userId,
+    bytes: bytes.slice(index * 25, (index + 1) * 25)
+  });
+
+  it('should return the rows each chunk completes and finish on the last chunk', () => {
+    const sessions = new CSVUploadSessions();
+
+    const first = sessions.receive(chunk(0));
+    const second = sessions.receive(chunk(1, first.uploadId));
+    const last = sessions.receive(chunk(2, first.uploadId));
+
+    // Too little text yet to choose a delimiter from, so rows are held back until the end
+    expect(first.rows).toEqual([]);
+    expect(second.done).toBe(false);
+    expect(last.done).toBe(true);
+    expect(last.headers).toEqual(['client', 'date', 'count']);
+    expect([...first.rows, ...second.rows, ...last.rows]).toEqual([
+      { client: 'Acme', date: '2025-01-02', count: '10' },
+      { client: 'Globex\nEast', date: '2025-01-03', count: '12' }
+    ]);
+    expect(last.totalRows).toBe(2);
+    expect(last.columnTypes).toEqual({ client: 'text', date: 'date', count: 'number' });
+    expect(sessions.activeCount).toBe(0);
+  });
+
+  it('should reject chunks out of order, from another user or past the declared size', () => {
+    const sessions = new CSVUploadSessions();
+    const { uploadId } = sessions.receive(chunk(0));
+
+    expect(() => sessions.receive(chunk(1))).toThrow('An upload must start with its first chunk');
+    expect(() => sessions.receive(chunk(2, uploadId))).toThrow('Expected chunk 1 but received chunk 2');
+    expect(() => sessions.receive(chunk(1, uploadId, 'user-2'))).toThrow(CSVUploadSessionError);
+    sessions.receive(chunk(1, uploadId));
+    expect(() => sessions.receive({ ...chunk(2, uploadId), bytes: new Uint8Array(bytes.length) })).toThrow(
+      'Upload is larger than its declared file size'
+    );
+    expect(sessions.activeCount).toBe(0);
+  });
+
+  it('should drop sessions that stop receiving chunks', () => {
+    const sessions = new CSVUploadSessions(60 * 1000);
+    const { uploadId } = sessions.receive(chunk(0), 0);
+
+    expect(() => sessions.receive(chunk(1, uploadId), 61 * 1000)).toThrow('Upload not found or expired');
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * @jest-environment node
+ */
+import { mkdir, mkdtemp, readdir, rm, utimes, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  DROP_FOLDER_ALERT_ID,
+  DropFolderIngestion,
+  IngestionStore,
+  dropFileAlertId
+} from '../drop-folder-ingestion';
+import { DropFolderConfig } from '@/lib/config/drop-folder';
+import { ImportProfile } from '@/types/import-profile';
+import { headerFingerprint } from '@/lib/utils/import-profiles';
+
+// The shared alert system polls metrics on a timer that would keep the node environment alive
+jest.mock('@/lib/monitoring/alert-system', () => ({ alertSystem: {} }));
+
+describe('DropFolderIngestion', () => {
+  let directory: string;
+
+  const headers = ['Account', 'Day', 'Volume'];
+  const profile: ImportProfile = {
+    id: 'p1',
+    name: 'Acme daily',
+    scope: 'team',
+    headers,
+    headerFingerprint: headerFingerprint(headers),
+    columnMapping: { clientName: 'Account', date: 'Day', transcriptCount: 'Volume' },
+    dateFormat: 'DD/MM/YYYY',
+    transforms: {},
+    createdBy: 'u1',
+    createdAt: new Date(2025, 0, 1),
+    updatedAt: new Date(2025, 0, 1)
+  };
+
+  const buildStore = () => ({
+    getProfiles: jest.fn().mockResolvedValue([profile]),
+    importRows: jest.fn().mockImplementation(async (input: Parameters<IngestionStore['importRows']>[0]) => ({
+      batchId: 'b1',
+      result: {
+        totalRows: input.totalRows,
+        successCount: input.rows.length,
+        errorCount: input.errors.length,
+        errors: input.errors,
+        duplicateCount: 0
+      }
+    })),
+    logIngestion: jest.fn().mockImplementation(async (entry: Parameters<IngestionStore['logIngestion']>[0]) => ({ id: 'log', ...entry }))
+  });
+
+  const buildAlerts = () => ({
+    raiseAlert: jest.fn().mockReturnValue({ id: 'alert' }),
+    resolveAlertsForConfig: jest.fn()
+  });
+
+  const config = (overrides: Partial<DropFolderConfig> = {}): DropFolderConfig => ({
+    directory,
+    pollIntervalMs: 60000,
+    settleMs: 0,
+    claimLeaseMs: 60000,
+    conflictResolution: 'skip',
+    maxErrorPercent: 0,
+    ...overrides
+  });
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'drop-folder-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should import a file matching a team profile and move it to processed', async () => {
+    await writeFile(join(directory, 'acme.csv'), 'Account,Day,Volume\nAcme,13/02/2025,12\nAcme,14/02/2025,9\n');
+    const store = buildStore();
+    const alerts = buildAlerts();
+
+    const [entry] = await new DropFolderIngestion(store, alerts, config({ conflictResolution: 'replace' })).scan();
+
+    expect(entry).toMatchObject({
+      fileName: 'acme.csv',
+      status: 'committed',
+      profileId: 'p1',
+      batchId: 'b1',
+      totalRows: 2,
+      importedRows: 2,
+      errorCount: 0,
+      message: 'Imported 2 of 2 rows with the Acme daily profile'
+    });
+    expect(entry.storedAs).toMatch(/^processed\/.*_acme\.csv$/);
+
+    const [input, strategy, importedBy] = store.importRows.mock.calls[0];
+    expect(input.rows.map((row: { date: Date }) => row.date.toISOString().slice(0, 10))).toEqual(['2025-02-13', '2025-02-14']);
+    expect([strategy, importedBy]).toEqual(['replace', 'u1']);
+
+    expect(await readdir(directory)).toEqual(['processed', 'processing']);
+    expect(await readdir(join(directory, 'processing'))).toEqual([]);
+    expect(alerts.resolveAlertsForConfig).toHaveBeenCalledWith(dropFileAlertId('acme.csv'));
+  });
+
+  it('should quarantine and alert on files no profile matches', async () => {
+    await writeFile(join(directory, 'other.csv'), 'Client,Date\nAcme,2025-02-13\n');
+    const store = buildStore();
+    const alerts = buildAlerts();
+
+    const [entry] = await new DropFolderIngestion(store, alerts, config()).scan();
+
+    expect(entry.status).toBe('quarantined');
+    expect(entry.message).toBe('No team import profile matches the columns Client, Date');
+    expect(entry.storedAs).toMatch(/^quarantine\//);
+    expect(store.importRows).not.toHaveBeenCalled();
+    expect(alerts.raiseAlert).toHaveBeenCalledWith(
+      dropFileAlertId('other.csv'),
+      'Drop folder file other.csv was quarantined: No team import profile matches the columns Client, Date',
+      'high'
+    );
+  });
+
+  it('should quarantine files with more invalid rows than allowed', async () => {
+    const csv = 'Account,Day,Volume\n,13/02/2025,12\nAcme,14/02/2025,9\n';
+    const store = buildStore();
+
+    await writeFile(join(directory, 'strict.csv'), csv);
+    const [strict] = await new DropFolderIngestion(store, buildAlerts(), config()).scan();
+
+    await writeFile(join(directory, 'lenient.csv'), csv);
+    const [lenient] = await new DropFolderIngestion(store, buildAlerts(), config({ maxErrorPercent: 50 })).scan();
+
+    expect(strict).toMatchObject({
+      status: 'quarantined',
+      totalRows: 2,
+      errorCount: 1,
+      message: '1 of 2 rows are invalid, more than the 0% allowed'
+    });
+    expect(strict.errors[0].message).toBe('Client name is required');
+    expect(lenient).toMatchObject({ status: 'committed', importedRows: 1, errorCount: 1 });
+    expect(store.importRows).toHaveBeenCalledTimes(1);
+    // The staged row keeps its place in the file, after the invalid one
+    expect(store.importRows.mock.calls[0][0].rows).toEqual([expect.objectContaining({ rowNumber: 2 })]);
+  });
+
+  it('should leave files that are still being written and hidden files alone', async () => {
+    await writeFile(join(directory, 'arriving.csv'), 'Account,Day,Volume\n');
+    await writeFile(join(directory, '.partial.csv'), 'Account,Day,Volume\n');
+    const settled = join(directory, 'settled.csv');
+    await writeFile(settled, 'Account,Day,Volume\nAcme,13/02/2025,12\n');
+    const anHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    await utimes(settled, anHourAgo, anHourAgo);
+
+    const entries = await new DropFolderIngestion(buildStore(), buildAlerts(), config({ settleMs: 60000 })).scan();
+
+    expect(entries.map(entry => entry.fileName)).toEqual(['settled.csv']);
+    expect((await readdir(directory)).sort()).toEqual(['.partial.csv', 'arriving.csv', 'processed', 'processing']);
+  });
+
+  it('should only take back claimed files whose lease has expired', async () => {
+    const processing = join(directory, 'processing');
+    const csv = 'Account,Day,Volume\nAcme,13/02/2025,12\n';
+    const anHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    await mkdir(processing);
+    await writeFile(join(processing, 'busy.csv'), csv);
+    await writeFile(join(processing, '.busy.csv.lease'), '');
+    await writeFile(join(processing, 'abandoned.csv'), csv);
+    await writeFile(join(processing, '.abandoned.csv.lease'), '');
+    await utimes(join(processing, '.abandoned.csv.lease'), anHourAgo, anHourAgo);
+    await writeFile(join(processing, 'unleased.csv'), csv);
+
+    const entries = await new DropFolderIngestion(buildStore(), buildAlerts(), config()).scan();
+
+    expect(entries.map(entry => [entry.fileName, entry.status])).toEqual([
+      ['abandoned.csv', 'committed'],
+      ['unleased.csv', 'committed']
+    ]);
+    expect((await readdir(processing)).sort()).toEqual(['.busy.csv.lease', 'busy.csv']);
+  });
+
+  it('should alert while the folder cannot be read and resolve once it can', async () => {
+    const alerts = buildAlerts();
+    const ingestion = new DropFolderIngestion(buildStore(), alerts, config({ directory: join(directory, 'unmounted') }));
+
+    expect(await ingestion.scan()).toEqual([]);
+    expect(alerts.raiseAlert).toHaveBeenCalledWith(DROP_FOLDER_ALERT_ID, expect.stringContaining('cannot be read'), 'high');
+    expect(ingestion.status.lastError).toContain('cannot be read');
+    expect(await readdir(directory)).toEqual([]);
+
+    const available = new DropFolderIngestion(buildStore(), alerts, config());
+    expect(await available.scan()).toEqual([]);
+    expect(alerts.resolveAlertsForConfig).toHaveBeenCalledWith(DROP_FOLDER_ALERT_ID);
+    expect(available.status.lastScanAt).toBeInstanceOf(Date);
+  });
+});
@@ -1,5 +1,6 @@
 import { ExportService, ExportOptions, AnalyticsData } from '../export-service'
 import { format, subDays } from 'date-fns'
+import { ForecastScenario } from '@/types/scenario'
 
 // Mock jsPDF
 jest.mock('jspdf', () => {
@@ -131,6 +132,44 @@ describe('ExportService', () => {
       expect(result.data).toContain('2024-01-20,Client A,28,25,31,linear,0.92')
     })
 
+    it('should generate CSV with finance sections', async () => {
+      const figures = (volume: number, revenue: number, laborCost: number) => ({
+        volume,
+        revenue,
+        laborHours: laborCost / 20,
+        laborCost,
+        margin: revenue - laborCost,
+        marginPercent: revenue > 0 ? Math.round(((revenue - laborCost) / revenue) * 1000) / 10 : null
+      })
+      const data: AnalyticsData = {
+        ...mockAnalyticsData,
+        finance: {
+          currency: 'USD',
+          laborCostPerHour: 20,
+          clients: [
+            { clientName: 'Client A', month: '2024-01', kind: 'actual', rateCard: 'client', reviewAHT: 300, validationAHT: 60, ...figures(25, 75, 50) },
+            { clientName: 'Client B', month: '2024-01', kind: 'actual', rateCard: null, reviewAHT: null, validationAHT: null, ...figures(30, 0, 0) }
+          ],
+          months: [{ month: '2024-01', kind: 'actual', ...figures(55, 75, 50) }],
+          totals: { actual: figures(55, 75, 50), forecast: figures(0, 0, 0) },
+          unpricedClients: ['Client B'],
+          uncostedClients: ['Client B']
+        }
+      }
+
+      const result = await exportService.exportData(data, { format: 'csv', includeFinance: true })
+
+      expect(result.success).toBe(true)
+      expect(result.data).toContain('# Monthly Finance (USD, labor at 20.00 per hour)')
+      expect(result.data).toContain('2024-01,actual,55,75.00,2.5,50.00,25.00,33.3%')
+      expect(result.data).toContain('Total,forecast,0,0.00,0.0,0.00,0.00,N/A')
+      expect(result.data).toContain('2024-01,actual,Client B,none,30,0.00,0.0,0.00,0.00,N/A')
+      expect(result.data).toContain('# Without a rate card: Client B')
+
+      const withoutFinance = await exportService.exportData(data, { format: 'csv' })
+      expect(withoutFinance.data).not.toContain('Finance')
+    })
+
     it('should escape CSV fields with commas and quotes', async () => {
       const dataWithSpecialChars: AnalyticsData = {
         ...mockAnalyticsData,
@@ -233,6 +272,64 @@ describe('ExportService', () => {
     })
   })
 
+  describe('Scenario Export', () => {
+    const baselineForecast = (clientName: string, counts: number[]) => ({
+      id: `pred-${clientName}`,
+      clientName,
+      predictionType: 'monthly' as const,
+      predictions: counts.map((count, i) => ({
+        date: new Date(2024, i, 1),
+        predictedCount: count,
+        confidenceInterval: { lower: count - 10, upper: count + 10 }
+      })),
+      confidence: 0.95,
+      accuracy: 90,
+      modelType: 'linear',
+      createdAt: new Date()
+    })
+
+    const scenario: ForecastScenario = {
+      id: 'scenario-1',
+      name: 'Q1 plan',
+      predictionType: 'monthly',
+      adjustments: [
+        { type: 'uplift', clientName: 'Client A', percent: 10 },
+        { type: 'new-client', clientName: 'Client C', startDate: new Date(2024, 1, 1), volume: 50, rampPeriods: 1, curve: 'step' }
+      ],
+      baseline: [baselineForecast('Client A', [100, 200])],
+      forecasts: [
+        baselineForecast('Client A', [110, 220]),
+        { ...baselineForecast('Client C', [0, 50]), modelType: 'scenario' }
+      ],
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }
+
+    it('should export baseline and scenario side by side as CSV', async () => {
+      const result = await exportService.exportScenario(scenario, 'csv')
+
+      expect(result.success).toBe(true)
+      expect(result.filename).toMatch(/^scenario_Q1_plan_.*\.csv$/)
+
+      const csvData = result.data as string
+      expect(csvData).toContain('# Scenario: Q1 plan')
+      expect(csvData).toContain('# Adjustment: +10% Client A')
+      expect(csvData).toContain('# Adjustment: New client Client C: 50 per period from 2024-02-01')
+      expect(csvData).toContain('Date,Client,Baseline,Scenario,Difference,Difference %')
+      expect(csvData).toContain('2024-01-01,Client A,100,110,10,10.0%')
+      expect(csvData).toContain('2024-02-01,Client C,0,50,50,N/A')
+      expect(csvData).toContain('Total,,300,380,80,26.7%')
+    })
+
+    it('should export a scenario as PDF', async () => {
+      const result = await exportService.exportScenario(scenario, 'pdf')
+
+      expect(result.success).toBe(true)
+      expect(result.filename).toMatch(/\.pdf$/)
+      expect(result.data).toBeInstanceOf(Blob)
+    })
+  })
+
   describe('Error Handling', () => {
     it('should handle unsupported format', async () => {
       const options: ExportOptions = {
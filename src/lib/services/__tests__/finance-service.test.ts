@@ -0,0 +1,96 @@
+import { FinanceDataSource, FinanceService } from '../finance-service';
+import { FinanceConfig } from '@/lib/config/finance';
+import { TranscriptData } from '@/types/transcript';
+
+jest.mock('@/lib/database/transcripts', () => ({
+  TranscriptService: jest.fn()
+}));
+jest.mock('@/lib/database/predictions', () => ({
+  PredictionService: jest.fn()
+}));
+jest.mock('@/lib/database/aht', () => ({
+  AHTService: jest.fn()
+}));
+jest.mock('@/lib/database/rate-cards', () => ({
+  RateCardService: jest.fn()
+}));
+
+const config: FinanceConfig = {
+  laborCostPerHour: 20,
+  currency: 'EUR',
+  actualMonths: 3,
+  staffing: { shrinkage: 0, occupancy: 1, hoursPerDay: 8, ahtUnit: 'seconds' }
+};
+
+function record(clientName: string, date: Date, transcriptCount: number): TranscriptData {
+  return {
+    id: `${clientName}-${date.toISOString()}`,
+    clientId: `id-${clientName}`,
+    clientName,
+    date,
+    transcriptCount,
+    createdAt: date,
+    updatedAt: date,
+    createdBy: 'test'
+  };
+}
+
+describe('FinanceService', () => {
+  const getTranscripts = jest.fn();
+  const getForecasts = jest.fn();
+  const getAHT = jest.fn();
+  const getRateCards = jest.fn();
+  let source: FinanceDataSource;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    getTranscripts.mockResolvedValue([
+      record('Acme', new Date(2024, 4, 10), 100),
+      record('Globex', new Date(2024, 4, 12), 50)
+    ]);
+    getForecasts.mockResolvedValue([{
+      id: 'pred-acme',
+      clientName: 'Acme',
+      predictionType: 'monthly',
+      predictions: [{ date: new Date(2024, 5, 1), predictedCount: 120, confidenceInterval: { lower: 100, upper: 140 } }],
+      confidence: 0.95,
+      accuracy: 90,
+      modelType: 'linear',
+      createdAt: new Date()
+    }]);
+    getAHT.mockResolvedValue([]);
+    getRateCards.mockResolvedValue([]);
+    source = { getTranscripts, getForecasts, getAHT, getRateCards };
+  });
+
+  it('should default to the configured months of actuals up to the end month', async () => {
+    const service = new FinanceService(source, config);
+
+    const report = await service.report({ endMonth: '2024-05' });
+
+    expect(getTranscripts).toHaveBeenCalledWith(new Date(2024, 2, 1), new Date(2024, 5, 0));
+    expect(report.currency).toBe('EUR');
+    expect(report.months.map(month => [month.month, month.kind, month.volume])).toEqual([
+      ['2024-05', 'actual', 150],
+      ['2024-06', 'forecast', 120]
+    ]);
+  });
+
+  it('should limit the report to the requested clients', async () => {
+    const service = new FinanceService(source, config);
+
+    const report = await service.report({ startMonth: '2024-05', endMonth: '2024-05', clientNames: ['globex'] });
+
+    expect(report.clients.map(row => row.clientName)).toEqual(['Globex']);
+    expect(report.unpricedClients).toEqual(['Globex']);
+  });
+
+  it('should leave forecasts out when asked to', async () => {
+    const service = new FinanceService(source, config);
+
+    const report = await service.report({ startMonth: '2024-05', endMonth: '2024-05', includeForecast: false });
+
+    expect(getForecasts).not.toHaveBeenCalled();
+    expect(report.months.map(month => month.kind)).toEqual(['actual']);
+  });
+});
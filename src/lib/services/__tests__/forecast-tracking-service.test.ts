@@ -0,0 +1,117 @@
+import {
+  ForecastAlertSink,
+  ForecastOutcomeStore,
+  ForecastTrackingService,
+  accuracyDecayAlertId,
+  detectAccuracyDecay,
+  summarizeOutcomes
+} from '../forecast-tracking-service';
+import { RealizedOutcome } from '@/types/forecast-tracking';
+import { ForecastTrackingConfig } from '@/lib/config/forecast-tracking';
+
+jest.mock('@/lib/database/forecast-outcomes', () => ({
+  ForecastOutcomeService: jest.fn()
+}));
+jest.mock('@/lib/monitoring/alert-system', () => ({
+  alertSystem: {}
+}));
+
+const config: ForecastTrackingConfig = {
+  recentDays: 7,
+  errorThreshold: 30,
+  degradationRatio: 1.5,
+  minOutcomes: 3
+};
+
+const asOf = new Date(2024, 2, 1);
+
+// Daily outcomes for the 14 days before asOf; the last 7 are recent
+function buildOutcomes(clientName: string, baselineMiss: number, recentMiss: number): RealizedOutcome[] {
+  return Array.from({ length: 14 }, (_, i) => ({
+    predictionId: `p-${clientName}`,
+    clientId: `id-${clientName}`,
+    clientName,
+    predictionType: 'daily',
+    modelType: 'linear',
+    horizon: (i % 2) + 1,
+    periodStart: new Date(2024, 1, 16 + i),
+    predictedCount: 100,
+    confidenceLower: 90,
+    confidenceUpper: 110,
+    actualCount: 100 + (i < 7 ? baselineMiss : recentMiss)
+  }));
+}
+
+describe('forecast tracking', () => {
+  describe('summarizeOutcomes', () => {
+    it('should report accuracy per client, model and horizon', () => {
+      const accuracy = summarizeOutcomes(buildOutcomes('Acme', 5, 5));
+
+      expect(accuracy).toHaveLength(2);
+      expect(accuracy.map(a => a.horizon)).toEqual([1, 2]);
+      expect(accuracy[0].sampleCount).toBe(7);
+      expect(accuracy[0].mape).toBeCloseTo((5 / 105) * 100);
+      expect(accuracy[0].coverage).toBe(1);
+    });
+  });
+
+  describe('detectAccuracyDecay', () => {
+    it('should flag recent error above the threshold', () => {
+      const [result] = detectAccuracyDecay(buildOutcomes('Acme', 5, 80), asOf, config);
+
+      expect(result.decayed).toBe(true);
+      expect(result.recentCount).toBe(7);
+      expect(result.reason).toContain('above the 30% limit');
+    });
+
+    it('should flag error that has grown relative to the baseline', () => {
+      const [result] = detectAccuracyDecay(buildOutcomes('Acme', 2, 20), asOf, config);
+
+      expect(result.recentError).toBeLessThan(config.errorThreshold);
+      expect(result.decayed).toBe(true);
+      expect(result.reason).toContain('rose from');
+    });
+
+    it('should not judge a window with too few outcomes', () => {
+      const outcomes = buildOutcomes('Acme', 5, 80).slice(0, 9);
+      const [result] = detectAccuracyDecay(outcomes, asOf, config);
+
+      expect(result.recentCount).toBe(2);
+      expect(result.recentError).toBeNull();
+      expect(result.decayed).toBe(false);
+    });
+  });
+
+  describe('ForecastTrackingService', () => {
+    const outcomes = [...buildOutcomes('Acme', 5, 80), ...buildOutcomes('Globex', 5, 5)];
+    const recordMaturedOutcomes = jest.fn();
+    const raiseAlert = jest.fn();
+    const resolveAlertsForConfig = jest.fn();
+    let store: ForecastOutcomeStore;
+    let alerts: ForecastAlertSink;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      recordMaturedOutcomes.mockResolvedValue(4);
+      raiseAlert.mockReturnValue(null);
+      store = { recordMaturedOutcomes, getOutcomes: async () => outcomes };
+      alerts = { raiseAlert, resolveAlertsForConfig };
+    });
+
+    it('should record outcomes and raise alerts for decayed clients only', async () => {
+      const service = new ForecastTrackingService(store, alerts, config);
+      const report = await service.run(asOf);
+
+      expect(recordMaturedOutcomes).toHaveBeenCalledWith(asOf);
+      expect(report.recorded).toBe(4);
+      expect(report.accuracy).toHaveLength(4);
+      expect(raiseAlert).toHaveBeenCalledTimes(1);
+      expect(raiseAlert).toHaveBeenCalledWith(
+        accuracyDecayAlertId('id-Acme'),
+        expect.stringContaining('Acme'),
+        'medium'
+      );
+      expect(resolveAlertsForConfig).toHaveBeenCalledWith(accuracyDecayAlertId('id-Globex'));
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  FileSystemModelStore,
+  ModelRegistry,
+  ModelRegistryKey,
+  NewRegisteredModel,
+  fingerprintSeries
+} from '../model-registry';
+
+jest.mock('@tensorflow/tfjs', () => ({}));
+jest.mock('@/lib/database/forecast-models', () => ({
+  ForecastModelService: jest.fn()
+}));
+
+const key: ModelRegistryKey = {
+  clientKey: 'Client A',
+  modelType: 'linear',
+  predictionType: 'daily'
+};
+
+function buildModel(fingerprint: string): NewRegisteredModel {
+  return {
+    ...key,
+    normalization: { mean: 12, std: 3 },
+    trainingWindow: {
+      start: new Date('2024-01-01'),
+      end: new Date('2024-01-10'),
+      length: 10,
+      fingerprint
+    },
+    hyperparameters: { epochs: 100 },
+    metrics: { mse: 1, mae: 1, rmse: 1, r2: 0.9, accuracy: 80 },
+    artifacts: {
+      modelTopology: { class_name: 'Sequential' },
+      weightSpecs: [{ name: 'dense/kernel', shape: [1, 1], dtype: 'float32' }],
+      weightData: Buffer.from(new Float32Array([0.5]).buffer).toString('base64')
+    }
+  };
+}
+
+describe('ModelRegistry', () => {
+  let directory: string;
+  let store: FileSystemModelStore;
+  let registry: ModelRegistry;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'model-registry-'));
+    store = new FileSystemModelStore(directory);
+    registry = new ModelRegistry(store, 60 * 60 * 1000);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should number versions per key and round-trip artifacts', async () => {
+    const first = await registry.registerModel(buildModel('a'));
+    const second = await registry.registerModel(buildModel('b'));
+    const otherClient = await registry.registerModel({ ...buildModel('a'), clientKey: 'Client B' });
+
+    expect([first.version, second.version, otherClient.version]).toEqual([1, 2, 1]);
+
+    const loaded = await store.getModel(key, 1);
+    expect(loaded?.artifacts).toEqual(buildModel('a').artifacts);
+    expect(loaded?.trainingWindow.start).toEqual(new Date('2024-01-01'));
+    expect(loaded?.normalization).toEqual({ mean: 12, std: 3 });
+  });
+
+  it('should reuse the latest version only when it is fresh', async () => {
+    await registry.registerModel(buildModel('a'));
+    await registry.registerModel(buildModel('b'));
+
+    expect((await registry.findReusableModel(key, 'b'))?.version).toBe(2);
+    expect(await registry.findReusableModel(key, 'a')).toBeNull();
+
+    const expired = new ModelRegistry(store, 0);
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 1000);
+    expect(await expired.findReusableModel(key, 'b')).toBeNull();
+    jest.restoreAllMocks();
+  });
+
+  it('should always use a pinned version until unpinned', async () => {
+    await registry.registerModel(buildModel('a'));
+    await registry.registerModel(buildModel('b'));
+
+    await registry.pinVersion(key, 1);
+    expect((await registry.findReusableModel(key, 'b'))?.version).toBe(1);
+    expect((await registry.listVersions(key)).map(v => [v.version, v.pinned])).toEqual([[2, false], [1, true]]);
+
+    await registry.unpin(key);
+    expect((await registry.findReusableModel(key, 'b'))?.version).toBe(2);
+  });
+
+  it('should roll back to the previous version', async () => {
+    await registry.registerModel(buildModel('a'));
+    await registry.registerModel(buildModel('b'));
+    await registry.registerModel(buildModel('c'));
+
+    expect((await registry.rollback(key)).version).toBe(2);
+    expect((await registry.rollback(key)).version).toBe(1);
+    await expect(registry.rollback(key)).rejects.toThrow('No earlier model version to roll back to');
+  });
+
+  it('should reject pinning an unknown version', async () => {
+    await expect(registry.pinVersion(key, 3)).rejects.toThrow('Model version 3 not found');
+  });
+});
+
+describe('fingerprintSeries', () => {
+  it('should change with values and dates', () => {
+    const dates = [new Date('2024-01-01'), new Date('2024-01-02')];
+
+    expect(fingerprintSeries([1, 2], dates)).toBe(fingerprintSeries([1, 2], dates));
+    expect(fingerprintSeries([1, 3], dates)).not.toBe(fingerprintSeries([1, 2], dates));
+    expect(fingerprintSeries([1, 2], [dates[0], new Date('2024-01-03')])).not.toBe(fingerprintSeries([1, 2], dates));
+  });
+});
@@ -233,6 +233,164 @@ describe('PredictionEngine', () => {
     });
   });
 
+  describe('seasonal models', () => {
+    const weeklyPattern = [30, 28, 26, 25, 24, 12, 10];
+    const seasonalData: TranscriptData[] = Array.from({ length: 42 }, (_, i) => ({
+      id: `s${i}`,
+      clientId: 'client-s',
+      clientName: 'Client S',
+      date: new Date(2024, 0, i + 1),
+      transcriptCount: weeklyPattern[i % 7] + Math.floor(i / 7),
+      transcriptType: 'type1',
+      notes: '',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      createdBy: 'user1'
+    }));
+
+    const options: PredictionOptions = {
+      clientName: 'Client S',
+      predictionType: 'daily',
+      periodsAhead: 7,
+      modelType: 'holt-winters-additive',
+      confidenceLevel: 0.95
+    };
+
+    it.each(['holt-winters-additive', 'holt-winters-multiplicative', 'sarima'] as const)(
+      'should generate %s predictions that follow the weekly pattern',
+      async (modelType: PredictionOptions['modelType']) => {
+        const result = await engine.generatePredictions(seasonalData, { ...options, modelType });
+
+        expect(result.modelType).toBe(modelType);
+        expect(result.predictions).toHaveLength(7);
+
+        // Weekday peak should stay well above the weekend trough
+        const counts = result.predictions.map(p => p.predictedCount);
+        expect(counts[0]).toBeGreaterThan(counts[6] + 10);
+      }
+    );
+
+    it('should widen intervals with the confidence level and the horizon', async () => {
+      const width = (p: { confidenceInterval: { lower: number; upper: number } }) =>
+        p.confidenceInterval.upper - p.confidenceInterval.lower;
+
+      const narrow = await engine.generatePredictions(seasonalData, { ...options, periodsAhead: 14, confidenceLevel: 0.8 });
+      const wide = await engine.generatePredictions(seasonalData, { ...options, periodsAhead: 14, confidenceLevel: 0.99 });
+
+      narrow.predictions.forEach((prediction, i) => {
+        expect(width(wide.predictions[i])).toBeGreaterThanOrEqual(width(prediction));
+      });
+      expect(width(wide.predictions[13])).toBeGreaterThan(width(wide.predictions[0]));
+      expect(wide.confidence).toBe(0.99);
+    });
+
+    it('should honour a custom season length', async () => {
+      await expect(engine.generatePredictions(seasonalData, { ...options, seasonLength: 30 }))
+        .rejects.toThrow('Insufficient data for Holt-Winters model');
+    });
+  });
+
+  describe('calendar events', () => {
+    const outageDays = [10, 24, 38];
+    const eventData: TranscriptData[] = Array.from({ length: 42 }, (_, i) => ({
+      id: `e${i}`,
+      clientId: 'client-e',
+      clientName: 'Client E',
+      date: new Date(2024, 0, i + 1),
+      transcriptCount: 50 + (i % 7) + (outageDays.includes(i + 1) ? -20 : 0),
+      transcriptType: 'type1',
+      notes: '',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      createdBy: 'user1'
+    }));
+
+    const events = [...outageDays, 45].map(day => ({
+      eventType: 'outage' as const,
+      startDate: new Date(2024, 0, day),
+      endDate: new Date(2024, 0, day)
+    }));
+
+    const options: PredictionOptions = {
+      clientName: 'Client E',
+      predictionType: 'daily',
+      periodsAhead: 7,
+      modelType: 'holt-winters-additive',
+      confidenceLevel: 0.95
+    };
+
+    it('should apply the estimated event effect to future periods the event covers', async () => {
+      const result = await engine.generatePredictions(eventData, { ...options, events });
+      const counts = result.predictions.map(p => p.predictedCount);
+
+      // 14 February is the third forecast period: its usual 52 less the 20 lost to outages
+      expect(Math.abs(counts[2] - 32)).toBeLessThanOrEqual(3);
+      expect(Math.abs(counts[1] - 51)).toBeLessThanOrEqual(3);
+    });
+
+    it('should ignore events that belong to another client', async () => {
+      const otherClient = events.map(event => ({ ...event, clientName: 'Client F' }));
+
+      const withoutEvents = await engine.generatePredictions(eventData, options);
+      const withOtherEvents = await engine.generatePredictions(eventData, { ...options, events: otherClient });
+
+      expect(withOtherEvents.predictions).toEqual(withoutEvents.predictions);
+    });
+  });
+
+  describe('intermittent demand', () => {
+    // Monthly volume in two bursts, with months without any rows in between
+    const burstMonths: Record<number, number> = { 0: 120, 1: 90, 6: 140, 7: 60, 12: 110, 13: 80 };
+    const sparseData: TranscriptData[] = Object.entries(burstMonths).map(([month, count]) => ({
+      id: `s${month}`,
+      clientId: 'client-s',
+      clientName: 'Client S',
+      date: new Date(2023, Number(month), 1),
+      transcriptCount: count,
+      transcriptType: 'type1',
+      notes: '',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      createdBy: 'user1'
+    }));
+
+    const options: PredictionOptions = {
+      clientName: 'Client S',
+      predictionType: 'monthly',
+      periodsAhead: 4,
+      modelType: 'arima',
+      confidenceLevel: 0.95
+    };
+
+    it('should count missing periods as zero', () => {
+      const { values, dates } = engine.preprocessData(sparseData, 'monthly', 'Client S');
+
+      expect(values).toEqual([120, 90, 0, 0, 0, 0, 140, 60, 0, 0, 0, 0, 110, 80]);
+      expect(dates[2]).toEqual(new Date(2023, 2, 1));
+    });
+
+    it('should switch mostly-zero series to an intermittent-demand model', async () => {
+      const result = await engine.generatePredictions(sparseData, options);
+
+      expect(['croston', 'tsb']).toContain(result.modelType);
+      result.predictions.forEach(prediction => {
+        expect(Number.isInteger(prediction.predictedCount)).toBe(true);
+        expect(prediction.predictedCount).toBeGreaterThan(0);
+        expect(prediction.confidenceInterval.lower).toBeGreaterThanOrEqual(0);
+      });
+    });
+
+    it('should keep the requested model when automatic selection is off', async () => {
+      const result = await engine.generatePredictions(sparseData, { ...options, autoIntermittent: false });
+
+      expect(result.modelType).toBe('arima');
+      result.predictions.forEach(prediction => {
+        expect(Number.isInteger(prediction.predictedCount)).toBe(true);
+        expect(prediction.predictedCount).toBeGreaterThanOrEqual(0);
+      });
+    });
+  });
+
   describe('validatePredictions', () => {
     it('should validate predictions against test data', async () => {
       const trainingData = mockData.slice(0, 4);
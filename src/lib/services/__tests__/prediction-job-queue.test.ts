@@ -0,0 +1,220 @@
+import { PredictionJobQueue, PredictionJobStore } from '../prediction-job-queue';
+import { PredictionJob, PredictionJobResult } from '@/types/prediction-job';
+import { PredictionJobConfig } from '@/lib/config/prediction-jobs';
+import { PredictionRequest } from '@/lib/validations/schemas';
+import { metricsCollector } from '@/lib/monitoring/metrics-collector';
+
+jest.mock('@/lib/database/prediction-jobs', () => ({
+  PredictionJobService: jest.fn()
+}));
+jest.mock('@/lib/workers/prediction-worker-thread', () => ({
+  runPredictionJobInWorker: jest.fn()
+}));
+jest.mock('@/lib/monitoring/metrics-collector', () => ({
+  metricsCollector: { recordModelExecution: jest.fn() }
+}));
+
+// In-memory stand-in for the prediction_jobs table
+class MemoryJobStore implements PredictionJobStore {
+  jobs: PredictionJob[] = [];
+
+  async createJob(request: PredictionRequest, createdBy?: string): Promise<PredictionJob> {
+    const job: PredictionJob = {
+      id: `job-${this.jobs.length + 1}`,
+      status: 'queued',
+      request,
+      attempts: 0,
+      createdAt: new Date(),
+      createdBy
+    };
+    this.jobs.push(job);
+    return { ...job };
+  }
+
+  async getJob(id: string): Promise<PredictionJob | null> {
+    const job = this.jobs.find(j => j.id === id);
+    return job ? { ...job } : null;
+  }
+
+  async claimNextJob(): Promise<PredictionJob | null> {
+    const job = this.jobs.find(j => j.status === 'queued');
+    if (!job) return null;
+    Object.assign(job, { status: 'running', startedAt: new Date(), attempts: job.attempts + 1 });
+    return { ...job };
+  }
+
+  async completeJob(id: string, attempt: number, result: PredictionJobResult): Promise<boolean> {
+    return this.finish(id, attempt, { status: 'completed', result });
+  }
+
+  async failJob(id: string, attempt: number, error: string): Promise<boolean> {
+    return this.finish(id, attempt, { status: 'failed', error });
+  }
+
+  async requeueStaleJobs(startedBefore: Date, maxAttempts: number, activeJobIds: string[] = []): Promise<number> {
+    const stale = this.jobs.filter(j =>
+      j.status === 'running' && (j.startedAt as Date) < startedBefore && !activeJobIds.includes(j.id)
+    );
+    stale.forEach(job => {
+      if (job.attempts >= maxAttempts) {
+        Object.assign(job, { status: 'failed', error: 'Prediction worker stopped before the job finished' });
+      } else {
+        Object.assign(job, { status: 'queued', startedAt: undefined });
+      }
+    });
+    return stale.filter(job => job.status === 'queued').length;
+  }
+
+  private finish(id: string, attempt: number, changes: Partial<PredictionJob>): boolean {
+    const job = this.jobs.find(j => j.id === id && j.status === 'running' && j.attempts === attempt);
+    if (!job) return false;
+    Object.assign(job, changes);
+    return true;
+  }
+}
+
+const config: PredictionJobConfig = {
+  concurrency: 1,
+  staleAfterMinutes: 30,
+  timeoutMinutes: 20,
+  maxAttempts: 2,
+  pollIntervalMs: 10
+};
+
+const request: PredictionRequest = {
+  predictionType: 'monthly',
+  periodsAhead: 3,
+  modelType: 'linear',
+  confidenceLevel: 0.95,
+  registryMode: 'reuse'
+};
+
+const result: PredictionJobResult = {
+  data: { predictions: [] },
+  warnings: [],
+  message: 'Predictions generated successfully'
+};
+
+// Let queued promise callbacks run
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('PredictionJobQueue', () => {
+  let store: MemoryJobStore;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    store = new MemoryJobStore();
+  });
+
+  it('should return a queued job and complete it in the background', async () => {
+    const runner = jest.fn().mockResolvedValue(result);
+    const queue = new PredictionJobQueue(store, runner, config);
+
+    const job = await queue.enqueue(request, 'user-1');
+    expect(job.status).toBe('queued');
+
+    await flush();
+
+    const finished = await queue.getJob(job.id);
+    expect(finished?.status).toBe('completed');
+    expect(finished?.result).toEqual(result);
+    expect(runner).toHaveBeenCalledWith(expect.objectContaining({ id: job.id, createdBy: 'user-1' }), 20 * 60 * 1000);
+    expect(metricsCollector.recordModelExecution).toHaveBeenCalledWith('linear', expect.any(Number), true);
+  });
+
+  it('should record the error when a job fails', async () => {
+    const runner = jest.fn().mockRejectedValue(new Error('Insufficient historical data for predictions'));
+    const queue = new PredictionJobQueue(store, runner, config);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const job = await queue.enqueue(request);
+    await flush();
+
+    const failed = await queue.getJob(job.id);
+    expect(failed?.status).toBe('failed');
+    expect(failed?.error).toBe('Insufficient historical data for predictions');
+    expect(metricsCollector.recordModelExecution).toHaveBeenCalledWith('linear', expect.any(Number), false);
+  });
+
+  it('should run no more jobs at once than the configured concurrency', async () => {
+    const pending: Array<() => void> = [];
+    const runner = jest.fn(() => new Promise<PredictionJobResult>(resolve => {
+      pending.push(() => resolve(result));
+    }));
+    const queue = new PredictionJobQueue(store, runner, { ...config, concurrency: 2 });
+
+    await Promise.all([1, 2, 3].map(() => queue.enqueue(request)));
+    await flush();
+
+    expect(runner).toHaveBeenCalledTimes(2);
+    expect(queue.activeJobs).toBe(2);
+    expect(store.jobs.map(j => j.status)).toEqual(['running', 'running', 'queued']);
+
+    pending[0]();
+    await flush();
+
+    expect(runner).toHaveBeenCalledTimes(3);
+    pending.slice(1).forEach(resolve => resolve());
+    await flush();
+
+    expect(store.jobs.every(j => j.status === 'completed')).toBe(true);
+    expect(queue.activeJobs).toBe(0);
+  });
+
+  it('should resume jobs left running by a stopped process', async () => {
+    const runner = jest.fn().mockResolvedValue(result);
+    const queue = new PredictionJobQueue(store, runner, config);
+    const stale = await store.createJob(request);
+    Object.assign(store.jobs[0], { status: 'running', startedAt: new Date(Date.now() - 60 * 60 * 1000), attempts: 1 });
+
+    await queue.drain();
+    await flush();
+
+    expect((await store.getJob(stale.id))?.status).toBe('completed');
+    expect(store.jobs[0].attempts).toBe(2);
+  });
+
+  it('should not requeue a long-running job this process is still running', async () => {
+    let finish: () => void = () => {};
+    const runner = jest.fn(() => new Promise<PredictionJobResult>(resolve => {
+      finish = () => resolve(result);
+    }));
+    const queue = new PredictionJobQueue(store, runner, { ...config, concurrency: 2 });
+
+    const job = await queue.enqueue(request);
+    await flush();
+    store.jobs[0].startedAt = new Date(Date.now() - 60 * 60 * 1000);
+
+    await queue.drain();
+    await flush();
+
+    expect(runner).toHaveBeenCalledTimes(1);
+    expect(store.jobs[0]).toMatchObject({ status: 'running', attempts: 1 });
+
+    finish();
+    await flush();
+
+    expect((await store.getJob(job.id))?.status).toBe('completed');
+  });
+
+  it('should discard the result of an attempt that was taken over', async () => {
+    let finish: () => void = () => {};
+    const runner = jest.fn(() => new Promise<PredictionJobResult>(resolve => {
+      finish = () => resolve(result);
+    }));
+    const queue = new PredictionJobQueue(store, runner, config);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const job = await queue.enqueue(request);
+    await flush();
+    // Another process requeued and restarted the job in the meantime
+    Object.assign(store.jobs[0], { status: 'running', attempts: 2 });
+
+    finish();
+    await flush();
+
+    expect(store.jobs[0]).toMatchObject({ status: 'running', attempts: 2 });
+    expect(store.jobs[0].result).toBeUndefined();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining(job.id));
+  });
+});
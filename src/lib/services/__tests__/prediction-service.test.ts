@@ -27,6 +27,24 @@ jest.mock('../prediction-engine', () => ({
       r2: 0.85,
       accuracy: 85.5
     }),
+    preprocessData: jest.fn((data: TranscriptData[], _type: string, clientName?: string) => {
+      const rows = data.filter(d => !clientName || d.clientName === clientName);
+      return { dates: rows.map(d => new Date(d.date)), values: rows.map(d => d.transcriptCount), processedData: [] };
+    }),
+    // Forecast the last observed value; the total is over-forecast so the base forecasts are incoherent
+    forecastSeries: jest.fn(async (values: number[], _dates: Date[], options: { clientName?: string }) => {
+      const value = values[values.length - 1] + (options.clientName ? 0 : 10);
+      return {
+        predictions: [
+          {
+            date: new Date('2024-02-01'),
+            predictedCount: value,
+            confidenceInterval: { lower: value - 10, upper: value + 10 }
+          }
+        ],
+        metrics: { mse: 1, mae: 1, rmse: 1, r2: 0.9, accuracy: 80 }
+      };
+    }),
     getMemoryInfo: jest.fn().mockReturnValue({ numTensors: 5, numBytes: 1024 }),
     dispose: jest.fn()
   }))
@@ -216,6 +234,75 @@ describe('PredictionService', () => {
     });
   });
 
+  describe('generateHierarchicalPredictions', () => {
+    const twoClients = (): TranscriptData[] => [
+      ...Array.from({ length: 20 }, (_, i) => ({
+        id: `a${i}`,
+        clientId: 'client-a',
+        clientName: 'Client A',
+        date: new Date(2024, 0, i + 1),
+        transcriptCount: 30,
+        transcriptType: 'type1',
+        notes: '',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        createdBy: 'user1'
+      })),
+      ...Array.from({ length: 15 }, (_, i) => ({
+        id: `b${i}`,
+        clientId: 'client-b',
+        clientName: 'Client B',
+        date: new Date(2024, 0, i + 6),
+        transcriptCount: 20,
+        transcriptType: 'type1',
+        notes: '',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        createdBy: 'user1'
+      }))
+    ];
+
+    const request = {
+      predictionType: 'daily' as const,
+      periodsAhead: 1,
+      modelType: 'linear' as const,
+      confidenceLevel: 0.95
+    };
+
+    it('should make the total equal the sum of client forecasts', async () => {
+      for (const reconciliation of ['bottom-up', 'top-down', 'mint'] as const) {
+        const { result } = await service.generateHierarchicalPredictions(twoClients(), { ...request, reconciliation });
+        const clientSum = result.clients.reduce((sum, client) => sum + client.predictions[0].predictedCount, 0);
+
+        expect(result.clients.map(client => client.clientName)).toEqual(['Client A', 'Client B']);
+        expect(result.total.clientName).toBe('All Clients');
+        expect(result.total.predictions[0].predictedCount).toBe(clientSum);
+      }
+    });
+
+    it('should apply the requested reconciliation method', async () => {
+      // Base forecasts: Client A 30, Client B 20, total 60
+      const bottomUp = await service.generateHierarchicalPredictions(twoClients(), { ...request, reconciliation: 'bottom-up' });
+      expect(bottomUp.result.total.predictions[0].predictedCount).toBe(50);
+
+      const topDown = await service.generateHierarchicalPredictions(twoClients(), { ...request, reconciliation: 'top-down' });
+      expect(topDown.result.total.predictions[0].predictedCount).toBe(60);
+      expect(topDown.result.clients[0].predictions[0].predictedCount).toBe(Math.round(60 * 600 / 900));
+
+      // Equal variances share the gap of 10 equally across the three nodes
+      const mint = await service.generateHierarchicalPredictions(twoClients(), { ...request, reconciliation: 'mint' });
+      expect(mint.result.clients[0].predictions[0].predictedCount).toBe(33);
+      expect(mint.result.clients[1].predictions[0].predictedCount).toBe(23);
+    });
+
+    it('should validate every client series', async () => {
+      const data = [...twoClients(), { ...twoClients()[0], clientName: 'Client C' }];
+
+      await expect(service.generateHierarchicalPredictions(data, { ...request, reconciliation: 'mint' }))
+        .rejects.toThrow('Client C: Insufficient data');
+    });
+  });
+
   describe('trainAndValidateModel', () => {
     const validRequest: PredictionRequest = {
       predictionType: 'daily',
@@ -391,6 +391,42 @@ describe('ScheduledExportService', () => {
       expect(nextRun.getHours()).toBe(14)
       expect(nextRun.getMinutes()).toBe(30)
     })
+
+    it('should cap the monthly run day at the last day of a shorter month', async () => {
+      jest.setSystemTime(new Date(2024, 1, 1, 8))
+
+      const id = await service.createScheduledExport({
+        name: 'Month End Report',
+        schedule: { frequency: 'monthly', time: '18:00', dayOfMonth: 31, timezone: 'UTC' },
+        exportOptions: mockExportOptions,
+        recipients: ['user@example.com'],
+        isActive: true,
+        createdBy: 'user1'
+      })
+
+      expect(service.getScheduledExport(id)!.nextRun).toEqual(new Date(2024, 1, 29, 18, 0))
+    })
+
+    it('should schedule monthly runs by fiscal period and keep weekly runs without a day on Sunday', async () => {
+      const fiscalService = new ScheduledExportService({ weekStart: 1, pattern: '4-4-5', yearStartMonth: 1 })
+      const create = (schedule: ScheduleConfig) => fiscalService.createScheduledExport({
+        name: 'Fiscal Report',
+        schedule,
+        exportOptions: mockExportOptions,
+        recipients: ['user@example.com'],
+        isActive: true,
+        createdBy: 'user1'
+      })
+
+      // FY2024 starts on Monday 1 January 2024, so its second period starts on 29 January
+      const monthlyId = await create({ frequency: 'monthly', time: '09:00', dayOfMonth: 1, timezone: 'UTC' })
+      expect(fiscalService.getScheduledExport(monthlyId)!.nextRun).toEqual(new Date(2024, 0, 29, 9, 0))
+
+      const weeklyId = await create({ frequency: 'weekly', time: '09:00', timezone: 'UTC' })
+      expect(fiscalService.getScheduledExport(weeklyId)!.nextRun!.getDay()).toBe(0)
+
+      fiscalService.stopScheduler()
+    })
   })
 
   describe('Scheduler Management', () => {
@@ -0,0 +1,93 @@
+import { SegmentationDataSource, SegmentationService } from '../segmentation-service';
+import { TranscriptData } from '@/types/transcript';
+import { SegmentationConfig } from '@/lib/config/segmentation';
+
+jest.mock('@/lib/database/transcripts', () => ({
+  TranscriptService: jest.fn()
+}));
+jest.mock('@/lib/database/aht', () => ({
+  AHTService: jest.fn()
+}));
+
+const config: SegmentationConfig = {
+  method: 'tiers',
+  clusters: 2,
+  recentMonths: 12,
+  highVolume: 1000,
+  lowVolume: 100,
+  growthThreshold: 0.02,
+  seasonalityThreshold: 0.3,
+  longAHT: 600
+};
+
+// Steady monthly volume on the 15th from `start` months after January 2024
+function monthlyRecords(clientName: string, volume: number, months: number, start = 0): TranscriptData[] {
+  return Array.from({ length: months }, (_, i) => {
+    const date = new Date(2024, start + i, 15);
+
+    return {
+      id: `${clientName}-${i}`,
+      clientId: `id-${clientName}`,
+      clientName,
+      date,
+      transcriptCount: volume,
+      createdAt: date,
+      updatedAt: date,
+      createdBy: 'test'
+    };
+  });
+}
+
+describe('SegmentationService', () => {
+  const getTranscripts = jest.fn();
+  const getAHT = jest.fn();
+  let source: SegmentationDataSource;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    getTranscripts.mockResolvedValue([
+      ...monthlyRecords('Acme', 2500, 12),
+      ...monthlyRecords('Globex', 3000, 9, 3),
+      ...monthlyRecords('Initech', 40, 12)
+    ]);
+    getAHT.mockResolvedValue({ ACME: 720 });
+    source = { getTranscripts, getAHT };
+  });
+
+  it('should segment by the configured method unless one is requested', async () => {
+    const service = new SegmentationService(source, config);
+
+    const tiers = await service.segment();
+    expect(tiers.method).toBe('tiers');
+    expect(tiers.assignments).toEqual({
+      Acme: 'tiers:high-stable-steady-long-aht',
+      Globex: 'tiers:high-stable-steady',
+      Initech: 'tiers:low-stable-steady'
+    });
+
+    const clusters = await service.segment({ method: 'kmeans' });
+    expect(clusters.segments.map(segment => segment.id)).toEqual(['kmeans:2:1', 'kmeans:2:2']);
+    expect(clusters.segments[1].clients).toEqual(['Initech']);
+  });
+
+  it('should resolve segment ids to their clients', async () => {
+    const service = new SegmentationService(source, config);
+
+    expect(await service.resolveSegment('tiers:high-stable-steady')).toEqual(['Globex']);
+    expect(await service.resolveSegment('tiers:mid-growing-seasonal')).toEqual([]);
+    expect(await service.resolveSegment('not-a-segment')).toBeNull();
+    expect(getTranscripts).toHaveBeenCalledTimes(2);
+  });
+
+  it('should limit cohorts to a segment', async () => {
+    const service = new SegmentationService(source, config);
+
+    const all = await service.cohorts(3);
+    expect(all.map(row => row.cohort)).toEqual(['2024-01', '2024-04']);
+    expect(getAHT).not.toHaveBeenCalled();
+
+    const highVolume = await service.cohorts(3, 'tiers:high-stable-steady');
+    expect(highVolume.map(row => row.cohort)).toEqual(['2024-04']);
+    expect(highVolume[0].volumes).toEqual([3000, 3000, 3000]);
+  });
+});
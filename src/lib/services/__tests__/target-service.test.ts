@@ -0,0 +1,130 @@
+import { TargetService, targetBreachAlertId } from '../target-service';
+import { ClientTarget } from '@/types/target';
+import { PredictionResult, TranscriptData } from '@/types/transcript';
+import { TargetConfig } from '@/lib/config/targets';
+
+jest.mock('@/lib/database/targets', () => ({
+  ClientTargetService: jest.fn()
+}));
+jest.mock('@/lib/database/transcripts', () => ({
+  TranscriptService: jest.fn()
+}));
+jest.mock('@/lib/database/predictions', () => ({
+  PredictionService: jest.fn()
+}));
+jest.mock('@/lib/database/aht', () => ({
+  AHTService: jest.fn()
+}));
+jest.mock('@/lib/monitoring/alert-system', () => ({
+  alertSystem: {}
+}));
+
+const config: TargetConfig = { lookbackMonths: 2, horizonMonths: 2, tolerancePercent: 0 };
+const asOf = new Date(2025, 3, 15);
+
+function target(clientName: string, metric: ClientTarget['metric'], value: number): ClientTarget {
+  return {
+    id: `${clientName}-${metric}`,
+    clientId: `id-${clientName}`,
+    clientName,
+    metric,
+    value,
+    effectiveFrom: '2025-01',
+    effectiveTo: null,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+}
+
+function record(clientName: string, date: Date, transcriptCount: number): TranscriptData {
+  return {
+    id: `${clientName}-${date.toISOString()}`,
+    clientId: `id-${clientName}`,
+    clientName,
+    date,
+    transcriptCount,
+    createdAt: date,
+    updatedAt: date,
+    createdBy: 'test'
+  };
+}
+
+function forecast(clientName: string, counts: Record<number, number>): PredictionResult {
+  return {
+    id: `pred-${clientName}`,
+    clientId: `id-${clientName}`,
+    clientName,
+    predictionType: 'monthly',
+    predictions: Object.entries(counts).map(([month, predictedCount]) => ({
+      date: new Date(2025, Number(month), 1),
+      predictedCount,
+      confidenceInterval: { lower: predictedCount * 0.9, upper: predictedCount * 1.1 }
+    })),
+    confidence: 0.95,
+    accuracy: 90,
+    modelType: 'linear',
+    createdAt: new Date()
+  };
+}
+
+function buildSource(targets: ClientTarget[]) {
+  return {
+    getTargets: jest.fn().mockResolvedValue(targets),
+    getTranscripts: jest.fn().mockResolvedValue([
+      record('Acme', new Date(2025, 1, 10), 900),
+      record('Acme', new Date(2025, 2, 10), 700),
+      record('Globex', new Date(2025, 2, 10), 400)
+    ]),
+    getForecasts: jest.fn().mockResolvedValue([forecast('Acme', { 3: 820, 4: 1100 }), forecast('Globex', { 3: 900 })]),
+    getAHT: jest.fn().mockResolvedValue([]),
+    getTurnaround: jest.fn().mockResolvedValue([
+      { clientId: 'id-Globex', clientName: 'Globex', month: '2025-03', turnaroundHours: 30 }
+    ])
+  };
+}
+
+function buildAlerts() {
+  return {
+    raiseAlert: jest.fn().mockReturnValue({ id: 'alert' }),
+    resolveAlertsForConfig: jest.fn()
+  };
+}
+
+describe('TargetService', () => {
+  it('should report on the requested clients only and skip data no target needs', async () => {
+    const source = buildSource([target('Acme', 'minimumVolume', 1000), target('Globex', 'minimumVolume', 500)]);
+    const service = new TargetService(source, buildAlerts(), config);
+
+    const report = await service.report({ clientNames: ['acme'] }, asOf);
+
+    expect(report.variances.every(v => v.clientName === 'Acme')).toBe(true);
+    expect(report.breaches.map(b => [b.month, b.kind])).toEqual([['2025-02', 'actual'], ['2025-03', 'actual'], ['2025-04', 'forecast']]);
+    expect(source.getTranscripts).toHaveBeenCalledWith(new Date(2025, 1, 1), new Date(2025, 3, 0));
+    expect(source.getAHT).not.toHaveBeenCalled();
+    expect(source.getTurnaround).not.toHaveBeenCalled();
+  });
+
+  it('should alert on predicted and latest breaches and resolve recovered months', async () => {
+    const source = buildSource([target('Acme', 'minimumVolume', 1000), target('Globex', 'turnaround', 24)]);
+    const alerts = buildAlerts();
+    const service = new TargetService(source, alerts, config);
+
+    const result = await service.run(asOf);
+
+    // February's actual breach is reported but too old to alert on
+    expect(result.breaches).toHaveLength(4);
+    expect(alerts.raiseAlert.mock.calls).toEqual([
+      [targetBreachAlertId({ targetId: 'Acme-minimumVolume', month: '2025-03' }), 'Acme missed its March 2025 minimum volume by 30%', 'high'],
+      [targetBreachAlertId({ targetId: 'Globex-turnaround', month: '2025-03' }), 'Globex exceeded its March 2025 turnaround SLA by 25%', 'high'],
+      [targetBreachAlertId({ targetId: 'Acme-minimumVolume', month: '2025-04' }), 'Acme will miss its April 2025 minimum volume by 18%', 'medium']
+    ]);
+    expect(alerts.resolveAlertsForConfig).toHaveBeenCalledWith('target-breach:Acme-minimumVolume:2025-05');
+    expect(result.alerted).toBe(3);
+  });
+
+  it('should count actual SLA misses per client', async () => {
+    const service = new TargetService(buildSource([target('Globex', 'turnaround', 24)]), buildAlerts(), config);
+
+    expect(await service.slaMisses(asOf)).toEqual({ globex: 1 });
+  });
+});
@@ -1,11 +1,32 @@
-import type { AHTData, AHTSummary, MonthlyTrend, ClientPerformance } from '@/types/aht'
-import { ahtData, monthLabels, monthDisplayNames } from '@/lib/data/aht-data'
+import type { AHTData, AHTDataset, AHTSummary, MonthlyTrend, ClientPerformance } from '@/types/aht'
+import type { RiskRule, RiskSignals } from '@/types/risk'
+import { AHTService } from '@/lib/database/aht'
+import { RiskRuleService } from '@/lib/database/risk-rules'
+import { ForecastOutcomeService } from '@/lib/database/forecast-outcomes'
+import { formatAHTMonth, sortAHTMonths } from '@/lib/utils/aht-import'
+import { DEFAULT_RISK_RULES, calculateRiskMetrics, evaluateRiskRules } from '@/lib/utils/risk-rules'
+import { getRiskScoringConfig, RiskScoringConfig } from '@/lib/config/risk'
+import { getForecastTrackingConfig } from '@/lib/config/forecast-tracking'
+import { detectAccuracyDecay } from './forecast-tracking-service'
+import { TargetService } from './target-service'
+
+export interface RiskContext {
+  rules: RiskRule[]
+  signals: RiskSignals
+}
 
 export class AHTAnalyticsService {
   private data: AHTData[]
+  private months: string[]
 
-  constructor(data: AHTData[] = ahtData) {
+  /**
+   * @param months monthlyData keys to analyse; defaults to every month present in the data
+   */
+  constructor(data: AHTData[], months?: string[]) {
     this.data = data
+    this.months = months ?? sortAHTMonths(
+      Array.from(new Set(data.flatMap(client => Object.keys(client.monthlyData))))
+    )
   }
 
   // Get summary statistics
@@ -14,6 +35,18 @@ export class AHTAnalyticsService {
     const ahtValues = validClients.map(client => client.overallAHT)
     
     const totalVolume = this.data.reduce((sum, client) => sum + client.grandTotal, 0)
+
+    if (validClients.length === 0) {
+      return {
+        totalClients: 0,
+        averageAHT: 0,
+        medianAHT: 0,
+        highestAHT: { client: '', value: 0 },
+        lowestAHT: { client: '', value: 0 },
+        totalVolume
+      }
+    }
+
     const averageAHT = ahtValues.reduce((sum, aht) => sum + aht, 0) / ahtValues.length
     
     // Calculate median
@@ -42,7 +75,7 @@ export class AHTAnalyticsService {
 
   // Get monthly trends
   getMonthlyTrends(): MonthlyTrend[] {
-    return monthLabels.map((month, index) => {
+    return this.months.map(month => {
       const monthlyVolumes = this.data.map(client => client.monthlyData[month] || 0)
       const totalVolume = monthlyVolumes.reduce((sum, vol) => sum + vol, 0)
       const activeClients = monthlyVolumes.filter(vol => vol > 0).length
@@ -54,7 +87,7 @@ export class AHTAnalyticsService {
       this.data.forEach(client => {
         const volume = client.monthlyData[month] || 0
         if (volume > 0) {
-          weightedAHTSum += client.overallAHT * volume
+          weightedAHTSum += this.monthAHT(client, month) * volume
           totalWeightedVolume += volume
         }
       })
@@ -62,7 +95,7 @@ export class AHTAnalyticsService {
       const averageAHT = totalWeightedVolume > 0 ? weightedAHTSum / totalWeightedVolume : 0
 
       return {
-        month: monthDisplayNames[index],
+        month: formatAHTMonth(month),
         totalVolume,
         averageAHT: Math.round(averageAHT * 100) / 100,
         clientCount: activeClients
@@ -70,21 +103,37 @@ export class AHTAnalyticsService {
     })
   }
 
-  // Get client performance analysis
-  getClientPerformance(): ClientPerformance[] {
+  /**
+   * Handling time for a client in a month: the recorded review plus validation
+   * AHT where the month has one, otherwise the client's overall AHT
+   */
+  monthAHT(client: AHTData, month: string): number {
+    const recorded = client.monthlyAHT?.[month]
+    return recorded ? recorded.reviewAHT + recorded.validationAHT : client.overallAHT
+  }
+
+  /**
+   * Volume trend and rule-based risk per client. Risk uses the default rules
+   * unless stored rules and outside signals are passed in, see loadRiskContext.
+   */
+  getClientPerformance(
+    risk: RiskContext = { rules: DEFAULT_RISK_RULES, signals: {} },
+    config: RiskScoringConfig = getRiskScoringConfig()
+  ): ClientPerformance[] {
     return this.data
       .filter(client => client.overallAHT > 0)
       .map(client => {
-        const monthlyVolumes = monthLabels.map(month => ({
+        const monthlyVolumes = this.months.map(month => ({
           month: month.replace('_', ' '),
           volume: client.monthlyData[month] || 0
         }))
 
         // Calculate trend (comparing first half vs second half of data)
-        const firstHalf = monthLabels.slice(0, 6).reduce((sum, month) => 
+        const midpoint = Math.floor(this.months.length / 2)
+        const firstHalf = this.months.slice(0, midpoint).reduce((sum, month) => 
           sum + (client.monthlyData[month] || 0), 0
         )
-        const secondHalf = monthLabels.slice(6).reduce((sum, month) => 
+        const secondHalf = this.months.slice(midpoint).reduce((sum, month) => 
           sum + (client.monthlyData[month] || 0), 0
         )
 
@@ -104,20 +153,20 @@ export class AHTAnalyticsService {
           trendPercentage = -100
         }
 
-        // Determine risk level based on AHT and volume
-        let riskLevel: 'low' | 'medium' | 'high' = 'low'
-        if (client.overallAHT > 15 && client.grandTotal > 5000) {
-          riskLevel = 'high'
-        } else if (client.overallAHT > 10 || client.grandTotal > 3000) {
-          riskLevel = 'medium'
-        }
+        const assessment = evaluateRiskRules(
+          calculateRiskMetrics(client, this.months, risk.signals, config.growthMonths),
+          risk.rules,
+          config
+        )
 
         return {
           client: client.client,
           overallAHT: client.overallAHT,
           trend,
           trendPercentage: Math.round(trendPercentage * 100) / 100,
-          riskLevel,
+          riskLevel: assessment.level,
+          riskScore: assessment.score,
+          riskRules: assessment.rules,
           monthlyVolumes
         }
       })
@@ -149,50 +198,42 @@ export class AHTAnalyticsService {
         volume: client.grandTotal
       }))
   }
+}
+
+/**
+ * Analytics over the AHT data currently stored in the database
+ */
+export async function loadAHTAnalytics(store: Pick<AHTService, 'getAHTData'> = new AHTService()): Promise<AHTAnalyticsService> {
+  const { clients, months }: AHTDataset = await store.getAHTData()
+  return new AHTAnalyticsService(clients, months)
+}
+
+/**
+ * Stored risk rules (the defaults when none are stored), each client's
+ * recent forecast error, from realized forecast outcomes, and its recent
+ * AHT and turnaround SLA misses
+ */
+export async function loadRiskContext(
+  ruleStore: Pick<RiskRuleService, 'getRules'> = new RiskRuleService(),
+  outcomeStore: Pick<ForecastOutcomeService, 'getOutcomes'> = new ForecastOutcomeService(),
+  asOf: Date = new Date(),
+  targetStore: Pick<TargetService, 'slaMisses'> = new TargetService()
+): Promise<RiskContext> {
+  const [storedRules, outcomes, slaMisses] = await Promise.all([
+    ruleStore.getRules(),
+    outcomeStore.getOutcomes(),
+    targetStore.slaMisses(asOf)
+  ])
+
+  const forecastErrors: Record<string, number> = {}
+  detectAccuracyDecay(outcomes, asOf, getForecastTrackingConfig()).forEach(result => {
+    if (result.recentError !== null) {
+      forecastErrors[result.clientName.toLowerCase()] = Math.round(result.recentError * 100) / 100
+    }
+  })
 
-  // Predict future AHT trends (simple linear regression)
-  predictNextMonthAHT(): Array<{ client: string; predictedAHT: number; confidence: number }> {
-    return this.data
-      .filter(client => client.overallAHT > 0)
-      .map(client => {
-        const recentMonths = monthLabels.slice(-6) // Last 6 months
-        const recentVolumes = recentMonths.map(month => client.monthlyData[month] || 0)
-        const activeMonths = recentVolumes.filter(vol => vol > 0)
-        
-        // Simple prediction based on recent trend
-        let predictedAHT = client.overallAHT
-        let confidence = 0.5 // Base confidence
-        
-        if (activeMonths.length >= 3) {
-          const trend = (recentVolumes[recentVolumes.length - 1] - recentVolumes[0]) / recentVolumes.length
-          const volatility = this.calculateVolatility(recentVolumes)
-          
-          // Adjust prediction based on trend
-          if (trend > 0) {
-            predictedAHT *= 1.05 // Slight increase if volume trending up
-          } else if (trend < 0) {
-            predictedAHT *= 0.95 // Slight decrease if volume trending down
-          }
-          
-          // Confidence based on data consistency
-          confidence = Math.max(0.3, Math.min(0.9, 1 - volatility))
-        }
-        
-        return {
-          client: client.client,
-          predictedAHT: Math.round(predictedAHT * 100) / 100,
-          confidence: Math.round(confidence * 100) / 100
-        }
-      })
-  }
-
-  private calculateVolatility(values: number[]): number {
-    if (values.length < 2) return 1
-    
-    const mean = values.reduce((sum, val) => sum + val, 0) / values.length
-    const variance = values.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / values.length
-    const stdDev = Math.sqrt(variance)
-    
-    return mean > 0 ? stdDev / mean : 1
+  return {
+    rules: storedRules.length > 0 ? storedRules : DEFAULT_RISK_RULES,
+    signals: { forecastErrors, slaMisses }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,200 @@
+import { AHTComponentForecast, AHTData, AHTForecast } from '@/types/aht';
+import { ahtMonthKeyFromDate, ahtMonthKeyToDate, sortAHTMonths } from '@/lib/utils/aht-import';
+import { PredictionEngine, ForecastModelType } from './prediction-engine';
+import { BacktestService } from './backtest-service';
+import { round } from '@/lib/utils/numbers';
+
+export interface AHTForecastOptions {
+  periodsAhead?: number;
+  /** Fit this model instead of the one with the lowest backtested error */
+  modelType?: ForecastModelType;
+  confidenceLevel?: number;
+  /** Only forecast this client (case-insensitive) */
+  client?: string;
+}
+
+export interface AHTForecastResult {
+  forecasts: AHTForecast[];
+  /** Clients that could not be forecast, with the reason */
+  skipped: Array<{ client: string; reason: string }>;
+}
+
+type AHTComponent = 'reviewAHT' | 'validationAHT';
+
+// Models compared by backtest when no model is requested, in fallback order
+export const AHT_CANDIDATE_MODELS: ForecastModelType[] = ['linear', 'arima', 'holt-winters-additive'];
+
+// Fewest recorded months a client needs to be forecast at all
+export const MIN_AHT_HISTORY = 3;
+
+const BACKTEST_ORIGINS = 6;
+const AHT_DECIMALS = 2;
+
+function monthDate(key: string): Date {
+  return new Date(`${ahtMonthKeyToDate(key)}T00:00:00`);
+}
+
+/**
+ * Forecasts review and validation AHT per client from its monthly AHT history,
+ * using the same models as the volume forecasts. Each component's model is the
+ * one the rolling-origin backtest recommends one month ahead, and its
+ * confidence is 1 - that model's backtested sMAPE.
+ */
+export class AHTForecastService {
+  private engine: PredictionEngine;
+  private backtests: BacktestService;
+
+  constructor() {
+    this.engine = new PredictionEngine();
+    this.backtests = new BacktestService();
+  }
+
+  async forecast(data: AHTData[], options: AHTForecastOptions = {}): Promise<AHTForecastResult> {
+    const clients = options.client
+      ? data.filter(client => client.client.toLowerCase() === options.client!.toLowerCase())
+      : data;
+
+    const forecasts: AHTForecast[] = [];
+    const skipped: AHTForecastResult['skipped'] = [];
+
+    for (const client of clients) {
+      try {
+        const forecast = await this.forecastClient(client, options);
+        if (forecast) {
+          forecasts.push(forecast);
+        } else {
+          skipped.push({
+            client: client.client,
+            reason: `Needs at least ${MIN_AHT_HISTORY} months of review and validation AHT`
+          });
+        }
+      } catch (error) {
+        skipped.push({
+          client: client.client,
+          reason: error instanceof Error ? error.message : 'Forecast failed'
+        });
+      }
+    }
+
+    return { forecasts, skipped };
+  }
+
+  /**
+   * Monthly series for one AHT component, from the first to the last recorded
+   * month. Months without a record carry the previous month's value forward.
+   */
+  buildSeries(client: AHTData, component: AHTComponent): { values: number[]; dates: Date[]; months: string[] } {
+    const recorded = sortAHTMonths(Object.keys(client.monthlyAHT ?? {}));
+    if (recorded.length === 0) return { values: [], dates: [], months: [] };
+
+    const values: number[] = [];
+    const dates: Date[] = [];
+    const months: string[] = [];
+    const last = monthDate(recorded[recorded.length - 1]);
+
+    let previous = 0;
+    for (let date = monthDate(recorded[0]); date <= last; date = new Date(date.getFullYear(), date.getMonth() + 1, 1)) {
+      const key = ahtMonthKeyFromDate(date);
+      const record = client.monthlyAHT?.[key];
+      previous = record ? record[component] : previous;
+      values.push(previous);
+      dates.push(date);
+      months.push(key);
+    }
+
+    return { values, dates, months };
+  }
+
+  private async forecastClient(client: AHTData, options: AHTForecastOptions): Promise<AHTForecast | null> {
+    const recordedMonths = Object.keys(client.monthlyAHT ?? {}).length;
+    if (recordedMonths < MIN_AHT_HISTORY) return null;
+
+    const review = this.buildSeries(client, 'reviewAHT');
+    const validation = this.buildSeries(client, 'validationAHT');
+
+    const reviewForecast = await this.forecastComponent(review.values, review.dates, options);
+    const validationForecast = await this.forecastComponent(validation.values, validation.dates, options);
+
+    const confidences = [reviewForecast.confidence, validationForecast.confidence]
+      .filter((confidence): confidence is number => confidence !== null);
+
+    return {
+      client: client.client,
+      historyMonths: recordedMonths,
+      lastMonth: review.months[review.months.length - 1],
+      review: reviewForecast,
+      validation: validationForecast,
+      predictedAHT: round(
+        reviewForecast.predictions[0].predictedAHT + validationForecast.predictions[0].predictedAHT,
+        AHT_DECIMALS
+      ),
+      confidence: confidences.length === 2 ? Math.min(...confidences) : null
+    };
+  }
+
+  private async forecastComponent(
+    values: number[],
+    dates: Date[],
+    options: AHTForecastOptions
+  ): Promise<AHTComponentForecast> {
+    const candidates = options.modelType ? [options.modelType] : AHT_CANDIDATE_MODELS;
+    const confidenceLevel = options.confidenceLevel ?? 0.95;
+
+    // Backtest the candidates; short histories skip straight to the fallback
+    let backtest: AHTComponentForecast['backtest'] = null;
+    let modelType: ForecastModelType | null = null;
+    try {
+      const report = await this.backtests.runSeriesBacktest(values, dates, {
+        predictionType: 'monthly',
+        modelTypes: candidates,
+        horizon: 1,
+        maxOrigins: BACKTEST_ORIGINS,
+        confidenceLevel,
+        decimals: AHT_DECIMALS
+      });
+      const chosen = options.modelType ?? report.recommendedModel;
+      const model = report.models.find(m => m.modelType === chosen && m.origins > 0);
+      if (model) {
+        modelType = model.modelType;
+        backtest = { origins: model.origins, smape: model.overall.smape, mase: model.overall.mase };
+      }
+    } catch {
+      // Not enough history to backtest
+    }
+
+    // Fit the chosen model, or the first candidate that fits when none was chosen
+    const attempts = modelType ? [modelType] : candidates;
+    let lastError: unknown = null;
+    for (const attempt of attempts) {
+      try {
+        const forecast = await this.engine.forecastSeries(values, dates, {
+          predictionType: 'monthly',
+          periodsAhead: options.periodsAhead ?? 3,
+          modelType: attempt,
+          confidenceLevel,
+          registryMode: 'off',
+          autoIntermittent: false,
+          decimals: AHT_DECIMALS
+        });
+
+        return {
+          modelType: forecast.modelType,
+          predictions: forecast.predictions.map(prediction => ({
+            month: ahtMonthKeyFromDate(prediction.date),
+            predictedAHT: Math.max(0, prediction.predictedCount),
+            lower: Math.max(0, prediction.confidenceInterval.lower),
+            upper: Math.max(0, prediction.confidenceInterval.upper)
+          })),
+          confidence: backtest?.smape != null
+            ? round(Math.min(1, Math.max(0, 1 - backtest.smape / 100)), 3)
+            : null,
+          backtest
+        };
+      } catch (error) {
+        lastError = error;
+      }
+    }
+
+    throw lastError instanceof Error ? lastError : new Error('No AHT model could be fitted');
+  }
+}
@@ -0,0 +1,127 @@
+import { Alert } from '@/types/monitoring';
+import { AnomalyDetectionReport, AnomalySeverity, VolumeAnomaly } from '@/types/anomaly';
+import { TranscriptData } from '@/types/transcript';
+import {
+  AnomalyEvent,
+  annotateAnomalies,
+  anomalyPeriodKey,
+  detectVolumeAnomalies
+} from '@/lib/utils/anomaly-detection';
+import { AnomalyDetectionConfig, getAnomalyDetectionConfig } from '@/lib/config/anomaly-detection';
+import { AnomalyService } from '@/lib/database/anomalies';
+import { TranscriptService } from '@/lib/database/transcripts';
+import { CalendarEventService } from '@/lib/database/calendar-events';
+import { alertSystem } from '@/lib/monitoring/alert-system';
+
+/**
+ * Volume anomaly detection over newly arrived data. Runs after an import or
+ * a sheets sync: each affected client's history is decomposed, the periods
+ * from the new data onwards are scored, and the anomalies are stored with
+ * root-cause hints and sent to the alert system.
+ */
+
+export interface AnomalyStore {
+  replaceAnomalies(clientIds: string[], since: Date, anomalies: VolumeAnomaly[]): Promise<number>;
+}
+
+export interface AnomalyHistorySource {
+  getTranscripts(startDate: Date, endDate: Date): Promise<TranscriptData[]>;
+  getEvents(startDate: Date, endDate: Date): Promise<AnomalyEvent[]>;
+}
+
+export interface AnomalyAlertSink {
+  raiseAlert(configId: string, message: string, severity: Alert['severity']): Alert | null;
+}
+
+export interface AnomalyRunOptions {
+  /** Earliest date of the new data; its whole month is re-checked */
+  since: Date;
+  /** Limit the run to these clients, e.g. the ones in an import */
+  clientNames?: string[];
+  asOf?: Date;
+}
+
+const SEVERITY_RANK: Record<AnomalySeverity, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+export function volumeAnomalyAlertId(anomaly: Pick<VolumeAnomaly, 'clientId' | 'granularity' | 'periodStart'>): string {
+  return `volume-anomaly:${anomaly.clientId}:${anomaly.granularity}:${anomalyPeriodKey(anomaly.periodStart, anomaly.granularity)}`;
+}
+
+function anomalyAlertMessage(anomaly: VolumeAnomaly): string {
+  const period = anomalyPeriodKey(anomaly.periodStart, anomaly.granularity);
+  const message = `Volume ${anomaly.direction} for ${anomaly.clientName} (${anomaly.granularity}, ${period}): ` +
+    `${anomaly.actualCount} transcripts against ${anomaly.expectedCount} expected`;
+
+  return anomaly.hints.length > 0 ? `${message}. ${anomaly.hints.join('; ')}` : message;
+}
+
+const databaseHistory: AnomalyHistorySource = {
+  getTranscripts: (startDate, endDate) => new TranscriptService().getTranscriptsByDateRange(startDate, endDate),
+  getEvents: (startDate, endDate) => new CalendarEventService().getEvents({ startDate, endDate })
+};
+
+export class AnomalyDetectionService {
+  private store: AnomalyStore;
+  private history: AnomalyHistorySource;
+  private alerts: AnomalyAlertSink;
+  private config: AnomalyDetectionConfig;
+
+  constructor(
+    store: AnomalyStore = new AnomalyService(),
+    history: AnomalyHistorySource = databaseHistory,
+    alerts: AnomalyAlertSink = alertSystem,
+    config: AnomalyDetectionConfig = getAnomalyDetectionConfig()
+  ) {
+    this.store = store;
+    this.history = history;
+    this.alerts = alerts;
+    this.config = config;
+  }
+
+  /**
+   * Detect daily and monthly anomalies from the start of the month containing
+   * `since`, replacing what was stored for that window. Anomalies at or above
+   * the configured severity raise an alert; an alert that is still active for
+   * the same period is not raised again.
+   */
+  async run({ since, clientNames, asOf = new Date() }: AnomalyRunOptions): Promise<AnomalyDetectionReport> {
+    const windowStart = new Date(since.getFullYear(), since.getMonth(), 1);
+    const historyStart = new Date(windowStart.getFullYear(), windowStart.getMonth() - this.config.historyMonths, 1);
+    const names = clientNames?.map(name => name.toLowerCase());
+
+    const records = (await this.history.getTranscripts(historyStart, asOf))
+      .filter(record => !names || names.includes(record.clientName.toLowerCase()));
+
+    const byClient = new Map<string, TranscriptData[]>();
+    records.forEach(record => {
+      byClient.set(record.clientId, [...(byClient.get(record.clientId) || []), record]);
+    });
+
+    const detected = Array.from(byClient.values())
+      .flatMap(clientRecords => [
+        ...detectVolumeAnomalies(clientRecords, 'daily', this.config),
+        ...detectVolumeAnomalies(clientRecords, 'monthly', this.config)
+      ])
+      .filter(anomaly => anomaly.periodStart >= windowStart);
+
+    const events = detected.length > 0 ? await this.history.getEvents(windowStart, asOf) : [];
+    const anomalies = annotateAnomalies(detected, events);
+
+    await this.store.replaceAnomalies(Array.from(byClient.keys()), windowStart, anomalies);
+
+    const minimumRank = SEVERITY_RANK[this.config.alertSeverity];
+    const alerted = anomalies
+      .filter(anomaly => SEVERITY_RANK[anomaly.severity] >= minimumRank)
+      .filter(anomaly =>
+        this.alerts.raiseAlert(volumeAnomalyAlertId(anomaly), anomalyAlertMessage(anomaly), anomaly.severity) !== null
+      )
+      .length;
+
+    return {
+      clientsChecked: byClient.size,
+      anomalies,
+      alerted,
+      detectedAt: asOf
+    };
+  }
+}
@@ -0,0 +1,240 @@
+import { TranscriptData } from '@/types/transcript';
+import {
+  AccuracyMetrics,
+  ForecastOutcome,
+  calculateAccuracyMetrics,
+  naiveScale
+} from '@/lib/utils/forecast-metrics';
+import { PredictionEngine, ForecastModelType, DEFAULT_SEASON_LENGTHS } from './prediction-engine';
+
+export type BacktestWindowType = 'rolling' | 'expanding';
+
+export interface BacktestOptions {
+  clientName?: string;
+  predictionType: 'daily' | 'weekly' | 'monthly';
+  modelTypes: ForecastModelType[];
+  /** Number of periods forecast from each origin */
+  horizon: number;
+  /** Training periods before the first origin; defaults to the most that still yields maxOrigins origins */
+  initialWindow?: number;
+  /** Periods between consecutive origins */
+  step?: number;
+  /** Rolling windows keep a fixed training length, expanding windows keep all history */
+  windowType?: BacktestWindowType;
+  maxOrigins?: number;
+  confidenceLevel?: number;
+  seasonLength?: number;
+  /** Decimal places kept in forecasts, for series that are not counts */
+  decimals?: number;
+}
+
+export interface HorizonAccuracy extends AccuracyMetrics {
+  /** Steps ahead of the forecast origin, starting at 1 */
+  horizon: number;
+}
+
+export interface ModelBacktestReport {
+  modelType: ForecastModelType;
+  /** Origins the model was fitted at successfully */
+  origins: number;
+  failedOrigins: number;
+  horizons: HorizonAccuracy[];
+  overall: AccuracyMetrics;
+  /** Last fitting error, set when the model failed at every origin */
+  error?: string;
+}
+
+export interface BacktestReport {
+  clientName: string;
+  predictionType: 'daily' | 'weekly' | 'monthly';
+  windowType: BacktestWindowType;
+  horizon: number;
+  initialWindow: number;
+  step: number;
+  confidenceLevel: number;
+  seasonLength: number;
+  /** Forecast origins evaluated for every model */
+  origins: number;
+  models: ModelBacktestReport[];
+  recommendedModel: ForecastModelType | null;
+  createdAt: Date;
+}
+
+// Minimum training periods per origin, matching PredictionService.validateRequest
+const MIN_TRAINING_POINTS: Record<'daily' | 'weekly' | 'monthly', number> = {
+  daily: 14,
+  weekly: 8,
+  monthly: 6
+};
+
+const DEFAULT_MAX_ORIGINS = 12;
+
+export class BacktestService {
+  private engine: PredictionEngine;
+
+  constructor() {
+    this.engine = new PredictionEngine();
+  }
+
+  /**
+   * Rolling-origin evaluation: refit each model at a series of forecast origins,
+   * forecast `horizon` periods ahead and score the forecasts against what actually
+   * happened. MASE is scaled by the one-step naive error of each training window.
+   */
+  public async runBacktest(data: TranscriptData[], options: BacktestOptions): Promise<BacktestReport> {
+    const { dates, values } = this.engine.preprocessData(
+      data,
+      options.predictionType,
+      options.clientName
+    );
+
+    return this.runSeriesBacktest(values, dates, options);
+  }
+
+  /**
+   * Rolling-origin evaluation of an already aggregated series, one value per period
+   */
+  public async runSeriesBacktest(values: number[], dates: Date[], options: BacktestOptions): Promise<BacktestReport> {
+    const windowType = options.windowType ?? 'expanding';
+    const step = Math.max(1, options.step ?? 1);
+    const confidenceLevel = options.confidenceLevel ?? 0.95;
+    const seasonLength = options.seasonLength ?? DEFAULT_SEASON_LENGTHS[options.predictionType];
+    const maxOrigins = Math.max(1, options.maxOrigins ?? DEFAULT_MAX_ORIGINS);
+    const initialWindow = options.initialWindow ?? Math.max(
+      MIN_TRAINING_POINTS[options.predictionType],
+      values.length - options.horizon - (maxOrigins - 1) * step
+    );
+
+    if (initialWindow + options.horizon > values.length) {
+      throw new Error(
+        `Insufficient data for backtesting: need at least ${initialWindow + options.horizon} ` +
+        `${options.predictionType} periods, got ${values.length}`
+      );
+    }
+
+    const origins = this.getOrigins(values.length, initialWindow, options.horizon, step, maxOrigins);
+
+    const models: ModelBacktestReport[] = [];
+    for (const modelType of options.modelTypes) {
+      models.push(await this.backtestModel(values, dates, origins, {
+        ...options,
+        modelType,
+        windowType,
+        initialWindow,
+        confidenceLevel,
+        seasonLength
+      }));
+    }
+
+    return {
+      clientName: options.clientName || 'All Clients',
+      predictionType: options.predictionType,
+      windowType,
+      horizon: options.horizon,
+      initialWindow,
+      step,
+      confidenceLevel,
+      seasonLength,
+      origins: origins.length,
+      models,
+      recommendedModel: this.recommendModel(models),
+      createdAt: new Date()
+    };
+  }
+
+  /**
+   * Forecast origins (index of the first held-out period), latest `maxOrigins` kept
+   */
+  private getOrigins(
+    length: number,
+    initialWindow: number,
+    horizon: number,
+    step: number,
+    maxOrigins: number
+  ): number[] {
+    const origins: number[] = [];
+    for (let origin = initialWindow; origin + horizon <= length; origin += step) {
+      origins.push(origin);
+    }
+    return origins.slice(-maxOrigins);
+  }
+
+  /**
+   * Refit one model at every origin and aggregate its errors by horizon
+   */
+  private async backtestModel(
+    values: number[],
+    dates: Date[],
+    origins: number[],
+    options: BacktestOptions & {
+      modelType: ForecastModelType;
+      windowType: BacktestWindowType;
+      initialWindow: number;
+      confidenceLevel: number;
+      seasonLength: number;
+    }
+  ): Promise<ModelBacktestReport> {
+    const outcomesByHorizon: ForecastOutcome[][] = Array.from({ length: options.horizon }, () => []);
+    let fitted = 0;
+    let lastError: string | undefined;
+
+    for (const origin of origins) {
+      const start = options.windowType === 'rolling' ? origin - options.initialWindow : 0;
+      const training = values.slice(start, origin);
+
+      try {
+        const { predictions } = await this.engine.forecastSeries(training, dates.slice(start, origin), {
+          predictionType: options.predictionType,
+          periodsAhead: options.horizon,
+          modelType: options.modelType,
+          confidenceLevel: options.confidenceLevel,
+          seasonLength: options.seasonLength,
+          // Score each model as requested rather than the intermittent-demand fallback
+          autoIntermittent: false,
+          decimals: options.decimals
+        });
+
+        const scale = naiveScale(training);
+        predictions.forEach((prediction, i) => {
+          outcomesByHorizon[i].push({
+            actual: values[origin + i],
+            predicted: prediction.predictedCount,
+            lower: prediction.confidenceInterval.lower,
+            upper: prediction.confidenceInterval.upper,
+            scale
+          });
+        });
+        fitted++;
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    return {
+      modelType: options.modelType,
+      origins: fitted,
+      failedOrigins: origins.length - fitted,
+      horizons: fitted > 0
+        ? outcomesByHorizon.map((outcomes, i) => ({ horizon: i + 1, ...calculateAccuracyMetrics(outcomes) }))
+        : [],
+      overall: calculateAccuracyMetrics(outcomesByHorizon.flat()),
+      ...(fitted === 0 && lastError ? { error: lastError } : {})
+    };
+  }
+
+  /**
+   * Pick the model with the lowest MASE, falling back to sMAPE when MASE is undefined
+   */
+  private recommendModel(models: ModelBacktestReport[]): ForecastModelType | null {
+    const candidates = models.filter(m => m.origins > 0);
+    const metric: 'mase' | 'smape' = candidates.some(m => m.overall.mase !== null) ? 'mase' : 'smape';
+
+    const ranked = candidates
+      .filter(m => m.overall[metric] !== null)
+      .sort((a, b) => (a.overall[metric] as number) - (b.overall[metric] as number));
+
+    return ranked.length > 0 ? ranked[0].modelType : null;
+  }
+}
+
+export const backtestService = new BacktestService();
@@ -0,0 +1,84 @@
+import type { RawData } from '@/types/transcript';
+import type { CSVDelimiter, CSVEncoding, CSVRowError } from '@/lib/utils/csv-parser';
+import type { CSVProgress } from '@/lib/utils/file-processors';
+
+/**
+ * Client side of chunked CSV uploads: slices a file and posts the slices to
+ * /api/upload in order, collecting the rows the server parses from each one
+ */
+
+export const CSV_UPLOAD_CHUNK_SIZE = 4 * 1024 * 1024;
+
+export interface CSVUploadOptions {
+  hasHeaders?: boolean;
+  chunkSize?: number;
+  onProgress?: (progress: CSVProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface CSVUploadResult {
+  headers: string[];
+  data: RawData[];
+  rowErrors: CSVRowError[];
+  preview: RawData[];
+  columnTypes: Record<string, 'text' | 'number' | 'date'>;
+  delimiter?: CSVDelimiter;
+  encoding?: CSVEncoding;
+}
+
+export async function uploadCSVInChunks(file: File, options: CSVUploadOptions = {}): Promise<CSVUploadResult> {
+  const { hasHeaders = true, chunkSize = CSV_UPLOAD_CHUNK_SIZE, onProgress, signal } = options;
+
+  if (file.size === 0) {
+    throw new Error('File is empty');
+  }
+
+  const totalChunks = Math.ceil(file.size / chunkSize);
+  const data: RawData[] = [];
+  const rowErrors: CSVRowError[] = [];
+  let uploadId: string | undefined;
+
+  for (let chunkIndex = 0; chunkIndex < totalChunks; chunkIndex++) {
+    const end = Math.min(file.size, (chunkIndex + 1) * chunkSize);
+
+    const formData = new FormData();
+    formData.append('file', file.slice(chunkIndex * chunkSize, end), file.name);
+    formData.append('fileType', 'csv');
+    formData.append('hasHeaders', String(hasHeaders));
+    formData.append('chunkIndex', String(chunkIndex));
+    formData.append('totalChunks', String(totalChunks));
+    formData.append('fileSize', String(file.size));
+    if (uploadId) formData.append('uploadId', uploadId);
+
+    const response = await fetch('/api/upload', { method: 'POST', body: formData, signal });
+    const body = await response.json();
+
+    if (!response.ok || !body.success) {
+      const details = Array.isArray(body.details) ? body.details.map((detail: unknown) =>
+        typeof detail === 'string' ? detail : (detail as { message?: string }).message
+      ) : [];
+      throw new Error(details.length > 0 ? details.join(', ') : body.error || 'Upload failed');
+    }
+
+    const receipt = body.data;
+    uploadId = receipt.uploadId;
+    for (const row of receipt.rows) data.push(row);
+    for (const error of receipt.rowErrors) rowErrors.push(error);
+
+    onProgress?.({ bytesRead: end, totalBytes: file.size, rows: receipt.totalRows });
+
+    if (receipt.done) {
+      return {
+        headers: receipt.headers,
+        data,
+        rowErrors,
+        preview: receipt.preview,
+        columnTypes: receipt.columnTypes,
+        delimiter: receipt.delimiter,
+        encoding: receipt.encoding
+      };
+    }
+  }
+
+  throw new Error('Upload ended before the server finished parsing the file');
+}
@@ -0,0 +1,183 @@
+import { randomUUID } from 'crypto';
+import type { RawData } from '@/types/transcript';
+import {
+  CSVDelimiter,
+  CSVEncoding,
+  CSVRowError,
+  CSVStreamReader
+} from '@/lib/utils/csv-parser';
+import { FileProcessor } from '@/lib/utils/file-processors';
+
+/**
+ * Server side of chunked CSV uploads. The client sends a file as a sequence
+ * of byte chunks; the first chunk opens a session holding the parser state,
+ * and every chunk is answered with the rows completed by it, so neither side
+ * holds the raw file. Rows cut off at a chunk boundary are returned with the
+ * next chunk. Sessions live in memory and are dropped once finished or after
+ * a period without chunks.
+ */
+
+// Rows kept for the preview and column type detection
+const SAMPLE_ROWS = 1000;
+const PREVIEW_ROWS = 10;
+
+export class CSVUploadSessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CSVUploadSessionError';
+  }
+}
+
+export interface CSVChunk {
+  /** Omitted on the first chunk, which opens the session */
+  uploadId?: string;
+  chunkIndex: number;
+  totalChunks: number;
+  fileSize: number;
+  hasHeaders: boolean;
+  userId: string;
+  bytes: Uint8Array;
+}
+
+export interface CSVChunkReceipt {
+  uploadId: string;
+  chunkIndex: number;
+  totalChunks: number;
+  done: boolean;
+  bytesReceived: number;
+  headers: string[];
+  /** Rows completed by this chunk */
+  rows: RawData[];
+  rowErrors: CSVRowError[];
+  totalRows: number;
+  delimiter?: CSVDelimiter;
+  encoding?: CSVEncoding;
+  /** Set on the last chunk */
+  preview?: RawData[];
+  columnTypes?: Record<string, 'text' | 'number' | 'date'>;
+}
+
+interface CSVUploadSession {
+  reader: CSVStreamReader;
+  userId: string;
+  fileSize: number;
+  totalChunks: number;
+  nextChunk: number;
+  bytesReceived: number;
+  sample: RawData[];
+  lastChunkAt: number;
+}
+
+export class CSVUploadSessions {
+  private sessions = new Map<string, CSVUploadSession>();
+
+  constructor(private idleTimeoutMs: number = 30 * 60 * 1000) {}
+
+  get activeCount(): number {
+    return this.sessions.size;
+  }
+
+  receive(chunk: CSVChunk, now: number = Date.now()): CSVChunkReceipt {
+    this.expireIdle(now);
+
+    const { uploadId, session } = chunk.uploadId
+      ? { uploadId: chunk.uploadId, session: this.continueSession(chunk) }
+      : this.openSession(chunk);
+
+    session.bytesReceived += chunk.bytes.byteLength;
+    if (session.bytesReceived > session.fileSize) {
+      this.sessions.delete(uploadId);
+      throw new CSVUploadSessionError('Upload is larger than its declared file size');
+    }
+
+    session.nextChunk++;
+    session.lastChunkAt = now;
+
+    const done = session.nextChunk === session.totalChunks;
+    const parsed = session.reader.push(chunk.bytes);
+    const rows = parsed.rows;
+    const rowErrors = parsed.errors;
+
+    if (done) {
+      const tail = session.reader.end();
+      rows.push(...tail.rows);
+      rowErrors.push(...tail.errors);
+      this.sessions.delete(uploadId);
+    }
+
+    for (const row of rows) {
+      if (session.sample.length >= SAMPLE_ROWS) break;
+      session.sample.push(row);
+    }
+
+    const receipt: CSVChunkReceipt = {
+      uploadId,
+      chunkIndex: chunk.chunkIndex,
+      totalChunks: session.totalChunks,
+      done,
+      bytesReceived: session.bytesReceived,
+      headers: session.reader.headers,
+      rows,
+      rowErrors,
+      totalRows: session.reader.rowCount,
+      delimiter: session.reader.detectedDelimiter,
+      encoding: session.reader.detectedEncoding
+    };
+
+    if (done) {
+      receipt.preview = FileProcessor.generatePreview(session.sample, PREVIEW_ROWS);
+      receipt.columnTypes = FileProcessor.detectColumnTypes(session.sample, receipt.headers);
+    }
+
+    return receipt;
+  }
+
+  private openSession(chunk: CSVChunk): { uploadId: string; session: CSVUploadSession } {
+    if (chunk.chunkIndex !== 0) {
+      throw new CSVUploadSessionError('An upload must start with its first chunk');
+    }
+    if (chunk.fileSize > FileProcessor.MAX_CSV_FILE_SIZE) {
+      throw new CSVUploadSessionError(
+        `File size (${(chunk.fileSize / 1024 / 1024).toFixed(2)}MB) exceeds maximum allowed size (${FileProcessor.MAX_CSV_FILE_SIZE / 1024 / 1024}MB)`
+      );
+    }
+
+    const uploadId = randomUUID();
+    const session: CSVUploadSession = {
+      reader: new CSVStreamReader({ hasHeaders: chunk.hasHeaders }),
+      userId: chunk.userId,
+      fileSize: chunk.fileSize,
+      totalChunks: chunk.totalChunks,
+      nextChunk: 0,
+      bytesReceived: 0,
+      sample: [],
+      lastChunkAt: 0
+    };
+
+    this.sessions.set(uploadId, session);
+    return { uploadId, session };
+  }
+
+  private continueSession(chunk: CSVChunk): CSVUploadSession {
+    const session = this.sessions.get(chunk.uploadId!);
+
+    if (!session || session.userId !== chunk.userId) {
+      throw new CSVUploadSessionError('Upload not found or expired');
+    }
+    if (chunk.chunkIndex !== session.nextChunk) {
+      throw new CSVUploadSessionError(`Expected chunk ${session.nextChunk} but received chunk ${chunk.chunkIndex}`);
+    }
+
+    return session;
+  }
+
+  private expireIdle(now: number): void {
+    for (const [uploadId, session] of this.sessions) {
+      if (now - session.lastChunkAt > this.idleTimeoutMs) {
+        this.sessions.delete(uploadId);
+      }
+    }
+  }
+}
+
+export const csvUploadSessions = new CSVUploadSessions();
@@ -0,0 +1,423 @@
+import { openAsBlob } from 'fs';
+import { mkdir, readdir, rename, rm, stat, utimes, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { Alert } from '@/types/monitoring';
+import type { ImportProfile } from '@/types/import-profile';
+import type { DropFolderStatus, IngestionLogEntry } from '@/types/ingestion';
+import type { ImportResult, RawData } from '@/types/transcript';
+import { DropFolderConfig, getDropFolderConfig } from '@/lib/config/drop-folder';
+import { ImportBatchService, StageBatchInput } from '@/lib/database/import-batches';
+import { ImportProfileService } from '@/lib/database/import-profiles';
+import { IngestionLogService } from '@/lib/database/ingestion-log';
+import { alertSystem } from '@/lib/monitoring/alert-system';
+import { FileProcessor } from '@/lib/utils/file-processors';
+import { transformRawDataToTranscripts } from '@/lib/utils/data-transformers';
+import { ImportStrategy, resolutionForStrategy } from '@/lib/utils/import-conflicts';
+import { applyImportProfile, matchImportProfile } from '@/lib/utils/import-profiles';
+import type { CSVRowError } from '@/lib/utils/csv-parser';
+
+/**
+ * Unattended imports from a watched directory. Each scan claims files that
+ * have stopped changing by moving them into processing/, under a lease the
+ * importing instance keeps renewing, reads them with the
+ * same processors as uploads, maps them with the team import profile their
+ * columns match, and stages and applies them as an import batch. Imported
+ * files are moved to processed/ and anything else to quarantine/; either way
+ * the outcome is logged, and quarantined files raise an alert.
+ *
+ * The directory is polled rather than watched, as file system events are not
+ * reliable on network and SFTP mounts.
+ */
+
+export interface IngestionStore {
+  /** Profiles files may be matched with */
+  getProfiles(): Promise<ImportProfile[]>;
+  /** Stage and apply rows as one import batch */
+  importRows(input: StageBatchInput, strategy: ImportStrategy, importedBy: string): Promise<{ batchId: string; result: ImportResult }>;
+  logIngestion(entry: Omit<IngestionLogEntry, 'id'>): Promise<IngestionLogEntry>;
+}
+
+export interface IngestionAlertSink {
+  raiseAlert(configId: string, message: string, severity: Alert['severity']): Alert | null;
+  resolveAlertsForConfig(configId: string): void;
+}
+
+type IngestionOutcome = Pick<
+  IngestionLogEntry,
+  'status' | 'profileId' | 'profileName' | 'batchId' | 'totalRows' | 'importedRows' | 'errorCount' | 'errors' | 'message'
+>;
+
+interface DropFileContents {
+  headers: string[];
+  data: RawData[];
+  errors: string[];
+  rowErrors: CSVRowError[];
+  profile: ImportProfile | null;
+}
+
+const PROCESSING_DIR = 'processing';
+const PROCESSED_DIR = 'processed';
+const QUARANTINE_DIR = 'quarantine';
+
+// Invalid rows kept in a log entry; the count covers all of them
+const MAX_LOGGED_ERRORS = 100;
+
+const databaseStore: IngestionStore = {
+  getProfiles: () => new ImportProfileService().getTeamProfiles(),
+  importRows: async (input, strategy, importedBy) => {
+    const batchService = new ImportBatchService();
+    const batch = await batchService.stageBatch(input, importedBy);
+
+    if (batch.conflicts.length > 0) {
+      const resolution = resolutionForStrategy(strategy);
+      await batchService.setResolutions(
+        batch.id,
+        batch.conflicts.map(conflict => ({ conflictId: conflict.id, resolution }))
+      );
+    }
+
+    const applied = await batchService.applyBatch(batch.id, importedBy);
+    if (!applied) {
+      throw new Error('Staged import batch disappeared before it was applied');
+    }
+    return { batchId: batch.id, result: applied.result };
+  },
+  logIngestion: entry => new IngestionLogService().createEntry(entry)
+};
+
+export const DROP_FOLDER_ALERT_ID = 'drop-folder:unavailable';
+
+export function dropFileAlertId(fileName: string): string {
+  return `drop-folder:${fileName}`;
+}
+
+// Hidden, so scans never take it for a file to import
+function leasePath(directory: string, fileName: string): string {
+  return join(directory, PROCESSING_DIR, `.${fileName}.lease`);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+function quarantined(message: string, details: Partial<IngestionOutcome> = {}): IngestionOutcome {
+  return { totalRows: 0, importedRows: 0, errorCount: 0, errors: [], ...details, status: 'quarantined', message };
+}
+
+/**
+ * Read a claimed file with the processor for its type. Workbooks are read
+ * from the first sheet, or from a profile's sheet when only that one matches.
+ */
+async function readDropFile(file: File, profiles: ImportProfile[]): Promise<DropFileContents> {
+  const read = (result: { headers: string[]; data: RawData[]; errors: string[]; rowErrors?: CSVRowError[] }) => ({
+    headers: result.headers,
+    data: result.data,
+    errors: result.errors,
+    rowErrors: result.rowErrors ?? [],
+    profile: result.errors.length === 0 ? matchImportProfile(result.headers, profiles) : null
+  });
+
+  switch (FileProcessor.getFileType(file)) {
+    case 'csv':
+      return read(await FileProcessor.processCSV(file, true));
+    case 'json':
+      return read(await FileProcessor.processJSON(file));
+    case 'ndjson':
+      return read(await FileProcessor.processNDJSON(file));
+    case 'parquet':
+      return read(await FileProcessor.processParquet(file));
+    case 'excel': {
+      const workbook = await FileProcessor.processExcel(file, true);
+      const firstSheet = read(workbook);
+      if (firstSheet.profile || workbook.errors.length > 0) return firstSheet;
+
+      for (const profile of profiles) {
+        if (!profile.sheetName || !workbook.sheets.slice(1).includes(profile.sheetName)) continue;
+
+        const sheet = read(await FileProcessor.processExcelSheet(file, profile.sheetName, true));
+        if (sheet.profile?.id === profile.id) return sheet;
+      }
+      return firstSheet;
+    }
+    default:
+      return { headers: [], data: [], errors: ['File type not supported'], rowErrors: [], profile: null };
+  }
+}
+
+export class DropFolderIngestion {
+  private store: IngestionStore;
+  private alerts: IngestionAlertSink;
+  private config: DropFolderConfig;
+  private timer: NodeJS.Timeout | null = null;
+  private scanning: Promise<IngestionLogEntry[]> | null = null;
+  private lastScanAt: Date | null = null;
+  private lastError: string | null = null;
+
+  constructor(
+    store: IngestionStore = databaseStore,
+    alerts: IngestionAlertSink = alertSystem,
+    config: DropFolderConfig = getDropFolderConfig()
+  ) {
+    this.store = store;
+    this.alerts = alerts;
+    this.config = config;
+  }
+
+  get status(): DropFolderStatus {
+    return {
+      directory: this.config.directory,
+      running: this.timer !== null,
+      lastScanAt: this.lastScanAt,
+      lastError: this.lastError
+    };
+  }
+
+  /**
+   * Scan the folder now and then every poll interval
+   */
+  start(): void {
+    if (this.timer || !this.config.directory) return;
+
+    this.timer = setInterval(() => void this.scan(), this.config.pollIntervalMs);
+    this.timer.unref();
+
+    void this.scan();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Ingest every file that has settled. Calls made during a scan wait for it
+   * rather than starting another one.
+   */
+  scan(): Promise<IngestionLogEntry[]> {
+    if (!this.scanning) {
+      this.scanning = this.ingestSettledFiles().finally(() => {
+        this.scanning = null;
+      });
+    }
+    return this.scanning;
+  }
+
+  private async ingestSettledFiles(): Promise<IngestionLogEntry[]> {
+    const directory = this.config.directory;
+    if (!directory) return [];
+
+    const entries: IngestionLogEntry[] = [];
+    let files: string[];
+
+    try {
+      const listing = await readdir(directory, { withFileTypes: true });
+      files = listing
+        .filter(entry => entry.isFile() && !entry.name.startsWith('.'))
+        .map(entry => entry.name);
+      await mkdir(join(directory, PROCESSING_DIR), { recursive: true });
+      files = [...await this.requeueAbandonedFiles(), ...files].sort();
+    } catch (error) {
+      // An unmounted share is reported once until it comes back
+      this.lastError = `Drop folder ${directory} cannot be read: ${errorMessage(error)}`;
+      console.error(this.lastError);
+      this.alerts.raiseAlert(DROP_FOLDER_ALERT_ID, this.lastError, 'high');
+      return entries;
+    }
+
+    this.lastError = null;
+    this.alerts.resolveAlertsForConfig(DROP_FOLDER_ALERT_ID);
+
+    for (const fileName of files) {
+      const source = join(directory, fileName);
+      const claimed = join(directory, PROCESSING_DIR, fileName);
+      const lease = leasePath(directory, fileName);
+
+      try {
+        if (this.config.settleMs > 0) {
+          const { mtimeMs } = await stat(source);
+          if (Date.now() - mtimeMs < this.config.settleMs) continue;
+        }
+
+        // Whoever moves the file first owns it, so two instances never import it
+        // twice. The lease is written first, so a claimed file never looks abandoned.
+        await writeFile(lease, '');
+        await rename(source, claimed);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.error(`Error claiming drop folder file ${fileName}:`, error);
+        }
+        continue;
+      }
+
+      const renew = setInterval(() => {
+        const now = new Date();
+        void utimes(lease, now, now).catch(() => undefined);
+      }, this.config.claimLeaseMs / 3);
+      renew.unref();
+
+      try {
+        const entry = await this.ingest(claimed, fileName);
+        if (entry) entries.push(entry);
+      } finally {
+        clearInterval(renew);
+        await rm(lease, { force: true });
+      }
+    }
+
+    this.lastScanAt = new Date();
+    return entries;
+  }
+
+  private async ingest(path: string, fileName: string): Promise<IngestionLogEntry | null> {
+    const startedAt = new Date();
+    let outcome: IngestionOutcome;
+
+    try {
+      outcome = await this.importFile(path, fileName);
+    } catch (error) {
+      console.error(`Drop folder import of ${fileName} failed:`, error);
+      outcome = quarantined(`Import failed: ${errorMessage(error)}`);
+    }
+
+    // Timestamped, as daily exports often reuse the same name
+    const folder = outcome.status === 'committed' ? PROCESSED_DIR : QUARANTINE_DIR;
+    const storedAs = join(folder, `${startedAt.toISOString().replace(/[:.]/g, '-')}_${fileName}`);
+
+    try {
+      await mkdir(join(this.config.directory!, folder), { recursive: true });
+      await rename(path, join(this.config.directory!, storedAs));
+    } catch (error) {
+      console.error(`Error moving drop folder file ${fileName}:`, error);
+    }
+
+    if (outcome.status === 'quarantined') {
+      this.alerts.raiseAlert(dropFileAlertId(fileName), `Drop folder file ${fileName} was quarantined: ${outcome.message}`, 'high');
+    } else {
+      this.alerts.resolveAlertsForConfig(dropFileAlertId(fileName));
+    }
+
+    try {
+      return await this.store.logIngestion({ ...outcome, fileName, storedAs, startedAt, finishedAt: new Date() });
+    } catch (error) {
+      console.error(`Error logging drop folder import of ${fileName}:`, error);
+      return null;
+    }
+  }
+
+  private async importFile(path: string, fileName: string): Promise<IngestionOutcome> {
+    const file = new File([await openAsBlob(path)], fileName);
+
+    const validation = FileProcessor.validateFile(file);
+    if (!validation.isValid) {
+      return quarantined(validation.errors.join(', '));
+    }
+
+    const contents = await readDropFile(file, await this.store.getProfiles());
+    if (contents.errors.length > 0) {
+      return quarantined(contents.errors.join(', '));
+    }
+
+    const profile = contents.profile;
+    if (!profile) {
+      return quarantined(`No team import profile matches the columns ${contents.headers.join(', ')}`, {
+        totalRows: contents.data.length + contents.rowErrors.length
+      });
+    }
+
+    const { data, columnMapping } = applyImportProfile(contents.data, profile.columnMapping, profile);
+    const transformed = await transformRawDataToTranscripts(data, columnMapping);
+
+    // Unparseable lines are reported by line, like rows that fail validation
+    const errors: ImportResult['errors'] = [
+      ...contents.rowErrors.map(error => ({ row: error.line, field: '', value: '', message: error.message })),
+      ...transformed.errors
+    ];
+    const totalRows = data.length + contents.rowErrors.length;
+    const details = {
+      profileId: profile.id,
+      profileName: profile.name,
+      totalRows,
+      errorCount: errors.length,
+      errors: errors.slice(0, MAX_LOGGED_ERRORS)
+    };
+
+    if (transformed.validData.length === 0) {
+      return quarantined('No valid rows to import', details);
+    }
+    if ((errors.length / totalRows) * 100 > this.config.maxErrorPercent) {
+      return quarantined(
+        `${errors.length} of ${totalRows} rows are invalid, more than the ${this.config.maxErrorPercent}% allowed`,
+        details
+      );
+    }
+
+    const { batchId, result } = await this.store.importRows({
+      fileName,
+      totalRows,
+      errors,
+      rows: transformed.validData.map((record, index) => ({
+        rowNumber: transformed.rowNumbers[index],
+        clientName: record.clientName,
+        date: record.date,
+        transcriptCount: record.transcriptCount,
+        transcriptType: record.transcriptType,
+        notes: record.notes
+      }))
+    }, this.config.conflictResolution, profile.createdBy);
+
+    return {
+      ...details,
+      status: 'committed',
+      batchId,
+      importedRows: result.successCount,
+      errorCount: result.errorCount,
+      errors: result.errors.slice(0, MAX_LOGGED_ERRORS),
+      message: `Imported ${result.successCount} of ${totalRows} rows with the ${profile.name} profile`
+    };
+  }
+
+  /**
+   * Put back files claimed by an instance that stopped before finishing them,
+   * which is when their lease has not been renewed for claimLeaseMs. Files
+   * another instance is still importing keep a fresh lease and are left alone.
+   */
+  private async requeueAbandonedFiles(): Promise<string[]> {
+    const directory = this.config.directory!;
+    const requeued: string[] = [];
+    const claimed = (await readdir(join(directory, PROCESSING_DIR))).filter(name => !name.startsWith('.'));
+
+    for (const fileName of claimed) {
+      const lease = leasePath(directory, fileName);
+
+      try {
+        const renewedAt = await stat(lease).then(({ mtimeMs }) => mtimeMs, () => 0);
+        if (Date.now() - renewedAt < this.config.claimLeaseMs) continue;
+
+        // The lease goes first, so a new claim made once the file is back keeps its own
+        await rm(lease, { force: true });
+        await rename(join(directory, PROCESSING_DIR, fileName), join(directory, fileName));
+        requeued.push(fileName);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.error(`Error requeueing drop folder file ${fileName}:`, error);
+        }
+      }
+    }
+
+    return requeued;
+  }
+}
+
+let ingestion: DropFolderIngestion | null = null;
+
+/**
+ * Process-wide watcher for the configured drop folder
+ */
+export function getDropFolderIngestion(): DropFolderIngestion {
+  if (!ingestion) {
+    ingestion = new DropFolderIngestion();
+  }
+  return ingestion;
+}
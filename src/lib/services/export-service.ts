@@ -2,6 +2,9 @@ import { TranscriptData, PredictionResult } from '@/types/transcript'
 import { format } from 'date-fns'
 import jsPDF from 'jspdf'
 import 'jspdf-autotable'
+import { ForecastScenario } from '@/types/scenario'
+import { describeScenarioAdjustment } from '@/lib/utils/scenario-adjustments'
+import { FinanceFigures, FinanceReport } from '@/types/finance'
 
 export interface ExportOptions {
   format: 'csv' | 'pdf'
@@ -10,8 +13,12 @@ export interface ExportOptions {
     end: Date
   }
   clients?: string[]
+  // Segment id the clients were limited to
+  segment?: string
   includeAnalytics?: boolean
   includePredictions?: boolean
+  // Revenue, labor cost and margin sections; needs AnalyticsData.finance
+  includeFinance?: boolean
   includeCharts?: boolean
 }
 
@@ -25,6 +32,7 @@ export interface ExportResult {
 export interface AnalyticsData {
   transcripts: TranscriptData[]
   predictions?: PredictionResult[]
+  finance?: FinanceReport
   summary: {
     totalTranscripts: number
     averagePerDay: number
@@ -34,6 +42,19 @@ export interface AnalyticsData {
   }
 }
 
+// jspdf-autotable adds autoTable to jsPDF instances at runtime
+type AutoTableDoc = jsPDF & {
+  autoTable: (options: Record<string, unknown>) => void
+  lastAutoTable: { finalY: number }
+}
+
+interface ScenarioRow {
+  date: string
+  client: string
+  baseline: number
+  scenario: number
+}
+
 export class ExportService {
   /**
    * Export data in the specified format
@@ -80,6 +101,9 @@ export class ExportService {
     if (options.dateRange) {
       lines.push(`# Date Range: ${format(options.dateRange.start, 'yyyy-MM-dd')} to ${format(options.dateRange.end, 'yyyy-MM-dd')}`)
     }
+    if (options.segment) {
+      lines.push(`# Segment: ${options.segment}`)
+    }
     lines.push('')
 
     // Summary statistics
@@ -125,6 +149,34 @@ export class ExportService {
       })
     }
 
+    // Finance data
+    if (options.includeFinance && data.finance) {
+      const finance = data.finance
+      lines.push('')
+      lines.push(`# Monthly Finance (${finance.currency}, labor at ${finance.laborCostPerHour.toFixed(2)} per hour)`)
+      lines.push('Month,Kind,Volume,Revenue,Labor Hours,Labor Cost,Margin,Margin %')
+      finance.months.forEach(month => {
+        lines.push(`${month.month},${month.kind},${this.financeValues(month).join(',')}`)
+      })
+      lines.push(`Total,actual,${this.financeValues(finance.totals.actual).join(',')}`)
+      lines.push(`Total,forecast,${this.financeValues(finance.totals.forecast).join(',')}`)
+      lines.push('')
+
+      lines.push('# Client Finance')
+      lines.push('Month,Kind,Client,Rate Card,Volume,Revenue,Labor Hours,Labor Cost,Margin,Margin %')
+      finance.clients.forEach(row => {
+        const client = this.escapeCsvField(row.clientName)
+        lines.push(`${row.month},${row.kind},${client},${row.rateCard ?? 'none'},${this.financeValues(row).join(',')}`)
+      })
+
+      if (finance.unpricedClients.length > 0) {
+        lines.push(`# Without a rate card: ${finance.unpricedClients.join('; ')}`)
+      }
+      if (finance.uncostedClients.length > 0) {
+        lines.push(`# Without AHT data: ${finance.uncostedClients.join('; ')}`)
+      }
+    }
+
     return lines.join('\n')
   }
 
@@ -144,6 +196,11 @@ export class ExportService {
     doc.setFontSize(10)
     doc.text(`Generated: ${format(new Date(), 'yyyy-MM-dd HH:mm:ss')}`, 20, yPosition)
     yPosition += 8
+
+    if (options.segment) {
+      doc.text(`Segment: ${options.segment}`, 20, yPosition)
+      yPosition += 8
+    }
     
     if (options.dateRange) {
       doc.text(`Date Range: ${format(options.dateRange.start, 'yyyy-MM-dd')} to ${format(options.dateRange.end, 'yyyy-MM-dd')}`, 20, yPosition)
@@ -255,9 +312,252 @@ export class ExportService {
       })
     }
 
+    // Finance tables
+    if (options.includeFinance && data.finance) {
+      const finance = data.finance
+      const table = doc as unknown as AutoTableDoc
+      yPosition = table.lastAutoTable.finalY + 15
+
+      if (yPosition > 250) {
+        doc.addPage()
+        yPosition = 20
+      }
+
+      doc.setFontSize(12)
+      doc.text(`Finance (${finance.currency})`, 20, yPosition)
+      yPosition += 6
+      doc.setFontSize(9)
+      doc.text(`Labor cost at ${finance.laborCostPerHour.toFixed(2)} per staffed hour`, 20, yPosition)
+      yPosition += 6
+
+      const monthTableData = finance.months.map(month => [month.month, month.kind, ...this.financeValues(month)])
+      monthTableData.push(['Total', 'actual', ...this.financeValues(finance.totals.actual)])
+      monthTableData.push(['Total', 'forecast', ...this.financeValues(finance.totals.forecast)])
+
+      table.autoTable({
+        head: [['Month', 'Kind', 'Volume', 'Revenue', 'Hours', 'Labor Cost', 'Margin', 'Margin %']],
+        body: monthTableData,
+        startY: yPosition,
+        theme: 'grid',
+        styles: { fontSize: 8 }
+      })
+
+      yPosition = table.lastAutoTable.finalY + 15
+      if (yPosition > 250) {
+        doc.addPage()
+        yPosition = 20
+      }
+
+      doc.setFontSize(12)
+      doc.text('Client Finance', 20, yPosition)
+      yPosition += 10
+
+      table.autoTable({
+        head: [['Month', 'Kind', 'Client', 'Volume', 'Revenue', 'Hours', 'Labor Cost', 'Margin', 'Margin %']],
+        body: finance.clients.map(row => [row.month, row.kind, row.clientName, ...this.financeValues(row)]),
+        startY: yPosition,
+        theme: 'grid',
+        styles: { fontSize: 7 }
+      })
+
+      const gaps = [
+        finance.unpricedClients.length > 0 ? `Without a rate card: ${finance.unpricedClients.join(', ')}` : null,
+        finance.uncostedClients.length > 0 ? `Without AHT data: ${finance.uncostedClients.join(', ')}` : null
+      ].filter((gap): gap is string => gap !== null)
+
+      if (gaps.length > 0) {
+        yPosition = table.lastAutoTable.finalY + 8
+        doc.setFontSize(9)
+        gaps.forEach(gap => {
+          doc.text(gap, 20, yPosition)
+          yPosition += 6
+        })
+      }
+    }
+
     return new Blob([doc.output('blob')], { type: 'application/pdf' })
   }
 
+  /**
+   * Export a what-if scenario next to its baseline forecasts
+   */
+  async exportScenario(scenario: ForecastScenario, exportFormat: 'csv' | 'pdf'): Promise<ExportResult> {
+    try {
+      const filename = `scenario_${scenario.name.replace(/[^a-zA-Z0-9]/g, '_')}_${format(new Date(), 'yyyy-MM-dd_HH-mm-ss')}`
+
+      if (exportFormat === 'csv') {
+        return {
+          success: true,
+          data: this.generateScenarioCSV(scenario),
+          filename: `${filename}.csv`
+        }
+      } else if (exportFormat === 'pdf') {
+        return {
+          success: true,
+          data: this.generateScenarioPDF(scenario),
+          filename: `${filename}.pdf`
+        }
+      }
+
+      throw new Error(`Unsupported export format: ${exportFormat}`)
+    } catch (error) {
+      return {
+        success: false,
+        filename: '',
+        error: error instanceof Error ? error.message : 'Export failed'
+      }
+    }
+  }
+
+  /**
+   * Baseline and scenario volume per client and period. Clients added by the
+   * scenario have a zero baseline.
+   */
+  private getScenarioRows(scenario: ForecastScenario): ScenarioRow[] {
+    const rows = new Map<string, ScenarioRow>()
+    const rowFor = (clientName: string, date: Date) => {
+      const key = `${clientName}|${format(new Date(date), 'yyyy-MM-dd')}`
+      let row = rows.get(key)
+      if (!row) {
+        row = { date: format(new Date(date), 'yyyy-MM-dd'), client: clientName, baseline: 0, scenario: 0 }
+        rows.set(key, row)
+      }
+      return row
+    }
+
+    scenario.baseline.forEach(forecast => {
+      forecast.predictions.forEach(pred => {
+        rowFor(forecast.clientName, pred.date).baseline += pred.predictedCount
+      })
+    })
+    scenario.forecasts.forEach(forecast => {
+      forecast.predictions.forEach(pred => {
+        rowFor(forecast.clientName, pred.date).scenario += pred.predictedCount
+      })
+    })
+
+    return Array.from(rows.values()).sort((a, b) =>
+      a.date.localeCompare(b.date) || a.client.localeCompare(b.client)
+    )
+  }
+
+  private formatDifference(baseline: number, scenario: number): [string, string] {
+    const difference = scenario - baseline
+    const percent = baseline > 0 ? `${((difference / baseline) * 100).toFixed(1)}%` : 'N/A'
+    return [difference.toString(), percent]
+  }
+
+  /**
+   * Generate scenario CSV data
+   */
+  private generateScenarioCSV(scenario: ForecastScenario): string {
+    const lines: string[] = []
+    const rows = this.getScenarioRows(scenario)
+
+    lines.push(`# Scenario: ${scenario.name}`)
+    lines.push(`# Generated: ${format(new Date(), 'yyyy-MM-dd HH:mm:ss')}`)
+    lines.push(`# Prediction Type: ${scenario.predictionType}`)
+    if (scenario.description) {
+      lines.push(`# Description: ${scenario.description}`)
+    }
+    scenario.adjustments.forEach(adjustment => {
+      lines.push(`# Adjustment: ${describeScenarioAdjustment(adjustment)}`)
+    })
+    lines.push('')
+
+    lines.push('Date,Client,Baseline,Scenario,Difference,Difference %')
+    rows.forEach(row => {
+      const [difference, percent] = this.formatDifference(row.baseline, row.scenario)
+      lines.push(`${row.date},${this.escapeCsvField(row.client)},${row.baseline},${row.scenario},${difference},${percent}`)
+    })
+
+    const baselineTotal = rows.reduce((sum, row) => sum + row.baseline, 0)
+    const scenarioTotal = rows.reduce((sum, row) => sum + row.scenario, 0)
+    const [difference, percent] = this.formatDifference(baselineTotal, scenarioTotal)
+    lines.push(`Total,,${baselineTotal},${scenarioTotal},${difference},${percent}`)
+
+    return lines.join('\n')
+  }
+
+  /**
+   * Generate scenario PDF report
+   */
+  private generateScenarioPDF(scenario: ForecastScenario): Blob {
+    const doc = new jsPDF()
+    let yPosition = 20
+
+    doc.setFontSize(20)
+    doc.text(`Scenario: ${scenario.name}`, 20, yPosition)
+    yPosition += 15
+
+    doc.setFontSize(10)
+    doc.text(`Generated: ${format(new Date(), 'yyyy-MM-dd HH:mm:ss')}`, 20, yPosition)
+    yPosition += 6
+    doc.text(`Prediction Type: ${scenario.predictionType}`, 20, yPosition)
+    yPosition += 6
+    if (scenario.description) {
+      doc.text(scenario.description, 20, yPosition)
+      yPosition += 6
+    }
+    yPosition += 4
+
+    if (scenario.adjustments.length > 0) {
+      doc.setFontSize(12)
+      doc.text('Adjustments', 20, yPosition)
+      yPosition += 8
+
+      doc.setFontSize(10)
+      scenario.adjustments.forEach(adjustment => {
+        doc.text(`- ${describeScenarioAdjustment(adjustment)}`, 20, yPosition)
+        yPosition += 6
+      })
+      yPosition += 9
+    }
+
+    const rows = this.getScenarioRows(scenario)
+    const tableData = rows.map(row => [
+      row.date,
+      row.client,
+      row.baseline.toString(),
+      row.scenario.toString(),
+      ...this.formatDifference(row.baseline, row.scenario)
+    ])
+
+    const baselineTotal = rows.reduce((sum, row) => sum + row.baseline, 0)
+    const scenarioTotal = rows.reduce((sum, row) => sum + row.scenario, 0)
+    tableData.push([
+      'Total',
+      '',
+      baselineTotal.toString(),
+      scenarioTotal.toString(),
+      ...this.formatDifference(baselineTotal, scenarioTotal)
+    ])
+
+    ;(doc as unknown as AutoTableDoc).autoTable({
+      head: [['Date', 'Client', 'Baseline', 'Scenario', 'Difference', 'Difference %']],
+      body: tableData,
+      startY: yPosition,
+      theme: 'grid',
+      styles: { fontSize: 8 }
+    })
+
+    return new Blob([doc.output('blob')], { type: 'application/pdf' })
+  }
+
+  /**
+   * Volume, revenue, labor hours, labor cost, margin and margin % of a finance row
+   */
+  private financeValues(figures: FinanceFigures): string[] {
+    return [
+      figures.volume.toString(),
+      figures.revenue.toFixed(2),
+      figures.laborHours.toFixed(1),
+      figures.laborCost.toFixed(2),
+      figures.margin.toFixed(2),
+      figures.marginPercent === null ? 'N/A' : `${figures.marginPercent.toFixed(1)}%`
+    ]
+  }
+
   /**
    * Escape CSV field to handle commas and quotes
    */
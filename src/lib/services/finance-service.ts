@@ -0,0 +1,95 @@
+import { AHTData } from '@/types/aht';
+import { FinanceReport, RateCard } from '@/types/finance';
+import { PredictionResult, TranscriptData } from '@/types/transcript';
+import { buildFinanceReport } from '@/lib/utils/finance-model';
+import { FinanceConfig, getFinanceConfig } from '@/lib/config/finance';
+import { TranscriptService } from '@/lib/database/transcripts';
+import { PredictionService as PredictionStore } from '@/lib/database/predictions';
+import { AHTService } from '@/lib/database/aht';
+import { RateCardService } from '@/lib/database/rate-cards';
+
+/**
+ * Monthly revenue, labor cost and margin from recorded volume, the latest
+ * stored monthly forecasts, AHT and rate cards. Nothing is stored: reports are
+ * worked out on request so they follow rate card and AHT changes straight away.
+ */
+
+export interface FinanceDataSource {
+  getTranscripts(start: Date, end: Date): Promise<TranscriptData[]>;
+  /** Latest stored monthly forecast per client */
+  getForecasts(): Promise<PredictionResult[]>;
+  getAHT(): Promise<AHTData[]>;
+  getRateCards(): Promise<RateCard[]>;
+}
+
+export interface FinanceRequest {
+  /** First and last months of actuals, YYYY-MM; by default the configured months up to the current one */
+  startMonth?: string;
+  endMonth?: string;
+  /** Clients to report on; every client when not given */
+  clientNames?: string[];
+  includeForecast?: boolean;
+}
+
+const databaseSource: FinanceDataSource = {
+  getTranscripts: (start, end) => new TranscriptService().getTranscriptsByDateRange(start, end),
+  getForecasts: async () => {
+    const predictions = await new PredictionStore().getPredictions(undefined, 'monthly');
+    const seen = new Set<string>();
+    return predictions.filter(prediction => {
+      if (!prediction.clientId || seen.has(prediction.clientId)) return false;
+      seen.add(prediction.clientId);
+      return true;
+    });
+  },
+  getAHT: async () => (await new AHTService().getAHTData()).clients,
+  getRateCards: () => new RateCardService().getRateCards()
+};
+
+function yearMonth(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function monthStart(month: string): Date {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(year, monthNumber - 1, 1);
+}
+
+export class FinanceService {
+  private source: FinanceDataSource;
+  private config: FinanceConfig;
+
+  constructor(
+    source: FinanceDataSource = databaseSource,
+    config: FinanceConfig = getFinanceConfig()
+  ) {
+    this.source = source;
+    this.config = config;
+  }
+
+  async report({ startMonth, endMonth, clientNames, includeForecast = true }: FinanceRequest = {}): Promise<FinanceReport> {
+    const end = endMonth ?? yearMonth(new Date());
+    const endDate = monthStart(end);
+    const start = startMonth
+      ?? yearMonth(new Date(endDate.getFullYear(), endDate.getMonth() - (this.config.actualMonths - 1), 1));
+
+    const [transcripts, forecasts, ahtData, rateCards] = await Promise.all([
+      this.source.getTranscripts(monthStart(start), new Date(endDate.getFullYear(), endDate.getMonth() + 1, 0)),
+      includeForecast ? this.source.getForecasts() : Promise.resolve([]),
+      this.source.getAHT(),
+      this.source.getRateCards()
+    ]);
+
+    const wanted = clientNames ? new Set(clientNames.map(name => name.toLowerCase())) : null;
+    const isWanted = (clientName: string) => !wanted || wanted.has(clientName.toLowerCase());
+
+    return buildFinanceReport({
+      transcripts: transcripts.filter(record => isWanted(record.clientName)),
+      forecasts: forecasts.filter(forecast => isWanted(forecast.clientName)),
+      ahtData,
+      rateCards,
+      startMonth: start,
+      endMonth: end
+    }, this.config);
+  }
+}
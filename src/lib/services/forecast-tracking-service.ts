@@ -0,0 +1,178 @@
+import { Alert } from '@/types/monitoring';
+import {
+  AccuracyDecay,
+  ForecastTrackingReport,
+  RealizedAccuracy,
+  RealizedOutcome
+} from '@/types/forecast-tracking';
+import { calculateAccuracyMetrics, smape } from '@/lib/utils/forecast-metrics';
+import { ForecastTrackingConfig, getForecastTrackingConfig } from '@/lib/config/forecast-tracking';
+import { ForecastOutcomeService } from '@/lib/database/forecast-outcomes';
+import { alertSystem } from '@/lib/monitoring/alert-system';
+
+/**
+ * Forecast-vs-actual tracking. Stored predictions are compared with the
+ * transcripts that arrive after them, and a client whose realized error
+ * drifts past the configured limits raises an alert so its models can be
+ * retrained.
+ */
+
+export interface ForecastOutcomeStore {
+  /** Record outcomes for prediction periods that have matured by asOf */
+  recordMaturedOutcomes(asOf: Date): Promise<number>;
+  getOutcomes(clientId?: string, since?: Date): Promise<RealizedOutcome[]>;
+}
+
+export interface ForecastAlertSink {
+  raiseAlert(configId: string, message: string, severity: Alert['severity']): Alert | null;
+  resolveAlertsForConfig(configId: string): void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function accuracyDecayAlertId(clientId: string): string {
+  return `forecast-accuracy-decay:${clientId}`;
+}
+
+/**
+ * Realized accuracy per client, model and horizon
+ */
+export function summarizeOutcomes(outcomes: RealizedOutcome[]): RealizedAccuracy[] {
+  const groups = new Map<string, RealizedOutcome[]>();
+
+  outcomes.forEach(outcome => {
+    const key = `${outcome.clientId}|${outcome.modelType}|${outcome.horizon}`;
+    groups.set(key, [...(groups.get(key) || []), outcome]);
+  });
+
+  return Array.from(groups.values())
+    .map(group => {
+      const { count, ...metrics } = calculateAccuracyMetrics(group.map(outcome => ({
+        actual: outcome.actualCount,
+        predicted: outcome.predictedCount,
+        lower: outcome.confidenceLower,
+        upper: outcome.confidenceUpper
+      })));
+
+      return {
+        clientId: group[0].clientId,
+        clientName: group[0].clientName,
+        modelType: group[0].modelType,
+        horizon: group[0].horizon,
+        sampleCount: count,
+        ...metrics
+      };
+    })
+    .sort((a, b) =>
+      a.clientName.localeCompare(b.clientName) ||
+      a.modelType.localeCompare(b.modelType) ||
+      a.horizon - b.horizon
+    );
+}
+
+function windowError(outcomes: RealizedOutcome[]): number | null {
+  return smape(outcomes.map(o => o.actualCount), outcomes.map(o => o.predictedCount));
+}
+
+/**
+ * Compare each client's recent realized sMAPE with the error limit and with
+ * the client's own earlier error. Windows with fewer than minOutcomes
+ * outcomes are not judged.
+ */
+export function detectAccuracyDecay(
+  outcomes: RealizedOutcome[],
+  asOf: Date,
+  config: ForecastTrackingConfig
+): AccuracyDecay[] {
+  const recentStart = asOf.getTime() - config.recentDays * DAY_MS;
+  const byClient = new Map<string, RealizedOutcome[]>();
+
+  outcomes.forEach(outcome => {
+    byClient.set(outcome.clientId, [...(byClient.get(outcome.clientId) || []), outcome]);
+  });
+
+  return Array.from(byClient.values()).map(clientOutcomes => {
+    const recent = clientOutcomes.filter(o => new Date(o.periodStart).getTime() >= recentStart);
+    const baseline = clientOutcomes.filter(o => new Date(o.periodStart).getTime() < recentStart);
+    const recentError = recent.length >= config.minOutcomes ? windowError(recent) : null;
+    const baselineError = baseline.length >= config.minOutcomes ? windowError(baseline) : null;
+
+    let reason: string | undefined;
+    if (recentError !== null && recentError > config.errorThreshold) {
+      reason = `sMAPE ${recentError.toFixed(1)}% is above the ${config.errorThreshold}% limit`;
+    } else if (
+      recentError !== null &&
+      baselineError !== null &&
+      baselineError > 0 &&
+      recentError > baselineError * config.degradationRatio
+    ) {
+      reason = `sMAPE rose from ${baselineError.toFixed(1)}% to ${recentError.toFixed(1)}%`;
+    }
+
+    return {
+      clientId: clientOutcomes[0].clientId,
+      clientName: clientOutcomes[0].clientName,
+      recentError,
+      baselineError,
+      recentCount: recent.length,
+      baselineCount: baseline.length,
+      decayed: reason !== undefined,
+      ...(reason ? { reason } : {})
+    };
+  });
+}
+
+export class ForecastTrackingService {
+  private store: ForecastOutcomeStore;
+  private alerts: ForecastAlertSink;
+  private config: ForecastTrackingConfig;
+
+  constructor(
+    store: ForecastOutcomeStore = new ForecastOutcomeService(),
+    alerts: ForecastAlertSink = alertSystem,
+    config: ForecastTrackingConfig = getForecastTrackingConfig()
+  ) {
+    this.store = store;
+    this.alerts = alerts;
+    this.config = config;
+  }
+
+  /**
+   * Record newly matured outcomes, then check every client for accuracy
+   * decay. Decayed clients raise an alert; clients that have recovered have
+   * their alert resolved.
+   */
+  async run(asOf: Date = new Date()): Promise<ForecastTrackingReport> {
+    const recorded = await this.store.recordMaturedOutcomes(asOf);
+    const outcomes = await this.store.getOutcomes();
+    const decay = detectAccuracyDecay(outcomes, asOf, this.config);
+
+    decay.forEach(result => {
+      const alertId = accuracyDecayAlertId(result.clientId);
+
+      if (result.decayed) {
+        this.alerts.raiseAlert(
+          alertId,
+          `Forecast accuracy decay for ${result.clientName}: ${result.reason}. Consider retraining its models.`,
+          'medium'
+        );
+      } else if (result.recentError !== null) {
+        this.alerts.resolveAlertsForConfig(alertId);
+      }
+    });
+
+    return {
+      recorded,
+      accuracy: summarizeOutcomes(outcomes),
+      decay,
+      checkedAt: asOf
+    };
+  }
+
+  /**
+   * Realized accuracy from outcomes already recorded
+   */
+  async getAccuracy(clientId?: string, since?: Date): Promise<RealizedAccuracy[]> {
+    return summarizeOutcomes(await this.store.getOutcomes(clientId, since));
+  }
+}
@@ -0,0 +1,326 @@
+import * as tf from '@tensorflow/tfjs';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ModelMetrics } from './prediction-engine';
+import { getModelRegistryConfig, validateModelRegistryConfig } from '@/lib/config/model-registry';
+import { ForecastModelService } from '@/lib/database/forecast-models';
+
+/**
+ * Registry of trained TF.js forecast models, versioned per client, model type
+ * and granularity. Models are reused while they are fresh (trained on the same
+ * data within the max age) or pinned; otherwise the engine retrains and
+ * registers a new version.
+ */
+
+export interface ModelRegistryKey {
+  /** Client name, or 'All Clients' for models trained on every client */
+  clientKey: string;
+  modelType: string;
+  predictionType: 'daily' | 'weekly' | 'monthly';
+}
+
+export interface NormalizationParams {
+  mean: number;
+  std: number;
+}
+
+export interface TrainingWindow {
+  start: Date;
+  end: Date;
+  /** Number of periods in the window */
+  length: number;
+  /** Hash of the training series, see fingerprintSeries */
+  fingerprint: string;
+}
+
+export interface SerializedModelArtifacts {
+  modelTopology: object;
+  weightSpecs: tf.io.WeightsManifestEntry[];
+  /** Base64-encoded weight buffer */
+  weightData: string;
+}
+
+export interface RegisteredModel extends ModelRegistryKey {
+  id: string;
+  version: number;
+  normalization: NormalizationParams;
+  trainingWindow: TrainingWindow;
+  hyperparameters: Record<string, unknown>;
+  metrics: ModelMetrics;
+  pinned: boolean;
+  createdAt: Date;
+  /** Only populated when a single version is loaded */
+  artifacts?: SerializedModelArtifacts;
+}
+
+export type NewRegisteredModel = Omit<RegisteredModel, 'id' | 'version' | 'pinned' | 'createdAt'> & {
+  artifacts: SerializedModelArtifacts;
+};
+
+export interface ModelRegistryStore {
+  /** Store a model as the next version for its key */
+  saveModel(model: NewRegisteredModel): Promise<RegisteredModel>;
+  /** All versions for a key without artifacts, newest first */
+  listModels(key: ModelRegistryKey): Promise<RegisteredModel[]>;
+  /** A single version including its artifacts */
+  getModel(key: ModelRegistryKey, version: number): Promise<RegisteredModel | null>;
+  /** Pin a version, or clear the pin with null */
+  setPinnedVersion(key: ModelRegistryKey, version: number | null): Promise<void>;
+}
+
+const DEFAULT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Hash of a training series. A stored model is only considered fresh when it
+ * was trained on exactly the same periods and counts.
+ */
+export function fingerprintSeries(values: number[], dates: Date[]): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ values, dates: dates.map(d => new Date(d).toISOString()) }))
+    .digest('hex');
+}
+
+/**
+ * Capture a trained model's topology and weights
+ */
+export async function serializeModel(model: tf.LayersModel): Promise<SerializedModelArtifacts> {
+  let artifacts: tf.io.ModelArtifacts | undefined;
+
+  await model.save(tf.io.withSaveHandler(async (modelArtifacts) => {
+    artifacts = modelArtifacts;
+    return { modelArtifactsInfo: { dateSaved: new Date(), modelTopologyType: 'JSON' } };
+  }));
+
+  if (!artifacts || !artifacts.modelTopology || !artifacts.weightSpecs || !artifacts.weightData) {
+    throw new Error('Model could not be serialized');
+  }
+
+  const weightData = Array.isArray(artifacts.weightData)
+    ? tf.io.concatenateArrayBuffers(artifacts.weightData)
+    : artifacts.weightData;
+
+  return {
+    modelTopology: artifacts.modelTopology as object,
+    weightSpecs: artifacts.weightSpecs,
+    weightData: Buffer.from(weightData).toString('base64')
+  };
+}
+
+/**
+ * Rebuild a model from serialized artifacts
+ */
+export async function deserializeModel(artifacts: SerializedModelArtifacts): Promise<tf.LayersModel> {
+  const buffer = Buffer.from(artifacts.weightData, 'base64');
+  const weightData = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+
+  return tf.loadLayersModel(tf.io.fromMemory({
+    modelTopology: artifacts.modelTopology,
+    weightSpecs: artifacts.weightSpecs,
+    weightData
+  }));
+}
+
+interface FileSystemIndex {
+  pinnedVersion: number | null;
+  versions: Omit<RegisteredModel, 'pinned' | 'artifacts'>[];
+}
+
+/**
+ * Stores each key in its own directory: index.json with version metadata and
+ * one v<N>.json file of artifacts per version
+ */
+export class FileSystemModelStore implements ModelRegistryStore {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  async saveModel(model: NewRegisteredModel): Promise<RegisteredModel> {
+    const index = await this.readIndex(model);
+    const { artifacts, ...metadata } = model;
+    const version = index.versions.reduce((max, v) => Math.max(max, v.version), 0) + 1;
+
+    const entry = {
+      ...metadata,
+      id: `${this.keyName(model)}__v${version}`,
+      version,
+      createdAt: new Date()
+    };
+
+    await fs.mkdir(this.keyDirectory(model), { recursive: true });
+    await fs.writeFile(path.join(this.keyDirectory(model), `v${version}.json`), JSON.stringify(artifacts));
+    await this.writeIndex(model, { ...index, versions: [...index.versions, entry] });
+
+    return { ...entry, pinned: false };
+  }
+
+  async listModels(key: ModelRegistryKey): Promise<RegisteredModel[]> {
+    const index = await this.readIndex(key);
+
+    return index.versions
+      .map(v => ({ ...v, pinned: v.version === index.pinnedVersion }))
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getModel(key: ModelRegistryKey, version: number): Promise<RegisteredModel | null> {
+    const entry = (await this.listModels(key)).find(v => v.version === version);
+    if (!entry) {
+      return null;
+    }
+
+    const artifacts = JSON.parse(
+      await fs.readFile(path.join(this.keyDirectory(key), `v${version}.json`), 'utf8')
+    ) as SerializedModelArtifacts;
+
+    return { ...entry, artifacts };
+  }
+
+  async setPinnedVersion(key: ModelRegistryKey, version: number | null): Promise<void> {
+    const index = await this.readIndex(key);
+    await this.writeIndex(key, { ...index, pinnedVersion: version });
+  }
+
+  private keyName(key: ModelRegistryKey): string {
+    return [encodeURIComponent(key.clientKey), key.modelType, key.predictionType].join('__');
+  }
+
+  private keyDirectory(key: ModelRegistryKey): string {
+    return path.join(this.directory, this.keyName(key));
+  }
+
+  private async readIndex(key: ModelRegistryKey): Promise<FileSystemIndex> {
+    try {
+      const index = JSON.parse(
+        await fs.readFile(path.join(this.keyDirectory(key), 'index.json'), 'utf8')
+      ) as FileSystemIndex;
+
+      return {
+        pinnedVersion: index.pinnedVersion,
+        versions: index.versions.map(v => ({
+          ...v,
+          createdAt: new Date(v.createdAt),
+          trainingWindow: {
+            ...v.trainingWindow,
+            start: new Date(v.trainingWindow.start),
+            end: new Date(v.trainingWindow.end)
+          }
+        }))
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { pinnedVersion: null, versions: [] };
+      }
+      throw error;
+    }
+  }
+
+  private async writeIndex(key: ModelRegistryKey, index: FileSystemIndex): Promise<void> {
+    await fs.mkdir(this.keyDirectory(key), { recursive: true });
+    await fs.writeFile(path.join(this.keyDirectory(key), 'index.json'), JSON.stringify(index, null, 2));
+  }
+}
+
+export class ModelRegistry {
+  private store: ModelRegistryStore;
+  private maxAgeMs: number;
+
+  constructor(store: ModelRegistryStore, maxAgeMs: number = DEFAULT_MAX_AGE_MS) {
+    this.store = store;
+    this.maxAgeMs = maxAgeMs;
+  }
+
+  /**
+   * The pinned version if there is one, otherwise the latest version when it was
+   * trained on the same series within the max age
+   */
+  public async findReusableModel(key: ModelRegistryKey, fingerprint: string): Promise<RegisteredModel | null> {
+    const versions = await this.store.listModels(key);
+    const pinned = versions.find(v => v.pinned);
+
+    if (pinned) {
+      return this.store.getModel(key, pinned.version);
+    }
+
+    const latest = versions[0];
+    if (
+      latest &&
+      latest.trainingWindow.fingerprint === fingerprint &&
+      Date.now() - new Date(latest.createdAt).getTime() <= this.maxAgeMs
+    ) {
+      return this.store.getModel(key, latest.version);
+    }
+
+    return null;
+  }
+
+  public async registerModel(model: NewRegisteredModel): Promise<RegisteredModel> {
+    return this.store.saveModel(model);
+  }
+
+  public async listVersions(key: ModelRegistryKey): Promise<RegisteredModel[]> {
+    return this.store.listModels(key);
+  }
+
+  /**
+   * Always use this version for the key until unpinned
+   */
+  public async pinVersion(key: ModelRegistryKey, version: number): Promise<RegisteredModel> {
+    const versions = await this.store.listModels(key);
+    const target = versions.find(v => v.version === version);
+
+    if (!target) {
+      throw new Error(`Model version ${version} not found for ${this.describeKey(key)}`);
+    }
+
+    await this.store.setPinnedVersion(key, version);
+    return { ...target, pinned: true };
+  }
+
+  public async unpin(key: ModelRegistryKey): Promise<void> {
+    await this.store.setPinnedVersion(key, null);
+  }
+
+  /**
+   * Pin the version before the one currently in use (the pinned or latest version)
+   */
+  public async rollback(key: ModelRegistryKey): Promise<RegisteredModel> {
+    const versions = await this.store.listModels(key);
+    const current = versions.find(v => v.pinned) ?? versions[0];
+    const previous = current && versions.find(v => v.version < current.version);
+
+    if (!previous) {
+      throw new Error(`No earlier model version to roll back to for ${this.describeKey(key)}`);
+    }
+
+    return this.pinVersion(key, previous.version);
+  }
+
+  private describeKey(key: ModelRegistryKey): string {
+    return `${key.clientKey} (${key.modelType}, ${key.predictionType})`;
+  }
+}
+
+/**
+ * Create the registry configured by MODEL_REGISTRY_STORE, or null when disabled
+ */
+export function createModelRegistry(): ModelRegistry | null {
+  const config = getModelRegistryConfig();
+  const errors = validateModelRegistryConfig(config);
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid model registry configuration: ${errors.join(', ')}`);
+  }
+
+  const maxAgeMs = config.maxAgeHours * 60 * 60 * 1000;
+
+  switch (config.store) {
+    case 'postgres':
+      return new ModelRegistry(new ForecastModelService(), maxAgeMs);
+    case 'filesystem':
+      return new ModelRegistry(new FileSystemModelStore(config.directory), maxAgeMs);
+    default:
+      return null;
+  }
+}
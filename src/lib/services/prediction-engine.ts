@@ -1,25 +1,48 @@
 import * as tf from '@tensorflow/tfjs';
-import { TranscriptData } from '@/types/transcript';
-
-export interface PredictionResult {
-  id: string;
-  clientName: string;
-  predictionType: 'daily' | 'weekly' | 'monthly';
-  predictions: TimePrediction[];
-  confidence: number;
-  accuracy: number;
-  modelType: 'linear' | 'polynomial' | 'arima';
-  createdAt: Date;
-}
-
-export interface TimePrediction {
-  date: Date;
-  predictedCount: number;
-  confidenceInterval: {
-    lower: number;
-    upper: number;
-  };
-}
+import { PredictionResult as AnyPredictionResult, TimePrediction, TranscriptData } from '@/types/transcript';
+import {
+  autoArima,
+  holtWinters,
+  intermittentDemand,
+  intervalMultiplier,
+  IntermittentMethod,
+  SeasonalityMode,
+  zeroRatio
+} from '@/lib/utils/time-series-models';
+import {
+  ForecastEvent,
+  estimateEventEffects,
+  eventAdjustments,
+  eventRegressors
+} from '@/lib/utils/event-regressors';
+import {
+  addPeriods,
+  periodKey,
+  periodStart,
+  periodsBetween
+} from '@/lib/utils/fiscal-calendar';
+import { FiscalCalendarConfig, getFiscalCalendarConfig } from '@/lib/config/fiscal-calendar';
+import {
+  ModelRegistry,
+  ModelRegistryKey,
+  NormalizationParams,
+  RegisteredModel,
+  deserializeModel,
+  fingerprintSeries,
+  serializeModel
+} from './model-registry';
+import type { FORECAST_MODEL_TYPES } from '@/lib/validations/schemas';
+
+export type ForecastModelType = (typeof FORECAST_MODEL_TYPES)[number];
+
+// reuse: use a fresh or pinned model, otherwise train and register a new version
+// retrain: always train and register a new version
+// off: train without touching the registry (validation on partial data)
+export type ModelRegistryMode = 'reuse' | 'retrain' | 'off';
+
+// The shared prediction result, limited to the models this engine trains
+export type PredictionResult = AnyPredictionResult<ForecastModelType>;
+export type { TimePrediction };
 
 export interface ModelMetrics {
   mse: number;
@@ -33,19 +56,72 @@ export interface PredictionOptions {
   clientName?: string;
   predictionType: 'daily' | 'weekly' | 'monthly';
   periodsAhead: number;
-  modelType: 'linear' | 'polynomial' | 'arima';
+  modelType: ForecastModelType;
   confidenceLevel: number;
+  /** Seasonal period in prediction periods; defaults by prediction type */
+  seasonLength?: number;
+  /** How trained models use the registry; defaults to 'reuse' */
+  registryMode?: ModelRegistryMode;
+  /** Holidays, client events and outages used as regressors */
+  events?: ForecastEvent[];
+  /** Switch to Croston or TSB when the series is mostly zeros; defaults to true */
+  autoIntermittent?: boolean;
+  /** Decimal places kept in forecasts; defaults to 0 for transcript counts */
+  decimals?: number;
 }
 
+export interface SeriesForecast {
+  predictions: TimePrediction[];
+  metrics: ModelMetrics;
+  modelVersion?: number;
+  /** Model actually fitted, which differs from the request for intermittent series */
+  modelType: ForecastModelType;
+}
+
+interface RegressionSpec {
+  /** Input features for a time index */
+  features: (index: number) => number[];
+  buildModel: () => tf.Sequential;
+  epochs: number;
+  /** Fitted parameters, for the residual degrees of freedom */
+  parameterCount: number;
+  hyperparameters: Record<string, unknown>;
+}
+
+// Default seasonal periods: weekly cycle for daily data, yearly cycle otherwise
+export const DEFAULT_SEASON_LENGTHS: Record<'daily' | 'weekly' | 'monthly', number> = {
+  daily: 7,
+  weekly: 52,
+  monthly: 12
+};
+
+// Share of zero periods above which a series is treated as intermittent demand
+export const INTERMITTENT_ZERO_RATIO = 0.4;
+
+const INTERMITTENT_MODELS: ForecastModelType[] = ['croston', 'tsb'];
+
 export class PredictionEngine {
-  private models: Map<string, tf.LayersModel> = new Map();
+  // Registered models loaded in this process, one per registry key
+  private models: Map<string, { id: string; model: tf.LayersModel }> = new Map();
+  private registry: ModelRegistry | null;
+  private calendar: FiscalCalendarConfig;
   private isInitialized = false;
 
-  constructor() {
+  constructor(registry: ModelRegistry | null = null, calendar: FiscalCalendarConfig = getFiscalCalendarConfig()) {
+    this.registry = registry;
+    this.calendar = calendar;
     this.initializeTensorFlow();
   }
 
   private async initializeTensorFlow(): Promise<void> {
+    // WebGL only exists in the browser; on the server (and in prediction
+    // worker threads) go straight to the CPU backend
+    if (typeof window === 'undefined') {
+      await tf.setBackend('cpu');
+      this.isInitialized = true;
+      return;
+    }
+
     try {
       // Set backend to webgl for better performance in browser
       await tf.setBackend('webgl');
@@ -76,9 +152,12 @@ export class PredictionEngine {
     // Aggregate data based on prediction type
     const aggregatedData = this.aggregateByPeriod(filteredData, predictionType);
     
-    // Extract dates and values
-    const dates = aggregatedData.map(d => d.date);
-    const values = aggregatedData.map(d => d.transcriptCount);
+    // Extract dates and values, counting periods without data as zero
+    const { dates, values } = this.fillMissingPeriods(
+      aggregatedData.map(d => d.date),
+      aggregatedData.map(d => d.transcriptCount),
+      predictionType
+    );
 
     // Create sequences for time series prediction
     const processedData = this.createSequences(values, 7); // Use 7 time steps
@@ -87,7 +166,7 @@ export class PredictionEngine {
   }
 
   /**
-   * Aggregate data by time period
+   * Aggregate data by week or month of the fiscal calendar
    */
   private aggregateByPeriod(
     data: TranscriptData[],
@@ -100,25 +179,13 @@ export class PredictionEngine {
     const aggregated = new Map<string, { date: Date; transcriptCount: number; clientName: string }>();
 
     data.forEach(item => {
-      const date = new Date(item.date);
-      let key: string;
-
-      if (period === 'weekly') {
-        // Get start of week (Monday)
-        const startOfWeek = new Date(date);
-        startOfWeek.setDate(date.getDate() - date.getDay() + 1);
-        key = `${item.clientName}-${startOfWeek.toISOString().split('T')[0]}`;
-      } else { // monthly
-        key = `${item.clientName}-${date.getFullYear()}-${date.getMonth()}`;
-      }
+      const key = `${item.clientName}-${periodKey(item.date, period, this.calendar)}`;
 
       if (aggregated.has(key)) {
         aggregated.get(key)!.transcriptCount += item.transcriptCount;
       } else {
         aggregated.set(key, {
-          date: period === 'weekly' 
-            ? new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay() + 1)
-            : new Date(date.getFullYear(), date.getMonth(), 1),
+          date: periodStart(item.date, period, this.calendar),
           transcriptCount: item.transcriptCount,
           clientName: item.clientName
         });
@@ -136,6 +203,33 @@ export class PredictionEngine {
     }));
   }
 
+  /**
+   * Insert zero-count periods where the series skips periods, so sparse
+   * clients keep a regular time index and their zero months are modelled
+   */
+  private fillMissingPeriods(
+    dates: Date[],
+    values: number[],
+    predictionType: 'daily' | 'weekly' | 'monthly'
+  ): { dates: Date[]; values: number[] } {
+    const filledDates: Date[] = [];
+    const filledValues: number[] = [];
+
+    dates.forEach((date, i) => {
+      if (i > 0) {
+        const gap = this.periodsBetween(dates[i - 1], date, predictionType);
+        for (let k = 1; k < gap; k++) {
+          filledDates.push(this.addPeriods(dates[i - 1], k, predictionType));
+          filledValues.push(0);
+        }
+      }
+      filledDates.push(date);
+      filledValues.push(values[i]);
+    });
+
+    return { dates: filledDates, values: filledValues };
+  }
+
   /**
    * Create sequences for time series prediction
    */
@@ -160,40 +254,13 @@ export class PredictionEngine {
       await this.initializeTensorFlow();
     }
 
-    const { dates, values, processedData } = this.preprocessData(
+    const { dates, values } = this.preprocessData(
       data,
       options.predictionType,
       options.clientName
     );
 
-    let predictions: TimePrediction[];
-    let modelMetrics: ModelMetrics;
-
-    switch (options.modelType) {
-      case 'linear':
-        ({ predictions, metrics: modelMetrics } = await this.linearRegression(
-          values,
-          dates,
-          options
-        ));
-        break;
-      case 'polynomial':
-        ({ predictions, metrics: modelMetrics } = await this.polynomialRegression(
-          values,
-          dates,
-          options
-        ));
-        break;
-      case 'arima':
-        ({ predictions, metrics: modelMetrics } = await this.arimaModel(
-          values,
-          dates,
-          options
-        ));
-        break;
-      default:
-        throw new Error(`Unsupported model type: ${options.modelType}`);
-    }
+    const { predictions, metrics: modelMetrics, modelVersion, modelType } = await this.forecastSeries(values, dates, options);
 
     return {
       id: `pred_${Date.now()}`,
@@ -202,88 +269,130 @@ export class PredictionEngine {
       predictions,
       confidence: options.confidenceLevel,
       accuracy: modelMetrics.accuracy,
-      modelType: options.modelType,
+      modelType,
+      modelVersion,
       createdAt: new Date()
     };
   }
 
   /**
-   * Linear regression model
+   * Fit the requested model to an already aggregated series and forecast
+   * `periodsAhead` periods past the last date
    */
-  private async linearRegression(
+  public async forecastSeries(
     values: number[],
     dates: Date[],
-    options: PredictionOptions
-  ): Promise<{ predictions: TimePrediction[]; metrics: ModelMetrics }> {
-    // Normalize data
-    const { normalizedValues, mean, std } = this.normalizeData(values);
-    
-    // Create training data
-    const xs = tf.tensor2d(normalizedValues.map((_, i) => [i]));
-    const ys = tf.tensor1d(normalizedValues);
+    requestOptions: PredictionOptions
+  ): Promise<SeriesForecast> {
+    const options = { ...requestOptions, modelType: this.selectModelType(values, requestOptions) };
 
-    // Create and compile model
-    const model = tf.sequential({
-      layers: [
-        tf.layers.dense({ inputShape: [1], units: 1 })
-      ]
-    });
+    if (!options.events || options.events.length === 0) {
+      return this.fitModel(values, dates, options);
+    }
 
-    model.compile({
-      optimizer: tf.train.adam(0.01),
-      loss: 'meanSquaredError',
-      metrics: ['mae']
-    });
+    // Fit the model to the series with event effects removed, then add the
+    // effects of events falling in the forecast periods back on
+    const history = eventRegressors(dates, options.events, options.predictionType, options.clientName, this.calendar);
+    const effects = estimateEventEffects(values, history);
+    if (Object.keys(effects).length === 0) {
+      return this.fitModel(values, dates, options);
+    }
 
-    // Train model
-    await model.fit(xs, ys, {
-      epochs: 100,
-      verbose: 0
-    });
+    const historyAdjustments = eventAdjustments(history, effects);
+    const adjustedValues = values.map((value, i) => Math.max(0, value - historyAdjustments[i]));
+    const forecast = await this.fitModel(adjustedValues, dates, options);
 
-    // Generate predictions
-    const lastIndex = values.length - 1;
-    const predictions: TimePrediction[] = [];
-    
-    for (let i = 1; i <= options.periodsAhead; i++) {
-      const predictionInput = tf.tensor2d([[lastIndex + i]]);
-      const prediction = model.predict(predictionInput) as tf.Tensor;
-      const normalizedPred = await prediction.data();
-      
-      // Denormalize prediction
-      const denormalizedPred = normalizedPred[0] * std + mean;
-      
-      // Calculate confidence interval (simplified)
-      const confidenceRange = std * 1.96; // 95% confidence interval
-      
-      const futureDate = this.addPeriods(
-        dates[dates.length - 1],
-        i,
-        options.predictionType
-      );
-
-      predictions.push({
-        date: futureDate,
-        predictedCount: Math.max(0, Math.round(denormalizedPred)),
+    const futureDates = forecast.predictions.map(p => p.date);
+    const futureAdjustments = eventAdjustments(
+      eventRegressors(futureDates, options.events, options.predictionType, options.clientName, this.calendar),
+      effects
+    );
+
+    return {
+      ...forecast,
+      predictions: forecast.predictions.map((prediction, i) => ({
+        date: prediction.date,
+        predictedCount: this.toCount(prediction.predictedCount + futureAdjustments[i], options.decimals),
         confidenceInterval: {
-          lower: Math.max(0, Math.round(denormalizedPred - confidenceRange)),
-          upper: Math.round(denormalizedPred + confidenceRange)
+          lower: this.toCount(prediction.confidenceInterval.lower + futureAdjustments[i], options.decimals),
+          upper: this.toCount(prediction.confidenceInterval.upper + futureAdjustments[i], options.decimals)
         }
-      });
+      }))
+    };
+  }
 
-      predictionInput.dispose();
-      prediction.dispose();
+  /**
+   * Model to fit: the requested one, or Croston / TSB (whichever fits the
+   * history better) when the series is mostly zero periods
+   */
+  public selectModelType(values: number[], options: PredictionOptions): ForecastModelType {
+    if (
+      options.autoIntermittent === false ||
+      INTERMITTENT_MODELS.includes(options.modelType) ||
+      zeroRatio(values) < INTERMITTENT_ZERO_RATIO ||
+      values.filter(value => value > 0).length < 2
+    ) {
+      return options.modelType;
     }
 
-    // Calculate metrics
-    const metrics = await this.calculateMetrics(model, xs, ys, values);
+    const croston = intermittentDemand(values, 0, { method: 'croston' });
+    const tsb = intermittentDemand(values, 0, { method: 'tsb' });
+    return tsb.sigma2 < croston.sigma2 ? 'tsb' : 'croston';
+  }
 
-    // Cleanup
-    xs.dispose();
-    ys.dispose();
-    model.dispose();
+  private async fitModel(
+    values: number[],
+    dates: Date[],
+    options: PredictionOptions
+  ): Promise<SeriesForecast> {
+    switch (options.modelType) {
+      case 'linear':
+        return this.linearRegression(values, dates, options);
+      case 'polynomial':
+        return this.polynomialRegression(values, dates, options);
+      case 'arima':
+      case 'sarima':
+        return this.arimaModel(
+          values,
+          dates,
+          options,
+          options.modelType === 'sarima'
+        );
+      case 'holt-winters-additive':
+      case 'holt-winters-multiplicative':
+        return this.holtWintersModel(
+          values,
+          dates,
+          options,
+          options.modelType === 'holt-winters-additive' ? 'additive' : 'multiplicative'
+        );
+      case 'croston':
+      case 'tsb':
+        return this.intermittentModel(values, dates, options, options.modelType);
+      default:
+        throw new Error(`Unsupported model type: ${options.modelType}`);
+    }
+  }
 
-    return { predictions, metrics };
+  /**
+   * Linear regression model
+   */
+  private async linearRegression(
+    values: number[],
+    dates: Date[],
+    options: PredictionOptions
+  ): Promise<SeriesForecast> {
+    return this.regressionModel(values, dates, options, {
+      features: index => [index],
+      buildModel: () => tf.sequential({
+        layers: [
+          tf.layers.dense({ inputShape: [1], units: 1 })
+        ]
+      }),
+      epochs: 100,
+      parameterCount: 2,
+      hyperparameters: { epochs: 100, learningRate: 0.01, units: [1] }
+    });
   }
 
   /**
@@ -293,192 +402,348 @@ export class PredictionEngine {
     values: number[],
     dates: Date[],
     options: PredictionOptions
-  ): Promise<{ predictions: TimePrediction[]; metrics: ModelMetrics }> {
+  ): Promise<SeriesForecast> {
     const degree = 3; // Cubic polynomial
-    
-    // Normalize data
-    const { normalizedValues, mean, std } = this.normalizeData(values);
-    
-    // Create polynomial features
-    const polyFeatures = normalizedValues.map((_, i) => {
-      const features = [];
-      for (let d = 1; d <= degree; d++) {
-        features.push(Math.pow(i, d));
-      }
-      return features;
+
+    return this.regressionModel(values, dates, options, {
+      features: index => Array.from({ length: degree }, (_, d) => Math.pow(index, d + 1)),
+      buildModel: () => tf.sequential({
+        layers: [
+          tf.layers.dense({ inputShape: [degree], units: 10, activation: 'relu' }),
+          tf.layers.dense({ units: 1 })
+        ]
+      }),
+      epochs: 150,
+      parameterCount: degree + 1,
+      hyperparameters: { epochs: 150, learningRate: 0.01, degree, units: [10, 1] }
     });
+  }
 
-    const xs = tf.tensor2d(polyFeatures);
+  /**
+   * Regression on the time index. Reuses a registered model for the client when
+   * one is fresh or pinned; otherwise trains and registers a new version.
+   */
+  private async regressionModel(
+    values: number[],
+    dates: Date[],
+    options: PredictionOptions,
+    spec: RegressionSpec
+  ): Promise<SeriesForecast> {
+    const registered = await this.loadRegisteredModel(values, dates, options);
+
+    // A reused model keeps the normalization and time index it was trained with
+    const { mean, std } = registered ? registered.entry.normalization : this.normalizeData(values);
+    const startIndex = registered
+      ? this.periodsBetween(registered.entry.trainingWindow.start, dates[0], options.predictionType)
+      : 0;
+    const normalizedValues = values.map(val => (val - mean) / std);
+
+    // Create training data
+    const xs = tf.tensor2d(normalizedValues.map((_, i) => spec.features(startIndex + i)));
     const ys = tf.tensor1d(normalizedValues);
 
-    // Create and compile model
-    const model = tf.sequential({
-      layers: [
-        tf.layers.dense({ inputShape: [degree], units: 10, activation: 'relu' }),
-        tf.layers.dense({ units: 1 })
-      ]
-    });
+    let model: tf.LayersModel;
+    if (registered) {
+      model = registered.model;
+    } else {
+      model = spec.buildModel();
 
-    model.compile({
-      optimizer: tf.train.adam(0.01),
-      loss: 'meanSquaredError',
-      metrics: ['mae']
-    });
+      model.compile({
+        optimizer: tf.train.adam(0.01),
+        loss: 'meanSquaredError',
+        metrics: ['mae']
+      });
 
-    // Train model
-    await model.fit(xs, ys, {
-      epochs: 150,
-      verbose: 0
-    });
+      // Train model
+      await model.fit(xs, ys, {
+        epochs: spec.epochs,
+        verbose: 0
+      });
+    }
 
     // Generate predictions
-    const lastIndex = values.length - 1;
-    const predictions: TimePrediction[] = [];
+    const lastIndex = startIndex + values.length - 1;
+    const forecast: number[] = [];
     
     for (let i = 1; i <= options.periodsAhead; i++) {
-      const futureIndex = lastIndex + i;
-      const polyInput = [];
-      for (let d = 1; d <= degree; d++) {
-        polyInput.push(Math.pow(futureIndex, d));
-      }
-      
-      const predictionInput = tf.tensor2d([polyInput]);
+      const predictionInput = tf.tensor2d([spec.features(lastIndex + i)]);
       const prediction = model.predict(predictionInput) as tf.Tensor;
       const normalizedPred = await prediction.data();
       
       // Denormalize prediction
-      const denormalizedPred = normalizedPred[0] * std + mean;
-      
-      // Calculate confidence interval
-      const confidenceRange = std * 1.96;
-      
-      const futureDate = this.addPeriods(
-        dates[dates.length - 1],
-        i,
-        options.predictionType
-      );
-
-      predictions.push({
-        date: futureDate,
-        predictedCount: Math.max(0, Math.round(denormalizedPred)),
-        confidenceInterval: {
-          lower: Math.max(0, Math.round(denormalizedPred - confidenceRange)),
-          upper: Math.round(denormalizedPred + confidenceRange)
-        }
-      });
+      forecast.push(normalizedPred[0] * std + mean);
 
       predictionInput.dispose();
       prediction.dispose();
     }
 
+    const residualError = await this.residualStandardError(model, xs, values, mean, std, spec.parameterCount);
+    const predictions = this.toTimePredictions(
+      forecast,
+      this.regressionStandardErrors(residualError, values.length, options.periodsAhead),
+      dates,
+      options
+    );
+
     // Calculate metrics
     const metrics = await this.calculateMetrics(model, xs, ys, values);
 
     // Cleanup
     xs.dispose();
     ys.dispose();
-    model.dispose();
 
-    return { predictions, metrics };
+    const modelVersion = registered
+      ? registered.entry.version
+      : await this.registerModel(model, values, dates, options, { mean, std }, spec.hyperparameters, metrics);
+
+    return { predictions, metrics, modelVersion, modelType: options.modelType };
   }
 
   /**
-   * ARIMA-like model (simplified implementation)
+   * Find a reusable model in the registry and load it, using the in-memory copy
+   * when the same version is already loaded
    */
-  private async arimaModel(
+  private async loadRegisteredModel(
     values: number[],
     dates: Date[],
     options: PredictionOptions
-  ): Promise<{ predictions: TimePrediction[]; metrics: ModelMetrics }> {
-    // Simplified ARIMA implementation using LSTM
-    const sequenceLength = Math.min(7, values.length - 1);
-    
-    if (values.length < sequenceLength + 1) {
-      throw new Error('Insufficient data for ARIMA model');
+  ): Promise<{ entry: RegisteredModel; model: tf.LayersModel } | null> {
+    if (!this.registry || (options.registryMode ?? 'reuse') !== 'reuse') {
+      return null;
     }
 
-    // Normalize data
-    const { normalizedValues, mean, std } = this.normalizeData(values);
-    
-    // Create sequences
-    const sequences = this.createSequences(normalizedValues, sequenceLength);
-    const xs = tf.tensor3d(sequences.slice(0, -1).map(seq => seq.map(val => [val])));
-    const ys = tf.tensor1d(sequences.slice(1).map(seq => seq[seq.length - 1]));
-
-    // Create LSTM model
-    const model = tf.sequential({
-      layers: [
-        tf.layers.lstm({ 
-          units: 50, 
-          returnSequences: true, 
-          inputShape: [sequenceLength, 1] 
-        }),
-        tf.layers.dropout({ rate: 0.2 }),
-        tf.layers.lstm({ units: 50, returnSequences: false }),
-        tf.layers.dropout({ rate: 0.2 }),
-        tf.layers.dense({ units: 1 })
-      ]
-    });
+    const key = this.getRegistryKey(options);
+
+    try {
+      const entry = await this.registry.findReusableModel(key, fingerprintSeries(values, dates));
+      if (!entry || !entry.artifacts) {
+        return null;
+      }
+
+      const cached = this.models.get(this.cacheKey(key));
+      if (cached && cached.id === entry.id) {
+        return { entry, model: cached.model };
+      }
+
+      const model = await deserializeModel(entry.artifacts);
+      this.cacheModel(key, entry.id, model);
+
+      return { entry, model };
+    } catch (error) {
+      console.warn('Failed to load registered model, retraining:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Register a freshly trained model as the next version for the client.
+   * Without a registry the model is discarded.
+   */
+  private async registerModel(
+    model: tf.LayersModel,
+    values: number[],
+    dates: Date[],
+    options: PredictionOptions,
+    normalization: NormalizationParams,
+    hyperparameters: Record<string, unknown>,
+    metrics: ModelMetrics
+  ): Promise<number | undefined> {
+    if (!this.registry || options.registryMode === 'off') {
+      model.dispose();
+      return undefined;
+    }
+
+    const key = this.getRegistryKey(options);
+
+    try {
+      const entry = await this.registry.registerModel({
+        ...key,
+        normalization,
+        trainingWindow: {
+          start: dates[0],
+          end: dates[dates.length - 1],
+          length: values.length,
+          fingerprint: fingerprintSeries(values, dates)
+        },
+        hyperparameters,
+        metrics,
+        artifacts: await serializeModel(model)
+      });
+
+      this.cacheModel(key, entry.id, model);
+      return entry.version;
+    } catch (error) {
+      console.warn('Failed to register trained model:', error);
+      model.dispose();
+      return undefined;
+    }
+  }
 
-    model.compile({
-      optimizer: tf.train.adam(0.001),
-      loss: 'meanSquaredError',
-      metrics: ['mae']
+  private getRegistryKey(options: PredictionOptions): ModelRegistryKey {
+    return {
+      clientKey: options.clientName || 'All Clients',
+      modelType: options.modelType,
+      predictionType: options.predictionType
+    };
+  }
+
+  private cacheKey(key: ModelRegistryKey): string {
+    return `${key.clientKey}|${key.modelType}|${key.predictionType}`;
+  }
+
+  /**
+   * Keep one loaded model per registry key, disposing the version it replaces
+   */
+  private cacheModel(key: ModelRegistryKey, id: string, model: tf.LayersModel): void {
+    const previous = this.models.get(this.cacheKey(key));
+    if (previous && previous.model !== model) {
+      previous.model.dispose();
+    }
+    this.models.set(this.cacheKey(key), { id, model });
+  }
+
+  /**
+   * ARIMA model with automatic differencing and order selection.
+   * The seasonal variant also searches seasonal terms at the configured season length.
+   */
+  private arimaModel(
+    values: number[],
+    dates: Date[],
+    options: PredictionOptions,
+    seasonal: boolean
+  ): SeriesForecast {
+    const fit = autoArima(values, options.periodsAhead, {
+      period: seasonal ? this.getSeasonLength(options) : 1
     });
 
-    // Train model
-    await model.fit(xs, ys, {
-      epochs: 50,
-      batchSize: 32,
-      verbose: 0
+    return {
+      predictions: this.toTimePredictions(fit.forecast, fit.standardErrors, dates, options),
+      metrics: this.calculateFitMetrics(values.slice(-fit.fitted.length), fit.fitted),
+      modelType: options.modelType
+    };
+  }
+
+  /**
+   * Holt-Winters exponential smoothing with additive or multiplicative seasonality
+   */
+  private holtWintersModel(
+    values: number[],
+    dates: Date[],
+    options: PredictionOptions,
+    seasonality: SeasonalityMode
+  ): SeriesForecast {
+    const fit = holtWinters(values, options.periodsAhead, {
+      seasonLength: this.getSeasonLength(options),
+      seasonality
     });
 
-    // Generate predictions
-    const predictions: TimePrediction[] = [];
-    let lastSequence = normalizedValues.slice(-sequenceLength);
-    
-    for (let i = 1; i <= options.periodsAhead; i++) {
-      const input = tf.tensor3d([lastSequence.map(val => [val])]);
-      const prediction = model.predict(input) as tf.Tensor;
-      const normalizedPred = await prediction.data();
-      
-      // Denormalize prediction
-      const denormalizedPred = normalizedPred[0] * std + mean;
-      
-      // Update sequence for next prediction
-      lastSequence = [...lastSequence.slice(1), normalizedPred[0]];
-      
-      // Calculate confidence interval
-      const confidenceRange = std * 1.96;
-      
-      const futureDate = this.addPeriods(
-        dates[dates.length - 1],
-        i,
-        options.predictionType
-      );
-
-      predictions.push({
-        date: futureDate,
-        predictedCount: Math.max(0, Math.round(denormalizedPred)),
+    return {
+      predictions: this.toTimePredictions(fit.forecast, fit.standardErrors, dates, options),
+      metrics: this.calculateFitMetrics(values.slice(-fit.fitted.length), fit.fitted),
+      modelType: options.modelType
+    };
+  }
+
+  /**
+   * Croston or TSB for intermittent demand. Metrics cover the periods after
+   * the first demand, where the model has fitted values.
+   */
+  private intermittentModel(
+    values: number[],
+    dates: Date[],
+    options: PredictionOptions,
+    method: IntermittentMethod
+  ): SeriesForecast {
+    const fit = intermittentDemand(values, options.periodsAhead, { method });
+
+    return {
+      predictions: this.toTimePredictions(fit.forecast, fit.standardErrors, dates, options),
+      metrics: this.calculateFitMetrics(values.slice(-fit.fitted.length), fit.fitted),
+      modelType: options.modelType
+    };
+  }
+
+  /**
+   * Resolve the seasonal period for the request
+   */
+  private getSeasonLength(options: PredictionOptions): number {
+    return options.seasonLength ?? DEFAULT_SEASON_LENGTHS[options.predictionType];
+  }
+
+  /**
+   * Convert raw point forecasts into dated predictions with prediction intervals
+   * at the requested confidence level
+   */
+  private toTimePredictions(
+    forecast: number[],
+    standardErrors: number[],
+    dates: Date[],
+    options: PredictionOptions
+  ): TimePrediction[] {
+    const multiplier = intervalMultiplier(options.confidenceLevel);
+
+    return forecast.map((value, i) => {
+      const halfWidth = multiplier * standardErrors[i];
+
+      return {
+        date: this.addPeriods(dates[dates.length - 1], i + 1, options.predictionType),
+        predictedCount: this.toCount(value, options.decimals),
         confidenceInterval: {
-          lower: Math.max(0, Math.round(denormalizedPred - confidenceRange)),
-          upper: Math.round(denormalizedPred + confidenceRange)
+          lower: this.toCount(value - halfWidth, options.decimals),
+          upper: this.toCount(value + halfWidth, options.decimals)
         }
-      });
+      };
+    });
+  }
 
-      input.dispose();
-      prediction.dispose();
-    }
+  /**
+   * Transcript counts are non-negative integers; models that cannot produce a
+   * value (e.g. a zero seasonal factor) forecast nothing rather than NaN.
+   * Series such as handling times keep `decimals` places instead.
+   */
+  private toCount(value: number, decimals: number = 0): number {
+    const factor = Math.pow(10, decimals);
+    return Number.isFinite(value) ? Math.max(0, Math.round(value * factor) / factor) : 0;
+  }
 
-    // Calculate metrics
-    const metrics = await this.calculateMetrics(model, xs, ys, values);
+  /**
+   * Residual standard error of a trained regression model on its training data
+   */
+  private async residualStandardError(
+    model: tf.LayersModel,
+    xs: tf.Tensor,
+    values: number[],
+    mean: number,
+    std: number,
+    parameterCount: number
+  ): Promise<number> {
+    const fitted = model.predict(xs) as tf.Tensor;
+    const fittedData = await fitted.data();
+    fitted.dispose();
+
+    const n = Math.min(fittedData.length, values.length);
+    let sumSquares = 0;
+    for (let i = 0; i < n; i++) {
+      sumSquares += Math.pow(values[i] - (fittedData[i] * std + mean), 2);
+    }
 
-    // Cleanup
-    xs.dispose();
-    ys.dispose();
-    model.dispose();
+    const degreesOfFreedom = n > parameterCount ? n - parameterCount : n;
+    return Math.sqrt(sumSquares / Math.max(1, degreesOfFreedom));
+  }
 
-    return { predictions, metrics };
+  /**
+   * Standard errors for regression forecasts on a time index:
+   * sigma * sqrt(1 + 1/n + (x0 - mean(x))^2 / Sxx), widening as x0 moves past the data
+   */
+  private regressionStandardErrors(sigma: number, n: number, horizon: number): number[] {
+    const indexMean = (n - 1) / 2;
+    const sxx = Array.from({ length: n }, (_, i) => Math.pow(i - indexMean, 2))
+      .reduce((sum, val) => sum + val, 0) || 1;
+
+    return Array.from({ length: horizon }, (_, i) => {
+      const x0 = n - 1 + i + 1;
+      return sigma * Math.sqrt(1 + 1 / n + Math.pow(x0 - indexMean, 2) / sxx);
+    });
   }
 
   /**
@@ -499,28 +764,25 @@ export class PredictionEngine {
   }
 
   /**
-   * Add periods to a date based on prediction type
+   * Add periods of the fiscal calendar to a date based on prediction type
    */
   private addPeriods(
     date: Date,
     periods: number,
     predictionType: 'daily' | 'weekly' | 'monthly'
   ): Date {
-    const newDate = new Date(date);
-    
-    switch (predictionType) {
-      case 'daily':
-        newDate.setDate(newDate.getDate() + periods);
-        break;
-      case 'weekly':
-        newDate.setDate(newDate.getDate() + (periods * 7));
-        break;
-      case 'monthly':
-        newDate.setMonth(newDate.getMonth() + periods);
-        break;
-    }
-    
-    return newDate;
+    return addPeriods(date, periods, predictionType, this.calendar);
+  }
+
+  /**
+   * Whole fiscal calendar periods from one date to another based on prediction type
+   */
+  private periodsBetween(
+    from: Date,
+    to: Date,
+    predictionType: 'daily' | 'weekly' | 'monthly'
+  ): number {
+    return periodsBetween(from, to, predictionType, this.calendar);
   }
 
   /**
@@ -569,6 +831,29 @@ export class PredictionEngine {
     return { mse, mae, rmse, r2, accuracy };
   }
 
+  /**
+   * Calculate performance metrics from in-sample fitted values
+   */
+  private calculateFitMetrics(actual: number[], fitted: number[]): ModelMetrics {
+    const n = fitted.length;
+
+    const mse = fitted.reduce((sum, pred, i) => sum + Math.pow(pred - actual[i], 2), 0) / n;
+    const mae = fitted.reduce((sum, pred, i) => sum + Math.abs(pred - actual[i]), 0) / n;
+    const rmse = Math.sqrt(mse);
+
+    const actualMean = actual.reduce((sum, val) => sum + val, 0) / n;
+    const totalSumSquares = actual.reduce((sum, val) => sum + Math.pow(val - actualMean, 2), 0);
+    const r2 = totalSumSquares === 0 ? 0 : 1 - (mse * n) / totalSumSquares;
+
+    const accurateCount = fitted.reduce((count, pred, i) => {
+      const percentError = Math.abs((pred - actual[i]) / actual[i]) * 100;
+      return percentError <= 10 ? count + 1 : count;
+    }, 0);
+    const accuracy = (accurateCount / n) * 100;
+
+    return { mse, mae, rmse, r2, accuracy };
+  }
+
   /**
    * Validate predictions against known data
    */
@@ -579,7 +864,8 @@ export class PredictionEngine {
   ): Promise<ModelMetrics> {
     const predictions = await this.generatePredictions(trainingData, {
       ...options,
-      periodsAhead: testData.length
+      periodsAhead: testData.length,
+      registryMode: 'off'
     });
 
     const actualValues = testData.map(d => d.transcriptCount);
@@ -623,7 +909,7 @@ export class PredictionEngine {
    * Cleanup resources
    */
   public dispose(): void {
-    this.models.forEach(model => model.dispose());
+    this.models.forEach(({ model }) => model.dispose());
     this.models.clear();
   }
 }
@@ -0,0 +1,151 @@
+import { PredictionJob, PredictionJobResult } from '@/types/prediction-job';
+import { PredictionRequest } from '@/lib/validations/schemas';
+import { PredictionJobConfig, getPredictionJobConfig } from '@/lib/config/prediction-jobs';
+import { PredictionJobService } from '@/lib/database/prediction-jobs';
+import { metricsCollector } from '@/lib/monitoring/metrics-collector';
+import { runPredictionJobInWorker } from '@/lib/workers/prediction-worker-thread';
+
+/**
+ * Queue for prediction requests. Jobs are persisted, so the API can return a
+ * job id straight away and clients poll (or stream) the job status while a
+ * worker thread trains the model. Jobs left running by a crashed process are
+ * picked up again on the next drain; jobs this process is still running are
+ * left alone, and each is stopped once it runs past the configured timeout.
+ */
+
+export interface PredictionJobStore {
+  createJob(request: PredictionRequest, createdBy?: string): Promise<PredictionJob>;
+  getJob(id: string): Promise<PredictionJob | null>;
+  /** Atomically move the oldest queued job to running */
+  claimNextJob(): Promise<PredictionJob | null>;
+  /** Record an attempt's result; false when the job is no longer running that attempt */
+  completeJob(id: string, attempt: number, result: PredictionJobResult): Promise<boolean>;
+  failJob(id: string, attempt: number, error: string): Promise<boolean>;
+  requeueStaleJobs(startedBefore: Date, maxAttempts: number, activeJobIds?: string[]): Promise<number>;
+}
+
+/** Runs a job, rejecting (and stopping the work) once timeoutMs has passed */
+export type PredictionJobRunner = (job: PredictionJob, timeoutMs: number) => Promise<PredictionJobResult>;
+
+export class PredictionJobQueue {
+  private store: PredictionJobStore;
+  private runner: PredictionJobRunner;
+  private config: PredictionJobConfig;
+  private active = new Set<string>();
+  private draining: Promise<void> | null = null;
+  private drainRequested = false;
+
+  constructor(
+    store: PredictionJobStore,
+    runner: PredictionJobRunner = runPredictionJobInWorker,
+    config: PredictionJobConfig = getPredictionJobConfig()
+  ) {
+    this.store = store;
+    this.runner = runner;
+    this.config = config;
+  }
+
+  /**
+   * Persist a prediction request and start it when a worker is free
+   */
+  async enqueue(request: PredictionRequest, createdBy?: string): Promise<PredictionJob> {
+    const job = await this.store.createJob(request, createdBy);
+    void this.drain();
+    return job;
+  }
+
+  /**
+   * Current state of a job. Also resumes a queue left idle by a restart, so
+   * queued and requeued jobs start once anyone checks on them.
+   */
+  async getJob(id: string): Promise<PredictionJob | null> {
+    void this.drain();
+    return this.store.getJob(id);
+  }
+
+  /** Jobs currently running in this process */
+  get activeJobs(): number {
+    return this.active.size;
+  }
+
+  /**
+   * Start queued jobs until every worker slot is busy. Calls made during a
+   * pass schedule one more pass instead of running alongside it, so jobs
+   * enqueued or slots freed mid-pass are not missed.
+   */
+  drain(): Promise<void> {
+    if (this.draining) {
+      this.drainRequested = true;
+      return this.draining;
+    }
+
+    this.draining = (async () => {
+      do {
+        this.drainRequested = false;
+        await this.fillSlots();
+      } while (this.drainRequested);
+    })().finally(() => {
+      this.draining = null;
+    });
+
+    return this.draining;
+  }
+
+  private async fillSlots(): Promise<void> {
+    try {
+      const staleBefore = new Date(Date.now() - this.config.staleAfterMinutes * 60 * 1000);
+      await this.store.requeueStaleJobs(staleBefore, this.config.maxAttempts, [...this.active]);
+
+      while (this.active.size < this.config.concurrency) {
+        const job = await this.store.claimNextJob();
+        if (!job) break;
+
+        this.active.add(job.id);
+        void this.execute(job).finally(() => {
+          this.active.delete(job.id);
+          void this.drain();
+        });
+      }
+    } catch (error) {
+      console.error('Error draining prediction job queue:', error);
+    }
+  }
+
+  private async execute(job: PredictionJob): Promise<void> {
+    const startTime = Date.now();
+    let success = true;
+
+    let recorded: boolean;
+
+    try {
+      const result = await this.runner(job, this.config.timeoutMinutes * 60 * 1000);
+      recorded = await this.store.completeJob(job.id, job.attempts, result);
+    } catch (error) {
+      success = false;
+      const message = error instanceof Error ? error.message : 'Prediction job failed';
+      console.error(`Prediction job ${job.id} failed:`, error);
+      recorded = await this.store.failJob(job.id, job.attempts, message).catch(failError => {
+        console.error(`Error recording failure of prediction job ${job.id}:`, failError);
+        return true;
+      });
+    } finally {
+      metricsCollector.recordModelExecution(job.request.modelType, Date.now() - startTime, success);
+    }
+
+    if (!recorded) {
+      console.warn(`Discarded the outcome of prediction job ${job.id} attempt ${job.attempts}; the job was taken over by another attempt`);
+    }
+  }
+}
+
+let queue: PredictionJobQueue | null = null;
+
+/**
+ * Process-wide queue backed by the prediction_jobs table
+ */
+export function getPredictionJobQueue(): PredictionJobQueue {
+  if (!queue) {
+    queue = new PredictionJobQueue(new PredictionJobService());
+  }
+  return queue;
+}
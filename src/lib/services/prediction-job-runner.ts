@@ -0,0 +1,94 @@
+import { PredictionJobResult } from '@/types/prediction-job';
+import { PredictionRequest } from '@/lib/validations/schemas';
+import { TranscriptService } from '@/lib/database/transcripts';
+import { PredictionService as PredictionStore } from '@/lib/database/predictions';
+import { CalendarEventService } from '@/lib/database/calendar-events';
+import { SegmentationService } from './segmentation-service';
+import { predictionService } from './prediction-service';
+
+/**
+ * Run one queued prediction request end to end: load the history and calendar
+ * events, train and forecast, and store client forecasts. Runs inside a
+ * prediction worker thread; the queue records execution metrics.
+ */
+export async function runPredictionJob(request: PredictionRequest, userId?: string): Promise<PredictionJobResult> {
+  // A segment limits the history to its clients, so forecasts cover them and their total
+  const segmentClients = request.segment
+    ? await new SegmentationService().resolveSegment(request.segment)
+    : undefined;
+  if (segmentClients === null) {
+    throw new Error(`Unknown segment: ${request.segment}`);
+  }
+
+  // Fetch historical data for predictions
+  const transcriptService = new TranscriptService();
+  const transcriptResult = await transcriptService.getTranscripts({
+    clientId: request.clientId,
+    clientNames: segmentClients,
+    page: 1,
+    limit: 10000 // Get all historical data
+  });
+
+  if (!transcriptResult.data || transcriptResult.data.length === 0) {
+    throw new Error('Insufficient historical data for predictions');
+  }
+
+  // Holidays, client events and outages act as regressors
+  const calendarEventService = new CalendarEventService();
+  const events = await calendarEventService.getForecastEvents();
+
+  // Reconciled forecasts for every client and the total
+  if (request.reconciliation) {
+    const reconciliation = request.reconciliation;
+    const { result, validation } = await predictionService.generateHierarchicalPredictions(transcriptResult.data, {
+      predictionType: request.predictionType,
+      periodsAhead: request.periodsAhead,
+      modelType: request.modelType,
+      seasonLength: request.seasonLength,
+      confidenceLevel: request.confidenceLevel,
+      registryMode: request.registryMode,
+      reconciliation,
+      events
+    });
+
+    return {
+      data: result,
+      warnings: validation.warnings,
+      message: 'Reconciled predictions generated successfully'
+    };
+  }
+
+  const { result, validation } = await predictionService.generatePredictions(transcriptResult.data, {
+    clientName: request.clientName,
+    predictionType: request.predictionType,
+    periodsAhead: request.periodsAhead,
+    modelType: request.modelType,
+    seasonLength: request.seasonLength,
+    confidenceLevel: request.confidenceLevel,
+    registryMode: request.registryMode,
+    events
+  });
+
+  // Persist client forecasts so their interval bounds land in prediction_details
+  let predictionId = result.id;
+  if (request.clientId && userId) {
+    const predictionStore = new PredictionStore();
+    const stored = await predictionStore.createPrediction({
+      clientId: request.clientId,
+      clientName: transcriptResult.data[0].clientName,
+      predictionType: result.predictionType,
+      predictions: result.predictions,
+      confidence: result.confidence,
+      accuracy: Math.min(1, result.accuracy / 100),
+      modelType: result.modelType,
+      createdBy: userId
+    });
+    predictionId = stored.id;
+  }
+
+  return {
+    data: { ...result, id: predictionId },
+    warnings: validation.warnings,
+    message: 'Predictions generated successfully'
+  };
+}
@@ -3,15 +3,47 @@ import {
   PredictionEngine, 
   PredictionResult, 
   PredictionOptions, 
-  ModelMetrics 
+  ModelMetrics,
+  ForecastModelType,
+  ModelRegistryMode,
+  SeriesForecast,
+  TimePrediction
 } from './prediction-engine';
+import { ModelRegistry, createModelRegistry } from './model-registry';
+import { intervalMultiplier } from '@/lib/utils/time-series-models';
+import { ForecastEvent } from '@/lib/utils/event-regressors';
+import {
+  NodeForecast,
+  ReconciliationMethod,
+  historicalProportions,
+  reconcileForecasts
+} from '@/lib/utils/forecast-reconciliation';
 
 export interface PredictionRequest {
   clientName?: string;
   predictionType: 'daily' | 'weekly' | 'monthly';
   periodsAhead: number;
-  modelType: 'linear' | 'polynomial' | 'arima';
+  modelType: ForecastModelType;
   confidenceLevel?: number;
+  seasonLength?: number;
+  registryMode?: ModelRegistryMode;
+  events?: ForecastEvent[];
+}
+
+export interface HierarchicalPredictionRequest extends Omit<PredictionRequest, 'clientName'> {
+  reconciliation: ReconciliationMethod;
+}
+
+export interface HierarchicalPredictionResult {
+  id: string;
+  predictionType: 'daily' | 'weekly' | 'monthly';
+  modelType: ForecastModelType;
+  reconciliation: ReconciliationMethod;
+  confidence: number;
+  /** Reconciled total, equal to the sum of the client forecasts in every period */
+  total: PredictionResult;
+  clients: PredictionResult[];
+  createdAt: Date;
 }
 
 export interface ValidationResult {
@@ -23,8 +55,8 @@ export interface ValidationResult {
 export class PredictionService {
   private engine: PredictionEngine;
 
-  constructor() {
-    this.engine = new PredictionEngine();
+  constructor(registry: ModelRegistry | null = null) {
+    this.engine = new PredictionEngine(registry);
   }
 
   /**
@@ -45,11 +77,13 @@ export class PredictionService {
     };
 
     const requiredPoints = minDataPoints[request.predictionType];
+    // Count periods rather than rows, so zero periods of sparse clients count as history
+    const { values } = this.engine.preprocessData(data, request.predictionType, request.clientName);
     
-    if (data.length < requiredPoints) {
+    if (values.length < requiredPoints) {
       errors.push(
         `Insufficient data for ${request.predictionType} predictions. ` +
-        `Need at least ${requiredPoints} data points, got ${data.length}.`
+        `Need at least ${requiredPoints} periods, got ${values.length}.`
       );
     }
 
@@ -115,17 +149,203 @@ export class PredictionService {
       predictionType: request.predictionType,
       periodsAhead: request.periodsAhead,
       modelType: request.modelType,
-      confidenceLevel: request.confidenceLevel || 0.95
+      confidenceLevel: request.confidenceLevel || 0.95,
+      seasonLength: request.seasonLength,
+      registryMode: request.registryMode,
+      events: request.events
     };
 
     try {
       const result = await this.engine.generatePredictions(data, options);
+      if (result.modelType !== request.modelType) {
+        validation.warnings.push(this.intermittentWarning(request.modelType, result.modelType));
+      }
       return { result, validation };
     } catch (error) {
       throw new Error(`Prediction generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Forecast every client and the total, then reconcile them so the client
+   * forecasts add up to the total in every period
+   */
+  public async generateHierarchicalPredictions(
+    data: TranscriptData[],
+    request: HierarchicalPredictionRequest
+  ): Promise<{ result: HierarchicalPredictionResult; validation: ValidationResult }> {
+    const validation = this.validateRequest(data, request);
+    const clientNames = Array.from(new Set(data.map(d => d.clientName))).sort();
+
+    clientNames.forEach(clientName => {
+      const clientValidation = this.validateRequest(
+        data.filter(d => d.clientName === clientName),
+        request
+      );
+      validation.errors.push(...clientValidation.errors.map(error => `${clientName}: ${error}`));
+    });
+    validation.isValid = validation.errors.length === 0;
+
+    if (!validation.isValid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    const confidenceLevel = request.confidenceLevel || 0.95;
+    const options: PredictionOptions = {
+      predictionType: request.predictionType,
+      periodsAhead: request.periodsAhead,
+      modelType: request.modelType,
+      confidenceLevel,
+      seasonLength: request.seasonLength,
+      registryMode: request.registryMode,
+      events: request.events
+    };
+    const multiplier = intervalMultiplier(confidenceLevel);
+    const hierarchy = this.buildHierarchy(data, request.predictionType, clientNames);
+
+    try {
+      const totalForecast = await this.engine.forecastSeries(hierarchy.total, hierarchy.dates, options);
+      const clientForecasts: SeriesForecast[] = [];
+      for (const child of hierarchy.children) {
+        clientForecasts.push(await this.engine.forecastSeries(
+          child.values.slice(child.start),
+          hierarchy.dates.slice(child.start),
+          { ...options, clientName: child.clientName }
+        ));
+      }
+
+      const reconciled = reconcileForecasts(
+        this.toNodeForecast(totalForecast.predictions, multiplier),
+        clientForecasts.map(forecast => this.toNodeForecast(forecast.predictions, multiplier)),
+        request.reconciliation,
+        { proportions: historicalProportions(hierarchy.children.map(child => child.values)) }
+      );
+
+      hierarchy.children.forEach((child, i) => {
+        if (clientForecasts[i].modelType && clientForecasts[i].modelType !== request.modelType) {
+          validation.warnings.push(
+            `${child.clientName}: ${this.intermittentWarning(request.modelType, clientForecasts[i].modelType)}`
+          );
+        }
+      });
+
+      const forecastDates = totalForecast.predictions.map(p => p.date);
+      const clients = hierarchy.children.map((child, i) => ({
+        id: `pred_${Date.now()}_${i}`,
+        clientName: child.clientName,
+        predictionType: request.predictionType,
+        predictions: this.toTimePredictions(forecastDates, reconciled.children[i], multiplier),
+        confidence: confidenceLevel,
+        accuracy: clientForecasts[i].metrics.accuracy,
+        modelType: clientForecasts[i].modelType ?? request.modelType,
+        modelVersion: clientForecasts[i].modelVersion,
+        createdAt: new Date()
+      }));
+
+      // Sum the rounded client counts so the published total is exactly coherent
+      const totalPredictions = this.toTimePredictions(forecastDates, reconciled.total, multiplier)
+        .map((prediction, h) => ({
+          ...prediction,
+          predictedCount: clients.reduce((sum, client) => sum + client.predictions[h].predictedCount, 0)
+        }));
+
+      const createdAt = new Date();
+
+      return {
+        result: {
+          id: `hpred_${Date.now()}`,
+          predictionType: request.predictionType,
+          modelType: request.modelType,
+          reconciliation: request.reconciliation,
+          confidence: confidenceLevel,
+          total: {
+            id: `pred_${Date.now()}_total`,
+            clientName: 'All Clients',
+            predictionType: request.predictionType,
+            predictions: totalPredictions,
+            confidence: confidenceLevel,
+            accuracy: totalForecast.metrics.accuracy,
+            modelType: totalForecast.modelType ?? request.modelType,
+            modelVersion: totalForecast.modelVersion,
+            createdAt
+          },
+          clients,
+          createdAt
+        },
+        validation
+      };
+    } catch (error) {
+      throw new Error(`Prediction generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Align every client's aggregated series on a shared period grid. Periods a
+   * client has no data for count as zero once the client has started, and the
+   * total is the per-period sum over clients.
+   */
+  private buildHierarchy(
+    data: TranscriptData[],
+    predictionType: 'daily' | 'weekly' | 'monthly',
+    clientNames: string[]
+  ): {
+    dates: Date[];
+    total: number[];
+    children: { clientName: string; values: number[]; start: number }[];
+  } {
+    const series = clientNames.map(clientName => {
+      const { dates, values } = this.engine.preprocessData(data, predictionType, clientName);
+      const byPeriod = new Map<number, number>();
+      dates.forEach((date, i) => {
+        const time = new Date(date).getTime();
+        byPeriod.set(time, (byPeriod.get(time) || 0) + values[i]);
+      });
+      return { clientName, byPeriod };
+    });
+
+    const times = Array.from(new Set(series.flatMap(s => Array.from(s.byPeriod.keys())))).sort((a, b) => a - b);
+    const children = series.map(({ clientName, byPeriod }) => ({
+      clientName,
+      values: times.map(time => byPeriod.get(time) || 0),
+      start: times.findIndex(time => byPeriod.has(time))
+    }));
+
+    return {
+      dates: times.map(time => new Date(time)),
+      total: times.map((_, t) => children.reduce((sum, child) => sum + child.values[t], 0)),
+      children
+    };
+  }
+
+  /**
+   * Recover point forecasts and error variances from interval forecasts
+   */
+  private toNodeForecast(predictions: TimePrediction[], multiplier: number): NodeForecast {
+    return {
+      mean: predictions.map(p => p.predictedCount),
+      variance: predictions.map(p => {
+        const standardError = Math.max(0, p.confidenceInterval.upper - p.predictedCount) / multiplier;
+        return standardError * standardError;
+      })
+    };
+  }
+
+  private toTimePredictions(dates: Date[], forecast: NodeForecast, multiplier: number): TimePrediction[] {
+    return dates.map((date, h) => {
+      const value = forecast.mean[h];
+      const halfWidth = multiplier * Math.sqrt(forecast.variance[h]);
+
+      return {
+        date,
+        predictedCount: Math.max(0, Math.round(value)),
+        confidenceInterval: {
+          lower: Math.max(0, Math.round(value - halfWidth)),
+          upper: Math.max(0, Math.round(value + halfWidth))
+        }
+      };
+    });
+  }
+
   /**
    * Train and validate model with cross-validation
    */
@@ -154,7 +374,8 @@ export class PredictionService {
     // Generate predictions on training data
     const trainingResult = await this.generatePredictions(trainingData, {
       ...request,
-      periodsAhead: Math.min(request.periodsAhead, trainingData.length - 1)
+      periodsAhead: Math.min(request.periodsAhead, trainingData.length - 1),
+      registryMode: 'off'
     });
 
     // Validate on held-out data
@@ -166,7 +387,8 @@ export class PredictionService {
         predictionType: request.predictionType,
         periodsAhead: validationData.length,
         modelType: request.modelType,
-        confidenceLevel: request.confidenceLevel || 0.95
+        confidenceLevel: request.confidenceLevel || 0.95,
+        seasonLength: request.seasonLength
       }
     );
 
@@ -219,7 +441,8 @@ export class PredictionService {
             predictionType: request.predictionType,
             periodsAhead: testData.length,
             modelType: request.modelType,
-            confidenceLevel: request.confidenceLevel || 0.95
+            confidenceLevel: request.confidenceLevel || 0.95,
+            seasonLength: request.seasonLength
           }
         );
 
@@ -241,11 +464,20 @@ export class PredictionService {
     data: TranscriptData[],
     request: Omit<PredictionRequest, 'modelType'>
   ): Promise<{
-    bestModel: 'linear' | 'polynomial' | 'arima';
+    bestModel: ForecastModelType;
     results: Record<string, { result: PredictionResult; metrics: ModelMetrics }>;
     recommendation: string;
   }> {
-    const models: ('linear' | 'polynomial' | 'arima')[] = ['linear', 'polynomial', 'arima'];
+    const models: ForecastModelType[] = [
+      'linear',
+      'polynomial',
+      'arima',
+      'sarima',
+      'holt-winters-additive',
+      'holt-winters-multiplicative',
+      'croston',
+      'tsb'
+    ];
     const results: Record<string, { result: PredictionResult; metrics: ModelMetrics }> = {};
     
     // Test each model
@@ -279,13 +511,13 @@ export class PredictionService {
     }
 
     // Find best model based on accuracy
-    let bestModel: 'linear' | 'polynomial' | 'arima' = 'linear';
+    let bestModel: ForecastModelType = 'linear';
     let bestAccuracy = 0;
 
     Object.entries(results).forEach(([model, { metrics }]) => {
       if (metrics.accuracy > bestAccuracy) {
         bestAccuracy = metrics.accuracy;
-        bestModel = model as 'linear' | 'polynomial' | 'arima';
+        bestModel = model as ForecastModelType;
       }
     });
 
@@ -326,11 +558,33 @@ export class PredictionService {
       }
     }
 
+    const seasonalModels = ['sarima', 'holt-winters-additive', 'holt-winters-multiplicative']
+      .filter(model => results[model]);
+    if (seasonalModels.length > 0) {
+      const bestSeasonal = seasonalModels.reduce((best, model) =>
+        results[model].metrics.accuracy > results[best].metrics.accuracy ? model : best
+      );
+      const bestNonSeasonal = Math.max(
+        ...['linear', 'polynomial', 'arima']
+          .filter(model => results[model])
+          .map(model => results[model].metrics.accuracy),
+        0
+      );
+
+      if (results[bestSeasonal].metrics.accuracy > bestNonSeasonal + 5) {
+        recommendations.push(`Seasonal model ${bestSeasonal} outperforms non-seasonal models, indicating recurring weekly or yearly patterns.`);
+      }
+    }
+
     return recommendations.length > 0 
       ? recommendations.join(' ')
       : 'All models show reasonable performance. Consider the linear model for interpretability.';
   }
 
+  private intermittentWarning(requested: ForecastModelType, used: ForecastModelType): string {
+    return `Most periods have no volume, so the ${used} intermittent-demand model was used instead of ${requested}.`;
+  }
+
   /**
    * Check for zero variance in data
    */
@@ -377,5 +631,5 @@ export class PredictionService {
   }
 }
 
-// Export singleton instance
-export const predictionService = new PredictionService();
\ No newline at end of file
+// Export singleton instance backed by the configured model registry
+export const predictionService = new PredictionService(createModelRegistry());
\ No newline at end of file
@@ -1,5 +1,8 @@
 import { ExportOptions, exportService, AnalyticsData } from './export-service'
 import { subDays, subWeeks, subMonths, format } from 'date-fns'
+import { FinanceReport } from '@/types/finance'
+import { addPeriods, periodEnd, periodsBetween, periodStart } from '@/lib/utils/fiscal-calendar'
+import { FiscalCalendarConfig, getFiscalCalendarConfig } from '@/lib/config/fiscal-calendar'
 
 export interface ScheduledExport {
   id: string
@@ -18,8 +21,8 @@ export interface ScheduledExport {
 export interface ScheduleConfig {
   frequency: 'daily' | 'weekly' | 'monthly'
   time: string // HH:mm format
-  dayOfWeek?: number // 0-6 for weekly (0 = Sunday)
-  dayOfMonth?: number // 1-31 for monthly
+  dayOfWeek?: number // 0-6 for weekly (0 = Sunday, also the default so stored schedules keep their day)
+  dayOfMonth?: number // 1-31 for monthly: day of the month, or of the fiscal period, capped at its last day
   timezone: string
 }
 
@@ -34,6 +37,11 @@ export interface ScheduledExportResult {
 export class ScheduledExportService {
   private exports: Map<string, ScheduledExport> = new Map()
   private timers: Map<string, NodeJS.Timeout> = new Map()
+  private calendar: FiscalCalendarConfig
+
+  constructor(calendar: FiscalCalendarConfig = getFiscalCalendarConfig()) {
+    this.calendar = calendar
+  }
 
   /**
    * Create a new scheduled export
@@ -223,7 +231,8 @@ export class ScheduledExportService {
   }
 
   /**
-   * Calculate next run time based on schedule
+   * Calculate next run time based on schedule. Weeks and months follow the
+   * fiscal calendar.
    */
   private calculateNextRun(schedule: ScheduleConfig): Date {
     const now = new Date()
@@ -240,7 +249,7 @@ export class ScheduledExportService {
         break
 
       case 'weekly':
-        const targetDayOfWeek = schedule.dayOfWeek || 0
+        const targetDayOfWeek = schedule.dayOfWeek ?? 0
         const currentDayOfWeek = nextRun.getDay()
         let daysUntilTarget = targetDayOfWeek - currentDayOfWeek
 
@@ -251,15 +260,21 @@ export class ScheduledExportService {
         nextRun.setDate(nextRun.getDate() + daysUntilTarget)
         break
 
-      case 'monthly':
-        const targetDayOfMonth = schedule.dayOfMonth || 1
-        nextRun.setDate(targetDayOfMonth)
+      case 'monthly': {
+        const targetDay = schedule.dayOfMonth || 1
+        // The target day of the period containing a date, or its last day in shorter periods
+        const runInPeriod = (date: Date) => {
+          const start = periodStart(date, 'monthly', this.calendar)
+          const length = periodsBetween(start, periodEnd(start, 'monthly', this.calendar), 'daily', this.calendar)
+          return new Date(start.getFullYear(), start.getMonth(), start.getDate() + Math.min(targetDay, length) - 1, hours, minutes)
+        }
 
+        nextRun = runInPeriod(now)
         if (nextRun <= now) {
-          nextRun.setMonth(nextRun.getMonth() + 1)
-          nextRun.setDate(targetDayOfMonth)
+          nextRun = runInPeriod(addPeriods(now, 1, 'monthly', this.calendar))
         }
         break
+      }
     }
 
     return nextRun
@@ -291,10 +306,40 @@ export class ScheduledExportService {
     return {
       transcripts,
       predictions: options.includePredictions ? [] : undefined, // TODO: Fetch predictions
+      finance: options.includeFinance ? await this.fetchFinanceViaAPI(dateRange, options.clients) : undefined,
       summary
     }
   }
 
+  /**
+   * Fetch the finance report for the months of the date range via API call
+   */
+  private async fetchFinanceViaAPI(
+    dateRange: { start: Date; end: Date },
+    clients?: string[]
+  ): Promise<FinanceReport | undefined> {
+    try {
+      const yearMonth = (date: Date) => format(date, 'yyyy-MM')
+      const searchParams = new URLSearchParams({
+        startMonth: yearMonth(dateRange.start),
+        endMonth: yearMonth(dateRange.end)
+      })
+
+      clients?.forEach(client => searchParams.append('clientName', client))
+
+      const response = await fetch(`/api/finance?${searchParams}`)
+      if (!response.ok) {
+        throw new Error(`Failed to fetch finance report: ${response.statusText}`)
+      }
+
+      const data = await response.json()
+      return data.data
+    } catch (error) {
+      console.error('Error fetching finance report for export:', error)
+      return undefined
+    }
+  }
+
   /**
    * Fetch transcripts via API call (works on both client and server)
    */
@@ -0,0 +1,84 @@
+import { ClientSegmentation, CohortRow, SegmentationMethod } from '@/types/segment';
+import { TranscriptData } from '@/types/transcript';
+import { clientCohorts, parseSegmentId, segmentClients } from '@/lib/utils/client-segmentation';
+import { getSegmentationConfig, SegmentationConfig } from '@/lib/config/segmentation';
+import { TranscriptService } from '@/lib/database/transcripts';
+import { AHTService } from '@/lib/database/aht';
+
+/**
+ * Client segments and onboarding cohorts over the full volume history and
+ * the clients' AHT. Segments are worked out on request rather than stored,
+ * so they always reflect the latest data; a segment id names its method,
+ * which lets filters resolve it to clients wherever they are applied.
+ */
+
+export interface SegmentationDataSource {
+  getTranscripts(): Promise<TranscriptData[]>;
+  /** Overall AHT in seconds by client name */
+  getAHT(): Promise<Record<string, number>>;
+}
+
+export interface SegmentationRequest {
+  method?: SegmentationMethod;
+  clusters?: number;
+}
+
+const databaseSource: SegmentationDataSource = {
+  getTranscripts: () => new TranscriptService().getTranscriptsByDateRange(new Date(0), new Date()),
+  getAHT: async () => {
+    const { clients } = await new AHTService().getAHTData();
+    return Object.fromEntries(clients.map(client => [client.client, client.overallAHT]));
+  }
+};
+
+export class SegmentationService {
+  private source: SegmentationDataSource;
+  private config: SegmentationConfig;
+
+  constructor(
+    source: SegmentationDataSource = databaseSource,
+    config: SegmentationConfig = getSegmentationConfig()
+  ) {
+    this.source = source;
+    this.config = config;
+  }
+
+  /**
+   * Segment every client, by the configured method unless one is given
+   */
+  async segment({ method = this.config.method, clusters = this.config.clusters }: SegmentationRequest = {}): Promise<ClientSegmentation> {
+    const [data, aht] = await Promise.all([this.source.getTranscripts(), this.source.getAHT()]);
+    return segmentClients(data, { method, clusters, aht }, this.config);
+  }
+
+  /**
+   * Clients in a segment, or null when the id is not a segment id. A segment
+   * that no longer has clients resolves to an empty list.
+   */
+  async resolveSegment(segmentId: string): Promise<string[] | null> {
+    if (!parseSegmentId(segmentId)) return null;
+
+    const [data, aht] = await Promise.all([this.source.getTranscripts(), this.source.getAHT()]);
+    return this.clientsInSegment(data, aht, segmentId);
+  }
+
+  /**
+   * Onboarding cohorts over the first `months` months, optionally for one segment
+   */
+  async cohorts(months: number, segmentId?: string): Promise<CohortRow[]> {
+    const data = await this.source.getTranscripts();
+    const clientNames = segmentId
+      ? this.clientsInSegment(data, await this.source.getAHT(), segmentId)
+      : undefined;
+
+    return clientCohorts(data, months, clientNames);
+  }
+
+  private clientsInSegment(data: TranscriptData[], aht: Record<string, number>, segmentId: string): string[] {
+    const parsed = parseSegmentId(segmentId);
+    if (!parsed) return [];
+
+    const segmentation = segmentClients(data, { ...parsed, aht }, this.config);
+    return segmentation.segments.find(segment => segment.id === segmentId)?.clients ?? [];
+  }
+}
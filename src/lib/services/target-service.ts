@@ -0,0 +1,156 @@
+import { Alert } from '@/types/monitoring';
+import { AHTData } from '@/types/aht';
+import { PredictionResult, TranscriptData } from '@/types/transcript';
+import {
+  ClientTarget,
+  TargetBreach,
+  TargetCheckResult,
+  TargetReport,
+  TurnaroundMeasurement
+} from '@/types/target';
+import { compareWithTargets, varianceMonths } from '@/lib/utils/target-variance';
+import { getTargetConfig, TargetConfig } from '@/lib/config/targets';
+import { ClientTargetService } from '@/lib/database/targets';
+import { TranscriptService } from '@/lib/database/transcripts';
+import { PredictionService as PredictionStore } from '@/lib/database/predictions';
+import { AHTService } from '@/lib/database/aht';
+import { alertSystem } from '@/lib/monitoring/alert-system';
+
+/**
+ * Client volume commitments and AHT/turnaround SLAs checked against actuals
+ * and the latest monthly forecasts. Predicted misses and misses in the month
+ * just completed raise alerts; an alert is resolved once its month is back
+ * on target.
+ */
+
+export interface TargetDataSource {
+  getTargets(): Promise<ClientTarget[]>;
+  getTranscripts(start: Date, end: Date): Promise<TranscriptData[]>;
+  /** Latest stored monthly forecast per client */
+  getForecasts(): Promise<PredictionResult[]>;
+  getAHT(): Promise<AHTData[]>;
+  getTurnaround(sinceMonth: string): Promise<TurnaroundMeasurement[]>;
+}
+
+export interface TargetAlertSink {
+  raiseAlert(configId: string, message: string, severity: Alert['severity']): Alert | null;
+  resolveAlertsForConfig(configId: string): void;
+}
+
+export interface TargetReportRequest {
+  /** Clients to report on; every client with a target when not given */
+  clientNames?: string[];
+}
+
+const databaseSource: TargetDataSource = {
+  getTargets: () => new ClientTargetService().getTargets(),
+  getTranscripts: (start, end) => new TranscriptService().getTranscriptsByDateRange(start, end),
+  getForecasts: async () => {
+    const predictions = await new PredictionStore().getPredictions(undefined, 'monthly');
+    const seen = new Set<string>();
+    return predictions.filter(prediction => {
+      if (!prediction.clientId || seen.has(prediction.clientId)) return false;
+      seen.add(prediction.clientId);
+      return true;
+    });
+  },
+  getAHT: async () => (await new AHTService().getAHTData()).clients,
+  getTurnaround: sinceMonth => new ClientTargetService().getTurnaround(sinceMonth)
+};
+
+export function targetBreachAlertId(breach: Pick<TargetBreach, 'targetId' | 'month'>): string {
+  return `target-breach:${breach.targetId}:${breach.month}`;
+}
+
+function monthStart(month: string): Date {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(year, monthNumber - 1, 1);
+}
+
+export class TargetService {
+  private source: TargetDataSource;
+  private alerts: TargetAlertSink;
+  private config: TargetConfig;
+
+  constructor(
+    source: TargetDataSource = databaseSource,
+    alerts: TargetAlertSink = alertSystem,
+    config: TargetConfig = getTargetConfig()
+  ) {
+    this.source = source;
+    this.alerts = alerts;
+    this.config = config;
+  }
+
+  /**
+   * Variances of every target over the lookback months and the forecast
+   * horizon, with the breaches among them
+   */
+  async report({ clientNames }: TargetReportRequest = {}, asOf: Date = new Date()): Promise<TargetReport> {
+    const wanted = clientNames ? new Set(clientNames.map(name => name.toLowerCase())) : null;
+    const isWanted = (clientName: string) => !wanted || wanted.has(clientName.toLowerCase());
+
+    const targets = (await this.source.getTargets()).filter(target => isWanted(target.clientName));
+    if (targets.length === 0) {
+      return { variances: [], breaches: [], slaMisses: {}, asOf };
+    }
+
+    const months = varianceMonths(asOf, this.config);
+    const firstMonth = months.actual[0] ?? months.forecast[0];
+    const lastActual = months.actual[months.actual.length - 1];
+    const hasVolumeTargets = targets.some(target => target.metric === 'minimumVolume' || target.metric === 'maximumVolume');
+
+    const [transcripts, forecasts, ahtData, turnaround] = await Promise.all([
+      hasVolumeTargets && lastActual
+        ? this.source.getTranscripts(monthStart(firstMonth), new Date(asOf.getFullYear(), asOf.getMonth(), 0))
+        : Promise.resolve([]),
+      hasVolumeTargets ? this.source.getForecasts() : Promise.resolve([]),
+      targets.some(target => target.metric === 'aht') ? this.source.getAHT() : Promise.resolve([]),
+      targets.some(target => target.metric === 'turnaround') ? this.source.getTurnaround(firstMonth) : Promise.resolve([])
+    ]);
+
+    return compareWithTargets({
+      targets,
+      transcripts: transcripts.filter(record => isWanted(record.clientName)),
+      forecasts: forecasts.filter(forecast => isWanted(forecast.clientName)),
+      ahtData,
+      turnaround
+    }, asOf, this.config);
+  }
+
+  /**
+   * Check every target. Forecast breaches raise a medium alert and breaches in
+   * the month just completed a high one; alerts for those months that are no
+   * longer breached are resolved. Older months are reported but not alerted.
+   */
+  async run(asOf: Date = new Date()): Promise<TargetCheckResult> {
+    const report = await this.report({}, asOf);
+    const months = varianceMonths(asOf, this.config);
+    const lastActual = months.actual[months.actual.length - 1];
+
+    let alerted = 0;
+    report.variances
+      .filter(variance => variance.kind === 'forecast' || variance.month === lastActual)
+      .forEach(variance => {
+        const alertId = targetBreachAlertId(variance);
+        const breach = report.breaches.find(b => b.targetId === variance.targetId && b.month === variance.month && b.kind === variance.kind);
+
+        if (breach) {
+          const severity: Alert['severity'] = breach.kind === 'actual' ? 'high' : 'medium';
+          if (this.alerts.raiseAlert(alertId, breach.message, severity) !== null) alerted++;
+        } else {
+          this.alerts.resolveAlertsForConfig(alertId);
+        }
+      });
+
+    return { ...report, alerted };
+  }
+
+  /**
+   * Actual AHT and turnaround SLA breaches per client, keyed by lower-case
+   * client name, for the client risk signals
+   */
+  async slaMisses(asOf: Date = new Date()): Promise<Record<string, number>> {
+    return (await this.report({}, asOf)).slaMisses;
+  }
+}
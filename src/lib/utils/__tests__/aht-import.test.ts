@@ -0,0 +1,100 @@
+import {
+  ahtMonthKeyToDate,
+  formatAHTMonth,
+  parseAHTMonthHeader,
+  sortAHTMonths,
+  transformRawDataToAHT
+} from '../aht-import'
+
+describe('aht-import', () => {
+  const mapping = {
+    client: 'Client',
+    overallAHT: 'Overall AHT',
+    reviewAHT: 'Review AHT',
+    validationAHT: 'Validation AHT'
+  }
+
+  it('should recognise month column headers in the spreadsheet formats', () => {
+    expect(parseAHTMonthHeader('2024_Jun')).toBe('2024_Jun')
+    expect(parseAHTMonthHeader('Jun 2024')).toBe('2024_Jun')
+    expect(parseAHTMonthHeader('September-2024')).toBe('2024_Sep')
+    expect(parseAHTMonthHeader('Jan-25')).toBe('2025_Jan')
+    expect(parseAHTMonthHeader('2025-03')).toBe('2025_Mar')
+    expect(parseAHTMonthHeader('Grand Total')).toBeNull()
+    expect(parseAHTMonthHeader('Review AHT')).toBeNull()
+  })
+
+  it('should convert, format and sort month keys', () => {
+    expect(ahtMonthKeyToDate('2024_Jun')).toBe('2024-06-01')
+    expect(formatAHTMonth('2025_Jan')).toBe('Jan 2025')
+    expect(sortAHTMonths(['2025_Jan', '2024_Dec', '2024_Jun'])).toEqual(['2024_Jun', '2024_Dec', '2025_Jan'])
+  })
+
+  it('should transform spreadsheet rows and recompute the grand total', () => {
+    const rows = [
+      { Client: 'sja-asc-prod', 'Overall AHT': '16', 'Review AHT': '12', 'Validation AHT': '4', '2024_Dec': '1,284', '2025_Jan': 4143, 'Grand Total': 1 },
+      { Client: 'sja-hu-prod', 'Overall AHT': 21, 'Review AHT': 15, 'Validation AHT': 6, '2024_Dec': '', '2025_Jan': 90, 'Grand Total': 90 },
+      { Client: 'Grand Total', 'Overall AHT': '', 'Review AHT': '', 'Validation AHT': '', '2024_Dec': 1284, '2025_Jan': 4233, 'Grand Total': 5517 }
+    ]
+
+    const { validData, errors } = transformRawDataToAHT(rows, mapping)
+
+    expect(errors).toEqual([])
+    expect(validData).toHaveLength(2)
+    expect(validData[0]).toEqual({
+      client: 'sja-asc-prod',
+      overallAHT: 16,
+      reviewAHT: 12,
+      validationAHT: 4,
+      monthlyData: { '2024_Dec': 1284, '2025_Jan': 4143 },
+      grandTotal: 5427
+    })
+    expect(validData[1].monthlyData['2024_Dec']).toBe(0)
+  })
+
+  it('should reject duplicate clients, bad values and files without month columns', () => {
+    const rows = [
+      { Client: 'a', 'Review AHT': 5, 'Validation AHT': 2, 'Jun 2024': 10 },
+      { Client: 'A', 'Review AHT': 5, 'Validation AHT': 2, 'Jun 2024': 10 },
+      { Client: 'b', 'Review AHT': 'n/a', 'Validation AHT': 2, 'Jun 2024': 10 },
+      { Client: 'c', 'Review AHT': 5, 'Validation AHT': 2, 'Jun 2024': -3 }
+    ]
+
+    const { validData, errors } = transformRawDataToAHT(rows, { client: 'Client', reviewAHT: 'Review AHT', validationAHT: 'Validation AHT' })
+
+    expect(validData).toHaveLength(1)
+    expect(validData[0].overallAHT).toBe(7) // review plus validation without an overall column
+    expect(errors.map(e => e.row)).toEqual([2, 3, 4])
+
+    const noMonths = transformRawDataToAHT([{ Client: 'a', Total: 5 }], mapping)
+    expect(noMonths.validData).toEqual([])
+    expect(noMonths.errors[0].message).toMatch(/No month columns/)
+  })
+
+  it('should record review and validation AHT per month from one row per client and month', () => {
+    const rows = [
+      { Client: 'Acme', Month: '2024-06', 'Review AHT': 10, 'Validation AHT': 4, Volume: 100 },
+      { Client: 'Acme', Month: 'Jul 2024', 'Review AHT': 20, 'Validation AHT': 6, Volume: 300 },
+      { Client: 'acme', Month: new Date(2024, 6, 1), 'Review AHT': 12, 'Validation AHT': 5, Volume: 10 },
+      { Client: 'Beta', Month: 'someday', 'Review AHT': 8, 'Validation AHT': 3, Volume: 50 }
+    ]
+
+    const { validData, errors } = transformRawDataToAHT(rows, {
+      client: 'Client',
+      month: 'Month',
+      reviewAHT: 'Review AHT',
+      validationAHT: 'Validation AHT',
+      volume: 'Volume'
+    })
+
+    expect(validData).toHaveLength(1)
+    expect(validData[0].monthlyAHT).toEqual({
+      '2024_Jun': { reviewAHT: 10, validationAHT: 4 },
+      '2024_Jul': { reviewAHT: 20, validationAHT: 6 }
+    })
+    expect(validData[0].monthlyData).toEqual({ '2024_Jun': 100, '2024_Jul': 300 })
+    expect(validData[0].reviewAHT).toBe(17.5) // weighted by volume
+    expect(validData[0].grandTotal).toBe(400)
+    expect(errors.map(e => e.message)).toEqual(['Duplicate month for acme: Jul 2024', 'Invalid month for Beta'])
+  })
+})
@@ -0,0 +1,102 @@
+import {
+  annotateAnomalies,
+  anomalySeverity,
+  decomposeSeries,
+  detectVolumeAnomalies,
+  robustZScores,
+  volumeSeries
+} from '../anomaly-detection'
+import type { TranscriptData } from '@/types/transcript'
+
+const config = { zThreshold: 3.5, mediumZ: 4.5, highZ: 6, criticalZ: 9 }
+
+// Weekday volume around 100 and weekends around 20, starting on Monday 6 Jan 2025
+function dailyRecords(clientName: string, days: number, override: Record<number, number> = {}): TranscriptData[] {
+  return Array.from({ length: days }, (_, i) => {
+    const date = new Date(2025, 0, 6 + i)
+    const weekend = date.getDay() === 0 || date.getDay() === 6
+    const count = override[i] ?? (weekend ? 20 : 100) + ((i * 7) % 5) - 2
+
+    return {
+      id: `${clientName}-${i}`,
+      clientId: `id-${clientName}`,
+      clientName,
+      date,
+      transcriptCount: count,
+      createdAt: date,
+      updatedAt: date,
+      createdBy: 'test'
+    }
+  })
+}
+
+describe('anomaly-detection', () => {
+  it('should fill empty days and drop partly covered months', () => {
+    const records = dailyRecords('Acme', 60).filter((_, i) => i !== 3)
+
+    const daily = volumeSeries(records, 'daily')
+    expect(daily.values).toHaveLength(60)
+    expect(daily.values[3]).toBe(0)
+
+    // 6 Jan - 6 Mar: January starts too late and March ends too early to count
+    const monthly = volumeSeries(records, 'monthly')
+    expect(monthly.periods).toEqual([new Date(2025, 1, 1)])
+  })
+
+  it('should separate a weekly pattern from the residual', () => {
+    const values = Array.from({ length: 28 }, (_, i) => (i % 7 >= 5 ? 20 : 100))
+    const { seasonal, residual } = decomposeSeries(values, 7)
+
+    expect(seasonal[5]).toBe(-80)
+    expect(residual.every(value => value === 0)).toBe(true)
+  })
+
+  it('should score robust z-scores and map them to severities', () => {
+    const z = robustZScores([10, 11, 9, 10, 12, 8, 10, 40])
+
+    expect(z[0]).toBe(0)
+    expect(z[7]).toBeGreaterThan(9)
+    expect(robustZScores([5, 5, 5])).toEqual([0, 0, 0])
+    expect(robustZScores([5, 5, 5, 9])[3]).toBeCloseTo(4 / 1.2533)
+
+    expect(anomalySeverity(-3, config)).toBeNull()
+    expect(anomalySeverity(-4, config)).toBe('low')
+    expect(anomalySeverity(5, config)).toBe('medium')
+    expect(anomalySeverity(7, config)).toBe('high')
+    expect(anomalySeverity(-12, config)).toBe('critical')
+  })
+
+  it('should flag a missing weekday but not the regular weekend dip', () => {
+    // Day 38 is Thursday 13 Feb
+    const anomalies = detectVolumeAnomalies(dailyRecords('Acme', 56, { 38: 0 }), 'daily', config)
+
+    expect(anomalies).toHaveLength(1)
+    expect(anomalies[0]).toMatchObject({
+      clientId: 'id-Acme',
+      granularity: 'daily',
+      periodStart: new Date(2025, 1, 13),
+      actualCount: 0,
+      direction: 'drop',
+      severity: 'critical'
+    })
+    expect(anomalies[0].expectedCount).toBeGreaterThan(95)
+    expect(anomalies[0].hints[0]).toContain('may not have been imported')
+
+    expect(detectVolumeAnomalies(dailyRecords('Acme', 20, { 10: 0 }), 'daily', config)).toEqual([])
+  })
+
+  it('should add calendar and shared-cause hints', () => {
+    const [acme] = detectVolumeAnomalies(dailyRecords('Acme', 56, { 38: 0 }), 'daily', config)
+    const [globex] = detectVolumeAnomalies(dailyRecords('Globex', 56, { 38: 5 }), 'daily', config)
+
+    const annotated = annotateAnomalies([acme, globex], [
+      { name: 'Platform outage', eventType: 'outage', startDate: new Date(2025, 1, 13), endDate: new Date(2025, 1, 14) },
+      { name: 'Globex launch', eventType: 'client_event', startDate: new Date(2025, 1, 13), endDate: new Date(2025, 1, 13), clientName: 'Globex' }
+    ])
+
+    expect(annotated[0].hints[0]).toBe('Overlaps outage "Platform outage"')
+    expect(annotated[0].hints).not.toContain('Overlaps client event "Globex launch"')
+    expect(annotated[0].hints[annotated[0].hints.length - 1]).toContain('1 other client has a drop in the same period')
+    expect(annotated[1].hints).toContain('Overlaps client event "Globex launch"')
+  })
+})
@@ -0,0 +1,99 @@
+import type { FiscalCalendarConfig } from '@/lib/config/fiscal-calendar';
+import type { AHTData } from '@/types/aht';
+import type { CapacityAssumptions } from '@/types/capacity';
+import type { PredictionResult } from '@/types/transcript';
+import { planCapacity, requiredHours, workingDaysBetween, workingDaysInMonth } from '../capacity-planning';
+
+describe('capacity-planning', () => {
+  const assumptions: CapacityAssumptions = { shrinkage: 0.2, occupancy: 0.8, hoursPerDay: 8, ahtUnit: 'minutes' };
+
+  const forecast = (clientName: string, counts: number[], dates?: Date[]): PredictionResult => ({
+    id: `pred-${clientName}`,
+    clientName,
+    predictionType: 'monthly',
+    predictions: counts.map((count, i) => ({
+      date: dates?.[i] ?? new Date(2025, i, 1),
+      predictedCount: count,
+      confidenceInterval: { lower: count / 2, upper: count * 2 }
+    })),
+    confidence: 0.95,
+    accuracy: 90,
+    modelType: 'linear',
+    createdAt: new Date()
+  });
+
+  const aht = (client: string, reviewAHT: number, validationAHT: number): AHTData => ({
+    client,
+    overallAHT: reviewAHT + validationAHT,
+    reviewAHT,
+    validationAHT,
+    monthlyData: {},
+    grandTotal: 0
+  });
+
+  it('should count weekdays in a month', () => {
+    expect(workingDaysInMonth('2025-01')).toBe(23);
+    expect(workingDaysInMonth('2025-02')).toBe(20);
+    expect(workingDaysBetween(new Date(2026, 4, 3), new Date(2026, 4, 31))).toBe(20);
+  });
+
+  it('should gross up workload hours for occupancy and shrinkage', () => {
+    // 600 items x 12 minutes = 120 workload hours; / 0.8 / 0.8 = 187.5 staffed hours
+    expect(requiredHours(600, 12, assumptions)).toBeCloseTo(187.5);
+    expect(requiredHours(600, 720, { ...assumptions, ahtUnit: 'seconds' })).toBeCloseTo(187.5);
+  });
+
+  it('should plan hours and FTEs per client and month for each case', () => {
+    const plan = planCapacity([forecast('Client A', [600, 300])], [aht('client a', 12, 4)], assumptions);
+
+    expect(plan.clients).toHaveLength(2);
+    const january = plan.clients[0];
+    expect(january.month).toBe('2025-01');
+    expect(january.cases.expected).toEqual({
+      volume: 600,
+      reviewerHours: 187.5,
+      validatorHours: 62.5,
+      reviewerFTE: 1.02, // 187.5 / (23 days x 8 hours)
+      validatorFTE: 0.34,
+      totalFTE: 1.36
+    });
+    expect(january.cases.best.volume).toBe(300);
+    expect(january.cases.worst.reviewerHours).toBe(375);
+  });
+
+  it('should total clients per month and report clients without AHT data', () => {
+    const plan = planCapacity(
+      [forecast('Client A', [600]), forecast('Client B', [300]), forecast('Client C', [100])],
+      [aht('Client A', 12, 4), aht('Client B', 12, 4)],
+      assumptions
+    );
+
+    expect(plan.months).toHaveLength(1);
+    expect(plan.months[0]).toMatchObject({ month: '2025-01', workingDays: 23, hoursPerFTE: 184 });
+    expect(plan.months[0].cases.expected.volume).toBe(900);
+    expect(plan.months[0].cases.expected.reviewerHours).toBe(281.3);
+    expect(plan.unmatchedClients).toEqual(['Client C']);
+  });
+
+  it('should plan fiscal periods that start in the same calendar month separately', () => {
+    const retail: FiscalCalendarConfig = { weekStart: 0, pattern: '4-4-5', yearStartMonth: 1 };
+    // FY2026 P05 starts on 3 May 2026 and runs four weeks, P06 on 31 May and runs five
+    const plan = planCapacity(
+      [forecast('Client A', [600, 300], [new Date(2026, 4, 3), new Date(2026, 4, 31)])],
+      [aht('Client A', 12, 4)],
+      assumptions,
+      retail
+    );
+
+    expect(plan.months.map(({ month, workingDays, hoursPerFTE }) => ({ month, workingDays, hoursPerFTE }))).toEqual([
+      { month: 'FY2026-P05', workingDays: 20, hoursPerFTE: 160 },
+      { month: 'FY2026-P06', workingDays: 25, hoursPerFTE: 200 }
+    ]);
+    expect(plan.months.map(month => month.cases.expected.volume)).toEqual([600, 300]);
+  });
+
+  it('should reject impossible assumptions', () => {
+    expect(() => planCapacity([], [], { ...assumptions, shrinkage: 1 })).toThrow('Shrinkage');
+    expect(() => planCapacity([], [], { ...assumptions, occupancy: 0 })).toThrow('Occupancy');
+  });
+});
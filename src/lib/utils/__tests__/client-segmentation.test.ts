@@ -0,0 +1,142 @@
+import {
+  clientCohorts,
+  clientFeatures,
+  clientMonthlyVolumes,
+  kmeansSegments,
+  parseSegmentId,
+  segmentClients,
+  tierSegments
+} from '../client-segmentation'
+import type { TranscriptData } from '@/types/transcript'
+
+const thresholds = {
+  recentMonths: 12,
+  highVolume: 1000,
+  lowVolume: 100,
+  growthThreshold: 0.02,
+  seasonalityThreshold: 0.3,
+  longAHT: 600
+}
+
+// One record per month on the 15th, from `start` months after January 2023
+function monthlyRecords(clientName: string, months: number, volume: (month: number, calendarMonth: number) => number, start = 0): TranscriptData[] {
+  return Array.from({ length: months }, (_, i) => {
+    const date = new Date(2023, start + i, 15)
+
+    return {
+      id: `${clientName}-${i}`,
+      clientId: `id-${clientName}`,
+      clientName,
+      date,
+      transcriptCount: Math.round(volume(i, date.getMonth())),
+      createdAt: date,
+      updatedAt: date,
+      createdBy: 'test'
+    }
+  })
+}
+
+// Busy Decembers, quiet Julys
+const seasonalShape = (calendarMonth: number) => (calendarMonth === 11 ? 1.8 : calendarMonth === 6 ? 0.4 : 1)
+
+const portfolio = [
+  ...monthlyRecords('Big', 30, () => 2000),
+  ...monthlyRecords('Seasonal', 30, (_, calendarMonth) => 500 * seasonalShape(calendarMonth)),
+  ...monthlyRecords('Fader', 30, month => 600 - month * 15),
+  ...monthlyRecords('Grower', 12, month => 50 * Math.pow(1.1, month), 18)
+]
+
+describe('client-segmentation', () => {
+  it('should describe each client by volume, growth, seasonality and AHT', () => {
+    const features = clientFeatures(portfolio, thresholds, { big: 900 })
+    const byName = Object.fromEntries(features.map(client => [client.clientName, client]))
+
+    expect(features.map(client => client.clientName)).toEqual(['Big', 'Fader', 'Grower', 'Seasonal'])
+    expect(byName.Big.monthlyVolume).toBe(2000)
+    expect(byName.Big.growthRate).toBe(0)
+    expect(byName.Big.seasonality).toBe(0)
+    expect(byName.Big.peakMonth).toBeNull()
+    expect(byName.Big.aht).toBe(900)
+    expect(byName.Fader.aht).toBeNull()
+
+    expect(byName.Grower.growthRate).toBeGreaterThan(0.05)
+    expect(byName.Grower.onboardingMonth).toBe('2024-07')
+    expect(byName.Fader.growthRate).toBeLessThan(-0.02)
+
+    expect(byName.Seasonal.seasonality).toBeGreaterThan(0.5)
+    expect(byName.Seasonal.peakMonth).toBe(11)
+    expect(byName.Seasonal.seasonalProfile[6]).toBeLessThan(0.8)
+  })
+
+  it('should end clients that stopped sending work on zeros', () => {
+    const data = [...monthlyRecords('Big', 6, () => 100), ...monthlyRecords('Gone', 3, () => 40)]
+
+    expect(clientMonthlyVolumes(data).get('Gone')).toEqual({
+      months: ['2023-01', '2023-02', '2023-03', '2023-04', '2023-05', '2023-06'],
+      values: [40, 40, 40, 0, 0, 0]
+    })
+  })
+
+  it('should put clients into rule-based tiers', () => {
+    const segments = tierSegments(clientFeatures(portfolio, thresholds, { Big: 900 }), thresholds)
+    const tierOf = (clientName: string) => segments.find(segment => segment.clients.includes(clientName))!
+
+    expect(tierOf('Big').id).toBe('tiers:high-stable-steady-long-aht')
+    expect(tierOf('Big').label).toBe('High volume, stable, steady, long AHT')
+    expect(tierOf('Seasonal').id).toBe('tiers:mid-stable-seasonal')
+    expect(tierOf('Fader').id).toBe('tiers:mid-declining-steady')
+    expect(tierOf('Grower').id).toBe('tiers:low-growing-steady')
+    expect(segments[0]).toBe(tierOf('Big'))
+  })
+
+  it('should cluster clients the same way every time', () => {
+    const data = [
+      ...['A', 'B', 'C'].map((name, i) => monthlyRecords(`Large ${name}`, 24, () => 2000 + i * 100)).flat(),
+      ...['A', 'B', 'C'].map((name, i) => monthlyRecords(`Small ${name}`, 24, () => 40 + i * 5)).flat()
+    ]
+    const features = clientFeatures(data, thresholds)
+
+    const segments = kmeansSegments(features, 2, thresholds)
+    expect(segments.map(segment => segment.id)).toEqual(['kmeans:2:1', 'kmeans:2:2'])
+    expect(segments[0].clients).toEqual(['Large A', 'Large B', 'Large C'])
+    expect(segments[0].label).toBe('Cluster 1: High volume, stable, steady')
+    expect(segments[1].clients).toEqual(['Small A', 'Small B', 'Small C'])
+    expect(kmeansSegments([...features].reverse(), 2, thresholds).map(segment => segment.clients.sort()))
+      .toEqual(segments.map(segment => segment.clients))
+
+    // More clusters than clients is capped
+    expect(kmeansSegments(features.slice(0, 2), 4, thresholds).map(segment => segment.id)).toEqual(['kmeans:2:1', 'kmeans:2:2'])
+  })
+
+  it('should map every client to its segment and read segment ids back', () => {
+    const segmentation = segmentClients(portfolio, { method: 'kmeans', clusters: 3 }, thresholds)
+
+    expect(Object.keys(segmentation.assignments).sort()).toEqual(['Big', 'Fader', 'Grower', 'Seasonal'])
+    expect(segmentation.segments.reduce((sum, segment) => sum + segment.clients.length, 0)).toBe(4)
+
+    expect(parseSegmentId('kmeans:3:2')).toEqual({ method: 'kmeans', clusters: 3 })
+    expect(parseSegmentId('tiers:high-stable-steady')).toEqual({ method: 'tiers' })
+    expect(parseSegmentId('kmeans:x:1')).toBeNull()
+    expect(parseSegmentId('high-stable-steady')).toBeNull()
+  })
+
+  it('should follow the ramp of each onboarding cohort', () => {
+    const data = [
+      ...monthlyRecords('Alpha', 6, month => 10 * (month + 1)),
+      ...monthlyRecords('Beta', 2, () => 30),
+      ...monthlyRecords('Gamma', 4, () => 100, 2)
+    ]
+
+    const cohorts = clientCohorts(data, 6)
+    expect(cohorts.map(row => row.cohort)).toEqual(['2023-01', '2023-03'])
+
+    expect(cohorts[0].clients).toEqual(['Alpha', 'Beta'])
+    expect(cohorts[0].volumes).toEqual([20, 25, 15, 20, 25, 30])
+    expect(cohorts[0].activeClients).toEqual([2, 2, 1, 1, 1, 1])
+
+    expect(cohorts[1].volumes).toEqual([100, 100, 100, 100, null, null])
+    expect(cohorts[1].activeClients).toEqual([1, 1, 1, 1, null, null])
+
+    expect(clientCohorts(data, 6, ['gamma']).map(row => row.cohort)).toEqual(['2023-03'])
+  })
+})
@@ -0,0 +1,85 @@
+import { CSVStreamParser, CSVStreamReader, detectDelimiter, detectEncoding } from '../csv-parser';
+
+describe('csv-parser', () => {
+  const encode = (text: string) => new TextEncoder().encode(text);
+
+  // Push text one character at a time, so every state crosses a chunk boundary
+  const parseByCharacter = (text: string) => {
+    const parser = new CSVStreamParser(',');
+    const records = [...text].flatMap(char => parser.push(char));
+    records.push(...parser.end());
+    return { records, errors: parser.takeErrors() };
+  };
+
+  it('should detect the encoding from a byte order mark or invalid UTF-8', () => {
+    expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x61]))).toBe('utf-8');
+    expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x61, 0x00]))).toBe('utf-16le');
+    expect(detectEncoding(new Uint8Array([0xfe, 0xff, 0x00, 0x61]))).toBe('utf-16be');
+    // "café" in Windows-1252
+    expect(detectEncoding(new Uint8Array([0x63, 0x61, 0x66, 0xe9, 0x0a]))).toBe('windows-1252');
+    // A UTF-8 character cut off at the end of the sample
+    expect(detectEncoding(encode('café').slice(0, 4))).toBe('utf-8');
+  });
+
+  it('should detect the delimiter that splits lines most consistently, ignoring quoted text', () => {
+    expect(detectDelimiter('a,b,c\n1,2,3\n')).toBe(',');
+    expect(detectDelimiter('name;notes\n"Acme, Inc";"a, b, c"\nGlobex;x\n')).toBe(';');
+    expect(detectDelimiter('a\tb\n1\t2\n')).toBe('\t');
+    expect(detectDelimiter('a|b|c\n1|2|3\n')).toBe('|');
+    expect(detectDelimiter('single column\nvalue\n')).toBe(',');
+  });
+
+  it('should parse quoted fields, escaped quotes and every line ending across chunks', () => {
+    const { records, errors } = parseByCharacter('a,b\r\n"multi\nline","say ""hi"""\rc, d \n\n  "padded"  ,e');
+
+    expect(records).toEqual([
+      { line: 1, fields: ['a', 'b'] },
+      { line: 2, fields: ['multi\nline', 'say "hi"'] },
+      { line: 4, fields: ['c', 'd'] },
+      { line: 6, fields: ['padded', 'e'] }
+    ]);
+    expect(errors).toEqual([]);
+  });
+
+  it('should keep malformed rows and report them by the line they start on', () => {
+    const { records, errors } = parseByCharacter('a,b\n"x"y,z\nab"c,d\n"open,\nnever closed');
+
+    expect(records.map(record => record.fields)).toEqual([['a', 'b'], ['xy', 'z'], ['ab"c', 'd'], ['open,\nnever closed']]);
+    expect(errors).toEqual([
+      { line: 2, message: 'Unexpected text after a closing quote' },
+      { line: 3, message: 'Unexpected quote in an unquoted field' },
+      { line: 4, message: 'Unterminated quoted field' }
+    ]);
+  });
+
+  it('should decode, map rows onto headers and flag rows with the wrong number of fields', () => {
+    const reader = new CSVStreamReader();
+    const bytes = new Uint8Array([...encode('client;count\n'), 0x43, 0x61, 0x66, 0xe9, ...encode(';12\nAcme;3;extra\n')]);
+
+    const first = reader.push(bytes.slice(0, 10));
+    const rest = reader.push(bytes.slice(10));
+    const tail = reader.end();
+
+    expect(reader.detectedEncoding).toBe('windows-1252');
+    expect(reader.detectedDelimiter).toBe(';');
+    expect(reader.headers).toEqual(['client', 'count']);
+    expect([...first.rows, ...rest.rows, ...tail.rows]).toEqual([
+      { client: 'Café', count: '12' },
+      { client: 'Acme', count: '3' }
+    ]);
+    expect([...first.errors, ...rest.errors, ...tail.errors]).toEqual([{ line: 3, message: 'Expected 2 fields but found 3' }]);
+    expect(reader.rowCount).toBe(2);
+  });
+
+  it('should name columns as they appear when the file has no header row', () => {
+    const reader = new CSVStreamReader({ hasHeaders: false, delimiter: ',' });
+
+    const rows = [...reader.push(encode('a,b\nc,d,e\n')).rows, ...reader.end().rows];
+
+    expect(reader.headers).toEqual(['Column 1', 'Column 2', 'Column 3']);
+    expect(rows).toEqual([
+      { 'Column 1': 'a', 'Column 2': 'b' },
+      { 'Column 1': 'c', 'Column 2': 'd', 'Column 3': 'e' }
+    ]);
+  });
+});
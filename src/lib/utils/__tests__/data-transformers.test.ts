@@ -378,6 +378,11 @@ describe('DataTransformer', () => {
       expect(format).toBe('MM/DD/YYYY')
     })
 
+    it('should detect day-first dates from a leading part above 12', () => {
+      expect(DataTransformer.detectDateFormat(['01/02/2024', '13/02/2024', '25/03/2024'])).toBe('DD/MM/YYYY')
+      expect(DataTransformer.detectDateFormat(['15.01.2024', '20.02.2024'])).toBe('DD.MM.YYYY')
+    })
+
     it('should return default format for mixed or unrecognized formats', () => {
       const dates = ['2024-01-15', '02/20/2024', 'invalid-date']
 
@@ -395,6 +400,19 @@ describe('DataTransformer', () => {
     })
   })
 
+  describe('parseDateWithFormat', () => {
+    it('should read dates in the given part order', () => {
+      expect(DataTransformer.parseDateWithFormat('03/04/2024', 'DD/MM/YYYY').toISOString()).toBe('2024-04-03T00:00:00.000Z')
+      expect(DataTransformer.parseDateWithFormat('03/04/2024', 'MM/DD/YYYY').toISOString()).toBe('2024-03-04T00:00:00.000Z')
+      expect(DataTransformer.parseDateWithFormat('2024/4/3', 'YYYY/MM/DD').toISOString()).toBe('2024-04-03T00:00:00.000Z')
+    })
+
+    it('should reject dates that do not exist or do not fit the format', () => {
+      expect(() => DataTransformer.parseDateWithFormat('31/04/2024', 'DD/MM/YYYY')).toThrow('Unable to parse date')
+      expect(() => DataTransformer.parseDateWithFormat('April 3', 'DD/MM/YYYY')).toThrow('Unable to parse date')
+    })
+  })
+
   describe('transformRawDataToTranscripts', () => {
     it('should transform raw data using column mapping', async () => {
       const rawData: RawData[] = [
@@ -435,6 +453,26 @@ describe('DataTransformer', () => {
       expect(result.validData[1].transcriptCount).toBe(15)
     })
 
+    it('should keep the source row number of each valid record', async () => {
+      const rawData: RawData[] = [
+        { 'Client Name': 'Acme Corp', 'Date': '2024-01-15', 'Count': '25' },
+        { 'Client Name': '', 'Date': '2024-01-16', 'Count': '10' },
+        { 'Client Name': 'Beta Inc', 'Date': '2024-01-17', 'Count': '15' }
+      ]
+
+      const columnMapping = {
+        clientName: 'Client Name',
+        date: 'Date',
+        transcriptCount: 'Count'
+      }
+
+      const result = await transformRawDataToTranscripts(rawData, columnMapping)
+
+      expect(result.validData.map(record => record.clientName)).toEqual(['Acme Corp', 'Beta Inc'])
+      expect(result.rowNumbers).toEqual([1, 3])
+      expect(result.errors[0].row).toBe(2)
+    })
+
     it('should handle missing required fields', async () => {
       const rawData: RawData[] = [
         {
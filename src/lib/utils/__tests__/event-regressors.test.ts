@@ -0,0 +1,66 @@
+import {
+  ForecastEvent,
+  estimateEventEffects,
+  eventAdjustments,
+  eventRegressors
+} from '../event-regressors';
+
+describe('event-regressors', () => {
+  const holiday: ForecastEvent = {
+    eventType: 'holiday',
+    startDate: new Date(2024, 0, 1),
+    endDate: new Date(2024, 0, 1)
+  };
+
+  it('should give the share of each period an event covers', () => {
+    const daily = eventRegressors([new Date(2024, 0, 1), new Date(2024, 0, 2)], [holiday], 'daily');
+    expect(daily.holiday).toEqual([1, 0]);
+
+    const weekly = eventRegressors([new Date(2024, 0, 1)], [holiday], 'weekly');
+    expect(weekly.holiday[0]).toBeCloseTo(1 / 7);
+
+    const monthly = eventRegressors([new Date(2024, 0, 1), new Date(2024, 1, 1)], [holiday], 'monthly');
+    expect(monthly.holiday[0]).toBeCloseTo(1 / 31);
+    expect(monthly.holiday[1]).toBe(0);
+    expect(monthly.outage).toEqual([0, 0]);
+  });
+
+  it('should only apply client events to their own client and the total', () => {
+    const launch: ForecastEvent = {
+      eventType: 'client_event',
+      startDate: new Date(2024, 0, 1),
+      endDate: new Date(2024, 0, 3),
+      clientName: 'Acme'
+    };
+    const dates = [new Date(2024, 0, 1)];
+
+    expect(eventRegressors(dates, [launch], 'daily', 'Acme').client_event).toEqual([1]);
+    expect(eventRegressors(dates, [launch], 'daily', 'Globex').client_event).toEqual([0]);
+    expect(eventRegressors(dates, [launch], 'daily').client_event).toEqual([1]);
+  });
+
+  it('should recover the effect of an event from the history', () => {
+    const dates = Array.from({ length: 30 }, (_, i) => new Date(2024, 0, i + 1));
+    const events: ForecastEvent[] = [5, 12, 19, 26].map(day => ({
+      eventType: 'holiday',
+      startDate: new Date(2024, 0, day),
+      endDate: new Date(2024, 0, day)
+    }));
+    const regressors = eventRegressors(dates, events, 'daily');
+    const values = dates.map((_, t) => 100 + 2 * t - 40 * regressors.holiday[t]);
+
+    const effects = estimateEventEffects(values, regressors);
+
+    expect(effects.holiday).toBeCloseTo(-40);
+    expect(effects.outage).toBeUndefined();
+    expect(eventAdjustments(regressors, effects)[4]).toBeCloseTo(-40);
+    expect(eventAdjustments(regressors, effects)[5]).toBeCloseTo(0);
+  });
+
+  it('should return no effects when the history has no events or is too short', () => {
+    const dates = [new Date(2024, 0, 1), new Date(2024, 0, 2), new Date(2024, 0, 3)];
+
+    expect(estimateEventEffects([10, 11, 12], eventRegressors(dates, [], 'daily'))).toEqual({});
+    expect(estimateEventEffects([10, 11, 12], eventRegressors(dates, [holiday], 'daily'))).toEqual({});
+  });
+});
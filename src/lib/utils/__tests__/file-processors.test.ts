@@ -11,6 +11,29 @@ jest.mock('xlsx', () => ({
 
 const XLSX = require('xlsx')
 
+// CSV file whose stream yields its bytes in chunks of the given size
+const mockCSVFile = (content: string, name = 'test.csv', chunkSize = 64 * 1024) => {
+  const bytes = new TextEncoder().encode(content)
+  return {
+    name,
+    type: 'text/csv',
+    size: bytes.length,
+    stream: () => {
+      let offset = 0
+      return {
+        getReader: () => ({
+          read: async () => {
+            if (offset >= bytes.length) return { done: true, value: undefined }
+            const value = bytes.slice(offset, offset + chunkSize)
+            offset += chunkSize
+            return { done: false, value }
+          }
+        })
+      }
+    }
+  } as unknown as File
+}
+
 describe('FileProcessor', () => {
   describe('validateFile', () => {
     it('should validate CSV file', () => {
@@ -35,12 +58,25 @@ describe('FileProcessor', () => {
 
     it('should reject file that is too large', () => {
       const largeContent = 'x'.repeat(11 * 1024 * 1024) // 11MB
-      const largeFile = new File([largeContent], 'large.csv', { type: 'text/csv' })
+      const largeFile = new File([largeContent], 'large.xlsx', {
+        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      })
       
       const result = FileProcessor.validateFile(largeFile)
       
       expect(result.isValid).toBe(false)
-      expect(result.errors[0]).toContain('exceeds maximum allowed size')
+      expect(result.errors[0]).toContain('exceeds maximum allowed size (10MB)')
+    })
+
+    it('should allow streamed CSV files up to the larger CSV limit', () => {
+      const csvFile = (size: number) => {
+        const file = new File([''], 'export.csv', { type: 'text/csv' })
+        Object.defineProperty(file, 'size', { value: size })
+        return file
+      }
+
+      expect(FileProcessor.validateFile(csvFile(300 * 1024 * 1024)).isValid).toBe(true)
+      expect(FileProcessor.validateFile(csvFile(501 * 1024 * 1024)).errors[0]).toContain('exceeds maximum allowed size (500MB)')
     })
 
     it('should reject unsupported file type', () => {
@@ -82,6 +118,13 @@ describe('FileProcessor', () => {
       expect(fileType).toBe('excel')
     })
 
+    it('should detect JSON, NDJSON and Parquet file types', () => {
+      expect(FileProcessor.getFileType(new File(['[]'], 'export.json', { type: 'application/json' }))).toBe('json')
+      expect(FileProcessor.getFileType(new File(['{}'], 'export.jsonl', { type: '' }))).toBe('ndjson')
+      expect(FileProcessor.getFileType(new File(['{}'], 'export.ndjson', { type: 'application/x-ndjson' }))).toBe('ndjson')
+      expect(FileProcessor.getFileType(new File(['PAR1'], 'export.parquet', { type: '' }))).toBe('parquet')
+    })
+
     it('should return unknown for unsupported file type', () => {
       const textFile = new File(['test'], 'test.txt', { type: 'text/plain' })
       
@@ -92,19 +135,9 @@ describe('FileProcessor', () => {
   })
 
   describe('processCSV', () => {
-    // Mock File.prototype.text for testing
-    const mockFileText = (content: string) => {
-      const mockFile = {
-        text: jest.fn().mockResolvedValue(content),
-        name: 'test.csv',
-        type: 'text/csv'
-      } as unknown as File
-      return mockFile
-    }
-
     it('should process simple CSV data', async () => {
       const csvContent = 'name,age,city\nJohn,25,NYC\nJane,30,LA'
-      const csvFile = mockFileText(csvContent)
+      const csvFile = mockCSVFile(csvContent)
       
       const result = await FileProcessor.processCSV(csvFile, true)
       
@@ -117,7 +150,7 @@ describe('FileProcessor', () => {
 
     it('should handle CSV with quoted fields', async () => {
       const csvContent = 'name,description\n"John Doe","A person with, comma"\n"Jane Smith","Another person"'
-      const csvFile = mockFileText(csvContent)
+      const csvFile = mockCSVFile(csvContent)
       
       const result = await FileProcessor.processCSV(csvFile, true)
       
@@ -128,7 +161,7 @@ describe('FileProcessor', () => {
 
     it('should handle CSV without headers', async () => {
       const csvContent = 'John,25,NYC\nJane,30,LA'
-      const csvFile = mockFileText(csvContent)
+      const csvFile = mockCSVFile(csvContent)
       
       const result = await FileProcessor.processCSV(csvFile, false)
       
@@ -138,7 +171,7 @@ describe('FileProcessor', () => {
     })
 
     it('should handle empty CSV file', async () => {
-      const csvFile = mockFileText('')
+      const csvFile = mockCSVFile('')
       
       const result = await FileProcessor.processCSV(csvFile, true)
       
@@ -146,6 +179,63 @@ describe('FileProcessor', () => {
       expect(result.data).toEqual([])
       expect(result.errors).toContain('File is empty')
     })
+
+    it('should stream quoted newlines, CRLF and semicolons across chunks and report progress', async () => {
+      const csvContent = '﻿name;notes\r\n"Acme";"line one\r\nline two"\r\nGlobex;"say ""hi"""\r\n'
+      const onProgress = jest.fn()
+
+      const result = await FileProcessor.processCSV(mockCSVFile(csvContent, 'test.csv', 7), true, onProgress)
+
+      expect(result.headers).toEqual(['name', 'notes'])
+      expect(result.data).toEqual([
+        { name: 'Acme', notes: 'line one\r\nline two' },
+        { name: 'Globex', notes: 'say "hi"' }
+      ])
+      expect(result.delimiter).toBe(';')
+      expect(result.encoding).toBe('utf-8')
+      expect(result.rowErrors).toEqual([])
+      expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ bytesRead: 65, totalBytes: 65 }))
+    })
+  })
+
+  describe('processJSON', () => {
+    const mockJSONFile = (content: string) => ({
+      name: 'export.json',
+      type: 'application/json',
+      size: content.length,
+      text: async () => content
+    }) as unknown as File
+
+    it('should flatten wrapped records into columns', async () => {
+      const result = await FileProcessor.processJSON(mockJSONFile(
+        '{"data":[{"client":{"name":"Acme"},"date":"2025-01-02","count":3},{"client":{"name":"Globex"},"date":"2025-01-03"}]}'
+      ))
+
+      expect(result.errors).toHaveLength(0)
+      expect(result.headers).toEqual(['client.name', 'date', 'count'])
+      expect(result.data[1]).toEqual({ 'client.name': 'Globex', date: '2025-01-03' })
+    })
+
+    it('should report invalid and empty JSON', async () => {
+      expect((await FileProcessor.processJSON(mockJSONFile('{"data":'))).errors[0]).toContain('Failed to process JSON file: Invalid JSON')
+      expect((await FileProcessor.processJSON(mockJSONFile('[]'))).errors).toEqual(['File contains no records'])
+    })
+  })
+
+  describe('processNDJSON', () => {
+    it('should stream records across chunks and keep going past bad lines', async () => {
+      const content = '{"client":"Acme","count":1}\nnot json\n{"client":"Globex","type":"chat"}\n'
+      const onProgress = jest.fn()
+
+      const result = await FileProcessor.processNDJSON(mockCSVFile(content, 'export.ndjson', 10), onProgress)
+
+      expect(result.errors).toHaveLength(0)
+      expect(result.headers).toEqual(['client', 'count', 'type'])
+      expect(result.data).toHaveLength(2)
+      expect(result.rowErrors).toHaveLength(1)
+      expect(result.rowErrors[0].line).toBe(2)
+      expect(onProgress).toHaveBeenLastCalledWith({ bytesRead: content.length, totalBytes: content.length, rows: 2 })
+    })
   })
 
   describe('generatePreview', () => {
@@ -265,12 +355,7 @@ describe('FileProcessor', () => {
     it('should handle complete file upload workflow', async () => {
       // Test CSV workflow
       const csvContent = 'Client Name,Date,Transcript Count,Type,Notes\nTest Client,2024-01-15,100,Support,Test notes'
-      const csvFile = {
-        text: jest.fn().mockResolvedValue(csvContent),
-        name: 'test.csv',
-        type: 'text/csv',
-        size: csvContent.length
-      } as unknown as File
+      const csvFile = mockCSVFile(csvContent)
 
       // Validate file
       const validation = FileProcessor.validateFile(csvFile)
@@ -293,7 +378,7 @@ describe('FileProcessor', () => {
 
     it('should handle file validation errors gracefully', async () => {
       // Test oversized file
-      const largeFile = new File(['x'.repeat(11 * 1024 * 1024)], 'large.csv', { type: 'text/csv' })
+      const largeFile = new File(['x'.repeat(11 * 1024 * 1024)], 'large.xls', { type: 'application/vnd.ms-excel' })
       const validation = FileProcessor.validateFile(largeFile)
       
       expect(validation.isValid).toBe(false)
@@ -302,16 +387,13 @@ describe('FileProcessor', () => {
 
     it('should handle malformed CSV data', async () => {
       const malformedCSV = 'name,age\nJohn,25\nJane' // Missing field
-      const csvFile = {
-        text: jest.fn().mockResolvedValue(malformedCSV),
-        name: 'malformed.csv',
-        type: 'text/csv'
-      } as unknown as File
+      const csvFile = mockCSVFile(malformedCSV, 'malformed.csv')
 
       const result = await FileProcessor.processCSV(csvFile, true)
       
       expect(result.data).toHaveLength(2)
       expect(result.data[1].age).toBe('') // Missing field should be empty string
+      expect(result.rowErrors).toEqual([{ line: 3, message: 'Expected 2 fields but found 1' }])
     })
   })
 })
\ No newline at end of file
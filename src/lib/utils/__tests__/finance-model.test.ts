@@ -0,0 +1,164 @@
+import type { AHTData } from '@/types/aht';
+import type { RateCard } from '@/types/finance';
+import type { PredictionResult, TranscriptData } from '@/types/transcript';
+import type { FinanceConfig } from '@/lib/config/finance';
+import { ahtForMonth, buildFinanceReport, priceVolume, rateCardFor } from '../finance-model';
+
+describe('finance-model', () => {
+  // No occupancy or shrinkage uplift, so staffed hours are plain workload hours
+  const config: FinanceConfig = {
+    laborCostPerHour: 20,
+    currency: 'USD',
+    actualMonths: 12,
+    staffing: { shrinkage: 0, occupancy: 1, hoursPerDay: 8, ahtUnit: 'seconds' }
+  };
+
+  const card = (clientName: string | null, overrides: Partial<RateCard> = {}): RateCard => ({
+    id: `card-${clientName ?? 'default'}`,
+    clientId: clientName ? `id-${clientName}` : null,
+    clientName,
+    tierMode: 'graduated',
+    tiers: [{ upTo: 1000, rate: 3 }, { upTo: null, rate: 2 }],
+    monthlyMinimum: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  });
+
+  const record = (clientName: string, date: Date, transcriptCount: number): TranscriptData => ({
+    id: `${clientName}-${date.toISOString()}`,
+    clientId: `id-${clientName}`,
+    clientName,
+    date,
+    transcriptCount,
+    createdAt: date,
+    updatedAt: date,
+    createdBy: 'test'
+  });
+
+  const aht = (client: string, reviewAHT: number, validationAHT: number, monthlyAHT?: AHTData['monthlyAHT']): AHTData => ({
+    client,
+    overallAHT: reviewAHT + validationAHT,
+    reviewAHT,
+    validationAHT,
+    monthlyData: {},
+    monthlyAHT,
+    grandTotal: 0
+  });
+
+  it('should price volume through graduated and whole-volume tiers', () => {
+    const graduated = card('Acme');
+    expect(priceVolume(1500, graduated)).toBe(4000); // 1000 x 3 + 500 x 2
+    expect(priceVolume(400, graduated)).toBe(1200);
+    expect(priceVolume(0, graduated)).toBe(0);
+
+    const volume = card('Acme', { tierMode: 'volume' });
+    expect(priceVolume(1500, volume)).toBe(3000); // all 1500 at the second tier's rate
+    expect(priceVolume(1000, volume)).toBe(3000);
+
+    expect(priceVolume(100, card('Acme', { monthlyMinimum: 500 }))).toBe(500);
+  });
+
+  it('should fall back to the default rate card', () => {
+    const cards = [card(null), card('Acme')];
+
+    expect(rateCardFor('ACME', cards)).toEqual({ card: cards[1], source: 'client' });
+    expect(rateCardFor('Globex', cards)).toEqual({ card: cards[0], source: 'default' });
+    expect(rateCardFor('Globex', [card('Acme')])).toBeNull();
+  });
+
+  it('should use the latest recorded AHT up to a month', () => {
+    const client = aht('Acme', 300, 60, {
+      '2024_Mar': { reviewAHT: 240, validationAHT: 50 },
+      '2024_Jan': { reviewAHT: 280, validationAHT: 55 }
+    });
+
+    expect(ahtForMonth(client, '2024-03')).toEqual({ reviewAHT: 240, validationAHT: 50 });
+    expect(ahtForMonth(client, '2024-02')).toEqual({ reviewAHT: 280, validationAHT: 55 });
+    expect(ahtForMonth(client, '2024-06')).toEqual({ reviewAHT: 240, validationAHT: 50 });
+    expect(ahtForMonth(client, '2023-12')).toEqual({ reviewAHT: 300, validationAHT: 60 });
+  });
+
+  it('should report revenue, labor cost and margin for actuals then forecasts', () => {
+    const forecast: PredictionResult = {
+      id: 'pred-acme',
+      clientName: 'Acme',
+      predictionType: 'monthly',
+      predictions: [
+        // Within the actuals, so left out
+        { date: new Date(2024, 1, 1), predictedCount: 999, confidenceInterval: { lower: 900, upper: 1100 } },
+        { date: new Date(2024, 2, 1), predictedCount: 1000, confidenceInterval: { lower: 900, upper: 1100 } }
+      ],
+      confidence: 0.95,
+      accuracy: 90,
+      modelType: 'linear',
+      createdAt: new Date()
+    };
+
+    const report = buildFinanceReport({
+      transcripts: [
+        record('Acme', new Date(2024, 0, 10), 1000),
+        record('Acme', new Date(2024, 0, 20), 500),
+        record('Acme', new Date(2024, 1, 10), 200),
+        record('Globex', new Date(2024, 0, 15), 100),
+        // Before the start month
+        record('Acme', new Date(2023, 11, 15), 700)
+      ],
+      forecasts: [forecast],
+      // 360 seconds a transcript is 0.1 hours, or 2.00 at 20 an hour
+      ahtData: [aht('acme', 300, 60)],
+      rateCards: [card('Acme'), card(null, { tierMode: 'volume', tiers: [{ upTo: null, rate: 1 }], monthlyMinimum: 250 })],
+      startMonth: '2024-01',
+      endMonth: '2024-02'
+    }, config);
+
+    expect(report.clients.map(row => [row.month, row.clientName, row.kind])).toEqual([
+      ['2024-01', 'Acme', 'actual'],
+      ['2024-01', 'Globex', 'actual'],
+      ['2024-02', 'Acme', 'actual'],
+      ['2024-03', 'Acme', 'forecast']
+    ]);
+    expect(report.clients[0]).toMatchObject({
+      volume: 1500,
+      revenue: 4000,
+      laborHours: 150,
+      laborCost: 3000,
+      margin: 1000,
+      marginPercent: 25,
+      rateCard: 'client',
+      reviewAHT: 300
+    });
+    expect(report.clients[1]).toMatchObject({ revenue: 250, laborCost: 0, rateCard: 'default', reviewAHT: null });
+
+    expect(report.months.map(month => [month.month, month.kind, month.revenue, month.laborCost])).toEqual([
+      ['2024-01', 'actual', 4250, 3000],
+      ['2024-02', 'actual', 600, 400],
+      ['2024-03', 'forecast', 3000, 2000]
+    ]);
+    expect(report.months[0].marginPercent).toBe(29.4);
+    expect(report.totals.actual).toMatchObject({ volume: 1800, revenue: 4850, laborCost: 3400, margin: 1450 });
+    expect(report.totals.forecast).toMatchObject({ volume: 1000, margin: 1000 });
+
+    expect(report.unpricedClients).toEqual([]);
+    expect(report.uncostedClients).toEqual(['Globex']);
+  });
+
+  it('should list clients without a rate card and report no margin percentage without revenue', () => {
+    const report = buildFinanceReport({
+      transcripts: [record('Acme', new Date(2024, 0, 10), 100)],
+      forecasts: [],
+      ahtData: [aht('Acme', 300, 60)],
+      rateCards: [],
+      startMonth: '2024-01',
+      endMonth: '2024-01'
+    }, config);
+
+    expect(report.unpricedClients).toEqual(['Acme']);
+    expect(report.clients[0]).toMatchObject({ revenue: 0, laborCost: 200, margin: -200, marginPercent: null, rateCard: null });
+    expect(report.totals.forecast.volume).toBe(0);
+
+    expect(() => buildFinanceReport({
+      transcripts: [], forecasts: [], ahtData: [], rateCards: [], startMonth: '2024-02', endMonth: '2024-01'
+    }, config)).toThrow('Start month must not be after end month');
+  });
+});
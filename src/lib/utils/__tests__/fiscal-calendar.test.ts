@@ -0,0 +1,92 @@
+import type { FiscalCalendarConfig } from '@/lib/config/fiscal-calendar';
+import {
+  addCalendarMonths,
+  addPeriods,
+  calendarMonthKey,
+  fiscalPeriodOf,
+  fiscalPeriods,
+  fiscalYearStart,
+  periodEnd,
+  periodKey,
+  periodStart,
+  periodsBetween,
+  startOfWeek,
+  totalsByCalendarMonth
+} from '../fiscal-calendar';
+
+describe('fiscal-calendar', () => {
+  const calendar: FiscalCalendarConfig = { weekStart: 1, pattern: 'calendar', yearStartMonth: 1 };
+  const retail: FiscalCalendarConfig = { weekStart: 0, pattern: '4-4-5', yearStartMonth: 1 };
+
+  const weeks = (config: FiscalCalendarConfig, fiscalYear: number) =>
+    fiscalPeriods(fiscalYear, config).map(period => Math.round((period.end.getTime() - period.start.getTime()) / (7 * 24 * 60 * 60 * 1000)));
+
+  it('should start weeks on the configured day, Sundays included', () => {
+    const sunday = new Date(2024, 0, 14);
+
+    expect(startOfWeek(sunday, 1)).toEqual(new Date(2024, 0, 8));
+    expect(startOfWeek(sunday, 0)).toEqual(sunday);
+    expect(startOfWeek(new Date(2024, 0, 13, 15, 30), 0)).toEqual(new Date(2024, 0, 7));
+  });
+
+  it('should keep calendar months and Monday weeks by default', () => {
+    const date = new Date(2024, 1, 15);
+
+    expect(periodKey(date, 'monthly', calendar)).toBe('2024-02');
+    expect(periodKey(date, 'weekly', calendar)).toBe('2024-02-12');
+    expect(periodKey(new Date(2024, 1, 15, 23, 0), 'daily', calendar)).toBe('2024-02-15');
+    expect(periodStart(date, 'monthly', calendar)).toEqual(new Date(2024, 1, 1));
+    expect(periodEnd(date, 'monthly', calendar)).toEqual(new Date(2024, 2, 1));
+    expect(addPeriods(new Date(2024, 10, 1), 3, 'monthly', calendar)).toEqual(new Date(2025, 1, 1));
+    expect(periodsBetween(new Date(2024, 10, 1), new Date(2025, 1, 1), 'monthly', calendar)).toBe(3);
+  });
+
+  it('should start week-based fiscal years on the week start nearest the 1st', () => {
+    // 1 January 2025 is a Wednesday and 1 January 2026 a Thursday
+    expect(fiscalYearStart(2025, retail)).toEqual(new Date(2024, 11, 29));
+    expect(fiscalYearStart(2026, retail)).toEqual(new Date(2026, 0, 4));
+
+    // FY2025 has 53 weeks, the extra one going to the last period
+    expect(weeks(retail, 2025)).toEqual([4, 4, 5, 4, 4, 5, 4, 4, 5, 4, 4, 6]);
+    expect(weeks({ ...retail, pattern: '4-5-4' }, 2026)).toEqual([4, 5, 4, 4, 5, 4, 4, 5, 4, 4, 5, 4]);
+  });
+
+  it('should key, step and count fiscal periods across years', () => {
+    expect(periodKey(new Date(2024, 11, 30), 'monthly', retail)).toBe('FY2025-P01');
+    expect(periodKey(new Date(2025, 2, 29), 'monthly', retail)).toBe('FY2025-P03');
+    expect(periodKey(new Date(2025, 2, 30), 'monthly', retail)).toBe('FY2025-P04');
+    expect(periodKey(new Date(2026, 0, 2), 'monthly', retail)).toBe('FY2025-P12');
+
+    expect(periodStart(new Date(2025, 2, 29), 'monthly', retail)).toEqual(new Date(2025, 1, 23));
+    expect(addPeriods(new Date(2025, 10, 30), 1, 'monthly', retail)).toEqual(new Date(2026, 0, 4));
+    expect(addPeriods(new Date(2026, 0, 4), -12, 'monthly', retail)).toEqual(new Date(2024, 11, 29));
+    expect(periodsBetween(new Date(2024, 11, 29), new Date(2026, 0, 4), 'monthly', retail)).toBe(12);
+  });
+
+  it('should number calendar months from the fiscal year start month', () => {
+    const april: FiscalCalendarConfig = { ...calendar, yearStartMonth: 4 };
+
+    expect(fiscalPeriodOf(new Date(2025, 0, 15), april)).toMatchObject({ fiscalYear: 2024, period: 10 });
+    expect(periodKey(new Date(2025, 0, 15), 'monthly', april)).toBe('2025-01');
+  });
+
+  it('should key and step calendar months whatever the fiscal pattern', () => {
+    expect(calendarMonthKey(new Date(2024, 11, 30))).toBe('2024-12');
+    expect(addCalendarMonths('2025-01', -2)).toBe('2024-11');
+    expect(addCalendarMonths('2025-11', 3)).toBe('2026-02');
+  });
+
+  it('should spread fiscal period totals over fully covered calendar months by day', () => {
+    // FY2026 P04 runs 5 April to 2 May, P05 3 to 30 May and P06 31 May to 4 July
+    const totals = totalsByCalendarMonth([
+      { date: new Date(2026, 3, 5), value: 280 },
+      { date: new Date(2026, 4, 3), value: 280 },
+      { date: new Date(2026, 4, 31), value: 350 }
+    ], 'monthly', retail);
+
+    // April and July are only partly covered
+    expect(Array.from(totals.entries())).toEqual([['2026-05', 310], ['2026-06', 300]]);
+    expect(Array.from(totalsByCalendarMonth([{ date: new Date(2026, 4, 1), value: 5 }], 'monthly', calendar).entries()))
+      .toEqual([['2026-05', 5]]);
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  mape,
+  smape,
+  rmse,
+  mase,
+  naiveScale,
+  intervalCoverage,
+  calculateAccuracyMetrics
+} from '../forecast-metrics';
+
+describe('forecast-metrics', () => {
+  const actual = [100, 200, 0, 400];
+  const predicted = [110, 180, 10, 400];
+
+  describe('percentage errors', () => {
+    it('should skip zero actuals in MAPE', () => {
+      // (10% + 10% + 0%) / 3
+      expect(mape(actual, predicted)).toBeCloseTo(20 / 3, 6);
+      expect(mape([0, 0], [1, 2])).toBeNull();
+    });
+
+    it('should bound sMAPE and treat zero-on-zero as exact', () => {
+      expect(smape([0, 10], [0, 10])).toBe(0);
+      expect(smape([0], [5])).toBe(200);
+      expect(smape([100], [50])).toBeCloseTo(200 * 50 / 150, 6);
+    });
+  });
+
+  describe('rmse', () => {
+    it('should compute root mean squared error', () => {
+      expect(rmse([1, 2, 3], [1, 2, 7])).toBeCloseTo(Math.sqrt(16 / 3), 6);
+      expect(rmse([], [])).toBeNull();
+    });
+
+    it('should reject series of different lengths', () => {
+      expect(() => rmse([1, 2], [1])).toThrow('Actual and predicted series must have the same length');
+    });
+  });
+
+  describe('mase', () => {
+    it('should scale by the naive in-sample error', () => {
+      const training = [10, 12, 11, 13, 12];
+
+      expect(naiveScale(training)).toBeCloseTo(1.5, 6);
+      expect(mase([14, 15], [13, 13], training)).toBeCloseTo(1.5 / 1.5, 6);
+    });
+
+    it('should support a seasonal naive scale', () => {
+      const training = [10, 20, 12, 22, 14, 24];
+
+      expect(naiveScale(training, 2)).toBe(2);
+    });
+
+    it('should be undefined for constant training data', () => {
+      expect(naiveScale([5, 5, 5])).toBeNull();
+      expect(mase([6], [5], [5, 5, 5])).toBeNull();
+    });
+  });
+
+  describe('intervalCoverage', () => {
+    it('should count actuals inside inclusive bounds', () => {
+      expect(intervalCoverage([5, 10, 15, 20], [0, 10, 16, 10], [10, 12, 20, 19])).toBe(0.5);
+    });
+  });
+
+  describe('calculateAccuracyMetrics', () => {
+    it('should scale each outcome by its own training window', () => {
+      const metrics = calculateAccuracyMetrics([
+        { actual: 10, predicted: 8, lower: 5, upper: 12, scale: 2 },
+        { actual: 20, predicted: 26, lower: 21, upper: 25, scale: 3 },
+        { actual: 30, predicted: 30, scale: null }
+      ]);
+
+      expect(metrics.count).toBe(3);
+      expect(metrics.mase).toBeCloseTo((1 + 2) / 2, 6);
+      expect(metrics.coverage).toBe(0.5);
+      expect(metrics.rmse).toBeCloseTo(Math.sqrt(40 / 3), 6);
+    });
+
+    it('should return null metrics when there are no outcomes', () => {
+      expect(calculateAccuracyMetrics([])).toEqual({
+        mape: null,
+        smape: null,
+        mase: null,
+        rmse: null,
+        coverage: null,
+        count: 0
+      });
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import {
+  NodeForecast,
+  historicalProportions,
+  reconcileForecasts
+} from '../forecast-reconciliation';
+
+describe('forecast-reconciliation', () => {
+  // Base forecasts that do not add up: 60 + 30 = 90 vs a total of 100
+  const total: NodeForecast = { mean: [100, 110], variance: [16, 25] };
+  const children: NodeForecast[] = [
+    { mean: [60, 70], variance: [9, 9] },
+    { mean: [30, 30], variance: [4, 4] }
+  ];
+
+  const sumOfChildren = (forecasts: NodeForecast[], h: number) =>
+    forecasts.reduce((sum, c) => sum + c.mean[h], 0);
+
+  it('should sum child forecasts bottom-up', () => {
+    const reconciled = reconcileForecasts(total, children, 'bottom-up');
+
+    expect(reconciled.total.mean).toEqual([90, 100]);
+    expect(reconciled.total.variance).toEqual([13, 13]);
+    expect(reconciled.children).toEqual(children);
+  });
+
+  it('should split the total top-down by proportion', () => {
+    const reconciled = reconcileForecasts(total, children, 'top-down', { proportions: [0.75, 0.25] });
+
+    expect(reconciled.total).toEqual(total);
+    expect(reconciled.children[0].mean).toEqual([75, 82.5]);
+    expect(reconciled.children[1].variance).toEqual([1, 1.5625]);
+    expect(() => reconcileForecasts(total, children, 'top-down')).toThrow(
+      'Top-down reconciliation requires one proportion per child series'
+    );
+  });
+
+  it('should close the coherence gap in proportion to forecast variance', () => {
+    const reconciled = reconcileForecasts(total, children, 'mint');
+
+    [0, 1].forEach(h => {
+      expect(reconciled.total.mean[h]).toBeCloseTo(sumOfChildren(reconciled.children, h), 9);
+    });
+
+    // Gap of 10 spread over weights 16, 9 and 4
+    expect(reconciled.total.mean[0]).toBeCloseTo(100 - 16 * 10 / 29, 9);
+    expect(reconciled.children[0].mean[0]).toBeCloseTo(60 + 9 * 10 / 29, 9);
+    expect(reconciled.children[1].mean[0]).toBeCloseTo(30 + 4 * 10 / 29, 9);
+
+    // Combining forecasts never increases the variance of any node
+    expect(reconciled.total.variance[0]).toBeLessThan(16);
+    expect(reconciled.children[0].variance[0]).toBeLessThan(9);
+  });
+
+  it('should leave already coherent forecasts unchanged under MinT', () => {
+    const coherent: NodeForecast = { mean: [90, 100], variance: [16, 25] };
+    const reconciled = reconcileForecasts(coherent, children, 'mint');
+
+    expect(reconciled.total.mean[0]).toBeCloseTo(90, 9);
+    expect(reconciled.children[0].mean[1]).toBeCloseTo(70, 9);
+  });
+
+  it('should reject mismatched horizons', () => {
+    expect(() => reconcileForecasts(total, [{ mean: [1], variance: [1] }], 'mint')).toThrow(
+      'All forecasts must cover the same horizon'
+    );
+    expect(() => reconcileForecasts(total, [], 'bottom-up')).toThrow(
+      'Reconciliation requires at least one child series'
+    );
+  });
+
+  describe('historicalProportions', () => {
+    it('should use each child share of the historical total', () => {
+      expect(historicalProportions([[30, 30], [10, 30]])).toEqual([0.6, 0.4]);
+      expect(historicalProportions([[0], [0]])).toEqual([0.5, 0.5]);
+    });
+  });
+});
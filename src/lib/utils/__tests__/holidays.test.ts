@@ -0,0 +1,33 @@
+import { countryHolidays, easterSunday } from '../holidays';
+
+describe('holidays', () => {
+  const findHoliday = (countryCode: 'US' | 'GB' | 'CA', year: number, name: string) =>
+    countryHolidays(countryCode, year).find(holiday => holiday.name === name)?.date;
+
+  it('should calculate Easter Sunday', () => {
+    expect(easterSunday(2024)).toEqual(new Date(2024, 2, 31));
+    expect(easterSunday(2025)).toEqual(new Date(2025, 3, 20));
+  });
+
+  it('should place floating US holidays on the right weekday', () => {
+    expect(findHoliday('US', 2024, 'Thanksgiving Day')).toEqual(new Date(2024, 10, 28));
+    expect(findHoliday('US', 2024, 'Memorial Day')).toEqual(new Date(2024, 4, 27));
+  });
+
+  it('should move weekend US holidays to the nearest weekday', () => {
+    // 4 July 2026 is a Saturday
+    expect(findHoliday('US', 2026, 'Independence Day')).toEqual(new Date(2026, 6, 3));
+  });
+
+  it('should keep UK Christmas and Boxing Day substitutes on separate days', () => {
+    // 25 December 2021 is a Saturday
+    expect(findHoliday('GB', 2021, 'Christmas Day')).toEqual(new Date(2021, 11, 27));
+    expect(findHoliday('GB', 2021, 'Boxing Day')).toEqual(new Date(2021, 11, 28));
+  });
+
+  it('should place Victoria Day on the Monday before 25 May', () => {
+    expect(findHoliday('CA', 2024, 'Victoria Day')).toEqual(new Date(2024, 4, 20));
+    // 25 May 2026 is itself a Monday
+    expect(findHoliday('CA', 2026, 'Victoria Day')).toEqual(new Date(2026, 4, 18));
+  });
+});
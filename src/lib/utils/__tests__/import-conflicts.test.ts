@@ -0,0 +1,93 @@
+import type { TranscriptData } from '@/types/transcript';
+import type { ImportConflict, StagedImportRow } from '@/types/import-batch';
+import {
+  conflictTypeOf,
+  generateDifferences,
+  mergeRecords,
+  resolutionForStrategy,
+  resolveImport
+} from '../import-conflicts';
+
+describe('import-conflicts', () => {
+  const date = new Date(2025, 2, 10);
+
+  const row = (rowNumber: number, clientName: string, transcriptCount: number, notes?: string): StagedImportRow => ({
+    rowNumber,
+    clientName,
+    date,
+    transcriptCount,
+    notes
+  });
+
+  const existing = (id: string, clientName: string, transcriptCount: number, notes?: string): TranscriptData => ({
+    id,
+    clientId: `id-${clientName}`,
+    clientName,
+    date,
+    transcriptCount,
+    notes,
+    createdAt: date,
+    updatedAt: date,
+    createdBy: 'test'
+  });
+
+  const conflict = (
+    rowNumber: number,
+    record: TranscriptData,
+    resolution: ImportConflict['resolution'],
+    mergedData?: ImportConflict['mergedData']
+  ) => ({ id: `conflict-${rowNumber}`, rowNumber, existingRecord: record, resolution, mergedData });
+
+  it('should tell exact duplicates from count differences', () => {
+    expect(conflictTypeOf(row(1, 'Acme', 10), existing('t1', 'Acme', 10))).toBe('duplicate');
+    expect(conflictTypeOf(row(1, 'Acme', 12), existing('t1', 'Acme', 10))).toBe('count_difference');
+
+    expect(generateDifferences(row(1, 'Acme', 12, 'late'), existing('t1', 'Acme', 10))).toEqual([
+      'Transcript count: 10 → 12',
+      'Notes: "None" → "late"'
+    ]);
+    expect(generateDifferences(row(1, 'Acme', 10), existing('t1', 'Acme', 10))).toEqual(['Exact duplicate record']);
+  });
+
+  it('should merge to the higher count and keep both notes once', () => {
+    expect(mergeRecords(row(1, 'Acme', 8, 'import'), existing('t1', 'Acme', 10, 'manual'))).toEqual({
+      transcriptCount: 10,
+      transcriptType: undefined,
+      notes: 'manual | import'
+    });
+    expect(mergeRecords(row(1, 'Acme', 8, 'same'), existing('t1', 'Acme', 10, 'same')).notes).toBe('same');
+  });
+
+  it('should replace, merge or drop conflicting rows by their resolution', () => {
+    const rows = [row(1, 'Acme', 12), row(2, 'Globex', 5, 'new'), row(3, 'Initech', 7), row(4, 'Umbrella', 3), row(5, 'Hooli', 9)];
+
+    const resolved = resolveImport(rows, [
+      conflict(1, existing('t1', 'Acme', 10), 'use_new'),
+      conflict(2, existing('t2', 'Globex', 6, 'old'), 'merge'),
+      conflict(3, existing('t3', 'Initech', 1), 'merge', { transcriptCount: 4 }),
+      conflict(4, existing('t4', 'Umbrella', 2), 'use_existing')
+    ]);
+
+    expect(resolved.rows.map(r => [r.rowNumber, r.transcriptCount, r.notes, r.replaceTranscriptId])).toEqual([
+      [1, 12, undefined, 't1'],
+      [2, 6, 'old | new', 't2'],
+      [3, 4, undefined, 't3'],
+      [5, 9, undefined, undefined]
+    ]);
+    expect(resolved.skipped).toBe(1);
+    expect(resolved.unresolved).toEqual([]);
+  });
+
+  it('should hold back rows whose conflicts have no resolution yet', () => {
+    const resolved = resolveImport([row(1, 'Acme', 12), row(2, 'Globex', 5)], [conflict(1, existing('t1', 'Acme', 10), null)]);
+
+    expect(resolved.unresolved).toEqual(['conflict-1']);
+    expect(resolved.rows.map(r => r.rowNumber)).toEqual([2]);
+  });
+
+  it('should map import strategies onto conflict resolutions', () => {
+    expect(resolutionForStrategy('replace')).toBe('use_new');
+    expect(resolutionForStrategy('merge')).toBe('merge');
+    expect(resolutionForStrategy('skip')).toBe('skip');
+  });
+});
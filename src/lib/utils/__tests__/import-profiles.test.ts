@@ -0,0 +1,81 @@
+import type { ImportProfile } from '@/types/import-profile';
+import {
+  PROFILE_TYPE_COLUMN,
+  applyImportProfile,
+  applyValueTransforms,
+  headerFingerprint,
+  matchImportProfile
+} from '../import-profiles';
+
+describe('import-profiles', () => {
+  const headers = ['Account', 'Day', 'Volume'];
+
+  const profile = (overrides: Partial<ImportProfile> = {}): ImportProfile => ({
+    id: 'p1',
+    name: 'Acme export',
+    scope: 'personal',
+    headers,
+    headerFingerprint: headerFingerprint(headers),
+    columnMapping: { clientName: 'Account', date: 'Day', transcriptCount: 'Volume' },
+    dateFormat: 'DD/MM/YYYY',
+    transforms: {},
+    createdBy: 'u1',
+    createdAt: new Date(2025, 0, 1),
+    updatedAt: new Date(2025, 0, 1),
+    ...overrides
+  });
+
+  it('should fingerprint headers regardless of order, case and punctuation', () => {
+    expect(headerFingerprint(['Client Name', 'Date', 'Count'])).toBe(headerFingerprint(['count', 'DATE', 'client_name']));
+    expect(headerFingerprint(['Client', 'Date'])).not.toBe(headerFingerprint(['Client', 'Date', 'Count']));
+  });
+
+  it('should match the own profile before a team one for the same layout', () => {
+    const team = profile({ id: 'team', scope: 'team', updatedAt: new Date(2025, 5, 1) });
+    const own = profile({ id: 'own' });
+    const other = profile({ id: 'other', headerFingerprint: headerFingerprint(['Client', 'Date']) });
+
+    expect(matchImportProfile(['Volume', 'Account', 'Day'], [team, own, other])?.id).toBe('own');
+    expect(matchImportProfile(headers, [team, other])?.id).toBe('team');
+    expect(matchImportProfile(['Client', 'Date', 'Count'], [team, own])).toBeNull();
+  });
+
+  it('should apply value transforms in order', () => {
+    expect(applyValueTransforms('  acme corp-east ', [{ type: 'trim' }, { type: 'titlecase' }])).toBe('Acme Corp-East');
+    expect(applyValueTransforms('AC-01', [{ type: 'map', values: { 'AC-01': 'Acme' } }])).toBe('Acme');
+    expect(applyValueTransforms('1,250', [{ type: 'scale', factor: 2 }])).toBe('2500');
+    expect(applyValueTransforms('n/a', [{ type: 'scale', factor: 2 }])).toBe('n/a');
+    expect(applyValueTransforms('a_b_c', [{ type: 'replace', find: '_', replace: ' ' }])).toBe('a b c');
+  });
+
+  it('should rewrite dates from the profile format and fill the default type', () => {
+    const result = applyImportProfile(
+      [
+        { Account: ' acme ', Day: '13/02/2025', Volume: '12' },
+        { Account: 'globex', Day: 'soon', Volume: '3' }
+      ],
+      { clientName: 'Account', date: 'Day', transcriptCount: 'Volume' },
+      profile({
+        transforms: { clientName: [{ type: 'trim' }, { type: 'uppercase' }] },
+        defaultTranscriptType: 'Support'
+      })
+    );
+
+    expect(result.columnMapping.transcriptType).toBe(PROFILE_TYPE_COLUMN);
+    expect(result.data).toEqual([
+      { Account: 'ACME', Day: '2025-02-13', Volume: '12', [PROFILE_TYPE_COLUMN]: 'Support' },
+      { Account: 'GLOBEX', Day: 'soon', Volume: '3', [PROFILE_TYPE_COLUMN]: 'Support' }
+    ]);
+  });
+
+  it('should only fill blank types when the type column is mapped', () => {
+    const result = applyImportProfile(
+      [{ Account: 'Acme', Day: '01/02/2025', Volume: '1', Kind: '' }, { Account: 'Acme', Day: '02/02/2025', Volume: '1', Kind: 'Sales' }],
+      { clientName: 'Account', date: 'Day', transcriptCount: 'Volume', transcriptType: 'Kind' },
+      profile({ defaultTranscriptType: 'Support' })
+    );
+
+    expect(result.data.map(row => row.Kind)).toEqual(['Support', 'Sales']);
+    expect(result.columnMapping.transcriptType).toBe('Kind');
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  DEFAULT_RISK_RULES,
+  calculateRiskMetrics,
+  evaluateRiskRules,
+  riskLevelForScore
+} from '../risk-rules'
+import type { AHTData } from '@/types/aht'
+import type { RiskRule } from '@/types/risk'
+
+describe('risk-rules', () => {
+  const config = { highScore: 50, mediumScore: 20 }
+  const months = ['2025_Jan', '2025_Feb', '2025_Mar', '2025_Apr']
+
+  const client: AHTData = {
+    client: 'Acme',
+    overallAHT: 18,
+    reviewAHT: 12,
+    validationAHT: 6,
+    monthlyData: { '2025_Jan': 100, '2025_Feb': 100, '2025_Mar': 150, '2025_Apr': 250 },
+    grandTotal: 600
+  }
+
+  const rule = (overrides: Partial<RiskRule>): RiskRule => ({
+    id: 'r',
+    name: 'Rule',
+    metric: 'overallAHT',
+    operator: 'gt',
+    threshold: 0,
+    weight: 1,
+    enabled: true,
+    ...overrides
+  })
+
+  it('should derive volume growth, volatility and outside signals', () => {
+    const metrics = calculateRiskMetrics(client, months, { forecastErrors: { acme: 42.5 } }, 2)
+
+    expect(metrics.totalVolume).toBe(600)
+    expect(metrics.volumeGrowth).toBe(100) // 400 in Mar-Apr against 200 in Jan-Feb
+    expect(metrics.volumeVolatility).toBe(40.82)
+    expect(metrics.forecastError).toBe(42.5)
+    expect(metrics.slaMisses).toBeNull()
+
+    expect(calculateRiskMetrics(client, months, {}, 3).volumeGrowth).toBeNull()
+  })
+
+  it('should score fired weight against the rules with data and explain each rule', () => {
+    const metrics = calculateRiskMetrics(client, months, {}, 2)
+    const rules = [
+      rule({ id: 'aht', name: 'High AHT', threshold: 15, weight: 3 }),
+      rule({ id: 'growth', name: 'Growth', metric: 'volumeGrowth', operator: 'gte', threshold: 150, weight: 1 }),
+      rule({ id: 'sla', name: 'SLA', metric: 'slaMisses', operator: 'gte', threshold: 1, weight: 5 }),
+      rule({ id: 'off', name: 'Disabled', weight: 10, enabled: false })
+    ]
+
+    const assessment = evaluateRiskRules(metrics, rules, config)
+
+    expect(assessment.score).toBe(75)
+    expect(assessment.level).toBe('high')
+    expect(assessment.rules.map(r => [r.ruleId, r.fired])).toEqual([['aht', true], ['growth', false], ['sla', false]])
+    expect(assessment.rules[0].explanation).toBe('Overall AHT 18 > 15')
+    expect(assessment.rules[1].explanation).toBe('Volume growth (%) 100 not ≥ 150')
+    expect(assessment.rules[2].explanation).toBe('No data for SLA misses')
+  })
+
+  it('should map scores to levels and score clients without data as low', () => {
+    expect(riskLevelForScore(50, config)).toBe('high')
+    expect(riskLevelForScore(20, config)).toBe('medium')
+    expect(riskLevelForScore(19.9, config)).toBe('low')
+
+    const metrics = calculateRiskMetrics(client, months, {}, 2)
+    expect(evaluateRiskRules(metrics, [], config)).toMatchObject({ score: 0, level: 'low', rules: [] })
+    expect(evaluateRiskRules(metrics, DEFAULT_RISK_RULES, config).level).toBe('high')
+  })
+})
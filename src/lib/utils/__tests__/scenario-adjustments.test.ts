@@ -0,0 +1,80 @@
+import type { PredictionResult } from '@/types/transcript';
+import { applyScenarioAdjustments, describeScenarioAdjustment, rampFactor } from '../scenario-adjustments';
+
+describe('scenario-adjustments', () => {
+  const forecast = (clientName: string, counts: number[]): PredictionResult => ({
+    id: `pred-${clientName}`,
+    clientName,
+    predictionType: 'monthly',
+    predictions: counts.map((count, i) => ({
+      date: new Date(2024, i, 1),
+      predictedCount: count,
+      confidenceInterval: { lower: count - 10, upper: count + 10 }
+    })),
+    confidence: 0.95,
+    accuracy: 90,
+    modelType: 'linear',
+    createdAt: new Date()
+  });
+
+  const baseline = [forecast('Client A', [100, 100, 100, 100]), forecast('Client B', [200, 200, 200, 200])];
+  const counts = (forecasts: PredictionResult[], clientName: string) =>
+    forecasts.find(f => f.clientName === clientName)!.predictions.map(p => p.predictedCount);
+
+  it('should ramp new clients along the chosen curve', () => {
+    expect(rampFactor('step', 0, 4)).toBe(1);
+    expect([0, 1, 2, 3, 4].map(i => rampFactor('linear', i, 4))).toEqual([0.25, 0.5, 0.75, 1, 1]);
+
+    const sCurve = [0, 1, 2, 3].map(i => rampFactor('s-curve', i, 4));
+    expect(sCurve[0]).toBeLessThan(0.25);
+    expect(sCurve[1]).toBeCloseTo(0.5);
+    expect(sCurve[3]).toBe(1);
+  });
+
+  it('should apply uplifts to the periods in range without touching the baseline', () => {
+    const forecasts = applyScenarioAdjustments(baseline, [
+      { type: 'uplift', clientName: 'Client A', percent: 20, startDate: new Date(2024, 1, 15), endDate: new Date(2024, 2, 1) },
+      { type: 'uplift', percent: -50, startDate: new Date(2024, 3, 1) }
+    ]);
+
+    // A mid-month start covers that month's period
+    expect(counts(forecasts, 'Client A')).toEqual([100, 120, 120, 50]);
+    expect(counts(forecasts, 'Client B')).toEqual([200, 200, 200, 100]);
+    expect(forecasts[0].predictions[1].confidenceInterval).toEqual({ lower: 108, upper: 132 });
+    expect(counts(baseline, 'Client A')).toEqual([100, 100, 100, 100]);
+  });
+
+  it('should zero churned clients from the effective period', () => {
+    const forecasts = applyScenarioAdjustments(baseline, [
+      { type: 'churn', clientName: 'Client B', effectiveDate: new Date(2024, 2, 1) }
+    ]);
+
+    expect(counts(forecasts, 'Client B')).toEqual([200, 200, 0, 0]);
+  });
+
+  it('should add new clients ramping up from their start date', () => {
+    const forecasts = applyScenarioAdjustments(baseline, [
+      { type: 'new-client', clientName: 'Client C', startDate: new Date(2024, 1, 1), volume: 90, rampPeriods: 3, curve: 'linear' }
+    ]);
+
+    expect(forecasts).toHaveLength(3);
+    expect(counts(forecasts, 'Client C')).toEqual([0, 30, 60, 90]);
+    expect(forecasts[2].modelType).toBe('scenario');
+  });
+
+  it('should reject adjustments that do not match the baseline', () => {
+    expect(() => applyScenarioAdjustments([], [])).toThrow('at least one baseline forecast');
+    expect(() => applyScenarioAdjustments(baseline, [
+      { type: 'churn', clientName: 'Client Z', effectiveDate: new Date(2024, 0, 1) }
+    ])).toThrow('No baseline forecast for client: Client Z');
+    expect(() => applyScenarioAdjustments(baseline, [
+      { type: 'new-client', clientName: 'Client A', startDate: new Date(2024, 0, 1), volume: 10, rampPeriods: 1, curve: 'step' }
+    ])).toThrow('Client already has a baseline forecast: Client A');
+  });
+
+  it('should describe adjustments in one line', () => {
+    expect(describeScenarioAdjustment({ type: 'uplift', percent: 15, clientName: 'Client A' })).toBe('+15% Client A');
+    expect(describeScenarioAdjustment({ type: 'churn', clientName: 'Client B', effectiveDate: '2024-03-01' }))
+      .toBe('Churn Client B from 2024-03-01');
+  });
+});
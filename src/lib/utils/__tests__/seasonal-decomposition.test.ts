@@ -0,0 +1,132 @@
+import { decomposeSeries, decomposeVolume, movingAverage } from '../seasonal-decomposition'
+import { detectSeasonalPatterns } from '../analytics-calculations'
+import type { TranscriptData } from '@/types/transcript'
+
+// Two years of days from Sunday 1 Jan 2023: a rising level, quiet weekends and a busy mid-year
+function dailyRecords(clientName: string, days = 730, scale = 1): TranscriptData[] {
+  return Array.from({ length: days }, (_, i) => {
+    const date = new Date(2023, 0, 1 + i)
+    const weekend = date.getDay() === 0 || date.getDay() === 6
+    const yearly = 20 * Math.sin((2 * Math.PI * (i - 91)) / 365)
+    const count = Math.round(scale * (100 + i * 0.05 + (weekend ? -40 : 16) + yearly))
+
+    return {
+      id: `${clientName}-${i}`,
+      clientId: `id-${clientName}`,
+      clientName,
+      date,
+      transcriptCount: count,
+      createdAt: date,
+      updatedAt: date,
+      createdBy: 'test'
+    }
+  })
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+
+describe('seasonal-decomposition', () => {
+  it('should keep even moving averages centered', () => {
+    expect(movingAverage([1, 2, 3, 4, 5], 1)).toEqual([1, 2, 3, 4, 5])
+    expect(movingAverage([0, 0, 4, 0, 0], 2)[2]).toBeCloseTo(2)
+    expect(movingAverage([2, 4, 6, 8, 10], 3)[2]).toBe(6)
+  })
+
+  it('should add the components back up to the observed series', () => {
+    const values = Array.from({ length: 48 }, (_, i) => 50 + i + (i % 12 === 6 ? 30 : 0))
+    const { trend, seasonals, residual } = decomposeSeries(values, [12])
+
+    values.forEach((value, i) => {
+      expect(trend[i] + seasonals[0]![i] + residual[i]).toBeCloseTo(value)
+    })
+    expect(seasonals[0]![6]).toBeGreaterThan(20)
+  })
+
+  it('should recover weekly and yearly seasonality from daily volume', () => {
+    const result = decomposeVolume(dailyRecords('Acme'), 'daily')
+
+    expect(result.periods[0]).toBe('2023-01-01')
+    expect(result.weekly).not.toBeNull()
+    expect(result.yearly).not.toBeNull()
+
+    const weekdays = result.periods.map(period => new Date(`${period}T00:00:00`).getDay())
+    const weekendEffect = mean(result.weekly!.filter((_, i) => weekdays[i] === 0 || weekdays[i] === 6))
+    const weekdayEffect = mean(result.weekly!.filter((_, i) => weekdays[i] > 0 && weekdays[i] < 6))
+    expect(weekendEffect).toBeLessThan(-30)
+    expect(weekdayEffect).toBeGreaterThan(10)
+
+    // Early July is the busy part of the year, early January the quiet part
+    const july = result.periods.indexOf('2023-07-01')
+    const january = result.periods.indexOf('2024-01-01')
+    expect(result.yearly![july]).toBeGreaterThan(10)
+    expect(result.yearly![january]).toBeLessThan(-10)
+
+    expect(result.strength.weekly).toBeGreaterThan(0.8)
+    expect(result.strength.yearly).toBeGreaterThan(0.8)
+  })
+
+  it('should leave out components the series cannot support', () => {
+    const monthly = decomposeVolume(dailyRecords('Acme'), 'monthly')
+    expect(monthly.periods).toHaveLength(24)
+    expect(monthly.weekly).toBeNull()
+    expect(monthly.strength.weekly).toBeNull()
+    expect(monthly.yearly).not.toBeNull()
+
+    const short = decomposeVolume(dailyRecords('Acme', 200), 'daily')
+    expect(short.weekly).not.toBeNull()
+    expect(short.yearly).toBeNull()
+    expect(short.strength.yearly).toBeNull()
+  })
+
+  it('should sum whole weeks from the configured week start', () => {
+    const records = dailyRecords('Acme', 30).slice(3)
+    const calendar = { weekStart: 0, pattern: 'calendar' as const, yearStartMonth: 1 }
+    const result = decomposeVolume(records, 'weekly', undefined, calendar)
+
+    // 4 Jan 2023 is a Wednesday, so the first whole week starts on Sunday 8 Jan
+    expect(result.periods).toEqual(['2023-01-08', '2023-01-15', '2023-01-22'])
+    const firstWeek = records.slice(4, 11).reduce((sum, record) => sum + record.transcriptCount, 0)
+    expect(result.observed[0]).toBe(firstWeek)
+
+    const mondayWeeks = decomposeVolume(records, 'weekly', undefined, { ...calendar, weekStart: 1 })
+    expect(mondayWeeks.periods).toEqual(['2023-01-09', '2023-01-16', '2023-01-23'])
+  })
+
+  it('should sum whole fiscal periods for week-based fiscal calendars', () => {
+    const calendar = { weekStart: 0, pattern: '4-4-5' as const, yearStartMonth: 1 }
+    const result = decomposeVolume(dailyRecords('Acme', 120), 'monthly', undefined, calendar)
+
+    // FY2023 starts on Sunday 1 Jan 2023; the fifth period, from 30 April, is cut off by the data
+    expect(result.periods).toEqual(['FY2023-P01', 'FY2023-P02', 'FY2023-P03', 'FY2023-P04'])
+    expect(result.observed[2]).toBe(dailyRecords('Acme', 91).slice(56).reduce((sum, record) => sum + record.transcriptCount, 0))
+  })
+
+  it('should decompose a single client or the aggregate', () => {
+    const data = [...dailyRecords('Acme', 60), ...dailyRecords('Globex', 60, 2)]
+
+    const acme = decomposeVolume(data, 'daily', 'acme')
+    const all = decomposeVolume(data, 'daily')
+
+    expect(acme.clientName).toBe('acme')
+    expect(all.clientName).toBeUndefined()
+    expect(all.observed[0]).toBe(acme.observed[0] * 3)
+  })
+
+  it('should report monthly seasonal effects by month name', () => {
+    const patterns = detectSeasonalPatterns(dailyRecords('Acme'))
+
+    expect(Object.keys(patterns)).toHaveLength(12)
+    expect(patterns.July).toBeGreaterThan(patterns.January)
+    expect(detectSeasonalPatterns(dailyRecords('Acme', 200))).toEqual({})
+  })
+
+  it('should report fiscal period seasonal effects by period', () => {
+    const calendar = { weekStart: 0, pattern: '4-4-5' as const, yearStartMonth: 1 }
+    const patterns = detectSeasonalPatterns(dailyRecords('Acme'), calendar)
+
+    expect(Object.keys(patterns).sort()).toEqual(
+      ['P01', 'P02', 'P03', 'P04', 'P05', 'P06', 'P07', 'P08', 'P09', 'P10', 'P11', 'P12']
+    )
+    expect(patterns.P07).toBeGreaterThan(patterns.P01)
+  })
+})
@@ -0,0 +1,123 @@
+import {
+  NDJSONStreamReader,
+  extractRecords,
+  flattenRecord,
+  parquetColumnTypes,
+  parseJSONRecords,
+  readParquet
+} from '../structured-parsers';
+
+jest.mock('hyparquet', () => ({
+  parquetMetadataAsync: jest.fn(async () => ({ num_rows: BigInt(2) })),
+  parquetSchema: jest.fn(() => ({
+    element: { name: 'schema' },
+    children: [
+      { element: { name: 'client', type: 'BYTE_ARRAY', converted_type: 'UTF8', logical_type: { type: 'STRING' } }, children: [] },
+      { element: { name: 'day', type: 'INT32', converted_type: 'DATE', logical_type: { type: 'DATE' } }, children: [] },
+      { element: { name: 'volume', type: 'INT64' }, children: [] }
+    ]
+  })),
+  parquetReadObjects: jest.fn(async () => [
+    { client: 'Acme', day: new Date(Date.UTC(2025, 0, 2)), volume: BigInt(120) },
+    { client: 'Globex', day: new Date(Date.UTC(2025, 0, 3)), volume: null }
+  ])
+}));
+
+describe('structured-parsers', () => {
+  it('should flatten nested records into dotted columns', () => {
+    expect(flattenRecord({
+      client: { name: 'Acme', region: { code: 'EU' } },
+      count: 12,
+      tags: ['chat', 'email'],
+      contacts: [{ name: 'Ann' }],
+      closed: false,
+      note: null,
+      big: BigInt('9007199254740993')
+    })).toEqual({
+      'client.name': 'Acme',
+      'client.region.code': 'EU',
+      count: 12,
+      tags: 'chat, email',
+      contacts: '[{"name":"Ann"}]',
+      closed: 'false',
+      note: '',
+      big: '9007199254740993'
+    });
+  });
+
+  it('should find records at the top level or wrapped in an object', () => {
+    expect(extractRecords([{ a: 1 }])).toEqual([{ a: 1 }]);
+    expect(extractRecords({ meta: { total: 1 }, data: [{ a: 1 }] })).toEqual([{ a: 1 }]);
+    expect(extractRecords({ export: { id: 1 }, clients: [{ a: 2 }] })).toEqual([{ a: 2 }]);
+    expect(extractRecords({ a: 3 })).toEqual([{ a: 3 }]);
+    expect(() => extractRecords([{ a: 1 }, 2])).toThrow('Record 2 is not an object');
+    expect(() => extractRecords('text')).toThrow('JSON must contain an object or an array of objects');
+  });
+
+  it('should collect the columns of every JSON record', () => {
+    const result = parseJSONRecords('[{"client":"Acme","count":1},{"client":"Globex","type":"chat"}]');
+
+    expect(result.headers).toEqual(['client', 'count', 'type']);
+    expect(result.data[1]).toEqual({ client: 'Globex', type: 'chat' });
+    expect(() => parseJSONRecords('[{"client":')).toThrow('Invalid JSON');
+  });
+
+  it('should read NDJSON across chunks and report bad lines by number', () => {
+    const reader = new NDJSONStreamReader();
+    const text = '{"client":"Acme","count":1}\r\n\n{"client":"Glo' + 'bex","count":2}\n[1,2]\n{oops}\n{"client":"Initech"}';
+
+    const first = reader.push(text.slice(0, 40));
+    const second = reader.push(text.slice(40));
+    const last = reader.end();
+
+    expect([...first.rows, ...second.rows, ...last.rows]).toEqual([
+      { client: 'Acme', count: 1 },
+      { client: 'Globex', count: 2 },
+      { client: 'Initech' }
+    ]);
+    expect([...first.errors, ...second.errors, ...last.errors].map(error => [error.line, error.message.split(':')[0]])).toEqual([
+      [4, 'Expected a JSON object'],
+      [5, 'Invalid JSON']
+    ]);
+  });
+
+  it('should type Parquet columns from the schema, flattening structs and keeping lists as text', () => {
+    expect(parquetColumnTypes({
+      element: { name: 'schema' },
+      children: [
+        {
+          element: { name: 'client' },
+          children: [
+            { element: { name: 'name', type: 'BYTE_ARRAY', converted_type: 'UTF8' }, children: [] },
+            { element: { name: 'since', type: 'INT64', logical_type: { type: 'TIMESTAMP' } }, children: [] }
+          ]
+        },
+        { element: { name: 'count', type: 'INT32', converted_type: 'INT_32' }, children: [] },
+        { element: { name: 'amount', type: 'FIXED_LEN_BYTE_ARRAY', logical_type: { type: 'DECIMAL' } }, children: [] },
+        {
+          element: { name: 'tags', logical_type: { type: 'LIST' } },
+          children: [{ element: { name: 'list' }, children: [] }]
+        }
+      ]
+    })).toEqual({
+      'client.name': 'text',
+      'client.since': 'date',
+      count: 'number',
+      amount: 'number',
+      tags: 'text'
+    });
+  });
+
+  it('should read Parquet rows with their schema types', async () => {
+    const file = new Blob([new Uint8Array(16)]);
+
+    const result = await readParquet(file);
+
+    expect(result.headers).toEqual(['client', 'day', 'volume']);
+    expect(result.columnTypes).toEqual({ client: 'text', day: 'date', volume: 'number' });
+    expect(result.data).toEqual([
+      { client: 'Acme', day: new Date(Date.UTC(2025, 0, 2)), volume: 120 },
+      { client: 'Globex', day: new Date(Date.UTC(2025, 0, 3)), volume: '' }
+    ]);
+  });
+});
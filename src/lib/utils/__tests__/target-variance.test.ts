@@ -0,0 +1,162 @@
+import type { AHTData } from '@/types/aht';
+import type { ClientTarget } from '@/types/target';
+import type { PredictionResult, TranscriptData } from '@/types/transcript';
+import type { TargetConfig } from '@/lib/config/targets';
+import type { FiscalCalendarConfig } from '@/lib/config/fiscal-calendar';
+import { compareWithTargets, isBreached, targetAppliesIn, varianceMonths } from '../target-variance';
+
+describe('target-variance', () => {
+  const config: TargetConfig = { lookbackMonths: 2, horizonMonths: 2, tolerancePercent: 0 };
+  const asOf = new Date(2025, 3, 15);
+
+  const target = (clientName: string, metric: ClientTarget['metric'], value: number, overrides: Partial<ClientTarget> = {}): ClientTarget => ({
+    id: `${clientName}-${metric}`,
+    clientId: `id-${clientName}`,
+    clientName,
+    metric,
+    value,
+    effectiveFrom: '2025-01',
+    effectiveTo: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  });
+
+  const record = (clientName: string, date: Date, transcriptCount: number): TranscriptData => ({
+    id: `${clientName}-${date.toISOString()}`,
+    clientId: `id-${clientName}`,
+    clientName,
+    date,
+    transcriptCount,
+    createdAt: date,
+    updatedAt: date,
+    createdBy: 'test'
+  });
+
+  const forecast = (clientName: string, counts: Record<number, number>): PredictionResult => ({
+    id: `pred-${clientName}`,
+    clientName,
+    predictionType: 'monthly',
+    predictions: Object.entries(counts).map(([month, predictedCount]) => ({
+      date: new Date(2025, Number(month), 1),
+      predictedCount,
+      confidenceInterval: { lower: predictedCount * 0.9, upper: predictedCount * 1.1 }
+    })),
+    confidence: 0.95,
+    accuracy: 90,
+    modelType: 'linear',
+    createdAt: new Date()
+  });
+
+  it('should compare completed months on actuals and later months on forecasts', () => {
+    expect(varianceMonths(asOf, config)).toEqual({
+      actual: ['2025-02', '2025-03'],
+      forecast: ['2025-04', '2025-05']
+    });
+  });
+
+  it('should apply targets within their effective months', () => {
+    const bounded = { effectiveFrom: '2025-02', effectiveTo: '2025-03' };
+    expect(targetAppliesIn(bounded, '2025-01')).toBe(false);
+    expect(targetAppliesIn(bounded, '2025-03')).toBe(true);
+    expect(targetAppliesIn(bounded, '2025-04')).toBe(false);
+    expect(targetAppliesIn({ effectiveFrom: '2025-02', effectiveTo: null }, '2030-01')).toBe(true);
+  });
+
+  it('should breach minimums from below and other targets from above, within tolerance', () => {
+    expect(isBreached('minimumVolume', 900, 1000, 0)).toBe(true);
+    expect(isBreached('minimumVolume', 1000, 1000, 0)).toBe(false);
+    expect(isBreached('minimumVolume', 960, 1000, 5)).toBe(false);
+    expect(isBreached('maximumVolume', 1100, 1000, 5)).toBe(true);
+    expect(isBreached('aht', 300, 300, 0)).toBe(false);
+  });
+
+  it('should report volume variances and predicted breaches', () => {
+    const report = compareWithTargets({
+      targets: [target('Acme', 'minimumVolume', 1000), target('Acme', 'maximumVolume', 2000, { effectiveTo: '2025-03' })],
+      transcripts: [
+        record('Acme', new Date(2025, 1, 10), 600),
+        record('Acme', new Date(2025, 1, 20), 500),
+        // Outside the lookback
+        record('Acme', new Date(2025, 0, 10), 10)
+      ],
+      forecasts: [forecast('acme', { 3: 820, 4: 1200 })],
+      ahtData: [],
+      turnaround: []
+    }, asOf, config);
+
+    expect(report.variances.map(v => [v.month, v.metric, v.kind, v.value, v.breached])).toEqual([
+      ['2025-02', 'maximumVolume', 'actual', 1100, false],
+      ['2025-02', 'minimumVolume', 'actual', 1100, false],
+      // No records in March is no volume
+      ['2025-03', 'maximumVolume', 'actual', 0, false],
+      ['2025-03', 'minimumVolume', 'actual', 0, true],
+      ['2025-04', 'minimumVolume', 'forecast', 820, true],
+      ['2025-05', 'minimumVolume', 'forecast', 1200, false]
+    ]);
+
+    expect(report.breaches).toHaveLength(2);
+    expect(report.breaches[1]).toMatchObject({ variance: -180, variancePercent: -18, missPercent: 18 });
+    expect(report.breaches[0].message).toBe('Acme missed its March 2025 minimum volume by 100%');
+    expect(report.breaches[1].message).toBe('Acme will miss its April 2025 minimum volume by 18%');
+    expect(report.slaMisses).toEqual({});
+  });
+
+  it('should split fiscal period forecasts between the calendar months they overlap', () => {
+    const retail: FiscalCalendarConfig = { weekStart: 0, pattern: '4-4-5', yearStartMonth: 1 };
+    // FY2026 P04 runs 5 April to 2 May, P05 3 to 30 May and P06 31 May to 4 July
+    const fiscal: PredictionResult = {
+      ...forecast('acme', {}),
+      predictions: [new Date(2026, 3, 5), new Date(2026, 4, 3), new Date(2026, 4, 31)].map((date, i) => ({
+        date,
+        predictedCount: [280, 280, 350][i],
+        confidenceInterval: { lower: 0, upper: 0 }
+      }))
+    };
+
+    const report = compareWithTargets({
+      targets: [target('Acme', 'minimumVolume', 305)],
+      transcripts: [],
+      forecasts: [fiscal],
+      ahtData: [],
+      turnaround: []
+    }, new Date(2026, 4, 15), config, retail);
+
+    expect(report.variances.filter(v => v.kind === 'forecast').map(v => [v.month, v.value, v.breached])).toEqual([
+      ['2026-05', 310, false],
+      ['2026-06', 300, true]
+    ]);
+  });
+
+  it('should check AHT and turnaround SLAs on actuals and count misses', () => {
+    const aht: AHTData = {
+      client: 'Globex',
+      overallAHT: 400,
+      reviewAHT: 300,
+      validationAHT: 100,
+      monthlyData: {},
+      monthlyAHT: { '2025_Feb': { reviewAHT: 250, validationAHT: 80 }, '2025_Mar': { reviewAHT: 200, validationAHT: 60 } },
+      grandTotal: 0
+    };
+
+    const report = compareWithTargets({
+      targets: [target('Globex', 'aht', 300), target('Globex', 'turnaround', 24), target('Initech', 'turnaround', 48)],
+      transcripts: [],
+      forecasts: [],
+      ahtData: [aht],
+      turnaround: [
+        { clientId: 'id-Globex', clientName: 'Globex', month: '2025-03', turnaroundHours: 30 },
+        { clientId: 'id-Initech', clientName: 'Initech', month: '2025-03', turnaroundHours: 12 }
+      ]
+    }, asOf, config);
+
+    expect(report.breaches.map(b => b.message)).toEqual([
+      'Globex exceeded its February 2025 AHT SLA by 10%',
+      'Globex exceeded its March 2025 turnaround SLA by 25%'
+    ]);
+    // No forecasts for SLA metrics, and months without measurements are skipped
+    expect(report.variances.every(v => v.kind === 'actual')).toBe(true);
+    expect(report.variances).toHaveLength(4);
+    expect(report.slaMisses).toEqual({ globex: 2, initech: 0 });
+  });
+});
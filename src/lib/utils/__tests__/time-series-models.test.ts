@@ -0,0 +1,265 @@
+import {
+  holtWinters,
+  fitArima,
+  autoArima,
+  difference,
+  normalQuantile,
+  intervalMultiplier,
+  kpssStatistic,
+  estimateDifferencingOrder,
+  seasonalStrength,
+  estimateSeasonalDifferencingOrder,
+  intermittentDemand,
+  zeroRatio
+} from '../time-series-models';
+
+// Deterministic pseudo-random noise so tests are repeatable
+function noise(count: number, amplitude: number, seed: number = 42): number[] {
+  let state = seed;
+  return Array.from({ length: count }, () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return ((state / 2147483648) - 0.5) * 2 * amplitude;
+  });
+}
+
+const weeklyPattern = [1.3, 1.2, 1.1, 1.0, 0.9, 0.6, 0.5];
+
+function seasonalSeries(length: number, mode: 'additive' | 'multiplicative'): number[] {
+  const jitter = noise(length, 2);
+  return Array.from({ length }, (_, t) => {
+    const level = 100 + t * 0.5;
+    const factor = weeklyPattern[t % 7];
+    return mode === 'multiplicative'
+      ? level * factor + jitter[t]
+      : level + (factor - 1) * 50 + jitter[t];
+  });
+}
+
+describe('time-series-models', () => {
+  describe('holtWinters', () => {
+    it('should capture additive weekly seasonality', () => {
+      const values = seasonalSeries(70, 'additive');
+      const result = holtWinters(values, 7, { seasonLength: 7, seasonality: 'additive' });
+
+      expect(result.forecast).toHaveLength(7);
+      expect(result.fitted).toHaveLength(values.length - 7);
+      expect(result.residuals).toHaveLength(result.fitted.length);
+
+      // Forecast should follow the weekly shape: Monday-like peak above weekend trough
+      const expected = Array.from({ length: 7 }, (_, i) => {
+        const t = 70 + i;
+        return 100 + t * 0.5 + (weeklyPattern[t % 7] - 1) * 50;
+      });
+      result.forecast.forEach((value, i) => {
+        expect(Math.abs(value - expected[i])).toBeLessThan(10);
+      });
+    });
+
+    it('should capture multiplicative weekly seasonality', () => {
+      const values = seasonalSeries(84, 'multiplicative');
+      const result = holtWinters(values, 14, { seasonLength: 7, seasonality: 'multiplicative' });
+
+      expect(result.forecast).toHaveLength(14);
+      expect(result.seasonals).toHaveLength(7);
+      result.forecast.forEach((value, i) => {
+        const t = 84 + i;
+        const expected = (100 + t * 0.5) * weeklyPattern[t % 7];
+        expect(Math.abs(value - expected) / expected).toBeLessThan(0.1);
+      });
+    });
+
+    it('should keep smoothing parameters within (0, 1)', () => {
+      const result = holtWinters(seasonalSeries(56, 'additive'), 1, { seasonLength: 7, seasonality: 'additive' });
+
+      [result.params.alpha, result.params.beta, result.params.gamma].forEach(param => {
+        expect(param).toBeGreaterThan(0);
+        expect(param).toBeLessThan(1);
+      });
+    });
+
+    it('should widen forecast standard errors with the horizon', () => {
+      const additive = holtWinters(seasonalSeries(70, 'additive'), 14, { seasonLength: 7, seasonality: 'additive' });
+
+      expect(additive.standardErrors).toHaveLength(14);
+      expect(additive.standardErrors[0]).toBeCloseTo(Math.sqrt(additive.sigma2), 6);
+      for (let i = 1; i < additive.standardErrors.length; i++) {
+        expect(additive.standardErrors[i]).toBeGreaterThanOrEqual(additive.standardErrors[i - 1]);
+      }
+    });
+
+    it('should use supplied parameters without optimisation', () => {
+      const params = { alpha: 0.2, beta: 0.1, gamma: 0.3 };
+      const result = holtWinters(seasonalSeries(28, 'additive'), 3, { seasonLength: 7, seasonality: 'additive', params });
+
+      expect(result.params).toEqual(params);
+    });
+
+    it('should require two full seasons of data', () => {
+      expect(() => holtWinters([1, 2, 3, 4, 5, 6, 7, 8], 1, { seasonLength: 7, seasonality: 'additive' }))
+        .toThrow('Insufficient data for Holt-Winters model');
+    });
+
+    it('should reject non-positive values for multiplicative seasonality', () => {
+      const values = seasonalSeries(28, 'additive');
+      values[3] = 0;
+
+      expect(() => holtWinters(values, 1, { seasonLength: 7, seasonality: 'multiplicative' }))
+        .toThrow('Multiplicative Holt-Winters requires strictly positive values');
+    });
+  });
+
+  describe('normalQuantile', () => {
+    it('should match standard normal quantiles', () => {
+      expect(normalQuantile(0.5)).toBeCloseTo(0, 6);
+      expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 4);
+      expect(normalQuantile(0.005)).toBeCloseTo(-2.575829, 4);
+    });
+
+    it('should convert confidence levels to interval multipliers', () => {
+      expect(intervalMultiplier(0.8)).toBeCloseTo(1.2816, 3);
+      expect(intervalMultiplier(0.9)).toBeCloseTo(1.6449, 3);
+      expect(intervalMultiplier(0.95)).toBeCloseTo(1.96, 2);
+      expect(intervalMultiplier(0.99)).toBeCloseTo(2.5758, 3);
+    });
+
+    it('should reject probabilities outside (0, 1)', () => {
+      expect(() => normalQuantile(1)).toThrow('Probability must be between 0 and 1');
+    });
+  });
+
+  describe('differencing tests', () => {
+    it('should difference at a lag', () => {
+      expect(difference([1, 4, 9, 16])).toEqual([3, 5, 7]);
+      expect(difference([1, 2, 3, 5, 7, 9], 3)).toEqual([4, 5, 6]);
+    });
+
+    it('should flag a random walk as non-stationary', () => {
+      const steps = noise(200, 5);
+      const walk = steps.reduce<number[]>((acc, step) => [...acc, (acc[acc.length - 1] ?? 0) + step + 1], []);
+
+      expect(kpssStatistic(walk)).toBeGreaterThan(0.463);
+      expect(estimateDifferencingOrder(walk)).toBeGreaterThanOrEqual(1);
+    });
+
+    it('should not difference white noise', () => {
+      expect(estimateDifferencingOrder(noise(200, 5).map(v => v + 50))).toBe(0);
+    });
+
+    it('should detect strong seasonality', () => {
+      const values = seasonalSeries(70, 'additive');
+
+      expect(seasonalStrength(values, 7)).toBeGreaterThan(0.64);
+      expect(estimateSeasonalDifferencingOrder(values, 7)).toBe(1);
+      expect(estimateSeasonalDifferencingOrder(noise(70, 5), 7)).toBe(0);
+    });
+  });
+
+  describe('fitArima', () => {
+    it('should recover an AR(1) coefficient', () => {
+      const shocks = noise(400, 1, 7);
+      const values: number[] = [0];
+      for (let t = 1; t < shocks.length; t++) {
+        values.push(0.7 * values[t - 1] + shocks[t]);
+      }
+
+      const result = fitArima(values, 5, { p: 1, d: 0, q: 0 });
+
+      expect(result.ar[0]).toBeGreaterThan(0.6);
+      expect(result.ar[0]).toBeLessThan(0.8);
+      expect(result.forecast).toHaveLength(5);
+      expect(result.fitted).toHaveLength(result.residuals.length);
+    });
+
+    it('should keep estimated AR coefficients stationary', () => {
+      const values = seasonalSeries(60, 'additive');
+      const result = fitArima(values, 1, { p: 2, d: 1, q: 0 });
+
+      expect(Math.abs(result.ar[1])).toBeLessThan(1);
+      expect(Math.abs(result.ar[0])).toBeLessThan(1 - result.ar[1]);
+    });
+
+    it('should continue a trend after first differencing with drift', () => {
+      const values = Array.from({ length: 30 }, (_, t) => 10 + 3 * t);
+      const result = fitArima(values, 3, { p: 0, d: 1, q: 0 });
+
+      expect(result.forecast[0]).toBeCloseTo(100, 1);
+      expect(result.forecast[2]).toBeCloseTo(106, 1);
+    });
+
+    it('should grow random-walk standard errors with the square root of the horizon', () => {
+      const values = Array.from({ length: 50 }, (_, t) => 100 + (t % 2 === 0 ? 2 : -2) + t);
+      const result = fitArima(values, 4, { p: 0, d: 1, q: 0 });
+      const sigma = Math.sqrt(result.sigma2);
+
+      result.standardErrors.forEach((se, i) => {
+        expect(se).toBeCloseTo(sigma * Math.sqrt(i + 1), 6);
+      });
+    });
+
+    it('should reject series that are too short for the order', () => {
+      expect(() => fitArima([1, 2, 3], 1, { p: 1, d: 0, q: 1 }))
+        .toThrow('Insufficient data for ARIMA model');
+    });
+  });
+
+  describe('autoArima', () => {
+    it('should choose seasonal differencing for seasonal data', () => {
+      const values = seasonalSeries(84, 'additive');
+      const result = autoArima(values, 7, { period: 7 });
+
+      expect(result.seasonalOrder.D).toBe(1);
+      expect(result.seasonalOrder.period).toBe(7);
+      result.forecast.forEach((value, i) => {
+        const t = 84 + i;
+        const expected = 100 + t * 0.5 + (weeklyPattern[t % 7] - 1) * 50;
+        expect(Math.abs(value - expected)).toBeLessThan(12);
+      });
+    });
+
+    it('should drop seasonal terms when there is too little data', () => {
+      const result = autoArima([10, 12, 15, 18, 20, 22, 25, 27], 2, { period: 12 });
+
+      expect(result.seasonalOrder).toEqual({ P: 0, D: 0, Q: 0, period: 1 });
+      expect(result.forecast).toHaveLength(2);
+    });
+
+    it('should throw for very short series', () => {
+      expect(() => autoArima([1, 2], 1)).toThrow('Insufficient data for ARIMA model');
+    });
+  });
+
+  describe('intermittentDemand', () => {
+    // A demand of about 30 every third period
+    const sparse = [0, 0, 30, 0, 0, 28, 0, 0, 32, 0, 0, 30, 0, 0, 29, 0, 0, 31];
+
+    it('should measure the share of zero periods', () => {
+      expect(zeroRatio(sparse)).toBeCloseTo(2 / 3);
+      expect(zeroRatio([])).toBe(0);
+    });
+
+    it('should forecast the mean demand per period with Croston', () => {
+      const result = intermittentDemand(sparse, 3, { method: 'croston' });
+
+      expect(result.demandSize).toBeCloseTo(30, 0);
+      expect(result.demandProbability).toBeCloseTo(1 / 3, 1);
+      expect(result.forecast).toHaveLength(3);
+      result.forecast.forEach(value => expect(value).toBeCloseTo(10, 0));
+      expect(result.standardErrors[2]).toBeGreaterThanOrEqual(result.standardErrors[0]);
+    });
+
+    it('should decay the TSB forecast through a run of zeros', () => {
+      const obsolete = [...sparse, 0, 0, 0, 0, 0, 0, 0, 0];
+      const tsb = intermittentDemand(obsolete, 1, { method: 'tsb', alpha: 0.1, beta: 0.2 });
+      const croston = intermittentDemand(obsolete, 1, { method: 'croston', alpha: 0.1 });
+
+      expect(tsb.forecast[0]).toBeLessThan(croston.forecast[0]);
+      expect(tsb.forecast[0]).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should need at least two periods with demand', () => {
+      expect(() => intermittentDemand([0, 0, 5, 0], 1, { method: 'croston' }))
+        .toThrow('need at least 2 periods with demand');
+      expect(() => intermittentDemand([1, -1, 2], 1, { method: 'tsb' })).toThrow('non-negative');
+    });
+  });
+});
@@ -0,0 +1,327 @@
+import type { AHTData, MonthlyAHT } from '@/types/aht'
+import type { ImportResult } from '@/types/transcript'
+
+/**
+ * Parsing for the AHT spreadsheet layouts. The wide layout has one row per
+ * client with its overall, review and validation AHT, then one volume column
+ * per month and a Grand Total. The monthly layout has one row per client and
+ * month with that month's AHT and volume. Months are keyed as "2024_Jun"
+ * throughout, matching AHTData.monthlyData.
+ */
+
+type AHTImportError = ImportResult['errors'][number]
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+function monthIndex(name: string): number {
+  return MONTH_NAMES.findIndex(month => month.toLowerCase() === name.slice(0, 3).toLowerCase())
+}
+
+function toMonthKey(year: number, month: number): string {
+  return `${year}_${MONTH_NAMES[month]}`
+}
+
+/**
+ * Month key for a spreadsheet column header, or null if the column is not a
+ * month. Accepts "2024_Jun", "Jun 2024", "June-2024", "Jun-24" and "2024-06".
+ */
+export function parseAHTMonthHeader(header: string): string | null {
+  const trimmed = header.trim()
+
+  const yearFirst = trimmed.match(/^(\d{4})[_\s-]([A-Za-z]{3,9})$/)
+  if (yearFirst && monthIndex(yearFirst[2]) >= 0) {
+    return toMonthKey(Number(yearFirst[1]), monthIndex(yearFirst[2]))
+  }
+
+  const monthFirst = trimmed.match(/^([A-Za-z]{3,9})[_\s-](\d{2}|\d{4})$/)
+  if (monthFirst && monthIndex(monthFirst[1]) >= 0) {
+    const year = monthFirst[2].length === 2 ? 2000 + Number(monthFirst[2]) : Number(monthFirst[2])
+    return toMonthKey(year, monthIndex(monthFirst[1]))
+  }
+
+  const numeric = trimmed.match(/^(\d{4})-(\d{2})$/)
+  if (numeric && Number(numeric[2]) >= 1 && Number(numeric[2]) <= 12) {
+    return toMonthKey(Number(numeric[1]), Number(numeric[2]) - 1)
+  }
+
+  return null
+}
+
+/**
+ * First day of the month for a month key, as an ISO date ("2024-06-01")
+ */
+export function ahtMonthKeyToDate(key: string): string {
+  const [year, name] = key.split('_')
+  return `${year}-${String(monthIndex(name) + 1).padStart(2, '0')}-01`
+}
+
+/**
+ * Month key for an ISO year-month ("2024-06")
+ */
+export function ahtMonthKeyFromYearMonth(yearMonth: string): string {
+  const [year, month] = yearMonth.split('-').map(Number)
+  return toMonthKey(year, month - 1)
+}
+
+/**
+ * Month key for the month a date falls in
+ */
+export function ahtMonthKeyFromDate(date: Date): string {
+  return toMonthKey(date.getFullYear(), date.getMonth())
+}
+
+/**
+ * Display name for a month key ("2024_Jun" becomes "Jun 2024")
+ */
+export function formatAHTMonth(key: string): string {
+  const [year, name] = key.split('_')
+  return `${name} ${year}`
+}
+
+/**
+ * Sort month keys oldest first
+ */
+export function sortAHTMonths(keys: string[]): string[] {
+  const order = (key: string) => Number(key.split('_')[0]) * 12 + monthIndex(key.split('_')[1])
+  return [...keys].sort((a, b) => order(a) - order(b))
+}
+
+function parseAmount(value: unknown): number | null {
+  if (value === undefined || value === null || String(value).trim() === '') {
+    return 0
+  }
+
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value).replace(/[,\s]/g, ''))
+  return isNaN(parsed) || parsed < 0 ? null : parsed
+}
+
+/**
+ * Month key for a month cell in the monthly layout: a month header format or a date
+ */
+export function parseAHTMonthValue(value: unknown): string | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : toMonthKey(value.getFullYear(), value.getMonth())
+  }
+
+  const text = String(value ?? '').trim()
+  const key = parseAHTMonthHeader(text)
+  if (key) return key
+
+  const date = /^\d{4}-\d{2}-\d{2}/.test(text) ? new Date(`${text.slice(0, 10)}T00:00:00`) : new Date(NaN)
+  return isNaN(date.getTime()) ? null : toMonthKey(date.getFullYear(), date.getMonth())
+}
+
+/**
+ * Transform spreadsheet rows into AHT records using the column mapping for the
+ * client and AHT fields. With a Month column mapped, rows are read in the
+ * monthly layout; otherwise month columns are detected from the headers and
+ * Grand Total is recomputed from them rather than trusted. Rows for a client
+ * (or, in the monthly layout, a client and month) that appears more than once
+ * are rejected.
+ */
+export function transformRawDataToAHT(
+  rawData: Record<string, unknown>[],
+  columnMapping: Record<string, string>
+): {
+  validData: AHTData[]
+  errors: AHTImportError[]
+} {
+  if (columnMapping.month) {
+    return transformMonthlyRows(rawData, columnMapping)
+  }
+
+  const validData: AHTData[] = []
+  const errors: AHTImportError[] = []
+
+  const headers = rawData.length > 0 ? Object.keys(rawData[0]) : []
+  const monthColumns = headers
+    .map(header => ({ header, key: parseAHTMonthHeader(header) }))
+    .filter((column): column is { header: string; key: string } => column.key !== null)
+
+  if (rawData.length > 0 && monthColumns.length === 0) {
+    errors.push({
+      row: 0,
+      field: 'general',
+      value: headers.join(', '),
+      message: 'No month columns found. Expected headers such as "2024_Jun" or "Jun 2024".'
+    })
+    return { validData, errors }
+  }
+
+  const seen = new Set<string>()
+
+  rawData.forEach((row, index) => {
+    const rowIndex = index + 1
+    const client = String(row[columnMapping.client] ?? '').trim()
+
+    if (!client) {
+      errors.push({ row: rowIndex, field: 'client', value: row[columnMapping.client], message: 'Client is required' })
+      return
+    }
+
+    // Spreadsheet footers such as "Grand Total" are not clients
+    if (/^(grand\s*)?total$/i.test(client)) {
+      return
+    }
+
+    if (seen.has(client.toLowerCase())) {
+      errors.push({ row: rowIndex, field: 'client', value: client, message: `Duplicate client: ${client}` })
+      return
+    }
+
+    const aht: Record<'overallAHT' | 'reviewAHT' | 'validationAHT', number> = {
+      overallAHT: 0,
+      reviewAHT: 0,
+      validationAHT: 0
+    }
+    let rowValid = true
+
+    for (const field of ['reviewAHT', 'validationAHT', 'overallAHT'] as const) {
+      if (!columnMapping[field]) continue
+      const parsed = parseAmount(row[columnMapping[field]])
+      if (parsed === null) {
+        errors.push({ row: rowIndex, field, value: row[columnMapping[field]], message: `Invalid AHT value for ${client}` })
+        rowValid = false
+      } else {
+        aht[field] = parsed
+      }
+    }
+
+    // Overall AHT falls back to review plus validation when the column is absent
+    if (!columnMapping.overallAHT) {
+      aht.overallAHT = aht.reviewAHT + aht.validationAHT
+    }
+
+    const monthlyData: AHTData['monthlyData'] = {}
+    monthColumns.forEach(({ header, key }) => {
+      const parsed = parseAmount(row[header])
+      if (parsed === null) {
+        errors.push({ row: rowIndex, field: header, value: row[header], message: `Invalid volume for ${client} in ${formatAHTMonth(key)}` })
+        rowValid = false
+      } else {
+        monthlyData[key] = Math.round(parsed)
+      }
+    })
+
+    if (!rowValid) return
+
+    seen.add(client.toLowerCase())
+    validData.push({
+      client,
+      ...aht,
+      monthlyData,
+      grandTotal: Object.values(monthlyData).reduce((sum, volume) => sum + volume, 0)
+    })
+  })
+
+  return { validData, errors }
+}
+
+/**
+ * Monthly layout: one row per client and month. A client's overall, review and
+ * validation AHT are the volume-weighted averages over its months.
+ */
+function transformMonthlyRows(
+  rawData: Record<string, unknown>[],
+  columnMapping: Record<string, string>
+): {
+  validData: AHTData[]
+  errors: AHTImportError[]
+} {
+  const errors: AHTImportError[] = []
+  const clients = new Map<string, AHTData & { weights: { overall: number; review: number; validation: number; volume: number } }>()
+
+  rawData.forEach((row, index) => {
+    const rowIndex = index + 1
+    const client = String(row[columnMapping.client] ?? '').trim()
+
+    if (!client) {
+      errors.push({ row: rowIndex, field: 'client', value: row[columnMapping.client], message: 'Client is required' })
+      return
+    }
+
+    if (/^(grand\s*)?total$/i.test(client)) {
+      return
+    }
+
+    const month = parseAHTMonthValue(row[columnMapping.month])
+    if (!month) {
+      errors.push({ row: rowIndex, field: 'month', value: row[columnMapping.month], message: `Invalid month for ${client}` })
+      return
+    }
+
+    const values: Record<'reviewAHT' | 'validationAHT' | 'overallAHT' | 'volume', number | null> = {
+      reviewAHT: null,
+      validationAHT: null,
+      overallAHT: null,
+      volume: null
+    }
+    let rowValid = true
+
+    for (const field of ['reviewAHT', 'validationAHT', 'overallAHT', 'volume'] as const) {
+      if (!columnMapping[field]) continue
+      const parsed = parseAmount(row[columnMapping[field]])
+      if (parsed === null) {
+        errors.push({ row: rowIndex, field, value: row[columnMapping[field]], message: `Invalid ${field === 'volume' ? 'volume' : 'AHT value'} for ${client} in ${formatAHTMonth(month)}` })
+        rowValid = false
+      } else {
+        values[field] = parsed
+      }
+    }
+
+    if (!rowValid) return
+
+    const key = client.toLowerCase()
+    const record = clients.get(key) ?? {
+      client,
+      overallAHT: 0,
+      reviewAHT: 0,
+      validationAHT: 0,
+      monthlyData: {},
+      monthlyAHT: {},
+      grandTotal: 0,
+      weights: { overall: 0, review: 0, validation: 0, volume: 0 }
+    }
+
+    if (record.monthlyAHT![month]) {
+      errors.push({ row: rowIndex, field: 'month', value: row[columnMapping.month], message: `Duplicate month for ${client}: ${formatAHTMonth(month)}` })
+      return
+    }
+
+    const reviewAHT = values.reviewAHT ?? 0
+    const validationAHT = values.validationAHT ?? 0
+    const overallAHT = values.overallAHT ?? reviewAHT + validationAHT
+    const volume = values.volume === null ? null : Math.round(values.volume)
+
+    record.monthlyAHT![month] = { reviewAHT, validationAHT }
+    if (volume !== null) {
+      record.monthlyData[month] = volume
+      record.grandTotal += volume
+    }
+
+    // Weight by volume where it is known, so quiet months count for less
+    const weight = volume ?? 1
+    record.weights.overall += overallAHT * weight
+    record.weights.review += reviewAHT * weight
+    record.weights.validation += validationAHT * weight
+    record.weights.volume += weight
+
+    clients.set(key, record)
+  })
+
+  const round = (value: number) => Math.round(value * 100) / 100
+  const validData: AHTData[] = Array.from(clients.values()).map(({ weights, ...record }) => {
+    // Months without any volume fall back to a plain average
+    const months = Object.values(record.monthlyAHT!)
+    const average = (field: keyof MonthlyAHT) => months.reduce((sum, month) => sum + month[field], 0) / months.length
+
+    return {
+      ...record,
+      overallAHT: round(weights.volume > 0 ? weights.overall / weights.volume : average('reviewAHT') + average('validationAHT')),
+      reviewAHT: round(weights.volume > 0 ? weights.review / weights.volume : average('reviewAHT')),
+      validationAHT: round(weights.volume > 0 ? weights.validation / weights.volume : average('validationAHT'))
+    }
+  })
+
+  return { validData, errors }
+}
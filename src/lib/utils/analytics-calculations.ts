@@ -4,6 +4,9 @@
  */
 
 import { TranscriptData } from '@/types/transcript';
+import { decomposeVolume } from '@/lib/utils/seasonal-decomposition';
+import { periodKey } from '@/lib/utils/fiscal-calendar';
+import { FiscalCalendarConfig, getFiscalCalendarConfig } from '@/lib/config/fiscal-calendar';
 
 export interface TrendData {
   month: string;
@@ -59,11 +62,15 @@ export function calculateTrends(data: TranscriptData[]): TrendData[] {
 }
 
 /**
- * Aggregate transcript data by month
+ * Aggregate transcript data by month of the fiscal calendar, keyed by
+ * YYYY-MM for calendar months and e.g. FY2025-P03 for fiscal periods
  */
-export function aggregateByMonth(data: TranscriptData[]): Record<string, number> {
+export function aggregateByMonth(
+  data: TranscriptData[],
+  calendar: FiscalCalendarConfig = getFiscalCalendarConfig()
+): Record<string, number> {
   return data.reduce((acc, item) => {
-    const monthKey = `${item.year}-${String(item.month).padStart(2, '0')}`;
+    const monthKey = periodKey(item.date, 'monthly', calendar);
     acc[monthKey] = (acc[monthKey] || 0) + item.transcriptCount;
     return acc;
   }, {} as Record<string, number>);
@@ -232,27 +239,34 @@ export function calculateMovingAverage(data: TranscriptData[], windowSize: numbe
 }
 
 /**
- * Detect seasonal patterns
+ * Average time-of-year effect per month name, or per fiscal period such as
+ * P03 under a 4-4-5 style calendar, taken from the yearly component of the
+ * monthly volume decomposition. Empty until there are two years of data.
  */
-export function detectSeasonalPatterns(data: TranscriptData[]): Record<string, number> {
-  const monthlyAverages: Record<string, number[]> = {};
-  
-  data.forEach(item => {
-    const monthNumber = parseInt(item.month.split('-')[1]) - 1; // Extract month from "YYYY-MM" format
-    const monthName = new Date(item.year, monthNumber).toLocaleString('default', { month: 'long' });
-    if (!monthlyAverages[monthName]) {
-      monthlyAverages[monthName] = [];
-    }
-    monthlyAverages[monthName].push(item.transcriptCount);
+export function detectSeasonalPatterns(
+  data: TranscriptData[],
+  calendar: FiscalCalendarConfig = getFiscalCalendarConfig()
+): Record<string, number> {
+  const { periods, yearly } = decomposeVolume(data, 'monthly', undefined, calendar);
+  if (!yearly) return {};
+
+  const effects: Record<string, number[]> = {};
+  periods.forEach((period, index) => {
+    // YYYY-MM, or FY2025-P03 for fiscal periods
+    const [year, month] = period.split('-');
+    const label = calendar.pattern === 'calendar'
+      ? new Date(Number(year), Number(month) - 1).toLocaleString('default', { month: 'long' })
+      : month;
+    effects[label] = [...(effects[label] || []), yearly[index]];
   });
-  
+
   const seasonalPattern: Record<string, number> = {};
-  
-  Object.keys(monthlyAverages).forEach(month => {
-    const counts = monthlyAverages[month];
-    seasonalPattern[month] = counts.reduce((sum, count) => sum + count, 0) / counts.length;
+
+  Object.keys(effects).forEach(month => {
+    const values = effects[month];
+    seasonalPattern[month] = values.reduce((sum, value) => sum + value, 0) / values.length;
   });
-  
+
   return seasonalPattern;
 }
 
@@ -0,0 +1,278 @@
+import type { CalendarEventType } from '@/types/calendar';
+import type { AnomalyGranularity, AnomalySeverity, VolumeAnomaly } from '@/types/anomaly';
+import type { TranscriptData } from '@/types/transcript';
+import type { AnomalyDetectionConfig } from '@/lib/config/anomaly-detection';
+import type { ForecastEvent } from '@/lib/utils/event-regressors';
+import { calendarMonthKey } from '@/lib/utils/fiscal-calendar';
+import { round } from '@/lib/utils/numbers';
+
+/**
+ * Volume anomaly detection. Each client's daily and monthly transcript counts
+ * are split into trend, seasonal and residual parts; residuals are scored
+ * with robust (median/MAD) z-scores so the anomalies being looked for do not
+ * inflate the spread they are measured against.
+ */
+
+export type AnomalyEvent = ForecastEvent & { name: string };
+
+export interface VolumeSeries {
+  periods: Date[];
+  values: number[];
+}
+
+export interface Decomposition {
+  trend: number[];
+  seasonal: number[];
+  residual: number[];
+}
+
+export const SEASONAL_PERIODS: Record<AnomalyGranularity, number> = {
+  daily: 7,
+  monthly: 12
+};
+
+// Shortest series scored; below this a normal spread cannot be estimated
+export const MIN_ANOMALY_PERIODS: Record<AnomalyGranularity, number> = {
+  daily: 28,
+  monthly: 12
+};
+
+const EVENT_LABELS: Record<CalendarEventType, string> = {
+  holiday: 'holiday',
+  client_event: 'client event',
+  outage: 'outage'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days a month may be short of its end and still be treated as complete
+const MONTH_END_GRACE_DAYS = 3;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// Local calendar day number, so DATE columns and local period dates line up
+function dayNumber(date: Date | string): number {
+  const d = new Date(date);
+  return Math.round(Date.UTC(d.getFullYear(), d.getMonth(), d.getDate()) / DAY_MS);
+}
+
+function daysInMonth(date: Date): number {
+  return new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+}
+
+export function anomalyPeriodKey(date: Date | string, granularity: AnomalyGranularity): string {
+  const month = calendarMonthKey(date);
+  return granularity === 'monthly' ? month : `${month}-${String(new Date(date).getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Transcript counts per day or month for one client, from its first to its
+ * last record. Periods without records count as zero. For monthly series a
+ * first or last month the records only partly cover is left out, so an
+ * import that starts or stops mid-month does not look like a drop.
+ */
+export function volumeSeries(
+  records: Pick<TranscriptData, 'date' | 'transcriptCount'>[],
+  granularity: AnomalyGranularity
+): VolumeSeries {
+  if (records.length === 0) {
+    return { periods: [], values: [] };
+  }
+
+  const totals = new Map<string, number>();
+  records.forEach(record => {
+    const key = anomalyPeriodKey(record.date, granularity);
+    totals.set(key, (totals.get(key) || 0) + record.transcriptCount);
+  });
+
+  const dates = records.map(record => new Date(record.date));
+  const first = new Date(Math.min(...dates.map(date => date.getTime())));
+  const last = new Date(Math.max(...dates.map(date => date.getTime())));
+
+  const periods: Date[] = [];
+  if (granularity === 'daily') {
+    for (let day = new Date(first.getFullYear(), first.getMonth(), first.getDate()); day <= last;
+      day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)) {
+      periods.push(day);
+    }
+  } else {
+    let month = new Date(first.getFullYear(), first.getMonth(), 1);
+    if (first.getDate() > 1 + MONTH_END_GRACE_DAYS) {
+      month = new Date(month.getFullYear(), month.getMonth() + 1, 1);
+    }
+    const lastComplete = last.getDate() >= daysInMonth(last) - MONTH_END_GRACE_DAYS
+      ? new Date(last.getFullYear(), last.getMonth(), 1)
+      : new Date(last.getFullYear(), last.getMonth() - 1, 1);
+
+    for (; month <= lastComplete; month = new Date(month.getFullYear(), month.getMonth() + 1, 1)) {
+      periods.push(month);
+    }
+  }
+
+  return {
+    periods,
+    values: periods.map(period => totals.get(anomalyPeriodKey(period, granularity)) || 0)
+  };
+}
+
+/**
+ * Robust seasonal decomposition. The trend is a moving median over one
+ * season (shifted inward at the ends so every window is full), and the
+ * seasonal part is the median detrended value at each position in the
+ * season. Series shorter than two seasons get no seasonal part.
+ */
+export function decomposeSeries(values: number[], period: number): Decomposition {
+  const n = values.length;
+  const window = Math.min(n, period % 2 === 0 ? period + 1 : period);
+  const half = Math.floor(window / 2);
+
+  const trend = values.map((_, i) => {
+    const start = Math.max(0, Math.min(i - half, n - window));
+    return median(values.slice(start, start + window));
+  });
+
+  const detrended = values.map((value, i) => value - trend[i]);
+  let seasonal = values.map(() => 0);
+
+  if (n >= period * 2) {
+    const profile = Array.from({ length: period }, (_, position) =>
+      median(detrended.filter((_, i) => i % period === position))
+    );
+    seasonal = values.map((_, i) => profile[i % period]);
+  }
+
+  return {
+    trend,
+    seasonal,
+    residual: values.map((value, i) => value - trend[i] - seasonal[i])
+  };
+}
+
+/**
+ * Robust z-scores: distance from the median in units of the median absolute
+ * deviation, scaled to match a standard deviation for normal data. Falls back
+ * to the mean absolute deviation when more than half the values are equal.
+ */
+export function robustZScores(values: number[]): number[] {
+  const center = median(values);
+  const deviations = values.map(value => Math.abs(value - center));
+  const mad = median(deviations);
+
+  if (mad > 0) {
+    return values.map(value => (0.6745 * (value - center)) / mad);
+  }
+
+  const meanDeviation = deviations.reduce((sum, deviation) => sum + deviation, 0) / (values.length || 1);
+  if (meanDeviation === 0) {
+    return values.map(() => 0);
+  }
+
+  return values.map(value => (value - center) / (1.2533 * meanDeviation));
+}
+
+export function anomalySeverity(
+  zScore: number,
+  config: Pick<AnomalyDetectionConfig, 'zThreshold' | 'mediumZ' | 'highZ' | 'criticalZ'>
+): AnomalySeverity | null {
+  const magnitude = Math.abs(zScore);
+  if (magnitude >= config.criticalZ) return 'critical';
+  if (magnitude >= config.highZ) return 'high';
+  if (magnitude >= config.mediumZ) return 'medium';
+  if (magnitude >= config.zThreshold) return 'low';
+  return null;
+}
+
+/**
+ * Anomalous periods in one client's records. Hints that follow from the
+ * series itself (zero volume, weekends, a change that persists) are filled
+ * in; those that need other clients or the calendar come from annotateAnomalies.
+ */
+export function detectVolumeAnomalies(
+  records: TranscriptData[],
+  granularity: AnomalyGranularity,
+  config: Pick<AnomalyDetectionConfig, 'zThreshold' | 'mediumZ' | 'highZ' | 'criticalZ'>
+): VolumeAnomaly[] {
+  const { periods, values } = volumeSeries(records, granularity);
+  if (values.length < MIN_ANOMALY_PERIODS[granularity]) {
+    return [];
+  }
+
+  // Clients reporting weekly or in batches have mostly empty days, so every reporting day would look like a spike
+  if (granularity === 'daily' && values.filter(value => value === 0).length > values.length / 2) {
+    return [];
+  }
+
+  const { trend, seasonal, residual } = decomposeSeries(values, SEASONAL_PERIODS[granularity]);
+  const zScores = robustZScores(residual);
+
+  return periods.flatMap((periodStart, i) => {
+    const severity = anomalySeverity(zScores[i], config);
+    if (!severity) return [];
+
+    const direction = zScores[i] > 0 ? 'spike' : 'drop';
+    const expectedCount = Math.max(0, Math.round(trend[i] + seasonal[i]));
+    const hints: string[] = [];
+
+    if (values[i] === 0 && expectedCount > 0) {
+      hints.push('No transcripts were recorded; the data for this period may not have been imported');
+    }
+    if (granularity === 'daily' && (periodStart.getDay() === 0 || periodStart.getDay() === 6)) {
+      hints.push('Falls on a weekend');
+    }
+
+    const following = zScores.slice(i + 1, i + 3);
+    if (following.length === 2 && following.every(z => Math.sign(z) === Math.sign(zScores[i]) &&
+      Math.abs(z) >= config.zThreshold / 2)) {
+      hints.push(`Volume stayed ${direction === 'spike' ? 'above' : 'below'} expected in the following periods; this may be a lasting change rather than a one-off`);
+    }
+
+    return [{
+      clientId: records[0].clientId,
+      clientName: records[0].clientName,
+      granularity,
+      periodStart,
+      actualCount: values[i],
+      expectedCount,
+      zScore: round(zScores[i], 2),
+      severity,
+      direction,
+      hints
+    }];
+  });
+}
+
+/**
+ * Add hints that look beyond one client: calendar events overlapping the
+ * period, and other clients with an anomaly in the same direction at the
+ * same time, which points to a shared cause such as an outage or a failed sync.
+ */
+export function annotateAnomalies(anomalies: VolumeAnomaly[], events: AnomalyEvent[]): VolumeAnomaly[] {
+  const byPeriod = new Map<string, VolumeAnomaly[]>();
+  anomalies.forEach(anomaly => {
+    const key = `${anomaly.granularity}|${anomaly.direction}|${anomalyPeriodKey(anomaly.periodStart, anomaly.granularity)}`;
+    byPeriod.set(key, [...(byPeriod.get(key) || []), anomaly]);
+  });
+
+  return anomalies.map(anomaly => {
+    const start = dayNumber(anomaly.periodStart);
+    const end = anomaly.granularity === 'daily' ? start : start + daysInMonth(new Date(anomaly.periodStart)) - 1;
+
+    const eventHints = events
+      .filter(event => !event.clientName || event.clientName === anomaly.clientName)
+      .filter(event => dayNumber(event.startDate) <= end && dayNumber(event.endDate) >= start)
+      .map(event => `Overlaps ${EVENT_LABELS[event.eventType]} "${event.name}"`);
+
+    const key = `${anomaly.granularity}|${anomaly.direction}|${anomalyPeriodKey(anomaly.periodStart, anomaly.granularity)}`;
+    const others = (byPeriod.get(key) || []).filter(other => other.clientId !== anomaly.clientId).length;
+    const sharedHints = others > 0
+      ? [`${others} other client${others === 1 ? ' has' : 's have'} a ${anomaly.direction} in the same period; look for a shared cause such as an outage or a sync problem`]
+      : [];
+
+    return { ...anomaly, hints: [...eventHints, ...anomaly.hints, ...sharedHints] };
+  });
+}
@@ -0,0 +1,183 @@
+import type { AHTData } from '@/types/aht';
+import type { PredictionResult } from '@/types/transcript';
+import type {
+  CapacityAssumptions,
+  CapacityCase,
+  CapacityFigures,
+  CapacityPlan,
+  ClientCapacityPlan,
+  MonthlyCapacityPlan
+} from '@/types/capacity';
+import { FiscalCalendarConfig, getFiscalCalendarConfig } from '@/lib/config/fiscal-calendar';
+import { round } from './numbers';
+import { fiscalPeriodOf, periodKey } from './fiscal-calendar';
+
+/**
+ * Turns client volume forecasts and handling times into staffing needs.
+ * Workload hours are volume times AHT; staffed hours divide that by occupancy
+ * and by the share of time left after shrinkage; FTEs divide staffed hours by
+ * the paid hours in the month, or fiscal period under a 4-4-5 style calendar.
+ * The forecast interval gives the best (lower bound), expected and worst
+ * (upper bound) cases.
+ */
+
+export const CAPACITY_CASES: CapacityCase[] = ['best', 'expected', 'worst'];
+
+/**
+ * Monday to Friday days from a start date up to, not including, an end date
+ */
+export function workingDaysBetween(start: Date, end: Date): number {
+  let workingDays = 0;
+  for (let day = new Date(start.getFullYear(), start.getMonth(), start.getDate()); day < end;
+    day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)) {
+    const weekday = day.getDay();
+    if (weekday !== 0 && weekday !== 6) workingDays++;
+  }
+  return workingDays;
+}
+
+/**
+ * Monday to Friday days in a YYYY-MM month
+ */
+export function workingDaysInMonth(month: string): number {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return workingDaysBetween(new Date(year, monthNumber - 1, 1), new Date(year, monthNumber, 1));
+}
+
+/**
+ * Staffed hours needed to handle a volume at a given AHT
+ */
+export function requiredHours(volume: number, aht: number, assumptions: CapacityAssumptions): number {
+  const secondsPerItem = assumptions.ahtUnit === 'minutes' ? aht * 60 : aht;
+  const workloadHours = (volume * secondsPerItem) / 3600;
+  return workloadHours / assumptions.occupancy / (1 - assumptions.shrinkage);
+}
+
+function figures(
+  volume: number,
+  reviewAHT: number,
+  validationAHT: number,
+  hoursPerFTE: number,
+  assumptions: CapacityAssumptions
+): CapacityFigures {
+  const reviewerHours = requiredHours(volume, reviewAHT, assumptions);
+  const validatorHours = requiredHours(volume, validationAHT, assumptions);
+
+  return {
+    volume,
+    reviewerHours: round(reviewerHours, 1),
+    validatorHours: round(validatorHours, 1),
+    reviewerFTE: round(reviewerHours / hoursPerFTE, 2),
+    validatorFTE: round(validatorHours / hoursPerFTE, 2),
+    totalFTE: round((reviewerHours + validatorHours) / hoursPerFTE, 2)
+  };
+}
+
+function sumFigures(items: CapacityFigures[]): CapacityFigures {
+  const total = (field: keyof CapacityFigures, places: number) =>
+    round(items.reduce((sum, item) => sum + item[field], 0), places);
+
+  return {
+    volume: total('volume', 0),
+    reviewerHours: total('reviewerHours', 1),
+    validatorHours: total('validatorHours', 1),
+    reviewerFTE: total('reviewerFTE', 2),
+    validatorFTE: total('validatorFTE', 2),
+    totalFTE: total('totalFTE', 2)
+  };
+}
+
+/**
+ * Reviewer and validator hours and FTEs per client per month. Forecast
+ * periods are summed into the month or fiscal period they start in, keyed as
+ * in the fiscal calendar, and clients are matched to AHT data by name,
+ * ignoring case.
+ */
+export function planCapacity(
+  forecasts: PredictionResult[],
+  ahtData: AHTData[],
+  assumptions: CapacityAssumptions,
+  calendar: FiscalCalendarConfig = getFiscalCalendarConfig()
+): CapacityPlan {
+  if (assumptions.shrinkage < 0 || assumptions.shrinkage >= 1) {
+    throw new Error('Shrinkage must be at least 0 and below 1');
+  }
+  if (assumptions.occupancy <= 0 || assumptions.occupancy > 1) {
+    throw new Error('Occupancy must be above 0 and at most 1');
+  }
+  if (assumptions.hoursPerDay <= 0) {
+    throw new Error('Hours per day must be positive');
+  }
+
+  const ahtByClient = new Map(ahtData.map(client => [client.client.toLowerCase(), client]));
+  const workingDays = new Map<string, number>();
+  const clients: ClientCapacityPlan[] = [];
+  const unmatchedClients: string[] = [];
+
+  forecasts.forEach(forecast => {
+    const aht = ahtByClient.get(forecast.clientName.toLowerCase());
+    if (!aht) {
+      unmatchedClients.push(forecast.clientName);
+      return;
+    }
+
+    // Forecast volumes per month or fiscal period and case
+    const volumes = new Map<string, Record<CapacityCase, number>>();
+    forecast.predictions.forEach(prediction => {
+      const month = periodKey(prediction.date, 'monthly', calendar);
+      if (!workingDays.has(month)) {
+        const period = fiscalPeriodOf(prediction.date, calendar);
+        workingDays.set(month, workingDaysBetween(period.start, period.end));
+      }
+      const current = volumes.get(month) ?? { best: 0, expected: 0, worst: 0 };
+      current.best += Math.max(0, prediction.confidenceInterval.lower);
+      current.expected += Math.max(0, prediction.predictedCount);
+      current.worst += Math.max(0, prediction.confidenceInterval.upper);
+      volumes.set(month, current);
+    });
+
+    volumes.forEach((volume, month) => {
+      const hoursPerFTE = (workingDays.get(month) ?? 0) * assumptions.hoursPerDay;
+      const cases = {} as Record<CapacityCase, CapacityFigures>;
+      CAPACITY_CASES.forEach(capacityCase => {
+        cases[capacityCase] = figures(
+          Math.round(volume[capacityCase]),
+          aht.reviewAHT,
+          aht.validationAHT,
+          hoursPerFTE,
+          assumptions
+        );
+      });
+
+      clients.push({
+        clientName: forecast.clientName,
+        month,
+        reviewAHT: aht.reviewAHT,
+        validationAHT: aht.validationAHT,
+        cases
+      });
+    });
+  });
+
+  clients.sort((a, b) => a.month.localeCompare(b.month) || a.clientName.localeCompare(b.clientName));
+
+  const months: MonthlyCapacityPlan[] = Array.from(new Set(clients.map(plan => plan.month)))
+    .sort()
+    .map(month => {
+      const inMonth = clients.filter(plan => plan.month === month);
+      const cases = {} as Record<CapacityCase, CapacityFigures>;
+      CAPACITY_CASES.forEach(capacityCase => {
+        cases[capacityCase] = sumFigures(inMonth.map(plan => plan.cases[capacityCase]));
+      });
+
+      const days = workingDays.get(month) ?? 0;
+      return {
+        month,
+        workingDays: days,
+        hoursPerFTE: days * assumptions.hoursPerDay,
+        cases
+      };
+    });
+
+  return { assumptions, clients, months, unmatchedClients };
+}
@@ -0,0 +1,375 @@
+import type { TranscriptData } from '@/types/transcript';
+import type {
+  AHTBand,
+  ClientFeatures,
+  ClientSegment,
+  ClientSegmentation,
+  CohortRow,
+  GrowthBand,
+  SeasonalityBand,
+  SegmentationMethod,
+  VolumeBand
+} from '@/types/segment';
+import type { SegmentationConfig } from '@/lib/config/segmentation';
+import { anomalyPeriodKey } from '@/lib/utils/anomaly-detection';
+import { decomposeSeries } from '@/lib/utils/seasonal-decomposition';
+import { addCalendarMonths } from '@/lib/utils/fiscal-calendar';
+import { round } from '@/lib/utils/numbers';
+
+/**
+ * Client segmentation and onboarding cohorts. Each client is described by
+ * its volume level, growth, shape of its year and handling time; clients are
+ * then grouped either by rule-based tiers over those features or by k-means
+ * on the standardized features. Segment ids carry the method (and cluster
+ * count) they came from, so a filter on a segment can be resolved again
+ * from the data alone.
+ */
+
+export type SegmentationThresholds = Pick<
+  SegmentationConfig,
+  'recentMonths' | 'highVolume' | 'lowVolume' | 'growthThreshold' | 'seasonalityThreshold' | 'longAHT'
+>;
+
+export interface SegmentationOptions {
+  method: SegmentationMethod;
+  /** Number of k-means clusters */
+  clusters?: number;
+  /** Overall AHT in seconds by client name, matched case-insensitively */
+  aht?: Record<string, number>;
+}
+
+const MAX_KMEANS_ITERATIONS = 100;
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function monthsBetween(from: string, to: string): number {
+  const [fromYear, fromMonth] = from.split('-').map(Number);
+  const [toYear, toMonth] = to.split('-').map(Number);
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth);
+}
+
+/**
+ * Gap-filled monthly volume of every client, from its first month with
+ * volume to the last month in the data, so clients that stopped sending
+ * work end on zeros.
+ */
+export function clientMonthlyVolumes(data: TranscriptData[]): Map<string, { months: string[]; values: number[] }> {
+  const totals = new Map<string, Map<string, number>>();
+  let lastMonth = '';
+
+  data.forEach(item => {
+    const month = anomalyPeriodKey(item.date, 'monthly');
+    if (month > lastMonth) lastMonth = month;
+    if (item.transcriptCount <= 0) return;
+
+    const client = totals.get(item.clientName) || new Map<string, number>();
+    client.set(month, (client.get(month) || 0) + item.transcriptCount);
+    totals.set(item.clientName, client);
+  });
+
+  const series = new Map<string, { months: string[]; values: number[] }>();
+  totals.forEach((monthTotals, clientName) => {
+    const first = [...monthTotals.keys()].sort()[0];
+    const months = Array.from({ length: monthsBetween(first, lastMonth) + 1 }, (_, i) => addCalendarMonths(first, i));
+    series.set(clientName, { months, values: months.map(month => monthTotals.get(month) || 0) });
+  });
+
+  return series;
+}
+
+// Least-squares slope of the series
+function slope(values: number[]): number {
+  if (values.length < 2) return 0;
+
+  const average = mean(values);
+  const xMean = (values.length - 1) / 2;
+  let numerator = 0;
+  let denominator = 0;
+  values.forEach((value, x) => {
+    numerator += (x - xMean) * (value - average);
+    denominator += Math.pow(x - xMean, 2);
+  });
+
+  return numerator / denominator;
+}
+
+// Least-squares slope of the series, as a fraction of its average
+function relativeSlope(values: number[]): number {
+  const average = mean(values);
+  return values.length < 3 || average <= 0 ? 0 : slope(values) / average;
+}
+
+/**
+ * Volume of each calendar month relative to the trend. With two years of
+ * data this is the yearly component of the decomposition over its trend;
+ * with one year each month over a straight-line fit, so growth is not read
+ * as seasonality; with less it is flat.
+ */
+function seasonalProfile(months: string[], values: number[]): number[] {
+  const byMonth: number[][] = Array.from({ length: 12 }, () => []);
+  const monthIndex = (month: string) => Number(month.split('-')[1]) - 1;
+
+  if (values.length >= 24) {
+    const { trend, seasonals } = decomposeSeries(values, [12]);
+    const yearly = seasonals[0]!;
+    months.forEach((month, i) => {
+      if (trend[i] > 0) byMonth[monthIndex(month)].push(1 + yearly[i] / trend[i]);
+    });
+  } else if (values.length >= 12) {
+    const fittedSlope = slope(values);
+    const intercept = mean(values) - fittedSlope * (values.length - 1) / 2;
+    months.forEach((month, i) => {
+      const fitted = intercept + fittedSlope * i;
+      if (fitted > 0) byMonth[monthIndex(month)].push(values[i] / fitted);
+    });
+  }
+
+  const profile = byMonth.map(ratios => (ratios.length > 0 ? mean(ratios) : 1));
+  const level = mean(profile);
+  return profile.map(value => (level > 0 ? value / level : 1));
+}
+
+/**
+ * Volume level, growth, seasonal shape and AHT of every client with volume
+ */
+export function clientFeatures(
+  data: TranscriptData[],
+  thresholds: Pick<SegmentationThresholds, 'recentMonths'>,
+  aht: Record<string, number> = {}
+): ClientFeatures[] {
+  const ahtByName = new Map(Object.entries(aht).map(([name, value]) => [name.toLowerCase(), value]));
+
+  return [...clientMonthlyVolumes(data).entries()]
+    .map(([clientName, { months, values }]) => {
+      const recent = values.slice(-thresholds.recentMonths);
+      const profile = seasonalProfile(months, values);
+      const seasonality = Math.max(...profile) - Math.min(...profile);
+
+      return {
+        clientName,
+        monthlyVolume: round(mean(recent), 2),
+        growthRate: round(relativeSlope(recent), 4),
+        seasonalProfile: profile.map(value => round(value, 3)),
+        seasonality: round(seasonality, 3),
+        peakMonth: seasonality > 0 ? profile.indexOf(Math.max(...profile)) : null,
+        aht: ahtByName.get(clientName.toLowerCase()) ?? null,
+        onboardingMonth: months[0],
+        monthsActive: values.filter(value => value > 0).length
+      };
+    })
+    .sort((a, b) => a.clientName.localeCompare(b.clientName));
+}
+
+interface FeatureBands {
+  volume: VolumeBand;
+  growth: GrowthBand;
+  seasonality: SeasonalityBand;
+  aht: AHTBand | null;
+}
+
+function featureBands(
+  features: Pick<ClientFeatures, 'monthlyVolume' | 'growthRate' | 'seasonality' | 'aht'>,
+  thresholds: SegmentationThresholds
+): FeatureBands {
+  return {
+    volume: features.monthlyVolume >= thresholds.highVolume
+      ? 'high'
+      : features.monthlyVolume < thresholds.lowVolume ? 'low' : 'mid',
+    growth: features.growthRate > thresholds.growthThreshold
+      ? 'growing'
+      : features.growthRate < -thresholds.growthThreshold ? 'declining' : 'stable',
+    seasonality: features.seasonality >= thresholds.seasonalityThreshold ? 'seasonal' : 'steady',
+    aht: features.aht === null ? null : features.aht >= thresholds.longAHT ? 'long' : 'normal'
+  };
+}
+
+function bandsLabel(bands: FeatureBands): string {
+  const volume = { high: 'High volume', mid: 'Mid volume', low: 'Low volume' }[bands.volume];
+  const parts = [volume, bands.growth, bands.seasonality];
+  if (bands.aht === 'long') parts.push('long AHT');
+  return parts.join(', ');
+}
+
+function describeSegment(id: string, label: string, members: ClientFeatures[]): ClientSegment {
+  const ahts = members.map(member => member.aht).filter((value): value is number => value !== null);
+
+  return {
+    id,
+    label,
+    clients: members.map(member => member.clientName),
+    monthlyVolume: round(mean(members.map(member => member.monthlyVolume)), 2),
+    growthRate: round(mean(members.map(member => member.growthRate)), 4),
+    seasonality: round(mean(members.map(member => member.seasonality)), 3),
+    aht: ahts.length > 0 ? round(mean(ahts), 1) : null
+  };
+}
+
+/**
+ * Rule-based tiers: volume band, growth band and seasonality, plus a long
+ * AHT flag for clients whose handling time is known to be long
+ */
+export function tierSegments(features: ClientFeatures[], thresholds: SegmentationThresholds): ClientSegment[] {
+  const tiers = new Map<string, { label: string; members: ClientFeatures[] }>();
+
+  features.forEach(client => {
+    const bands = featureBands(client, thresholds);
+    const key = [bands.volume, bands.growth, bands.seasonality, ...(bands.aht === 'long' ? ['long-aht'] : [])].join('-');
+    const tier = tiers.get(key) || { label: bandsLabel(bands), members: [] };
+    tier.members.push(client);
+    tiers.set(key, tier);
+  });
+
+  return [...tiers.entries()]
+    .map(([key, tier]) => describeSegment(`tiers:${key}`, tier.label, tier.members))
+    .sort((a, b) => b.monthlyVolume - a.monthlyVolume);
+}
+
+// Standardized feature vectors; the seasonal profile counts as one feature in total
+function featureMatrix(features: ClientFeatures[]): number[][] {
+  const knownAHT = features.map(client => client.aht).filter((value): value is number => value !== null);
+  const averageAHT = mean(knownAHT);
+
+  const columns: { values: number[]; weight: number }[] = [
+    { values: features.map(client => Math.log1p(client.monthlyVolume)), weight: 1 },
+    { values: features.map(client => client.growthRate), weight: 1 },
+    { values: features.map(client => client.seasonality), weight: 1 },
+    ...(knownAHT.length > 0 ? [{ values: features.map(client => client.aht ?? averageAHT), weight: 1 }] : []),
+    ...Array.from({ length: 12 }, (_, month) => ({
+      values: features.map(client => client.seasonalProfile[month]),
+      weight: 1 / Math.sqrt(12)
+    }))
+  ];
+
+  const standardized = columns.map(({ values, weight }) => {
+    const average = mean(values);
+    const sd = Math.sqrt(mean(values.map(value => Math.pow(value - average, 2))));
+    return values.map(value => (sd > 0 ? ((value - average) / sd) * weight : 0));
+  });
+
+  return features.map((_, row) => standardized.map(column => column[row]));
+}
+
+function squaredDistance(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + Math.pow(value - b[i], 2), 0);
+}
+
+/**
+ * k-means over the standardized features. Seeding is deterministic (the
+ * highest-volume client, then each time the client farthest from every
+ * centroid so far) so the same data always gives the same clusters, which
+ * are numbered by falling average volume.
+ */
+export function kmeansSegments(
+  features: ClientFeatures[],
+  clusters: number,
+  thresholds: SegmentationThresholds
+): ClientSegment[] {
+  if (features.length === 0) return [];
+
+  const points = featureMatrix(features);
+  const k = Math.max(1, Math.min(clusters, features.length));
+
+  const largest = features.reduce((best, client, i) => (client.monthlyVolume > features[best].monthlyVolume ? i : best), 0);
+  const centroids: number[][] = [points[largest]];
+  while (centroids.length < k) {
+    const distances = points.map(point => Math.min(...centroids.map(centroid => squaredDistance(point, centroid))));
+    centroids.push(points[distances.indexOf(Math.max(...distances))]);
+  }
+
+  let assignment = new Array<number>(points.length).fill(-1);
+  for (let iteration = 0; iteration < MAX_KMEANS_ITERATIONS; iteration++) {
+    const next = points.map(point => {
+      const distances = centroids.map(centroid => squaredDistance(point, centroid));
+      return distances.indexOf(Math.min(...distances));
+    });
+    if (next.every((cluster, i) => cluster === assignment[i])) break;
+    assignment = next;
+
+    centroids.forEach((centroid, c) => {
+      const members = points.filter((_, i) => assignment[i] === c);
+      // An emptied cluster keeps its centroid
+      if (members.length > 0) {
+        centroids[c] = centroid.map((_, d) => mean(members.map(member => member[d])));
+      }
+    });
+  }
+
+  return centroids
+    .map((_, c) => features.filter((_, i) => assignment[i] === c))
+    .filter(members => members.length > 0)
+    .map(members => describeSegment('', '', members))
+    .sort((a, b) => b.monthlyVolume - a.monthlyVolume)
+    .map((segment, rank) => ({
+      ...segment,
+      id: `kmeans:${k}:${rank + 1}`,
+      label: `Cluster ${rank + 1}: ${bandsLabel(featureBands(segment, thresholds))}`
+    }));
+}
+
+/**
+ * Method and cluster count of a segment id, or null when the id is not one
+ */
+export function parseSegmentId(id: string): { method: SegmentationMethod; clusters?: number } | null {
+  const [method, first, second] = id.split(':');
+
+  if (method === 'tiers' && first && second === undefined) {
+    return { method };
+  }
+  if (method === 'kmeans' && /^\d+$/.test(first || '') && /^\d+$/.test(second || '')) {
+    return { method, clusters: parseInt(first) };
+  }
+  return null;
+}
+
+export function segmentClients(
+  data: TranscriptData[],
+  options: SegmentationOptions,
+  thresholds: SegmentationThresholds
+): ClientSegmentation {
+  const features = clientFeatures(data, thresholds, options.aht);
+  const segments = options.method === 'kmeans'
+    ? kmeansSegments(features, options.clusters ?? 4, thresholds)
+    : tierSegments(features, thresholds);
+
+  const assignments: Record<string, string> = {};
+  segments.forEach(segment => segment.clients.forEach(client => {
+    assignments[client] = segment.id;
+  }));
+
+  return { method: options.method, segments, assignments, features };
+}
+
+/**
+ * Volume ramp of clients grouped by the month they first sent volume: the
+ * average volume per client and the number still active in each of their
+ * first `months` months. Optionally limited to some clients, e.g. a segment.
+ */
+export function clientCohorts(data: TranscriptData[], months: number, clientNames?: string[]): CohortRow[] {
+  const included = clientNames ? new Set(clientNames.map(name => name.toLowerCase())) : null;
+  const cohorts = new Map<string, { clients: string[]; series: number[][] }>();
+
+  clientMonthlyVolumes(data).forEach(({ months: clientMonths, values }, clientName) => {
+    if (included && !included.has(clientName.toLowerCase())) return;
+
+    const cohort = cohorts.get(clientMonths[0]) || { clients: [], series: [] };
+    cohort.clients.push(clientName);
+    cohort.series.push(values.slice(0, months));
+    cohorts.set(clientMonths[0], cohort);
+  });
+
+  return [...cohorts.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([cohort, { clients, series }]) => ({
+      cohort,
+      clients: clients.sort(),
+      // Every client in a cohort has the same number of months of data
+      volumes: Array.from({ length: months }, (_, offset) =>
+        offset < series[0].length ? round(mean(series.map(values => values[offset])), 2) : null
+      ),
+      activeClients: Array.from({ length: months }, (_, offset) =>
+        offset < series[0].length ? series.filter(values => values[offset] > 0).length : null
+      )
+    }));
+}
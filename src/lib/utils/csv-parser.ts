@@ -0,0 +1,378 @@
+import type { RawData } from '@/types/transcript';
+
+/**
+ * Incremental RFC 4180 CSV parsing. Bytes or text can be pushed in chunks of
+ * any size; quoted fields may span chunks and lines, records end at CRLF, LF
+ * or a lone CR, and quotes inside quoted fields are escaped by doubling them.
+ * The encoding is taken from a byte order mark, or else the first chunk is
+ * checked for valid UTF-8 and read as Windows-1252 when it is not; a file
+ * that only turns out not to be UTF-8 further on switches from there. The
+ * delimiter is the one of comma, semicolon, tab and pipe that splits the
+ * first lines most consistently. Unquoted fields are trimmed and blank lines
+ * skipped, as exports often pad both. Malformed rows are kept where they can
+ * be and reported with the line they start on.
+ */
+
+export type CSVDelimiter = ',' | ';' | '\t' | '|';
+
+export type CSVEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface CSVRecord {
+  /** Line the record starts on, from 1 */
+  line: number;
+  fields: string[];
+}
+
+export interface CSVRowError {
+  line: number;
+  message: string;
+}
+
+export interface CSVChunkResult {
+  rows: RawData[];
+  errors: CSVRowError[];
+}
+
+export interface CSVReaderOptions {
+  hasHeaders?: boolean;
+  delimiter?: CSVDelimiter;
+  encoding?: CSVEncoding;
+}
+
+const DELIMITERS: CSVDelimiter[] = [',', ';', '\t', '|'];
+
+// Lines and characters sampled before the delimiter is chosen
+const SAMPLE_LINES = 10;
+const SAMPLE_CHARS = 64 * 1024;
+
+export function detectEncoding(bytes: Uint8Array): CSVEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  try {
+    // Streaming decode, so a character cut off at the end of the sample is not an error
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+/**
+ * Delimiter splitting the sample's lines into the same number of fields most
+ * often, preferring more fields on a tie; quoted text is ignored
+ */
+export function detectDelimiter(sample: string): CSVDelimiter {
+  const lines = sample
+    .replace(/"(?:[^"]|"")*"/g, '')
+    .split(/\r\n|\n|\r/)
+    .filter(line => line.trim().length > 0)
+    .slice(0, SAMPLE_LINES);
+
+  let best: CSVDelimiter = ',';
+  let bestScore = 0;
+
+  for (const delimiter of DELIMITERS) {
+    const counts = lines.map(line => line.split(delimiter).length - 1);
+    const frequency = new Map<number, number>();
+    for (const count of counts) {
+      if (count > 0) frequency.set(count, (frequency.get(count) ?? 0) + 1);
+    }
+
+    for (const [count, lineCount] of frequency) {
+      const score = lineCount * 1000 + count;
+      if (score > bestScore) {
+        best = delimiter;
+        bestScore = score;
+      }
+    }
+  }
+
+  return best;
+}
+
+type ParseState = 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted' | 'afterQuoted';
+
+/**
+ * Text-level parser; records come out as soon as their last line has been pushed
+ */
+export class CSVStreamParser {
+  private delimiter?: CSVDelimiter;
+  private pending = '';
+  private state: ParseState = 'fieldStart';
+  private field = '';
+  private fields: string[] = [];
+  private line = 1;
+  private recordLine = 1;
+  private skipLineFeed = false;
+  private quotedCR = false;
+  private recordErrors: string[] = [];
+  private errors: CSVRowError[] = [];
+
+  constructor(delimiter?: CSVDelimiter) {
+    this.delimiter = delimiter;
+  }
+
+  get detectedDelimiter(): CSVDelimiter | undefined {
+    return this.delimiter;
+  }
+
+  push(text: string): CSVRecord[] {
+    if (this.delimiter) {
+      return this.parse(text);
+    }
+
+    // Hold text back until there is enough to choose a delimiter from
+    this.pending += text;
+    const lineBreaks = this.pending.match(/\r\n|\n|\r/g)?.length ?? 0;
+    if (lineBreaks < SAMPLE_LINES && this.pending.length < SAMPLE_CHARS) {
+      return [];
+    }
+
+    return this.flushPending();
+  }
+
+  end(): CSVRecord[] {
+    const records = this.delimiter ? [] : this.flushPending();
+
+    if (this.state === 'quoted') {
+      this.recordErrors.push('Unterminated quoted field');
+    }
+    if (this.state !== 'fieldStart' || this.fields.length > 0) {
+      this.endField();
+      this.endRecord(records);
+    }
+
+    return records;
+  }
+
+  /**
+   * Row errors found since the last call
+   */
+  takeErrors(): CSVRowError[] {
+    const errors = this.errors;
+    this.errors = [];
+    return errors;
+  }
+
+  private flushPending(): CSVRecord[] {
+    this.delimiter = detectDelimiter(this.pending);
+    const text = this.pending;
+    this.pending = '';
+    return this.parse(text);
+  }
+
+  private parse(text: string): CSVRecord[] {
+    const records: CSVRecord[] = [];
+    const delimiter = this.delimiter;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      switch (this.state) {
+        case 'quoted':
+          if (char === '"') {
+            this.state = 'quoteInQuoted';
+          } else {
+            this.field += char;
+            this.countLine(char);
+          }
+          break;
+
+        case 'quoteInQuoted':
+          if (char === '"') {
+            // Escaped quote
+            this.field += '"';
+            this.state = 'quoted';
+            break;
+          }
+          this.state = 'afterQuoted';
+          i--;
+          break;
+
+        default:
+          if (char === delimiter) {
+            this.endField();
+            this.state = 'fieldStart';
+          } else if (char === '\n' || char === '\r') {
+            this.endField();
+            this.endRecord(records);
+            this.state = 'fieldStart';
+            this.line++;
+            this.recordLine = this.line;
+            this.skipLineFeed = char === '\r';
+          } else if (this.state === 'fieldStart' && char === '"') {
+            // Only whitespace can precede it, and that is dropped
+            this.field = '';
+            this.quotedCR = false;
+            this.state = 'quoted';
+          } else if (this.state === 'afterQuoted') {
+            if (char.trim() !== '') {
+              this.recordErrors.push('Unexpected text after a closing quote');
+              this.field += char;
+            }
+          } else {
+            if (char === '"') {
+              this.recordErrors.push('Unexpected quote in an unquoted field');
+            }
+            this.field += char;
+            if (this.state === 'fieldStart' && char.trim() !== '') this.state = 'unquoted';
+          }
+      }
+    }
+
+    return records;
+  }
+
+  // Line breaks inside quoted fields still move the line count on
+  private countLine(char: string): void {
+    if (char === '\r' || (char === '\n' && !this.quotedCR)) {
+      this.line++;
+    }
+    this.quotedCR = char === '\r';
+  }
+
+  private endField(): void {
+    this.fields.push(this.state === 'quoted' || this.state === 'quoteInQuoted' || this.state === 'afterQuoted'
+      ? this.field
+      : this.field.trim());
+    this.field = '';
+  }
+
+  private endRecord(records: CSVRecord[]): void {
+    const fields = this.fields;
+    this.fields = [];
+
+    for (const message of new Set(this.recordErrors)) {
+      this.errors.push({ line: this.recordLine, message });
+    }
+    this.recordErrors = [];
+
+    // Blank line
+    if (fields.length === 1 && fields[0] === '') return;
+
+    records.push({ line: this.recordLine, fields });
+  }
+}
+
+/**
+ * Byte-level reader that decodes, parses and maps records onto the header
+ * row, or onto generated Column N headers
+ */
+export class CSVStreamReader {
+  private decoder?: TextDecoder;
+  private parser: CSVStreamParser;
+  private encoding?: CSVEncoding;
+  private strict = false;
+  private hasHeaders: boolean;
+  private columns: string[] | null = null;
+  private rows = 0;
+  private records = 0;
+
+  constructor(options: CSVReaderOptions = {}) {
+    this.hasHeaders = options.hasHeaders ?? true;
+    this.encoding = options.encoding;
+    this.parser = new CSVStreamParser(options.delimiter);
+  }
+
+  get headers(): string[] {
+    return this.columns ?? [];
+  }
+
+  get rowCount(): number {
+    return this.rows;
+  }
+
+  /** Records read, the header row included */
+  get recordCount(): number {
+    return this.records;
+  }
+
+  get detectedEncoding(): CSVEncoding | undefined {
+    return this.encoding;
+  }
+
+  get detectedDelimiter(): CSVDelimiter | undefined {
+    return this.parser.detectedDelimiter;
+  }
+
+  push(bytes: Uint8Array): CSVChunkResult {
+    if (!this.decoder) {
+      // Guessed UTF-8 is decoded strictly, so a later invalid byte can switch encodings
+      const encoding = this.encoding ?? detectEncoding(bytes);
+      this.strict = !this.encoding && encoding === 'utf-8' && bytes[0] !== 0xef;
+      this.encoding = encoding;
+      this.decoder = new TextDecoder(this.encoding, { fatal: this.strict });
+    }
+
+    let text: string;
+    try {
+      text = this.decoder.decode(bytes, { stream: true });
+    } catch {
+      this.strict = false;
+      this.encoding = 'windows-1252';
+      this.decoder = new TextDecoder(this.encoding);
+      text = this.decoder.decode(bytes, { stream: true });
+    }
+
+    return this.toRows(this.parser.push(text));
+  }
+
+  end(): CSVChunkResult {
+    let text = '';
+    try {
+      text = this.decoder?.decode() ?? '';
+    } catch {
+      // The file ends partway through a character
+      text = '\uFFFD';
+    }
+
+    const tail = this.parser.push(text);
+    return this.toRows([...tail, ...this.parser.end()]);
+  }
+
+  private toRows(records: CSVRecord[]): CSVChunkResult {
+    const rows: RawData[] = [];
+    const errors = this.parser.takeErrors();
+
+    for (const record of records) {
+      this.records++;
+
+      if (!this.columns) {
+        if (this.hasHeaders) {
+          this.columns = record.fields;
+          continue;
+        }
+        this.columns = [];
+      }
+
+      if (!this.hasHeaders) {
+        // Name columns as they appear, as rows may grow longer further down
+        for (let i = this.columns.length; i < record.fields.length; i++) {
+          this.columns.push(`Column ${i + 1}`);
+        }
+      } else if (record.fields.length !== this.columns.length) {
+        errors.push({
+          line: record.line,
+          message: `Expected ${this.columns.length} fields but found ${record.fields.length}`
+        });
+      }
+
+      const row: RawData = {};
+      this.columns.forEach((header, index) => {
+        row[header] = record.fields[index] ?? '';
+      });
+      rows.push(row);
+      this.rows++;
+    }
+
+    errors.sort((a, b) => a.line - b.line);
+    return { rows, errors };
+  }
+}
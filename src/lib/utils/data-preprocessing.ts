@@ -1,4 +1,6 @@
 import { TranscriptData } from '@/types/transcript';
+import { FiscalCalendarConfig, getFiscalCalendarConfig } from '@/lib/config/fiscal-calendar';
+import { periodKey, periodStart } from './fiscal-calendar';
 
 export interface DataQualityReport {
   totalRecords: number;
@@ -26,6 +28,8 @@ export interface PreprocessingOptions {
   handleOutliers: 'remove' | 'cap' | 'keep';
   smoothingWindow?: number;
   aggregationPeriod?: 'daily' | 'weekly' | 'monthly';
+  /** Calendar weeks and months are aggregated by; the configured fiscal calendar by default */
+  calendar?: FiscalCalendarConfig;
 }
 
 export class DataPreprocessor {
@@ -123,7 +127,7 @@ export class DataPreprocessor {
 
     // Aggregate by period
     if (options.aggregationPeriod && options.aggregationPeriod !== 'daily') {
-      processedData = this.aggregateByPeriod(processedData, options.aggregationPeriod);
+      processedData = this.aggregateByPeriod(processedData, options.aggregationPeriod, options.calendar ?? getFiscalCalendarConfig());
     }
 
     return processedData;
@@ -317,11 +321,12 @@ export class DataPreprocessor {
   }
 
   /**
-   * Aggregate data by time period
+   * Aggregate data by week or month of the fiscal calendar
    */
   private static aggregateByPeriod(
     data: TranscriptData[],
-    period: 'weekly' | 'monthly'
+    period: 'weekly' | 'monthly',
+    calendar: FiscalCalendarConfig
   ): TranscriptData[] {
     const aggregated = new Map<string, {
       records: TranscriptData[];
@@ -330,20 +335,8 @@ export class DataPreprocessor {
     }>();
 
     data.forEach(record => {
-      const date = new Date(record.date);
-      let key: string;
-      let periodDate: Date;
-
-      if (period === 'weekly') {
-        // Get start of week (Monday)
-        const startOfWeek = new Date(date);
-        startOfWeek.setDate(date.getDate() - date.getDay() + 1);
-        key = `${record.clientName}-${startOfWeek.toISOString().split('T')[0]}`;
-        periodDate = startOfWeek;
-      } else { // monthly
-        key = `${record.clientName}-${date.getFullYear()}-${date.getMonth()}`;
-        periodDate = new Date(date.getFullYear(), date.getMonth(), 1);
-      }
+      const key = `${record.clientName}-${periodKey(record.date, period, calendar)}`;
+      const periodDate = periodStart(record.date, period, calendar);
 
       if (aggregated.has(key)) {
         const existing = aggregated.get(key)!;
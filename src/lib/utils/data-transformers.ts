@@ -1,17 +1,21 @@
 import { TranscriptCreate, CSVTranscriptRowSchema } from '@/lib/validations/schemas'
 import { RawData, ImportError, ValidationResult, TranscriptData } from '@/types/transcript'
+import type { ImportDateFormat } from '@/types/import-profile'
 
 /**
- * Transform raw data to transcript format using column mapping
+ * Transform raw data to transcript format using column mapping. rowNumbers
+ * holds the source row of each valid record, numbered like the errors.
  */
 export async function transformRawDataToTranscripts(
   rawData: RawData[],
   columnMapping: Record<string, string>
 ): Promise<{
   validData: TranscriptData[]
+  rowNumbers: number[]
   errors: ImportError[]
 }> {
   const validData: TranscriptData[] = []
+  const rowNumbers: number[] = []
   const errors: ImportError[] = []
   
   for (let i = 0; i < rawData.length; i++) {
@@ -112,6 +116,7 @@ export async function transformRawDataToTranscripts(
       }
       
       validData.push(transcriptData)
+      rowNumbers.push(rowIndex)
       
     } catch (error) {
       errors.push({
@@ -123,7 +128,7 @@ export async function transformRawDataToTranscripts(
     }
   }
   
-  return { validData, errors }
+  return { validData, rowNumbers, errors }
 }
 
 export class DataTransformer {
@@ -454,21 +459,53 @@ export class DataTransformer {
   /**
    * Detect and suggest date format from sample data
    */
-  static detectDateFormat(dateStrings: string[]): string {
-    const formats = [
+  static detectDateFormat(dateStrings: string[]): ImportDateFormat {
+    const formats: { pattern: RegExp; format: ImportDateFormat }[] = [
       { pattern: /^\d{4}-\d{2}-\d{2}$/, format: 'YYYY-MM-DD' },
       { pattern: /^\d{2}\/\d{2}\/\d{4}$/, format: 'MM/DD/YYYY' },
       { pattern: /^\d{2}-\d{2}-\d{4}$/, format: 'MM-DD-YYYY' },
       { pattern: /^\d{4}\/\d{2}\/\d{2}$/, format: 'YYYY/MM/DD' },
+      { pattern: /^\d{2}\.\d{2}\.\d{4}$/, format: 'DD.MM.YYYY' },
     ]
     
     for (const { pattern, format } of formats) {
       const matches = dateStrings.filter(date => pattern.test(date.trim()))
       if (matches.length > dateStrings.length * 0.8) { // 80% match threshold
+        // A leading part above 12 can only be a day
+        const dayFirst = matches.some(date => Number(date.trim().slice(0, 2)) > 12)
+        if (format === 'MM/DD/YYYY' && dayFirst) return 'DD/MM/YYYY'
+        if (format === 'MM-DD-YYYY' && dayFirst) return 'DD-MM-YYYY'
         return format
       }
     }
     
     return 'YYYY-MM-DD' // Default format
   }
+
+  /**
+   * Parse a date in a known format, e.g. one saved with an import profile.
+   * Dates come out at UTC midnight, as from parseDate.
+   */
+  static parseDateWithFormat(dateString: string, format: ImportDateFormat): Date {
+    const parts = dateString.trim().split(/[-/.]/)
+    const units = format.split(/[-/.]/)
+    
+    if (parts.length !== 3 || !parts.every(part => /^\d{1,4}$/.test(part))) {
+      throw new Error(`Unable to parse date: ${dateString}`)
+    }
+    
+    const values: Record<string, number> = {}
+    units.forEach((unit, index) => {
+      values[unit] = Number(parts[index])
+    })
+    
+    const parsedDate = new Date(Date.UTC(values.YYYY, values.MM - 1, values.DD))
+    
+    // Reject days and months that roll over, e.g. 31/04
+    if (parsedDate.getUTCMonth() !== values.MM - 1 || parsedDate.getUTCDate() !== values.DD) {
+      throw new Error(`Unable to parse date: ${dateString}`)
+    }
+    
+    return parsedDate
+  }
 }
\ No newline at end of file
@@ -0,0 +1,162 @@
+import type { CalendarEventType } from '@/types/calendar';
+import { FiscalCalendarConfig, getFiscalCalendarConfig } from '@/lib/config/fiscal-calendar';
+import { periodEnd } from './fiscal-calendar';
+
+/**
+ * Calendar events as exogenous regressors. Each event type becomes one
+ * regressor column holding the share of each period the events cover, so a
+ * one-day holiday counts fully for daily data and as 1/7 of a week.
+ */
+
+export const EVENT_TYPES: CalendarEventType[] = ['holiday', 'client_event', 'outage'];
+
+export interface ForecastEvent {
+  eventType: CalendarEventType;
+  startDate: Date | string;
+  endDate: Date | string;
+  /** Unset when the event applies to every client */
+  clientName?: string;
+}
+
+export type EventRegressors = Record<CalendarEventType, number[]>;
+
+/** Estimated change in volume for a period fully covered by each event type */
+export type EventEffects = Partial<Record<CalendarEventType, number>>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local calendar day number, so DATE columns and local period dates line up
+function dayNumber(date: Date | string): number {
+  const d = new Date(date);
+  return Math.round(Date.UTC(d.getFullYear(), d.getMonth(), d.getDate()) / DAY_MS);
+}
+
+// Days in the fiscal calendar period starting at a date
+function periodLength(date: Date, predictionType: 'daily' | 'weekly' | 'monthly', calendar: FiscalCalendarConfig): number {
+  return dayNumber(periodEnd(date, predictionType, calendar)) - dayNumber(date);
+}
+
+/**
+ * Regressor columns for the periods starting at `dates`. Client-specific events
+ * only apply to their client; forecasts without a client (the total) see them all.
+ */
+export function eventRegressors(
+  dates: Date[],
+  events: ForecastEvent[],
+  predictionType: 'daily' | 'weekly' | 'monthly',
+  clientName?: string,
+  calendar: FiscalCalendarConfig = getFiscalCalendarConfig()
+): EventRegressors {
+  const relevant = events.filter(event => !event.clientName || !clientName || event.clientName === clientName);
+  const ranges = relevant.map(event => ({
+    eventType: event.eventType,
+    start: dayNumber(event.startDate),
+    end: dayNumber(event.endDate)
+  }));
+
+  const regressors = {} as EventRegressors;
+
+  EVENT_TYPES.forEach(eventType => {
+    const typeRanges = ranges.filter(range => range.eventType === eventType);
+
+    regressors[eventType] = dates.map(date => {
+      const start = dayNumber(date);
+      const length = periodLength(new Date(date), predictionType, calendar);
+      let covered = 0;
+
+      // Count covered days once even when events overlap
+      for (let day = start; day < start + length; day++) {
+        if (typeRanges.some(range => day >= range.start && day <= range.end)) {
+          covered++;
+        }
+      }
+
+      return covered / length;
+    });
+  });
+
+  return regressors;
+}
+
+/**
+ * Solve a small dense linear system by Gaussian elimination with partial
+ * pivoting; null when the system is singular
+ */
+function solveLinearSystem(matrix: number[][], vector: number[]): number[] | null {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-10) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  const solution = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * solution[k];
+    solution[row] = sum / a[row][row];
+  }
+
+  return solution;
+}
+
+/**
+ * Estimate event effects by least squares on an intercept, a linear trend and
+ * one column per event type seen in the history. Event types that never or
+ * always occur cannot be separated from the level and are left out.
+ */
+export function estimateEventEffects(values: number[], regressors: EventRegressors): EventEffects {
+  const n = values.length;
+  const eventTypes = EVENT_TYPES.filter(eventType => {
+    const column = regressors[eventType];
+    return column.some(x => x > 0) && column.some(x => x < 1);
+  });
+
+  const parameterCount = 2 + eventTypes.length;
+  if (eventTypes.length === 0 || n <= parameterCount) {
+    return {};
+  }
+
+  const rows = values.map((_, t) => [1, t, ...eventTypes.map(eventType => regressors[eventType][t])]);
+
+  // Normal equations X'X b = X'y
+  const xtx = Array.from({ length: parameterCount }, (_, i) =>
+    Array.from({ length: parameterCount }, (_, j) => rows.reduce((sum, row) => sum + row[i] * row[j], 0))
+  );
+  const xty = Array.from({ length: parameterCount }, (_, i) =>
+    rows.reduce((sum, row, t) => sum + row[i] * values[t], 0)
+  );
+
+  const coefficients = solveLinearSystem(xtx, xty);
+  if (!coefficients) {
+    return {};
+  }
+
+  const effects: EventEffects = {};
+  eventTypes.forEach((eventType, i) => {
+    effects[eventType] = coefficients[2 + i];
+  });
+
+  return effects;
+}
+
+/**
+ * Combined event effect for each period of a regressor set
+ */
+export function eventAdjustments(regressors: EventRegressors, effects: EventEffects): number[] {
+  const length = regressors[EVENT_TYPES[0]].length;
+
+  return Array.from({ length }, (_, t) =>
+    EVENT_TYPES.reduce((sum, eventType) => sum + (effects[eventType] ?? 0) * regressors[eventType][t], 0)
+  );
+}
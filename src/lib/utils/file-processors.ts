@@ -1,64 +1,93 @@
 import * as XLSX from 'xlsx'
 import { RawData, ValidationResult } from '@/types/transcript'
+import { CSVChunkResult, CSVDelimiter, CSVEncoding, CSVRowError, CSVStreamReader } from './csv-parser'
+import {
+  ColumnType,
+  NDJSONChunkResult,
+  NDJSONStreamReader,
+  collectHeaders,
+  parseJSONRecords,
+  readParquet
+} from './structured-parsers'
+
+export type ImportFileType = 'csv' | 'excel' | 'json' | 'ndjson' | 'parquet'
+
+export interface CSVProgress {
+  bytesRead: number
+  totalBytes: number
+  rows: number
+}
 
 export class FileProcessor {
+  /** Upload limit for Excel and JSON files, which are read whole */
+  static readonly MAX_FILE_SIZE = 10 * 1024 * 1024
+
+  /** Upload limit for CSV and NDJSON files, which are streamed, and Parquet files, read in slices */
+  static readonly MAX_CSV_FILE_SIZE = 500 * 1024 * 1024
+
   /**
-   * Process CSV file and extract data
+   * Process CSV file and extract data, streaming it through the parser.
+   * Malformed rows are reported in rowErrors by line and do not fail the file.
    */
-  static async processCSV(file: File, hasHeaders: boolean = true): Promise<{
+  static async processCSV(
+    file: File,
+    hasHeaders: boolean = true,
+    onProgress?: (progress: CSVProgress) => void
+  ): Promise<{
     headers: string[]
     data: RawData[]
     errors: string[]
+    rowErrors: CSVRowError[]
+    delimiter?: CSVDelimiter
+    encoding?: CSVEncoding
   }> {
     const errors: string[] = []
+    const rowErrors: CSVRowError[] = []
     
     try {
-      const text = await file.text()
-      const lines = text.split('\n').filter(line => line.trim().length > 0)
-      
-      if (lines.length === 0) {
+      const csv = new CSVStreamReader({ hasHeaders })
+      const reader = file.stream().getReader()
+      const data: RawData[] = []
+      let bytesRead = 0
+
+      const collect = (chunk: CSVChunkResult) => {
+        for (const row of chunk.rows) data.push(row)
+        for (const error of chunk.errors) rowErrors.push(error)
+      }
+
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        collect(csv.push(value))
+        bytesRead += value.byteLength
+        onProgress?.({ bytesRead, totalBytes: file.size, rows: csv.rowCount })
+      }
+      collect(csv.end())
+
+      if (csv.recordCount === 0) {
         return {
           headers: [],
           data: [],
-          errors: ['File is empty']
+          errors: ['File is empty'],
+          rowErrors
         }
       }
       
-      // Parse CSV manually to handle various formats
-      const rows = lines.map(line => this.parseCSVLine(line))
-      
-      let headers: string[]
-      let dataRows: string[][]
-      
-      if (hasHeaders) {
-        headers = rows[0] || []
-        dataRows = rows.slice(1)
-      } else {
-        // Generate generic headers if none provided
-        const maxColumns = Math.max(...rows.map(row => row.length))
-        headers = Array.from({ length: maxColumns }, (_, i) => `Column ${i + 1}`)
-        dataRows = rows
-      }
-      
-      // Convert to object format
-      const data: RawData[] = dataRows.map((row, index) => {
-        const rowData: RawData = {}
-        headers.forEach((header, colIndex) => {
-          rowData[header] = row[colIndex] || ''
-        })
-        return rowData
-      })
-      
       return {
-        headers,
+        headers: csv.headers,
         data,
-        errors
+        errors,
+        rowErrors,
+        delimiter: csv.detectedDelimiter,
+        encoding: csv.detectedEncoding
       }
     } catch (error) {
       return {
         headers: [],
         data: [],
-        errors: [`Failed to process CSV file: ${error instanceof Error ? error.message : 'Unknown error'}`]
+        errors: [`Failed to process CSV file: ${error instanceof Error ? error.message : 'Unknown error'}`],
+        rowErrors
       }
     }
   }
@@ -244,30 +273,135 @@ export class FileProcessor {
     }
   }
   
+  /**
+   * Process a JSON file holding an array of records, or an object wrapping
+   * one. Nested fields become dotted columns.
+   */
+  static async processJSON(file: File): Promise<{
+    headers: string[]
+    data: RawData[]
+    errors: string[]
+  }> {
+    try {
+      const result = parseJSONRecords(await file.text())
+
+      if (result.data.length === 0) {
+        return { headers: [], data: [], errors: ['File contains no records'] }
+      }
+
+      return { headers: result.headers, data: result.data, errors: [] }
+    } catch (error) {
+      return {
+        headers: [],
+        data: [],
+        errors: [`Failed to process JSON file: ${error instanceof Error ? error.message : 'Unknown error'}`]
+      }
+    }
+  }
+
+  /**
+   * Process a newline-delimited JSON file, streaming it a chunk at a time.
+   * Lines that are not JSON objects are reported in rowErrors by line.
+   */
+  static async processNDJSON(
+    file: File,
+    onProgress?: (progress: CSVProgress) => void
+  ): Promise<{
+    headers: string[]
+    data: RawData[]
+    errors: string[]
+    rowErrors: CSVRowError[]
+  }> {
+    const rowErrors: CSVRowError[] = []
+    
+    try {
+      const ndjson = new NDJSONStreamReader()
+      const decoder = new TextDecoder('utf-8')
+      const reader = file.stream().getReader()
+      const data: RawData[] = []
+      let bytesRead = 0
+
+      const collect = (chunk: NDJSONChunkResult) => {
+        for (const row of chunk.rows) data.push(row)
+        for (const error of chunk.errors) rowErrors.push(error)
+      }
+
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        collect(ndjson.push(decoder.decode(value, { stream: true })))
+        bytesRead += value.byteLength
+        onProgress?.({ bytesRead, totalBytes: file.size, rows: data.length })
+      }
+      collect(ndjson.push(decoder.decode()))
+      collect(ndjson.end())
+
+      if (data.length === 0) {
+        return {
+          headers: [],
+          data: [],
+          errors: ['File contains no records'],
+          rowErrors
+        }
+      }
+
+      // Columns are the keys of every record, not just the first
+      return { headers: collectHeaders(data), data, errors: [], rowErrors }
+    } catch (error) {
+      return {
+        headers: [],
+        data: [],
+        errors: [`Failed to process NDJSON file: ${error instanceof Error ? error.message : 'Unknown error'}`],
+        rowErrors
+      }
+    }
+  }
+
+  /**
+   * Process a Parquet file. Column types come from the file's schema.
+   */
+  static async processParquet(file: File): Promise<{
+    headers: string[]
+    data: RawData[]
+    errors: string[]
+    columnTypes?: Record<string, ColumnType>
+  }> {
+    try {
+      const result = await readParquet(file)
+
+      if (result.data.length === 0) {
+        return { headers: result.headers, data: [], errors: ['File contains no rows'] }
+      }
+
+      return { ...result, errors: [] }
+    } catch (error) {
+      return {
+        headers: [],
+        data: [],
+        errors: [`Failed to process Parquet file: ${error instanceof Error ? error.message : 'Unknown error'}`]
+      }
+    }
+  }
+  
   /**
    * Validate file before processing
    */
   static validateFile(file: File): ValidationResult {
     const errors: string[] = []
     
-    // Check file size (max 10MB)
-    const maxSize = 10 * 1024 * 1024 // 10MB
+    // Check file size; streamed and sliced files may be much larger
+    const fileType = this.getFileType(file)
+    const maxSize = fileType === 'csv' || fileType === 'ndjson' || fileType === 'parquet'
+      ? this.MAX_CSV_FILE_SIZE
+      : this.MAX_FILE_SIZE
     if (file.size > maxSize) {
-      errors.push(`File size (${(file.size / 1024 / 1024).toFixed(2)}MB) exceeds maximum allowed size (10MB)`)
+      errors.push(`File size (${(file.size / 1024 / 1024).toFixed(2)}MB) exceeds maximum allowed size (${maxSize / 1024 / 1024}MB)`)
     }
     
     // Check file type
-    const allowedTypes = [
-      'text/csv',
-      'application/vnd.ms-excel',
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
-    ]
-    
-    const allowedExtensions = ['.csv', '.xls', '.xlsx']
-    const fileExtension = file.name.toLowerCase().substring(file.name.lastIndexOf('.'))
-    
-    if (!allowedTypes.includes(file.type) && !allowedExtensions.includes(fileExtension)) {
-      errors.push('File type not supported. Please upload CSV or Excel files only.')
+    if (fileType === 'unknown') {
+      errors.push('File type not supported. Please upload CSV, Excel, JSON, NDJSON or Parquet files only.')
     }
     
     // Check file name
@@ -281,49 +415,10 @@ export class FileProcessor {
     }
   }
   
-  /**
-   * Parse a single CSV line, handling quoted fields and commas
-   */
-  private static parseCSVLine(line: string): string[] {
-    const result: string[] = []
-    let current = ''
-    let inQuotes = false
-    let i = 0
-    
-    while (i < line.length) {
-      const char = line[i]
-      
-      if (char === '"') {
-        if (inQuotes && line[i + 1] === '"') {
-          // Escaped quote
-          current += '"'
-          i += 2
-        } else {
-          // Toggle quote state
-          inQuotes = !inQuotes
-          i++
-        }
-      } else if (char === ',' && !inQuotes) {
-        // Field separator
-        result.push(current.trim())
-        current = ''
-        i++
-      } else {
-        current += char
-        i++
-      }
-    }
-    
-    // Add the last field
-    result.push(current.trim())
-    
-    return result
-  }
-  
   /**
    * Get file type from file object
    */
-  static getFileType(file: File): 'csv' | 'excel' | 'unknown' {
+  static getFileType(file: File): ImportFileType | 'unknown' {
     const extension = file.name.toLowerCase().substring(file.name.lastIndexOf('.'))
     
     if (extension === '.csv' || file.type === 'text/csv') {
@@ -335,6 +430,20 @@ export class FileProcessor {
         file.type === 'application/vnd.ms-excel') {
       return 'excel'
     }
+
+    // Checked before JSON, as NDJSON is often served as plain JSON
+    if (extension === '.ndjson' || extension === '.jsonl' ||
+        file.type === 'application/x-ndjson' || file.type === 'application/jsonl') {
+      return 'ndjson'
+    }
+
+    if (extension === '.json' || file.type === 'application/json') {
+      return 'json'
+    }
+
+    if (extension === '.parquet' || file.type === 'application/vnd.apache.parquet') {
+      return 'parquet'
+    }
     
     return 'unknown'
   }
@@ -360,8 +469,8 @@ export class FileProcessor {
         continue
       }
       
-      // Check if all values are numbers
-      const numberValues = values.filter(val => !isNaN(Number(val)))
+      // Check if all values are numbers; Date objects convert to numbers too
+      const numberValues = values.filter(val => !(val instanceof Date) && !isNaN(Number(val)))
       if (numberValues.length === values.length) {
         types[header] = 'number'
         continue
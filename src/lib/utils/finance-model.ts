@@ -0,0 +1,209 @@
+import type { AHTData } from '@/types/aht';
+import type { PredictionResult, TranscriptData } from '@/types/transcript';
+import type {
+  ClientFinanceMonth,
+  FinanceFigures,
+  FinanceKind,
+  FinanceReport,
+  MonthlyFinance,
+  RateCard
+} from '@/types/finance';
+import type { FinanceConfig } from '@/lib/config/finance';
+import { FiscalCalendarConfig, getFiscalCalendarConfig } from '@/lib/config/fiscal-calendar';
+import { requiredHours } from './capacity-planning';
+import { ahtMonthKeyFromYearMonth, ahtMonthKeyToDate } from './aht-import';
+import { round } from './numbers';
+import { calendarMonthKey, totalsByCalendarMonth } from './fiscal-calendar';
+
+/**
+ * Revenue, labor cost and margin per client per month. Revenue prices each
+ * month's volume by the client's rate card, or the default card; labor cost
+ * prices the staffed hours the volume needs at the client's review and
+ * validation AHT, worked out as for capacity plans. Actuals come from recorded
+ * volume in the requested months and forecasts from stored forecasts for the
+ * months after them. Reports stay on calendar months whatever the fiscal
+ * calendar, so forecast periods are spread over the calendar months they
+ * overlap by day, and months the forecast only partly covers are left out.
+ */
+
+export interface FinanceInputs {
+  transcripts: TranscriptData[];
+  forecasts: PredictionResult[];
+  ahtData: AHTData[];
+  rateCards: RateCard[];
+  // First and last months of actuals, YYYY-MM
+  startMonth: string;
+  endMonth: string;
+}
+
+interface ClientVolume {
+  clientName: string;
+  month: string;
+  kind: FinanceKind;
+  volume: number;
+}
+
+/**
+ * Charge for a month's volume under a rate card, never below its monthly minimum
+ */
+export function priceVolume(volume: number, card: Pick<RateCard, 'tierMode' | 'tiers' | 'monthlyMinimum'>): number {
+  let charge = 0;
+
+  if (card.tierMode === 'volume') {
+    const tier = card.tiers.find(t => t.upTo === null || volume <= t.upTo) ?? card.tiers[card.tiers.length - 1];
+    charge = tier ? volume * tier.rate : 0;
+  } else {
+    let lower = 0;
+    for (const tier of card.tiers) {
+      const upper = tier.upTo ?? Infinity;
+      if (volume <= lower) break;
+      charge += (Math.min(volume, upper) - lower) * tier.rate;
+      lower = upper;
+    }
+  }
+
+  return round(Math.max(charge, card.monthlyMinimum), 2);
+}
+
+/**
+ * The client's own rate card, matched by name ignoring case, or the default card
+ */
+export function rateCardFor(clientName: string, rateCards: RateCard[]): { card: RateCard; source: 'client' | 'default' } | null {
+  const own = rateCards.find(card => card.clientName?.toLowerCase() === clientName.toLowerCase());
+  if (own) return { card: own, source: 'client' };
+
+  const fallback = rateCards.find(card => card.clientId === null);
+  return fallback ? { card: fallback, source: 'default' } : null;
+}
+
+/**
+ * Review and validation AHT for a YYYY-MM month: the month's own when it was
+ * recorded, else the latest recorded before it, else the client's overall AHT
+ */
+export function ahtForMonth(client: AHTData, month: string): { reviewAHT: number; validationAHT: number } {
+  const recorded = client.monthlyAHT ?? {};
+  const own = recorded[ahtMonthKeyFromYearMonth(month)];
+  if (own) return own;
+
+  const earlier = Object.keys(recorded)
+    .map(key => ({ key, month: ahtMonthKeyToDate(key).slice(0, 7) }))
+    .filter(entry => entry.month < month)
+    .sort((a, b) => b.month.localeCompare(a.month))[0];
+
+  return earlier
+    ? recorded[earlier.key]
+    : { reviewAHT: client.reviewAHT, validationAHT: client.validationAHT };
+}
+
+function withMargin(volume: number, revenue: number, laborHours: number, laborCost: number): FinanceFigures {
+  const margin = revenue - laborCost;
+
+  return {
+    volume,
+    revenue: round(revenue, 2),
+    laborHours: round(laborHours, 1),
+    laborCost: round(laborCost, 2),
+    margin: round(margin, 2),
+    marginPercent: revenue > 0 ? round((margin / revenue) * 100, 1) : null
+  };
+}
+
+function sumFigures(items: FinanceFigures[]): FinanceFigures {
+  const total = (field: 'volume' | 'revenue' | 'laborHours' | 'laborCost') =>
+    items.reduce((sum, item) => sum + item[field], 0);
+
+  return withMargin(total('volume'), total('revenue'), total('laborHours'), total('laborCost'));
+}
+
+function clientVolumes(inputs: FinanceInputs, calendar: FiscalCalendarConfig): ClientVolume[] {
+  const volumes = new Map<string, ClientVolume>();
+  const add = (clientName: string, month: string, kind: FinanceKind, volume: number) => {
+    const key = `${clientName}|${month}`;
+    const current = volumes.get(key) ?? { clientName, month, kind, volume: 0 };
+    current.volume += volume;
+    volumes.set(key, current);
+  };
+
+  inputs.transcripts.forEach(record => {
+    const month = calendarMonthKey(record.date);
+    if (month >= inputs.startMonth && month <= inputs.endMonth) {
+      add(record.clientName, month, 'actual', record.transcriptCount);
+    }
+  });
+
+  inputs.forecasts.forEach(forecast => {
+    const predicted = forecast.predictions.map(prediction => ({ date: prediction.date, value: Math.max(0, prediction.predictedCount) }));
+    totalsByCalendarMonth(predicted, forecast.predictionType, calendar).forEach((volume, month) => {
+      if (month > inputs.endMonth) add(forecast.clientName, month, 'forecast', volume);
+    });
+  });
+
+  return Array.from(volumes.values()).map(entry => ({ ...entry, volume: Math.round(entry.volume) }));
+}
+
+/**
+ * Monthly revenue, labor cost and margin per client and in total, actuals
+ * then forecasts. Clients without a rate card bring in no revenue and clients
+ * without AHT data cost nothing; both are listed so the gaps are visible.
+ */
+export function buildFinanceReport(
+  inputs: FinanceInputs,
+  config: FinanceConfig,
+  calendar: FiscalCalendarConfig = getFiscalCalendarConfig()
+): FinanceReport {
+  if (inputs.startMonth > inputs.endMonth) {
+    throw new Error('Start month must not be after end month');
+  }
+  if (config.laborCostPerHour < 0) {
+    throw new Error('Labor cost per hour must not be negative');
+  }
+
+  const ahtByClient = new Map(inputs.ahtData.map(client => [client.client.toLowerCase(), client]));
+  const unpriced = new Set<string>();
+  const uncosted = new Set<string>();
+
+  const clients: ClientFinanceMonth[] = clientVolumes(inputs, calendar).map(({ clientName, month, kind, volume }) => {
+    const pricing = rateCardFor(clientName, inputs.rateCards);
+    if (!pricing) unpriced.add(clientName);
+
+    const ahtData = ahtByClient.get(clientName.toLowerCase());
+    if (!ahtData) uncosted.add(clientName);
+    const aht = ahtData ? ahtForMonth(ahtData, month) : null;
+
+    const revenue = pricing ? priceVolume(volume, pricing.card) : 0;
+    const laborHours = aht
+      ? requiredHours(volume, aht.reviewAHT, config.staffing) + requiredHours(volume, aht.validationAHT, config.staffing)
+      : 0;
+
+    return {
+      clientName,
+      month,
+      kind,
+      rateCard: pricing?.source ?? null,
+      reviewAHT: aht?.reviewAHT ?? null,
+      validationAHT: aht?.validationAHT ?? null,
+      ...withMargin(volume, revenue, laborHours, laborHours * config.laborCostPerHour)
+    };
+  });
+
+  clients.sort((a, b) => a.month.localeCompare(b.month) || a.clientName.localeCompare(b.clientName));
+
+  const months: MonthlyFinance[] = Array.from(new Set(clients.map(row => row.month)))
+    .sort()
+    .map(month => {
+      const inMonth = clients.filter(row => row.month === month);
+      return { month, kind: inMonth[0].kind, ...sumFigures(inMonth) };
+    });
+
+  const totalFor = (kind: FinanceKind) => sumFigures(clients.filter(row => row.kind === kind));
+
+  return {
+    currency: config.currency,
+    laborCostPerHour: config.laborCostPerHour,
+    clients,
+    months,
+    totals: { actual: totalFor('actual'), forecast: totalFor('forecast') },
+    unpricedClients: Array.from(unpriced).sort(),
+    uncostedClients: Array.from(uncosted).sort()
+  };
+}
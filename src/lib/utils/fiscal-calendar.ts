@@ -0,0 +1,251 @@
+import type { FiscalCalendarConfig } from '@/lib/config/fiscal-calendar';
+
+/**
+ * Shared period definitions for aggregation, forecasting and scheduling.
+ * Weeks start on the configured day. Months are either calendar months or
+ * the twelve periods of a 4-4-5 style fiscal year: each quarter is three
+ * periods of whole weeks, the year starts on the week start day nearest the
+ * 1st of its start month, and a 53rd week, when the year has one, goes to
+ * the last period. Fiscal years are named after the calendar year they
+ * nominally start in, so FY2025 with a January start begins on or near
+ * 1 January 2025.
+ */
+
+export type FiscalPeriodPattern = 'calendar' | '4-4-5' | '4-5-4' | '5-4-4';
+
+export type PeriodGranularity = 'daily' | 'weekly' | 'monthly';
+
+export interface FiscalPeriod {
+  fiscalYear: number;
+  /** 1 to 12 */
+  period: number;
+  start: Date;
+  /** Start of the next period */
+  end: Date;
+}
+
+const WEEKS_PER_QUARTER: Record<Exclude<FiscalPeriodPattern, 'calendar'>, number[]> = {
+  '4-4-5': [4, 4, 5],
+  '4-5-4': [4, 5, 4],
+  '5-4-4': [5, 4, 4]
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+// Whole local days from one date to another, unaffected by daylight saving changes
+function daysBetween(from: Date, to: Date): number {
+  return Math.round(
+    (Date.UTC(to.getFullYear(), to.getMonth(), to.getDate()) - Date.UTC(from.getFullYear(), from.getMonth(), from.getDate())) / DAY_MS
+  );
+}
+
+function formatDay(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+export function startOfWeek(date: Date | string, weekStart: number): Date {
+  const d = new Date(date);
+  return addDays(d, -((d.getDay() - weekStart + 7) % 7));
+}
+
+/**
+ * First day of a fiscal year
+ */
+export function fiscalYearStart(fiscalYear: number, config: FiscalCalendarConfig): Date {
+  const nominal = new Date(fiscalYear, config.yearStartMonth - 1, 1);
+  if (config.pattern === 'calendar') return nominal;
+
+  const weekStart = startOfWeek(nominal, config.weekStart);
+  return daysBetween(weekStart, nominal) <= 3 ? weekStart : addDays(weekStart, 7);
+}
+
+/**
+ * The twelve periods of a fiscal year, in order
+ */
+export function fiscalPeriods(fiscalYear: number, config: FiscalCalendarConfig): FiscalPeriod[] {
+  const start = fiscalYearStart(fiscalYear, config);
+
+  if (config.pattern === 'calendar') {
+    return Array.from({ length: 12 }, (_, i) => ({
+      fiscalYear,
+      period: i + 1,
+      start: new Date(start.getFullYear(), start.getMonth() + i, 1),
+      end: new Date(start.getFullYear(), start.getMonth() + i + 1, 1)
+    }));
+  }
+
+  const quarter = WEEKS_PER_QUARTER[config.pattern];
+  const nextYear = fiscalYearStart(fiscalYear + 1, config);
+  const periods: FiscalPeriod[] = [];
+  let periodStart = start;
+
+  for (let i = 0; i < 12; i++) {
+    const end = i === 11 ? nextYear : addDays(periodStart, quarter[i % 3] * 7);
+    periods.push({ fiscalYear, period: i + 1, start: periodStart, end });
+    periodStart = end;
+  }
+
+  return periods;
+}
+
+export function fiscalYearOf(date: Date | string, config: FiscalCalendarConfig): number {
+  const d = new Date(date);
+  const year = d.getFullYear();
+
+  if (d >= fiscalYearStart(year + 1, config)) return year + 1;
+  return d >= fiscalYearStart(year, config) ? year : year - 1;
+}
+
+/**
+ * The fiscal period, or calendar month, containing a date
+ */
+export function fiscalPeriodOf(date: Date | string, config: FiscalCalendarConfig): FiscalPeriod {
+  const d = new Date(date);
+  const periods = fiscalPeriods(fiscalYearOf(d, config), config);
+  return periods.find(period => d < period.end) ?? periods[periods.length - 1];
+}
+
+// Running period number, so periods in different years can be counted between
+function periodIndex(period: FiscalPeriod): number {
+  return period.fiscalYear * 12 + period.period - 1;
+}
+
+/**
+ * Start of the day, week or period containing a date
+ */
+export function periodStart(date: Date | string, granularity: PeriodGranularity, config: FiscalCalendarConfig): Date {
+  const d = new Date(date);
+
+  switch (granularity) {
+    case 'daily':
+      return new Date(d.getFullYear(), d.getMonth(), d.getDate());
+    case 'weekly':
+      return startOfWeek(d, config.weekStart);
+    case 'monthly':
+      return fiscalPeriodOf(d, config).start;
+  }
+}
+
+/**
+ * Start of the day, week or period after the one containing a date
+ */
+export function periodEnd(date: Date | string, granularity: PeriodGranularity, config: FiscalCalendarConfig): Date {
+  switch (granularity) {
+    case 'daily':
+      return addDays(periodStart(date, 'daily', config), 1);
+    case 'weekly':
+      return addDays(startOfWeek(date, config.weekStart), 7);
+    case 'monthly':
+      return fiscalPeriodOf(date, config).end;
+  }
+}
+
+/**
+ * Move a date by whole periods. Days and weeks keep the day of the week;
+ * months land on the start of the period.
+ */
+export function addPeriods(date: Date | string, count: number, granularity: PeriodGranularity, config: FiscalCalendarConfig): Date {
+  const d = new Date(date);
+
+  switch (granularity) {
+    case 'daily':
+      return addDays(d, count);
+    case 'weekly':
+      return addDays(d, count * 7);
+    case 'monthly': {
+      const index = periodIndex(fiscalPeriodOf(d, config)) + count;
+      const fiscalYear = Math.floor(index / 12);
+      return fiscalPeriods(fiscalYear, config)[index - fiscalYear * 12].start;
+    }
+  }
+}
+
+/**
+ * Whole periods from the one containing `from` to the one containing `to`
+ */
+export function periodsBetween(from: Date | string, to: Date | string, granularity: PeriodGranularity, config: FiscalCalendarConfig): number {
+  switch (granularity) {
+    case 'daily':
+      return daysBetween(new Date(from), new Date(to));
+    case 'weekly':
+      return Math.round(daysBetween(startOfWeek(from, config.weekStart), startOfWeek(to, config.weekStart)) / 7);
+    case 'monthly':
+      return periodIndex(fiscalPeriodOf(to, config)) - periodIndex(fiscalPeriodOf(from, config));
+  }
+}
+
+/**
+ * Sortable key of the day, week or period containing a date. Days and weeks
+ * are keyed by their first day, YYYY-MM-DD; calendar months by YYYY-MM and
+ * fiscal periods by fiscal year and period, e.g. FY2025-P03.
+ */
+export function periodKey(date: Date | string, granularity: PeriodGranularity, config: FiscalCalendarConfig): string {
+  if (granularity !== 'monthly') {
+    return formatDay(periodStart(date, granularity, config));
+  }
+
+  const period = fiscalPeriodOf(date, config);
+  if (config.pattern === 'calendar') {
+    return formatDay(period.start).slice(0, 7);
+  }
+  return `FY${period.fiscalYear}-P${String(period.period).padStart(2, '0')}`;
+}
+
+/**
+ * YYYY-MM calendar month of a date, for reports kept on calendar months
+ * whatever the fiscal pattern
+ */
+export function calendarMonthKey(date: Date | string): string {
+  return formatDay(new Date(date)).slice(0, 7);
+}
+
+/**
+ * Move a YYYY-MM calendar month by whole months
+ */
+export function addCalendarMonths(month: string, count: number): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return calendarMonthKey(new Date(year, monthNumber - 1 + count, 1));
+}
+
+/**
+ * Totals of days, weeks or periods spread over the calendar months they
+ * overlap, in proportion to their days in each. Months the periods only
+ * partly cover are left out rather than reported short.
+ */
+export function totalsByCalendarMonth(
+  values: Array<{ date: Date | string; value: number }>,
+  granularity: PeriodGranularity,
+  config: FiscalCalendarConfig
+): Map<string, number> {
+  const totals = new Map<string, { value: number; days: number; daysInMonth: number }>();
+
+  values.forEach(({ date, value }) => {
+    const start = periodStart(date, granularity, config);
+    const end = periodEnd(date, granularity, config);
+    const periodDays = daysBetween(start, end);
+
+    for (let cursor = start; cursor < end;) {
+      const monthEnd = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 1);
+      const next = monthEnd < end ? monthEnd : end;
+      const days = daysBetween(cursor, next);
+      const month = calendarMonthKey(cursor);
+      const current = totals.get(month) ??
+        { value: 0, days: 0, daysInMonth: daysBetween(new Date(cursor.getFullYear(), cursor.getMonth(), 1), monthEnd) };
+
+      current.value += (value * days) / periodDays;
+      current.days += days;
+      totals.set(month, current);
+      cursor = next;
+    }
+  });
+
+  return new Map(
+    Array.from(totals.entries())
+      .filter(([, total]) => total.days >= total.daysInMonth)
+      .map(([month, total]) => [month, total.value])
+  );
+}
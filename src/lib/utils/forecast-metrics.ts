@@ -0,0 +1,143 @@
+/**
+ * Forecast accuracy metrics for out-of-sample evaluation.
+ *
+ * Metrics return null instead of a misleading zero when they are undefined
+ * for the supplied data (e.g. MAPE over all-zero actuals).
+ */
+
+export interface AccuracyMetrics {
+  /** Mean absolute percentage error, in percent */
+  mape: number | null;
+  /** Symmetric mean absolute percentage error, in percent (0-200) */
+  smape: number | null;
+  /** Mean absolute scaled error relative to an in-sample naive forecast */
+  mase: number | null;
+  rmse: number | null;
+  /** Share of actuals that fell inside their prediction interval (0-1) */
+  coverage: number | null;
+  count: number;
+}
+
+export interface ForecastOutcome {
+  actual: number;
+  predicted: number;
+  lower?: number;
+  upper?: number;
+  /** In-sample naive MAE of the training window the forecast came from, see naiveScale */
+  scale?: number | null;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+function assertSameLength(actual: number[], predicted: number[]): void {
+  if (actual.length !== predicted.length) {
+    throw new Error('Actual and predicted series must have the same length');
+  }
+}
+
+/**
+ * Mean absolute percentage error. Periods with a zero actual are skipped.
+ */
+export function mape(actual: number[], predicted: number[]): number | null {
+  assertSameLength(actual, predicted);
+  const errors = actual
+    .map((value, i) => (value !== 0 ? Math.abs((value - predicted[i]) / value) * 100 : null))
+    .filter((error): error is number => error !== null);
+
+  return average(errors);
+}
+
+/**
+ * Symmetric MAPE. A period where both actual and forecast are zero counts as a perfect forecast.
+ */
+export function smape(actual: number[], predicted: number[]): number | null {
+  assertSameLength(actual, predicted);
+  return average(actual.map((value, i) => {
+    const denominator = Math.abs(value) + Math.abs(predicted[i]);
+    return denominator === 0 ? 0 : (200 * Math.abs(value - predicted[i])) / denominator;
+  }));
+}
+
+/**
+ * Root mean squared error
+ */
+export function rmse(actual: number[], predicted: number[]): number | null {
+  assertSameLength(actual, predicted);
+  const meanSquared = average(actual.map((value, i) => Math.pow(value - predicted[i], 2)));
+  return meanSquared === null ? null : Math.sqrt(meanSquared);
+}
+
+/**
+ * Mean absolute error of the (seasonal) naive forecast over a training series.
+ * Used as the MASE denominator; null when the series is too short or constant.
+ */
+export function naiveScale(training: number[], seasonality: number = 1): number | null {
+  const lag = Math.max(1, Math.round(seasonality));
+  if (training.length <= lag) {
+    return null;
+  }
+
+  const scale = average(training.slice(lag).map((value, i) => Math.abs(value - training[i])));
+  return scale === null || scale === 0 ? null : scale;
+}
+
+/**
+ * Mean absolute scaled error against the naive forecast on the training series
+ */
+export function mase(
+  actual: number[],
+  predicted: number[],
+  training: number[],
+  seasonality: number = 1
+): number | null {
+  assertSameLength(actual, predicted);
+  const scale = naiveScale(training, seasonality);
+  if (scale === null) {
+    return null;
+  }
+
+  const mae = average(actual.map((value, i) => Math.abs(value - predicted[i])));
+  return mae === null ? null : mae / scale;
+}
+
+/**
+ * Fraction of actuals within their [lower, upper] prediction interval
+ */
+export function intervalCoverage(actual: number[], lower: number[], upper: number[]): number | null {
+  if (actual.length !== lower.length || actual.length !== upper.length) {
+    throw new Error('Actual values and interval bounds must have the same length');
+  }
+
+  return average(actual.map((value, i) => (value >= lower[i] && value <= upper[i] ? 1 : 0)));
+}
+
+/**
+ * Aggregate accuracy over forecasts pooled from several origins. Each outcome
+ * carries the naive scale of its own training window, so MASE stays comparable
+ * when windows differ.
+ */
+export function calculateAccuracyMetrics(outcomes: ForecastOutcome[]): AccuracyMetrics {
+  const actual = outcomes.map(o => o.actual);
+  const predicted = outcomes.map(o => o.predicted);
+
+  const scaledErrors = outcomes
+    .filter(o => o.scale !== undefined && o.scale !== null)
+    .map(o => Math.abs(o.actual - o.predicted) / (o.scale as number));
+
+  const withIntervals = outcomes.filter(o => o.lower !== undefined && o.upper !== undefined);
+
+  return {
+    mape: mape(actual, predicted),
+    smape: smape(actual, predicted),
+    mase: average(scaledErrors),
+    rmse: rmse(actual, predicted),
+    coverage: intervalCoverage(
+      withIntervals.map(o => o.actual),
+      withIntervals.map(o => o.lower as number),
+      withIntervals.map(o => o.upper as number)
+    ),
+    count: outcomes.length
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Reconciliation for a two-level forecast hierarchy: a total series that is the
+ * sum of its child series (all clients and each client).
+ *
+ * Base forecasts for every node are produced independently and will not add up.
+ * Reconciliation returns coherent forecasts where each horizon's total equals
+ * the sum of the children.
+ */
+
+export type ReconciliationMethod = 'bottom-up' | 'top-down' | 'mint';
+
+export interface NodeForecast {
+  /** Point forecast per horizon step */
+  mean: number[];
+  /** Forecast error variance per horizon step */
+  variance: number[];
+}
+
+export interface ReconciledForecasts {
+  total: NodeForecast;
+  children: NodeForecast[];
+}
+
+export interface ReconciliationOptions {
+  /** Child shares of the total, required for top-down */
+  proportions?: number[];
+}
+
+/**
+ * Top-down proportions from historical averages: each child's mean over the
+ * total's mean. Histories must be aligned on the same periods.
+ */
+export function historicalProportions(children: number[][]): number[] {
+  const sums = children.map(series => series.reduce((sum, v) => sum + v, 0));
+  const total = sums.reduce((sum, v) => sum + v, 0);
+
+  if (total === 0) {
+    return children.map(() => 1 / children.length);
+  }
+
+  return sums.map(sum => sum / total);
+}
+
+function bottomUp(children: NodeForecast[], horizon: number): ReconciledForecasts {
+  return {
+    total: {
+      mean: Array.from({ length: horizon }, (_, h) => children.reduce((sum, c) => sum + c.mean[h], 0)),
+      // Child errors treated as independent
+      variance: Array.from({ length: horizon }, (_, h) => children.reduce((sum, c) => sum + c.variance[h], 0))
+    },
+    children: children.map(c => ({ mean: [...c.mean], variance: [...c.variance] }))
+  };
+}
+
+function topDown(total: NodeForecast, childCount: number, proportions: number[] | undefined): ReconciledForecasts {
+  if (!proportions || proportions.length !== childCount) {
+    throw new Error('Top-down reconciliation requires one proportion per child series');
+  }
+
+  return {
+    total: { mean: [...total.mean], variance: [...total.variance] },
+    children: proportions.map(p => ({
+      mean: total.mean.map(m => m * p),
+      variance: total.variance.map(v => v * p * p)
+    }))
+  };
+}
+
+/**
+ * Minimum trace reconciliation with a diagonal error covariance (WLS). Each
+ * node moves to close the coherence gap in proportion to its forecast variance,
+ * so the least certain forecasts absorb most of the adjustment.
+ */
+function minTrace(total: NodeForecast, children: NodeForecast[], horizon: number): ReconciledForecasts {
+  const reconciledTotal: NodeForecast = { mean: [], variance: [] };
+  const reconciledChildren: NodeForecast[] = children.map(() => ({ mean: [], variance: [] }));
+
+  for (let h = 0; h < horizon; h++) {
+    // Guard against zero variances so every node keeps a positive weight
+    const w0 = Math.max(total.variance[h], 1e-9);
+    const w = children.map(c => Math.max(c.variance[h], 1e-9));
+    const denominator = w0 + w.reduce((sum, v) => sum + v, 0);
+    const gap = total.mean[h] - children.reduce((sum, c) => sum + c.mean[h], 0);
+
+    // Minimising sum((y~ - y^)^2 / w) subject to total = sum(children)
+    const lambda = gap / denominator;
+    reconciledTotal.mean.push(total.mean[h] - w0 * lambda);
+    reconciledTotal.variance.push(
+      w0 * Math.pow(1 - w0 / denominator, 2) + Math.pow(w0 / denominator, 2) * (denominator - w0)
+    );
+
+    children.forEach((child, i) => {
+      const share = w[i] / denominator;
+      reconciledChildren[i].mean.push(child.mean[h] + w[i] * lambda);
+      reconciledChildren[i].variance.push(
+        w[i] * Math.pow(1 - share, 2) + share * share * (denominator - w[i])
+      );
+    });
+  }
+
+  return { total: reconciledTotal, children: reconciledChildren };
+}
+
+/**
+ * Reconcile a total forecast with its child forecasts
+ */
+export function reconcileForecasts(
+  total: NodeForecast,
+  children: NodeForecast[],
+  method: ReconciliationMethod,
+  options: ReconciliationOptions = {}
+): ReconciledForecasts {
+  if (children.length === 0) {
+    throw new Error('Reconciliation requires at least one child series');
+  }
+
+  const horizon = total.mean.length;
+  if (children.some(c => c.mean.length !== horizon || c.variance.length !== horizon) || total.variance.length !== horizon) {
+    throw new Error('All forecasts must cover the same horizon');
+  }
+
+  switch (method) {
+    case 'bottom-up':
+      return bottomUp(children, horizon);
+    case 'top-down':
+      return topDown(total, children.length, options.proportions);
+    case 'mint':
+      return minTrace(total, children, horizon);
+    default:
+      throw new Error(`Unsupported reconciliation method: ${method}`);
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Public holiday sets by country, generated per year so they can be imported
+ * into the events calendar without maintaining date tables.
+ */
+
+export type HolidayCountry = 'US' | 'GB' | 'CA';
+
+export const HOLIDAY_COUNTRIES: HolidayCountry[] = ['US', 'GB', 'CA'];
+
+export interface Holiday {
+  name: string;
+  date: Date;
+}
+
+/**
+ * Nth weekday of a month (weekday 0 = Sunday); a negative n counts from the end
+ */
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  if (n > 0) {
+    const first = new Date(year, month, 1);
+    const offset = (weekday - first.getDay() + 7) % 7;
+    return new Date(year, month, 1 + offset + (n - 1) * 7);
+  }
+
+  const last = new Date(year, month + 1, 0);
+  const offset = (last.getDay() - weekday + 7) % 7;
+  return new Date(year, month, last.getDate() - offset + (n + 1) * 7);
+}
+
+/**
+ * Western Easter Sunday (anonymous Gregorian algorithm)
+ */
+export function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31) - 1;
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return new Date(year, month, day);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Move a weekend holiday to the nearest weekday: Saturday to Friday and
+ * Sunday to Monday (US federal rule)
+ */
+function observedNearest(date: Date): Date {
+  if (date.getDay() === 6) return addDays(date, -1);
+  if (date.getDay() === 0) return addDays(date, 1);
+  return date;
+}
+
+/**
+ * Move a weekend holiday to the following Monday (UK and Canadian substitute day)
+ */
+function observedMonday(date: Date): Date {
+  if (date.getDay() === 6) return addDays(date, 2);
+  if (date.getDay() === 0) return addDays(date, 1);
+  return date;
+}
+
+function usHolidays(year: number): Holiday[] {
+  return [
+    { name: "New Year's Day", date: observedNearest(new Date(year, 0, 1)) },
+    { name: 'Martin Luther King Jr. Day', date: nthWeekday(year, 0, 1, 3) },
+    { name: "Presidents' Day", date: nthWeekday(year, 1, 1, 3) },
+    { name: 'Memorial Day', date: nthWeekday(year, 4, 1, -1) },
+    { name: 'Juneteenth', date: observedNearest(new Date(year, 5, 19)) },
+    { name: 'Independence Day', date: observedNearest(new Date(year, 6, 4)) },
+    { name: 'Labor Day', date: nthWeekday(year, 8, 1, 1) },
+    { name: 'Columbus Day', date: nthWeekday(year, 9, 1, 2) },
+    { name: 'Veterans Day', date: observedNearest(new Date(year, 10, 11)) },
+    { name: 'Thanksgiving Day', date: nthWeekday(year, 10, 4, 4) },
+    { name: 'Christmas Day', date: observedNearest(new Date(year, 11, 25)) }
+  ];
+}
+
+/**
+ * Christmas and Boxing Day substitutes, keeping the two days distinct
+ */
+function christmasHolidays(year: number): Holiday[] {
+  const christmas = new Date(year, 11, 25);
+  const christmasObserved = observedMonday(christmas);
+  let boxingDay = observedMonday(new Date(year, 11, 26));
+  if (boxingDay.getTime() === christmasObserved.getTime()) {
+    boxingDay = addDays(boxingDay, 1);
+  }
+
+  return [
+    { name: 'Christmas Day', date: christmasObserved },
+    { name: 'Boxing Day', date: boxingDay }
+  ];
+}
+
+function gbHolidays(year: number): Holiday[] {
+  const easter = easterSunday(year);
+
+  return [
+    { name: "New Year's Day", date: observedMonday(new Date(year, 0, 1)) },
+    { name: 'Good Friday', date: addDays(easter, -2) },
+    { name: 'Easter Monday', date: addDays(easter, 1) },
+    { name: 'Early May Bank Holiday', date: nthWeekday(year, 4, 1, 1) },
+    { name: 'Spring Bank Holiday', date: nthWeekday(year, 4, 1, -1) },
+    { name: 'Summer Bank Holiday', date: nthWeekday(year, 7, 1, -1) },
+    ...christmasHolidays(year)
+  ];
+}
+
+function caHolidays(year: number): Holiday[] {
+  // Victoria Day: the Monday before May 25
+  const may25 = new Date(year, 4, 25);
+  const victoriaDay = addDays(may25, -(((may25.getDay() + 6) % 7) || 7));
+
+  return [
+    { name: "New Year's Day", date: observedMonday(new Date(year, 0, 1)) },
+    { name: 'Good Friday', date: addDays(easterSunday(year), -2) },
+    { name: 'Victoria Day', date: victoriaDay },
+    { name: 'Canada Day', date: observedMonday(new Date(year, 6, 1)) },
+    { name: 'Labour Day', date: nthWeekday(year, 8, 1, 1) },
+    { name: 'Thanksgiving', date: nthWeekday(year, 9, 1, 2) },
+    ...christmasHolidays(year)
+  ];
+}
+
+/**
+ * Public holidays for a country and year, on their observed dates
+ */
+export function countryHolidays(countryCode: HolidayCountry, year: number): Holiday[] {
+  switch (countryCode) {
+    case 'US':
+      return usHolidays(year);
+    case 'GB':
+      return gbHolidays(year);
+    case 'CA':
+      return caHolidays(year);
+    default:
+      throw new Error(`Unsupported holiday country: ${countryCode}`);
+  }
+}
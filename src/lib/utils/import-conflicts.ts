@@ -0,0 +1,123 @@
+import type { TranscriptData } from '@/types/transcript';
+import type {
+  ConflictResolutionChoice,
+  ImportConflict,
+  ImportConflictType,
+  MergedImportData,
+  StagedImportRow
+} from '@/types/import-batch';
+
+/**
+ * Conflicts between staged import rows and existing transcripts, and the
+ * rows a batch commits once each conflict has a resolution. Transcripts are
+ * unique per client and date, so a row conflicts with at most one existing
+ * record. Rows replacing a record carry its id; rows whose conflict keeps
+ * the existing record, or is skipped, are left out.
+ */
+
+export type ImportStrategy = 'merge' | 'replace' | 'skip';
+
+export interface ResolvedImportRow extends StagedImportRow {
+  replaceTranscriptId?: string;
+}
+
+export interface ResolvedImport {
+  rows: ResolvedImportRow[];
+  skipped: number;
+  /** Ids of conflicts still waiting for a resolution */
+  unresolved: string[];
+}
+
+type ConflictResolutionInput = Pick<ImportConflict, 'id' | 'rowNumber' | 'existingRecord' | 'resolution' | 'mergedData'>;
+
+export function conflictTypeOf(row: StagedImportRow, existing: TranscriptData): ImportConflictType {
+  return row.transcriptCount === existing.transcriptCount ? 'duplicate' : 'count_difference';
+}
+
+export function generateDifferences(row: StagedImportRow, existing: TranscriptData): string[] {
+  const differences: string[] = [];
+
+  if (row.transcriptCount !== existing.transcriptCount) {
+    differences.push(`Transcript count: ${existing.transcriptCount} → ${row.transcriptCount}`);
+  }
+
+  if ((row.transcriptType || null) !== (existing.transcriptType || null)) {
+    differences.push(`Type: "${existing.transcriptType || 'None'}" → "${row.transcriptType || 'None'}"`);
+  }
+
+  if ((row.notes || null) !== (existing.notes || null)) {
+    differences.push(`Notes: "${existing.notes || 'None'}" → "${row.notes || 'None'}"`);
+  }
+
+  if (differences.length === 0) {
+    differences.push('Exact duplicate record');
+  }
+
+  return differences;
+}
+
+/**
+ * Default merge: the higher count, the imported type if it has one, and both
+ * sets of notes
+ */
+export function mergeRecords(row: StagedImportRow, existing: TranscriptData): MergedImportData {
+  const notes = Array.from(new Set([existing.notes, row.notes].filter(Boolean))).join(' | ');
+
+  return {
+    transcriptCount: Math.max(row.transcriptCount, existing.transcriptCount),
+    transcriptType: row.transcriptType || existing.transcriptType,
+    notes: notes || undefined
+  };
+}
+
+/**
+ * Resolution applied to every conflict when an import names a strategy
+ * instead of asking
+ */
+export function resolutionForStrategy(strategy: ImportStrategy): ConflictResolutionChoice {
+  switch (strategy) {
+    case 'replace':
+      return 'use_new';
+    case 'merge':
+      return 'merge';
+    case 'skip':
+      return 'skip';
+  }
+}
+
+export function resolveImport(rows: StagedImportRow[], conflicts: ConflictResolutionInput[]): ResolvedImport {
+  const conflictsByRow = new Map(conflicts.map(conflict => [conflict.rowNumber, conflict]));
+  const resolved: ResolvedImport = { rows: [], skipped: 0, unresolved: [] };
+
+  for (const row of rows) {
+    const conflict = conflictsByRow.get(row.rowNumber);
+
+    if (!conflict) {
+      resolved.rows.push(row);
+      continue;
+    }
+
+    switch (conflict.resolution) {
+      case null:
+        resolved.unresolved.push(conflict.id);
+        break;
+      case 'use_existing':
+      case 'skip':
+        resolved.skipped++;
+        break;
+      case 'use_new':
+        resolved.rows.push({ ...row, replaceTranscriptId: conflict.existingRecord.id });
+        break;
+      case 'merge':
+        resolved.rows.push({
+          ...row,
+          ...mergeRecords(row, conflict.existingRecord),
+          ...conflict.mergedData,
+          replaceTranscriptId: conflict.existingRecord.id
+        });
+        break;
+    }
+  }
+
+  return resolved;
+}
@@ -0,0 +1,124 @@
+import type { RawData } from '@/types/transcript';
+import type { ImportProfile, ImportValueTransform } from '@/types/import-profile';
+import { DataTransformer } from './data-transformers';
+
+/**
+ * Saved import profiles: how a source's columns map onto transcript fields,
+ * the date format it uses, value transforms per field, a default transcript
+ * type and, for workbooks, the sheet to read. A file matches a profile when
+ * its header fingerprint does, which ignores column order, case, spacing and
+ * punctuation, so the same export matches however its columns are shuffled.
+ */
+
+// Column added to rows for the profile's default type when the file has none
+export const PROFILE_TYPE_COLUMN = '__profileTranscriptType';
+
+export function headerFingerprint(headers: string[]): string {
+  const normalized = headers
+    .map(header => header.toLowerCase().replace(/[^a-z0-9]+/g, ''))
+    .filter(header => header.length > 0);
+
+  return Array.from(new Set(normalized)).sort().join('|');
+}
+
+/**
+ * True when every column the profile maps is in the file
+ */
+export function isProfileCompatible(headers: string[], profile: ImportProfile): boolean {
+  return Object.values(profile.columnMapping)
+    .filter(Boolean)
+    .every(header => headers.includes(header));
+}
+
+/**
+ * Profile saved for this header layout, preferring the user's own profiles
+ * over team ones and then the most recently updated
+ */
+export function matchImportProfile(headers: string[], profiles: ImportProfile[]): ImportProfile | null {
+  const fingerprint = headerFingerprint(headers);
+
+  const matches = profiles
+    .filter(profile => profile.headerFingerprint === fingerprint && isProfileCompatible(headers, profile))
+    .sort((a, b) => {
+      if (a.scope !== b.scope) return a.scope === 'personal' ? -1 : 1;
+      return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+    });
+
+  return matches[0] ?? null;
+}
+
+export function applyValueTransforms(value: string, transforms: ImportValueTransform[]): string {
+  return transforms.reduce((current, transform) => {
+    switch (transform.type) {
+      case 'trim':
+        return current.trim();
+      case 'uppercase':
+        return current.toUpperCase();
+      case 'lowercase':
+        return current.toLowerCase();
+      case 'titlecase':
+        return current.toLowerCase().replace(/(^|[\s-])(\S)/g, (_, separator: string, letter: string) =>
+          separator + letter.toUpperCase()
+        );
+      case 'replace':
+        return transform.find ? current.split(transform.find).join(transform.replace) : current;
+      case 'map':
+        return transform.values[current] ?? current;
+      case 'scale': {
+        // Left as is when not a number, so validation reports the original value
+        const number = Number(current.replace(/[,\s]/g, ''));
+        return current.trim() !== '' && Number.isFinite(number) ? String(number * transform.factor) : current;
+      }
+    }
+  }, value);
+}
+
+/**
+ * Rows with the profile's transforms applied to the mapped columns, dates
+ * rewritten as YYYY-MM-DD from the profile's format, and blank or unmapped
+ * transcript types filled with its default. Dates that do not parse are left
+ * for validation to report.
+ */
+export function applyImportProfile(
+  data: RawData[],
+  columnMapping: Record<string, string>,
+  profile: ImportProfile
+): { data: RawData[]; columnMapping: Record<string, string> } {
+  const mapping = { ...columnMapping };
+  const typeHeader = mapping.transcriptType;
+
+  if (profile.defaultTranscriptType && !typeHeader) {
+    mapping.transcriptType = PROFILE_TYPE_COLUMN;
+  }
+
+  const rows = data.map(source => {
+    const row: RawData = { ...source };
+
+    for (const [field, transforms] of Object.entries(profile.transforms)) {
+      const header = mapping[field];
+      if (!header || transforms.length === 0 || row[header] === undefined || row[header] instanceof Date) continue;
+      row[header] = applyValueTransforms(String(row[header]), transforms);
+    }
+
+    const dateHeader = mapping.date;
+    const date = dateHeader ? row[dateHeader] : undefined;
+    if (dateHeader && typeof date === 'string' && date.trim() !== '') {
+      try {
+        row[dateHeader] = DataTransformer.parseDateWithFormat(date, profile.dateFormat).toISOString().split('T')[0];
+      } catch {
+        // Reported by validation
+      }
+    }
+
+    if (profile.defaultTranscriptType) {
+      const type = typeHeader ? row[typeHeader] : undefined;
+      if (!typeHeader || type === undefined || String(type).trim() === '') {
+        row[typeHeader || PROFILE_TYPE_COLUMN] = profile.defaultTranscriptType;
+      }
+    }
+
+    return row;
+  });
+
+  return { data: rows, columnMapping: mapping };
+}
@@ -0,0 +1,7 @@
+/**
+ * Round to a number of decimal places
+ */
+export function round(value: number, places: number): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
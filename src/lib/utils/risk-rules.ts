@@ -0,0 +1,152 @@
+import type { AHTData } from '@/types/aht';
+import type {
+  ClientRiskMetrics,
+  RiskAssessment,
+  RiskLevel,
+  RiskMetric,
+  RiskOperator,
+  RiskRule,
+  RiskRuleResult,
+  RiskSignals
+} from '@/types/risk';
+import type { RiskScoringConfig } from '@/lib/config/risk';
+import { round } from './numbers';
+
+/**
+ * Weighted client risk rules. Each rule compares one client metric with a
+ * threshold; the risk score is the weight of the rules that fired as a share
+ * of the weight of the rules the client has data for, so a missing signal
+ * (e.g. no stored forecasts yet) neither raises nor dilutes the score.
+ */
+
+export const RISK_METRIC_LABELS: Record<RiskMetric, string> = {
+  overallAHT: 'Overall AHT',
+  reviewAHT: 'Review AHT',
+  validationAHT: 'Validation AHT',
+  totalVolume: 'Total volume',
+  volumeGrowth: 'Volume growth (%)',
+  volumeVolatility: 'Volume volatility (%)',
+  forecastError: 'Forecast error (sMAPE %)',
+  slaMisses: 'SLA misses'
+};
+
+export const RISK_OPERATOR_SYMBOLS: Record<RiskOperator, string> = {
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤'
+};
+
+// Rules in effect until an admin saves their own
+export const DEFAULT_RISK_RULES: RiskRule[] = [
+  { id: 'default-high-aht', name: 'High AHT', metric: 'overallAHT', operator: 'gt', threshold: 15, weight: 3, enabled: true },
+  { id: 'default-elevated-aht', name: 'Elevated AHT', metric: 'overallAHT', operator: 'gt', threshold: 10, weight: 2, enabled: true },
+  { id: 'default-high-volume', name: 'High volume', metric: 'totalVolume', operator: 'gt', threshold: 5000, weight: 3, enabled: true },
+  { id: 'default-volume-growth', name: 'Fast volume growth', metric: 'volumeGrowth', operator: 'gt', threshold: 25, weight: 2, enabled: true },
+  { id: 'default-volatility', name: 'Volatile volume', metric: 'volumeVolatility', operator: 'gt', threshold: 50, weight: 1, enabled: true },
+  { id: 'default-forecast-error', name: 'Poor forecast accuracy', metric: 'forecastError', operator: 'gt', threshold: 30, weight: 2, enabled: true },
+  { id: 'default-sla-misses', name: 'SLA misses', metric: 'slaMisses', operator: 'gte', threshold: 1, weight: 3, enabled: true }
+];
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+/**
+ * Metric values for a client over the given months (oldest first). Volume
+ * growth compares the last `growthMonths` months with the same number before
+ * them; volatility is the coefficient of variation of the monthly volumes.
+ */
+export function calculateRiskMetrics(
+  client: AHTData,
+  months: string[],
+  signals: RiskSignals,
+  growthMonths: number
+): ClientRiskMetrics {
+  const volumes = months.map(month => client.monthlyData[month] || 0);
+
+  let volumeGrowth: number | null = null;
+  if (volumes.length >= growthMonths * 2) {
+    const recent = sum(volumes.slice(-growthMonths));
+    const previous = sum(volumes.slice(-growthMonths * 2, -growthMonths));
+    volumeGrowth = previous > 0 ? round(((recent - previous) / previous) * 100, 2) : null;
+  }
+
+  let volumeVolatility: number | null = null;
+  const mean = volumes.length > 0 ? sum(volumes) / volumes.length : 0;
+  if (volumes.length >= 2 && mean > 0) {
+    const variance = sum(volumes.map(volume => Math.pow(volume - mean, 2))) / volumes.length;
+    volumeVolatility = round((Math.sqrt(variance) / mean) * 100, 2);
+  }
+
+  const key = client.client.toLowerCase();
+
+  return {
+    overallAHT: client.overallAHT,
+    reviewAHT: client.reviewAHT,
+    validationAHT: client.validationAHT,
+    totalVolume: client.grandTotal,
+    volumeGrowth,
+    volumeVolatility,
+    forecastError: signals.forecastErrors?.[key] ?? null,
+    slaMisses: signals.slaMisses?.[key] ?? null
+  };
+}
+
+function compare(value: number, operator: RiskOperator, threshold: number): boolean {
+  switch (operator) {
+    case 'gt': return value > threshold;
+    case 'gte': return value >= threshold;
+    case 'lt': return value < threshold;
+    case 'lte': return value <= threshold;
+  }
+}
+
+export function riskLevelForScore(score: number, config: Pick<RiskScoringConfig, 'highScore' | 'mediumScore'>): RiskLevel {
+  if (score >= config.highScore) return 'high';
+  if (score >= config.mediumScore) return 'medium';
+  return 'low';
+}
+
+/**
+ * Score a client's metrics against the enabled rules and explain each result
+ */
+export function evaluateRiskRules(
+  metrics: ClientRiskMetrics,
+  rules: RiskRule[],
+  config: Pick<RiskScoringConfig, 'highScore' | 'mediumScore'>
+): RiskAssessment {
+  const results: RiskRuleResult[] = rules
+    .filter(rule => rule.enabled)
+    .map(rule => {
+      const value = metrics[rule.metric];
+      const fired = value !== null && compare(value, rule.operator, rule.threshold);
+      const label = RISK_METRIC_LABELS[rule.metric];
+      const symbol = RISK_OPERATOR_SYMBOLS[rule.operator];
+
+      return {
+        ruleId: rule.id,
+        name: rule.name,
+        metric: rule.metric,
+        operator: rule.operator,
+        threshold: rule.threshold,
+        weight: rule.weight,
+        value,
+        fired,
+        explanation: value === null
+          ? `No data for ${label}`
+          : `${label} ${value} ${fired ? symbol : `not ${symbol}`} ${rule.threshold}`
+      };
+    });
+
+  const scoredWeight = sum(results.filter(result => result.value !== null).map(result => result.weight));
+  const firedWeight = sum(results.filter(result => result.fired).map(result => result.weight));
+  const score = scoredWeight > 0 ? round((firedWeight / scoredWeight) * 100, 1) : 0;
+
+  return {
+    score,
+    level: riskLevelForScore(score, config),
+    metrics,
+    rules: results
+  };
+}
@@ -0,0 +1,167 @@
+import type { PredictionResult, TimePrediction } from '@/types/transcript';
+import type { RampCurve, ScenarioAdjustment } from '@/types/scenario';
+import { FiscalCalendarConfig, getFiscalCalendarConfig } from '@/lib/config/fiscal-calendar';
+import { periodEnd } from './fiscal-calendar';
+
+/**
+ * What-if adjustments applied to a copy of baseline forecasts. Adjustment
+ * dates are matched to the forecast period that contains them, so an uplift
+ * from 15 March on a monthly forecast covers the March period.
+ */
+
+type PredictionType = PredictionResult['predictionType'];
+
+// Whether a fiscal calendar period ends after a date, i.e. contains or follows it
+function endsAfter(periodStart: Date, date: Date | string, predictionType: PredictionType, calendar: FiscalCalendarConfig): boolean {
+  return periodEnd(periodStart, predictionType, calendar) > new Date(date);
+}
+
+// Whether a period starts on or before a date, i.e. contains or precedes it
+function startsBy(periodStart: Date, date: Date | string): boolean {
+  return new Date(periodStart) <= new Date(date);
+}
+
+/**
+ * Share of full volume a new client reaches in its nth period (0-based)
+ */
+export function rampFactor(curve: RampCurve, periodIndex: number, rampPeriods: number): number {
+  if (curve === 'step' || rampPeriods <= 1) {
+    return 1;
+  }
+
+  const progress = Math.min(1, (periodIndex + 1) / rampPeriods);
+  if (curve === 'linear') {
+    return progress;
+  }
+
+  // Smoothstep: slow start, fast middle, slow finish
+  return progress * progress * (3 - 2 * progress);
+}
+
+function scalePrediction(prediction: TimePrediction, factor: number): TimePrediction {
+  const scale = (value: number) => Math.max(0, Math.round(value * factor));
+
+  return {
+    date: prediction.date,
+    predictedCount: scale(prediction.predictedCount),
+    confidenceInterval: {
+      lower: scale(prediction.confidenceInterval.lower),
+      upper: scale(prediction.confidenceInterval.upper)
+    }
+  };
+}
+
+function findClient(forecasts: PredictionResult[], clientName: string): PredictionResult {
+  const forecast = forecasts.find(f => f.clientName === clientName);
+  if (!forecast) {
+    throw new Error(`No baseline forecast for client: ${clientName}`);
+  }
+  return forecast;
+}
+
+/**
+ * Apply scenario adjustments, in order, to a copy of the baseline client
+ * forecasts. The baseline itself is left untouched.
+ */
+export function applyScenarioAdjustments(
+  baseline: PredictionResult[],
+  adjustments: ScenarioAdjustment[],
+  calendar: FiscalCalendarConfig = getFiscalCalendarConfig()
+): PredictionResult[] {
+  if (baseline.length === 0) {
+    throw new Error('A scenario needs at least one baseline forecast');
+  }
+
+  const predictionType = baseline[0].predictionType;
+  const forecasts: PredictionResult[] = baseline.map(forecast => ({
+    ...forecast,
+    predictions: forecast.predictions.map(p => ({ ...p, confidenceInterval: { ...p.confidenceInterval } }))
+  }));
+
+  // Every forecast period, for clients added by the scenario
+  const periods = Array.from(
+    new Set(baseline.flatMap(forecast => forecast.predictions.map(p => new Date(p.date).getTime())))
+  ).sort((a, b) => a - b).map(time => new Date(time));
+
+  adjustments.forEach(adjustment => {
+    switch (adjustment.type) {
+      case 'uplift': {
+        const targets = adjustment.clientName ? [findClient(forecasts, adjustment.clientName)] : forecasts;
+        const factor = 1 + adjustment.percent / 100;
+
+        targets.forEach(forecast => {
+          forecast.predictions = forecast.predictions.map(prediction => {
+            const inRange =
+              (!adjustment.startDate || endsAfter(prediction.date, adjustment.startDate, predictionType, calendar)) &&
+              (!adjustment.endDate || startsBy(prediction.date, adjustment.endDate));
+            return inRange ? scalePrediction(prediction, factor) : prediction;
+          });
+        });
+        break;
+      }
+
+      case 'churn': {
+        const forecast = findClient(forecasts, adjustment.clientName);
+        forecast.predictions = forecast.predictions.map(prediction =>
+          endsAfter(prediction.date, adjustment.effectiveDate, predictionType, calendar) ? scalePrediction(prediction, 0) : prediction
+        );
+        break;
+      }
+
+      case 'new-client': {
+        if (forecasts.some(f => f.clientName === adjustment.clientName)) {
+          throw new Error(`Client already has a baseline forecast: ${adjustment.clientName}`);
+        }
+
+        let periodIndex = 0;
+        const predictions = periods.map(date => {
+          let count = 0;
+          if (endsAfter(date, adjustment.startDate, predictionType, calendar)) {
+            count = Math.round(adjustment.volume * rampFactor(adjustment.curve, periodIndex, adjustment.rampPeriods));
+            periodIndex++;
+          }
+          return { date, predictedCount: count, confidenceInterval: { lower: count, upper: count } };
+        });
+
+        forecasts.push({
+          id: `scenario-${adjustment.clientName}`,
+          clientName: adjustment.clientName,
+          predictionType,
+          predictions,
+          confidence: baseline[0].confidence,
+          accuracy: 0,
+          modelType: 'scenario',
+          createdAt: new Date()
+        });
+        break;
+      }
+    }
+  });
+
+  return forecasts;
+}
+
+function formatDate(date: Date | string): string {
+  return new Date(date).toISOString().split('T')[0];
+}
+
+/**
+ * One-line summary of an adjustment, for scenario lists and exports
+ */
+export function describeScenarioAdjustment(adjustment: ScenarioAdjustment): string {
+  switch (adjustment.type) {
+    case 'uplift': {
+      const sign = adjustment.percent >= 0 ? '+' : '';
+      const range = [
+        adjustment.startDate ? `from ${formatDate(adjustment.startDate)}` : '',
+        adjustment.endDate ? `to ${formatDate(adjustment.endDate)}` : ''
+      ].filter(Boolean).join(' ');
+      return `${sign}${adjustment.percent}% ${adjustment.clientName ?? 'all clients'}${range ? ` ${range}` : ''}`;
+    }
+    case 'new-client':
+      return `New client ${adjustment.clientName}: ${adjustment.volume} per period from ${formatDate(adjustment.startDate)}` +
+        (adjustment.rampPeriods > 1 ? `, ${adjustment.curve} ramp over ${adjustment.rampPeriods} periods` : '');
+    case 'churn':
+      return `Churn ${adjustment.clientName} from ${formatDate(adjustment.effectiveDate)}`;
+  }
+}
@@ -0,0 +1,203 @@
+import type { TranscriptData } from '@/types/transcript';
+import type { DecompositionGranularity, SeasonalDecomposition } from '@/types/decomposition';
+import { anomalyPeriodKey, volumeSeries } from '@/lib/utils/anomaly-detection';
+import { periodEnd, periodKey, periodStart } from '@/lib/utils/fiscal-calendar';
+import { FiscalCalendarConfig, getFiscalCalendarConfig } from '@/lib/config/fiscal-calendar';
+import { round } from '@/lib/utils/numbers';
+
+/**
+ * STL-style seasonal decomposition of transcript volume. Each seasonal
+ * component is estimated from its cycle-subseries (all Mondays, all Januaries,
+ * ...) smoothed across cycles, with a low-pass filter removing any trend that
+ * leaks in; the components are refined in turn over a few passes, then the
+ * trend is a moving average of what the seasonal components leave.
+ */
+
+export interface SeasonalCycles {
+  weekly?: number;
+  yearly: number;
+}
+
+export const SEASONAL_CYCLES: Record<DecompositionGranularity, SeasonalCycles> = {
+  daily: { weekly: 7, yearly: 365 },
+  weekly: { yearly: 52 },
+  monthly: { yearly: 12 }
+};
+
+const PASSES = 2;
+
+function variance(values: number[]): number {
+  if (values.length === 0) return 0;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return values.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / values.length;
+}
+
+/**
+ * Centered moving average. Even windows use a 2xN average (half weight at
+ * both ends) so they stay centered; windows are cut short at the series ends.
+ */
+export function movingAverage(values: number[], window: number): number[] {
+  if (window <= 1) return [...values];
+
+  const half = Math.floor(window / 2);
+  const even = window % 2 === 0;
+
+  return values.map((_, i) => {
+    let total = 0;
+    let weight = 0;
+
+    for (let j = Math.max(0, i - half); j <= Math.min(values.length - 1, i + half); j++) {
+      const w = even && Math.abs(j - i) === half ? 0.5 : 1;
+      total += values[j] * w;
+      weight += w;
+    }
+
+    return total / weight;
+  });
+}
+
+function seasonalComponent(values: number[], period: number): number[] {
+  const detrended = movingAverage(values, period).map((trend, i) => values[i] - trend);
+  const cycle = new Array<number>(values.length).fill(0);
+
+  // Smooth each position across neighbouring cycles so the pattern can drift slowly
+  for (let position = 0; position < period; position++) {
+    const indices: number[] = [];
+    for (let i = position; i < values.length; i += period) indices.push(i);
+
+    const smoothed = movingAverage(indices.map(i => detrended[i]), 3);
+    indices.forEach((index, k) => {
+      cycle[index] = smoothed[k];
+    });
+  }
+
+  // Low-pass step: whatever level remains over a full cycle belongs to the trend
+  const lowPass = movingAverage(cycle, period);
+  const seasonal = cycle.map((value, i) => value - lowPass[i]);
+
+  // Long cycles of daily data (a year of days) are smoothed over about a week
+  const span = Math.round(period / 52);
+  return span > 1 ? movingAverage(seasonal, span % 2 === 0 ? span + 1 : span) : seasonal;
+}
+
+/**
+ * Split a series into a trend, one component per seasonal period and a
+ * residual. Periods the series does not cover twice get no component (null).
+ */
+export function decomposeSeries(
+  values: number[],
+  periods: number[]
+): { trend: number[]; seasonals: (number[] | null)[]; residual: number[] } {
+  const fitted = periods.map(period => values.length >= period * 2);
+  const seasonals: number[][] = periods.map(() => new Array<number>(values.length).fill(0));
+
+  for (let pass = 0; pass < PASSES; pass++) {
+    periods.forEach((period, p) => {
+      if (!fitted[p]) return;
+
+      const others = values.map((value, i) =>
+        value - seasonals.reduce((sum, seasonal, q) => (q === p ? sum : sum + seasonal[i]), 0)
+      );
+      seasonals[p] = seasonalComponent(others, period);
+    });
+  }
+
+  const deseasonalized = values.map((value, i) => value - seasonals.reduce((sum, seasonal) => sum + seasonal[i], 0));
+  const longest = Math.max(...periods.filter((_, p) => fitted[p]), Math.min(...periods));
+  const span = Math.ceil(longest * 1.5);
+  const trendWindow = Math.min(values.length, span % 2 === 0 ? span + 1 : span);
+  const trend = movingAverage(deseasonalized, trendWindow);
+
+  return {
+    trend,
+    seasonals: seasonals.map((seasonal, p) => (fitted[p] ? seasonal : null)),
+    residual: deseasonalized.map((value, i) => value - trend[i])
+  };
+}
+
+// Strength of a component as in Wang, Smith & Hyndman: 1 - Var(R) / Var(component + R)
+function componentStrength(component: number[], residual: number[]): number {
+  const combined = variance(component.map((value, i) => value + residual[i]));
+  return combined > 0 ? round(Math.max(0, 1 - variance(residual) / combined), 3) : 0;
+}
+
+// Whole weeks or fiscal periods, from a gap-filled daily series
+function calendarSeries(
+  records: Pick<TranscriptData, 'date' | 'transcriptCount'>[],
+  granularity: 'weekly' | 'monthly',
+  calendar: FiscalCalendarConfig
+): { periods: string[]; values: number[] } {
+  const daily = volumeSeries(records, 'daily');
+  const totals = new Map<string, number>();
+
+  daily.periods.forEach((day, i) => {
+    const key = periodKey(day, granularity, calendar);
+    totals.set(key, (totals.get(key) || 0) + daily.values[i]);
+  });
+
+  let periods = Array.from(totals.keys());
+  if (periods.length > 0) {
+    const firstDay = daily.periods[0];
+    const lastDay = daily.periods[daily.periods.length - 1];
+    const dayAfter = new Date(lastDay.getFullYear(), lastDay.getMonth(), lastDay.getDate() + 1);
+
+    const partialEnd = periodEnd(lastDay, granularity, calendar).getTime() > dayAfter.getTime();
+    const partialStart = periodStart(firstDay, granularity, calendar).getTime() < firstDay.getTime();
+    periods = periods.slice(partialStart ? 1 : 0, partialEnd ? -1 : undefined);
+  }
+
+  return { periods, values: periods.map(period => totals.get(period) || 0) };
+}
+
+/**
+ * Decompose the volume of one client, or of all clients together when no
+ * client is given. Weeks and fiscal periods follow the fiscal calendar.
+ * Months or weeks the data only partly covers at either end are left out so
+ * they do not show up as a drop.
+ */
+export function decomposeVolume(
+  data: TranscriptData[],
+  granularity: DecompositionGranularity,
+  clientName?: string,
+  calendar: FiscalCalendarConfig = getFiscalCalendarConfig()
+): SeasonalDecomposition {
+  const records = clientName
+    ? data.filter(item => item.clientName.toLowerCase() === clientName.toLowerCase())
+    : data;
+
+  let periods: string[];
+  let values: number[];
+  if (granularity === 'weekly' || (granularity === 'monthly' && calendar.pattern !== 'calendar')) {
+    ({ periods, values } = calendarSeries(records, granularity, calendar));
+  } else {
+    const series = volumeSeries(records, granularity);
+    periods = series.periods.map(period => anomalyPeriodKey(period, granularity));
+    values = series.values;
+  }
+
+  const cycles = SEASONAL_CYCLES[granularity];
+  const cyclePeriods = cycles.weekly ? [cycles.weekly, cycles.yearly] : [cycles.yearly];
+  const { trend, seasonals, residual } = values.length > 0
+    ? decomposeSeries(values, cyclePeriods)
+    : { trend: [], seasonals: cyclePeriods.map(() => null), residual: [] };
+
+  const weekly = cycles.weekly ? seasonals[0] : null;
+  const yearly = seasonals[seasonals.length - 1];
+  const roundAll = (series: number[]) => series.map(value => round(value, 2));
+
+  return {
+    granularity,
+    ...(clientName ? { clientName } : {}),
+    periods,
+    observed: values,
+    trend: roundAll(trend),
+    weekly: weekly ? roundAll(weekly) : null,
+    yearly: yearly ? roundAll(yearly) : null,
+    residual: roundAll(residual),
+    strength: {
+      trend: componentStrength(trend, residual),
+      weekly: weekly ? componentStrength(weekly, residual) : null,
+      yearly: yearly ? componentStrength(yearly, residual) : null
+    }
+  };
+}
@@ -0,0 +1,242 @@
+import type { RawData } from '@/types/transcript';
+import type { CSVRowError } from './csv-parser';
+
+/**
+ * Readers for JSON, NDJSON and Parquet extracts that produce the same rows as
+ * CSV and Excel imports. Nested objects are flattened into dotted columns
+ * (`client.name`), arrays of plain values are joined with commas and other
+ * arrays kept as JSON, so every record becomes a flat RawData row. Columns are
+ * the union of the keys of all records, in the order they first appear.
+ * Parquet files carry their own schema, so their column types come from it
+ * instead of being guessed from the values.
+ */
+
+export type ColumnType = 'text' | 'number' | 'date';
+
+export interface StructuredParseResult {
+  headers: string[];
+  data: RawData[];
+  /** Parquet only; other formats are typed from their values */
+  columnTypes?: Record<string, ColumnType>;
+}
+
+export interface NDJSONChunkResult {
+  rows: RawData[];
+  errors: CSVRowError[];
+}
+
+// Properties commonly wrapping the records of a JSON export
+const RECORD_PROPERTIES = ['data', 'records', 'rows', 'items', 'results'];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    !(value instanceof Date) && !ArrayBuffer.isView(value);
+}
+
+function toCellValue(value: unknown): string | number | Date {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : String(value);
+  if (typeof value === 'bigint') {
+    return value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER)
+      ? Number(value)
+      : value.toString();
+  }
+  // Parquet binary columns without a string annotation are usually text
+  if (value instanceof Uint8Array) return new TextDecoder().decode(value);
+  if (typeof value === 'object') {
+    return JSON.stringify(value, (_, item) => (typeof item === 'bigint' ? item.toString() : item));
+  }
+  return String(value);
+}
+
+export function flattenRecord(record: Record<string, unknown>, prefix = '', row: RawData = {}): RawData {
+  for (const [key, value] of Object.entries(record)) {
+    const column = prefix + key;
+
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      flattenRecord(value, `${column}.`, row);
+    } else if (Array.isArray(value)) {
+      row[column] = value.every(item => !isPlainObject(item) && !Array.isArray(item))
+        ? value.map(item => String(toCellValue(item))).join(', ')
+        : toCellValue(value);
+    } else {
+      row[column] = isPlainObject(value) ? '' : toCellValue(value);
+    }
+  }
+
+  return row;
+}
+
+export function collectHeaders(rows: RawData[]): string[] {
+  const headers = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) headers.add(key);
+  }
+  return Array.from(headers);
+}
+
+/**
+ * Records of a parsed JSON document: a top-level array, or the array of
+ * objects an object wraps them in (`{ "data": [...] }`), or a single object
+ */
+export function extractRecords(json: unknown): Record<string, unknown>[] {
+  let records: unknown[];
+
+  if (Array.isArray(json)) {
+    records = json;
+  } else if (isPlainObject(json)) {
+    const wrapped = [
+      ...RECORD_PROPERTIES.filter(key => key in json),
+      ...Object.keys(json).filter(key => !RECORD_PROPERTIES.includes(key))
+    ]
+      .map(key => json[key])
+      .find(value => Array.isArray(value) && value.length > 0 && value.every(isPlainObject));
+    records = Array.isArray(wrapped) ? wrapped : [json];
+  } else {
+    throw new Error('JSON must contain an object or an array of objects');
+  }
+
+  const invalid = records.findIndex(record => !isPlainObject(record));
+  if (invalid !== -1) {
+    throw new Error(`Record ${invalid + 1} is not an object`);
+  }
+
+  return records as Record<string, unknown>[];
+}
+
+export function parseJSONRecords(text: string): StructuredParseResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : 'could not parse file'}`);
+  }
+
+  const data = extractRecords(json).map(record => flattenRecord(record));
+  return { headers: collectHeaders(data), data };
+}
+
+/**
+ * Newline-delimited JSON read a chunk of text at a time. Blank lines are
+ * skipped; lines that are not JSON objects are reported by line number and
+ * do not fail the file.
+ */
+export class NDJSONStreamReader {
+  private pending = '';
+  private line = 0;
+
+  push(text: string): NDJSONChunkResult {
+    const lines = (this.pending + text).split('\n');
+    this.pending = lines.pop() ?? '';
+    return this.parseLines(lines);
+  }
+
+  end(): NDJSONChunkResult {
+    const lines = this.pending ? [this.pending] : [];
+    this.pending = '';
+    return this.parseLines(lines);
+  }
+
+  private parseLines(lines: string[]): NDJSONChunkResult {
+    const rows: RawData[] = [];
+    const errors: CSVRowError[] = [];
+
+    for (const text of lines) {
+      this.line++;
+      const trimmed = text.trim();
+      if (!trimmed) continue;
+
+      try {
+        const value: unknown = JSON.parse(trimmed);
+        if (isPlainObject(value)) {
+          rows.push(flattenRecord(value));
+        } else {
+          errors.push({ line: this.line, message: 'Expected a JSON object' });
+        }
+      } catch (error) {
+        errors.push({
+          line: this.line,
+          message: `Invalid JSON: ${error instanceof Error ? error.message : 'could not parse line'}`
+        });
+      }
+    }
+
+    return { rows, errors };
+  }
+}
+
+interface ParquetSchemaNode {
+  children: ParquetSchemaNode[];
+  element: {
+    name: string;
+    type?: string;
+    converted_type?: string;
+    logical_type?: { type: string };
+  };
+}
+
+function parquetColumnType(node: ParquetSchemaNode): ColumnType {
+  const { type, converted_type: converted, logical_type: logical } = node.element;
+
+  if (logical?.type === 'DATE' || logical?.type === 'TIMESTAMP' || converted === 'DATE' ||
+      converted === 'TIMESTAMP_MILLIS' || converted === 'TIMESTAMP_MICROS' || type === 'INT96') {
+    return 'date';
+  }
+  if (logical?.type === 'DECIMAL' || logical?.type === 'INTEGER' || converted === 'DECIMAL' ||
+      (converted === undefined && logical === undefined && ['INT32', 'INT64', 'FLOAT', 'DOUBLE'].includes(type ?? ''))) {
+    return 'number';
+  }
+  if (converted?.startsWith('INT_') || converted?.startsWith('UINT_')) {
+    return 'number';
+  }
+  return 'text';
+}
+
+/**
+ * Column types of the flattened columns: struct fields become dotted
+ * columns, as in flattenRecord, and lists and maps are text
+ */
+export function parquetColumnTypes(root: ParquetSchemaNode): Record<string, ColumnType> {
+  const types: Record<string, ColumnType> = {};
+
+  const visit = (node: ParquetSchemaNode, prefix: string) => {
+    const column = prefix + node.element.name;
+    const nested = node.element.logical_type?.type === 'LIST' || node.element.logical_type?.type === 'MAP' ||
+      node.element.converted_type === 'LIST' || node.element.converted_type === 'MAP';
+
+    if (node.children.length === 0) {
+      types[column] = parquetColumnType(node);
+    } else if (nested) {
+      types[column] = 'text';
+    } else {
+      for (const child of node.children) visit(child, `${column}.`);
+    }
+  };
+
+  for (const child of root.children) visit(child, '');
+  return types;
+}
+
+/**
+ * Read a Parquet file through slices of it, so only the footer and the
+ * column chunks are fetched. The reader is loaded on first use to keep it
+ * out of bundles that never import Parquet.
+ */
+export async function readParquet(file: Blob): Promise<StructuredParseResult> {
+  const { parquetMetadataAsync, parquetReadObjects, parquetSchema } = await import('hyparquet');
+
+  const buffer = {
+    byteLength: file.size,
+    slice: (start: number, end?: number) => file.slice(start, end).arrayBuffer()
+  };
+
+  const metadata = await parquetMetadataAsync(buffer);
+  const columnTypes = parquetColumnTypes(parquetSchema(metadata));
+  const records = await parquetReadObjects({ file: buffer, metadata });
+
+  const data = records.map(record => flattenRecord(record));
+  const headers = Object.keys(columnTypes);
+
+  return { headers, data, columnTypes };
+}
@@ -0,0 +1,199 @@
+import type { AHTData } from '@/types/aht';
+import type { PredictionResult, TranscriptData } from '@/types/transcript';
+import type {
+  ClientTarget,
+  TargetBreach,
+  TargetMetric,
+  TargetReport,
+  TargetVariance,
+  TurnaroundMeasurement,
+  VarianceKind
+} from '@/types/target';
+import type { TargetConfig } from '@/lib/config/targets';
+import { FiscalCalendarConfig, getFiscalCalendarConfig } from '@/lib/config/fiscal-calendar';
+import { ahtMonthKeyFromYearMonth } from './aht-import';
+import { round } from './numbers';
+import { addCalendarMonths, calendarMonthKey, totalsByCalendarMonth } from './fiscal-calendar';
+
+/**
+ * Variance of client actuals and forecasts against their targets. Completed
+ * months in the lookback are compared on actuals: volume, review plus
+ * validation AHT where the month's AHT was recorded, and measured turnaround.
+ * The current and following months are compared on volume forecasts, which
+ * is where predicted breaches come from. AHT and turnaround have no
+ * forecasts, so their SLAs are only checked on actuals. Targets are set per
+ * calendar month, so a fiscal period's forecast is split between the months
+ * it overlaps by day, and a month the forecast does not fully cover has no
+ * forecast to compare.
+ */
+
+export interface VarianceInputs {
+  targets: ClientTarget[];
+  transcripts: TranscriptData[];
+  forecasts: PredictionResult[];
+  ahtData: AHTData[];
+  turnaround: TurnaroundMeasurement[];
+}
+
+const SLA_METRICS: TargetMetric[] = ['aht', 'turnaround'];
+
+const METRIC_LABELS: Record<TargetMetric, string> = {
+  minimumVolume: 'minimum volume',
+  maximumVolume: 'volume cap',
+  aht: 'AHT SLA',
+  turnaround: 'turnaround SLA'
+};
+
+/**
+ * Completed months compared on actuals and months compared on forecasts, oldest first
+ */
+export function varianceMonths(asOf: Date, config: Pick<TargetConfig, 'lookbackMonths' | 'horizonMonths'>): Record<VarianceKind, string[]> {
+  const current = calendarMonthKey(asOf);
+
+  return {
+    actual: Array.from({ length: config.lookbackMonths }, (_, i) => addCalendarMonths(current, i - config.lookbackMonths)),
+    forecast: Array.from({ length: config.horizonMonths }, (_, i) => addCalendarMonths(current, i))
+  };
+}
+
+export function targetAppliesIn(target: Pick<ClientTarget, 'effectiveFrom' | 'effectiveTo'>, month: string): boolean {
+  return month >= target.effectiveFrom && (target.effectiveTo === null || month <= target.effectiveTo);
+}
+
+/**
+ * Whether a value misses its target by more than the tolerance
+ */
+export function isBreached(metric: TargetMetric, value: number, target: number, tolerancePercent: number): boolean {
+  return metric === 'minimumVolume'
+    ? value < target * (1 - tolerancePercent / 100)
+    : value > target * (1 + tolerancePercent / 100);
+}
+
+function formatMonth(month: string): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(year, monthNumber - 1, 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+}
+
+/**
+ * e.g. "Acme will miss its March 2025 minimum volume by 18%"
+ */
+export function describeBreach(variance: TargetVariance, missPercent: number): string {
+  const verb = variance.metric === 'minimumVolume'
+    ? (variance.kind === 'forecast' ? 'will miss' : 'missed')
+    : (variance.kind === 'forecast' ? 'will exceed' : 'exceeded');
+
+  return `${variance.clientName} ${verb} its ${formatMonth(variance.month)} ${METRIC_LABELS[variance.metric]} by ${missPercent}%`;
+}
+
+// Values per lower-case client name and month
+type MonthlyValues = Map<string, Map<string, number>>;
+
+function addValue(values: MonthlyValues, clientName: string, month: string, value: number): void {
+  const key = clientName.toLowerCase();
+  const months = values.get(key) ?? new Map<string, number>();
+  months.set(month, (months.get(month) ?? 0) + value);
+  values.set(key, months);
+}
+
+/**
+ * Variances of every target in force in the report months, the breaches among
+ * them and each client's actual SLA misses
+ */
+export function compareWithTargets(
+  inputs: VarianceInputs,
+  asOf: Date,
+  config: TargetConfig,
+  calendar: FiscalCalendarConfig = getFiscalCalendarConfig()
+): TargetReport {
+  const months = varianceMonths(asOf, config);
+  const actualMonths = new Set(months.actual);
+  const forecastMonths = new Set(months.forecast);
+
+  const actualVolumes: MonthlyValues = new Map();
+  inputs.transcripts.forEach(record => {
+    const month = calendarMonthKey(record.date);
+    if (actualMonths.has(month)) addValue(actualVolumes, record.clientName, month, record.transcriptCount);
+  });
+
+  const forecastVolumes: MonthlyValues = new Map();
+  inputs.forecasts.forEach(forecast => {
+    const predicted = forecast.predictions.map(prediction => ({ date: prediction.date, value: Math.max(0, prediction.predictedCount) }));
+    totalsByCalendarMonth(predicted, forecast.predictionType, calendar).forEach((volume, month) => {
+      if (forecastMonths.has(month)) addValue(forecastVolumes, forecast.clientName, month, volume);
+    });
+  });
+
+  const ahtByClient = new Map(inputs.ahtData.map(client => [client.client.toLowerCase(), client]));
+  const turnaround: MonthlyValues = new Map();
+  inputs.turnaround.forEach(measurement => {
+    addValue(turnaround, measurement.clientName, measurement.month, measurement.turnaroundHours);
+  });
+
+  const actualValue = (target: ClientTarget, month: string): number | null => {
+    const client = target.clientName.toLowerCase();
+    switch (target.metric) {
+      case 'minimumVolume':
+      case 'maximumVolume':
+        // A month without records is a month without volume
+        return actualVolumes.get(client)?.get(month) ?? 0;
+      case 'aht': {
+        const recorded = ahtByClient.get(client)?.monthlyAHT?.[ahtMonthKeyFromYearMonth(month)];
+        return recorded ? recorded.reviewAHT + recorded.validationAHT : null;
+      }
+      case 'turnaround':
+        return turnaround.get(client)?.get(month) ?? null;
+    }
+  };
+
+  const forecastValue = (target: ClientTarget, month: string): number | null => {
+    if (target.metric !== 'minimumVolume' && target.metric !== 'maximumVolume') return null;
+    const volume = forecastVolumes.get(target.clientName.toLowerCase())?.get(month);
+    return volume === undefined ? null : Math.round(volume);
+  };
+
+  const variances: TargetVariance[] = [];
+  inputs.targets.forEach(target => {
+    const compare = (month: string, kind: VarianceKind, value: number | null) => {
+      if (value === null || !targetAppliesIn(target, month)) return;
+
+      const variance = value - target.value;
+      variances.push({
+        targetId: target.id,
+        clientName: target.clientName,
+        metric: target.metric,
+        month,
+        kind,
+        target: target.value,
+        value: round(value, 2),
+        variance: round(variance, 2),
+        variancePercent: target.value !== 0 ? round((variance / target.value) * 100, 1) : null,
+        breached: isBreached(target.metric, value, target.value, config.tolerancePercent)
+      });
+    };
+
+    months.actual.forEach(month => compare(month, 'actual', actualValue(target, month)));
+    months.forecast.forEach(month => compare(month, 'forecast', forecastValue(target, month)));
+  });
+
+  variances.sort((a, b) =>
+    a.month.localeCompare(b.month) || a.clientName.localeCompare(b.clientName) || a.metric.localeCompare(b.metric)
+  );
+
+  const breaches: TargetBreach[] = variances
+    .filter(variance => variance.breached)
+    .map(variance => {
+      const missPercent = variance.target !== 0 ? round(Math.abs(variance.variance / variance.target) * 100, 1) : 100;
+      return { ...variance, missPercent, message: describeBreach(variance, missPercent) };
+    });
+
+  // Clients with an SLA compared on actuals count, so meeting every SLA is a zero rather than no data
+  const slaMisses: Record<string, number> = {};
+  variances
+    .filter(variance => variance.kind === 'actual' && SLA_METRICS.includes(variance.metric))
+    .forEach(variance => {
+      const key = variance.clientName.toLowerCase();
+      slaMisses[key] = (slaMisses[key] ?? 0) + (variance.breached ? 1 : 0);
+    });
+
+  return { variances, breaches, slaMisses, asOf };
+}
@@ -0,0 +1,851 @@
+/**
+ * Statistical time series models used by the prediction engine.
+ *
+ * Holt-Winters exponential smoothing (additive and multiplicative seasonality),
+ * seasonal ARIMA fitted by conditional sum of squares, with automatic
+ * differencing and order selection, and Croston / TSB for intermittent demand.
+ */
+
+export type SeasonalityMode = 'additive' | 'multiplicative';
+
+export interface ModelFit {
+  /** One-step-ahead fitted values, aligned with the tail of the input series */
+  fitted: number[];
+  /** Actual minus fitted, aligned with `fitted` */
+  residuals: number[];
+  /** Point forecasts for the requested horizon */
+  forecast: number[];
+  /** Residual variance of the fitted model */
+  sigma2: number;
+  /** Standard error of each point forecast, growing with the horizon */
+  standardErrors: number[];
+}
+
+export interface HoltWintersParams {
+  alpha: number;
+  beta: number;
+  gamma: number;
+}
+
+export interface HoltWintersOptions {
+  seasonLength: number;
+  seasonality: SeasonalityMode;
+  params?: HoltWintersParams;
+}
+
+export interface HoltWintersResult extends ModelFit {
+  params: HoltWintersParams;
+  level: number;
+  trend: number;
+  seasonals: number[];
+}
+
+export interface ArimaOrder {
+  p: number;
+  d: number;
+  q: number;
+}
+
+export interface SeasonalArimaOrder {
+  P: number;
+  D: number;
+  Q: number;
+  period: number;
+}
+
+export interface ArimaOptions {
+  includeMean?: boolean;
+  /** Number of leading observations to condition on; keeps AIC comparable across orders */
+  conditioningLag?: number;
+}
+
+export interface ArimaResult extends ModelFit {
+  order: ArimaOrder;
+  seasonalOrder: SeasonalArimaOrder;
+  ar: number[];
+  ma: number[];
+  seasonalAr: number[];
+  seasonalMa: number[];
+  mean: number;
+  aic: number;
+}
+
+export interface AutoArimaOptions {
+  period?: number;
+  maxP?: number;
+  maxQ?: number;
+  maxSeasonalP?: number;
+  maxSeasonalQ?: number;
+}
+
+export type IntermittentMethod = 'croston' | 'tsb';
+
+export interface IntermittentOptions {
+  method: IntermittentMethod;
+  /** Smoothing for demand sizes (and Croston's intervals); estimated when omitted */
+  alpha?: number;
+  /** TSB smoothing for the probability of demand; estimated when omitted */
+  beta?: number;
+}
+
+export interface IntermittentResult extends ModelFit {
+  method: IntermittentMethod;
+  alpha: number;
+  beta: number;
+  /** Smoothed size of a non-zero demand */
+  demandSize: number;
+  /** Smoothed probability of demand in a period (one over the interval for Croston) */
+  demandProbability: number;
+}
+
+// 5% critical value of the KPSS level-stationarity test
+const KPSS_CRITICAL_VALUE = 0.463;
+// Seasonal strength above which one seasonal difference is taken (as in forecast::nsdiffs)
+const SEASONAL_STRENGTH_THRESHOLD = 0.64;
+const MIN_ARIMA_OBSERVATIONS = 4;
+
+/**
+ * Minimise a function with the Nelder-Mead simplex method
+ */
+function nelderMead(
+  objective: (x: number[]) => number,
+  start: number[],
+  step: number = 0.5,
+  maxIterations: number = 300 * Math.max(1, start.length),
+  tolerance: number = 1e-10
+): number[] {
+  const dimensions = start.length;
+  if (dimensions === 0) {
+    return [];
+  }
+
+  let simplex = [start, ...start.map((_, i) => start.map((value, j) => (i === j ? value + step : value)))];
+  let scores = simplex.map(objective);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const order = scores.map((_, i) => i).sort((a, b) => scores[a] - scores[b]);
+    simplex = order.map(i => simplex[i]);
+    scores = order.map(i => scores[i]);
+
+    const best = scores[0];
+    const worst = scores[dimensions];
+    if (Math.abs(worst - best) <= tolerance * (Math.abs(best) + tolerance)) {
+      break;
+    }
+
+    const centroid = new Array(dimensions).fill(0);
+    for (let i = 0; i < dimensions; i++) {
+      for (let j = 0; j < dimensions; j++) {
+        centroid[j] += simplex[i][j] / dimensions;
+      }
+    }
+
+    const towards = (coefficient: number) =>
+      centroid.map((value, j) => value + coefficient * (simplex[dimensions][j] - value));
+
+    const reflected = towards(-1);
+    const reflectedScore = objective(reflected);
+
+    if (reflectedScore < best) {
+      const expanded = towards(-2);
+      const expandedScore = objective(expanded);
+      if (expandedScore < reflectedScore) {
+        simplex[dimensions] = expanded;
+        scores[dimensions] = expandedScore;
+      } else {
+        simplex[dimensions] = reflected;
+        scores[dimensions] = reflectedScore;
+      }
+      continue;
+    }
+
+    if (reflectedScore < scores[dimensions - 1]) {
+      simplex[dimensions] = reflected;
+      scores[dimensions] = reflectedScore;
+      continue;
+    }
+
+    const contracted = towards(0.5);
+    const contractedScore = objective(contracted);
+    if (contractedScore < worst) {
+      simplex[dimensions] = contracted;
+      scores[dimensions] = contractedScore;
+      continue;
+    }
+
+    // Shrink every vertex towards the best one
+    for (let i = 1; i <= dimensions; i++) {
+      simplex[i] = simplex[i].map((value, j) => simplex[0][j] + 0.5 * (value - simplex[0][j]));
+      scores[i] = objective(simplex[i]);
+    }
+  }
+
+  const bestIndex = scores.indexOf(Math.min(...scores));
+  return simplex[bestIndex];
+}
+
+const logistic = (x: number) => 1 / (1 + Math.exp(-x));
+const logit = (p: number) => Math.log(p / (1 - p));
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, val) => sum + val, 0) / values.length : 0;
+}
+
+function variance(values: number[]): number {
+  const avg = mean(values);
+  return values.length > 0
+    ? values.reduce((sum, val) => sum + Math.pow(val - avg, 2), 0) / values.length
+    : 0;
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0 || p >= 1) {
+    throw new Error('Probability must be between 0 and 1');
+  }
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const lowerTail = 0.02425;
+
+  if (p < lowerTail) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - lowerTail) {
+    return -normalQuantile(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Two-sided normal multiplier for a prediction interval at the given confidence level (e.g. 0.95 -> 1.96)
+ */
+export function intervalMultiplier(confidenceLevel: number): number {
+  return normalQuantile(0.5 + confidenceLevel / 2);
+}
+
+/**
+ * Run the Holt-Winters recursions for fixed smoothing parameters
+ */
+function runHoltWinters(
+  values: number[],
+  horizon: number,
+  seasonLength: number,
+  seasonality: SeasonalityMode,
+  params: HoltWintersParams
+): Omit<HoltWintersResult, 'params'> {
+  const m = seasonLength;
+  const { alpha, beta, gamma } = params;
+  const multiplicative = seasonality === 'multiplicative';
+
+  // Initialise level and trend from the first two seasons, seasonals from the first
+  const firstSeasonMean = mean(values.slice(0, m));
+  const secondSeasonMean = mean(values.slice(m, 2 * m));
+  let level = firstSeasonMean;
+  let trend = (secondSeasonMean - firstSeasonMean) / m;
+  const seasonals = values
+    .slice(0, m)
+    .map(value => (multiplicative ? value / firstSeasonMean : value - firstSeasonMean));
+
+  const fitted: number[] = [];
+  const residuals: number[] = [];
+
+  for (let t = m; t < values.length; t++) {
+    const seasonal = seasonals[t - m];
+    const estimate = multiplicative ? (level + trend) * seasonal : level + trend + seasonal;
+    fitted.push(estimate);
+    residuals.push(values[t] - estimate);
+
+    const previousLevel = level;
+    level = multiplicative
+      ? alpha * (values[t] / seasonal) + (1 - alpha) * (level + trend)
+      : alpha * (values[t] - seasonal) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    seasonals.push(
+      multiplicative
+        ? gamma * (values[t] / level) + (1 - gamma) * seasonal
+        : gamma * (values[t] - level) + (1 - gamma) * seasonal
+    );
+  }
+
+  const lastSeason = seasonals.slice(-m);
+  const forecast = Array.from({ length: horizon }, (_, i) => {
+    const seasonal = lastSeason[i % m];
+    return multiplicative
+      ? (level + (i + 1) * trend) * seasonal
+      : level + (i + 1) * trend + seasonal;
+  });
+
+  // Forecast variance of the equivalent ETS model: sigma^2 * (1 + sum(c_j^2)) with
+  // c_j = alpha(1 + j*beta) + gamma(1 - alpha) at whole seasons. Multiplicative models
+  // use relative residuals and scale by the forecast.
+  const sigma2 = mean(residuals.map(r => r * r));
+  const relativeSigma2 = mean(residuals.map((r, i) => Math.pow(r / fitted[i], 2)));
+  let cumulative = 0;
+  const standardErrors = forecast.map((value, i) => {
+    const h = i + 1;
+    if (h > 1) {
+      const j = h - 1;
+      const c = alpha * (1 + j * beta) + (j % m === 0 ? gamma * (1 - alpha) : 0);
+      cumulative += c * c;
+    }
+    return multiplicative
+      ? Math.abs(value) * Math.sqrt(relativeSigma2 * (1 + cumulative))
+      : Math.sqrt(sigma2 * (1 + cumulative));
+  });
+
+  return {
+    fitted,
+    residuals,
+    forecast,
+    sigma2,
+    standardErrors,
+    level,
+    trend,
+    seasonals: lastSeason
+  };
+}
+
+/**
+ * Holt-Winters exponential smoothing with additive or multiplicative seasonality.
+ * Smoothing parameters are estimated by minimising the one-step-ahead squared error
+ * unless they are supplied.
+ */
+export function holtWinters(
+  values: number[],
+  horizon: number,
+  options: HoltWintersOptions
+): HoltWintersResult {
+  const { seasonLength, seasonality } = options;
+
+  if (seasonLength < 2) {
+    throw new Error('Holt-Winters season length must be at least 2');
+  }
+  if (values.length < 2 * seasonLength) {
+    throw new Error(
+      `Insufficient data for Holt-Winters model: need at least ${2 * seasonLength} periods, got ${values.length}`
+    );
+  }
+  if (seasonality === 'multiplicative' && values.some(value => value <= 0)) {
+    throw new Error('Multiplicative Holt-Winters requires strictly positive values');
+  }
+
+  let params = options.params;
+
+  if (!params) {
+    const sse = (candidate: HoltWintersParams) => {
+      const { residuals } = runHoltWinters(values, 0, seasonLength, seasonality, candidate);
+      const total = residuals.reduce((sum, r) => sum + r * r, 0);
+      return Number.isFinite(total) ? total : Number.MAX_VALUE;
+    };
+
+    // Coarse grid to find a good starting point, then refine with Nelder-Mead
+    const grid = [0.1, 0.3, 0.5, 0.7, 0.9];
+    let start: HoltWintersParams = { alpha: 0.3, beta: 0.1, gamma: 0.1 };
+    let startScore = sse(start);
+    for (const alpha of grid) {
+      for (const beta of grid) {
+        for (const gamma of grid) {
+          const score = sse({ alpha, beta, gamma });
+          if (score < startScore) {
+            start = { alpha, beta, gamma };
+            startScore = score;
+          }
+        }
+      }
+    }
+
+    const toParams = (x: number[]): HoltWintersParams => ({
+      alpha: logistic(x[0]),
+      beta: logistic(x[1]),
+      gamma: logistic(x[2])
+    });
+    const best = nelderMead(
+      x => sse(toParams(x)),
+      [logit(start.alpha), logit(start.beta), logit(start.gamma)]
+    );
+    params = toParams(best);
+  }
+
+  return { params, ...runHoltWinters(values, horizon, seasonLength, seasonality, params) };
+}
+
+/**
+ * Share of periods with no demand
+ */
+export function zeroRatio(values: number[]): number {
+  return values.length > 0 ? values.filter(value => value === 0).length / values.length : 0;
+}
+
+/**
+ * Run Croston or TSB recursions for fixed smoothing parameters, starting at the
+ * first non-zero demand. Croston smooths demand sizes and the intervals between
+ * demands, updating only when demand occurs. TSB smooths sizes the same way but
+ * updates the probability of demand every period, so the forecast decays
+ * through runs of zeros.
+ */
+function runIntermittent(
+  values: number[],
+  horizon: number,
+  method: IntermittentMethod,
+  alpha: number,
+  beta: number
+): Omit<IntermittentResult, 'method' | 'alpha' | 'beta'> {
+  const first = values.findIndex(value => value > 0);
+  let demandSize = values[first];
+  // Croston: smoothed interval between demands. TSB: smoothed probability of demand.
+  let interval = first + 1;
+  let probability = 1 / (first + 1);
+  let sinceLastDemand = 1;
+
+  const estimate = () => (method === 'croston' ? demandSize / interval : probability * demandSize);
+  const fitted: number[] = [];
+  const residuals: number[] = [];
+
+  for (let t = first + 1; t < values.length; t++) {
+    const value = values[t];
+    fitted.push(estimate());
+    residuals.push(value - fitted[fitted.length - 1]);
+
+    if (method === 'tsb') {
+      probability += beta * ((value > 0 ? 1 : 0) - probability);
+    }
+    if (value > 0) {
+      demandSize += alpha * (value - demandSize);
+      interval += alpha * (sinceLastDemand - interval);
+      sinceLastDemand = 1;
+    } else {
+      sinceLastDemand++;
+    }
+  }
+
+  // Forecasts are flat; the variance grows as for simple exponential smoothing
+  const sigma2 = mean(residuals.map(r => r * r));
+  const forecast = Array.from({ length: horizon }, () => estimate());
+  const standardErrors = forecast.map((_, i) => Math.sqrt(sigma2 * (1 + i * alpha * alpha)));
+
+  return {
+    fitted,
+    residuals,
+    forecast,
+    sigma2,
+    standardErrors,
+    demandSize,
+    demandProbability: method === 'croston' ? 1 / interval : probability
+  };
+}
+
+/**
+ * Croston or TSB (Teunter-Syntetos-Babai) forecasts for intermittent demand:
+ * series with many zero periods between bursts. Smoothing parameters are chosen
+ * from a grid by one-step-ahead squared error unless they are supplied.
+ */
+export function intermittentDemand(
+  values: number[],
+  horizon: number,
+  options: IntermittentOptions
+): IntermittentResult {
+  if (values.some(value => value < 0)) {
+    throw new Error('Intermittent demand models require non-negative values');
+  }
+  if (values.filter(value => value > 0).length < 2) {
+    throw new Error('Insufficient data for intermittent demand model: need at least 2 periods with demand');
+  }
+
+  const grid = [0.05, 0.1, 0.15, 0.2, 0.3, 0.4, 0.5];
+  const alphas = options.alpha !== undefined ? [options.alpha] : grid;
+  const betas = options.method === 'croston' ? [0] : options.beta !== undefined ? [options.beta] : grid;
+
+  let best = { alpha: alphas[0], beta: betas[0], sse: Number.MAX_VALUE };
+  for (const alpha of alphas) {
+    for (const beta of betas) {
+      const { residuals } = runIntermittent(values, 0, options.method, alpha, beta);
+      const sse = residuals.reduce((sum, r) => sum + r * r, 0);
+      if (sse < best.sse) {
+        best = { alpha, beta, sse };
+      }
+    }
+  }
+
+  return {
+    method: options.method,
+    alpha: best.alpha,
+    beta: best.beta,
+    ...runIntermittent(values, horizon, options.method, best.alpha, best.beta)
+  };
+}
+
+/**
+ * Difference a series at the given lag
+ */
+export function difference(values: number[], lag: number = 1): number[] {
+  return values.slice(lag).map((value, i) => value - values[i]);
+}
+
+/**
+ * KPSS level-stationarity test statistic with a Newey-West long-run variance
+ */
+export function kpssStatistic(values: number[]): number {
+  const n = values.length;
+  const avg = mean(values);
+  const errors = values.map(value => value - avg);
+
+  let cumulative = 0;
+  let eta = 0;
+  for (const error of errors) {
+    cumulative += error;
+    eta += cumulative * cumulative;
+  }
+  eta /= n * n;
+
+  const lags = Math.floor((3 * Math.sqrt(n)) / 13);
+  let longRunVariance = errors.reduce((sum, e) => sum + e * e, 0) / n;
+  for (let lag = 1; lag <= lags; lag++) {
+    let covariance = 0;
+    for (let t = lag; t < n; t++) {
+      covariance += errors[t] * errors[t - lag];
+    }
+    longRunVariance += (2 * (1 - lag / (lags + 1)) * covariance) / n;
+  }
+
+  return longRunVariance > 0 ? eta / longRunVariance : 0;
+}
+
+/**
+ * Number of first differences required for stationarity, chosen by repeated KPSS tests
+ */
+export function estimateDifferencingOrder(values: number[], maxD: number = 2): number {
+  let series = values;
+  let d = 0;
+
+  while (d < maxD && series.length > MIN_ARIMA_OBSERVATIONS && kpssStatistic(series) > KPSS_CRITICAL_VALUE) {
+    series = difference(series);
+    d++;
+  }
+
+  return d;
+}
+
+/**
+ * Strength of seasonality (0-1) from a moving-average decomposition
+ */
+export function seasonalStrength(values: number[], period: number): number {
+  if (period < 2 || values.length < 2 * period) {
+    return 0;
+  }
+
+  // Centered moving average trend (2 x m MA for even periods)
+  const half = Math.floor(period / 2);
+  const detrended: Array<number | null> = values.map((value, t) => {
+    if (t < half || t + half >= values.length) {
+      return null;
+    }
+    let sum = 0;
+    if (period % 2 === 0) {
+      sum += (values[t - half] + values[t + half]) / 2;
+      for (let k = -half + 1; k < half; k++) sum += values[t + k];
+    } else {
+      for (let k = -half; k <= half; k++) sum += values[t + k];
+    }
+    return value - sum / period;
+  });
+
+  const positionTotals = new Array(period).fill(0);
+  const positionCounts = new Array(period).fill(0);
+  detrended.forEach((value, t) => {
+    if (value !== null) {
+      positionTotals[t % period] += value;
+      positionCounts[t % period]++;
+    }
+  });
+  const seasonal = positionTotals.map((total, i) => (positionCounts[i] > 0 ? total / positionCounts[i] : 0));
+  const seasonalMean = mean(seasonal);
+
+  const observed: number[] = [];
+  const remainder: number[] = [];
+  detrended.forEach((value, t) => {
+    if (value !== null) {
+      observed.push(value);
+      remainder.push(value - (seasonal[t % period] - seasonalMean));
+    }
+  });
+
+  const observedVariance = variance(observed);
+  return observedVariance > 0 ? Math.max(0, 1 - variance(remainder) / observedVariance) : 0;
+}
+
+/**
+ * Number of seasonal differences (0 or 1) required for the given period
+ */
+export function estimateSeasonalDifferencingOrder(values: number[], period: number): number {
+  return seasonalStrength(values, period) > SEASONAL_STRENGTH_THRESHOLD ? 1 : 0;
+}
+
+/**
+ * Map partial autocorrelations in (-1, 1) onto stationary AR coefficients (Durbin-Levinson)
+ */
+function partialsToCoefficients(partials: number[]): number[] {
+  const coefficients: number[] = [];
+
+  for (let k = 0; k < partials.length; k++) {
+    const previous = [...coefficients];
+    for (let j = 0; j < k; j++) {
+      coefficients[j] = previous[j] - partials[k] * previous[k - 1 - j];
+    }
+    coefficients[k] = partials[k];
+  }
+
+  return coefficients;
+}
+
+/**
+ * Multiply two lag polynomials given as coefficient arrays (index = lag)
+ */
+function multiplyPolynomials(a: number[], b: number[]): number[] {
+  const result = new Array(a.length + b.length - 1).fill(0);
+  a.forEach((x, i) => b.forEach((y, j) => {
+    result[i + j] += x * y;
+  }));
+  return result;
+}
+
+/**
+ * Build a lag polynomial 1 + sign * sum(c_i B^(i * spacing))
+ */
+function lagPolynomial(coefficients: number[], spacing: number, sign: 1 | -1): number[] {
+  const polynomial = new Array(coefficients.length * spacing + 1).fill(0);
+  polynomial[0] = 1;
+  coefficients.forEach((c, i) => {
+    polynomial[(i + 1) * spacing] = sign * c;
+  });
+  return polynomial;
+}
+
+/**
+ * Apply regular and seasonal differencing
+ */
+function applyDifferencing(values: number[], d: number, D: number, period: number): number[] {
+  let series = values;
+  for (let i = 0; i < D; i++) series = difference(series, period);
+  for (let i = 0; i < d; i++) series = difference(series);
+  return series;
+}
+
+/**
+ * Fit a seasonal ARIMA(p,d,q)(P,D,Q)m model by conditional sum of squares
+ */
+export function fitArima(
+  values: number[],
+  horizon: number,
+  order: ArimaOrder,
+  seasonalOrder: SeasonalArimaOrder = { P: 0, D: 0, Q: 0, period: 1 },
+  options: ArimaOptions = {}
+): ArimaResult {
+  const { p, d, q } = order;
+  const { P, D, Q, period } = seasonalOrder;
+  const includeMean = options.includeMean ?? d + D <= 1;
+
+  const w = applyDifferencing(values, d, D, period);
+  const arLag = p + P * period;
+  const start = Math.max(arLag, options.conditioningLag ?? 0);
+  const parameterCount = p + q + P + Q + (includeMean ? 1 : 0);
+
+  if (w.length - start < parameterCount + 2 || values.length < MIN_ARIMA_OBSERVATIONS) {
+    throw new Error('Insufficient data for ARIMA model');
+  }
+
+  const scale = Math.sqrt(variance(w)) || 1;
+
+  const unpack = (x: number[]) => {
+    let offset = 0;
+    const take = (count: number) => x.slice(offset, (offset += count)).map(Math.tanh);
+    const ar = partialsToCoefficients(take(p));
+    const ma = partialsToCoefficients(take(q)).map(c => -c);
+    const seasonalAr = partialsToCoefficients(take(P));
+    const seasonalMa = partialsToCoefficients(take(Q)).map(c => -c);
+    const mu = includeMean ? x[offset] * scale : 0;
+    return { ar, ma, seasonalAr, seasonalMa, mu };
+  };
+
+  const expand = (params: ReturnType<typeof unpack>) => {
+    const arPolynomial = multiplyPolynomials(lagPolynomial(params.ar, 1, -1), lagPolynomial(params.seasonalAr, period, -1));
+    const maPolynomial = multiplyPolynomials(lagPolynomial(params.ma, 1, 1), lagPolynomial(params.seasonalMa, period, 1));
+    return {
+      // w_t = sum(phi_k w_{t-k}) + e_t + sum(theta_k e_{t-k})
+      phi: arPolynomial.slice(1).map(c => -c),
+      theta: maPolynomial.slice(1)
+    };
+  };
+
+  const residualsFor = (params: ReturnType<typeof unpack>) => {
+    const { phi, theta } = expand(params);
+    const z = w.map(value => value - params.mu);
+    const errors = new Array(z.length).fill(0);
+
+    for (let t = start; t < z.length; t++) {
+      let estimate = 0;
+      for (let k = 0; k < phi.length; k++) {
+        if (phi[k] !== 0 && t - k - 1 >= 0) estimate += phi[k] * z[t - k - 1];
+      }
+      for (let k = 0; k < theta.length; k++) {
+        if (theta[k] !== 0 && t - k - 1 >= 0) estimate += theta[k] * errors[t - k - 1];
+      }
+      errors[t] = z[t] - estimate;
+    }
+
+    return { z, errors, phi, theta };
+  };
+
+  const css = (x: number[]) => {
+    const { errors } = residualsFor(unpack(x));
+    let total = 0;
+    for (let t = start; t < errors.length; t++) total += errors[t] * errors[t];
+    return Number.isFinite(total) ? total : Number.MAX_VALUE;
+  };
+
+  const initial = new Array(p + q + P + Q).fill(0);
+  if (includeMean) initial.push(mean(w) / scale);
+  const params = unpack(nelderMead(css, initial));
+  const { z, errors, phi, theta } = residualsFor(params);
+
+  const estimationErrors = errors.slice(start);
+  const observations = estimationErrors.length;
+  const sigma2 = estimationErrors.reduce((sum, e) => sum + e * e, 0) / observations;
+  const aic = observations * Math.log(Math.max(sigma2, Number.EPSILON)) + 2 * (parameterCount + 1);
+
+  // Forecast the differenced series with future shocks set to zero
+  const zExtended = [...z];
+  const errorsExtended = [...errors];
+  for (let h = 0; h < horizon; h++) {
+    const t = zExtended.length;
+    let estimate = 0;
+    for (let k = 0; k < phi.length; k++) {
+      if (t - k - 1 >= 0) estimate += phi[k] * zExtended[t - k - 1];
+    }
+    for (let k = 0; k < theta.length; k++) {
+      if (t - k - 1 >= 0) estimate += theta[k] * errorsExtended[t - k - 1];
+    }
+    zExtended.push(estimate);
+    errorsExtended.push(0);
+  }
+
+  // Undo differencing: y_t = w_t - sum(delta_k y_{t-k})
+  let differencing = [1];
+  for (let i = 0; i < D; i++) differencing = multiplyPolynomials(differencing, lagPolynomial([1], period, -1));
+  for (let i = 0; i < d; i++) differencing = multiplyPolynomials(differencing, [1, -1]);
+
+  // Psi weights of the integrated model give the h-step forecast variance
+  const integratedAr = multiplyPolynomials([1, ...phi.map(c => -c)], differencing).slice(1).map(c => -c);
+  const psi = [1];
+  for (let j = 1; j < horizon; j++) {
+    let weight = theta[j - 1] ?? 0;
+    for (let k = 1; k <= Math.min(j, integratedAr.length); k++) {
+      weight += integratedAr[k - 1] * psi[j - k];
+    }
+    psi.push(weight);
+  }
+  let psiSquares = 0;
+  const standardErrors = psi.map(weight => {
+    psiSquares += weight * weight;
+    return Math.sqrt(sigma2 * psiSquares);
+  });
+
+  const levels = [...values];
+  const forecast: number[] = [];
+  for (let h = 0; h < horizon; h++) {
+    const t = levels.length;
+    let value = zExtended[z.length + h] + params.mu;
+    for (let k = 1; k < differencing.length; k++) {
+      value -= differencing[k] * levels[t - k];
+    }
+    levels.push(value);
+    forecast.push(value);
+  }
+
+  // Differencing is linear in past actuals, so the fitted level is actual minus shock
+  const offset = values.length - w.length;
+  const fitted = estimationErrors.map((e, i) => values[offset + start + i] - e);
+
+  return {
+    fitted,
+    residuals: estimationErrors,
+    forecast,
+    sigma2,
+    standardErrors,
+    order,
+    seasonalOrder,
+    ar: params.ar,
+    ma: params.ma,
+    seasonalAr: params.seasonalAr,
+    seasonalMa: params.seasonalMa,
+    mean: params.mu,
+    aic
+  };
+}
+
+/**
+ * Select differencing by KPSS/seasonal-strength tests and ARMA orders by AIC,
+ * then fit the chosen (S)ARIMA model. Seasonal terms are only considered when
+ * at least two full seasons of data are available.
+ */
+export function autoArima(
+  values: number[],
+  horizon: number,
+  options: AutoArimaOptions = {}
+): ArimaResult {
+  if (values.length < MIN_ARIMA_OBSERVATIONS) {
+    throw new Error('Insufficient data for ARIMA model');
+  }
+
+  const { maxP = 2, maxQ = 2 } = options;
+  const period = options.period ?? 1;
+  const seasonal = period > 1 && values.length >= 2 * period + MIN_ARIMA_OBSERVATIONS;
+  const maxSeasonalP = seasonal ? options.maxSeasonalP ?? 1 : 0;
+  const maxSeasonalQ = seasonal ? options.maxSeasonalQ ?? 1 : 0;
+
+  const D = seasonal ? estimateSeasonalDifferencingOrder(values, period) : 0;
+  const d = estimateDifferencingOrder(applyDifferencing(values, 0, D, period));
+  const conditioningLag = maxP + maxSeasonalP * period;
+
+  let best: ArimaResult | null = null;
+
+  for (let p = 0; p <= maxP; p++) {
+    for (let q = 0; q <= maxQ; q++) {
+      for (let P = 0; P <= maxSeasonalP; P++) {
+        for (let Q = 0; Q <= maxSeasonalQ; Q++) {
+          try {
+            const candidate = fitArima(
+              values,
+              horizon,
+              { p, d, q },
+              { P, D, Q, period: seasonal ? period : 1 },
+              { conditioningLag }
+            );
+            if (!best || candidate.aic < best.aic) {
+              best = candidate;
+            }
+          } catch {
+            // Order needs more data than is available; try the next one
+          }
+        }
+      }
+    }
+  }
+
+  if (!best) {
+    // Fall back to conditioning only on what the simplest model needs
+    return fitArima(values, horizon, { p: 0, d, q: 0 }, { P: 0, D, Q: 0, period: seasonal ? period : 1 });
+  }
+
+  return best;
+}
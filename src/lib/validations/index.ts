@@ -41,6 +41,7 @@ export const TranscriptFiltersSchema = z.object({
   clientName: z.string().optional(),
   startMonth: z.string().regex(/^\d{4}-\d{2}$/).optional(),
   endMonth: z.string().regex(/^\d{4}-\d{2}$/).optional(),
+  segment: z.string().optional(),
   minCount: z.number().int().min(0).optional(),
   maxCount: z.number().int().min(0).optional(),
 }).refine((data) => {
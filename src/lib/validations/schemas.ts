@@ -61,6 +61,20 @@ export const TimePredictionSchema = z.object({
   })
 })
 
+// Forecast models the prediction engine can fit
+export const FORECAST_MODEL_TYPES = [
+  'linear',
+  'polynomial',
+  'arima',
+  'sarima',
+  'holt-winters-additive',
+  'holt-winters-multiplicative',
+  'croston',
+  'tsb'
+] as const
+
+export const ForecastModelTypeSchema = z.enum(FORECAST_MODEL_TYPES)
+
 // Prediction result validation schemas
 export const PredictionResultSchema = z.object({
   id: z.string().uuid().optional(),
@@ -70,7 +84,7 @@ export const PredictionResultSchema = z.object({
   predictions: z.array(TimePredictionSchema).min(1, 'At least one prediction required'),
   confidence: z.number().min(0).max(1, 'Confidence must be between 0 and 1'),
   accuracy: z.number().min(0).max(1, 'Accuracy must be between 0 and 1'),
-  modelType: z.enum(['linear', 'polynomial', 'arima']),
+  modelType: ForecastModelTypeSchema,
   createdAt: z.date().optional(),
   createdBy: z.string().uuid('Invalid user ID')
 })
@@ -80,7 +94,344 @@ export const PredictionRequestSchema = z.object({
   clientName: z.string().optional(),
   predictionType: z.enum(['daily', 'weekly', 'monthly']).default('monthly'),
   periodsAhead: z.number().int().min(1).max(365, 'Periods ahead must be between 1 and 365').default(30),
-  modelType: z.enum(['linear', 'polynomial', 'arima']).default('linear')
+  modelType: ForecastModelTypeSchema.default('linear'),
+  seasonLength: z.number().int().min(2, 'Season length must be at least 2').max(366, 'Season length cannot exceed 366').optional(),
+  confidenceLevel: z.number().min(0.5).max(0.99, 'Confidence level must be between 0.5 and 0.99').default(0.95),
+  registryMode: z.enum(['reuse', 'retrain', 'off']).default('reuse'),
+  reconciliation: z.enum(['bottom-up', 'top-down', 'mint']).optional(),
+  // Limit the history, and so the forecasts, to the clients of a segment
+  segment: z.string().min(1).optional()
+})
+
+export const BacktestRequestSchema = z.object({
+  clientId: z.string().uuid('Invalid client ID').optional(),
+  clientName: z.string().optional(),
+  predictionType: z.enum(['daily', 'weekly', 'monthly']).default('monthly'),
+  modelTypes: z.array(ForecastModelTypeSchema)
+    .min(1, 'At least one model type is required')
+    .default(['arima', 'sarima', 'holt-winters-additive', 'holt-winters-multiplicative']),
+  horizon: z.number().int().min(1).max(90, 'Horizon must be between 1 and 90').default(3),
+  initialWindow: z.number().int().min(2, 'Initial window must be at least 2 periods').optional(),
+  step: z.number().int().min(1).default(1),
+  windowType: z.enum(['rolling', 'expanding']).default('expanding'),
+  maxOrigins: z.number().int().min(1).max(52, 'Max origins must be between 1 and 52').default(12),
+  seasonLength: z.number().int().min(2, 'Season length must be at least 2').max(366, 'Season length cannot exceed 366').optional(),
+  confidenceLevel: z.number().min(0.5).max(0.99, 'Confidence level must be between 0.5 and 0.99').default(0.95)
+})
+
+export const ModelRegistryKeySchema = z.object({
+  clientName: z.string().min(1).default('All Clients'),
+  modelType: z.enum(['linear', 'polynomial']),
+  predictionType: z.enum(['daily', 'weekly', 'monthly'])
+})
+
+export const ModelRegistryActionSchema = ModelRegistryKeySchema.extend({
+  action: z.enum(['pin', 'unpin', 'rollback']),
+  version: z.number().int().min(1).optional()
+}).refine(data => data.action !== 'pin' || data.version !== undefined, {
+  message: 'Version is required to pin a model',
+  path: ['version']
+})
+
+// Calendar event validation schemas
+const CalendarEventBaseSchema = z.object({
+  name: z.string().min(1, 'Event name is required').max(255, 'Event name too long'),
+  eventType: z.enum(['holiday', 'client_event', 'outage']),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  clientId: z.string().uuid('Invalid client ID').nullable().optional(),
+  // Resolved to clientId by the API
+  clientName: z.string().min(1).optional(),
+  notes: z.string().max(1000, 'Notes too long').optional()
+})
+
+export const CalendarEventCreateSchema = CalendarEventBaseSchema.refine(data => data.endDate >= data.startDate, {
+  message: 'End date must be on or after start date',
+  path: ['endDate']
+})
+
+export const CalendarEventUpdateSchema = CalendarEventBaseSchema.partial().refine(
+  data => !data.startDate || !data.endDate || data.endDate >= data.startDate,
+  {
+    message: 'End date must be on or after start date',
+    path: ['endDate']
+  }
+)
+
+export const CalendarEventQuerySchema = z.object({
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  clientId: z.string().uuid('Invalid client ID').optional(),
+  eventType: z.enum(['holiday', 'client_event', 'outage']).optional()
+})
+
+export const HolidayImportSchema = z.object({
+  countryCode: z.enum(['US', 'GB', 'CA']),
+  year: z.number().int().min(2000).max(2100, 'Year must be between 2000 and 2100'),
+  clientId: z.string().uuid('Invalid client ID').optional(),
+  clientName: z.string().min(1).optional()
+})
+
+// Scenario validation schemas
+export const ScenarioAdjustmentSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('uplift'),
+    clientName: z.string().min(1).optional(),
+    percent: z.number().min(-100, 'Uplift cannot remove more than 100% of volume').max(1000, 'Uplift too large'),
+    startDate: z.coerce.date().optional(),
+    endDate: z.coerce.date().optional()
+  }),
+  z.object({
+    type: z.literal('new-client'),
+    clientName: z.string().min(1, 'Client name is required'),
+    startDate: z.coerce.date(),
+    volume: z.number().min(0, 'Volume must be non-negative'),
+    rampPeriods: z.number().int().min(1).max(365, 'Ramp must be between 1 and 365 periods').default(1),
+    curve: z.enum(['step', 'linear', 's-curve']).default('linear')
+  }),
+  z.object({
+    type: z.literal('churn'),
+    clientName: z.string().min(1, 'Client name is required'),
+    effectiveDate: z.coerce.date()
+  })
+])
+
+export const ScenarioCreateSchema = z.object({
+  name: z.string().min(1, 'Scenario name is required').max(255, 'Scenario name too long'),
+  description: z.string().max(1000, 'Description too long').optional(),
+  predictionType: z.enum(['daily', 'weekly', 'monthly']).default('monthly'),
+  // Clients whose latest stored forecast forms the baseline; every client when omitted
+  clientIds: z.array(z.string().uuid('Invalid client ID')).optional(),
+  adjustments: z.array(ScenarioAdjustmentSchema).max(50, 'Too many adjustments').default([])
+})
+
+export const ScenarioUpdateSchema = ScenarioCreateSchema.pick({
+  name: true,
+  description: true,
+  adjustments: true
+}).partial()
+
+// AHT validation schemas
+const AHTMonthKeySchema = z.string().regex(/^\d{4}_(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)$/, 'Invalid month key')
+
+export const AHTClientImportSchema = z.object({
+  client: z.string().trim().min(1, 'Client is required').max(255, 'Client name too long'),
+  overallAHT: z.number().min(0, 'AHT must be non-negative'),
+  reviewAHT: z.number().min(0, 'AHT must be non-negative'),
+  validationAHT: z.number().min(0, 'AHT must be non-negative'),
+  // Volumes keyed by month, e.g. "2024_Jun"
+  monthlyData: z.record(AHTMonthKeySchema, z.number().int().min(0, 'Volume must be non-negative')),
+  // Review and validation AHT per month, where recorded
+  monthlyAHT: z.record(AHTMonthKeySchema, z.object({
+    reviewAHT: z.number().min(0, 'AHT must be non-negative'),
+    validationAHT: z.number().min(0, 'AHT must be non-negative')
+  })).optional()
+})
+
+export const AHTImportSchema = z.object({
+  clients: z.array(AHTClientImportSchema)
+    .min(1, 'At least one client is required')
+    .max(5000, 'Too many clients in one import')
+    .refine(
+      clients => new Set(clients.map(c => c.client.toLowerCase())).size === clients.length,
+      'Duplicate clients in import'
+    )
+})
+
+export const AHTPredictionQuerySchema = z.object({
+  client: z.string().min(1).max(255).optional(),
+  periodsAhead: z.coerce.number().int().min(1).max(12, 'Periods ahead must be at most 12').default(3),
+  modelType: ForecastModelTypeSchema.optional(),
+  confidenceLevel: z.coerce.number().min(0.5).max(0.99).default(0.95)
+})
+
+// Risk rule validation schemas
+const RiskRuleBaseSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255),
+  description: z.string().max(1000).optional(),
+  metric: z.enum([
+    'overallAHT', 'reviewAHT', 'validationAHT', 'totalVolume',
+    'volumeGrowth', 'volumeVolatility', 'forecastError', 'slaMisses'
+  ]),
+  operator: z.enum(['gt', 'gte', 'lt', 'lte']),
+  threshold: z.number().finite(),
+  weight: z.number().positive('Weight must be positive').max(1000),
+  enabled: z.boolean()
+})
+
+export const RiskRuleCreateSchema = RiskRuleBaseSchema.extend({
+  enabled: z.boolean().default(true)
+})
+
+export const RiskRuleUpdateSchema = RiskRuleBaseSchema.partial()
+
+// Capacity planning validation schemas
+export const CapacityQuerySchema = z.object({
+  clientId: z.string().uuid('Invalid client ID').optional(),
+  predictionType: z.enum(['daily', 'weekly', 'monthly']).default('monthly'),
+  shrinkage: z.coerce.number().min(0).max(0.95, 'Shrinkage must be at most 0.95').optional(),
+  occupancy: z.coerce.number().min(0.05, 'Occupancy must be at least 0.05').max(1).optional(),
+  hoursPerDay: z.coerce.number().positive().max(24, 'Hours per day must be at most 24').optional(),
+  ahtUnit: z.enum(['seconds', 'minutes']).optional()
+})
+
+// Volume anomaly validation schemas
+export const AnomalyQuerySchema = z.object({
+  clientId: z.string().uuid('Invalid client ID').optional(),
+  granularity: z.enum(['daily', 'monthly']).optional(),
+  severity: z.enum(['low', 'medium', 'high', 'critical']).optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(200)
+})
+
+export const AnomalyRunSchema = z.object({
+  since: z.coerce.date().optional(),
+  clientNames: z.array(z.string().min(1)).optional()
+})
+
+// Client segmentation validation schemas
+export const SegmentQuerySchema = z.object({
+  method: z.enum(['tiers', 'kmeans']).optional(),
+  clusters: z.coerce.number().int().min(2, 'At least 2 clusters are required').max(12, 'At most 12 clusters are supported').optional()
+})
+
+export const CohortQuerySchema = z.object({
+  months: z.coerce.number().int().min(1).max(60).default(12),
+  segment: z.string().min(1).optional()
+})
+
+// Finance validation schemas
+const YearMonthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be YYYY-MM')
+
+export const FinanceQuerySchema = z.object({
+  startMonth: YearMonthSchema.optional(),
+  endMonth: YearMonthSchema.optional(),
+  // Repeat clientName in the query string for several clients
+  clientNames: z.array(z.string().min(1)).optional(),
+  segment: z.string().min(1).optional(),
+  includeForecast: z.enum(['true', 'false']).optional().transform(value => value !== 'false')
+}).refine(data => !data.startMonth || !data.endMonth || data.startMonth <= data.endMonth, {
+  message: 'Start month must not be after end month',
+  path: ['startMonth']
+})
+
+export const PricingTierSchema = z.object({
+  upTo: z.number().int().positive('Tier bounds must be positive').nullable(),
+  rate: z.number().min(0, 'Rates must not be negative').finite()
+})
+
+export const RateCardSchema = z.object({
+  // null saves the default card, used by clients without their own
+  clientId: z.string().uuid('Invalid client ID').nullable(),
+  tierMode: z.enum(['graduated', 'volume']).default('graduated'),
+  tiers: z.array(PricingTierSchema).min(1, 'At least one tier is required').max(20),
+  monthlyMinimum: z.number().min(0, 'Monthly minimum must not be negative').finite().default(0)
+}).refine(
+  data => data.tiers.every((tier, index) =>
+    index === data.tiers.length - 1
+      ? tier.upTo === null
+      : tier.upTo !== null && (index === 0 || tier.upTo > (data.tiers[index - 1].upTo ?? Infinity))
+  ),
+  {
+    message: 'Tiers must run in ascending order of their upper bound, the last without one',
+    path: ['tiers']
+  }
+)
+
+// Client target validation schemas
+const TargetBaseSchema = z.object({
+  clientId: z.string().uuid('Invalid client ID'),
+  metric: z.enum(['minimumVolume', 'maximumVolume', 'aht', 'turnaround']),
+  value: z.number().min(0, 'Target must not be negative').finite(),
+  effectiveFrom: YearMonthSchema,
+  // null while the target runs on
+  effectiveTo: YearMonthSchema.nullable(),
+  notes: z.string().max(1000).optional()
+})
+
+export const TargetCreateSchema = TargetBaseSchema.extend({
+  effectiveTo: YearMonthSchema.nullable().default(null)
+}).refine(data => data.effectiveTo === null || data.effectiveTo >= data.effectiveFrom, {
+  message: 'Target must not end before it starts',
+  path: ['effectiveTo']
+})
+
+export const TargetUpdateSchema = TargetBaseSchema.omit({ clientId: true }).partial().refine(
+  data => !data.effectiveFrom || !data.effectiveTo || data.effectiveTo >= data.effectiveFrom,
+  {
+    message: 'Target must not end before it starts',
+    path: ['effectiveTo']
+  }
+)
+
+export const TargetReportQuerySchema = z.object({
+  // Repeat clientName in the query string for several clients
+  clientNames: z.array(z.string().min(1)).optional(),
+  segment: z.string().min(1).optional()
+})
+
+export const TurnaroundImportSchema = z.object({
+  measurements: z.array(z.object({
+    clientId: z.string().uuid('Invalid client ID'),
+    month: YearMonthSchema,
+    turnaroundHours: z.number().min(0, 'Turnaround must not be negative').finite()
+  })).min(1, 'At least one measurement is required').max(5000)
+})
+
+// Import profile validation schemas
+export const ImportValueTransformSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('trim') }),
+  z.object({ type: z.literal('uppercase') }),
+  z.object({ type: z.literal('lowercase') }),
+  z.object({ type: z.literal('titlecase') }),
+  z.object({
+    type: z.literal('replace'),
+    find: z.string().min(1, 'Text to replace is required').max(255),
+    replace: z.string().max(255)
+  }),
+  z.object({
+    type: z.literal('map'),
+    values: z.record(z.string(), z.string().max(255))
+  }),
+  z.object({
+    type: z.literal('scale'),
+    factor: z.number().positive('Scale factor must be positive').finite()
+  })
+])
+
+const ImportDateFormatSchema = z.enum([
+  'YYYY-MM-DD', 'YYYY/MM/DD', 'MM/DD/YYYY', 'MM-DD-YYYY', 'DD/MM/YYYY', 'DD-MM-YYYY', 'DD.MM.YYYY'
+])
+
+const ImportProfileBaseSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255),
+  description: z.string().max(1000).optional(),
+  scope: z.enum(['personal', 'team']),
+  headers: z.array(z.string().max(255)).min(1, 'At least one header is required').max(500),
+  // Import field to source header
+  columnMapping: z.record(z.string(), z.string().min(1)),
+  dateFormat: ImportDateFormatSchema,
+  // Keyed by import field
+  transforms: z.record(z.string(), z.array(ImportValueTransformSchema).max(20)),
+  defaultTranscriptType: z.string().min(1).max(100, 'Transcript type too long').optional(),
+  sheetName: z.string().min(1).max(255).optional()
+})
+
+export const ImportProfileCreateSchema = ImportProfileBaseSchema.extend({
+  scope: z.enum(['personal', 'team']).default('personal'),
+  dateFormat: ImportDateFormatSchema.default('YYYY-MM-DD'),
+  transforms: ImportProfileBaseSchema.shape.transforms.default({})
+}).refine(data => Object.values(data.columnMapping).every(header => data.headers.includes(header)), {
+  message: 'Mapped columns must be among the headers',
+  path: ['columnMapping']
+})
+
+// null clears an optional setting
+export const ImportProfileUpdateSchema = ImportProfileBaseSchema.partial().extend({
+  description: z.string().max(1000).nullable().optional(),
+  defaultTranscriptType: z.string().min(1).max(100, 'Transcript type too long').nullable().optional(),
+  sheetName: z.string().min(1).max(255).nullable().optional()
 })
 
 // Performance metrics validation schemas
@@ -97,13 +448,23 @@ export const PerformanceMetricsSchema = z.object({
 })
 
 // File upload validation schemas
+const FILE_TYPE_EXTENSIONS = {
+  csv: ['.csv'],
+  excel: ['.xlsx', '.xls'],
+  json: ['.json'],
+  ndjson: ['.ndjson', '.jsonl'],
+  parquet: ['.parquet']
+}
+
 export const FileUploadSchema = z.object({
   file: z.instanceof(File, { message: 'Valid file is required' }),
-  fileType: z.enum(['csv', 'excel'], { message: 'File type must be csv or excel' }),
+  fileType: z.enum(['csv', 'excel', 'json', 'ndjson', 'parquet'], {
+    message: 'File type must be csv, excel, json, ndjson or parquet'
+  }),
   hasHeaders: z.boolean().default(true),
   dateFormat: z.string().default('YYYY-MM-DD')
 }).refine(data => {
-  const validExtensions = data.fileType === 'csv' ? ['.csv'] : ['.xlsx', '.xls']
+  const validExtensions = FILE_TYPE_EXTENSIONS[data.fileType]
   return validExtensions.some(ext => data.file.name.toLowerCase().endsWith(ext))
 }, {
   message: 'File extension does not match file type'
@@ -160,6 +521,7 @@ export const TranscriptQuerySchema = z.object({
   startDate: z.string().datetime().optional(),
   endDate: z.string().datetime().optional(),
   transcriptType: z.string().optional(),
+  segment: z.string().min(1).optional(),
   page: z.string().optional().default('1').transform(val => parseInt(val, 10)).pipe(z.number().int().min(1)),
   limit: z.string().optional().default('50').transform(val => parseInt(val, 10)).pipe(z.number().int().min(1).max(100))
 })
@@ -194,6 +556,30 @@ export type TranscriptUpdate = z.infer<typeof TranscriptUpdateSchema>
 export type BulkTranscriptInput = z.infer<typeof BulkTranscriptSchema>
 export type PredictionResultInput = z.infer<typeof PredictionResultSchema>
 export type PredictionRequest = z.infer<typeof PredictionRequestSchema>
+export type BacktestRequest = z.infer<typeof BacktestRequestSchema>
+export type ModelRegistryAction = z.infer<typeof ModelRegistryActionSchema>
+export type CalendarEventCreate = z.infer<typeof CalendarEventCreateSchema>
+export type CalendarEventUpdate = z.infer<typeof CalendarEventUpdateSchema>
+export type CalendarEventQuery = z.infer<typeof CalendarEventQuerySchema>
+export type HolidayImport = z.infer<typeof HolidayImportSchema>
+export type ScenarioCreate = z.infer<typeof ScenarioCreateSchema>
+export type ScenarioUpdate = z.infer<typeof ScenarioUpdateSchema>
+export type AHTImport = z.infer<typeof AHTImportSchema>
+export type AHTPredictionQuery = z.infer<typeof AHTPredictionQuerySchema>
+export type RiskRuleCreate = z.infer<typeof RiskRuleCreateSchema>
+export type RiskRuleUpdate = z.infer<typeof RiskRuleUpdateSchema>
+export type CapacityQuery = z.infer<typeof CapacityQuerySchema>
+export type AnomalyQuery = z.infer<typeof AnomalyQuerySchema>
+export type AnomalyRun = z.infer<typeof AnomalyRunSchema>
+export type SegmentQuery = z.infer<typeof SegmentQuerySchema>
+export type CohortQuery = z.infer<typeof CohortQuerySchema>
+export type FinanceQuery = z.infer<typeof FinanceQuerySchema>
+export type RateCardInput = z.infer<typeof RateCardSchema>
+export type TargetCreate = z.infer<typeof TargetCreateSchema>
+export type TargetUpdate = z.infer<typeof TargetUpdateSchema>
+export type TurnaroundImport = z.infer<typeof TurnaroundImportSchema>
+export type ImportProfileCreate = z.infer<typeof ImportProfileCreateSchema>
+export type ImportProfileUpdate = z.infer<typeof ImportProfileUpdateSchema>
 export type PerformanceMetricsInput = z.infer<typeof PerformanceMetricsSchema>
 export type FileUploadInput = z.infer<typeof FileUploadSchema>
 export type ExportRequest = z.infer<typeof ExportRequestSchema>
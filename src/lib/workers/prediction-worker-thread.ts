@@ -0,0 +1,46 @@
+import { Worker } from 'worker_threads';
+import { PredictionJob, PredictionJobResult } from '@/types/prediction-job';
+import { PredictionRequest } from '@/lib/validations/schemas';
+
+export interface PredictionWorkerInput {
+  request: PredictionRequest;
+  userId?: string;
+}
+
+export type PredictionWorkerMessage =
+  | { result: PredictionJobResult; error?: undefined }
+  | { error: string; result?: undefined };
+
+/**
+ * Run a prediction job in its own worker thread so TensorFlow training does
+ * not block the request thread. Each job gets a fresh thread, which also frees
+ * its tensors and database connections when it ends. A job still running
+ * after timeoutMs is failed and its thread terminated.
+ */
+export function runPredictionJobInWorker(job: PredictionJob, timeoutMs: number): Promise<PredictionJobResult> {
+  return new Promise((resolve, reject) => {
+    const input: PredictionWorkerInput = { request: job.request, userId: job.createdBy };
+    const worker = new Worker(new URL('./prediction-worker.ts', import.meta.url), { workerData: input });
+    let settled = false;
+
+    const settle = (action: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      action();
+      void worker.terminate();
+    };
+
+    const timer = setTimeout(() => {
+      settle(() => reject(new Error(`Prediction job timed out after ${Math.round(timeoutMs / 1000)} seconds`)));
+    }, timeoutMs);
+
+    worker.once('message', (message: PredictionWorkerMessage) => {
+      settle(() => (message.error !== undefined ? reject(new Error(message.error)) : resolve(message.result)));
+    });
+    worker.once('error', error => settle(() => reject(error)));
+    worker.once('exit', code => {
+      settle(() => reject(new Error(`Prediction worker exited with code ${code} before finishing`)));
+    });
+  });
+}
@@ -0,0 +1,18 @@
+import { parentPort, workerData } from 'worker_threads';
+import { runPredictionJob } from '@/lib/services/prediction-job-runner';
+import type { PredictionWorkerInput, PredictionWorkerMessage } from './prediction-worker-thread';
+
+/**
+ * Worker thread entry point. Trains and forecasts for one job, then posts the
+ * result back; the parent terminates the thread once it has the message.
+ */
+
+const { request, userId } = workerData as PredictionWorkerInput;
+
+function reply(message: PredictionWorkerMessage): void {
+  parentPort?.postMessage(message);
+}
+
+runPredictionJob(request, userId)
+  .then(result => reply({ result }))
+  .catch(error => reply({ error: error instanceof Error ? error.message : 'Prediction job failed' }));
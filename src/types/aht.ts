@@ -1,3 +1,5 @@
+import type { RiskLevel, RiskRuleResult } from './risk'
+
 export interface AHTData {
   client: string
   overallAHT: number
@@ -6,9 +8,18 @@ export interface AHTData {
   monthlyData: {
     [key: string]: number // e.g., "2024_Jun": 0, "2024_Jul": 252
   }
+  // Handling times per month, keyed like monthlyData, for months where they were recorded
+  monthlyAHT?: {
+    [key: string]: MonthlyAHT
+  }
   grandTotal: number
 }
 
+export interface MonthlyAHT {
+  reviewAHT: number
+  validationAHT: number
+}
+
 export interface AHTSummary {
   totalClients: number
   averageAHT: number
@@ -30,6 +41,50 @@ export interface ClientPerformance {
   overallAHT: number
   trend: 'increasing' | 'decreasing' | 'stable'
   trendPercentage: number
-  riskLevel: 'low' | 'medium' | 'high'
+  riskLevel: RiskLevel
+  // Weighted score from the risk rules, 0-100
+  riskScore: number
+  // Every enabled rule with whether it fired, explaining the risk level
+  riskRules: RiskRuleResult[]
   monthlyVolumes: Array<{ month: string; volume: number }>
-}
\ No newline at end of file
+}
+
+export interface AHTDataset {
+  clients: AHTData[]
+  months: string[] // monthlyData keys present in the database, oldest first
+}
+
+export interface AHTImportSummary {
+  clients: number
+  months: number
+  volumes: number
+}
+
+export interface AHTComponentForecast {
+  modelType: string
+  predictions: Array<{
+    month: string // monthlyData key
+    predictedAHT: number
+    lower: number
+    upper: number
+  }>
+  // 1 - backtested one-month-ahead sMAPE; null when the history is too short to backtest
+  confidence: number | null
+  backtest: {
+    origins: number
+    smape: number | null
+    mase: number | null
+  } | null
+}
+
+export interface AHTForecast {
+  client: string
+  historyMonths: number
+  lastMonth: string
+  review: AHTComponentForecast
+  validation: AHTComponentForecast
+  // Next month's review plus validation AHT
+  predictedAHT: number
+  // Lower of the review and validation confidences
+  confidence: number | null
+}
@@ -0,0 +1,32 @@
+import type { AlertConfig } from './monitoring'
+
+export type AnomalyGranularity = 'daily' | 'monthly'
+
+export type AnomalySeverity = AlertConfig['severity']
+
+// A period where a client's transcript count departs from its own trend and seasonality
+export interface VolumeAnomaly {
+  id?: string
+  clientId: string
+  clientName: string
+  granularity: AnomalyGranularity
+  periodStart: Date
+  actualCount: number
+  // Trend plus seasonal component for the period
+  expectedCount: number
+  // Robust z-score of the residual; positive for spikes
+  zScore: number
+  severity: AnomalySeverity
+  direction: 'spike' | 'drop'
+  // Possible causes, e.g. an outage on the calendar or other clients affected at once
+  hints: string[]
+  detectedAt?: Date
+}
+
+export interface AnomalyDetectionReport {
+  clientsChecked: number
+  anomalies: VolumeAnomaly[]
+  // Anomalies that raised an alert
+  alerted: number
+  detectedAt: Date
+}
@@ -0,0 +1,33 @@
+export interface BacktestMetrics {
+  mape: number | null
+  smape: number | null
+  mase: number | null
+  rmse: number | null
+  coverage: number | null
+}
+
+export interface BacktestHorizonMetrics extends BacktestMetrics {
+  horizon: number
+  sampleCount: number
+}
+
+// One model's backtest as stored in backtest_runs
+export interface BacktestRun extends BacktestMetrics {
+  id: string
+  clientId: string
+  clientName: string
+  predictionType: 'daily' | 'weekly' | 'monthly'
+  modelType: string
+  windowType: 'rolling' | 'expanding'
+  horizon: number
+  initialWindow: number
+  step: number
+  origins: number
+  failedOrigins: number
+  confidenceLevel: number
+  seasonLength: number | null
+  isRecommended: boolean
+  horizons: BacktestHorizonMetrics[]
+  createdAt: Date
+  createdBy?: string
+}
@@ -0,0 +1,18 @@
+export type CalendarEventType = 'holiday' | 'client_event' | 'outage'
+
+export interface CalendarEvent {
+  id: string
+  name: string
+  eventType: CalendarEventType
+  startDate: Date
+  endDate: Date
+  // Unset when the event applies to every client
+  clientId?: string
+  clientName?: string
+  // Set for holidays imported from a country holiday set
+  countryCode?: string
+  notes?: string
+  createdAt: Date
+  updatedAt: Date
+  createdBy?: string
+}
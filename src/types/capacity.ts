@@ -0,0 +1,42 @@
+export type CapacityCase = 'best' | 'expected' | 'worst'
+
+export type AHTUnit = 'seconds' | 'minutes'
+
+export interface CapacityAssumptions {
+  shrinkage: number // share of paid time lost to leave, training and meetings, 0-1
+  occupancy: number // share of available time spent handling work, 0-1
+  hoursPerDay: number // paid hours per FTE per working day
+  ahtUnit: AHTUnit // unit of the AHT figures
+}
+
+export interface CapacityFigures {
+  volume: number
+  reviewerHours: number
+  validatorHours: number
+  reviewerFTE: number
+  validatorFTE: number
+  totalFTE: number
+}
+
+export interface ClientCapacityPlan {
+  clientName: string
+  month: string // YYYY-MM, or a fiscal period such as FY2025-P03
+  reviewAHT: number
+  validationAHT: number
+  cases: Record<CapacityCase, CapacityFigures>
+}
+
+export interface MonthlyCapacityPlan {
+  month: string // YYYY-MM, or a fiscal period such as FY2025-P03
+  workingDays: number
+  hoursPerFTE: number
+  cases: Record<CapacityCase, CapacityFigures>
+}
+
+export interface CapacityPlan {
+  assumptions: CapacityAssumptions
+  clients: ClientCapacityPlan[]
+  months: MonthlyCapacityPlan[]
+  // Forecast clients with no AHT data, left out of the plan
+  unmatchedClients: string[]
+}
@@ -0,0 +1,22 @@
+export type DecompositionGranularity = 'daily' | 'weekly' | 'monthly'
+
+export interface SeasonalDecomposition {
+  granularity: DecompositionGranularity
+  // Client the series belongs to; unset for the aggregate of all clients
+  clientName?: string
+  // Period keys: YYYY-MM-DD for days and weeks (the Sunday they start on), YYYY-MM for months
+  periods: string[]
+  observed: number[]
+  trend: number[]
+  // Day-of-week effect; null for weekly and monthly series or under two weeks of data
+  weekly: number[] | null
+  // Time-of-year effect; null with under two years of data
+  yearly: number[] | null
+  residual: number[]
+  // Share of the variation each component explains beyond the residual, 0-1
+  strength: {
+    trend: number
+    weekly: number | null
+    yearly: number | null
+  }
+}
@@ -0,0 +1,57 @@
+// graduated: each tier's rate applies to the volume within it
+// volume: the tier the whole month's volume reaches sets the rate for all of it
+export type TierMode = 'graduated' | 'volume'
+
+export type FinanceKind = 'actual' | 'forecast'
+
+export interface PricingTier {
+  upTo: number | null // monthly volume the tier runs to, inclusive; null for no upper bound
+  rate: number // price per transcript
+}
+
+export interface RateCard {
+  id: string
+  clientId: string | null // null for the default card, used by clients without their own
+  clientName: string | null
+  tierMode: TierMode
+  tiers: PricingTier[] // ascending by upTo, the last without an upper bound
+  monthlyMinimum: number // least a client is billed in a month
+  createdAt: Date
+  updatedAt: Date
+  createdBy?: string
+}
+
+export interface FinanceFigures {
+  volume: number
+  revenue: number
+  laborHours: number
+  laborCost: number
+  margin: number
+  marginPercent: number | null // margin as a percentage of revenue; null without revenue
+}
+
+export interface ClientFinanceMonth extends FinanceFigures {
+  clientName: string
+  month: string // YYYY-MM
+  kind: FinanceKind
+  rateCard: 'client' | 'default' | null // null when there is no card to price the client by
+  reviewAHT: number | null // null when the client has no AHT data
+  validationAHT: number | null
+}
+
+export interface MonthlyFinance extends FinanceFigures {
+  month: string // YYYY-MM
+  kind: FinanceKind
+}
+
+export interface FinanceReport {
+  currency: string
+  laborCostPerHour: number
+  clients: ClientFinanceMonth[]
+  months: MonthlyFinance[]
+  totals: Record<FinanceKind, FinanceFigures>
+  // Clients billed nothing for lack of a rate card
+  unpricedClients: string[]
+  // Clients costed at nothing for lack of AHT data
+  uncostedClients: string[]
+}
@@ -0,0 +1,44 @@
+import { BacktestMetrics } from './backtest'
+
+// A stored prediction period compared with the transcripts that arrived for it
+export interface RealizedOutcome {
+  predictionId: string
+  clientId: string
+  clientName: string
+  predictionType: 'daily' | 'weekly' | 'monthly'
+  modelType: string
+  horizon: number
+  periodStart: Date
+  predictedCount: number
+  confidenceLower: number
+  confidenceUpper: number
+  actualCount: number
+}
+
+export interface RealizedAccuracy extends BacktestMetrics {
+  clientId: string
+  clientName: string
+  modelType: string
+  horizon: number
+  sampleCount: number
+}
+
+export interface AccuracyDecay {
+  clientId: string
+  clientName: string
+  /** sMAPE over the recent window, in percent */
+  recentError: number | null
+  /** sMAPE over every earlier outcome, in percent */
+  baselineError: number | null
+  recentCount: number
+  baselineCount: number
+  decayed: boolean
+  reason?: string
+}
+
+export interface ForecastTrackingReport {
+  recorded: number
+  accuracy: RealizedAccuracy[]
+  decay: AccuracyDecay[]
+  checkedAt: Date
+}
@@ -0,0 +1,67 @@
+import type { ImportResult, TranscriptData } from './transcript'
+
+// staged: parsed and waiting for conflict resolutions
+// applied: committed to transcripts; can be reverted
+// reverted: every change the batch made has been undone
+export type ImportBatchStatus = 'staged' | 'applied' | 'reverted'
+
+// use_new: overwrite the existing record with the imported row
+// use_existing: keep the existing record and drop the imported row
+// merge: overwrite the existing record with merged values
+// skip: drop the imported row
+export type ConflictResolutionChoice = 'use_new' | 'use_existing' | 'merge' | 'skip'
+
+export type ImportConflictType = 'duplicate' | 'count_difference'
+
+export interface StagedImportRow {
+  rowNumber: number
+  clientName: string
+  date: Date
+  transcriptCount: number
+  transcriptType?: string
+  notes?: string
+}
+
+export interface MergedImportData {
+  transcriptCount?: number
+  transcriptType?: string
+  notes?: string
+}
+
+export interface ImportConflict {
+  id: string
+  rowNumber: number
+  newRecord: StagedImportRow
+  existingRecord: TranscriptData
+  conflictType: ImportConflictType
+  differences: string[]
+  resolution: ConflictResolutionChoice | null
+  mergedData?: MergedImportData
+}
+
+export interface ImportBatch {
+  id: string
+  fileName: string
+  status: ImportBatchStatus
+  totalRows: number
+  stagedRows: number
+  conflictCount: number
+  unresolvedCount: number
+  errors: ImportResult['errors'] // rows that could not be parsed
+  result: ImportResult | null // set once applied
+  createdAt: Date
+  createdBy?: string
+  appliedAt: Date | null
+  appliedBy?: string
+  revertedAt: Date | null
+  revertedBy?: string
+}
+
+export interface ImportBatchDetail extends ImportBatch {
+  conflicts: ImportConflict[]
+}
+
+export interface ImportRevertResult {
+  deleted: number
+  restored: number
+}
@@ -0,0 +1,41 @@
+// personal: seen and used by its owner only
+// team: shared with every user; its owner or an admin can change it
+export type ImportProfileScope = 'personal' | 'team'
+
+// Formats a date column can be read in; DD/MM and MM/DD cannot always be told
+// apart from the data, so a profile records which one a source uses
+export type ImportDateFormat =
+  | 'YYYY-MM-DD'
+  | 'YYYY/MM/DD'
+  | 'MM/DD/YYYY'
+  | 'MM-DD-YYYY'
+  | 'DD/MM/YYYY'
+  | 'DD-MM-YYYY'
+  | 'DD.MM.YYYY'
+
+// Applied in order to the text of a mapped column before validation
+export type ImportValueTransform =
+  | { type: 'trim' }
+  | { type: 'uppercase' }
+  | { type: 'lowercase' }
+  | { type: 'titlecase' }
+  | { type: 'replace'; find: string; replace: string } // every occurrence, case-sensitive
+  | { type: 'map'; values: Record<string, string> } // whole-value lookup, e.g. client codes to names
+  | { type: 'scale'; factor: number } // numeric columns, e.g. counts reported in hundreds
+
+export interface ImportProfile {
+  id: string
+  name: string
+  description?: string
+  scope: ImportProfileScope
+  headers: string[] // the source's header row, as saved
+  headerFingerprint: string
+  columnMapping: Record<string, string> // import field to source header
+  dateFormat: ImportDateFormat
+  transforms: Record<string, ImportValueTransform[]> // keyed by import field
+  defaultTranscriptType?: string // used when the type is unmapped or blank
+  sheetName?: string // Excel sheet to read instead of the first
+  createdBy: string
+  createdAt: Date
+  updatedAt: Date
+}
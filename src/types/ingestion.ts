@@ -0,0 +1,32 @@
+import type { ImportResult } from './transcript'
+
+// committed: imported and moved to processed/
+// quarantined: not imported; moved to quarantine/ for someone to look at
+export type IngestionStatus = 'committed' | 'quarantined'
+
+export interface IngestionLogEntry {
+  id: string
+  fileName: string
+  status: IngestionStatus
+  /** Where the file was moved, relative to the drop folder */
+  storedAs: string
+  profileId?: string
+  profileName?: string
+  batchId?: string
+  totalRows: number
+  importedRows: number
+  errorCount: number
+  errors: ImportResult['errors'] // the first invalid rows only
+  message: string
+  startedAt: Date
+  finishedAt: Date
+}
+
+export interface DropFolderStatus {
+  /** Null when no drop folder is configured */
+  directory: string | null
+  running: boolean
+  lastScanAt: Date | null
+  /** Set while the folder cannot be read */
+  lastError: string | null
+}
@@ -0,0 +1,24 @@
+import type { PredictionRequest } from '@/lib/validations/schemas'
+
+export type PredictionJobStatus = 'queued' | 'running' | 'completed' | 'failed'
+
+// What the predictions endpoint used to return synchronously
+export interface PredictionJobResult {
+  data: unknown
+  warnings: string[]
+  message: string
+}
+
+export interface PredictionJob {
+  id: string
+  status: PredictionJobStatus
+  request: PredictionRequest
+  result?: PredictionJobResult
+  error?: string
+  /** Times the job has been started, including restarts after a crashed worker */
+  attempts: number
+  createdAt: Date
+  startedAt?: Date
+  completedAt?: Date
+  createdBy?: string
+}
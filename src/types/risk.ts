@@ -0,0 +1,59 @@
+// Client signals that risk rules can test
+export type RiskMetric =
+  | 'overallAHT'
+  | 'reviewAHT'
+  | 'validationAHT'
+  | 'totalVolume'
+  | 'volumeGrowth'
+  | 'volumeVolatility'
+  | 'forecastError'
+  | 'slaMisses'
+
+export type RiskOperator = 'gt' | 'gte' | 'lt' | 'lte'
+
+export type RiskLevel = 'low' | 'medium' | 'high'
+
+export interface RiskRule {
+  id: string
+  name: string
+  description?: string
+  metric: RiskMetric
+  operator: RiskOperator
+  threshold: number
+  // Relative weight of the rule in the client's risk score
+  weight: number
+  enabled: boolean
+  createdAt?: Date
+  updatedAt?: Date
+  createdBy?: string
+}
+
+// Metric values for one client; null where the client has no data for the metric
+export type ClientRiskMetrics = Record<RiskMetric, number | null>
+
+export interface RiskRuleResult {
+  ruleId: string
+  name: string
+  metric: RiskMetric
+  operator: RiskOperator
+  threshold: number
+  weight: number
+  value: number | null
+  fired: boolean
+  // e.g. "Overall AHT 18.2 > 15"
+  explanation: string
+}
+
+export interface RiskAssessment {
+  // Fired weight as a share of the weight of rules with data, 0-100
+  score: number
+  level: RiskLevel
+  metrics: ClientRiskMetrics
+  rules: RiskRuleResult[]
+}
+
+// Signals from outside the AHT data, keyed by lower-case client name
+export interface RiskSignals {
+  forecastErrors?: Record<string, number>
+  slaMisses?: Record<string, number>
+}
@@ -0,0 +1,49 @@
+import type { PredictionResult } from './transcript'
+
+export type RampCurve = 'step' | 'linear' | 's-curve'
+
+// Percentage change to a client's forecast (or every client's) over an optional date range
+export interface UpliftAdjustment {
+  type: 'uplift'
+  /** Unset applies the uplift to every client */
+  clientName?: string
+  /** e.g. 100 doubles volume, -25 cuts it by a quarter */
+  percent: number
+  startDate?: Date | string
+  endDate?: Date | string
+}
+
+// A client without history, ramping up to a steady volume per period
+export interface NewClientAdjustment {
+  type: 'new-client'
+  clientName: string
+  startDate: Date | string
+  /** Volume per period once fully ramped */
+  volume: number
+  /** Periods to reach full volume; the step curve reaches it immediately */
+  rampPeriods: number
+  curve: RampCurve
+}
+
+// A client that stops sending volume from a date
+export interface ChurnAdjustment {
+  type: 'churn'
+  clientName: string
+  effectiveDate: Date | string
+}
+
+export type ScenarioAdjustment = UpliftAdjustment | NewClientAdjustment | ChurnAdjustment
+
+// Saved copy of the baseline forecasts with the scenario's overrides applied
+export interface ForecastScenario {
+  id: string
+  name: string
+  description?: string
+  predictionType: 'daily' | 'weekly' | 'monthly'
+  adjustments: ScenarioAdjustment[]
+  baseline: PredictionResult[]
+  forecasts: PredictionResult[]
+  createdAt: Date
+  updatedAt: Date
+  createdBy?: string
+}
@@ -0,0 +1,55 @@
+export type SegmentationMethod = 'tiers' | 'kmeans'
+
+export type VolumeBand = 'high' | 'mid' | 'low'
+export type GrowthBand = 'growing' | 'stable' | 'declining'
+export type SeasonalityBand = 'seasonal' | 'steady'
+export type AHTBand = 'long' | 'normal'
+
+export interface ClientFeatures {
+  clientName: string
+  // Average monthly volume over the recent months
+  monthlyVolume: number
+  // Fitted change in monthly volume per month, as a fraction of the average
+  growthRate: number
+  // Volume of each calendar month (January first) relative to the client's average
+  seasonalProfile: number[]
+  // Largest minus smallest value of the seasonal profile; 0 without a year of data
+  seasonality: number
+  // 0-11, or null when the profile is flat
+  peakMonth: number | null
+  // Overall handling time in seconds, when the client has AHT data
+  aht: number | null
+  // First month with volume, YYYY-MM
+  onboardingMonth: string
+  monthsActive: number
+}
+
+export interface ClientSegment {
+  // Self-describing, e.g. 'tiers:high-growing-seasonal' or 'kmeans:4:1'
+  id: string
+  label: string
+  clients: string[]
+  // Feature averages over the segment's clients
+  monthlyVolume: number
+  growthRate: number
+  seasonality: number
+  aht: number | null
+}
+
+export interface ClientSegmentation {
+  method: SegmentationMethod
+  segments: ClientSegment[]
+  // Segment id of every client
+  assignments: Record<string, string>
+  features: ClientFeatures[]
+}
+
+export interface CohortRow {
+  // Onboarding month, YYYY-MM
+  cohort: string
+  clients: string[]
+  // Average volume per client in each month since onboarding; null past the data
+  volumes: (number | null)[]
+  // Clients with any volume in each month since onboarding; null past the data
+  activeClients: (number | null)[]
+}
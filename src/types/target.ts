@@ -0,0 +1,61 @@
+// minimumVolume: committed monthly volume, met when volume is at or above it
+// maximumVolume: contracted monthly volume cap, met when volume is at or below it
+// aht: SLA on review plus validation AHT in seconds, met at or below it
+// turnaround: SLA on measured turnaround in hours, met at or below it
+export type TargetMetric = 'minimumVolume' | 'maximumVolume' | 'aht' | 'turnaround'
+
+export type VarianceKind = 'actual' | 'forecast'
+
+export interface ClientTarget {
+  id: string
+  clientId: string
+  clientName: string
+  metric: TargetMetric
+  value: number
+  effectiveFrom: string // YYYY-MM
+  effectiveTo: string | null // YYYY-MM, inclusive; null while the target runs on
+  notes?: string
+  createdAt: Date
+  updatedAt: Date
+  createdBy?: string
+}
+
+export interface TurnaroundMeasurement {
+  clientId: string
+  clientName: string
+  month: string // YYYY-MM
+  turnaroundHours: number
+}
+
+export interface TargetVariance {
+  targetId: string
+  clientName: string
+  metric: TargetMetric
+  month: string // YYYY-MM
+  kind: VarianceKind
+  target: number
+  value: number
+  variance: number // value - target
+  variancePercent: number | null // variance as a percentage of the target; null for a zero target
+  breached: boolean
+}
+
+export interface TargetBreach extends TargetVariance {
+  // Share of the target missed by, in percent, e.g. 18 for a volume 18% short of its minimum
+  missPercent: number
+  // e.g. "Acme will miss its March minimum volume by 18%"
+  message: string
+}
+
+export interface TargetReport {
+  variances: TargetVariance[]
+  breaches: TargetBreach[]
+  // Actual AHT and turnaround SLA breaches per client over the report months, keyed by lower-case client name
+  slaMisses: Record<string, number>
+  asOf: Date
+}
+
+export interface TargetCheckResult extends TargetReport {
+  // Breach alerts newly raised by the check
+  alerted: number
+}
@@ -24,6 +24,8 @@ export interface TranscriptFilters {
   startDate?: string
   endDate?: string
   transcriptType?: string
+  // Client segment id, e.g. 'tiers:high-growing-seasonal'
+  segment?: string
   minCount?: number
   maxCount?: number
 }
@@ -52,6 +54,9 @@ export interface Client {
   updatedAt: Date
 }
 
+// One parsed row of an uploaded file, keyed by column header; spreadsheet cells may keep their numbers and dates
+export type RawData = Record<string, string | number | Date>
+
 export interface ImportResult {
   totalRows: number
   successCount: number
@@ -63,4 +68,29 @@ export interface ImportResult {
     value: any
     message: string
   }>
-}
\ No newline at end of file
+}
+
+export interface TimePrediction {
+  date: Date
+  predictedCount: number
+  confidenceInterval: {
+    lower: number
+    upper: number
+  }
+}
+
+// M narrows modelType where only the forecasting engine's models can appear
+export interface PredictionResult<M extends string = string> {
+  id: string
+  clientId?: string
+  clientName: string
+  predictionType: 'daily' | 'weekly' | 'monthly'
+  predictions: TimePrediction[]
+  confidence: number
+  accuracy: number
+  modelType: M
+  /** Registry version of the trained model, when the model is registered */
+  modelVersion?: number
+  createdAt: Date
+  createdBy?: string
+}